@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveUpstream } from '@/lib/ai/upstream';
 
 export const runtime = 'edge';
 
@@ -7,16 +8,16 @@ export async function POST(req: NextRequest, props: { params: Promise<{ path?: s
     const { path: pathSegments } = params;
     const path = pathSegments ? pathSegments.join('/') : '';
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-        console.error('[API/AI Proxy] OPENAI_API_KEY is missing');
-        return NextResponse.json({ error: 'Server misconfiguration: API Key missing' }, { status: 500 });
-    }
-
     try {
 
         // If no path is provided, this is a SuperDoc AI direct request
         if (!path) {
+            const apiKey = process.env.OPENAI_API_KEY;
+            if (!apiKey) {
+                console.error('[API/AI Proxy] OPENAI_API_KEY is missing');
+                return NextResponse.json({ error: 'Server misconfiguration: API Key missing' }, { status: 500 });
+            }
+
             const body = await req.json();
             console.log('[API/AI] Handling SuperDoc AI direct request');
             const { messages, prompt, context } = body;
@@ -64,15 +65,18 @@ ${context || 'No context provided.'}`;
             return NextResponse.json({ content });
         }
 
-        // For path-based requests, proxy directly to OpenAI
-        const url = `https://api.openai.com/v1/${path}`;
+        // For path-based requests, proxy to the provider the path names (OpenAI by default)
+        const upstream = resolveUpstream(pathSegments || [], process.env);
+        if ('error' in upstream) {
+            console.error('[API/AI Proxy]', upstream.error);
+            return NextResponse.json({ error: `Server misconfiguration: ${upstream.error}` }, { status: 500 });
+        }
+        const { url } = upstream;
         console.log('[API/AI Proxy] Forwarding POST request to:', url);
 
         const contentType = req.headers.get('content-type') || '';
         let body: BodyInit | null = null;
-        const headers: Record<string, string> = {
-            'Authorization': `Bearer ${apiKey}`,
-        };
+        const headers: Record<string, string> = { ...upstream.headers };
 
         if (contentType.includes('multipart/form-data')) {
             // Forward raw body and content-type (boundary is crucial)
@@ -8,6 +8,7 @@ import FileExplorer from '@/components/explorer/FileExplorer';
 import EditorPanel from '@/components/editor/EditorPanel';
 import AgentPanel from '@/components/agent/AgentPanel';
 import PasswordGate from '@/components/auth/PasswordGate';
+import ModelSettingsPanel from '@/components/settings/ModelSettingsPanel';
 import { Sparkles } from 'lucide-react';
 import styles from './page.module.css';
 
@@ -48,6 +49,7 @@ function IDELayout() {
                 <span>Coming soon</span>
               </div>
             )}
+            {activeView === 'settings' && <ModelSettingsPanel />}
           </div>
         )}
 
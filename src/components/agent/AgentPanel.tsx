@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { X, ChevronDown, AlertCircle, UploadCloud } from 'lucide-react';
-import { Attachment } from '@/types';
+import { X, ChevronDown, AlertCircle, UploadCloud, History, SquarePen } from 'lucide-react';
+import { Attachment, ChatMessage as ChatMessageType } from '@/types';
 import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { getCheckpoint, removeCheckpoint } from '@/components/editor/hooks/universal-agent/checkpoints';
 import { MentionInput } from './MentionInput';
 import { useAutoScroll } from './useAutoScroll';
 import { useAiAgent } from './useAiAgent';
@@ -9,6 +10,7 @@ import { useVoiceIntegration } from './useVoiceIntegration';
 import { EmptyState } from './EmptyState';
 import { ChatMessage, LoadingMessage } from './ChatMessage';
 import { AttachmentChips } from './AttachmentChips';
+import { ChatSessionList } from './ChatSessionList';
 import styles from './AgentPanel.module.css';
 
 interface AgentPanelProps {
@@ -29,9 +31,22 @@ export default function AgentPanel({ isOpen, onClose }: AgentPanelProps) {
         rootItems,
         libraryItems,
         agentInputOverride,
-        setAgentInputOverride
+        setAgentInputOverride,
+        openTabs,
+        activeTabId,
+        chatSessions,
+        activeChatSessionId,
+        chatWorkspace,
+        newChatSession,
+        openChatSession,
+        renameChatSession,
+        forkChatSession,
+        deleteChatSession
     } = useWorkspace();
 
+    // Session list shown in place of the messages
+    const [isSessionListOpen, setIsSessionListOpen] = useState(false);
+
     // Track current search navigation index per message
     const [searchNavState, setSearchNavState] = useState<Record<string, number>>({});
 
@@ -104,6 +119,24 @@ export default function AgentPanel({ isOpen, onClose }: AgentPanelProps) {
         });
     };
 
+    // Restore the document, cells and sheets as they were before the message's turn
+    const handleRevert = (message: ChatMessageType) => {
+        const checkpoint = message.checkpointId && getCheckpoint(message.checkpointId);
+        if (!checkpoint) return;
+        if (checkpoint.hasLaterChanges() && !confirm('この後に加えられた変更も失われます。元に戻しますか？')) return;
+
+        const result = checkpoint.revert();
+        if (!result.ok) {
+            alert(result.message);
+            return;
+        }
+        if (result.warning) {
+            alert(result.warning);
+        }
+        removeCheckpoint(message.checkpointId!);
+        updateMessage(message.id, { reverted: true });
+    };
+
     // Drag and Drop handlers
     const [isDragging, setIsDragging] = useState(false);
 
@@ -208,13 +241,53 @@ export default function AgentPanel({ isOpen, onClose }: AgentPanelProps) {
         <div className={styles.panel}>
             <div className={styles.header}>
                 <div className={styles.headerTitle}>
-                    <span>AIアシスタント</span>
+                    <span>{isSessionListOpen ? 'チャット履歴' : 'AIアシスタント'}</span>
+                </div>
+                <div className={styles.headerActions}>
+                    <button
+                        className={styles.closeButton}
+                        onClick={() => {
+                            newChatSession();
+                            setIsSessionListOpen(false);
+                        }}
+                        disabled={isLoading}
+                        title="新しいチャット"
+                    >
+                        <SquarePen size={15} />
+                    </button>
+                    <button
+                        className={`${styles.closeButton} ${isSessionListOpen ? styles.headerButtonActive : ''}`}
+                        onClick={() => setIsSessionListOpen(open => !open)}
+                        title="チャット履歴"
+                    >
+                        <History size={16} />
+                    </button>
+                    <button className={styles.closeButton} onClick={onClose} title="パネルを閉じる">
+                        <X size={16} />
+                    </button>
                 </div>
-                <button className={styles.closeButton} onClick={onClose} title="パネルを閉じる">
-                    <X size={16} />
-                </button>
             </div>
 
+            {isSessionListOpen && (
+                <ChatSessionList
+                    sessions={chatSessions}
+                    activeSessionId={activeChatSessionId}
+                    workspace={chatWorkspace}
+                    activeFilePath={openTabs.find(tab => tab.id === activeTabId)?.path ?? null}
+                    disabled={isLoading}
+                    onOpen={async (id) => {
+                        await openChatSession(id);
+                        setIsSessionListOpen(false);
+                    }}
+                    onRename={renameChatSession}
+                    onFork={async (id) => {
+                        await forkChatSession(id);
+                        setIsSessionListOpen(false);
+                    }}
+                    onDelete={deleteChatSession}
+                />
+            )}
+
             {/* Voice error display */}
             {voiceError && (
                 <div className={styles.voiceError}>
@@ -224,7 +297,7 @@ export default function AgentPanel({ isOpen, onClose }: AgentPanelProps) {
             )}
 
             <div
-                className={`${styles.messages} ${isDragging ? styles.dragging : ''}`}
+                className={`${styles.messages} ${isDragging ? styles.dragging : ''} ${isSessionListOpen ? styles.hidden : ''}`}
                 ref={messagesContainerRef}
                 onScroll={handleScroll}
                 onDragEnter={handleDragEnter}
@@ -252,6 +325,7 @@ export default function AgentPanel({ isOpen, onClose }: AgentPanelProps) {
                                 onSearchNavStateChange={handleSearchNavStateChange}
                                 onSearchNavClose={handleSearchNavClose}
                                 voiceToolHandler={voiceToolHandler ?? undefined}
+                                onRevert={isLoading ? undefined : () => handleRevert(message)}
                             />
                         ))}
                         {/* Only show loading bubble if loading AND NOT using streaming handler */}
@@ -2,14 +2,32 @@
 
 /* eslint-disable @next/next/no-img-element */
 import React from 'react';
-import { User, Bot } from 'lucide-react';
+import { User, Bot, Undo2 } from 'lucide-react';
 import { ChatMessage as ChatMessageType } from '@/types';
 import { ToolCallItem } from './ToolCallItem';
 import { ReasoningItem } from './ReasoningItem';
 import { SearchResultsNavigation } from './SearchResultsNavigation';
 import { renderMessageContent } from './renderMessageContent';
+import { getCheckpoint } from '@/components/editor/hooks/universal-agent/checkpoints';
+import { formatCost, formatDuration, formatTokens, totalTokens } from '@/lib/ai/usage';
+import { TurnUsage } from '@/types';
 import styles from './AgentPanel.module.css';
 
+// Tokens, cost and time of the turn, e.g. "入力 12.3k (キャッシュ 4.0k) · 出力 850 (推論 400) · $0.0042 · 3回 · 8.2s"
+const usageSummary = ({ agent, subAgents, modelCalls, durationMs, cost }: TurnUsage): string => [
+    `入力 ${formatTokens(agent.inputTokens)}${agent.cachedTokens ? ` (キャッシュ ${formatTokens(agent.cachedTokens)})` : ''}`,
+    `出力 ${formatTokens(agent.outputTokens)}${agent.reasoningTokens ? ` (推論 ${formatTokens(agent.reasoningTokens)})` : ''}`,
+    ...(totalTokens(subAgents) > 0 ? [`サブエージェント ${formatTokens(totalTokens(subAgents))}`] : []),
+    ...(cost !== undefined ? [formatCost(cost)] : []),
+    `${modelCalls}回`,
+    formatDuration(durationMs),
+].join(' · ');
+
+const usageDetails = ({ agent, subAgents }: TurnUsage): string => [
+    `エージェント: 入力 ${agent.inputTokens.toLocaleString()} / キャッシュ ${agent.cachedTokens.toLocaleString()} / 出力 ${agent.outputTokens.toLocaleString()} / 推論 ${agent.reasoningTokens.toLocaleString()}`,
+    `サブエージェント: 入力 ${subAgents.inputTokens.toLocaleString()} / キャッシュ ${subAgents.cachedTokens.toLocaleString()} / 出力 ${subAgents.outputTokens.toLocaleString()} / 推論 ${subAgents.reasoningTokens.toLocaleString()}`,
+].join('\n');
+
 interface ChatMessageProps {
     message: ChatMessageType;
     isStreaming: boolean;
@@ -18,6 +36,8 @@ interface ChatMessageProps {
     onSearchNavStateChange: (id: string, index: number) => void;
     onSearchNavClose: (id: string) => void;
     voiceToolHandler?: (name: string, args: Record<string, unknown>) => Promise<string>;
+    /** Revert the edits of this message; not offered while the agent is running */
+    onRevert?: () => void;
 }
 
 /**
@@ -32,7 +52,11 @@ export function ChatMessage({
     onSearchNavStateChange,
     onSearchNavClose,
     voiceToolHandler,
+    onRevert,
 }: ChatMessageProps) {
+    // Checkpoints are kept in memory only, so messages restored from history cannot be reverted
+    const canRevert = !!message.checkpointId && !message.reverted && !!getCheckpoint(message.checkpointId);
+
     return (
         <div className={`${styles.message} ${styles[message.role]}`}>
             <div className={styles.messageIcon}>
@@ -137,6 +161,19 @@ export function ChatMessage({
                 )}
 
                 <div className={styles.messageText}>{renderMessageContent(message.content)}</div>
+
+                {message.role === 'assistant' && message.usage && (
+                    <div className={styles.messageUsage} title={usageDetails(message.usage)}>
+                        {usageSummary(message.usage)}
+                    </div>
+                )}
+                {message.reverted && <div className={styles.revertedLabel}>変更を元に戻しました</div>}
+                {canRevert && onRevert && (
+                    <button type="button" className={styles.revertButton} onClick={onRevert}>
+                        <Undo2 size={12} />
+                        このメッセージの変更を元に戻す
+                    </button>
+                )}
             </div>
         </div>
     );
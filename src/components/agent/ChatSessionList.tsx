@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, Pencil, GitBranch, Download, Trash2, MessageSquare } from 'lucide-react';
+import { ChatSession, ChatSessionSummary } from '@/types';
+import { Dialog } from '@/components/common/Dialog';
+import { ChatSearchResult, loadChatSession, searchChatSessions, sessionToMarkdown } from '@/lib/chat/sessions';
+import styles from './AgentPanel.module.css';
+
+type Scope = 'workspace' | 'file' | 'all';
+
+const SCOPES: { id: Scope; label: string }[] = [
+    { id: 'workspace', label: 'ワークスペース' },
+    { id: 'file', label: 'このファイル' },
+    { id: 'all', label: 'すべて' },
+];
+
+const SEARCH_DELAY = 200;
+
+interface ChatSessionListProps {
+    sessions: ChatSessionSummary[];
+    activeSessionId: string | null;
+    workspace: string;
+    activeFilePath: string | null;
+    /** Sessions cannot be switched while the agent is running */
+    disabled: boolean;
+    onOpen: (id: string) => void;
+    onRename: (id: string, title: string) => void;
+    onFork: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const formatUpdated = (time: number) => new Date(time).toLocaleString('ja-JP', {
+    month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const downloadMarkdown = (session: ChatSession) => {
+    const blob = new Blob([sessionToMarkdown(session)], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${session.title.replace(/[\\/:*?"<>|]/g, '_')}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Past chats of the workspace or the active file, with full-text search over their messages
+ */
+export function ChatSessionList({
+    sessions,
+    activeSessionId,
+    workspace,
+    activeFilePath,
+    disabled,
+    onOpen,
+    onRename,
+    onFork,
+    onDelete,
+}: ChatSessionListProps) {
+    const [scope, setScope] = useState<Scope>('workspace');
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+    const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+    const scoped = useMemo(() => sessions.filter(session => {
+        if (scope === 'all') return true;
+        if (session.workspace !== workspace) return false;
+        return scope === 'workspace' || session.filePath === activeFilePath;
+    }), [sessions, scope, workspace, activeFilePath]);
+
+    // Search loads the stored messages of the sessions in scope
+    useEffect(() => {
+        if (!query.trim()) return;
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const loaded = await Promise.all(scoped.map(session => loadChatSession(session.id)));
+            if (!cancelled) {
+                setResults(searchChatSessions(loaded.filter((session): session is ChatSession => !!session), query));
+            }
+        }, SEARCH_DELAY);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, scoped]);
+
+    const handleExport = async (id: string) => {
+        const session = await loadChatSession(id);
+        if (session) downloadMarkdown(session);
+    };
+
+    const handleDelete = (session: ChatSessionSummary) => {
+        if (confirm(`チャット「${session.title}」を削除しますか？`)) {
+            onDelete(session.id);
+        }
+    };
+
+    const searching = query.trim().length > 0;
+    const rows = searching ? (results || []) : scoped.map(session => ({ session, titleMatch: false, matches: [] }));
+
+    return (
+        <div className={styles.sessionList}>
+            <div className={styles.sessionSearch}>
+                <Search size={14} />
+                <input
+                    type="text"
+                    value={query}
+                    onChange={e => {
+                        setQuery(e.target.value);
+                        if (!e.target.value.trim()) setResults(null);
+                    }}
+                    placeholder="チャット履歴を検索"
+                />
+            </div>
+
+            <div className={styles.sessionScopes}>
+                {SCOPES.map(({ id, label }) => (
+                    <button
+                        key={id}
+                        type="button"
+                        className={`${styles.sessionScope} ${scope === id ? styles.sessionScopeActive : ''}`}
+                        onClick={() => setScope(id)}
+                        disabled={id === 'file' && !activeFilePath}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {rows.length === 0 && (
+                <div className={styles.sessionEmpty}>
+                    {searching ? '一致するチャットはありません' : '保存されたチャットはありません'}
+                </div>
+            )}
+
+            {rows.map(({ session, matches }) => (
+                <div
+                    key={session.id}
+                    className={`${styles.sessionItem} ${session.id === activeSessionId ? styles.sessionItemActive : ''}`}
+                >
+                    <button
+                        type="button"
+                        className={styles.sessionOpen}
+                        onClick={() => onOpen(session.id)}
+                        disabled={disabled}
+                        title={session.title}
+                    >
+                        <MessageSquare size={14} className={styles.sessionIcon} />
+                        <div className={styles.sessionText}>
+                            <div className={styles.sessionTitle}>{session.title}</div>
+                            <div className={styles.sessionMeta}>
+                                {formatUpdated(session.updatedAt)} · {session.messageCount}件
+                                {session.filePath && ` · ${session.filePath.split('/').pop()}`}
+                            </div>
+                            {matches.slice(0, 3).map(match => (
+                                <div key={match.messageId} className={styles.sessionSnippet}>{match.snippet}</div>
+                            ))}
+                        </div>
+                    </button>
+                    <div className={styles.sessionActions}>
+                        <button type="button" onClick={() => setRenaming({ id: session.id, title: session.title })} title="名前を変更">
+                            <Pencil size={12} />
+                        </button>
+                        <button type="button" onClick={() => onFork(session.id)} disabled={disabled} title="フォーク">
+                            <GitBranch size={12} />
+                        </button>
+                        <button type="button" onClick={() => handleExport(session.id)} title="Markdownでエクスポート">
+                            <Download size={12} />
+                        </button>
+                        <button type="button" onClick={() => handleDelete(session)} disabled={disabled} title="削除">
+                            <Trash2 size={12} />
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            <Dialog
+                isOpen={renaming !== null}
+                title="チャット名の変更"
+                message="新しい名前を入力してください:"
+                inputValue={renaming?.title || ''}
+                onChange={title => setRenaming(prev => prev && { ...prev, title })}
+                onConfirm={() => {
+                    if (renaming?.title.trim()) onRename(renaming.id, renaming.title.trim());
+                    setRenaming(null);
+                }}
+                onCancel={() => setRenaming(null)}
+                isInput={true}
+                placeholder="チャット名"
+                confirmLabel="変更"
+                cancelLabel="キャンセル"
+            />
+        </div>
+    );
+}
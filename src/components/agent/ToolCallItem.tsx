@@ -1,21 +1,33 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Wrench, ChevronDown, ChevronRight } from 'lucide-react';
+import React, { useState, useSyncExternalStore } from 'react';
+import { Wrench, ChevronDown, ChevronRight, Check, X } from 'lucide-react';
 import { ToolCall } from '@/types';
+import { isAwaitingApproval, resolveApproval, subscribeApprovals } from '@/components/editor/hooks/universal-agent/approvals';
+import { formatDuration } from '@/lib/ai/usage';
 import styles from './AgentPanel.module.css';
 
 interface ToolCallItemProps {
     tool: ToolCall;
 }
 
+const DIFF_MARKS = { added: '+', removed: '-', changed: '~' } as const;
+const DIFF_CLASSES = { added: styles.diffAdded, removed: styles.diffRemoved, changed: styles.diffChanged };
+
 /**
- * Expandable display for a single tool call showing name, status, arguments, and result
+ * Expandable display for a single tool call showing name, status, duration, arguments, and result.
+ * Calls waiting for approval show a preview of their changes with approve/deny buttons.
  */
 export function ToolCallItem({ tool }: ToolCallItemProps) {
     const [isExpanded, setIsExpanded] = useState(false);
 
+    const isPending = tool.approval === 'pending';
+    // The stored message may still say pending once the wait has ended
+    const isAwaiting = useSyncExternalStore(subscribeApprovals, () => isAwaitingApproval(tool.id), () => false);
+
     const getStatusLabel = () => {
+        if (isPending) return '承認待ち';
+        if (tool.approval === 'denied') return '拒否済み';
         switch (tool.status) {
             case 'running': return 'Running...';
             case 'success': return 'Completed';
@@ -25,6 +37,7 @@ export function ToolCallItem({ tool }: ToolCallItemProps) {
     };
 
     const getStatusClass = () => {
+        if (isPending) return styles.toolStatusPending;
         switch (tool.status) {
             case 'running': return styles.toolStatusRunning;
             case 'success': return styles.toolStatusSuccess;
@@ -39,16 +52,57 @@ export function ToolCallItem({ tool }: ToolCallItemProps) {
                 className={styles.toolHeader}
                 onClick={() => setIsExpanded(!isExpanded)}
             >
-                <div className={`${styles.toolIcon} ${tool.status === 'running' ? styles.toolIconRunning : ''}`}>
+                <div className={`${styles.toolIcon} ${tool.status === 'running' && !isPending ? styles.toolIconRunning : ''}`}>
                     <Wrench size={12} />
                 </div>
                 <span className={styles.toolName}>{tool.name}</span>
+                {tool.durationMs !== undefined && (
+                    <span className={styles.toolDuration}>{formatDuration(tool.durationMs)}</span>
+                )}
                 <span className={`${styles.toolStatus} ${getStatusClass()}`}>
                     {getStatusLabel()}
                 </span>
                 {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
             </div>
 
+            {isPending && (
+                <div className={styles.toolApproval}>
+                    {tool.preview && (
+                        <>
+                            <div className={styles.toolPreviewSummary}>{tool.preview.summary}</div>
+                            {tool.preview.lines && tool.preview.lines.length > 0 && (
+                                <pre className={styles.toolPreviewDiff}>
+                                    {tool.preview.lines.map((line, idx) => (
+                                        <div key={idx} className={DIFF_CLASSES[line.type]}>
+                                            {DIFF_MARKS[line.type]} {line.text}
+                                        </div>
+                                    ))}
+                                </pre>
+                            )}
+                        </>
+                    )}
+                    {!tool.preview && <pre className={styles.toolPreviewDiff}>{JSON.stringify(tool.args, null, 2)}</pre>}
+                    <div className={styles.toolApprovalActions}>
+                        <button
+                            type="button"
+                            className={styles.toolApprove}
+                            onClick={() => resolveApproval(tool.id, true)}
+                            disabled={!isAwaiting}
+                        >
+                            <Check size={12} /> 承認
+                        </button>
+                        <button
+                            type="button"
+                            className={styles.toolDeny}
+                            onClick={() => resolveApproval(tool.id, false)}
+                            disabled={!isAwaiting}
+                        >
+                            <X size={12} /> 拒否
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {isExpanded && (
                 <div className={styles.toolDetails}>
                     <div className={styles.toolSection}>
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
-import { ToolCall, MessageItem, ChatMessage, Attachment } from '@/types';
+import { ToolCall, MessageItem, ChatMessage, Attachment, TurnUsage } from '@/types';
+import { EMPTY_TURN_USAGE, addModelCall } from '@/lib/ai/usage';
 
 interface UseAiAgentOptions {
     agentMessages: ChatMessage[];
@@ -135,6 +136,8 @@ function useAiAgentHook({
                 let currentContent = '';
                 let currentItems: MessageItem[] = [];
                 let currentReasoningId: string | null = null;
+                let currentUsage: TurnUsage = EMPTY_TURN_USAGE;
+                const startedAt = Date.now();
 
                 await aiActionHandler(userMessage, history, (event) => {
                     if (event.type === 'content_delta') {
@@ -205,13 +208,34 @@ function useAiAgentHook({
                                         ...item.data,
                                         result: event.result,
                                         status: event.status,
-                                        ...(event.args ? { args: event.args } : {})
+                                        ...(event.args ? { args: event.args } : {}),
+                                        ...(event.durationMs !== undefined ? { durationMs: event.durationMs } : {})
                                     }
                                 }
                                 : item
                         );
                         updateMessage(assistantMsgId, { items: currentItems });
+                    } else if (event.type === 'tool_approval') {
+                        currentItems = currentItems.map(item =>
+                            item.type === 'tool_call' && item.data.id === event.id
+                                ? { ...item, data: { ...item.data, args: event.args, approval: 'pending', preview: event.preview } }
+                                : item
+                        );
+                        updateMessage(assistantMsgId, { items: currentItems });
+                    } else if (event.type === 'tool_approval_result') {
+                        currentItems = currentItems.map(item =>
+                            item.type === 'tool_call' && item.data.id === event.id
+                                ? { ...item, data: { ...item.data, approval: event.approved ? 'approved' : 'denied' } }
+                                : item
+                        );
+                        updateMessage(assistantMsgId, { items: currentItems });
+                    } else if (event.type === 'usage') {
+                        currentUsage = addModelCall(currentUsage, event.source, event.usage, event.cost);
+                        updateMessage(assistantMsgId, { usage: { ...currentUsage, durationMs: Date.now() - startedAt } });
+                    } else if (event.type === 'checkpoint') {
+                        updateMessage(assistantMsgId, { checkpointId: event.checkpointId });
                     } else if (event.type === 'run_completed') {
+                        updateMessage(assistantMsgId, { usage: { ...currentUsage, durationMs: Date.now() - startedAt } });
                         setIsLoading(false);
                         setIsStreaming(false);
                         setStreamingMsgId(null);
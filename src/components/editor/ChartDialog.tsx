@@ -0,0 +1,243 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, BarChart3 } from 'lucide-react';
+
+import { chartFromRange, ChartType, SpreadsheetChart } from '@/lib/xlsx/charts';
+import { parseSqref } from '@/lib/xlsx/conditionalFormat';
+
+interface ChartDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sheetName: string;
+    /** Chart being edited, null to insert a new one */
+    chart: SpreadsheetChart | null;
+    /** Range of the current selection, proposed as the data of new charts */
+    selectionRange: string;
+    onApply: (chart: SpreadsheetChart) => void;
+}
+
+const TYPE_OPTIONS: { id: ChartType; label: string }[] = [
+    { id: 'column', label: '縦棒' },
+    { id: 'bar', label: '横棒' },
+    { id: 'line', label: '折れ線' },
+    { id: 'pie', label: '円' },
+];
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '13px',
+    backgroundColor: '#fff',
+    boxSizing: 'border-box',
+};
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', color: '#6b7280', display: 'block', marginBottom: '4px' };
+
+/**
+ * Dialog to insert a chart from a block of cells, or to change the type and title of an
+ * existing chart (its data stays bound to the cells it was created from).
+ */
+export const ChartDialog: React.FC<ChartDialogProps> = ({
+    isOpen,
+    onClose,
+    sheetName,
+    chart,
+    selectionRange,
+    onApply,
+}) => {
+    const [type, setType] = useState<ChartType>('column');
+    const [title, setTitle] = useState('');
+    const [range, setRange] = useState('');
+    const [headers, setHeaders] = useState(true);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        // eslint-disable-next-line react-hooks/set-state-in-effect
+        setType(chart?.type || 'column');
+        setTitle(chart?.title || '');
+        setRange(selectionRange);
+        setHeaders(true);
+        setFormError(null);
+    }, [isOpen, chart, selectionRange]);
+
+    if (!isOpen) return null;
+
+    const handleApply = () => {
+        if (chart) {
+            onApply({ ...chart, type, title: title.trim() || undefined });
+            onClose();
+            return;
+        }
+        const [cellRange] = parseSqref(range.toUpperCase());
+        if (!cellRange || /\s/.test(range.trim())) {
+            setFormError('データ範囲を A1:C10 の形式で入力してください。');
+            return;
+        }
+        onApply(chartFromRange(sheetName, cellRange, { type, title: title.trim() || undefined, headers }));
+        onClose();
+    };
+
+    return createPortal(
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 10000,
+            }}
+            onClick={onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#fff',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 40px rgba(0, 0, 0, 0.2)',
+                    width: '420px',
+                    maxHeight: '90vh',
+                    overflow: 'hidden',
+                    display: 'flex',
+                    flexDirection: 'column',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div
+                    style={{
+                        padding: '16px 20px',
+                        borderBottom: '1px solid #e5e7eb',
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        background: 'linear-gradient(to right, #667eea, #764ba2)',
+                    }}
+                >
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <BarChart3 size={20} color="#fff" />
+                        <h2 style={{ margin: 0, fontSize: '16px', fontWeight: 600, color: '#fff' }}>
+                            {chart ? 'グラフの編集' : 'グラフの挿入'}: {sheetName}
+                        </h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'rgba(255,255,255,0.2)',
+                            border: 'none',
+                            width: '28px',
+                            height: '28px',
+                            borderRadius: '6px',
+                            cursor: 'pointer',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                        }}
+                    >
+                        <X size={16} color="#fff" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div style={{ padding: '20px', overflow: 'auto', flex: 1 }}>
+                    <div style={{ marginBottom: '12px' }}>
+                        <label style={labelStyle}>種類</label>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px' }}>
+                            {TYPE_OPTIONS.map(option => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => setType(option.id)}
+                                    style={{
+                                        padding: '8px 0',
+                                        borderRadius: '6px',
+                                        border: `1px solid ${type === option.id ? '#667eea' : '#d1d5db'}`,
+                                        backgroundColor: type === option.id ? '#eef2ff' : '#fff',
+                                        color: type === option.id ? '#667eea' : '#374151',
+                                        cursor: 'pointer',
+                                        fontSize: '13px',
+                                    }}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div style={{ marginBottom: '12px' }}>
+                        <label style={labelStyle}>タイトル</label>
+                        <input type="text" value={title} onChange={e => setTitle(e.target.value)} style={inputStyle} />
+                    </div>
+                    {chart ? (
+                        <div style={{ fontSize: '12px', color: '#6b7280' }}>
+                            データ: {chart.series.map(s => s.values).join(', ')}
+                        </div>
+                    ) : (
+                        <>
+                            <div style={{ marginBottom: '12px' }}>
+                                <label style={labelStyle}>データ範囲（1 列目が項目、残りの列が系列）</label>
+                                <input type="text" value={range} placeholder="A1:C10" onChange={e => setRange(e.target.value)} style={inputStyle} />
+                            </div>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#374151' }}>
+                                <input type="checkbox" checked={headers} onChange={e => setHeaders(e.target.checked)} style={{ accentColor: '#667eea' }} />
+                                1 行目を系列名として使用
+                            </label>
+                        </>
+                    )}
+                    {formError && <div style={{ fontSize: '12px', color: '#dc2626', marginTop: '8px' }}>{formError}</div>}
+                </div>
+
+                {/* Footer */}
+                <div
+                    style={{
+                        padding: '16px 20px',
+                        borderTop: '1px solid #e5e7eb',
+                        display: 'flex',
+                        justifyContent: 'flex-end',
+                        gap: '10px',
+                        backgroundColor: '#f9fafb',
+                    }}
+                >
+                    <button
+                        onClick={onClose}
+                        style={{
+                            padding: '10px 20px',
+                            borderRadius: '8px',
+                            border: '1px solid #d1d5db',
+                            backgroundColor: '#fff',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            fontWeight: 500,
+                            color: '#374151',
+                        }}
+                    >
+                        キャンセル
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        style={{
+                            padding: '10px 24px',
+                            borderRadius: '8px',
+                            border: 'none',
+                            background: 'linear-gradient(to right, #667eea, #764ba2)',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            fontWeight: 600,
+                            color: '#fff',
+                            boxShadow: '0 2px 8px rgba(102, 126, 234, 0.4)',
+                        }}
+                    >
+                        {chart ? '適用' : '挿入'}
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
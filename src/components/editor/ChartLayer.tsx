@@ -0,0 +1,316 @@
+'use client';
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Pencil, Trash2 } from 'lucide-react';
+
+import { ChartAnchor, ChartCellReader, chartData, SpreadsheetChart } from '@/lib/xlsx/charts';
+
+export interface ChartLayerHandle {
+    /** Redraw the charts of the active sheet (after edits, sheet switches or size changes) */
+    refresh: () => void;
+}
+
+interface ChartLayerProps {
+    /** FortuneSheet Workbook instance */
+    workbookRef: React.RefObject<any>;
+    containerRef: React.RefObject<HTMLDivElement | null>;
+    onEdit: (chart: SpreadsheetChart) => void;
+    /** Replace the charts of the active sheet */
+    onChange: (charts: SpreadsheetChart[]) => void;
+}
+
+interface Layout {
+    cellArea: HTMLElement;
+    charts: SpreadsheetChart[];
+    read: ChartCellReader;
+    colOffset: (c: number) => number;
+    rowOffset: (r: number) => number;
+}
+
+// Office default series colors
+const PALETTE = ['#4472c4', '#ed7d31', '#a5a5a5', '#ffc000', '#5b9bd5', '#70ad47', '#264478', '#9e480e', '#636363', '#997300'];
+const MAX_INDEX = 16384;
+
+/** Pixel offsets of rows or columns the way FortuneSheet lays them out (hidden ones take no space) */
+const offsets = (sizes: Record<string, number> | undefined, hidden: Record<string, number> | undefined, fallback: number, zoom: number) => {
+    const cache = [0];
+    return (index: number): number => {
+        for (let i = cache.length - 1; i < index; i++) {
+            cache.push(cache[i] + (hidden?.[i] != null ? 0 : Math.round(((sizes?.[i] || fallback) + 1) * zoom)));
+        }
+        return cache[index];
+    };
+};
+
+// Index of the row or column a pixel offset falls in
+const indexAt = (offset: (i: number) => number, px: number): number => {
+    let i = 0;
+    while (i < MAX_INDEX && offset(i + 1) <= px) i++;
+    return i;
+};
+
+const formatTick = (value: number): string =>
+    Math.abs(value) >= 1000 ? value.toLocaleString() : String(Math.round(value * 100) / 100);
+
+// Round axis maximum up to 1, 2 or 5 times a power of ten
+const niceMax = (value: number): number => {
+    if (value <= 0) return 1;
+    const power = Math.pow(10, Math.floor(Math.log10(value)));
+    return [1, 2, 5, 10].map(step => step * power).find(step => step >= value)!;
+};
+
+const ChartSvg: React.FC<{ chart: SpreadsheetChart; read: ChartCellReader; width: number; height: number }> = ({ chart, read, width, height }) => {
+    const { categories, series } = chartData(chart, read);
+    const titleHeight = chart.title ? 28 : 8;
+    const legendHeight = 22;
+    const plotHeight = Math.max(10, height - titleHeight - legendHeight);
+    const legend = chart.type === 'pie'
+        ? categories.map((name, i) => ({ name, color: PALETTE[i % PALETTE.length] }))
+        : series.map((s, i) => ({ name: s.name, color: PALETTE[i % PALETTE.length] }));
+
+    let plot: React.ReactNode;
+    if (chart.type === 'pie') {
+        const values = (series[0]?.values || []).map(v => Math.max(0, v ?? 0));
+        const total = values.reduce((a, b) => a + b, 0);
+        const radius = Math.max(4, Math.min(width, plotHeight) / 2 - 8);
+        const cx = width / 2;
+        const cy = titleHeight + plotHeight / 2;
+        let angle = -Math.PI / 2;
+        plot = total > 0 && values.map((value, i) => {
+            const sweep = (value / total) * Math.PI * 2;
+            const start = angle;
+            angle += sweep;
+            if (sweep >= Math.PI * 2 - 1e-9) return <circle key={i} cx={cx} cy={cy} r={radius} fill={PALETTE[i % PALETTE.length]} />;
+            const point = (a: number) => `${cx + radius * Math.cos(a)} ${cy + radius * Math.sin(a)}`;
+            return (
+                <path
+                    key={i}
+                    d={`M ${cx} ${cy} L ${point(start)} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${point(angle)} Z`}
+                    fill={PALETTE[i % PALETTE.length]}
+                    stroke="#fff"
+                />
+            );
+        });
+    } else {
+        const numbers = series.flatMap(s => s.values.filter((v): v is number => v !== null));
+        const max = niceMax(Math.max(0, ...numbers));
+        const min = Math.min(0, ...numbers) < 0 ? -niceMax(-Math.min(0, ...numbers)) : 0;
+        const horizontal = chart.type === 'bar';
+        const left = horizontal ? 60 : 44;
+        const box = { x: left, y: titleHeight, w: Math.max(10, width - left - 12), h: Math.max(10, plotHeight - 20) };
+        // Position along the value axis
+        const scale = (v: number) => ((v - min) / (max - min)) * (horizontal ? box.w : box.h);
+        const band = (horizontal ? box.h : box.w) / Math.max(1, categories.length);
+        const ticks = [0, 1, 2, 3, 4].map(i => min + ((max - min) * i) / 4);
+
+        const grid = ticks.map(tick => horizontal ? (
+            <g key={tick}>
+                <line x1={box.x + scale(tick)} x2={box.x + scale(tick)} y1={box.y} y2={box.y + box.h} stroke="#e5e7eb" />
+                <text x={box.x + scale(tick)} y={box.y + box.h + 14} fontSize={10} fill="#6b7280" textAnchor="middle">{formatTick(tick)}</text>
+            </g>
+        ) : (
+            <g key={tick}>
+                <line x1={box.x} x2={box.x + box.w} y1={box.y + box.h - scale(tick)} y2={box.y + box.h - scale(tick)} stroke="#e5e7eb" />
+                <text x={box.x - 4} y={box.y + box.h - scale(tick) + 3} fontSize={10} fill="#6b7280" textAnchor="end">{formatTick(tick)}</text>
+            </g>
+        ));
+        const labels = categories.map((label, i) => horizontal ? (
+            <text key={i} x={box.x - 4} y={box.y + band * (i + 0.5) + 3} fontSize={10} fill="#6b7280" textAnchor="end">{label}</text>
+        ) : (
+            <text key={i} x={box.x + band * (i + 0.5)} y={box.y + box.h + 14} fontSize={10} fill="#6b7280" textAnchor="middle">{label}</text>
+        ));
+
+        let marks: React.ReactNode;
+        if (chart.type === 'line') {
+            marks = series.map((s, si) => {
+                const points = s.values.map((v, i) => (v === null ? null : `${box.x + band * (i + 0.5)},${box.y + box.h - scale(v)}`));
+                // Blank cells leave gaps
+                const runs = points.reduce<string[][]>((acc, p) => {
+                    if (p === null) acc.push([]);
+                    else acc[acc.length - 1].push(p);
+                    return acc;
+                }, [[]]).filter(run => run.length > 0);
+                return runs.map((run, ri) => (
+                    <polyline key={`${si}-${ri}`} points={run.join(' ')} fill="none" stroke={PALETTE[si % PALETTE.length]} strokeWidth={2} />
+                ));
+            });
+        } else {
+            const barSize = (band * 0.7) / Math.max(1, series.length);
+            marks = series.map((s, si) => s.values.map((v, i) => {
+                if (v === null) return null;
+                const offset = band * 0.15 + barSize * si + band * i;
+                const from = scale(Math.min(0, v));
+                const length = Math.abs(scale(v) - scale(0));
+                return horizontal
+                    ? <rect key={`${si}-${i}`} x={box.x + from} y={box.y + offset} width={length} height={barSize} fill={PALETTE[si % PALETTE.length]} />
+                    : <rect key={`${si}-${i}`} x={box.x + offset} y={box.y + box.h - from - length} width={barSize} height={length} fill={PALETTE[si % PALETTE.length]} />;
+            }));
+        }
+        plot = <>{grid}{labels}{marks}</>;
+    }
+
+    return (
+        <svg width={width} height={height} style={{ display: 'block' }}>
+            {chart.title && (
+                <text x={width / 2} y={19} fontSize={14} fontWeight={600} fill="#374151" textAnchor="middle">{chart.title}</text>
+            )}
+            {plot}
+            <g transform={`translate(8 ${height - 8})`}>
+                {legend.slice(0, 8).map((item, i) => (
+                    <g key={i} transform={`translate(${i * Math.max(60, (width - 16) / Math.min(8, legend.length))} 0)`}>
+                        <rect x={0} y={-8} width={8} height={8} fill={item.color} />
+                        <text x={12} y={0} fontSize={10} fill="#374151">{item.name.slice(0, 14)}</text>
+                    </g>
+                ))}
+            </g>
+        </svg>
+    );
+};
+
+/**
+ * Draws the charts of the active sheet over the grid, inside FortuneSheet's cell area so they
+ * scroll with the cells they are anchored to. A selected chart can be dragged to another
+ * position, edited or deleted.
+ */
+export const ChartLayer = forwardRef<ChartLayerHandle, ChartLayerProps>(({ workbookRef, containerRef, onEdit, onChange }, ref) => {
+    const [layout, setLayout] = useState<Layout | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [drag, setDrag] = useState<{ id: string; x: number; y: number; dx: number; dy: number } | null>(null);
+
+    const refresh = useCallback(() => {
+        const workbook = workbookRef.current;
+        const cellArea = containerRef.current?.querySelector<HTMLElement>('.fortune-cell-area');
+        const sheet = workbook?.getSheet();
+        if (!cellArea || !sheet) {
+            setLayout(null);
+            return;
+        }
+        const allSheets = workbook.getAllSheets();
+        const zoom = sheet.zoomRatio || 1;
+        const read: ChartCellReader = (sheetName, r, c) => {
+            const source = sheetName ? allSheets.find((s: any) => s.name === sheetName) : sheet;
+            const cell = source?.data
+                ? source.data[r]?.[c]
+                : source?.celldata?.find((d: any) => d.r === r && d.c === c)?.v;
+            return cell?.v ?? cell?.m;
+        };
+        setLayout({
+            cellArea,
+            charts: sheet.charts || [],
+            read,
+            colOffset: offsets(sheet.config?.columnlen, sheet.config?.colhidden, sheet.defaultColWidth || 73, zoom),
+            rowOffset: offsets(sheet.config?.rowlen, sheet.config?.rowhidden, sheet.defaultRowHeight || 19, zoom),
+        });
+    }, [workbookRef, containerRef]);
+
+    useImperativeHandle(ref, () => ({ refresh }), [refresh]);
+
+    // Clicking anywhere else deselects
+    useEffect(() => {
+        const handleMouseDown = (e: MouseEvent) => {
+            if (!(e.target as HTMLElement).closest?.('[data-chart-id]')) setSelectedId(null);
+        };
+        document.addEventListener('mousedown', handleMouseDown);
+        return () => document.removeEventListener('mousedown', handleMouseDown);
+    }, []);
+
+    useEffect(() => {
+        if (!drag || !layout) return;
+        const handleMouseMove = (e: MouseEvent) => setDrag(d => d && { ...d, dx: e.clientX - d.x, dy: e.clientY - d.y });
+        const handleMouseUp = () => {
+            const chart = layout.charts.find(c => c.id === drag.id);
+            setDrag(null);
+            if (!chart || (drag.dx === 0 && drag.dy === 0)) return;
+            const { from, to } = chart.anchor;
+            const c = indexAt(layout.colOffset, Math.max(0, layout.colOffset(from.c) + drag.dx + 1));
+            const r = indexAt(layout.rowOffset, Math.max(0, layout.rowOffset(from.r) + drag.dy + 1));
+            const anchor: ChartAnchor = { from: { r, c }, to: { r: r + to.r - from.r, c: c + to.c - from.c } };
+            onChange(layout.charts.map(existing => (existing.id === chart.id ? { ...existing, anchor } : existing)));
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [drag, layout, onChange]);
+
+    if (!layout || layout.charts.length === 0) return null;
+
+    return createPortal(
+        <>
+            {layout.charts.map(chart => {
+                const { from, to } = chart.anchor;
+                const left = layout.colOffset(from.c);
+                const top = layout.rowOffset(from.r);
+                const width = Math.max(80, layout.colOffset(to.c) - left);
+                const height = Math.max(60, layout.rowOffset(to.r) - top);
+                const moving = drag?.id === chart.id;
+                const selected = selectedId === chart.id;
+                return (
+                    <div
+                        key={chart.id}
+                        data-chart-id={chart.id}
+                        style={{
+                            position: 'absolute',
+                            left: left + (moving ? drag.dx : 0),
+                            top: top + (moving ? drag.dy : 0),
+                            width,
+                            height,
+                            backgroundColor: '#fff',
+                            border: `1px solid ${selected ? '#667eea' : '#d1d5db'}`,
+                            boxShadow: selected ? '0 0 0 2px rgba(102, 126, 234, 0.3)' : undefined,
+                            cursor: 'move',
+                            zIndex: 20,
+                            userSelect: 'none',
+                        }}
+                        onMouseDown={e => {
+                            // Keep FortuneSheet from starting a cell selection under the chart
+                            e.stopPropagation();
+                            if (e.button !== 0) return;
+                            setSelectedId(chart.id);
+                            setDrag({ id: chart.id, x: e.clientX, y: e.clientY, dx: 0, dy: 0 });
+                        }}
+                        onDoubleClick={e => {
+                            e.stopPropagation();
+                            onEdit(chart);
+                        }}
+                    >
+                        <ChartSvg chart={chart} read={layout.read} width={width - 2} height={height - 2} />
+                        {selected && !moving && (
+                            <div style={{ position: 'absolute', top: 4, right: 4, display: 'flex', gap: 4 }}>
+                                {[
+                                    { title: '編集', icon: <Pencil size={14} />, action: () => onEdit(chart) },
+                                    { title: '削除', icon: <Trash2 size={14} />, action: () => onChange(layout.charts.filter(c => c.id !== chart.id)) },
+                                ].map(button => (
+                                    <button
+                                        key={button.title}
+                                        title={button.title}
+                                        onMouseDown={e => e.stopPropagation()}
+                                        onClick={button.action}
+                                        style={{
+                                            display: 'flex',
+                                            padding: 4,
+                                            border: '1px solid #d1d5db',
+                                            borderRadius: 4,
+                                            backgroundColor: '#fff',
+                                            color: '#6b7280',
+                                            cursor: 'pointer',
+                                        }}
+                                    >
+                                        {button.icon}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </>,
+        layout.cellArea
+    );
+});
+
+ChartLayer.displayName = 'ChartLayer';
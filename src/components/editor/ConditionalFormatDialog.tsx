@@ -0,0 +1,497 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Highlighter, Pencil, Trash2, Plus } from 'lucide-react';
+
+import {
+    buildRule,
+    ConditionFormatRule,
+    ConditionFormatSpec,
+    ConditionKind,
+    DEFAULT_HIGHLIGHT,
+    formatSqref,
+    parseSqref,
+    ruleToSpec,
+} from '@/lib/xlsx/conditionalFormat';
+
+interface ConditionalFormatDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sheetName: string;
+    rules: ConditionFormatRule[];
+    /** Range of the current selection, proposed for new rules */
+    selectionRange: string;
+    onApply: (rules: ConditionFormatRule[]) => void;
+}
+
+const CONDITION_OPTIONS: { id: ConditionKind; label: string }[] = [
+    { id: 'greaterThan', label: '指定の値より大きい' },
+    { id: 'lessThan', label: '指定の値より小さい' },
+    { id: 'between', label: '指定の範囲内' },
+    { id: 'equal', label: '指定の値に等しい' },
+    { id: 'textContains', label: '指定の文字列を含む' },
+    { id: 'duplicateValue', label: '重複する値' },
+    { id: 'uniqueValue', label: '一意の値' },
+    { id: 'top10', label: '上位' },
+    { id: 'last10', label: '下位' },
+    { id: 'aboveAverage', label: '平均より上' },
+    { id: 'belowAverage', label: '平均より下' },
+    { id: 'formula', label: '数式を使用' },
+    { id: 'dataBar', label: 'データバー' },
+    { id: 'colorScale', label: 'カラースケール' },
+];
+
+interface RuleForm {
+    range: string;
+    condition: ConditionKind;
+    value: string;
+    value2: string;
+    percent: boolean;
+    textColor: string;
+    cellColor: string;
+    barColor: string;
+    /** Color scale: minimum, midpoint, maximum */
+    scaleColors: string[];
+}
+
+const emptyForm = (range: string): RuleForm => ({
+    range,
+    condition: 'greaterThan',
+    value: '',
+    value2: '',
+    percent: false,
+    textColor: DEFAULT_HIGHLIGHT.textColor!,
+    cellColor: DEFAULT_HIGHLIGHT.cellColor!,
+    barColor: '#638ec6',
+    scaleColors: ['#f8696b', '#ffeb84', '#63be7b'],
+});
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '13px',
+    backgroundColor: '#fff',
+    boxSizing: 'border-box',
+};
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', color: '#6b7280', display: 'block', marginBottom: '4px' };
+
+const iconButtonStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: 'none',
+    padding: '4px',
+    cursor: 'pointer',
+    display: 'flex',
+    color: '#6b7280',
+};
+
+const describeRule = (rule: ConditionFormatRule): string => {
+    const spec = ruleToSpec(rule);
+    if (!spec) {
+        if (rule.type === 'icons') return 'アイコンセット';
+        if (rule.conditionName === 'occurrenceDate') return `日付: ${rule.conditionValue?.[0] ?? ''}`;
+        return 'その他のルール';
+    }
+    const label = CONDITION_OPTIONS.find(o => o.id === spec.condition)?.label || spec.condition;
+    switch (spec.condition) {
+        case 'greaterThan':
+        case 'lessThan':
+        case 'equal':
+        case 'textContains':
+            return `${label}: ${spec.value}`;
+        case 'between':
+            return `${label}: ${spec.value} 〜 ${spec.value2}`;
+        case 'top10':
+        case 'last10':
+            return `${label} ${spec.value}${spec.percent ? '%' : '件'}`;
+        case 'formula':
+            return `数式: ${spec.value}`;
+        default:
+            return label;
+    }
+};
+
+/**
+ * Dialog listing the conditional formatting rules of the active sheet, with a form to add,
+ * edit and delete rules. Rules later in the list win when several apply to a cell.
+ */
+export const ConditionalFormatDialog: React.FC<ConditionalFormatDialogProps> = ({
+    isOpen,
+    onClose,
+    sheetName,
+    rules,
+    selectionRange,
+    onApply,
+}) => {
+    const [draft, setDraft] = useState<ConditionFormatRule[]>([]);
+    const [form, setForm] = useState<RuleForm>(emptyForm(''));
+    // Index of the rule loaded into the form, null while adding a new rule
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        // eslint-disable-next-line react-hooks/set-state-in-effect
+        setDraft(rules);
+        setForm(emptyForm(selectionRange));
+        setEditingIndex(null);
+        setFormError(null);
+    }, [isOpen, rules, selectionRange]);
+
+    if (!isOpen) return null;
+
+    const update = (changes: Partial<RuleForm>) => setForm({ ...form, ...changes });
+
+    const needsValue = ['greaterThan', 'lessThan', 'equal', 'between', 'textContains', 'top10', 'last10', 'formula'].includes(form.condition);
+    const isHighlight = !['dataBar', 'colorScale'].includes(form.condition);
+
+    const startEdit = (index: number) => {
+        const spec = ruleToSpec(draft[index]);
+        if (!spec) return;
+        const defaults = emptyForm(formatSqref(draft[index].cellrange));
+        setForm({
+            ...defaults,
+            condition: spec.condition,
+            value: spec.value ?? '',
+            value2: spec.value2 ?? '',
+            percent: !!spec.percent,
+            textColor: spec.textColor ?? '',
+            cellColor: spec.cellColor ?? '',
+            barColor: spec.condition === 'dataBar' && spec.colors ? spec.colors[0] : defaults.barColor,
+            // A two-color scale gets the default midpoint when edited
+            scaleColors: spec.condition === 'colorScale' && spec.colors
+                ? (spec.colors.length === 2 ? [spec.colors[0], defaults.scaleColors[1], spec.colors[1]] : spec.colors)
+                : defaults.scaleColors,
+        });
+        setEditingIndex(index);
+        setFormError(null);
+    };
+
+    const saveForm = () => {
+        const cellrange = parseSqref(form.range.toUpperCase());
+        if (cellrange.length === 0) {
+            setFormError('適用範囲を A1:B10 の形式で入力してください。');
+            return;
+        }
+        if (needsValue && !form.value.trim()) {
+            setFormError('値を入力してください。');
+            return;
+        }
+        const spec: ConditionFormatSpec = {
+            condition: form.condition,
+            value: form.value.trim(),
+            value2: form.value2.trim(),
+            percent: form.percent,
+            textColor: form.textColor || undefined,
+            cellColor: form.cellColor || undefined,
+            colors: form.condition === 'dataBar' ? [form.barColor] : form.scaleColors,
+        };
+        const rule = buildRule(spec, cellrange);
+        setDraft(editingIndex === null ? [...draft, rule] : draft.map((r, i) => (i === editingIndex ? rule : r)));
+        setForm(emptyForm(selectionRange));
+        setEditingIndex(null);
+        setFormError(null);
+    };
+
+    const removeRule = (index: number) => {
+        setDraft(draft.filter((_, i) => i !== index));
+        if (editingIndex === index) {
+            setForm(emptyForm(selectionRange));
+            setEditingIndex(null);
+        } else if (editingIndex !== null && editingIndex > index) {
+            setEditingIndex(editingIndex - 1);
+        }
+    };
+
+    const handleApply = () => {
+        onApply(draft);
+        onClose();
+    };
+
+    const colorField = (label: string, value: string, onChange: (value: string) => void, optional: boolean) => (
+        <div>
+            <label style={labelStyle}>{label}</label>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <input type="color" value={value || '#ffffff'} onChange={e => onChange(e.target.value)} style={{ width: '36px', height: '30px', border: 'none', padding: 0 }} />
+                {optional && (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', color: '#6b7280' }}>
+                        <input type="checkbox" checked={!value} onChange={e => onChange(e.target.checked ? '' : '#000000')} />
+                        なし
+                    </label>
+                )}
+            </div>
+        </div>
+    );
+
+    return createPortal(
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 10000,
+            }}
+            onClick={onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#fff',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 40px rgba(0, 0, 0, 0.2)',
+                    width: '520px',
+                    maxHeight: '90vh',
+                    overflow: 'hidden',
+                    display: 'flex',
+                    flexDirection: 'column',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div
+                    style={{
+                        padding: '16px 20px',
+                        borderBottom: '1px solid #e5e7eb',
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        background: 'linear-gradient(to right, #667eea, #764ba2)',
+                    }}
+                >
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <Highlighter size={20} color="#fff" />
+                        <h2 style={{ margin: 0, fontSize: '16px', fontWeight: 600, color: '#fff' }}>
+                            条件付き書式: {sheetName}
+                        </h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'rgba(255,255,255,0.2)',
+                            border: 'none',
+                            width: '28px',
+                            height: '28px',
+                            borderRadius: '6px',
+                            cursor: 'pointer',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                        }}
+                    >
+                        <X size={16} color="#fff" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div style={{ padding: '20px', overflow: 'auto', flex: 1 }}>
+                    {/* Rule list */}
+                    <div style={{ marginBottom: '20px' }}>
+                        <h3 style={{ margin: '0 0 8px', fontSize: '14px', fontWeight: 600, color: '#374151' }}>ルール</h3>
+                        {draft.length === 0 && (
+                            <div style={{ fontSize: '12px', color: '#9ca3af' }}>このシートには条件付き書式がありません。</div>
+                        )}
+                        {draft.map((rule, index) => {
+                            const format = rule.type === 'default' ? rule.format as { textColor?: string | null; cellColor?: string | null } : null;
+                            return (
+                                <div
+                                    key={index}
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '8px',
+                                        padding: '6px 8px',
+                                        borderRadius: '6px',
+                                        border: `1px solid ${editingIndex === index ? '#667eea' : '#e5e7eb'}`,
+                                        marginBottom: '6px',
+                                    }}
+                                >
+                                    <span
+                                        style={{
+                                            width: '28px',
+                                            textAlign: 'center',
+                                            fontSize: '12px',
+                                            fontWeight: 600,
+                                            borderRadius: '4px',
+                                            color: format?.textColor || '#374151',
+                                            backgroundColor: format?.cellColor || '#f3f4f6',
+                                        }}
+                                    >
+                                        Aa
+                                    </span>
+                                    <span style={{ flex: 1, fontSize: '13px', color: '#374151' }}>{describeRule(rule)}</span>
+                                    <span style={{ fontSize: '12px', color: '#9ca3af' }}>{formatSqref(rule.cellrange)}</span>
+                                    {ruleToSpec(rule) && (
+                                        <button style={iconButtonStyle} title="編集" onClick={() => startEdit(index)}>
+                                            <Pencil size={14} />
+                                        </button>
+                                    )}
+                                    <button style={iconButtonStyle} title="削除" onClick={() => removeRule(index)}>
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Rule form */}
+                    <div style={{ borderTop: '1px solid #e5e7eb', paddingTop: '16px' }}>
+                        <h3 style={{ margin: '0 0 12px', fontSize: '14px', fontWeight: 600, color: '#374151' }}>
+                            {editingIndex === null ? '新しいルール' : 'ルールの編集'}
+                        </h3>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginBottom: '12px' }}>
+                            <div>
+                                <label style={labelStyle}>適用範囲</label>
+                                <input type="text" value={form.range} placeholder="A2:A100" onChange={e => update({ range: e.target.value })} style={inputStyle} />
+                            </div>
+                            <div>
+                                <label style={labelStyle}>条件</label>
+                                <select value={form.condition} onChange={e => update({ condition: e.target.value as ConditionKind })} style={inputStyle}>
+                                    {CONDITION_OPTIONS.map(option => (
+                                        <option key={option.id} value={option.id}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        {needsValue && (
+                            <div style={{ display: 'grid', gridTemplateColumns: form.condition === 'between' ? '1fr 1fr' : '1fr', gap: '12px', marginBottom: '12px' }}>
+                                <div>
+                                    <label style={labelStyle}>
+                                        {form.condition === 'formula' ? '数式（範囲の左上のセルに対して記述）' : form.condition === 'top10' || form.condition === 'last10' ? '件数' : '値'}
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={form.value}
+                                        placeholder={form.condition === 'formula' ? '=A2<TODAY()' : ''}
+                                        onChange={e => update({ value: e.target.value })}
+                                        style={inputStyle}
+                                    />
+                                </div>
+                                {form.condition === 'between' && (
+                                    <div>
+                                        <label style={labelStyle}>上限</label>
+                                        <input type="text" value={form.value2} onChange={e => update({ value2: e.target.value })} style={inputStyle} />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {(form.condition === 'top10' || form.condition === 'last10') && (
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#374151', marginBottom: '12px' }}>
+                                <input type="checkbox" checked={form.percent} onChange={e => update({ percent: e.target.checked })} style={{ accentColor: '#667eea' }} />
+                                パーセントで指定
+                            </label>
+                        )}
+
+                        <div style={{ display: 'flex', gap: '16px', marginBottom: '12px' }}>
+                            {isHighlight && colorField('文字色', form.textColor, textColor => update({ textColor }), true)}
+                            {isHighlight && colorField('背景色', form.cellColor, cellColor => update({ cellColor }), true)}
+                            {form.condition === 'dataBar' && colorField('バーの色', form.barColor, barColor => update({ barColor }), false)}
+                            {form.condition === 'colorScale' && ['最小値', '中間値', '最大値'].map((label, i) => (
+                                <React.Fragment key={label}>
+                                    {colorField(label, form.scaleColors[i], color => update({ scaleColors: form.scaleColors.map((c, j) => (j === i ? color : c)) }), false)}
+                                </React.Fragment>
+                            ))}
+                        </div>
+
+                        {formError && <div style={{ fontSize: '12px', color: '#dc2626', marginBottom: '8px' }}>{formError}</div>}
+
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            <button
+                                onClick={saveForm}
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '6px',
+                                    padding: '8px 14px',
+                                    borderRadius: '6px',
+                                    border: '1px solid #667eea',
+                                    backgroundColor: '#fff',
+                                    color: '#667eea',
+                                    cursor: 'pointer',
+                                    fontSize: '13px',
+                                    fontWeight: 500,
+                                }}
+                            >
+                                <Plus size={14} />
+                                {editingIndex === null ? 'ルールを追加' : 'ルールを更新'}
+                            </button>
+                            {editingIndex !== null && (
+                                <button
+                                    onClick={() => {
+                                        setForm(emptyForm(selectionRange));
+                                        setEditingIndex(null);
+                                    }}
+                                    style={{
+                                        padding: '8px 14px',
+                                        borderRadius: '6px',
+                                        border: '1px solid #d1d5db',
+                                        backgroundColor: '#fff',
+                                        color: '#374151',
+                                        cursor: 'pointer',
+                                        fontSize: '13px',
+                                    }}
+                                >
+                                    編集をやめる
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div
+                    style={{
+                        padding: '16px 20px',
+                        borderTop: '1px solid #e5e7eb',
+                        display: 'flex',
+                        justifyContent: 'flex-end',
+                        gap: '10px',
+                        backgroundColor: '#f9fafb',
+                    }}
+                >
+                    <button
+                        onClick={onClose}
+                        style={{
+                            padding: '10px 20px',
+                            borderRadius: '8px',
+                            border: '1px solid #d1d5db',
+                            backgroundColor: '#fff',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            fontWeight: 500,
+                            color: '#374151',
+                        }}
+                    >
+                        キャンセル
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        style={{
+                            padding: '10px 24px',
+                            borderRadius: '8px',
+                            border: 'none',
+                            background: 'linear-gradient(to right, #667eea, #764ba2)',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            fontWeight: 600,
+                            color: '#fff',
+                            boxShadow: '0 2px 8px rgba(102, 126, 234, 0.4)',
+                        }}
+                    >
+                        適用
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
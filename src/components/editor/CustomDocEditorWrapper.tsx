@@ -29,7 +29,7 @@ interface CustomDocEditorWrapperProps {
 }
 
 export default function CustomDocEditorWrapper({ file, fileName, handle }: CustomDocEditorWrapperProps) {
-    const { setAIActionHandler, setVoiceToolHandler, rootItems, setDocumentStats, libraryItems, openTabs, setAttachedSelection, requestComposerFocus, addWorkspaceItem } = useWorkspace();
+    const { setAIActionHandler, setVoiceToolHandler, rootItems, setDocumentStats, libraryItems, openTabs, setAttachedSelection, requestComposerFocus, addWorkspaceItem, openGeneratedFile } = useWorkspace();
 
     // Callback to add a newly created file to the workspace
     const addFileToWorkspace = useCallback((fileHandle: FileSystemFileHandle) => {
@@ -57,6 +57,7 @@ export default function CustomDocEditorWrapper({ file, fileName, handle }: Custo
         setAIActionHandler,
         setVoiceToolHandler,
         addFileToWorkspace,
+        openGeneratedFile,
         // TODO: Implement openFileInEditor for CustomDocEditor if needed, 
         // similar to DocxEditor's openFileByPath if looking to support cross-file nav
     });
@@ -17,7 +17,7 @@ interface DocxEditorProps {
 }
 
 export default function DocxEditor({ file, fileName, handle }: DocxEditorProps) {
-    const { setAIActionHandler, rootItems, setAttachedSelection, requestComposerFocus, openFile, setDocumentStats, libraryItems, openTabs, addWorkspaceItem } = useWorkspace();
+    const { setAIActionHandler, rootItems, setAttachedSelection, requestComposerFocus, openFile, setDocumentStats, libraryItems, openTabs, addWorkspaceItem, openGeneratedFile } = useWorkspace();
 
     // Callback to add a newly created file to the workspace
     const addFileToWorkspace = useCallback((fileHandle: FileSystemFileHandle) => {
@@ -99,7 +99,8 @@ export default function DocxEditor({ file, fileName, handle }: DocxEditorProps)
         libraryItems,
         setAIActionHandler,
         openFileInEditor: openFileByPath,
-        addFileToWorkspace
+        addFileToWorkspace,
+        openGeneratedFile
     });
 
     // Monitor editor changes and update stats
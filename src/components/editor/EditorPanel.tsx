@@ -28,7 +28,7 @@ const MarkdownEditor = dynamic(() => import('./MarkdownEditor'), {
 const allowedExtensions = ['.docx', '.doc', '.txt', '.md', '.pdf', '.xlsx', '.xls'];
 
 export default function EditorPanel() {
-    const { openTabs, activeTabId, libraryItems, rootItems, setAIActionHandler, setVoiceToolHandler, addWorkspaceItem, openFile } = useWorkspace();
+    const { openTabs, activeTabId, libraryItems, rootItems, setAIActionHandler, setVoiceToolHandler, addWorkspaceItem, openFile, openGeneratedFile } = useWorkspace();
     const [isDragging, setIsDragging] = useState(false);
 
     // Callback to add a newly created file to the workspace
@@ -174,6 +174,7 @@ export default function EditorPanel() {
         setAIActionHandler,
         setVoiceToolHandler,
         addFileToWorkspace,
+        openGeneratedFile,
         // activeFilePath/activeFileType will be undefined when no file is open
         // Individual editors will override with their specific config when mounted
     });
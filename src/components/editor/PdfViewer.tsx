@@ -13,7 +13,7 @@ interface PdfViewerProps {
 }
 
 export default function PdfViewer({ file, fileName, handle }: PdfViewerProps) {
-    const { setDocumentStats, setAIActionHandler, rootItems, openFile, libraryItems, openTabs, addWorkspaceItem } = useWorkspace();
+    const { setDocumentStats, setAIActionHandler, rootItems, openFile, libraryItems, openTabs, addWorkspaceItem, openGeneratedFile } = useWorkspace();
 
     // Callback to add a newly created file to the workspace
     const addFileToWorkspace = useCallback((fileHandle: FileSystemFileHandle) => {
@@ -82,7 +82,8 @@ export default function PdfViewer({ file, fileName, handle }: PdfViewerProps) {
         libraryItems,
         setAIActionHandler,
         openFileInEditor: openFileByPath,
-        addFileToWorkspace
+        addFileToWorkspace,
+        openGeneratedFile
     });
 
     useEffect(() => {
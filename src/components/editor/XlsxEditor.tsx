@@ -1,16 +1,22 @@
 'use client';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useCallback, useRef, useEffect } from 'react';
+import React, { useCallback, useRef, useEffect, useState } from 'react';
 import { Workbook } from '@fortune-sheet/react';
 import '@fortune-sheet/react/dist/index.css';
-import { Columns, Rows, RotateCcw, Image as ImageIcon } from 'lucide-react';
+import { Columns, Rows, RotateCcw, Image as ImageIcon, Highlighter, BarChart3 } from 'lucide-react';
 import styles from './XlsxEditor.module.css';
+import { ChartDialog } from './ChartDialog';
+import { ChartLayer, ChartLayerHandle } from './ChartLayer';
+import { ConditionalFormatDialog } from './ConditionalFormatDialog';
 import { useFortuneSheet } from './hooks/useFortuneSheet';
 import { useXlsxFileHandler } from './hooks/useXlsxFileHandler';
 import { useUniversalAgent } from './hooks/useUniversalAgent';
 import { useWorkspace } from '@/contexts/WorkspaceContext';
 import { FileSystemItem } from '@/types';
+import { SpreadsheetChart } from '@/lib/xlsx/charts';
+import { ConditionFormatRule, formatSqref } from '@/lib/xlsx/conditionalFormat';
+import { listResolver, validateCellValue, verificationKey, ValidationFailure } from '@/lib/xlsx/dataValidation';
 
 interface XlsxEditorProps {
     file: File;
@@ -51,7 +57,7 @@ const measureTextHeight = (text: string, colWidth: number, font: string = '11pt
 };
 
 export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps) {
-    const { setAIActionHandler, rootItems, openFile, setDocumentStats, libraryItems, openTabs, addWorkspaceItem } = useWorkspace();
+    const { setAIActionHandler, rootItems, openFile, setDocumentStats, libraryItems, openTabs, addWorkspaceItem, openGeneratedFile } = useWorkspace();
 
     // Callback to add a newly created file to the workspace
     const addFileToWorkspace = useCallback((fileHandle: FileSystemFileHandle) => {
@@ -69,6 +75,7 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
     // Ref to Fortune-sheet Workbook instance for direct API calls
     const fortuneSheetRef = useRef<any>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const chartLayerRef = useRef<ChartLayerHandle>(null);
 
 
     // Create a stable callback for setCellValue that uses the Fortune-sheet ref
@@ -118,12 +125,16 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
 
         console.log(`[XlsxEditor] setCellValue: ${cell} (row=${rowIdx}, col=${colIdx}) = ${isFormula ? value : cellValue}`);
 
+        // Without a sheet id FortuneSheet writes to the active sheet
+        const target = sheetName ? workbook.getAllSheets().find((s: any) => s.name === sheetName) : undefined;
+        const sheetOptions = target ? { id: target.id } : {};
+
         // Call Fortune-sheet API
         try {
             if (workbook.setCellValue) {
                 // FortuneSheet setCellValue: (row, col, value, options?)
                 // For formulas, we pass them as the value directly
-                workbook.setCellValue(rowIdx, colIdx, isFormula ? value : cellValue);
+                workbook.setCellValue(rowIdx, colIdx, isFormula ? value : cellValue, sheetOptions);
             } else {
                 console.warn('[XlsxEditor] setCellValue not available on workbook ref');
             }
@@ -131,7 +142,7 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
             // Apply style if provided (using setCellFormat API)
             if (opts.style && workbook.setCellFormat) {
                 for (const [attr, val] of Object.entries(opts.style)) {
-                    workbook.setCellFormat(rowIdx, colIdx, attr, val);
+                    workbook.setCellFormat(rowIdx, colIdx, attr, val, sheetOptions);
                 }
             }
         } catch (err) {
@@ -139,6 +150,118 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
         }
     }, []);
 
+    // Replace the conditional formatting rules of a sheet (the active sheet by default)
+    const updateConditionalFormats = useCallback((
+        update: (rules: ConditionFormatRule[]) => ConditionFormatRule[],
+        sheetName?: string
+    ): boolean => {
+        const workbook = fortuneSheetRef.current;
+        if (!workbook) return false;
+        const sheet = sheetName
+            ? workbook.getAllSheets().find((s: any) => s.name === sheetName)
+            : workbook.getSheet();
+        if (!sheet) return false;
+
+        // applyOp updates the sheet in place, which redraws the grid and reaches onChange (so it is saved)
+        workbook.applyOp([{
+            op: 'replace',
+            id: sheet.id,
+            path: ['luckysheet_conditionformat_save'],
+            value: update(sheet.luckysheet_conditionformat_save || []),
+        }]);
+        return true;
+    }, []);
+
+    const addConditionalFormatViaRef = useCallback((rule: ConditionFormatRule, sheetName?: string): boolean =>
+        updateConditionalFormats(rules => [...rules, rule], sheetName), [updateConditionalFormats]);
+
+    const setConditionalFormatsViaRef = useCallback((rules: ConditionFormatRule[], sheetName: string): boolean =>
+        updateConditionalFormats(() => rules, sheetName), [updateConditionalFormats]);
+
+    // Replace the charts of a sheet (the active sheet by default)
+    const updateCharts = useCallback((
+        update: (charts: SpreadsheetChart[], sheetName: string) => SpreadsheetChart[],
+        sheetName?: string
+    ): boolean => {
+        const workbook = fortuneSheetRef.current;
+        if (!workbook) return false;
+        const sheet = sheetName
+            ? workbook.getAllSheets().find((s: any) => s.name === sheetName)
+            : workbook.getSheet();
+        if (!sheet) return false;
+
+        workbook.applyOp([{ op: 'replace', id: sheet.id, path: ['charts'], value: update(sheet.charts || [], sheet.name) }]);
+        chartLayerRef.current?.refresh();
+        return true;
+    }, []);
+
+    const addChartViaRef = useCallback((createChart: (sheetName: string) => SpreadsheetChart, sheetName?: string): boolean =>
+        updateCharts((charts, name) => [...charts, createChart(name)], sheetName), [updateCharts]);
+
+    const setChartsViaRef = useCallback((charts: SpreadsheetChart[], sheetName: string): boolean =>
+        updateCharts(() => charts, sheetName), [updateCharts]);
+
+    // Check a value against the data validation of a cell (the active sheet by default), as FortuneSheet does for typed input
+    const checkDataValidationViaRef = useCallback((cell: string, value: string | number, sheetName?: string): ValidationFailure | null => {
+        const workbook = fortuneSheetRef.current;
+        if (!workbook) return null;
+        const allSheets = workbook.getAllSheets();
+        const sheet = sheetName ? allSheets.find((s: any) => s.name === sheetName) : workbook.getSheet();
+        const key = verificationKey(cell);
+        const item = key ? sheet?.dataVerification?.[key] : undefined;
+        if (!item) return null;
+
+        // Lists can take their options from cells, on this or another sheet
+        const resolveList = listResolver((listSheet, r, c) => {
+            const source = listSheet ? allSheets.find((s: any) => s.name === listSheet) : sheet;
+            const value = source?.data
+                ? source.data[r]?.[c]
+                : source?.celldata?.find((d: any) => d.r === r && d.c === c)?.v;
+            const text = value?.m ?? value?.v;
+            return text === undefined || text === null ? undefined : String(text);
+        });
+        const message = validateCellValue(item, value, resolveList);
+        return message ? { message, prohibitInput: item.prohibitInput } : null;
+    }, []);
+
+    // Conditional formatting rules dialog for the active sheet
+    const [conditionalFormatDialog, setConditionalFormatDialog] = useState<{
+        sheetName: string;
+        rules: ConditionFormatRule[];
+        selectionRange: string;
+    } | null>(null);
+
+    const openConditionalFormatDialog = useCallback(() => {
+        const workbook = fortuneSheetRef.current;
+        const sheet = workbook?.getSheet();
+        if (!sheet) return;
+        const selection = workbook.getSelection() || [];
+        setConditionalFormatDialog({
+            sheetName: sheet.name,
+            rules: sheet.luckysheet_conditionformat_save || [],
+            selectionRange: formatSqref(selection),
+        });
+    }, []);
+
+    // Insert/edit chart dialog for the active sheet
+    const [chartDialog, setChartDialog] = useState<{
+        sheetName: string;
+        chart: SpreadsheetChart | null;
+        selectionRange: string;
+    } | null>(null);
+
+    const openChartDialog = useCallback((chart: SpreadsheetChart | null) => {
+        const workbook = fortuneSheetRef.current;
+        const sheet = workbook?.getSheet();
+        if (!sheet) return;
+        const [selection] = workbook.getSelection() || [];
+        setChartDialog({
+            sheetName: sheet.name,
+            chart,
+            selectionRange: selection ? formatSqref([selection]) : '',
+        });
+    }, []);
+
     // Helper to find file by path and open it
     const openFileByPath = useCallback(async (path: string): Promise<boolean> => {
         // Normalize path for comparison
@@ -200,9 +323,16 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
         libraryItems,
         setAIActionHandler,
         setCellValue: setCellValueViaRef,
+        addConditionalFormat: addConditionalFormatViaRef,
+        checkDataValidation: checkDataValidationViaRef,
+        addChart: addChartViaRef,
+        setConditionalFormats: setConditionalFormatsViaRef,
+        setCharts: setChartsViaRef,
         openFileInEditor: openFileByPath,
         addFileToWorkspace,
-        getWorkbook: () => workbookRef.current
+        openGeneratedFile,
+        getWorkbook: () => workbookRef.current,
+        getSheets: () => fortuneSheetRef.current?.getAllSheets()
     });
 
     // Track latest sheet data for saving
@@ -232,7 +362,7 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
     }, [sheets, setDocumentStats]);
 
     // Handle file saving
-    const { saveError, onSave } = useXlsxFileHandler(workbookRef, handle, fileName);
+    const { saveError, onSave } = useXlsxFileHandler(file, sheets, handle, fileName);
 
     // Keyboard shortcut for saving
     React.useEffect(() => {
@@ -918,6 +1048,23 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
                             <span>Reset Sizes</span>
                         </button>
                         <div className={styles.toolbarDivider} />
+                        <button
+                            className={styles.toolbarButton}
+                            onClick={openConditionalFormatDialog}
+                            title="Manage conditional formatting rules of the active sheet"
+                        >
+                            <Highlighter size={16} />
+                            <span>Conditional Formatting</span>
+                        </button>
+                        <button
+                            className={styles.toolbarButton}
+                            onClick={() => openChartDialog(null)}
+                            title="Insert a chart from the selected cells"
+                        >
+                            <BarChart3 size={16} />
+                            <span>Insert Chart</span>
+                        </button>
+                        <div className={styles.toolbarDivider} />
                         <button
                             className={styles.toolbarButton}
                             onClick={testImageGeneration}
@@ -939,11 +1086,39 @@ export default function XlsxEditor({ file, fileName, handle }: XlsxEditorProps)
                             onChange={(data: any) => {
                                 // Update workbook ref when data changes
                                 latestSheetsRef.current = data;
+                                chartLayerRef.current?.refresh();
                             }}
+                            hooks={{ afterActivateSheet: () => chartLayerRef.current?.refresh() }}
+                        />
+                        <ChartLayer
+                            ref={chartLayerRef}
+                            workbookRef={fortuneSheetRef}
+                            containerRef={containerRef}
+                            onEdit={chart => openChartDialog(chart)}
+                            onChange={charts => updateCharts(() => charts)}
                         />
                     </div>
                 )}
             </div>
+            <ConditionalFormatDialog
+                isOpen={conditionalFormatDialog !== null}
+                onClose={() => setConditionalFormatDialog(null)}
+                sheetName={conditionalFormatDialog?.sheetName || ''}
+                rules={conditionalFormatDialog?.rules || []}
+                selectionRange={conditionalFormatDialog?.selectionRange || ''}
+                onApply={rules => updateConditionalFormats(() => rules, conditionalFormatDialog?.sheetName)}
+            />
+            <ChartDialog
+                isOpen={chartDialog !== null}
+                onClose={() => setChartDialog(null)}
+                sheetName={chartDialog?.sheetName || ''}
+                chart={chartDialog?.chart || null}
+                selectionRange={chartDialog?.selectionRange || ''}
+                onApply={chart => updateCharts(
+                    charts => (charts.some(c => c.id === chart.id) ? charts.map(c => (c.id === chart.id ? chart : c)) : [...charts, chart]),
+                    chartDialog?.sheetName
+                )}
+            />
             {!isReady && (
                 <div className={styles.loadingOverlay}>
                     <div className={styles.spinner} />
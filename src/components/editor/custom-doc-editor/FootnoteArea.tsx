@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState } from 'react';
+import { JSONContent } from '@tiptap/core';
+
+import { InlinePartEditor, usePartHtml } from './InlinePartEditor';
+
+export type NoteType = 'footnote' | 'endnote';
+
+export interface PageNote {
+    noteType: NoteType;
+    index: number; // 0-based position among notes of the same type (document order)
+    label: string; // Displayed number ("1", "ii", ...)
+    content: JSONContent[];
+}
+
+// Note text is rendered smaller than body text, like Word's "Footnote Text" style
+export const NOTE_FONT_SIZE_PT = 9;
+export const NOTE_LINE_HEIGHT = 1.4;
+export const NOTE_SEPARATOR_HEIGHT_PX = 12;
+
+/**
+ * Rough height of a note in px, used to reserve space at the bottom of the page during pagination.
+ * Full-width (CJK) characters are counted at 1em, others at ~0.55em.
+ */
+export const estimateNoteHeight = (content: JSONContent[] | undefined, widthPx: number): number => {
+    const fontPx = (NOTE_FONT_SIZE_PT * 96) / 72;
+    const lineHeightPx = fontPx * NOTE_LINE_HEIGHT;
+
+    const textOf = (node: JSONContent): string =>
+        node.text || (node.content || []).map(textOf).join('');
+
+    const blocks = content && content.length > 0 ? content : [{ type: 'paragraph' }];
+    return blocks.reduce((total, block) => {
+        const text = textOf(block);
+        const textWidth = Array.from(text).reduce((w, ch) => w + (ch.charCodeAt(0) >= 0x2e80 ? fontPx : fontPx * 0.55), 0);
+        const lines = Math.max(1, Math.ceil((textWidth + fontPx * 2) / Math.max(widthPx, 1)));
+        return total + lines * lineHeightPx;
+    }, 0);
+};
+
+interface FootnoteAreaProps {
+    notes: PageNote[];
+    style: React.CSSProperties;
+    onChange?: (note: PageNote, content: JSONContent[]) => void;
+}
+
+/**
+ * Footnote area at the bottom of a page (separator line + numbered notes).
+ * Each note can be edited in place by double-clicking it.
+ */
+export const FootnoteArea: React.FC<FootnoteAreaProps> = ({ notes, style, onChange }) => {
+    if (notes.length === 0) return null;
+
+    return (
+        <div
+            className="docx-footnote-area"
+            style={{
+                position: 'absolute',
+                fontSize: `${NOTE_FONT_SIZE_PT}pt`,
+                lineHeight: NOTE_LINE_HEIGHT,
+                zIndex: 1,
+                ...style,
+            }}
+        >
+            <div style={{ width: '33%', borderTop: '1px solid #6b7280', height: `${NOTE_SEPARATOR_HEIGHT_PX / 2}px`, marginTop: `${NOTE_SEPARATOR_HEIGHT_PX / 2}px` }} />
+            {notes.map(note => (
+                <FootnoteItem key={`${note.noteType}-${note.index}`} note={note} onChange={onChange} />
+            ))}
+        </div>
+    );
+};
+
+interface FootnoteItemProps {
+    note: PageNote;
+    onChange?: (note: PageNote, content: JSONContent[]) => void;
+}
+
+const FootnoteItem: React.FC<FootnoteItemProps> = ({ note, onChange }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const html = usePartHtml(note.content, `${note.noteType} ${note.label}`);
+
+    return (
+        <div
+            data-note-type={note.noteType}
+            title={onChange && !isEditing ? `${note.noteType === 'footnote' ? '脚注' : '文末脚注'} ${note.label} - ダブルクリックで編集` : undefined}
+            onDoubleClick={() => onChange && setIsEditing(true)}
+            style={{
+                display: 'flex',
+                gap: '4px',
+                outline: isEditing ? '1px dashed #3b82f6' : undefined,
+            }}
+        >
+            <sup style={{ fontSize: '0.75em', lineHeight: 1, paddingTop: '0.3em' }}>{note.label}</sup>
+            <div style={{ flex: 1, minWidth: 0 }}>
+                {isEditing ? (
+                    <InlinePartEditor
+                        content={note.content}
+                        onChange={(next) => onChange?.(note, next)}
+                        onDone={() => setIsEditing(false)}
+                    />
+                ) : (
+                    <div
+                        className="ProseMirror"
+                        style={{ pointerEvents: 'none', fontSize: 'inherit', lineHeight: 'inherit' }}
+                        dangerouslySetInnerHTML={{ __html: html }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,93 @@
+'use client';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState } from 'react';
+import { JSONContent } from '@tiptap/core';
+
+import { InlinePartEditor, usePartHtml } from './InlinePartEditor';
+
+export type HeaderFooterKind = 'header' | 'footer';
+export type HeaderFooterType = 'default' | 'first' | 'even';
+
+/**
+ * Pick the header/footer variant shown on a page, following Word's rules:
+ * first page uses "first" when titlePg is set, even pages use "even" when evenAndOddHeaders is set.
+ */
+export const resolveHeaderFooterType = (pageNumber: number, docAttrs: any): HeaderFooterType => {
+    if (pageNumber === 1 && docAttrs?.titlePage) return 'first';
+    if (pageNumber % 2 === 0 && docAttrs?.evenAndOddHeaders) return 'even';
+    return 'default';
+};
+
+// PAGE / NUMPAGES field spans in the rendered part HTML (see the Field extension)
+const PAGE_FIELD_PATTERN = /(<span[^>]*data-field-type="(PAGE|NUMPAGES)"[^>]*>)[^<]*(<\/span>)/g;
+
+interface HeaderFooterAreaProps {
+    kind: HeaderFooterKind;
+    type: HeaderFooterType;
+    content: JSONContent[] | undefined;
+    pageNumber: number;
+    pageCount: number;
+    style: React.CSSProperties;
+    onChange?: (kind: HeaderFooterKind, type: HeaderFooterType, content: JSONContent[]) => void;
+}
+
+/**
+ * Header/footer area of a page.
+ * Rendered as static HTML; double-click switches to an inline editor for that part.
+ */
+export const HeaderFooterArea: React.FC<HeaderFooterAreaProps> = ({ kind, type, content, pageNumber, pageCount, style, onChange }) => {
+    const [isEditing, setIsEditing] = useState(false);
+
+    const partHtml = usePartHtml(content, `${kind} (${type})`);
+    // The same part is shared by many pages, so page fields are filled in per page
+    const html = partHtml.replace(PAGE_FIELD_PATTERN, (_match, open: string, fieldType: string, close: string) =>
+        `${open}${fieldType === 'PAGE' ? pageNumber : pageCount}${close}`);
+
+    const label = `${kind === 'header' ? 'ヘッダー' : 'フッター'}${type === 'first' ? ' (先頭ページ)' : type === 'even' ? ' (偶数ページ)' : ''}`;
+
+    return (
+        <div
+            className="docx-header-footer"
+            data-kind={kind}
+            data-type={type}
+            title={onChange && !isEditing ? `${label} - ダブルクリックで編集` : undefined}
+            onDoubleClick={() => onChange && setIsEditing(true)}
+            style={{
+                position: 'absolute',
+                outline: isEditing ? '1px dashed #3b82f6' : undefined,
+                cursor: onChange && !isEditing ? 'default' : undefined,
+                zIndex: isEditing ? 10 : 1,
+                ...style,
+            }}
+        >
+            {isEditing ? (
+                <InlinePartEditor
+                    content={content}
+                    onChange={(next) => onChange?.(kind, type, next)}
+                    onDone={() => setIsEditing(false)}
+                />
+            ) : (
+                <div
+                    className="ProseMirror"
+                    style={{ pointerEvents: 'none', color: '#374151' }}
+                    dangerouslySetInnerHTML={{ __html: html }}
+                />
+            )}
+            {isEditing && (
+                <div style={{
+                    position: 'absolute',
+                    [kind === 'header' ? 'bottom' : 'top']: '-18px',
+                    left: 0,
+                    fontSize: '10px',
+                    color: '#3b82f6',
+                    backgroundColor: '#eff6ff',
+                    padding: '0 4px',
+                    borderRadius: '2px',
+                }}>
+                    {label}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { generateHTML, JSONContent } from '@tiptap/core';
+import { useEditor, EditorContent } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import { TextStyle } from '@tiptap/extension-text-style';
+import { Color } from '@tiptap/extension-color';
+import FontFamily from '@tiptap/extension-font-family';
+import Highlight from '@tiptap/extension-highlight';
+import TextAlign from '@tiptap/extension-text-align';
+
+import { CustomParagraph, CustomHeading, FontSize, DocxTab, DocxImage, DocxLink, BookmarkStart, BookmarkEnd, Field, DocxTable, DocxTableRow, DocxTableCell, DocxTableHeader, PreservedBlock, PreservedInline, MathEquation } from '../extensions';
+
+/**
+ * Extensions available inside secondary parts such as headers, footers and notes
+ * (no track changes / comments / block IDs)
+ */
+export const partExtensions = [
+    StarterKit.configure({ paragraph: false, heading: false, link: false }),
+    CustomParagraph,
+    CustomHeading,
+    DocxTab,
+    TextStyle,
+    FontSize,
+    DocxImage,
+    DocxLink,
+    BookmarkStart,
+    BookmarkEnd,
+    Field,
+    PreservedBlock,
+    PreservedInline,
+    MathEquation,
+    DocxTable,
+    DocxTableRow,
+    DocxTableHeader,
+    DocxTableCell,
+    TextAlign.configure({ types: ['heading', 'paragraph'] }),
+    Color,
+    FontFamily,
+    Highlight.configure({ multicolor: true }),
+];
+
+/**
+ * Render part content to static HTML (used while the part is not being edited)
+ */
+export const usePartHtml = (content: JSONContent[] | undefined, label: string): string => {
+    return useMemo(() => {
+        if (!content || content.length === 0) return '';
+        try {
+            return generateHTML({ type: 'doc', content }, partExtensions);
+        } catch (e) {
+            console.warn(`[InlinePartEditor] Failed to render ${label}:`, e);
+            return '';
+        }
+    }, [content, label]);
+};
+
+interface InlinePartEditorProps {
+    content: JSONContent[] | undefined;
+    onChange: (content: JSONContent[]) => void;
+    onDone: () => void;
+}
+
+/**
+ * Small standalone editor for a secondary part; closes itself on blur
+ */
+export const InlinePartEditor: React.FC<InlinePartEditorProps> = ({ content, onChange, onDone }) => {
+    const editor = useEditor({
+        extensions: partExtensions,
+        content: { type: 'doc', content: content && content.length > 0 ? content : [{ type: 'paragraph' }] },
+        immediatelyRender: false,
+        autofocus: 'end',
+        editorProps: {
+            attributes: {
+                class: 'prose prose-sm max-w-none focus:outline-none',
+            },
+        },
+        onUpdate: ({ editor }) => {
+            onChange(editor.getJSON().content || []);
+        },
+        onBlur: () => {
+            onDone();
+        },
+    });
+
+    return <EditorContent editor={editor} />;
+};
@@ -1,8 +1,13 @@
 'use client';
 
-/* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unused-vars */
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { Editor, EditorContent } from '@tiptap/react';
+import { JSONContent } from '@tiptap/core';
+import { HeaderFooterArea, HeaderFooterKind, HeaderFooterType, resolveHeaderFooterType } from './HeaderFooterArea';
+import { FootnoteArea, PageNote, NoteType, estimateNoteHeight, NOTE_SEPARATOR_HEIGHT_PX } from './FootnoteArea';
+import { PageLayout, getDocumentSections, getPageLayout } from './sections';
+import { setLastSectionLayout, setStyleCatalogue } from '../extensions';
 
 interface PagedEditorContentProps {
     editor: Editor | null;
@@ -10,15 +15,113 @@ interface PagedEditorContentProps {
     trackChangesDisplayMode: 'markup' | 'final';
     isPaged?: boolean;
     onLayoutStatsChange?: (stats: { pageCount: number; visualLineCount: number }) => void;
+    onHeaderFooterChange?: (kind: HeaderFooterKind, type: HeaderFooterType, content: JSONContent[]) => void;
 }
 
-// Convert twips to pixels at 96 DPI
-const twipsToPixels = (twips: number): number => (twips / 1440) * 96;
-
 interface PageInfo {
     pageNumber: number;
     contentOffset: number; // Where this page's content starts (offset from top of ProseMirror)
     visibleHeight: number; // Height of content visible on this page (used for clipping)
+    notes?: PageNote[]; // Footnotes referenced on this page (and endnotes on the last page)
+    layout?: PageLayout; // Page setup of the section the page belongs to
+}
+
+// Page (1-based) whose content area contains the given offset from the top of ProseMirror
+const getPageAtOffset = (pageList: PageInfo[], top: number): number => {
+    let page = 1;
+    for (const info of pageList) {
+        if (info.contentOffset <= top + 1) page = info.pageNumber;
+    }
+    return page;
+};
+
+/**
+ * Recompute pagination-dependent field results (PAGE, NUMPAGES, PAGEREF, REF) and the heading pages
+ * used by the table of contents. Field nodes and their .docx-field elements are matched in document order.
+ */
+const updatePageFields = (editor: Editor, proseMirror: HTMLElement, pageList: PageInfo[]) => {
+    const containerTop = proseMirror.getBoundingClientRect().top;
+    const pageOf = (el: Element) => getPageAtOffset(pageList, el.getBoundingClientRect().top - containerTop);
+    const pageCount = pageList.length;
+
+    const tocStorage = (editor.storage as any).tableOfContents;
+    if (tocStorage) {
+        const headingPages: Record<string, number> = {};
+        proseMirror.querySelectorAll('h1[data-sd-block-id], h2[data-sd-block-id], h3[data-sd-block-id], h4[data-sd-block-id], h5[data-sd-block-id], h6[data-sd-block-id]').forEach(el => {
+            headingPages[el.getAttribute('data-sd-block-id') as string] = pageOf(el);
+        });
+        tocStorage.headingPages = headingPages;
+    }
+
+    const doc = editor.state.doc;
+    const fields: { pos: number; node: any }[] = [];
+    const bookmarks = new Map<string, { from: number; id: string }>();
+    const bookmarkEnds = new Map<string, number>();
+    doc.descendants((node, pos) => {
+        if (node.type.name === 'field') fields.push({ pos, node });
+        if (node.type.name === 'bookmarkStart' && node.attrs.name) bookmarks.set(node.attrs.name, { from: pos, id: String(node.attrs.id) });
+        if (node.type.name === 'bookmarkEnd') bookmarkEnds.set(String(node.attrs.id), pos);
+        return true;
+    });
+    if (fields.length === 0) return;
+
+    const fieldElements = Array.from(proseMirror.querySelectorAll('.docx-field'));
+    const updates: { pos: number; result: string }[] = [];
+    fields.forEach(({ pos, node }, index) => {
+        const el = fieldElements[index];
+        const target = (node.attrs.instruction || '').split(/\s+/)[1] || '';
+        let result: string | null = null;
+        switch (node.attrs.fieldType) {
+            case 'PAGE':
+                if (el) result = String(pageOf(el));
+                break;
+            case 'NUMPAGES':
+                result = String(pageCount);
+                break;
+            case 'PAGEREF': {
+                const bookmarkEl = proseMirror.querySelector(`[data-bookmark-name="${CSS.escape(target)}"]`);
+                if (bookmarkEl) result = String(pageOf(bookmarkEl));
+                break;
+            }
+            case 'REF': {
+                const bookmark = bookmarks.get(target);
+                const end = bookmark ? bookmarkEnds.get(bookmark.id) : undefined;
+                if (bookmark && end !== undefined && end > bookmark.from) result = doc.textBetween(bookmark.from, end, ' ');
+                break;
+            }
+        }
+        if (result !== null && result !== node.attrs.result) updates.push({ pos, result });
+    });
+
+    if (updates.length > 0) {
+        editor.commands.setFieldResults(updates);
+    }
+};
+
+const toLowerRoman = (num: number): string => {
+    const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+    let result = '';
+    for (const [value, numeral] of numerals) {
+        while (num >= value) {
+            result += numeral;
+            num -= value;
+        }
+    }
+    return result;
+};
+
+/**
+ * Collect note contents in document order, grouped by note type
+ */
+function collectNotes(editor: Editor | null): Record<NoteType, JSONContent[][]> {
+    const notes: Record<NoteType, JSONContent[][]> = { footnote: [], endnote: [] };
+    editor?.state.doc.descendants(node => {
+        if (node.type.name === 'footnote') {
+            const noteType: NoteType = node.attrs.noteType === 'endnote' ? 'endnote' : 'footnote';
+            notes[noteType].push(node.attrs.content || []);
+        }
+    });
+    return notes;
 }
 
 /**
@@ -63,6 +166,7 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
     trackChangesDisplayMode,
     isPaged = true,
     onLayoutStatsChange,
+    onHeaderFooterChange,
 }) => {
     const [pages, setPages] = useState<PageInfo[]>([{ pageNumber: 1, contentOffset: 0, visibleHeight: 0 }]);
     const editorContainerRef = useRef<HTMLDivElement>(null);
@@ -70,20 +174,9 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
     // Ref to hold the latest calculatePages function for recursive setTimeout calls
     const calculatePagesRef = useRef<(() => void) | null>(null);
 
-    // Calculate page dimensions from docAttrs
-    const pageWidthTwips = parseInt(docAttrs?.pageSize?.['w:w']) || 12240;
-    const pageHeightTwips = parseInt(docAttrs?.pageSize?.['w:h']) || 15840;
-    const marginTopTwips = parseInt(docAttrs?.pageMargins?.['w:top']) || 1440;
-    const marginRightTwips = parseInt(docAttrs?.pageMargins?.['w:right']) || 1440;
-    const marginBottomTwips = parseInt(docAttrs?.pageMargins?.['w:bottom']) || 1440;
-    const marginLeftTwips = parseInt(docAttrs?.pageMargins?.['w:left']) || 1440;
-
-    const pageWidth = twipsToPixels(pageWidthTwips);
-    const pageHeight = twipsToPixels(pageHeightTwips);
-    const marginTop = twipsToPixels(marginTopTwips);
-    const marginRight = twipsToPixels(marginRightTwips);
-    const marginBottom = twipsToPixels(marginBottomTwips);
-    const marginLeft = twipsToPixels(marginLeftTwips);
+    // Calculate page dimensions from docAttrs (the last section; pages of other sections carry their own layout)
+    const documentLayout = useMemo(() => getPageLayout(docAttrs), [docAttrs]);
+    const { pageWidth, pageHeight, marginTop, marginRight, marginBottom, marginLeft } = documentLayout;
 
     // Extract default font size from docDefaults (w:sz is in half-points)
     // The sz element is stored as { "w:val": "21" } where 21 = 10.5pt
@@ -223,6 +316,32 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
         let currentPageStart = 0;
         let pageNumber = 1;
 
+        // Sections: each one starts below the section break element that ends the previous one
+        const sections = editor ? getDocumentSections(editor.state.doc, docAttrs) : [];
+        const sectionLayouts = sections.length > 0 ? sections.map(section => getPageLayout(section.attrs)) : [documentLayout];
+        const sectionStarts = Array.from(proseMirror.querySelectorAll(':scope > .docx-section-break'))
+            .map(el => el.getBoundingClientRect().bottom - containerRect.top);
+        let sectionIndex = 0;
+        let sectionLayout = sectionLayouts[0];
+        let pageLayout = sectionLayout; // Layout of the current page
+
+        // Footnote references (document order matches the CSS counter numbering)
+        const noteContents = collectNotes(editor);
+        const contentWidth = pageWidth - marginLeft - marginRight;
+        const footnoteRefs = Array.from(proseMirror.querySelectorAll('sup.docx-footnote-ref[data-note-type="footnote"]'))
+            .map((el, index) => {
+                const rect = el.getBoundingClientRect();
+                const content = noteContents.footnote[index] || [];
+                return {
+                    top: rect.top - containerRect.top,
+                    height: estimateNoteHeight(content, contentWidth),
+                    note: { noteType: 'footnote' as NoteType, index, label: String(index + 1), content },
+                };
+            });
+        const notesByPage = new Map<number, PageNote[]>();
+        let reservedNoteHeight = 0; // Height taken by footnotes on the current page
+        let lastLineBottom = 0;
+
         // Track total visual lines
         let totalVisualLines = 0;
 
@@ -234,25 +353,68 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
             for (const line of lines) {
                 totalVisualLines++;
 
+                // Footnotes referenced on this line must fit on the same page
+                const lineNotes = footnoteRefs.filter(ref => ref.top >= line.top - 3 && ref.top < line.bottom);
+                const lineNoteHeight = lineNotes.reduce((h, ref) => h + ref.height, 0)
+                    + (lineNotes.length > 0 && reservedNoteHeight === 0 ? NOTE_SEPARATOR_HEIGHT_PX : 0);
+
+                // Entering a new section starts a new page, unless it is continuous on a page of the same size
+                let sectionBreak = false;
+                while (sectionIndex < sectionStarts.length && line.top >= sectionStarts[sectionIndex] - 1) {
+                    sectionIndex++;
+                    const nextLayout = sectionLayouts[Math.min(sectionIndex, sectionLayouts.length - 1)];
+                    const continuous = sections[sectionIndex]?.attrs.sectionType === 'continuous'
+                        && nextLayout.pageWidth === sectionLayout.pageWidth && nextLayout.pageHeight === sectionLayout.pageHeight;
+                    sectionLayout = nextLayout;
+                    if (!continuous) sectionBreak = true;
+                }
+
                 // If this line's bottom exceeds the current page's available space
-                if (line.bottom > currentPageStart + contentAreaHeight) {
+                if ((sectionBreak || line.bottom + reservedNoteHeight + lineNoteHeight > currentPageStart + pageLayout.contentAreaHeight) && line.top > currentPageStart) {
                     // Start a new page from this line's top
                     if (pageNumber === 1) {
-                        pageList.push({ pageNumber: 1, contentOffset: 0, visibleHeight: 0 });
+                        pageList.push({ pageNumber: 1, contentOffset: 0, visibleHeight: 0, layout: sectionLayouts[0] });
                     }
 
                     pageNumber++;
                     currentPageStart = line.top;
-                    pageList.push({ pageNumber, contentOffset: currentPageStart, visibleHeight: 0 });
+                    reservedNoteHeight = 0;
+                    pageLayout = sectionLayout;
+                    pageList.push({ pageNumber, contentOffset: currentPageStart, visibleHeight: 0, layout: pageLayout });
+                }
+
+                if (lineNotes.length > 0) {
+                    reservedNoteHeight += lineNotes.reduce((h, ref) => h + ref.height, 0)
+                        + (reservedNoteHeight === 0 ? NOTE_SEPARATOR_HEIGHT_PX : 0);
+                    notesByPage.set(pageNumber, [...(notesByPage.get(pageNumber) || []), ...lineNotes.map(ref => ref.note)]);
                 }
+                lastLineBottom = line.bottom;
             }
         }
 
         // If we never added page 1, add it now
         if (pageList.length === 0) {
-            pageList.push({ pageNumber: 1, contentOffset: 0, visibleHeight: contentAreaHeight });
+            pageList.push({ pageNumber: 1, contentOffset: 0, visibleHeight: sectionLayouts[0].contentAreaHeight, layout: sectionLayouts[0] });
         }
 
+        // Endnotes are collected at the end of the document (on a new page if they don't fit)
+        if (noteContents.endnote.length > 0) {
+            const endnotes: PageNote[] = noteContents.endnote.map((content, index) => ({
+                noteType: 'endnote', index, label: toLowerRoman(index + 1), content,
+            }));
+            const endnoteHeight = NOTE_SEPARATOR_HEIGHT_PX + noteContents.endnote.reduce((h, content) => h + estimateNoteHeight(content, contentWidth), 0);
+            if (lastLineBottom + reservedNoteHeight + endnoteHeight > currentPageStart + pageLayout.contentAreaHeight) {
+                pageNumber++;
+                currentPageStart = lastLineBottom;
+                pageList.push({ pageNumber, contentOffset: currentPageStart, visibleHeight: 0, layout: sectionLayout });
+            }
+            notesByPage.set(pageNumber, [...(notesByPage.get(pageNumber) || []), ...endnotes]);
+        }
+
+        pageList.forEach(page => {
+            page.notes = notesByPage.get(page.pageNumber);
+        });
+
         // Calculate visible height for each page
         // visibleHeight = (offset of next page) - (offset of this page)
         // For the last page, use contentAreaHeight as maximum
@@ -261,19 +423,22 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
                 pageList[i].visibleHeight = pageList[i + 1].contentOffset - pageList[i].contentOffset;
             } else {
                 // Last page: use full content area or remaining content height
-                pageList[i].visibleHeight = contentAreaHeight;
+                pageList[i].visibleHeight = pageList[i].layout?.contentAreaHeight ?? contentAreaHeight;
             }
         }
 
         setPages(pageList);
         setClonedContent(proseMirror.innerHTML);
+        if (editor) {
+            updatePageFields(editor, proseMirror, pageList);
+        }
         if (onLayoutStatsChange) {
             onLayoutStatsChange({
                 pageCount: pageList.length,
                 visualLineCount: totalVisualLines
             });
         }
-    }, [contentAreaHeight, isPaged, onLayoutStatsChange]);
+    }, [contentAreaHeight, isPaged, onLayoutStatsChange, editor, pageWidth, marginLeft, marginRight, docAttrs, documentLayout]);
 
     // Keep ref in sync with the latest calculatePages function
     React.useEffect(() => {
@@ -311,6 +476,16 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
         calculatePages();
     }, [docAttrs, calculatePages]);
 
+    // Section widths of the last section follow the document attrs
+    useEffect(() => {
+        if (editor && !editor.isDestroyed) setLastSectionLayout(editor, docAttrs);
+    }, [editor, docAttrs]);
+
+    // Named style formatting is rendered from the document's style catalogue
+    useEffect(() => {
+        if (editor && !editor.isDestroyed) setStyleCatalogue(editor, docAttrs?.styles, docAttrs?.styleDefaults);
+    }, [editor, docAttrs?.styles, docAttrs?.styleDefaults]);
+
     // Apply contextual spacing (collapse margins between same-style paragraphs)
     React.useEffect(() => {
         if (!editor || !editorContainerRef.current) return;
@@ -355,10 +530,98 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
         });
     }, [editor, trackChangesDisplayMode]); // Re-run when editor or display mode changes
 
+    // Write edited note content back to the n-th footnote/endnote node in the document
+    const handleNoteChange = useCallback((note: PageNote, content: JSONContent[]) => {
+        if (!editor) return;
+        let seen = 0;
+        let targetPos: number | null = null;
+        editor.state.doc.descendants((node, pos) => {
+            if (targetPos !== null) return false;
+            if (node.type.name === 'footnote' && (node.attrs.noteType === 'endnote' ? 'endnote' : 'footnote') === note.noteType) {
+                if (seen === note.index) targetPos = pos;
+                seen++;
+            }
+        });
+        if (targetPos !== null) {
+            editor.commands.updateFootnoteContent(targetPos, content);
+        }
+    }, [editor]);
+
+    const renderNotes = (pageInfo: PageInfo, layout: PageLayout) => (
+        <FootnoteArea
+            notes={pageInfo.notes || []}
+            onChange={handleNoteChange}
+            style={{
+                bottom: `${layout.marginBottom}px`,
+                left: `${layout.marginLeft}px`,
+                right: `${layout.marginRight}px`,
+            }}
+        />
+    );
+
+    // Render header and footer for a page; the gray page number is only shown when no footer exists
+    const renderHeaderFooter = (pageNumber: number, layout: PageLayout) => {
+        const { headerDistance, footerDistance, marginTop, marginBottom, marginLeft, marginRight } = layout;
+        const type = resolveHeaderFooterType(pageNumber, docAttrs);
+        const footer = docAttrs?.footers?.[type];
+
+        return (
+            <>
+                <HeaderFooterArea
+                    kind="header"
+                    type={type}
+                    content={docAttrs?.headers?.[type]?.content}
+                    pageNumber={pageNumber}
+                    pageCount={pages.length}
+                    onChange={onHeaderFooterChange}
+                    style={{
+                        top: `${headerDistance}px`,
+                        left: `${marginLeft}px`,
+                        right: `${marginRight}px`,
+                        minHeight: `${Math.max(marginTop - headerDistance, 12)}px`,
+                        fontSize: `${defaultFontSizePt}pt`,
+                        lineHeight: defaultLineHeight,
+                    }}
+                />
+                <HeaderFooterArea
+                    kind="footer"
+                    type={type}
+                    content={footer?.content}
+                    pageNumber={pageNumber}
+                    pageCount={pages.length}
+                    onChange={onHeaderFooterChange}
+                    style={{
+                        bottom: `${footerDistance}px`,
+                        left: `${marginLeft}px`,
+                        right: `${marginRight}px`,
+                        minHeight: `${Math.max(marginBottom - footerDistance, 12)}px`,
+                        fontSize: `${defaultFontSizePt}pt`,
+                        lineHeight: defaultLineHeight,
+                    }}
+                />
+                {!footer?.content?.length && (
+                    <div style={{
+                        position: 'absolute',
+                        bottom: '8px',
+                        left: '50%',
+                        transform: 'translateX(-50%)',
+                        fontSize: '10px',
+                        color: '#9ca3af',
+                    }}>
+                        {pageNumber}
+                    </div>
+                )}
+            </>
+        );
+    };
+
+    const firstLayout = pages[0]?.layout || documentLayout;
+
     return (
         <>
             <div
                 id="docx-editor-container"
+                data-style-scope={(editor?.storage as any)?.styleCatalogue?.scope}
                 style={{
                     display: 'flex',
                     flexDirection: 'column',
@@ -372,9 +635,9 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
                 <div
                     style={{
                         position: 'relative',
-                        width: `${pageWidth}px`,
-                        height: isPaged ? `${pageHeight}px` : 'auto',
-                        minHeight: isPaged ? undefined : `${pageHeight}px`,
+                        width: `${firstLayout.pageWidth}px`,
+                        height: isPaged ? `${firstLayout.pageHeight}px` : 'auto',
+                        minHeight: isPaged ? undefined : `${firstLayout.pageHeight}px`,
                         backgroundColor: '#ffffff',
                         boxShadow: '0 2px 8px rgba(0,0,0,0.15), 0 1px 3px rgba(0,0,0,0.1)',
                         overflowY: isPaged ? 'hidden' : 'visible',
@@ -389,19 +652,19 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
                         className={trackChangesDisplayMode === 'final' ? 'track-changes-final-mode' : ''}
                         style={{
                             position: isPaged ? 'absolute' : 'relative',
-                            top: isPaged ? `${marginTop}px` : undefined,
-                            left: isPaged ? `${marginLeft}px` : undefined,
-                            right: isPaged ? `${marginRight}px` : undefined,
-                            marginTop: isPaged ? undefined : `${marginTop}px`,
-                            marginLeft: isPaged ? undefined : `${marginLeft}px`,
-                            marginRight: isPaged ? undefined : `${marginRight}px`,
-                            marginBottom: isPaged ? undefined : `${marginBottom}px`,
-                            height: isPaged ? `${contentAreaHeight}px` : 'auto',
+                            top: isPaged ? `${firstLayout.marginTop}px` : undefined,
+                            left: isPaged ? `${firstLayout.marginLeft}px` : undefined,
+                            right: isPaged ? `${firstLayout.marginRight}px` : undefined,
+                            marginTop: isPaged ? undefined : `${firstLayout.marginTop}px`,
+                            marginLeft: isPaged ? undefined : `${firstLayout.marginLeft}px`,
+                            marginRight: isPaged ? undefined : `${firstLayout.marginRight}px`,
+                            marginBottom: isPaged ? undefined : `${firstLayout.marginBottom}px`,
+                            height: isPaged ? `${firstLayout.contentAreaHeight}px` : 'auto',
                             overflowY: isPaged ? 'hidden' : 'visible',
                             overflowX: 'visible',
                             // Clip content precisely at the line boundary where page 1 ends
-                            clipPath: isPaged && pages[0]?.visibleHeight && pages[0].visibleHeight < contentAreaHeight
-                                ? `inset(0 -${horizontalClipPaddingPx}px ${contentAreaHeight - pages[0].visibleHeight}px -${horizontalClipPaddingPx}px)`
+                            clipPath: isPaged && pages[0]?.visibleHeight && pages[0].visibleHeight < firstLayout.contentAreaHeight
+                                ? `inset(0 -${horizontalClipPaddingPx}px ${firstLayout.contentAreaHeight - pages[0].visibleHeight}px -${horizontalClipPaddingPx}px)`
                                 : undefined,
                             // Set document default font size, line-height, and paragraph spacing as CSS custom properties
                             '--doc-default-font-size': `${defaultFontSizePt}pt`,
@@ -412,80 +675,65 @@ export const PagedEditorContent: React.FC<PagedEditorContentProps> = ({
                         <EditorContent editor={editor} />
                     </div>
 
-                    {isPaged && (
-                        <div style={{
-                            position: 'absolute',
-                            bottom: '8px',
-                            left: '50%',
-                            transform: 'translateX(-50%)',
-                            fontSize: '10px',
-                            color: '#9ca3af',
-                        }}>
-                            1
-                        </div>
-                    )}
+                    {isPaged && pages[0] && renderNotes(pages[0], firstLayout)}
+                    {isPaged && renderHeaderFooter(1, firstLayout)}
                 </div>
 
                 {/* Additional pages - show content offset to display the right portion */}
                 {
-                    isPaged && pages.slice(1).map((pageInfo) => (
-                        <div
-                            key={pageInfo.pageNumber}
-                            style={{
-                                position: 'relative',
-                                width: `${pageWidth}px`,
-                                height: `${pageHeight}px`,
-                                backgroundColor: '#ffffff',
-                                boxShadow: '0 2px 8px rgba(0,0,0,0.15), 0 1px 3px rgba(0,0,0,0.1)',
-                                overflowY: 'hidden',
-                                overflowX: 'visible',
-                            }}
-                        >
-                            <PageCorners />
-
+                    isPaged && pages.slice(1).map((pageInfo) => {
+                        const layout = pageInfo.layout || documentLayout;
+                        return (
                             <div
-                                className={trackChangesDisplayMode === 'final' ? 'track-changes-final-mode' : ''}
+                                key={pageInfo.pageNumber}
                                 style={{
-                                    position: 'absolute',
-                                    top: `${marginTop}px`,
-                                    left: `${marginLeft}px`,
-                                    right: `${marginRight}px`,
-                                    height: `${contentAreaHeight}px`,
+                                    position: 'relative',
+                                    width: `${layout.pageWidth}px`,
+                                    height: `${layout.pageHeight}px`,
+                                    backgroundColor: '#ffffff',
+                                    boxShadow: '0 2px 8px rgba(0,0,0,0.15), 0 1px 3px rgba(0,0,0,0.1)',
                                     overflowY: 'hidden',
                                     overflowX: 'visible',
-                                    // Clip content precisely at the line boundary where this page ends
-                                    clipPath: pageInfo.visibleHeight < contentAreaHeight
-                                        ? `inset(0 -${horizontalClipPaddingPx}px ${contentAreaHeight - pageInfo.visibleHeight}px -${horizontalClipPaddingPx}px)`
-                                        : undefined,
-                                    // Pass CSS variables for consistent styling with page 1
-                                    '--doc-paragraph-spacing': `${paragraphSpacingPt}pt`,
-                                } as React.CSSProperties}
+                                }}
                             >
-                                {/* Cloned content with negative margin to show correct portion */}
+                                <PageCorners />
+
                                 <div
-                                    className="ProseMirror"
+                                    className={trackChangesDisplayMode === 'final' ? 'track-changes-final-mode' : ''}
                                     style={{
-                                        marginTop: `-${pageInfo.contentOffset}px`,
-                                        pointerEvents: 'none',
-                                        fontSize: `${defaultFontSizePt}pt`,
-                                        lineHeight: defaultLineHeight,
-                                    }}
-                                    dangerouslySetInnerHTML={{ __html: clonedContent }}
-                                />
-                            </div>
-
-                            <div style={{
-                                position: 'absolute',
-                                bottom: '8px',
-                                left: '50%',
-                                transform: 'translateX(-50%)',
-                                fontSize: '10px',
-                                color: '#9ca3af',
-                            }}>
-                                {pageInfo.pageNumber}
+                                        position: 'absolute',
+                                        top: `${layout.marginTop}px`,
+                                        left: `${layout.marginLeft}px`,
+                                        right: `${layout.marginRight}px`,
+                                        height: `${layout.contentAreaHeight}px`,
+                                        overflowY: 'hidden',
+                                        overflowX: 'visible',
+                                        // Clip content precisely at the line boundary where this page ends
+                                        clipPath: pageInfo.visibleHeight < layout.contentAreaHeight
+                                            ? `inset(0 -${horizontalClipPaddingPx}px ${layout.contentAreaHeight - pageInfo.visibleHeight}px -${horizontalClipPaddingPx}px)`
+                                            : undefined,
+                                        // Pass CSS variables for consistent styling with page 1
+                                        '--doc-paragraph-spacing': `${paragraphSpacingPt}pt`,
+                                    } as React.CSSProperties}
+                                >
+                                    {/* Cloned content with negative margin to show correct portion */}
+                                    <div
+                                        className="ProseMirror"
+                                        style={{
+                                            marginTop: `-${pageInfo.contentOffset}px`,
+                                            pointerEvents: 'none',
+                                            fontSize: `${defaultFontSizePt}pt`,
+                                            lineHeight: defaultLineHeight,
+                                        }}
+                                        dangerouslySetInnerHTML={{ __html: clonedContent }}
+                                    />
+                                </div>
+
+                                {renderNotes(pageInfo, layout)}
+                                {renderHeaderFooter(pageInfo.pageNumber, layout)}
                             </div>
-                        </div>
-                    ))
+                        );
+                    })
                 }
 
                 {
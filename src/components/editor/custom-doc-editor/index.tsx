@@ -3,22 +3,29 @@
 
 import React, { useState, forwardRef, useEffect } from 'react';
 import JSZip from 'jszip';
+import { JSONContent } from '@tiptap/core';
 
 import { useWorkspace } from '@/contexts/WorkspaceContext';
 import { EditorToolbar } from '../toolbar/EditorToolbar';
 import { CommentsSidebar } from '../sidebar/CommentsSidebar';
+import { TrackChangesPane } from '../sidebar/TrackChangesPane';
 import { TrackChangePopup } from '../popups/TrackChangePopup';
 import { SelectionPopover, CommentInputPopover } from '../popups/SelectionPopover';
+import { MathInputPopover } from '../popups/MathInputPopover';
 import { PagedEditorContent } from './PagedEditorContent';
+import { HeaderFooterKind, HeaderFooterType } from './HeaderFooterArea';
 
 import '../CustomDocEditor.css';
-import { CustomDocEditorHandle, CustomDocEditorProps, Comment, TrackChangesDisplayMode } from './types';
+import { CustomDocEditorHandle, CustomDocEditorProps, Comment, TrackChangesDisplayMode, PageLayoutUpdate } from './types';
 import { useCustomEditor, useEditorHandle } from './use-custom-editor';
 import { useDocxLoader } from './use-docx-loader';
 import { useTrackChanges } from './use-track-changes';
 import { useComments } from './use-comments';
 import { useOutline } from './use-outline';
+import { useMathInput } from './use-math-input';
+import { applyPageLayout } from './sections';
 import { Ruler } from './Ruler';
+import { DEFAULT_STYLES, DocxStyle } from '../../../lib/docx/styles';
 
 export type { CustomDocEditorHandle, TrackChangesDisplayMode };
 
@@ -34,6 +41,7 @@ export const CustomDocEditor = forwardRef<CustomDocEditorHandle, CustomDocEditor
     const [visualLineCount, setVisualLineCount] = useState(0);
 
     const [showComments, setShowComments] = useState(true);
+    const [showReviewPane, setShowReviewPane] = useState(false);
 
     // 1. Initialize Editor
     const editor = useCustomEditor({
@@ -68,12 +76,17 @@ export const CustomDocEditor = forwardRef<CustomDocEditorHandle, CustomDocEditor
         handleDeleteComment,
         handleShowCommentInput,
         handleAddComment,
+        handleReplyComment,
+        handleResolveComment,
         handleCancelCommentInput
     } = useComments({ editor, setComments });
 
     // 6. Handle Outline & Navigation
     useOutline({ editor });
 
+    // 6b. Handle Equation Editing
+    const { mathInputPopover, handleApplyMath, handleCancelMath } = useMathInput({ editor });
+
     // 7. Handle Scroll to Position Requests (from AI search results)
     useEffect(() => {
         if (!editor || scrollToPositionRequest === null) return;
@@ -178,30 +191,33 @@ export const CustomDocEditor = forwardRef<CustomDocEditorHandle, CustomDocEditor
     };
 
     // Page layout change handler
-    const handlePageLayoutChange = (updates: {
-        pageSize?: { width: number; height: number };
-        pageMargins?: { top: number; right: number; bottom: number; left: number };
-    }) => {
+    const handlePageLayoutChange = (updates: PageLayoutUpdate) => {
+        applyPageLayout(editor, docAttrs, updates, setDocAttrs);
+    };
+
+    // Style definition edited in the style dialog (a new document starts from the default styles)
+    const handleStyleChange = (style: DocxStyle) => {
         setDocAttrs((prev: any) => {
-            const newAttrs = { ...prev };
-            if (updates.pageSize) {
-                newAttrs.pageSize = {
-                    ...prev?.pageSize,
-                    'w:w': updates.pageSize.width,
-                    'w:h': updates.pageSize.height,
-                };
-            }
-            if (updates.pageMargins) {
-                newAttrs.pageMargins = {
-                    ...prev?.pageMargins,
-                    'w:top': updates.pageMargins.top,
-                    'w:right': updates.pageMargins.right,
-                    'w:bottom': updates.pageMargins.bottom,
-                    'w:left': updates.pageMargins.left,
-                };
-            }
-            console.log('[CustomDocEditor] Page layout updated:', newAttrs);
-            return newAttrs;
+            const styles: DocxStyle[] = prev?.styles?.length ? prev.styles : DEFAULT_STYLES;
+            const exists = styles.some(s => s.styleId === style.styleId);
+            return {
+                ...prev,
+                styles: exists ? styles.map(s => (s.styleId === style.styleId ? style : s)) : [...styles, style],
+            };
+        });
+    };
+
+    // Header/footer edit handler (content edited inline in PagedEditorContent)
+    const handleHeaderFooterChange = (kind: HeaderFooterKind, type: HeaderFooterType, content: JSONContent[]) => {
+        setDocAttrs((prev: any) => {
+            const key = kind === 'header' ? 'headers' : 'footers';
+            return {
+                ...prev,
+                [key]: {
+                    ...prev?.[key],
+                    [type]: { ...prev?.[key]?.[type], content },
+                },
+            };
         });
     };
 
@@ -248,6 +264,9 @@ export const CustomDocEditor = forwardRef<CustomDocEditorHandle, CustomDocEditor
                 onPageLayoutChange={handlePageLayoutChange}
                 showComments={showComments}
                 onToggleComments={() => setShowComments(!showComments)}
+                showReviewPane={showReviewPane}
+                onToggleReviewPane={() => setShowReviewPane(!showReviewPane)}
+                onStyleChange={handleStyleChange}
             />
 
             <div style={{
@@ -284,17 +303,27 @@ export const CustomDocEditor = forwardRef<CustomDocEditorHandle, CustomDocEditor
                                         setPageCount(pageCount);
                                         setVisualLineCount(visualLineCount);
                                     }}
+                                    onHeaderFooterChange={handleHeaderFooterChange}
                                 />
                             </div>
                         )}
                     </div>
                 </div>
 
+                {showReviewPane && (
+                    <TrackChangesPane
+                        editor={editor}
+                        onCollapse={() => setShowReviewPane(false)}
+                    />
+                )}
+
                 {showComments && comments.length > 0 && (
                     <CommentsSidebar
                         comments={comments}
                         editor={editor}
                         onDeleteComment={handleDeleteComment}
+                        onReplyComment={handleReplyComment}
+                        onResolveComment={handleResolveComment}
                         onCollapse={() => setShowComments(false)}
                     />
                 )}
@@ -323,6 +352,12 @@ export const CustomDocEditor = forwardRef<CustomDocEditorHandle, CustomDocEditor
                 onSubmit={handleAddComment}
                 onCancel={handleCancelCommentInput}
             />
+
+            <MathInputPopover
+                data={mathInputPopover}
+                onApply={handleApplyMath}
+                onCancel={handleCancelMath}
+            />
         </div>
     );
 });
@@ -0,0 +1,200 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Editor } from '@tiptap/react';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+import { PageLayoutUpdate } from './types';
+
+/**
+ * Section model
+ * - Every section except the last ends with a sectionBreak node that carries its page setup
+ *   (the paragraph-level w:sectPr in DOCX)
+ * - The last section uses the document attrs (the body-level w:sectPr)
+ * Page setup values keep the raw w:* attribute maps read from the DOCX (twips).
+ */
+export type SectionType = 'nextPage' | 'continuous' | 'evenPage' | 'oddPage' | 'nextColumn';
+
+export interface SectionAttrs {
+    sectionType?: SectionType | null; // How the section starts (w:type), nextPage when missing
+    pageSize?: Record<string, any> | null;
+    pageMargins?: Record<string, any> | null;
+    cols?: Record<string, any> | null;
+}
+
+export interface DocumentSection {
+    index: number;
+    attrs: SectionAttrs;
+    breakPos: number | null; // Position of the closing sectionBreak node (null for the last section)
+    from: number; // Start of the section's first top-level node
+}
+
+// Page geometry in px (96 DPI)
+export interface PageLayout {
+    pageWidth: number;
+    pageHeight: number;
+    marginTop: number;
+    marginRight: number;
+    marginBottom: number;
+    marginLeft: number;
+    headerDistance: number;
+    footerDistance: number;
+    contentAreaHeight: number;
+    textWidth: number;
+}
+
+const twipsToPixels = (twips: number): number => (twips / 1440) * 96;
+
+const readTwips = (value: any, fallback: number): number => parseInt(value) || fallback;
+
+/**
+ * Page geometry of a section (or of the document attrs for the last section)
+ */
+export const getPageLayout = (attrs: SectionAttrs | null | undefined): PageLayout => {
+    const pageWidth = twipsToPixels(readTwips(attrs?.pageSize?.['w:w'], 12240));
+    const pageHeight = twipsToPixels(readTwips(attrs?.pageSize?.['w:h'], 15840));
+    const marginTop = twipsToPixels(readTwips(attrs?.pageMargins?.['w:top'], 1440));
+    const marginRight = twipsToPixels(readTwips(attrs?.pageMargins?.['w:right'], 1440));
+    const marginBottom = twipsToPixels(readTwips(attrs?.pageMargins?.['w:bottom'], 1440));
+    const marginLeft = twipsToPixels(readTwips(attrs?.pageMargins?.['w:left'], 1440));
+
+    return {
+        pageWidth,
+        pageHeight,
+        marginTop,
+        marginRight,
+        marginBottom,
+        marginLeft,
+        headerDistance: twipsToPixels(readTwips(attrs?.pageMargins?.['w:header'], 720)),
+        footerDistance: twipsToPixels(readTwips(attrs?.pageMargins?.['w:footer'], 720)),
+        contentAreaHeight: pageHeight - marginTop - marginBottom,
+        textWidth: pageWidth - marginLeft - marginRight,
+    };
+};
+
+/**
+ * Split the document into sections at its sectionBreak nodes
+ */
+export const getDocumentSections = (doc: ProseMirrorNode, docAttrs: any): DocumentSection[] => {
+    const sections: DocumentSection[] = [];
+    let from = 0;
+    doc.forEach((node, offset) => {
+        if (node.type.name !== 'sectionBreak') return;
+        sections.push({ index: sections.length, attrs: node.attrs as SectionAttrs, breakPos: offset, from });
+        from = offset + node.nodeSize;
+    });
+    sections.push({
+        index: sections.length,
+        attrs: {
+            sectionType: docAttrs?.sectionType ?? null,
+            pageSize: docAttrs?.pageSize ?? null,
+            pageMargins: docAttrs?.pageMargins ?? null,
+            cols: docAttrs?.cols ?? null,
+        },
+        breakPos: null,
+        from,
+    });
+    return sections;
+};
+
+/**
+ * Section containing a document position
+ */
+export const getSectionAt = (sections: DocumentSection[], pos: number): DocumentSection => {
+    return sections.find(section => section.breakPos !== null && pos <= section.breakPos) || sections[sections.length - 1];
+};
+
+/**
+ * Apply a page layout update to one section's attrs (values in twips)
+ */
+export const mergeSectionLayout = <T extends SectionAttrs>(attrs: T, updates: PageLayoutUpdate): T => {
+    const next: T = { ...attrs };
+
+    if (updates.pageSize) {
+        next.pageSize = {
+            ...attrs?.pageSize,
+            'w:w': updates.pageSize.width ?? attrs?.pageSize?.['w:w'] ?? 12240,
+            'w:h': updates.pageSize.height ?? attrs?.pageSize?.['w:h'] ?? 15840,
+        };
+        // Keep w:orient consistent with the new dimensions
+        if (next.pageSize['w:orient'] || Number(next.pageSize['w:w']) > Number(next.pageSize['w:h'])) {
+            next.pageSize['w:orient'] = Number(next.pageSize['w:w']) > Number(next.pageSize['w:h']) ? 'landscape' : 'portrait';
+        }
+    }
+
+    if (updates.pageMargins) {
+        next.pageMargins = {
+            ...attrs?.pageMargins,
+            'w:top': updates.pageMargins.top ?? attrs?.pageMargins?.['w:top'] ?? 1440,
+            'w:right': updates.pageMargins.right ?? attrs?.pageMargins?.['w:right'] ?? 1440,
+            'w:bottom': updates.pageMargins.bottom ?? attrs?.pageMargins?.['w:bottom'] ?? 1440,
+            'w:left': updates.pageMargins.left ?? attrs?.pageMargins?.['w:left'] ?? 1440,
+        };
+    }
+
+    if (updates.columns) {
+        next.cols = {
+            ...attrs?.cols,
+            'w:num': updates.columns.count ?? attrs?.cols?.['w:num'] ?? 1,
+            'w:space': updates.columns.space ?? attrs?.cols?.['w:space'] ?? 425,
+        };
+    }
+
+    return next;
+};
+
+/**
+ * Apply a page layout update to the document, section by section.
+ * - 'document': every section
+ * - 'section': the section containing the cursor
+ * - 'forward': a new section starting at the cursor's block (a sectionBreak is inserted before it)
+ * The last section lives in docAttrs, so it is updated through setDocAttrs.
+ */
+export const applyPageLayout = (
+    editor: Editor | null,
+    docAttrs: any,
+    updates: PageLayoutUpdate,
+    setDocAttrs: (update: (prev: any) => any) => void,
+) => {
+    const scope = updates.scope || 'document';
+    if (!editor || scope === 'document') {
+        if (editor) {
+            const { tr } = editor.state;
+            getDocumentSections(editor.state.doc, docAttrs).forEach(section => {
+                if (section.breakPos === null) return;
+                tr.setNodeMarkup(section.breakPos, undefined, mergeSectionLayout(section.attrs, updates));
+            });
+            if (tr.docChanged) editor.view.dispatch(tr);
+        }
+        setDocAttrs((prev: any) => mergeSectionLayout(prev || {}, updates));
+        return;
+    }
+
+    const { state } = editor;
+    const sections = getDocumentSections(state.doc, docAttrs);
+    const cursorPos = state.selection.from;
+    const section = getSectionAt(sections, cursorPos);
+    const tr = state.tr;
+    let updateSectionType = false;
+
+    if (scope === 'forward') {
+        // Top-level block containing the cursor becomes the first block of the new section
+        const $pos = state.doc.resolve(cursorPos);
+        const blockStart = $pos.depth > 0 ? $pos.before(1) : cursorPos;
+        if (blockStart > section.from && state.schema.nodes.sectionBreak) {
+            tr.insert(blockStart, state.schema.nodes.sectionBreak.create({ ...section.attrs }));
+            updateSectionType = true;
+        }
+    }
+
+    if (section.breakPos !== null) {
+        const breakPos = tr.mapping.map(section.breakPos);
+        const attrs = mergeSectionLayout(section.attrs, updates);
+        tr.setNodeMarkup(breakPos, undefined, updateSectionType ? { ...attrs, sectionType: 'nextPage' } : attrs);
+    } else {
+        setDocAttrs((prev: any) => {
+            const attrs = mergeSectionLayout(prev || {}, updates);
+            return updateSectionType ? { ...attrs, sectionType: 'nextPage' } : attrs;
+        });
+    }
+
+    if (tr.docChanged) editor.view.dispatch(tr);
+};
@@ -0,0 +1,211 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import { Schema } from '@tiptap/pm/model';
+import { EditorState } from '@tiptap/pm/state';
+import {
+    TrackedChange,
+    applyTrackedChanges,
+    collectTrackedChanges,
+    groupTrackedChanges,
+    matchesTrackedChangeFilter,
+    recordFormatChanges,
+    snapshotFormatting,
+} from './track-changes';
+
+const revisionAttrs = { author: { default: null }, date: { default: null } };
+
+const schema = new Schema({
+    nodes: {
+        doc: { content: 'block+' },
+        paragraph: { group: 'block', content: 'text*', attrs: { styleId: { default: null }, sdBlockId: { default: null }, formatChange: { default: null } } },
+        heading: { group: 'block', content: 'text*', attrs: { level: { default: 1 }, sdBlockId: { default: null }, formatChange: { default: null } } },
+        text: {},
+    },
+    marks: {
+        insertion: { attrs: revisionAttrs },
+        deletion: { attrs: revisionAttrs },
+        formatChange: { attrs: { ...revisionAttrs, oldMarks: { default: [] } } },
+        bold: {},
+        italic: {},
+    },
+});
+
+// Dates without an offset are local time, so these hold in any time zone
+const ALICE = { author: 'Alice', date: '2024-05-01T09:00:00' };
+const BOB = { author: 'Bob', date: '2024-05-02T23:30:00' };
+
+const text = (value: string, ...marks: any[]) => ({ type: 'text', text: value, ...(marks.length && { marks }) });
+const paragraph = (...content: any[]) => ({ type: 'paragraph', content });
+
+const stateOf = (...content: any[]) =>
+    EditorState.create({ doc: schema.nodeFromJSON({ type: 'doc', content }) });
+
+const change = (overrides: Partial<TrackedChange>): TrackedChange => ({
+    id: 'insertion-1', type: 'insertion', author: 'Alice', date: '2024-05-01T09:00:00', text: '', from: 1, to: 2, ...overrides,
+});
+
+describe('track-changes', () => {
+    const state = stateOf(
+        paragraph(
+            text('Keep '),
+            text('new', { type: 'insertion', attrs: ALICE }),
+            text(' '),
+            text('old', { type: 'deletion', attrs: BOB }),
+            text(' end'),
+        ),
+        paragraph(text('more', { type: 'insertion', attrs: BOB })),
+    );
+
+    it('should collect each revision run with its author, date and text', () => {
+        expect(collectTrackedChanges(state.doc).map(({ type, author, date, text }) => ({ type, author, date, text }))).toEqual([
+            { type: 'insertion', ...ALICE, text: 'new' },
+            { type: 'deletion', ...BOB, text: 'old' },
+            { type: 'insertion', ...BOB, text: 'more' },
+        ]);
+    });
+
+    it('should merge adjacent text with the same revision into one change', () => {
+        const merged = stateOf(paragraph(
+            text('ab', { type: 'insertion', attrs: ALICE }),
+            text('cd', { type: 'insertion', attrs: ALICE }, { type: 'bold' }),
+            text('ef', { type: 'insertion', attrs: BOB }),
+        ));
+
+        expect(collectTrackedChanges(merged.doc).map(c => [c.author, c.text, c.from, c.to])).toEqual([
+            ['Alice', 'abcd', 1, 5],
+            ['Bob', 'ef', 5, 7],
+        ]);
+    });
+
+    it('should filter by author and type', () => {
+        const insertion = change({ type: 'insertion', author: 'Alice' });
+        const deletion = change({ type: 'deletion', author: 'Bob' });
+
+        expect(matchesTrackedChangeFilter(insertion, { authors: ['Alice'] })).toBe(true);
+        expect(matchesTrackedChangeFilter(deletion, { authors: ['Alice'] })).toBe(false);
+        expect(matchesTrackedChangeFilter(deletion, { type: 'deletion' })).toBe(true);
+        expect(matchesTrackedChangeFilter(insertion, { type: 'deletion' })).toBe(false);
+        expect(matchesTrackedChangeFilter(insertion, { authors: ['Alice'], type: 'deletion' })).toBe(false);
+        expect(matchesTrackedChangeFilter(insertion, {})).toBe(true);
+    });
+
+    it('should include both ends of a plain date range as whole local days', () => {
+        const at = (date: string) => change({ date });
+        const range = { dateFrom: '2024-05-01', dateTo: '2024-05-02' };
+
+        expect(matchesTrackedChangeFilter(at('2024-05-01T00:00:00'), range)).toBe(true);
+        expect(matchesTrackedChangeFilter(at('2024-05-02T23:59:59'), range)).toBe(true);
+        expect(matchesTrackedChangeFilter(at('2024-04-30T23:59:59'), range)).toBe(false);
+        expect(matchesTrackedChangeFilter(at('2024-05-03T00:00:00'), range)).toBe(false);
+    });
+
+    it('should compare date-time bounds exactly and never match undated changes', () => {
+        const at = (date: string) => change({ date });
+        const range = { dateFrom: '2024-05-01T12:00:00', dateTo: '2024-05-01T18:00:00' };
+
+        expect(matchesTrackedChangeFilter(at('2024-05-01T12:00:00'), range)).toBe(true);
+        expect(matchesTrackedChangeFilter(at('2024-05-01T18:00:00'), range)).toBe(true);
+        expect(matchesTrackedChangeFilter(at('2024-05-01T11:59:59'), range)).toBe(false);
+        expect(matchesTrackedChangeFilter(at('2024-05-01T18:00:01'), range)).toBe(false);
+        expect(matchesTrackedChangeFilter(at(''), { dateFrom: '2024-05-01' })).toBe(false);
+    });
+
+    it('should group by author and by the local day the filter uses', () => {
+        const changes = [
+            change({ id: 'a', author: 'Alice', date: '2024-05-01T00:00:00' }),
+            change({ id: 'b', author: 'Bob', date: '2024-05-02T23:30:00' }),
+            change({ id: 'c', author: 'Alice', date: '2024-05-01T23:59:59' }),
+            change({ id: 'd', author: 'Bob', date: '' }),
+        ];
+        const ids = (groups: { key: string; changes: TrackedChange[] }[]) => groups.map(g => [g.key, g.changes.map(c => c.id)]);
+
+        expect(ids(groupTrackedChanges(changes, 'author'))).toEqual([['Alice', ['a', 'c']], ['Bob', ['b', 'd']]]);
+        expect(ids(groupTrackedChanges(changes, 'date'))).toEqual([['2024-05-01', ['a', 'c']], ['2024-05-02', ['b']], ['', ['d']]]);
+
+        // Every change in a day group matches a filter on that day
+        for (const group of groupTrackedChanges(changes, 'date').filter(g => g.key)) {
+            expect(group.changes.every(c => matchesTrackedChangeFilter(c, { dateFrom: group.key, dateTo: group.key }))).toBe(true);
+        }
+    });
+
+    it('should accept a filtered subset and leave the other changes in place', () => {
+        const bobs = collectTrackedChanges(state.doc).filter(c => matchesTrackedChangeFilter(c, { authors: ['Bob'] }));
+        const doc = applyTrackedChanges(state.tr, bobs, 'accept').doc;
+
+        expect(doc.textContent).toBe('Keep new  endmore');
+        expect(collectTrackedChanges(doc).map(({ type, author, text }) => ({ type, author, text }))).toEqual([
+            { type: 'insertion', author: 'Alice', text: 'new' },
+        ]);
+    });
+
+    it('should reject a filtered subset and leave the other changes in place', () => {
+        const insertions = collectTrackedChanges(state.doc).filter(c => matchesTrackedChangeFilter(c, { type: 'insertion' }));
+        const doc = applyTrackedChanges(state.tr, insertions, 'reject').doc;
+
+        expect(doc.textContent).toBe('Keep  old end');
+        expect(collectTrackedChanges(doc).map(({ type, author, text }) => ({ type, author, text }))).toEqual([
+            { type: 'deletion', author: 'Bob', text: 'old' },
+        ]);
+    });
+
+    describe('recordFormatChanges', () => {
+        const DATE = '2024-05-03T10:00:00';
+
+        // Bold "Keep" and turn the paragraph into a heading, as a formatting command under tracking would
+        const formatted = () => {
+            const start = stateOf(paragraph(text('Keep', { type: 'italic' }), text(' going')));
+            const snapshot = snapshotFormatting(start.doc, 0, start.doc.content.size);
+            const tr = start.tr
+                .addMark(1, 5, schema.marks.bold.create())
+                .setNodeMarkup(0, schema.nodes.heading, { level: 2 });
+            return { start, snapshot, tr, recorded: recordFormatChanges(tr, snapshot, 'Alice', DATE) };
+        };
+
+        it('should record the previous marks of reformatted text as a formatChange mark', () => {
+            const { tr, recorded } = formatted();
+
+            expect(recorded).toBe(true);
+            const mark = tr.doc.nodeAt(1)!.marks.find(m => m.type.name === 'formatChange')!;
+            expect(mark.attrs).toEqual({ author: 'Alice', date: DATE, oldMarks: [{ type: 'italic' }] });
+            // Unchanged text gets no revision
+            expect(tr.doc.nodeAt(5)!.marks).toEqual([]);
+        });
+
+        it('should record the previous paragraph type and attrs', () => {
+            const { tr } = formatted();
+
+            expect(tr.doc.firstChild!.attrs.formatChange).toEqual({ author: 'Alice', date: DATE, type: 'paragraph', attrs: { styleId: null } });
+            expect(collectTrackedChanges(tr.doc).map(({ type, description, text }) => ({ type, description, text }))).toEqual([
+                { type: 'paragraphFormat', description: '標準 → 見出し 2', text: 'Keep going' },
+                { type: 'format', description: '+太字', text: 'Keep' },
+            ]);
+        });
+
+        it('should restore the old marks and paragraph on reject', () => {
+            const { start, tr } = formatted();
+            const rejected = applyTrackedChanges(tr, collectTrackedChanges(tr.doc), 'reject').doc;
+
+            expect(rejected.toJSON()).toEqual(start.doc.toJSON());
+        });
+
+        it('should keep the formatting on accept and drop the revisions', () => {
+            const { tr } = formatted();
+            const accepted = applyTrackedChanges(tr, collectTrackedChanges(tr.doc), 'accept').doc;
+
+            expect(accepted.firstChild!.type.name).toBe('heading');
+            expect(accepted.firstChild!.attrs.formatChange).toBeNull();
+            expect(accepted.nodeAt(1)!.marks.map(m => m.type.name)).toEqual(['bold', 'italic']);
+            expect(collectTrackedChanges(accepted)).toEqual([]);
+        });
+
+        it('should keep the original formatting when tracked text is reformatted again', () => {
+            const { tr } = formatted();
+            const snapshot = snapshotFormatting(tr.doc, 0, tr.doc.content.size);
+            tr.removeMark(1, 5, schema.marks.italic).setNodeMarkup(0, undefined, { ...tr.doc.firstChild!.attrs, level: 3 });
+
+            expect(recordFormatChanges(tr, snapshot, 'Bob', DATE)).toBe(false);
+            expect(tr.doc.nodeAt(1)!.marks.find(m => m.type.name === 'formatChange')!.attrs.oldMarks).toEqual([{ type: 'italic' }]);
+            expect(tr.doc.firstChild!.attrs.formatChange.type).toBe('paragraph');
+        });
+    });
+});
@@ -0,0 +1,357 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Transaction } from '@tiptap/pm/state';
+
+/**
+ * Tracked change model
+ * - A change is a run of adjacent text carrying the same insertion/deletion/formatChange mark
+ *   (same author and date), i.e. what Word lists as a single revision
+ * - paragraphFormat changes are textblocks whose formatChange attr keeps the node type and attrs before the change
+ * - moveFrom / moveTo changes are the two sides of a move, linked by the move name; resolving one side resolves both
+ * - rowInsertion / rowDeletion changes are table rows whose rowChange attr marks them as inserted or deleted
+ * - ids are derived from the document position, so they are only valid until the document changes
+ */
+export type TrackedChangeType = 'insertion' | 'deletion' | 'format' | 'paragraphFormat' | 'moveFrom' | 'moveTo' | 'rowInsertion' | 'rowDeletion';
+
+export interface TrackedChange {
+    id: string;
+    type: TrackedChangeType;
+    author: string;
+    date: string;
+    text: string;
+    from: number;
+    to: number;
+    description?: string; // Formatting changes: what changed (e.g. "+太字")
+    moveName?: string; // Moves: name shared by the moveFrom and moveTo sides
+}
+
+// Formatting before a tracked paragraph change (textblock attr formatChange)
+export interface ParagraphFormatChange {
+    author: string;
+    date: string;
+    type: string;
+    attrs: Record<string, any>;
+}
+
+// Text of the range before formatting commands run; recordFormatChanges compares it with the result
+export interface FormattingSnapshot {
+    runs: { from: number; to: number; marks: any[] }[];
+    blocks: { pos: number; type: string; attrs: Record<string, any> }[];
+}
+
+export interface TrackedChangeFilter {
+    ids?: string[];
+    authors?: string[];
+    type?: TrackedChangeType;
+    dateFrom?: string; // ISO date or date-time, inclusive
+    dateTo?: string; // ISO date or date-time, inclusive (a plain date covers the whole day)
+}
+
+export type TrackedChangeGroupBy = 'author' | 'date';
+
+export interface TrackedChangeGroup {
+    key: string;
+    changes: TrackedChange[];
+}
+
+const RUN_CHANGE_MARKS: Record<string, TrackedChangeType> = {
+    insertion: 'insertion',
+    deletion: 'deletion',
+    formatChange: 'format',
+    moveFrom: 'moveFrom',
+    moveTo: 'moveTo',
+};
+
+// Marks that are not character formatting: kept as they are when a formatting change is rejected
+const NON_FORMATTING_MARKS = new Set(['insertion', 'deletion', 'moveFrom', 'moveTo', 'formatChange', 'comment', 'link']);
+
+const FORMAT_LABELS: Record<string, string> = {
+    bold: '太字',
+    italic: '斜体',
+    underline: '下線',
+    strike: '取り消し線',
+    code: 'コード',
+    highlight: '蛍光ペン',
+    textStyle: '文字スタイル',
+    superscript: '上付き',
+    subscript: '下付き',
+};
+
+const formattingOf = (marks: any[]): any[] => marks.filter(mark => !NON_FORMATTING_MARKS.has(mark.type));
+
+const describeFormatting = (before: any[], after: any[]): string => {
+    const key = (mark: any) => JSON.stringify(mark);
+    const label = (mark: any) => FORMAT_LABELS[mark.type] || mark.type;
+    const added = after.filter(mark => !before.some(b => key(b) === key(mark))).map(mark => `+${label(mark)}`);
+    const removed = before.filter(mark => !after.some(a => key(a) === key(mark))).map(mark => `−${label(mark)}`);
+    return [...added, ...removed].join(' ') || '書式';
+};
+
+const describeBlock = (type: string, attrs: Record<string, any>): string =>
+    type === 'heading' ? `見出し ${attrs.level || 1}` : (attrs.styleId || '標準');
+
+export const collectTrackedChanges = (doc: ProseMirrorNode): TrackedChange[] => {
+    const changes: TrackedChange[] = [];
+    // Last change of each run type with the key deciding whether the next text node continues it
+    const open: Partial<Record<TrackedChangeType, { change: TrackedChange; key: string }>> = {};
+
+    doc.descendants((node, pos) => {
+        if (node.isTextblock && node.attrs.formatChange) {
+            const previous = node.attrs.formatChange as ParagraphFormatChange;
+            const before = describeBlock(previous.type, previous.attrs || {});
+            const after = describeBlock(node.type.name, node.attrs);
+            changes.push({
+                id: `paragraphFormat-${pos}`,
+                type: 'paragraphFormat',
+                author: String(previous.author || 'Unknown'),
+                date: String(previous.date || ''),
+                text: node.textContent,
+                from: pos,
+                to: pos + node.nodeSize,
+                description: before === after ? '段落書式' : `${before} → ${after}`,
+            });
+        }
+        if (node.type.name === 'tableRow' && node.attrs.rowChange) {
+            const rowChange = node.attrs.rowChange;
+            const type: TrackedChangeType = rowChange.type === 'deletion' ? 'rowDeletion' : 'rowInsertion';
+            changes.push({
+                id: `${type}-${pos}`,
+                type,
+                author: String(rowChange.author || 'Unknown'),
+                date: String(rowChange.date || ''),
+                text: node.textContent,
+                from: pos,
+                to: pos + node.nodeSize,
+            });
+        }
+        if (!node.isText) return true;
+
+        for (const mark of node.marks) {
+            const type = RUN_CHANGE_MARKS[mark.type.name];
+            if (!type) continue;
+
+            const author = String(mark.attrs.author || 'Unknown');
+            const date = String(mark.attrs.date || '');
+            const oldMarks = type === 'format' ? (mark.attrs.oldMarks || []) : null;
+            const moveName = type === 'moveFrom' || type === 'moveTo' ? String(mark.attrs.name || '') : null;
+            const key = JSON.stringify([author, date, oldMarks, moveName]);
+            const last = open[type];
+            if (last && last.change.to === pos && last.key === key) {
+                last.change.to = pos + node.nodeSize;
+                last.change.text += node.text || '';
+                continue;
+            }
+
+            const change: TrackedChange = { id: `${type}-${pos}`, type, author, date, text: node.text || '', from: pos, to: pos + node.nodeSize };
+            if (oldMarks) {
+                change.description = describeFormatting(formattingOf(oldMarks), formattingOf(node.marks.map(m => m.toJSON())));
+            }
+            if (moveName) change.moveName = moveName;
+            changes.push(change);
+            open[type] = { change, key };
+        }
+        return false;
+    });
+
+    return changes;
+};
+
+// Plain dates are local calendar days, as the review pane shows and groups changes in local time
+const toTime = (value: string, endOfDay: boolean): number => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return Date.parse(value);
+    const [year, month, day] = match.slice(1).map(Number);
+    return endOfDay ? new Date(year, month - 1, day + 1).getTime() - 1 : new Date(year, month - 1, day).getTime();
+};
+
+// Local calendar day (YYYY-MM-DD) of a change, '' when it is undated
+const localDay = (date: string): string => {
+    const time = Date.parse(date);
+    if (Number.isNaN(time)) return '';
+    const value = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+};
+
+export const matchesTrackedChangeFilter = (change: TrackedChange, filter: TrackedChangeFilter = {}): boolean => {
+    if (filter.ids?.length && !filter.ids.includes(change.id)) return false;
+    if (filter.authors?.length && !filter.authors.includes(change.author)) return false;
+    if (filter.type && change.type !== filter.type) return false;
+    if (filter.dateFrom || filter.dateTo) {
+        // Undated changes never match a date range
+        const time = Date.parse(change.date);
+        if (Number.isNaN(time)) return false;
+        if (filter.dateFrom && time < toTime(filter.dateFrom, false)) return false;
+        if (filter.dateTo && time > toTime(filter.dateTo, true)) return false;
+    }
+    return true;
+};
+
+// Matching changes plus the other side of every matching move
+export const filterTrackedChanges = (doc: ProseMirrorNode, filter?: TrackedChangeFilter): TrackedChange[] => {
+    const changes = collectTrackedChanges(doc);
+    const matched = new Set(changes.filter(change => matchesTrackedChangeFilter(change, filter)));
+    const moveNames = new Set(Array.from(matched, change => change.moveName).filter(Boolean));
+    return changes.filter(change => matched.has(change) || (change.moveName && moveNames.has(change.moveName)));
+};
+
+// The other side of a move (null for other changes or unnamed moves)
+export const findLinkedMove = (changes: TrackedChange[], change: TrackedChange): TrackedChange | null => {
+    if (!change.moveName) return null;
+    const otherType = change.type === 'moveFrom' ? 'moveTo' : 'moveFrom';
+    return changes.find(other => other.type === otherType && other.moveName === change.moveName) || null;
+};
+
+// Group for the review pane: by author, or by local calendar day (undated changes share one group)
+export const groupTrackedChanges = (changes: TrackedChange[], groupBy: TrackedChangeGroupBy): TrackedChangeGroup[] => {
+    const groups = new Map<string, TrackedChange[]>();
+    for (const change of changes) {
+        const key = groupBy === 'author' ? change.author : localDay(change.date);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(change);
+    }
+    return Array.from(groups, ([key, grouped]) => ({ key, changes: grouped }));
+};
+
+/**
+ * Accept or reject the given changes in one transaction
+ * - accept: insertions lose their mark, deleted text is removed, formatting changes are kept
+ * - reject: inserted text is removed, deletions lose their mark, the previous formatting is restored
+ * - moves behave as an insertion (moveTo) plus a deletion (moveFrom), rows as inserted / deleted content
+ */
+export const applyTrackedChanges = (tr: Transaction, changes: TrackedChange[], action: 'accept' | 'reject'): Transaction => {
+    const { schema } = tr.doc.type;
+    // Back to front so earlier positions stay valid (a paragraph change comes after the changes inside it)
+    const ordered = [...changes].sort((a, b) => b.from - a.from);
+
+    for (const change of ordered) {
+        if (change.type === 'format') {
+            const markType = schema.marks.formatChange;
+            if (!markType) continue;
+            if (action === 'reject') {
+                const oldMarks: any[] = tr.doc.nodeAt(change.from)?.marks.find(m => m.type === markType)?.attrs.oldMarks || [];
+                Object.values(schema.marks)
+                    .filter(type => !NON_FORMATTING_MARKS.has(type.name))
+                    .forEach(type => tr.removeMark(change.from, change.to, type));
+                oldMarks
+                    .filter(mark => schema.marks[mark.type])
+                    .forEach(mark => tr.addMark(change.from, change.to, schema.markFromJSON(mark)));
+            }
+            tr.removeMark(change.from, change.to, markType);
+            continue;
+        }
+
+        if (change.type === 'paragraphFormat') {
+            const node = tr.doc.nodeAt(change.from);
+            const previous = node?.attrs.formatChange as ParagraphFormatChange | undefined;
+            if (!node || !previous) continue;
+            if (action === 'reject') {
+                const type = schema.nodes[previous.type] || node.type;
+                tr.setNodeMarkup(change.from, type, { ...previous.attrs, sdBlockId: node.attrs.sdBlockId, formatChange: null });
+            } else {
+                tr.setNodeMarkup(change.from, undefined, { ...node.attrs, formatChange: null });
+            }
+            continue;
+        }
+
+        if (change.type === 'rowInsertion' || change.type === 'rowDeletion') {
+            const node = tr.doc.nodeAt(change.from);
+            if (!node?.attrs.rowChange) continue;
+            if ((change.type === 'rowInsertion') === (action === 'accept')) {
+                tr.setNodeMarkup(change.from, undefined, { ...node.attrs, rowChange: null });
+            } else {
+                // Removing the last row removes the table
+                const $row = tr.doc.resolve(change.from);
+                if ($row.parent.childCount === 1) {
+                    tr.delete($row.before(), $row.after());
+                } else {
+                    tr.delete(change.from, change.to);
+                }
+            }
+            continue;
+        }
+
+        const keepText = (change.type === 'insertion' || change.type === 'moveTo') === (action === 'accept');
+        if (keepText) {
+            const markType = schema.marks[change.type];
+            if (markType) tr.removeMark(change.from, change.to, markType);
+        } else {
+            tr.delete(change.from, change.to);
+        }
+    }
+
+    return tr;
+};
+
+/**
+ * Formatting of [from, to] before formatting commands run (text already inside an insertion/deletion is skipped:
+ * the text revision covers it)
+ */
+export const snapshotFormatting = (doc: ProseMirrorNode, from: number, to: number): FormattingSnapshot => {
+    const snapshot: FormattingSnapshot = { runs: [], blocks: [] };
+    doc.nodesBetween(from, to, (node, pos) => {
+        if (node.isTextblock) {
+            snapshot.blocks.push({ pos, type: node.type.name, attrs: { ...node.attrs } });
+        }
+        if (node.isText && !node.marks.some(m => m.type.name === 'insertion' || m.type.name === 'deletion')) {
+            snapshot.runs.push({
+                from: Math.max(pos, from),
+                to: Math.min(pos + node.nodeSize, to),
+                marks: node.marks.map(m => m.toJSON()),
+            });
+        }
+        return true;
+    });
+    return snapshot;
+};
+
+/**
+ * Record what changed since the snapshot as formatting revisions; text or paragraphs already carrying
+ * a formatting revision keep it, so rejecting still restores the original formatting
+ */
+export const recordFormatChanges = (tr: Transaction, snapshot: FormattingSnapshot, author: string, date: string): boolean => {
+    const { schema } = tr.doc.type;
+    const markType = schema.marks.formatChange;
+    let recorded = false;
+
+    if (markType) {
+        for (const run of snapshot.runs) {
+            if (run.marks.some(mark => mark.type === 'formatChange')) continue;
+            const node = tr.doc.nodeAt(run.from);
+            if (!node?.isText) continue;
+            const before = formattingOf(run.marks);
+            const after = formattingOf(node.marks.map(m => m.toJSON()));
+            if (JSON.stringify(before) === JSON.stringify(after)) continue;
+            tr.addMark(run.from, run.to, markType.create({ author, date, oldMarks: before }));
+            recorded = true;
+        }
+    }
+
+    const comparable = (attrs: Record<string, any>) => JSON.stringify({ ...attrs, sdBlockId: null, formatChange: null });
+    for (const block of snapshot.blocks) {
+        if (block.attrs.formatChange) continue;
+        const node = tr.doc.nodeAt(block.pos);
+        if (!node?.isTextblock || !('formatChange' in node.attrs)) continue;
+        if (node.type.name === block.type && comparable(node.attrs) === comparable(block.attrs)) continue;
+        const attrs = { ...block.attrs };
+        delete attrs.sdBlockId;
+        delete attrs.formatChange;
+        const formatChange: ParagraphFormatChange = { author, date, type: block.type, attrs };
+        tr.setNodeMarkup(block.pos, undefined, { ...node.attrs, formatChange });
+        recorded = true;
+    }
+
+    return recorded;
+};
+
+export const formatTrackedChangeDate = (date: string): string => {
+    const time = Date.parse(date);
+    if (Number.isNaN(time)) return '';
+    return new Date(time).toLocaleString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+export const summarizeTrackedChange = (change: TrackedChange, maxLength = 40): string =>
+    change.text.length > maxLength ? `${change.text.slice(0, maxLength)}...` : change.text;
+
+export const getTrackedChangeAuthors = (changes: TrackedChange[]): string[] =>
+    Array.from(new Set(changes.map(change => change.author)));
@@ -1,9 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Editor } from '@tiptap/react';
+import { CommentReply } from '../extensions';
+
+export type PageLayoutScope = 'document' | 'section' | 'forward';
 
 export interface PageLayoutUpdate {
     pageSize?: { width?: number; height?: number };
     pageMargins?: { top?: number; right?: number; bottom?: number; left?: number };
+    columns?: { count?: number; space?: number };
+    scope?: PageLayoutScope; // Defaults to the whole document
 }
 
 export interface CustomDocEditorHandle {
@@ -29,6 +34,8 @@ export interface Comment {
     author: string;
     date: string;
     content: string;
+    replies?: CommentReply[];
+    done?: boolean; // Resolved thread
 }
 
 export type TrackChangesDisplayMode = 'markup' | 'final';
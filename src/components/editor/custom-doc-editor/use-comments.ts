@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect, Dispatch, SetStateAction } from 'react';
 import { Editor } from '@tiptap/react';
+import { NodeSelection } from '@tiptap/pm/state';
 import { Comment } from './types';
 
 interface UseCommentsProps {
@@ -97,6 +98,29 @@ export const useComments = ({ editor, setComments }: UseCommentsProps) => {
         setCommentInputPopover({ visible: false, x: 0, y: 0 });
     }, [editor, setComments]);
 
+    // Reply to a comment thread
+    const handleReplyComment = useCallback((commentId: string, content: string) => {
+        if (!editor) return;
+
+        const reply = {
+            id: Math.random().toString(36).substr(2, 9),
+            author: 'User',
+            date: new Date().toISOString(),
+            content,
+        };
+        if (!editor.commands.replyToComment(commentId, reply)) return;
+
+        setComments(prev => prev.map(c => c.id === commentId ? { ...c, replies: [...(c.replies || []), reply] } : c));
+    }, [editor, setComments]);
+
+    // Resolve / reopen a comment thread
+    const handleResolveComment = useCallback((commentId: string, done: boolean) => {
+        if (!editor) return;
+        if (!editor.commands.setCommentResolved(commentId, done)) return;
+
+        setComments(prev => prev.map(c => c.id === commentId ? { ...c, done } : c));
+    }, [editor, setComments]);
+
     // Cancel comment input handler
     const handleCancelCommentInput = useCallback(() => {
         savedSelectionRef.current = null;
@@ -154,8 +178,9 @@ export const useComments = ({ editor, setComments }: UseCommentsProps) => {
                 const { selection } = state;
                 const { from, to } = selection;
 
-                // Only show popover if there's actual text selected (not just cursor)
-                if (from !== to && !commentInputPopover.visible) {
+                // Only show popover if there's actual text selected (not just cursor); a selected equation opens the math input instead
+                const isEquation = selection instanceof NodeSelection && selection.node.type.name === 'math';
+                if (from !== to && !isEquation && !commentInputPopover.visible) {
                     // Get the DOM range to position the popover
                     const view = editor.view;
                     const start = view.coordsAtPos(from);
@@ -195,6 +220,8 @@ export const useComments = ({ editor, setComments }: UseCommentsProps) => {
         handleDeleteComment,
         handleShowCommentInput,
         handleAddComment,
+        handleReplyComment,
+        handleResolveComment,
         handleCancelCommentInput
     };
 };
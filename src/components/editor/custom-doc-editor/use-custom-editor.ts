@@ -4,20 +4,17 @@ import JSZip from 'jszip';
 import { useEditor, Editor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import { Underline as UnderlineExtension } from '@tiptap/extension-underline';
-import { Table } from '@tiptap/extension-table';
-import { TableRow } from '@tiptap/extension-table-row';
-import { TableCell } from '@tiptap/extension-table-cell';
-import { TableHeader } from '@tiptap/extension-table-header';
 import { TextStyle } from '@tiptap/extension-text-style';
 import { Color } from '@tiptap/extension-color';
 import FontFamily from '@tiptap/extension-font-family';
 import Highlight from '@tiptap/extension-highlight';
-import Image from '@tiptap/extension-image';
 import TextAlign from '@tiptap/extension-text-align';
 
 import { DocxWriter } from '../../../lib/docx/DocxWriter';
-import { BlockIdExtension, DeleteBlockCommand, CustomParagraph, FontSize, InsertionMark, DeletionMark, CommentMark, CustomHeading, CustomOrderedList, DocxTab, TabStopLayout } from '../extensions';
-import { Comment } from './types';
+import { BlockIdExtension, DeleteBlockCommand, CustomParagraph, FontSize, InsertionMark, DeletionMark, MoveFromMark, MoveToMark, FormatChangeMark, TrackChangesReview, CommentMark, CustomHeading, CustomOrderedList, DocxTab, TabStopLayout, Footnote, DocxImage, DocxLink, BookmarkStart, BookmarkEnd, Field, TableOfContents, SectionBreak, DocxTable, DocxTableRow, DocxTableCell, DocxTableHeader, PreservedBlock, PreservedInline, MathEquation, StyleCatalogue } from '../extensions';
+import { Comment, PageLayoutUpdate } from './types';
+import { applyPageLayout } from './sections';
+import { TrackedChangeFilter, filterTrackedChanges, snapshotFormatting } from './track-changes';
 
 interface UseCustomEditorProps {
     setSelectionUpdateKey: Dispatch<SetStateAction<number>>;
@@ -26,7 +23,7 @@ interface UseCustomEditorProps {
 export const useCustomEditor = ({ setSelectionUpdateKey }: UseCustomEditorProps) => {
     const editor = useEditor({
         extensions: [
-            StarterKit.configure({ paragraph: false, heading: false, orderedList: false }),
+            StarterKit.configure({ paragraph: false, heading: false, orderedList: false, link: false }),
             CustomParagraph,
             CustomHeading,
             CustomOrderedList,
@@ -37,14 +34,29 @@ export const useCustomEditor = ({ setSelectionUpdateKey }: UseCustomEditorProps)
             UnderlineExtension,
             TextStyle,
             FontSize,
-            Image.configure({ inline: true, allowBase64: true }),
+            DocxImage,
             InsertionMark,
             DeletionMark,
+            MoveFromMark,
+            MoveToMark,
+            FormatChangeMark,
+            TrackChangesReview,
             CommentMark,
-            Table.configure({ resizable: true }),
-            TableRow,
-            TableHeader,
-            TableCell,
+            Footnote,
+            DocxLink,
+            BookmarkStart,
+            BookmarkEnd,
+            Field,
+            TableOfContents,
+            SectionBreak,
+            PreservedBlock,
+            PreservedInline,
+            MathEquation,
+            StyleCatalogue,
+            DocxTable.configure({ resizable: true }),
+            DocxTableRow,
+            DocxTableHeader,
+            DocxTableCell,
             TextAlign.configure({ types: ['heading', 'paragraph'] }),
             Color,
             FontFamily,
@@ -102,7 +114,17 @@ export const useEditorHandle = (
                     // Remove a comment from state
                     removeComment: (commentId: string) => {
                         setComments(prev => prev.filter(c => c.id !== commentId));
+                    },
+                    // Update a thread in state (replies / resolved)
+                    updateComment: (commentId: string, update: Partial<Comment>) => {
+                        setComments(prev => prev.map(c => c.id === commentId ? { ...c, ...update } : c));
                     }
+                },
+                trackChanges: {
+                    // List tracked changes in document order (ids feed acceptTrackedChanges/rejectTrackedChanges)
+                    getChanges: (filter?: TrackedChangeFilter) => filterTrackedChanges(editor.state.doc, filter),
+                    // Formatting of a range before formatting commands run (see recordFormatChanges)
+                    snapshotFormatting: (from: number, to: number) => snapshotFormatting(editor.state.doc, from, to)
                 }
             };
         }
@@ -161,36 +183,8 @@ export const useEditorHandle = (
                     .run();
             },
             getDocAttrs: () => docAttrs,
-            setPageLayout: (updates: {
-                pageSize?: { width?: number; height?: number };
-                pageMargins?: { top?: number; right?: number; bottom?: number; left?: number };
-            }) => {
-                setDocAttrs((prev: any) => {
-                    const newAttrs = { ...prev };
-
-                    // Update page size (values in twips: 1 inch = 1440 twips, 1 mm = ~56.7 twips)
-                    if (updates.pageSize) {
-                        newAttrs.pageSize = {
-                            ...prev?.pageSize,
-                            'w:w': updates.pageSize.width ?? prev?.pageSize?.['w:w'] ?? 12240,
-                            'w:h': updates.pageSize.height ?? prev?.pageSize?.['w:h'] ?? 15840,
-                        };
-                    }
-
-                    // Update page margins (values in twips)
-                    if (updates.pageMargins) {
-                        newAttrs.pageMargins = {
-                            ...prev?.pageMargins,
-                            'w:top': updates.pageMargins.top ?? prev?.pageMargins?.['w:top'] ?? 1440,
-                            'w:right': updates.pageMargins.right ?? prev?.pageMargins?.['w:right'] ?? 1440,
-                            'w:bottom': updates.pageMargins.bottom ?? prev?.pageMargins?.['w:bottom'] ?? 1440,
-                            'w:left': updates.pageMargins.left ?? prev?.pageMargins?.['w:left'] ?? 1440,
-                        };
-                    }
-
-                    console.log('[CustomDocEditor] Page layout updated:', newAttrs);
-                    return newAttrs;
-                });
+            setPageLayout: (updates: PageLayoutUpdate) => {
+                applyPageLayout(editor, docAttrs, updates, setDocAttrs);
             },
             getPageCount: () => pageCount,
             getVisualLineCount: () => visualLineCount
@@ -42,7 +42,7 @@ export const useDocxLoader = ({ file, editor, setDocAttrs, setComments, setOrigi
                 editor.state.doc.descendants((node) => {
                     node.marks.forEach((mark) => {
                         if (mark.type.name === 'comment') {
-                            const { commentId, author, date, content: commentContent } = mark.attrs;
+                            const { commentId, author, date, content: commentContent, replies, done } = mark.attrs;
                             if (commentId && !seenIds.has(commentId)) {
                                 seenIds.add(commentId);
                                 extractedComments.push({
@@ -50,6 +50,8 @@ export const useDocxLoader = ({ file, editor, setDocAttrs, setComments, setOrigi
                                     author: author || 'Unknown',
                                     date: date || '',
                                     content: commentContent || '',
+                                    replies: replies || [],
+                                    done: !!done,
                                 });
                             }
                         }
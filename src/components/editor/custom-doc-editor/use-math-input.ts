@@ -0,0 +1,65 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Editor } from '@tiptap/react';
+import { NodeSelection } from '@tiptap/pm/state';
+import { MathInputPopoverData } from '../popups/MathInputPopover';
+
+interface UseMathInputProps {
+    editor: Editor | null;
+}
+
+/**
+ * Opens the math input popover while an equation node is selected
+ */
+export const useMathInput = ({ editor }: UseMathInputProps) => {
+    const [mathInputPopover, setMathInputPopover] = useState<MathInputPopoverData | null>(null);
+
+    useEffect(() => {
+        if (!editor) return;
+
+        const handleSelectionUpdate = () => {
+            const { selection } = editor.state;
+            if (!(selection instanceof NodeSelection) || selection.node.type.name !== 'math') {
+                setMathInputPopover(null);
+                return;
+            }
+            const coords = editor.view.coordsAtPos(selection.from);
+            setMathInputPopover({
+                pos: selection.from,
+                x: coords.left,
+                y: coords.bottom + 8,
+                latex: selection.node.attrs.latex || '',
+                display: !!selection.node.attrs.display,
+            });
+        };
+
+        editor.on('selectionUpdate', handleSelectionUpdate);
+        return () => {
+            editor.off('selectionUpdate', handleSelectionUpdate);
+        };
+    }, [editor]);
+
+    const handleApplyMath = useCallback((latex: string) => {
+        if (!editor || !mathInputPopover) return;
+        const { pos } = mathInputPopover;
+        setMathInputPopover(null);
+        if (latex.trim()) {
+            editor.chain().focus().setNodeSelection(pos).updateMath(latex.trim()).run();
+        } else {
+            // An emptied equation is removed
+            editor.chain().focus().deleteRange({ from: pos, to: pos + 1 }).run();
+        }
+    }, [editor, mathInputPopover]);
+
+    const handleCancelMath = useCallback(() => {
+        if (!editor || !mathInputPopover) return;
+        const { pos } = mathInputPopover;
+        setMathInputPopover(null);
+        editor.chain().focus().setTextSelection(pos + 1).run();
+    }, [editor, mathInputPopover]);
+
+    return {
+        mathInputPopover,
+        handleApplyMath,
+        handleCancelMath,
+    };
+};
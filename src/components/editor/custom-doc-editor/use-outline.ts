@@ -1,11 +1,38 @@
 import { useEffect } from 'react';
 import { Editor } from '@tiptap/react';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
 import { useWorkspace } from '@/contexts/WorkspaceContext';
 
 interface UseOutlineProps {
     editor: Editor | null;
 }
 
+export interface OutlineHeading {
+    id: string | null; // sdBlockId
+    text: string;
+    level: number;
+    pos: number;
+}
+
+/**
+ * Headings of the document in order (used by the outline panel and the table of contents)
+ */
+export const collectOutlineHeadings = (doc: ProseMirrorNode): OutlineHeading[] => {
+    const headings: OutlineHeading[] = [];
+    doc.descendants((node, pos) => {
+        if (node.type.name === 'heading') {
+            headings.push({
+                id: node.attrs.sdBlockId || null,
+                text: node.textContent,
+                level: node.attrs.level,
+                pos,
+            });
+        }
+        return false; // Don't traverse into heading children (text nodes)
+    });
+    return headings;
+};
+
 export const useOutline = ({ editor }: UseOutlineProps) => {
     const { setActiveOutline, navRequest, setNavRequest } = useWorkspace();
 
@@ -14,18 +41,9 @@ export const useOutline = ({ editor }: UseOutlineProps) => {
         if (!editor) return;
 
         const updateOutline = () => {
-            const headings: { id: string; text: string; level: number }[] = [];
-            editor.state.doc.descendants((node) => {
-                if (node.type.name === 'heading') {
-                    const id = node.attrs.sdBlockId;
-                    const text = node.textContent;
-                    const level = node.attrs.level;
-                    if (id && text) {
-                        headings.push({ id, text, level });
-                    }
-                }
-                return false; // Don't traverse into heading children (text nodes)
-            });
+            const headings = collectOutlineHeadings(editor.state.doc)
+                .filter(heading => heading.id && heading.text)
+                .map(({ id, text, level }) => ({ id: id as string, text, level }));
 
             // Prevent infinite loops / unnecessary updates by deep comparing if needed,
             // but setting state usually handles shallow comp or basic updates.
@@ -2,11 +2,24 @@
 import { useState, useEffect } from 'react';
 import { Editor } from '@tiptap/react';
 import { TrackChangePopupData } from '../popups/TrackChangePopup';
+import { TrackedChange, collectTrackedChanges } from './track-changes';
 
 interface UseTrackChangesProps {
     editor: Editor | null;
 }
 
+// Change of the given type under the clicked element (formatting span, paragraph change marker or moved text)
+const findTrackedChange = (editor: Editor, element: HTMLElement, type: TrackedChange['type']): TrackedChange | null => {
+    let pos: number;
+    try {
+        pos = editor.view.posAtDOM(element, 0);
+    } catch {
+        return null;
+    }
+    return collectTrackedChanges(editor.state.doc)
+        .find(change => change.type === type && change.from <= pos && pos <= change.to) || null;
+};
+
 export const useTrackChanges = ({ editor }: UseTrackChangesProps) => {
     const [trackChangePopup, setTrackChangePopup] = useState<TrackChangePopupData | null>(null);
 
@@ -69,9 +82,27 @@ export const useTrackChanges = ({ editor }: UseTrackChangesProps) => {
         };
     };
 
+    // Accept / reject the formatting change or move the popup was opened for (a move resolves both sides)
+    const resolveTrackedChange = (action: 'accept' | 'reject') => {
+        if (!editor || !trackChangePopup?.element) return;
+        const change = findTrackedChange(editor, trackChangePopup.element, trackChangePopup.type);
+        if (change) {
+            if (action === 'accept') {
+                editor.commands.acceptTrackedChanges({ ids: [change.id] });
+            } else {
+                editor.commands.rejectTrackedChanges({ ids: [change.id] });
+            }
+        }
+        setTrackChangePopup(null);
+    };
+
     // Accept track change (Grouped)
     const handleAcceptChange = () => {
         if (!editor || !trackChangePopup?.element) return;
+        if (trackChangePopup.type !== 'insertion' && trackChangePopup.type !== 'deletion') {
+            resolveTrackedChange('accept');
+            return;
+        }
         const view = editor.view;
 
         let pos: number;
@@ -114,6 +145,10 @@ export const useTrackChanges = ({ editor }: UseTrackChangesProps) => {
     // Reject track change (Grouped)
     const handleRejectChange = () => {
         if (!editor || !trackChangePopup?.element) return;
+        if (trackChangePopup.type !== 'insertion' && trackChangePopup.type !== 'deletion') {
+            resolveTrackedChange('reject');
+            return;
+        }
         const view = editor.view;
 
         let pos: number;
@@ -154,11 +189,30 @@ export const useTrackChanges = ({ editor }: UseTrackChangesProps) => {
         const handleDocumentClick = (event: MouseEvent) => {
             const target = event.target as HTMLElement;
 
-            // Handle track change clicks
+            // Handle track change clicks (moves render as ins / del too, so they are checked first)
+            const moveElement = target.closest('.track-change-move');
             const insElement = target.closest('.track-change-insertion, ins');
             const delElement = target.closest('.track-change-deletion, del');
+            const formatElement = target.closest('.track-change-format-marker, .track-change-format');
 
-            if (insElement || delElement) {
+            if (moveElement) {
+                const element = moveElement as HTMLElement;
+                const type = element.classList.contains('track-change-move-from') ? 'moveFrom' : 'moveTo';
+                const content = element.textContent || '';
+                const rect = element.getBoundingClientRect();
+
+                setTrackChangePopup({
+                    visible: true,
+                    x: rect.left,
+                    y: rect.bottom + 5,
+                    type,
+                    author: element.getAttribute('data-author') || 'Unknown',
+                    date: element.getAttribute('data-date') || '',
+                    content: content.length > 50 ? content.substring(0, 50) + '...' : content,
+                    element,
+                });
+                event.stopPropagation();
+            } else if (insElement || delElement) {
                 const element = (insElement || delElement) as HTMLElement;
                 const isInsertion = !!insElement;
                 const author = element.getAttribute('data-author') || 'Unknown';
@@ -179,6 +233,23 @@ export const useTrackChanges = ({ editor }: UseTrackChangesProps) => {
                     element,
                 });
                 event.stopPropagation();
+            } else if (formatElement) {
+                const element = formatElement as HTMLElement;
+                const type = element.classList.contains('track-change-format-marker') ? 'paragraphFormat' : 'format';
+                const change = editor ? findTrackedChange(editor, element, type) : null;
+                const rect = element.getBoundingClientRect();
+
+                setTrackChangePopup({
+                    visible: true,
+                    x: rect.left,
+                    y: rect.bottom + 5,
+                    type,
+                    author: element.getAttribute('data-author') || 'Unknown',
+                    date: element.getAttribute('data-date') || '',
+                    content: change?.description || '',
+                    element,
+                });
+                event.stopPropagation();
             } else {
                 setTrackChangePopup(null);
             }
@@ -195,7 +266,7 @@ export const useTrackChanges = ({ editor }: UseTrackChangesProps) => {
             document.removeEventListener('click', handleDocumentClick);
             window.removeEventListener('scroll', handleScroll, true);
         };
-    }, []);
+    }, [editor]);
 
     return {
         trackChangePopup,
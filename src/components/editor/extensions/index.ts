@@ -8,17 +8,45 @@
  * - FontSize: Font size commands
  * - InsertionMark: Track changes insertions
  * - DeletionMark: Track changes deletions
+ * - MoveFromMark / MoveToMark: Track changes moves, both sides linked by the move name
+ * - FormatChangeMark: tracked formatting change on text (paragraph changes live in the formatChange attr)
+ * - TrackChangesReview: accept/reject tracked changes filtered by id, author, type or date range
  * - CommentMark: DOCX comments highlighting
  * - CustomParagraph: Extended paragraph with DOCX attributes
  * - CustomHeading: Extended heading with styleId for DOCX roundtrip
+ * - Footnote: Footnote / endnote reference carrying the note content
+ * - DocxImage: Resizable inline image with DOCX drawing metadata
+ * - DocxLink: Hyperlink mark (external URL or internal "#bookmark" anchor)
+ * - BookmarkStart / BookmarkEnd: DOCX bookmark range markers
+ * - Field: DOCX field (PAGE, NUMPAGES, REF, ...) showing its cached result
+ * - TableOfContents: TOC field with its entries, regenerated from the document headings
+ * - SectionBreak: end of a DOCX section carrying that section's page setup
+ * - DocxTable / DocxTableRow / DocxTableCell / DocxTableHeader: tables with DOCX grid, shading and borders
+ *   (rows can carry a tracked insertion / deletion)
+ * - PreservedBlock / PreservedInline: OOXML the editor cannot represent, written back verbatim
+ * - MathEquation: Office Math equation edited in a LaTeX-like linear form, rendered as MathML
+ * - StyleCatalogue: renders the formatting of the document's named styles referenced by styleId
  */
 
 import { Extension, Mark, Node, mergeAttributes } from '@tiptap/core';
-import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { NodeSelection, Plugin, PluginKey, TextSelection } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import Paragraph from '@tiptap/extension-paragraph';
 import Heading from '@tiptap/extension-heading';
 import OrderedList from '@tiptap/extension-ordered-list';
+import Image from '@tiptap/extension-image';
+import Link from '@tiptap/extension-link';
+import { Table } from '@tiptap/extension-table';
+import { TableRow } from '@tiptap/extension-table-row';
+import { TableCell } from '@tiptap/extension-table-cell';
+import { TableHeader } from '@tiptap/extension-table-header';
+
+import { DocxStyle, DocxStyleProps, DocxTabStop, resolveStyleProps } from '../../../lib/docx/styles';
+import { latexToMathml } from '../../../lib/docx/omml';
+import { collectOutlineHeadings } from '../custom-doc-editor/use-outline';
+import { getDocumentSections, getPageLayout } from '../custom-doc-editor/sections';
+import { FormattingSnapshot, TrackedChangeFilter, applyTrackedChanges, filterTrackedChanges, recordFormatChanges } from '../custom-doc-editor/track-changes';
 
 /**
  * DOCX Tab node
@@ -70,6 +98,14 @@ export const TabStopLayout = Extension.create({
     name: 'tabStopLayout',
 
     addProseMirrorPlugins() {
+        const editor = this.editor;
+        // Paragraphs without direct tab stops use the stops of their style
+        const getStyleTabStops = (styleId: string) => {
+            const catalogue = (editor.storage as any).styleCatalogue;
+            if (!catalogue) return undefined;
+            return resolveStyleProps(catalogue.styles, styleId, catalogue.defaults).tabStops;
+        };
+
         return [
             new Plugin({
                 key: new PluginKey('tabStopLayout'),
@@ -84,7 +120,7 @@ export const TabStopLayout = Extension.create({
                         raf = window.requestAnimationFrame(() => {
                             raf = 0;
                             try {
-                                layoutDocxTabs(view.dom as HTMLElement);
+                                layoutDocxTabs(view.dom as HTMLElement, getStyleTabStops);
                             } catch {
                                 // Best-effort layout; never break editing.
                             }
@@ -106,7 +142,7 @@ export const TabStopLayout = Extension.create({
     },
 });
 
-function layoutDocxTabs(root: HTMLElement) {
+function layoutDocxTabs(root: HTMLElement, getStyleTabStops: (styleId: string) => DocxTabStop[] | undefined) {
     const paragraphs = root.querySelectorAll('p:has(span[data-docx-tab="true"])');
     if (!paragraphs.length) return;
 
@@ -115,13 +151,17 @@ function layoutDocxTabs(root: HTMLElement) {
 
     for (const p of paragraphs) {
         const tabStopsJson = p.getAttribute('data-tab-stops');
-        if (!tabStopsJson) continue;
+        const styleId = p.getAttribute('data-style-id');
 
         let tabStops: Array<{ posTwips: string; type: string; leader?: string }> = [];
-        try {
-            tabStops = JSON.parse(tabStopsJson);
-        } catch {
-            continue;
+        if (tabStopsJson) {
+            try {
+                tabStops = JSON.parse(tabStopsJson);
+            } catch {
+                continue;
+            }
+        } else if (styleId) {
+            tabStops = getStyleTabStops(styleId) || [];
         }
         if (!Array.isArray(tabStops) || tabStops.length === 0) continue;
 
@@ -530,6 +570,8 @@ export const CustomParagraph = Paragraph.extend({
                     return { 'data-style-id': attributes.styleId };
                 }
             },
+            // Tracked paragraph formatting change (w:pPrChange): node type and attrs before the change
+            formatChange: { default: null, rendered: false },
             // Keep Next / Keep Lines (overrides style outline behavior)
             keepNext: {
                 default: null,
@@ -768,6 +810,8 @@ export const CustomHeading = Heading.extend({
                     return { 'data-style-id': attributes.styleId };
                 }
             },
+            // Tracked paragraph formatting change (w:pPrChange), see CustomParagraph
+            formatChange: { default: null, rendered: false },
             // Spacing attributes
             // Spacing attributes - Render as inline styles
             spacingBefore: {
@@ -988,7 +1032,154 @@ export const DeletionMark = Mark.create({
     },
 });
 
+// Custom Marks for Track Changes - Moves (w:moveFrom / w:moveTo): the name links the two sides of a move
+const createMoveMark = (name: 'moveFrom' | 'moveTo') => Mark.create({
+    name,
+
+    addAttributes() {
+        return {
+            author: { default: 'Unknown' },
+            date: { default: '' },
+            name: { default: '' },
+        };
+    },
+
+    parseHTML() {
+        return [{
+            tag: `${name === 'moveFrom' ? 'del' : 'ins'}.track-change-${name === 'moveFrom' ? 'move-from' : 'move-to'}`,
+            priority: 60, // Ahead of the plain ins / del rules of the insertion and deletion marks
+            getAttrs: element => ({
+                author: (element as HTMLElement).getAttribute('data-author') || 'Unknown',
+                date: (element as HTMLElement).getAttribute('data-date') || '',
+                name: (element as HTMLElement).getAttribute('data-move-name') || '',
+            }),
+        }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [name === 'moveFrom' ? 'del' : 'ins', {
+            class: `track-change-move track-change-${name === 'moveFrom' ? 'move-from' : 'move-to'}`,
+            'data-author': HTMLAttributes.author,
+            'data-date': HTMLAttributes.date,
+            'data-move-name': HTMLAttributes.name,
+        }, 0];
+    },
+});
+
+export const MoveFromMark = createMoveMark('moveFrom');
+export const MoveToMark = createMoveMark('moveTo');
+
+// Custom Mark for Track Changes - Formatting (w:rPrChange): oldMarks are the formatting marks before the change.
+// Paragraphs with a tracked formatting change get a clickable marker at their start.
+export const FormatChangeMark = Mark.create({
+    name: 'formatChange',
+
+    addAttributes() {
+        return {
+            author: { default: 'Unknown' },
+            date: { default: '' },
+            oldMarks: { default: [], rendered: false },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'span.track-change-format' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['span', {
+            class: 'track-change-format',
+            'data-author': HTMLAttributes.author,
+            'data-date': HTMLAttributes.date,
+        }, 0];
+    },
+
+    addCommands() {
+        return {
+            recordFormatChanges: (snapshot: FormattingSnapshot, author: string) => ({ tr }) => {
+                return recordFormatChanges(tr, snapshot, author, new Date().toISOString());
+            },
+        };
+    },
+
+    addProseMirrorPlugins() {
+        return [
+            new Plugin({
+                key: new PluginKey('paragraphFormatChanges'),
+                props: {
+                    decorations: (state) => {
+                        const decorations: Decoration[] = [];
+                        state.doc.descendants((node, pos) => {
+                            if (!node.isTextblock) return true;
+                            const change = node.attrs.formatChange;
+                            if (change) {
+                                decorations.push(Decoration.node(pos, pos + node.nodeSize, { class: 'track-change-format-paragraph' }));
+                                decorations.push(Decoration.widget(pos + 1, () => {
+                                    const marker = document.createElement('span');
+                                    marker.className = 'track-change-format-marker';
+                                    marker.contentEditable = 'false';
+                                    marker.setAttribute('data-author', change.author || 'Unknown');
+                                    marker.setAttribute('data-date', change.date || '');
+                                    marker.textContent = '¶';
+                                    return marker;
+                                }, { side: -1, key: `format-change-${pos}-${change.author}-${change.date}` }));
+                            }
+                            return false;
+                        });
+                        return DecorationSet.create(state.doc, decorations);
+                    },
+                },
+            }),
+        ];
+    },
+});
+
+// Accept/reject the tracked changes matching a filter (every change when no filter is given)
+export const TrackChangesReview = Extension.create({
+    name: 'trackChangesReview',
+
+    addCommands() {
+        return {
+            acceptTrackedChanges: (filter?: TrackedChangeFilter) => ({ tr, state, dispatch }) => {
+                const changes = filterTrackedChanges(state.doc, filter);
+                if (changes.length === 0) return false;
+                if (dispatch) applyTrackedChanges(tr, changes, 'accept');
+                return true;
+            },
+            rejectTrackedChanges: (filter?: TrackedChangeFilter) => ({ tr, state, dispatch }) => {
+                const changes = filterTrackedChanges(state.doc, filter);
+                if (changes.length === 0) return false;
+                if (dispatch) applyTrackedChanges(tr, changes, 'reject');
+                return true;
+            },
+        };
+    },
+});
+
+export interface CommentReply {
+    id: string;
+    author: string;
+    date: string;
+    content: string;
+}
+
+// Rewrite the attrs of every range carrying the given comment (a thread may span several text nodes)
+const updateCommentMarks = (tr: any, state: any, commentId: string, update: (attrs: Record<string, any>) => Record<string, any>): boolean => {
+    const ranges: { from: number; to: number; attrs: Record<string, any> }[] = [];
+    state.doc.descendants((node: any, pos: number) => {
+        if (!node.isText) return true;
+        const mark = node.marks.find((m: any) => m.type.name === 'comment' && m.attrs.commentId === commentId);
+        if (mark) ranges.push({ from: pos, to: pos + node.nodeSize, attrs: mark.attrs });
+        return true;
+    });
+    const markType = state.schema.marks.comment;
+    ranges.forEach(({ from, to, attrs }) => tr.addMark(from, to, markType.create(update(attrs))));
+    return ranges.length > 0;
+};
+
 // Custom Mark for Comments - highlights commented text
+// - replies: the thread's answers (w:comment elements linked through commentsExtended.xml)
+// - done: resolved thread
 export const CommentMark = Mark.create({
     name: 'comment',
 
@@ -998,6 +1189,11 @@ export const CommentMark = Mark.create({
             author: { default: 'Unknown' },
             date: { default: '' },
             content: { default: '' },
+            replies: { default: [], rendered: false },
+            done: {
+                default: false,
+                renderHTML: attributes => attributes.done ? { 'data-comment-done': 'true' } : {},
+            },
         };
     },
 
@@ -1012,6 +1208,7 @@ export const CommentMark = Mark.create({
             'data-comment-author': HTMLAttributes.author,
             'data-comment-date': HTMLAttributes.date,
             'data-comment-content': HTMLAttributes.content,
+            ...(HTMLAttributes['data-comment-done'] ? { 'data-comment-done': 'true' } : {}),
         }, 0];
     },
 
@@ -1028,23 +1225,1027 @@ export const CommentMark = Mark.create({
             unsetComment: () => ({ commands }: { commands: any }) => {
                 return commands.unsetMark('comment');
             },
+            replyToComment: (commentId: string, reply: CommentReply) => ({ tr, state, dispatch }: { tr: any; state: any; dispatch: any }) => {
+                if (!dispatch) return true;
+                return updateCommentMarks(tr, state, commentId, attrs => ({ ...attrs, replies: [...(attrs.replies || []), reply] }));
+            },
+            setCommentResolved: (commentId: string, done: boolean) => ({ tr, state, dispatch }: { tr: any; state: any; dispatch: any }) => {
+                if (!dispatch) return true;
+                return updateCommentMarks(tr, state, commentId, attrs => ({ ...attrs, done }));
+            },
         }
     }
 });
 
-// TypeScript module augmentation for custom commands
-declare module '@tiptap/core' {
-    interface Commands<ReturnType> {
-        deleteBlockCommand: {
-            deleteBlockNodeById: (id: string) => ReturnType;
+/**
+ * Footnote / endnote reference node
+ * - Represents <w:footnoteReference/> / <w:endnoteReference/> in WordprocessingML
+ * - The note body (block content of word/footnotes.xml / endnotes.xml) is stored in the `content` attr
+ * - Numbers are not stored; they are assigned in document order via CSS counters (see CustomDocEditor.css)
+ */
+export const Footnote = Node.create({
+    name: 'footnote',
+    group: 'inline',
+    inline: true,
+    atom: true,
+
+    addAttributes() {
+        return {
+            noteType: {
+                default: 'footnote',
+                parseHTML: element => element.getAttribute('data-note-type') || 'footnote',
+                renderHTML: attributes => ({ 'data-note-type': attributes.noteType }),
+            },
+            // Original w:id (null for notes created in the editor)
+            noteId: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-note-id'),
+                renderHTML: attributes => (attributes.noteId ? { 'data-note-id': attributes.noteId } : {}),
+            },
+            // Character style of the reference run (e.g. "FootnoteReference")
+            styleId: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-style-id'),
+                renderHTML: attributes => (attributes.styleId ? { 'data-style-id': attributes.styleId } : {}),
+            },
+            content: {
+                default: [{ type: 'paragraph' }],
+                parseHTML: element => {
+                    try {
+                        return JSON.parse(element.getAttribute('data-note-content') || '');
+                    } catch {
+                        return [{ type: 'paragraph' }];
+                    }
+                },
+                renderHTML: attributes => ({ 'data-note-content': JSON.stringify(attributes.content || []) }),
+            },
         };
-        fontSize: {
-            setFontSize: (fontSize: string) => ReturnType;
-            unsetFontSize: () => ReturnType;
+    },
+
+    parseHTML() {
+        return [{ tag: 'sup[data-note-type]' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [
+            'sup',
+            mergeAttributes(HTMLAttributes, {
+                class: 'docx-footnote-ref',
+                contenteditable: 'false',
+            }),
+        ];
+    },
+
+    addCommands() {
+        return {
+            insertFootnote: (text: string = '', noteType: 'footnote' | 'endnote' = 'footnote') => ({ commands }: { commands: any }) => {
+                return commands.insertContent({
+                    type: this.name,
+                    attrs: {
+                        noteType,
+                        content: [{ type: 'paragraph', content: text ? [{ type: 'text', text }] : [] }],
+                    },
+                });
+            },
+            updateFootnoteContent: (pos: number, content: any[]) => ({ tr, state, dispatch }: { tr: any; state: any; dispatch: any }) => {
+                const node = state.doc.nodeAt(pos);
+                if (!node || node.type.name !== this.name) return false;
+                if (dispatch) {
+                    tr.setNodeMarkup(pos, undefined, { ...node.attrs, content });
+                }
+                return true;
+            },
         };
-        comment: {
-            setComment: (comment: string) => ReturnType;
-            unsetComment: () => ReturnType;
+    },
+});
+
+/**
+ * DOCX image node
+ * - Inline image with resize handles (width/height in px)
+ * - rId/target point at the original media part; drawing keeps the raw w:drawing children
+ *   (anchor position, wrap, effects) so DocxWriter can re-emit them with the new extent
+ */
+export const DocxImage = Image.extend({
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            rId: { default: null, rendered: false },
+            target: { default: null, rendered: false },
+            // inline | square | tight | through | topAndBottom | behind | inFront
+            wrap: {
+                default: 'inline',
+                parseHTML: element => element.getAttribute('data-wrap') || 'inline',
+                renderHTML: attributes => (attributes.wrap && attributes.wrap !== 'inline' ? { 'data-wrap': attributes.wrap } : {}),
+            },
+            align: { default: null, rendered: false },
+            drawing: { default: null, rendered: false },
+        };
+    },
+}).configure({
+    inline: true,
+    allowBase64: true,
+    resize: {
+        enabled: true,
+        minWidth: 16,
+        minHeight: 16,
+        alwaysPreserveAspectRatio: true,
+    },
+});
+
+/**
+ * DOCX hyperlink mark
+ * - External links keep their URL in href (stored in document.xml.rels as an external relationship)
+ * - Internal links use "#<bookmark name>" (written as w:hyperlink/@w:anchor)
+ * - rId points at the original relationship so unchanged links keep their id on export
+ */
+export const DocxLink = Link.extend({
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            rId: { default: null, rendered: false },
+        };
+    },
+
+    addCommands() {
+        return {
+            ...this.parent?.(),
+            setBookmarkLink: (name: string) => ({ commands }: { commands: any }) => {
+                return commands.setMark(this.name, { href: `#${name}`, target: null });
+            },
+        };
+    },
+}).configure({
+    openOnClick: false,
+    autolink: true,
+    HTMLAttributes: {
+        target: null,
+        rel: 'noopener noreferrer nofollow',
+        class: 'docx-link',
+    },
+});
+
+/**
+ * Find the largest bookmark id used in the document (bookmark ids must be unique per document)
+ */
+const getMaxBookmarkId = (doc: any): number => {
+    let maxId = -1;
+    doc.descendants((node: any) => {
+        if (node.type.name === 'bookmarkStart' || node.type.name === 'bookmarkEnd') {
+            const id = parseInt(node.attrs.id, 10);
+            if (!isNaN(id) && id > maxId) maxId = id;
+        }
+        return true;
+    });
+    return maxId;
+};
+
+/**
+ * Bookmark start marker
+ * - Represents <w:bookmarkStart w:id w:name/>; rendered as an empty anchor element so "#name" links resolve
+ * - Paired with a BookmarkEnd carrying the same id
+ */
+export const BookmarkStart = Node.create({
+    name: 'bookmarkStart',
+    group: 'inline',
+    inline: true,
+    atom: true,
+    selectable: false,
+
+    addAttributes() {
+        return {
+            id: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-bookmark-id'),
+                renderHTML: attributes => ({ 'data-bookmark-id': attributes.id }),
+            },
+            name: {
+                default: '',
+                parseHTML: element => element.getAttribute('data-bookmark-name') || '',
+                renderHTML: attributes => ({ 'data-bookmark-name': attributes.name, id: attributes.name }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'span[data-bookmark-name]' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['span', mergeAttributes(HTMLAttributes, { class: 'docx-bookmark', contenteditable: 'false' })];
+    },
+
+    addCommands() {
+        return {
+            setBookmark: (name: string) => ({ state, tr, dispatch }: { state: any; tr: any; dispatch: any }) => {
+                const { from, to } = state.selection;
+                const { bookmarkStart, bookmarkEnd } = state.schema.nodes;
+                if (!name || !bookmarkStart || !bookmarkEnd) return false;
+                if (dispatch) {
+                    const id = String(getMaxBookmarkId(state.doc) + 1);
+                    // Insert the end first so the start position stays valid
+                    tr.insert(to, bookmarkEnd.create({ id }));
+                    tr.insert(from, bookmarkStart.create({ id, name }));
+                }
+                return true;
+            },
+        };
+    },
+});
+
+/**
+ * Bookmark end marker
+ * - Represents <w:bookmarkEnd w:id/>
+ */
+export const BookmarkEnd = Node.create({
+    name: 'bookmarkEnd',
+    group: 'inline',
+    inline: true,
+    atom: true,
+    selectable: false,
+
+    addAttributes() {
+        return {
+            id: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-bookmark-end'),
+                renderHTML: attributes => ({ 'data-bookmark-end': attributes.id }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'span[data-bookmark-end]' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['span', mergeAttributes(HTMLAttributes, { class: 'docx-bookmark-end', contenteditable: 'false' })];
+    },
+});
+
+/**
+ * DOCX field node
+ * - Represents <w:fldSimple/> or a complex field (w:fldChar begin / w:instrText / separate / end)
+ * - Displays the cached result; PAGE, NUMPAGES, REF and PAGEREF results are refreshed from
+ *   pagination (see PagedEditorContent), other fields keep the result Word last computed
+ */
+export const Field = Node.create({
+    name: 'field',
+    group: 'inline',
+    inline: true,
+    atom: true,
+
+    addAttributes() {
+        return {
+            // Field instruction without the surrounding spaces, e.g. 'PAGE \* MERGEFORMAT'
+            instruction: {
+                default: '',
+                parseHTML: element => element.getAttribute('data-instruction') || '',
+                renderHTML: attributes => ({ 'data-instruction': attributes.instruction }),
+            },
+            fieldType: {
+                default: '',
+                parseHTML: element => element.getAttribute('data-field-type') || '',
+                renderHTML: attributes => ({ 'data-field-type': attributes.fieldType }),
+            },
+            result: {
+                default: '',
+                parseHTML: element => element.textContent || '',
+                rendered: false,
+            },
+            // Written back as w:fldSimple instead of a complex field
+            simple: { default: false, rendered: false },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'span[data-field-type]' }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return [
+            'span',
+            mergeAttributes(HTMLAttributes, { class: 'docx-field', contenteditable: 'false' }),
+            node.attrs.result || '',
+        ];
+    },
+
+    addCommands() {
+        return {
+            insertField: (instruction: string, result: string = '') => ({ commands }: { commands: any }) => {
+                const trimmed = instruction.trim();
+                return commands.insertContent({
+                    type: this.name,
+                    attrs: { instruction: trimmed, fieldType: (trimmed.split(/\s+/)[0] || '').toUpperCase(), result },
+                });
+            },
+            // Refresh cached results without adding an undo step (pagination-driven updates)
+            setFieldResults: (updates: { pos: number; result: string }[]) => ({ tr, state, dispatch }: { tr: any; state: any; dispatch: any }) => {
+                const changes = updates.filter(({ pos, result }) => {
+                    const node = state.doc.nodeAt(pos);
+                    return node?.type.name === this.name && node.attrs.result !== result;
+                });
+                if (changes.length === 0) return false;
+                if (dispatch) {
+                    changes.forEach(({ pos, result }) => {
+                        tr.setNodeMarkup(pos, undefined, { ...state.doc.nodeAt(pos).attrs, result });
+                    });
+                    tr.setMeta('addToHistory', false);
+                }
+                return true;
+            },
+        };
+    },
+});
+
+export interface TocEntry {
+    text: string;
+    level: number;
+    page: string;
+    anchor: string | null; // _Toc bookmark of the heading
+    styleId?: string | null;
+}
+
+// Heading levels included by a TOC instruction (\o "1-3"); Word's default is 1-3
+const getTocLevelRange = (instruction: string): [number, number] => {
+    const match = instruction.match(/\\o\s+"(\d)-(\d)"/);
+    return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : [1, 3];
+};
+
+/**
+ * Table of contents node
+ * - Represents a TOC field whose result paragraphs are the entries (heading text, page, _Toc anchor)
+ * - updateTableOfContents regenerates the entries from the document headings; page numbers come from
+ *   storage.headingPages (sdBlockId -> page), filled by PagedEditorContent after pagination
+ */
+export const TableOfContents = Node.create({
+    name: 'tableOfContents',
+    group: 'block',
+    atom: true,
+
+    addStorage() {
+        return {
+            headingPages: {} as Record<string, number>,
+        };
+    },
+
+    addAttributes() {
+        return {
+            instruction: {
+                default: 'TOC \\o "1-3" \\h \\z \\u',
+                parseHTML: element => element.getAttribute('data-instruction') || 'TOC \\o "1-3" \\h \\z \\u',
+                renderHTML: attributes => ({ 'data-instruction': attributes.instruction }),
+            },
+            entries: {
+                default: [],
+                parseHTML: element => {
+                    try {
+                        return JSON.parse(element.getAttribute('data-entries') || '[]');
+                    } catch {
+                        return [];
+                    }
+                },
+                renderHTML: attributes => ({ 'data-entries': JSON.stringify(attributes.entries || []) }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'div[data-toc]' }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        const entries: TocEntry[] = node.attrs.entries || [];
+        const rows: any[] = entries.length > 0
+            ? entries.map(entry => [
+                'p',
+                { class: 'docx-toc-entry', 'data-level': entry.level, style: `padding-left: ${(Math.max(entry.level, 1) - 1) * 1.5}em` },
+                ['span', { class: 'docx-toc-text' }, entry.text],
+                ['span', { class: 'docx-toc-leader' }],
+                ['span', { class: 'docx-toc-page' }, entry.page || ''],
+            ])
+            : [['p', { class: 'docx-toc-empty' }, '目次項目が見つかりません。']];
+
+        return ['div', mergeAttributes(HTMLAttributes, { 'data-toc': '', class: 'docx-toc', contenteditable: 'false' }), ...rows];
+    },
+
+    addCommands() {
+        return {
+            insertTableOfContents: () => ({ commands }: { commands: any }) => {
+                return commands.insertContent({ type: this.name }) && commands.updateTableOfContents();
+            },
+            updateTableOfContents: () => ({ tr, state, dispatch }: { tr: any; state: any; dispatch: any }) => {
+                const tocs: { pos: number; node: any }[] = [];
+                state.doc.descendants((node: any, pos: number) => {
+                    if (node.type.name === this.name) tocs.push({ pos, node });
+                    return node.type.name !== this.name;
+                });
+                if (tocs.length === 0) return false;
+                if (!dispatch) return true;
+
+                const { bookmarkStart, bookmarkEnd } = state.schema.nodes;
+                const headings = collectOutlineHeadings(state.doc).filter(heading => heading.text.trim());
+                const anchors = new Map<number, string>(); // heading pos -> _Toc bookmark name
+                const newBookmarks: { pos: number; end: number; name: string }[] = [];
+                const usedNames = new Set<string>();
+                state.doc.descendants((node: any) => {
+                    if (node.type.name === 'bookmarkStart' && node.attrs.name) usedNames.add(node.attrs.name);
+                    return true;
+                });
+
+                // Reuse a bookmark already in the heading, otherwise plan a hidden _Toc bookmark
+                const getAnchor = (headingPos: number): string | null => {
+                    if (anchors.has(headingPos)) return anchors.get(headingPos)!;
+                    if (!bookmarkStart || !bookmarkEnd) return null;
+                    const heading = state.doc.nodeAt(headingPos);
+                    let name: string | null = null;
+                    heading.descendants((child: any) => {
+                        if (!name && child.type.name === 'bookmarkStart' && child.attrs.name && child.attrs.name !== '_GoBack') name = child.attrs.name;
+                        return !name;
+                    });
+                    if (!name) {
+                        do {
+                            name = `_Toc${Math.floor(100000000 + Math.random() * 900000000)}`;
+                        } while (usedNames.has(name));
+                        usedNames.add(name);
+                        newBookmarks.push({ pos: headingPos + 1, end: headingPos + heading.nodeSize - 1, name });
+                    }
+                    anchors.set(headingPos, name);
+                    return name;
+                };
+
+                for (const { pos, node } of tocs) {
+                    const [minLevel, maxLevel] = getTocLevelRange(node.attrs.instruction || '');
+                    const entries: TocEntry[] = headings
+                        .filter(heading => heading.level >= minLevel && heading.level <= maxLevel)
+                        .map(heading => ({
+                            text: heading.text.trim(),
+                            level: heading.level,
+                            page: heading.id && this.storage.headingPages[heading.id] ? String(this.storage.headingPages[heading.id]) : '',
+                            anchor: getAnchor(heading.pos),
+                        }));
+                    tr.setNodeMarkup(pos, undefined, { ...node.attrs, entries });
+                }
+
+                // Insert bookmarks last, from the end of the document so earlier positions stay valid
+                let nextId = getMaxBookmarkId(state.doc) + 1;
+                newBookmarks.sort((a, b) => b.pos - a.pos).forEach(({ pos, end, name }) => {
+                    const id = String(nextId++);
+                    tr.insert(end, bookmarkEnd.create({ id }));
+                    tr.insert(pos, bookmarkStart.create({ id, name }));
+                });
+                return true;
+            },
+        };
+    },
+});
+
+// Raw w:* attribute maps (pgSz, pgMar, cols, tcBorders) stored as JSON data attributes
+const jsonAttribute = (name: string) => ({
+    default: null,
+    parseHTML: (element: HTMLElement) => {
+        try {
+            return JSON.parse(element.getAttribute(`data-${name}`) || 'null');
+        } catch {
+            return null;
+        }
+    },
+    renderHTML: (attributes: Record<string, any>) => {
+        const key = name.replace(/-([a-z])/g, (_, c) => c.toUpperCase());
+        return attributes[key] ? { [`data-${name}`]: JSON.stringify(attributes[key]) } : {};
+    },
+});
+
+const sectionWidthsKey = new PluginKey('sectionWidths');
+
+/**
+ * Section break node
+ * - Represents a paragraph-level <w:sectPr>: the end of a section and that section's page setup
+ * - The last section has no break; its setup is the document attrs (storage.lastSection, set by PagedEditorContent)
+ * - When the document has several sections, top-level blocks get the text width of their section so
+ *   lines wrap as they will on that section's pages (columns are kept for export but not laid out)
+ */
+export const SectionBreak = Node.create({
+    name: 'sectionBreak',
+    group: 'block',
+    atom: true,
+
+    addStorage() {
+        return {
+            lastSection: null as any,
+        };
+    },
+
+    addAttributes() {
+        return {
+            sectionType: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-section-type'),
+                renderHTML: attributes => attributes.sectionType ? { 'data-section-type': attributes.sectionType } : {},
+            },
+            pageSize: jsonAttribute('page-size'),
+            pageMargins: jsonAttribute('page-margins'),
+            cols: jsonAttribute('cols'),
+            // Original sectPr children (header/footer references, page numbering, ...) for round-trip
+            sectPrElements: { default: null, rendered: false },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'div[data-section-break]' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['div', mergeAttributes(HTMLAttributes, { 'data-section-break': '', class: 'docx-section-break', contenteditable: 'false' })];
+    },
+
+    addCommands() {
+        return {
+            // Start a new section at the top-level block containing the cursor
+            insertSectionBreak: (attrs: Record<string, any> = {}) => ({ tr, state, dispatch }: { tr: any; state: any; dispatch: any }) => {
+                const { $from } = state.selection;
+                const pos = $from.depth > 0 ? $from.before(1) : $from.pos;
+                if (dispatch) {
+                    tr.insert(pos, this.type.create(attrs));
+                }
+                return true;
+            },
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const storage = this.storage;
+
+        const buildDecorations = (doc: any): DecorationSet => {
+            const sections = getDocumentSections(doc, storage.lastSection);
+            if (sections.length === 1) return DecorationSet.empty;
+
+            const widths = sections.map(section => getPageLayout(section.attrs).textWidth);
+            const decorations: Decoration[] = [];
+            let sectionIndex = 0;
+            doc.forEach((node: any, offset: number) => {
+                decorations.push(Decoration.node(offset, offset + node.nodeSize, { style: `width: ${widths[sectionIndex]}px` }));
+                if (node.type.name === 'sectionBreak') sectionIndex++;
+            });
+            return DecorationSet.create(doc, decorations);
+        };
+
+        return [
+            new Plugin({
+                key: sectionWidthsKey,
+                state: {
+                    init: (_, state) => buildDecorations(state.doc),
+                    apply: (tr, value, _oldState, newState) => {
+                        if (tr.docChanged || tr.getMeta(sectionWidthsKey)) return buildDecorations(newState.doc);
+                        return value;
+                    },
+                },
+                props: {
+                    decorations(state) {
+                        return sectionWidthsKey.getState(state);
+                    },
+                },
+            }),
+        ];
+    },
+});
+
+/**
+ * Update the last section's page setup (document attrs) used for section widths
+ */
+export const setLastSectionLayout = (editor: any, docAttrs: any) => {
+    const storage = editor?.storage?.sectionBreak;
+    if (!storage || storage.lastSection === docAttrs) return;
+    storage.lastSection = docAttrs;
+    editor.view.dispatch(editor.state.tr.setMeta(sectionWidthsKey, true).setMeta('addToHistory', false));
+};
+
+/**
+ * DOCX table
+ * - grid: original w:tblGrid column widths (twips), used by the writer for columns without a cell width
+ * - tblPrElements: original w:tblPr children (style, borders, layout, ...) for round-trip
+ */
+export const DocxTable = Table.extend({
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            grid: { default: null, rendered: false },
+            tblPrElements: { default: null, rendered: false },
+        };
+    },
+});
+
+/**
+ * DOCX table row (keeps the original w:trPr children: height, cantSplit, ...; rowChange is a tracked
+ * row insertion / deletion { type, author, date })
+ */
+export const DocxTableRow = TableRow.extend({
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            trPrElements: { default: null, rendered: false },
+            rowChange: {
+                default: null,
+                parseHTML: () => null,
+                renderHTML: attributes => {
+                    if (!attributes.rowChange) return {};
+                    return {
+                        class: `track-change-row-${attributes.rowChange.type === 'deletion' ? 'deletion' : 'insertion'}`,
+                        'data-author': attributes.rowChange.author,
+                        'data-date': attributes.rowChange.date,
+                    };
+                },
+            },
+        };
+    },
+});
+
+// OOXML border (w:val / w:sz in eighths of a point / w:color) -> CSS border
+const borderToCss = (border: Record<string, any> | undefined): string | null => {
+    if (!border) return null;
+    const val = border['w:val'] || border['val'];
+    if (!val || val === 'nil' || val === 'none') return 'none';
+    const size = Math.max(1, Math.round(((parseInt(border['w:sz'] || border['sz']) || 4) / 8) * (96 / 72)));
+    const color = border['w:color'] || border['color'];
+    const style = val === 'double' ? 'double' : val === 'dotted' ? 'dotted' : val.startsWith('dash') ? 'dashed' : 'solid';
+    return `${size}px ${style} ${color && color !== 'auto' ? `#${color}` : '#000000'}`;
+};
+
+/**
+ * DOCX cell attributes shared by data and header cells
+ * - shading: w:shd fill as "#RRGGBB"
+ * - borders: w:tcBorders as { top: {w:val, w:sz, w:color}, ... }
+ * - verticalAlign: w:vAlign (top / center / bottom)
+ * - tcPrElements: original w:tcPr children for round-trip
+ */
+const docxCellAttributes = () => ({
+    shading: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-shading'),
+        renderHTML: (attributes: Record<string, any>) => attributes.shading
+            ? { 'data-shading': attributes.shading, style: `background-color: ${attributes.shading}` }
+            : {},
+    },
+    borders: {
+        ...jsonAttribute('borders'),
+        renderHTML: (attributes: Record<string, any>) => {
+            if (!attributes.borders) return {};
+            const { top, bottom, left, right, start, end } = attributes.borders;
+            const style = Object.entries({ top, bottom, left: left || start, right: right || end })
+                .map(([side, border]) => [side, borderToCss(border as Record<string, any> | undefined)])
+                .filter(([, css]) => css)
+                .map(([side, css]) => `border-${side}: ${css}`)
+                .join('; ');
+            return { 'data-borders': JSON.stringify(attributes.borders), ...(style ? { style } : {}) };
+        },
+    },
+    verticalAlign: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-valign'),
+        renderHTML: (attributes: Record<string, any>) => attributes.verticalAlign
+            ? { 'data-valign': attributes.verticalAlign, style: `vertical-align: ${attributes.verticalAlign === 'center' ? 'middle' : attributes.verticalAlign}` }
+            : {},
+    },
+    tcPrElements: { default: null, rendered: false },
+});
+
+export const DocxTableCell = TableCell.extend({
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            ...docxCellAttributes(),
+        };
+    },
+});
+
+export const DocxTableHeader = TableHeader.extend({
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            ...docxCellAttributes(),
+        };
+    },
+});
+
+// Attributes shared by the preserved XML nodes: the original fragment and a placeholder label
+const preservedXmlAttributes = () => ({
+    xml: {
+        default: '',
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-preserved-xml') || '',
+        renderHTML: (attributes: Record<string, any>) => ({ 'data-preserved-xml': attributes.xml }),
+    },
+    label: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-label'),
+        renderHTML: (attributes: Record<string, any>) => attributes.label ? { 'data-label': attributes.label } : {},
+    },
+});
+
+const preservedTitle = (label: string | null) => `${label || 'XML'} - 編集できない要素です。保存時に元の内容のまま書き戻されます`;
+
+/**
+ * Preserved block (SmartArt / chart paragraphs, w:customXml, data-bound content controls, ...)
+ * - attrs.xml holds the original fragment; the writer emits it unchanged
+ * - Shown as a placeholder; it can be moved or deleted but not edited
+ */
+export const PreservedBlock = Node.create({
+    name: 'preservedBlock',
+    group: 'block',
+    atom: true,
+    draggable: true,
+
+    addAttributes() {
+        return preservedXmlAttributes();
+    },
+
+    parseHTML() {
+        return [{ tag: 'div[data-preserved-xml]' }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return ['div', mergeAttributes(HTMLAttributes, {
+            class: 'docx-preserved',
+            contenteditable: 'false',
+            title: preservedTitle(node.attrs.label),
+        }), `[${node.attrs.label || 'XML'}]`];
+    },
+});
+
+/**
+ * Preserved inline content (math, charts in runs, OLE objects, VML, ...)
+ */
+export const PreservedInline = Node.create({
+    name: 'preservedInline',
+    group: 'inline',
+    inline: true,
+    atom: true,
+
+    addAttributes() {
+        return preservedXmlAttributes();
+    },
+
+    parseHTML() {
+        return [{ tag: 'span[data-preserved-xml]' }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return ['span', mergeAttributes(HTMLAttributes, {
+            class: 'docx-preserved docx-preserved-inline',
+            contenteditable: 'false',
+            title: preservedTitle(node.attrs.label),
+        }), `[${node.attrs.label || 'XML'}]`];
+    },
+});
+
+/**
+ * Office Math equation (m:oMath inline, m:oMathPara when display)
+ * - attrs.latex is the editable linear form; attrs.xml the original OMML, cleared when the equation is edited
+ *   so that DocxWriter regenerates it
+ * - Rendered as MathML; selecting the node opens the math input popover
+ */
+export const MathEquation = Node.create({
+    name: 'math',
+    group: 'inline',
+    inline: true,
+    atom: true,
+
+    addAttributes() {
+        return {
+            latex: {
+                default: '',
+                parseHTML: element => element.getAttribute('data-latex') || '',
+                renderHTML: attributes => ({ 'data-latex': attributes.latex }),
+            },
+            display: {
+                default: false,
+                parseHTML: element => element.getAttribute('data-display') === 'true',
+                renderHTML: attributes => attributes.display ? { 'data-display': 'true' } : {},
+            },
+            xml: { default: null, rendered: false },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'span[data-latex]' }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return ['span', mergeAttributes(HTMLAttributes, { class: 'docx-math', contenteditable: 'false' }), node.attrs.latex];
+    },
+
+    addNodeView() {
+        return ({ node }) => {
+            const dom = document.createElement('span');
+            dom.className = 'docx-math';
+            dom.contentEditable = 'false';
+            const render = (current: any) => {
+                dom.classList.toggle('docx-math-display', !!current.attrs.display);
+                dom.classList.toggle('docx-math-empty', !current.attrs.latex);
+                dom.title = current.attrs.latex || '数式';
+                dom.innerHTML = current.attrs.latex ? latexToMathml(current.attrs.latex, current.attrs.display) : '[数式]';
+            };
+            render(node);
+            return {
+                dom,
+                update: (updated: any) => {
+                    if (updated.type.name !== this.name) return false;
+                    render(updated);
+                    return true;
+                },
+                ignoreMutation: () => true,
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            // Insert an equation and select it so the math input opens
+            insertMath: (latex = '', display = false) => ({ tr, dispatch }: { tr: any; dispatch: any }) => {
+                if (dispatch) {
+                    const from = tr.selection.from;
+                    tr.replaceSelectionWith(this.type.create({ latex, display }), false);
+                    tr.setSelection(NodeSelection.create(tr.doc, from));
+                }
+                return true;
+            },
+            // Replace the linear form of the selected equation (its OMML is regenerated on export) and leave the cursor after it
+            updateMath: (latex: string) => ({ tr, state, dispatch }: { tr: any; state: any; dispatch: any }) => {
+                const { selection } = state;
+                if (!(selection instanceof NodeSelection) || selection.node.type.name !== this.name) return false;
+                if (dispatch) {
+                    tr.setNodeMarkup(selection.from, undefined, { ...selection.node.attrs, latex, xml: null });
+                    tr.setSelection(TextSelection.create(tr.doc, selection.to));
+                }
+                return true;
+            },
+        };
+    },
+});
+
+const styleCatalogueKey = new PluginKey('styleCatalogue');
+const NO_STYLES: DocxStyle[] = [];
+const NO_STYLE_DEFAULTS: DocxStyleProps = {};
+
+// DOCX w:jc values -> CSS text-align
+const JC_TO_TEXT_ALIGN: Record<string, string> = {
+    left: 'left', start: 'left', center: 'center', right: 'right', end: 'right', both: 'justify', distribute: 'justify',
+};
+
+/**
+ * CSS declarations for resolved style formatting (same conversions as CustomParagraph.renderHTML)
+ */
+const styleDeclarations = (props: DocxStyleProps): string[] => {
+    const declarations: string[] = [];
+    if (props.fontFamily) declarations.push(`font-family: "${props.fontFamily.replace(/"/g, '')}"`);
+    if (props.fontSize) declarations.push(`font-size: ${props.fontSize}`);
+    if (props.bold !== undefined) declarations.push(`font-weight: ${props.bold ? 'bold' : 'normal'}`);
+    if (props.italic !== undefined) declarations.push(`font-style: ${props.italic ? 'italic' : 'normal'}`);
+    const decorations = [props.underline && 'underline', props.strike && 'line-through'].filter(Boolean);
+    if (decorations.length) declarations.push(`text-decoration: ${decorations.join(' ')}`);
+    if (props.color) declarations.push(`color: ${props.color}`);
+    if (props.spacingBefore) declarations.push(`margin-top: ${parseInt(props.spacingBefore) / 20}pt`);
+    if (props.spacingAfter) declarations.push(`margin-bottom: ${parseInt(props.spacingAfter) / 20}pt`);
+    if (props.lineHeight) {
+        const lineValue = parseInt(props.lineHeight);
+        declarations.push(props.lineRule === 'exact' || props.lineRule === 'atLeast'
+            ? `line-height: ${lineValue / 20}pt`
+            : `line-height: ${((lineValue / 240) * 1.3).toFixed(3)}`);
+    }
+    if (props.indent) declarations.push(`margin-left: ${parseInt(props.indent) / 20}pt`);
+    if (props.firstLine) declarations.push(`text-indent: ${parseInt(props.firstLine) / 20}pt`);
+    else if (props.hanging) declarations.push(`text-indent: -${parseInt(props.hanging) / 20}pt`);
+    if (props.textAlign && JC_TO_TEXT_ALIGN[props.textAlign]) declarations.push(`text-align: ${JC_TO_TEXT_ALIGN[props.textAlign]}`);
+    return declarations;
+};
+
+/**
+ * Stylesheet for the paragraph styles of the catalogue (direct formatting on the nodes still wins),
+ * limited to the elements under [data-style-scope=scope] so documents with the same style ids don't clash
+ */
+export const buildStyleCatalogueCss = (styles: DocxStyle[], defaults: DocxStyleProps, scope: string): string => {
+    return styles
+        .filter(style => style.type === 'paragraph')
+        .map(style => {
+            const declarations = styleDeclarations(resolveStyleProps(styles, style.styleId, defaults));
+            const selector = `[data-style-scope="${scope}"] [data-style-id="${style.styleId.replace(/["\\]/g, '\\$&')}"]`;
+            return declarations.length ? `${selector} { ${declarations.join('; ')}; }` : '';
+        })
+        .filter(Boolean)
+        .join('\n');
+};
+
+let styleScopeCount = 0;
+
+/**
+ * Style catalogue
+ * - Paragraphs keep only a styleId; the formatting of the referenced style (doc attrs.styles, resolved along
+ *   basedOn with attrs.styleDefaults) is rendered from a generated stylesheet
+ * - The stylesheet applies under the editor's own data-style-scope attribute only; PagedEditorContent puts the
+ *   same scope on the page container so headers, footers and notes of the document share it
+ * - storage.styles / storage.defaults are set by PagedEditorContent (setStyleCatalogue)
+ */
+export const StyleCatalogue = Extension.create({
+    name: 'styleCatalogue',
+
+    addStorage() {
+        return {
+            styles: NO_STYLES,
+            defaults: NO_STYLE_DEFAULTS,
+            scope: `docx-styles-${++styleScopeCount}`,
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const storage = this.storage;
+
+        return [
+            new Plugin({
+                key: styleCatalogueKey,
+                props: {
+                    attributes: { 'data-style-scope': storage.scope },
+                },
+                view: () => {
+                    if (typeof document === 'undefined') return {};
+
+                    const element = document.createElement('style');
+                    element.setAttribute('data-docx-style-catalogue', '');
+                    document.head.appendChild(element);
+
+                    let rendered: { styles: DocxStyle[]; defaults: DocxStyleProps } | null = null;
+                    const render = () => {
+                        if (rendered?.styles === storage.styles && rendered?.defaults === storage.defaults) return;
+                        rendered = { styles: storage.styles, defaults: storage.defaults };
+                        element.textContent = buildStyleCatalogueCss(storage.styles, storage.defaults, storage.scope);
+                    };
+                    render();
+
+                    return {
+                        update: render,
+                        destroy: () => element.remove(),
+                    };
+                },
+            }),
+        ];
+    },
+});
+
+/**
+ * Update the style catalogue rendered by the editor (doc attrs.styles / attrs.styleDefaults)
+ */
+export const setStyleCatalogue = (editor: any, styles: DocxStyle[] = NO_STYLES, defaults: DocxStyleProps = NO_STYLE_DEFAULTS) => {
+    const storage = editor?.storage?.styleCatalogue;
+    if (!storage || (storage.styles === styles && storage.defaults === defaults)) return;
+    storage.styles = styles;
+    storage.defaults = defaults;
+    editor.view.dispatch(editor.state.tr.setMeta(styleCatalogueKey, true).setMeta('addToHistory', false));
+};
+
+// TypeScript module augmentation for custom commands
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        deleteBlockCommand: {
+            deleteBlockNodeById: (id: string) => ReturnType;
+        };
+        fontSize: {
+            setFontSize: (fontSize: string) => ReturnType;
+            unsetFontSize: () => ReturnType;
+        };
+        formatChange: {
+            recordFormatChanges: (snapshot: FormattingSnapshot, author: string) => ReturnType;
+        };
+        trackChangesReview: {
+            acceptTrackedChanges: (filter?: TrackedChangeFilter) => ReturnType;
+            rejectTrackedChanges: (filter?: TrackedChangeFilter) => ReturnType;
+        };
+        comment: {
+            setComment: (comment: string) => ReturnType;
+            unsetComment: () => ReturnType;
+            replyToComment: (commentId: string, reply: CommentReply) => ReturnType;
+            setCommentResolved: (commentId: string, done: boolean) => ReturnType;
+        };
+        footnote: {
+            insertFootnote: (text?: string, noteType?: 'footnote' | 'endnote') => ReturnType;
+            updateFootnoteContent: (pos: number, content: any[]) => ReturnType;
+        };
+        docxLink: {
+            setBookmarkLink: (name: string) => ReturnType;
+        };
+        bookmarkStart: {
+            setBookmark: (name: string) => ReturnType;
+        };
+        field: {
+            insertField: (instruction: string, result?: string) => ReturnType;
+            setFieldResults: (updates: { pos: number; result: string }[]) => ReturnType;
+        };
+        tableOfContents: {
+            insertTableOfContents: () => ReturnType;
+            updateTableOfContents: () => ReturnType;
+        };
+        sectionBreak: {
+            insertSectionBreak: (attrs?: Record<string, any>) => ReturnType;
+        };
+        math: {
+            insertMath: (latex?: string, display?: boolean) => ReturnType;
+            updateMath: (latex: string) => ReturnType;
         };
     }
 }
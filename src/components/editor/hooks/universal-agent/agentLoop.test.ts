@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { runAgentLoop } from './agentLoop';
+import { isAwaitingApproval, rejectPendingApprovals, waitForApproval } from './approvals';
+import { MockProvider } from '../../../../lib/ai/mock';
+import { ConversationItem } from '../../../../lib/ai/types';
+import { ToolDefinition, createTool } from '../../../../tools/types';
+import { AgentEvent } from '@/types';
+
+const echoTool: ToolDefinition = createTool(
+    'echo',
+    'Echo the text back',
+    { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    async ({ text }: { text: string }) => `echo: ${text}`
+);
+
+describe('runAgentLoop', () => {
+    it('should run the tools the model calls and answer with their results', async () => {
+        const provider = new MockProvider((request, turn) => turn === 0
+            ? { reasoning: 'Echo first', toolCalls: [{ name: 'echo', arguments: { text: 'hi' } }, { name: 'missing', arguments: {} }] }
+            : { text: `Got ${request.input.filter(item => item.type === 'function_call_output').length} results` });
+        const input: ConversationItem[] = [{ type: 'message', role: 'user', content: 'Say hi' }];
+        const events: AgentEvent[] = [];
+
+        await runAgentLoop({ provider, model: 'mock', input, tools: [echoTool], onUpdate: event => events.push(event) });
+
+        expect(events.map(({ timestamp, ...event }) => (void timestamp, event))).toEqual([
+            { type: 'reasoning_delta', content: 'Echo first' },
+            { type: 'tool_start', id: 'mock_call_1_0', name: 'echo', args: {} },
+            { type: 'tool_start', id: 'mock_call_1_1', name: 'missing', args: {} },
+            { type: 'tool_result', id: 'mock_call_1_0', result: 'echo: hi', status: 'success', args: { text: 'hi' }, durationMs: expect.any(Number) },
+            { type: 'tool_result', id: 'mock_call_1_1', result: 'Tool "missing" not found', status: 'failure', args: {} },
+            { type: 'content_delta', content: 'Got 2 results' },
+            { type: 'run_completed' },
+        ]);
+        expect(provider.requests[0].tools).toEqual([{ name: 'echo', description: 'Echo the text back', parameters: echoTool.function.parameters }]);
+        expect(input.slice(1).map(item => item.type)).toEqual(['function_call', 'function_call', 'function_call_output', 'function_call_output', 'message']);
+    });
+
+    it('should send pending input after a round of tool calls and stop at the loop limit', async () => {
+        const provider = new MockProvider(() => ({ toolCalls: [{ name: 'echo', arguments: { text: 'again' } }] }));
+        const input: ConversationItem[] = [];
+        let pending: ConversationItem[] = [{ type: 'message', role: 'user', content: 'A PDF was loaded' }];
+        const events: AgentEvent[] = [];
+
+        await runAgentLoop({
+            provider,
+            model: 'mock',
+            input,
+            tools: [echoTool],
+            onUpdate: event => events.push(event),
+            takePendingInput: () => {
+                const items = pending;
+                pending = [];
+                return items;
+            },
+            maxLoops: 3,
+        });
+
+        expect(provider.requests).toHaveLength(3);
+        expect(input.filter(item => item.type === 'message')).toEqual([{ type: 'message', role: 'user', content: 'A PDF was loaded' }]);
+        expect(events.filter(event => event.type === 'run_completed')).toHaveLength(1);
+    });
+
+    it('should report the usage of each model call and stop once the budget is spent', async () => {
+        const usage = { inputTokens: 100, outputTokens: 20, reasoningTokens: 5, cachedTokens: 40 };
+        const provider = new MockProvider(() => ({ toolCalls: [{ name: 'echo', arguments: { text: 'again' } }], usage }));
+        const events: AgentEvent[] = [];
+        let used = 0;
+
+        await runAgentLoop({
+            provider,
+            model: 'mock',
+            input: [],
+            tools: [echoTool],
+            onUpdate: event => {
+                if (event.type === 'usage') used += event.usage.inputTokens + event.usage.outputTokens;
+                events.push(event);
+            },
+            checkBudget: () => used > 200 ? 'over budget' : null,
+        });
+
+        expect(provider.requests).toHaveLength(2);
+        expect(events.filter(event => event.type === 'usage')).toEqual([
+            { type: 'usage', source: 'agent', usage, timestamp: expect.any(Number) },
+            { type: 'usage', source: 'agent', usage, timestamp: expect.any(Number) },
+        ]);
+        expect(events.slice(-2).map(event => event.type === 'content_delta' ? event.content : event.type)).toEqual(['\n[Stopped: over budget]', 'run_completed']);
+    });
+
+    it('should skip the tool calls left once a tool spends the budget', async () => {
+        let used = 0;
+        const spender = createTool('spend', 'Run a sub-agent', { type: 'object', properties: {} }, async () => {
+            used = 500;
+            return 'spent';
+        });
+        const provider = new MockProvider(() => ({ toolCalls: [{ name: 'spend', arguments: {} }, { name: 'echo', arguments: { text: 'late' } }] }));
+        const input: ConversationItem[] = [];
+        const events: AgentEvent[] = [];
+
+        await runAgentLoop({
+            provider,
+            model: 'mock',
+            input,
+            tools: [spender, echoTool],
+            onUpdate: event => events.push(event),
+            checkBudget: () => used > 200 ? 'over budget' : null,
+        });
+
+        expect(provider.requests).toHaveLength(1);
+        expect(input.filter(item => item.type === 'function_call_output').map(item => item.type === 'function_call_output' && item.output))
+            .toEqual(['spent', 'Skipped: over budget']);
+        expect(events.slice(-2).map(event => event.type === 'content_delta' ? event.content : event.type)).toEqual(['\n[Stopped: over budget]', 'run_completed']);
+    });
+
+    it('should wait for approval of tools that ask and refuse tools that are denied', async () => {
+        const previewed: ToolDefinition = { ...echoTool, preview: async ({ text }) => ({ summary: 'Echo', lines: [{ type: 'added', text }] }) };
+        const denied = createTool('remove', 'Remove everything', { type: 'object', properties: {} }, async () => 'removed');
+        const provider = new MockProvider((_request, turn) => turn === 0
+            ? { toolCalls: [{ name: 'echo', arguments: { text: 'yes' } }, { name: 'echo', arguments: { text: 'no' } }, { name: 'remove', arguments: {} }] }
+            : { text: 'Done' });
+        const input: ConversationItem[] = [];
+        const events: AgentEvent[] = [];
+        const asked: string[] = [];
+
+        await runAgentLoop({
+            provider,
+            model: 'mock',
+            input,
+            tools: [previewed, denied],
+            onUpdate: event => events.push(event),
+            toolPolicy: name => name === 'echo' ? 'ask' : 'deny',
+            waitForApproval: async callId => {
+                asked.push(callId);
+                return callId === 'mock_call_1_0';
+            },
+        });
+
+        expect(asked).toEqual(['mock_call_1_0', 'mock_call_1_1']);
+        expect(events.find(event => event.type === 'tool_approval')).toMatchObject({
+            id: 'mock_call_1_0',
+            name: 'echo',
+            args: { text: 'yes' },
+            preview: { summary: 'Echo', lines: [{ type: 'added', text: 'yes' }] },
+        });
+        expect(events.filter(event => event.type === 'tool_approval_result').map(event => event.type === 'tool_approval_result' && event.approved))
+            .toEqual([true, false]);
+        expect(input.filter(item => item.type === 'function_call_output').map(item => item.type === 'function_call_output' && item.output)).toEqual([
+            'echo: yes',
+            'The user denied this tool call',
+            'Tool "remove" is disabled in the user\'s tool settings',
+        ]);
+    });
+
+    it('should deny the calls waiting for approval and end the run when it is cancelled', async () => {
+        const provider = new MockProvider(() => ({ toolCalls: [{ name: 'echo', arguments: { text: 'wait' } }] }));
+        const events: AgentEvent[] = [];
+        const controller = new AbortController();
+
+        await runAgentLoop({
+            provider,
+            model: 'mock',
+            input: [],
+            tools: [echoTool],
+            onUpdate: event => {
+                events.push(event);
+                if (event.type === 'tool_approval') setTimeout(() => controller.abort());
+            },
+            toolPolicy: () => 'ask',
+            waitForApproval,
+            signal: controller.signal,
+        });
+
+        expect(provider.requests).toHaveLength(1);
+        expect(isAwaitingApproval('mock_call_1_0')).toBe(false);
+        expect(events.filter(event => event.type === 'tool_approval_result').map(event => event.type === 'tool_approval_result' && event.approved))
+            .toEqual([false]);
+        expect(events.at(-1)?.type).toBe('run_completed');
+    });
+
+    it('should deny every waiting call when the chat is left', async () => {
+        const approvals = [waitForApproval('a'), waitForApproval('b')];
+        rejectPendingApprovals();
+        expect(await Promise.all(approvals)).toEqual([false, false]);
+        expect(isAwaitingApproval('a')).toBe(false);
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * ReAct loop of the universal agent, independent of the model provider
+ * @module components/editor/hooks/universal-agent/agentLoop
+ */
+
+import { AgentEvent } from '@/types';
+import { ToolDefinition } from '@/tools';
+import { ConversationItem, ModelProvider } from '@/lib/ai/types';
+import type { ToolPolicy } from '@/lib/ai/toolPolicy';
+
+/** Rounds of tool calls before the run stops - high for comprehensive contract review tasks */
+const MAX_LOOPS = 200;
+
+export interface AgentLoopOptions {
+    provider: ModelProvider;
+    model: string;
+    /** Conversation so far; the loop appends the model's turns and the tool results to it */
+    input: ConversationItem[];
+    instructions?: string;
+    tools: ToolDefinition[];
+    onUpdate: (event: AgentEvent) => void;
+    /** Items to send after a round of tool calls, such as files the tools loaded */
+    takePendingInput?: () => ConversationItem[];
+    /** Policy of each tool (auto by default) */
+    toolPolicy?: (name: string) => ToolPolicy;
+    /** Resolves with the user's decision on a call whose tool asks first; without it such calls are denied */
+    waitForApproval?: (callId: string, signal?: AbortSignal) => Promise<boolean>;
+    /** Why the run must stop before its next model or tool call (e.g. a spent token budget), or null to go on */
+    checkBudget?: () => string | null;
+    /** Cancels the model stream, denies the calls waiting for approval and ends the run */
+    signal?: AbortSignal;
+    maxLoops?: number;
+}
+
+/**
+ * Call the model, run the tools it asks for in parallel and feed their results back
+ * until it answers without tool calls. Calls of tools whose policy is `ask` wait for
+ * the user's approval first. Reports the usage of each model call and the wall time of
+ * each tool, and stops when `checkBudget` says so: before each model call, and before each tool call since the
+ * tools of a round may spend the budget themselves. Emits `run_completed` once, when the loop ends.
+ */
+export async function runAgentLoop(options: AgentLoopOptions): Promise<void> {
+    const { provider, model, input, instructions, tools, onUpdate, takePendingInput, toolPolicy, waitForApproval, checkBudget, signal, maxLoops = MAX_LOOPS } = options;
+    const modelTools = tools.map(({ function: fn }) => ({ name: fn.name, description: fn.description, parameters: fn.parameters }));
+
+    for (let loop = 0; loop < maxLoops; loop++) {
+        if (signal?.aborted) break;
+        const overBudget = checkBudget?.();
+        if (overBudget) {
+            onUpdate({ type: 'content_delta', content: `\n[Stopped: ${overBudget}]`, timestamp: Date.now() });
+            break;
+        }
+
+        let finalContent = '';
+        const toolCalls: { id: string; name: string; args: string }[] = [];
+
+        for await (const event of provider.stream({ model, input, instructions, tools: modelTools, signal })) {
+            if (event.type === 'reasoning_delta') {
+                onUpdate({ type: 'reasoning_delta', content: event.delta, timestamp: Date.now() });
+            } else if (event.type === 'text_delta') {
+                finalContent += event.delta;
+                onUpdate({ type: 'content_delta', content: event.delta, timestamp: Date.now() });
+            } else if (event.type === 'tool_call_start') {
+                onUpdate({ type: 'tool_start', id: event.id, name: event.name, args: {}, timestamp: Date.now() });
+            } else if (event.type === 'tool_call') {
+                toolCalls.push({ id: event.id, name: event.name, args: event.arguments });
+            } else if (event.type === 'completed' && event.usage) {
+                onUpdate({ type: 'usage', source: 'agent', usage: event.usage, timestamp: Date.now() });
+            }
+        }
+
+        if (finalContent) {
+            input.push({ type: 'message', role: 'assistant', content: finalContent });
+        }
+        if (toolCalls.length === 0) break;
+
+        for (const tc of toolCalls) {
+            input.push({ type: 'function_call', call_id: tc.id, name: tc.name, arguments: tc.args });
+        }
+
+        const toolResults = await Promise.all(
+            toolCalls.map(async (tc) => {
+                const toolDef = tools.find(t => t.function.name === tc.name);
+                if (!toolDef) {
+                    return { tc, result: `Tool "${tc.name}" not found`, status: 'failure' as const, args: {} };
+                }
+                try {
+                    const args = JSON.parse(tc.args || '{}');
+                    const policy = toolPolicy?.(tc.name) ?? 'auto';
+                    if (policy === 'deny') {
+                        return { tc, result: `Tool "${tc.name}" is disabled in the user's tool settings`, status: 'failure' as const, args };
+                    }
+                    if (policy === 'ask') {
+                        const preview = await toolDef.preview?.(args).catch(error => ({ summary: 'プレビューを表示できません: ' + String(error) }));
+                        onUpdate({ type: 'tool_approval', id: tc.id, name: tc.name, args, preview, timestamp: Date.now() });
+                        const approved = waitForApproval ? await waitForApproval(tc.id, signal) : false;
+                        onUpdate({ type: 'tool_approval_result', id: tc.id, approved, timestamp: Date.now() });
+                        if (!approved) {
+                            return { tc, result: 'The user denied this tool call', status: 'failure' as const, args };
+                        }
+                    }
+                    const spent = checkBudget?.();
+                    if (spent) {
+                        return { tc, result: `Skipped: ${spent}`, status: 'failure' as const, args };
+                    }
+                    const started = Date.now();
+                    const result = await toolDef.execute(args);
+                    return { tc, result: String(result), status: 'success' as const, args, durationMs: Date.now() - started };
+                } catch (error) {
+                    return { tc, result: 'Error: ' + String(error), status: 'failure' as const, args: {} };
+                }
+            })
+        );
+
+        for (const { tc, result, status, args, durationMs } of toolResults) {
+            onUpdate({ type: 'tool_result', id: tc.id, result, status, args, durationMs, timestamp: Date.now() });
+            input.push({ type: 'function_call_output', call_id: tc.id, output: result });
+        }
+
+        input.push(...(takePendingInput?.() || []));
+    }
+
+    onUpdate({ type: 'run_completed', timestamp: Date.now() });
+}
@@ -0,0 +1,42 @@
+/**
+ * Tool calls waiting for the user to approve or deny them
+ * @module components/editor/hooks/universal-agent/approvals
+ */
+
+const pending = new Map<string, (approved: boolean) => void>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Resolves once the user decides on the tool call, or as denied when `signal` aborts first */
+export function waitForApproval(callId: string, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false);
+    return new Promise(resolve => {
+        pending.set(callId, resolve);
+        signal?.addEventListener('abort', () => resolveApproval(callId, false), { once: true });
+        notify();
+    });
+}
+
+export const isAwaitingApproval = (callId: string): boolean => pending.has(callId);
+
+/** Call `listener` whenever a call starts or stops waiting; returns the unsubscribe function */
+export function subscribeApprovals(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function resolveApproval(callId: string, approved: boolean): void {
+    const resolve = pending.get(callId);
+    if (!resolve) return;
+    pending.delete(callId);
+    resolve(approved);
+    notify();
+}
+
+/** Deny every call still waiting, as when the chat they belong to is left */
+export function rejectPendingApprovals(): void {
+    [...pending.keys()].forEach(callId => resolveApproval(callId, false));
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { getCheckpoint, recordTurn } from './checkpoints';
+
+type Cell = { v?: string | number; f?: string; bl?: number } | null;
+
+// A workbook whose setCellValue writes into the `data` matrix, as FortuneSheet does
+const fakeWorkbook = () => {
+    const sheets = [
+        { name: 'Sheet1', status: 1, data: [[{ v: 1 }, { v: 2, f: '=A1*2' }], [null, null]] as Cell[][] },
+        { name: 'Sheet2', status: 0, data: [[{ v: 'x' }]] as Cell[][] },
+    ];
+    const writes: [string, string | number, string | undefined, unknown][] = [];
+    const setCellValue = (cell: string, value: string | number, sheetName?: string, options?: unknown) => {
+        writes.push([cell, value, sheetName, options]);
+        const sheet = sheets.find(item => item.name === sheetName) || sheets[0];
+        const r = Number(cell.slice(1)) - 1;
+        const c = cell.charCodeAt(0) - 65;
+        const style = typeof options === 'object' ? (options as { style?: Record<string, unknown> }).style : undefined;
+        const current = sheet.data[r][c] || {};
+        const next = { ...current, ...style } as Record<string, unknown>;
+        if (value === '') delete next.v;
+        else next.v = value;
+        sheet.data[r][c] = next as Cell;
+    };
+    return { sheets, writes, setCellValue, getSheets: () => sheets };
+};
+
+// A document whose content is a string; `eq` compares it like ProseMirror nodes do
+const fakeEditor = (text: string) => {
+    const node = (content: string) => ({ content, eq: (other: { content: string }) => other.content === content });
+    const editor = {
+        isDestroyed: false,
+        state: {
+            doc: node(text),
+            tr: { replaceWith: (_from: number, _to: number, content: string) => ({ content }) },
+        },
+        view: { dispatch: (tr: { content: string }) => { editor.state.doc = node(tr.content); } },
+    };
+    return editor;
+};
+
+describe('recordTurn', () => {
+    it('should restore the cells a turn wrote, on the sheets they were written to', () => {
+        const workbook = fakeWorkbook();
+        const turn = recordTurn({ getEditor: () => null, getSheets: workbook.getSheets, setCellValue: workbook.setCellValue });
+
+        turn.setCellValue!('A1', 10, undefined, { isNumber: true });
+        turn.setCellValue!('B1', 'text', 'Sheet1');
+        turn.setCellValue!('A2', '', 'Sheet1', { style: { bl: 1 } });
+        turn.setCellValue!('A1', 'x', 'Sheet2');
+        const id = turn.finish()!;
+
+        expect(workbook.sheets[0].data[0][0]).toEqual({ v: 10 });
+        const checkpoint = getCheckpoint(id)!;
+        expect(checkpoint.hasLaterChanges()).toBe(false);
+        workbook.writes.length = 0;
+
+        expect(checkpoint.revert()).toEqual({ ok: true, message: '4個のセルを元に戻しました。' });
+        expect(workbook.writes).toEqual([
+            ['A1', 1, 'Sheet1', { isNumber: true, style: {} }],
+            ['B1', '=A1*2', 'Sheet1', { isFormula: true, style: {} }],
+            ['A2', '', 'Sheet1', { style: { bl: null } }],
+            ['A1', 'x', 'Sheet2', { isNumber: false, style: {} }],
+        ]);
+    });
+
+    it('should notice later edits of the cells and skip turns without changes', () => {
+        const workbook = fakeWorkbook();
+        const turn = recordTurn({ getEditor: () => null, getSheets: workbook.getSheets, setCellValue: workbook.setCellValue });
+        turn.setCellValue!('A1', 10, 'Sheet1');
+        const checkpoint = getCheckpoint(turn.finish()!)!;
+
+        workbook.setCellValue('A1', 20, 'Sheet1');
+        expect(checkpoint.hasLaterChanges()).toBe(true);
+
+        const unchanged = recordTurn({ getEditor: () => null, getSheets: workbook.getSheets, setCellValue: workbook.setCellValue });
+        expect(unchanged.finish()).toBeNull();
+    });
+
+    it('should restore the conditional formats and charts a turn added, and name the files it created', () => {
+        const sheets = [{ name: 'Sheet1', status: 1, data: [], luckysheet_conditionformat_save: [{ type: 'default' }], charts: [] as { id: string }[] }];
+        const replaced: [string, unknown[], string][] = [];
+        const turn = recordTurn({
+            getEditor: () => null,
+            getSheets: () => sheets as never,
+            addConditionalFormat: (rule, sheetName) => {
+                sheets[0].luckysheet_conditionformat_save = [...sheets[0].luckysheet_conditionformat_save, rule as never];
+                return !sheetName || sheetName === 'Sheet1';
+            },
+            setConditionalFormats: (rules, sheetName) => (replaced.push(['formats', rules, sheetName]), true),
+            addChart: createChart => (sheets[0].charts = [...sheets[0].charts, createChart('Sheet1') as never], true),
+            setCharts: (charts, sheetName) => (replaced.push(['charts', charts, sheetName]), true),
+            addFileToWorkspace: () => {},
+        });
+
+        turn.addConditionalFormat!({ type: 'colorGradation' } as never);
+        turn.addChart!(() => ({ id: 'c1' }) as never, 'Sheet1');
+        turn.addFileToWorkspace!({ name: 'report.xlsx' } as FileSystemFileHandle);
+        const checkpoint = getCheckpoint(turn.finish()!)!;
+        expect(checkpoint.hasLaterChanges()).toBe(false);
+
+        expect(checkpoint.revert()).toEqual({
+            ok: true,
+            message: '条件付き書式とグラフを元に戻しました。',
+            warning: '作成したファイル（「report.xlsx」）は削除されません。不要であれば手動で削除してください。',
+        });
+        expect(replaced).toEqual([
+            ['formats', [{ type: 'default' }], 'Sheet1'],
+            ['charts', [], 'Sheet1'],
+        ]);
+    });
+
+    it('should restore the document unless its editor was closed', () => {
+        const editor = fakeEditor('before');
+        let current: ReturnType<typeof fakeEditor> | null = editor;
+        const turn = recordTurn({ getEditor: () => current });
+        editor.state.doc = { ...editor.state.doc, content: 'after', eq: (other: { content: string }) => other.content === 'after' };
+        const checkpoint = getCheckpoint(turn.finish()!)!;
+
+        expect(checkpoint.hasLaterChanges()).toBe(false);
+        current = null;
+        expect(checkpoint.revert().ok).toBe(false);
+
+        current = editor;
+        expect(checkpoint.revert()).toEqual({ ok: true, message: '文書を元に戻しました。' });
+        expect(editor.state.doc.content).toBe('before');
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * Checkpoints of agent turns, so the edits of one assistant message can be reverted
+ * @module components/editor/hooks/universal-agent/checkpoints
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { SpreadsheetChart } from '@/lib/xlsx/charts';
+import type { ConditionFormatRule } from '@/lib/xlsx/conditionalFormat';
+import type { EditorSheet } from '@/lib/xlsx/formulas';
+import { decodeCell } from '@/lib/xlsx/xml';
+import type { UniversalAgentConfig } from './types';
+
+type SetCellValue = NonNullable<UniversalAgentConfig['setCellValue']>;
+
+/** Sheet as returned by the Workbook, where `status` 1 marks the active sheet */
+type LiveSheet = EditorSheet & {
+    status?: number;
+    luckysheet_conditionformat_save?: ConditionFormatRule[];
+    charts?: SpreadsheetChart[];
+};
+
+/** Lists of a sheet the turn can add to */
+type SheetList = 'luckysheet_conditionformat_save' | 'charts';
+
+/** The state of a cell before the turn first wrote it */
+interface CellSnapshot {
+    sheet: string;
+    cell: string;
+    before: { f?: string; v?: unknown; [style: string]: unknown } | null;
+    /** Style attributes the turn set on the cell */
+    styleKeys: Set<string>;
+    /** Formula and value the turn left, to notice edits made after it */
+    after?: string;
+}
+
+/** The conditional formats or charts of a sheet before the turn first added to them */
+interface ListSnapshot {
+    list: SheetList;
+    sheet: string;
+    before: unknown[];
+    /** The list the turn left, to notice edits made after it */
+    after?: string;
+}
+
+export interface RevertResult {
+    ok: boolean;
+    message: string;
+    /** What the revert left in place, for the user to undo by hand */
+    warning?: string;
+}
+
+export interface TurnCheckpoint {
+    /** Whether the document or the cells were edited again after the turn */
+    hasLaterChanges(): boolean;
+    revert(): RevertResult;
+}
+
+// Checkpoints live for the session only: the editor state they restore is not persisted
+const checkpoints = new Map<string, TurnCheckpoint>();
+
+export const getCheckpoint = (id: string): TurnCheckpoint | undefined => checkpoints.get(id);
+
+export const removeCheckpoint = (id: string): void => {
+    checkpoints.delete(id);
+};
+
+const activeSheet = (sheets: LiveSheet[]): LiveSheet | undefined =>
+    sheets.find(sheet => sheet.status === 1) || sheets[0];
+
+const readCell = (sheet: LiveSheet, address: string): CellSnapshot['before'] => {
+    const position = decodeCell(address);
+    if (!position) return null;
+    const { r, c } = position;
+    const cell = sheet.data ? sheet.data[r]?.[c] : sheet.celldata?.find(item => item.r === r && item.c === c)?.v;
+    return cell ? { ...structuredClone(cell) } : null;
+};
+
+const cellContent = (cell: CellSnapshot['before']): string => JSON.stringify([cell?.f ?? null, cell?.v ?? null]);
+
+const LIST_NAMES: Record<SheetList, string> = { luckysheet_conditionformat_save: '条件付き書式', charts: 'グラフ' };
+
+type TurnRecorderOptions = Pick<UniversalAgentConfig,
+    'getSheets' | 'setCellValue' | 'addConditionalFormat' | 'setConditionalFormats' | 'addChart' | 'setCharts' | 'addFileToWorkspace'> & {
+    /** The DOCX editor, when one is open */
+    getEditor: () => any;
+};
+
+/**
+ * Start recording an agent turn: the document is snapshotted now, and cells, conditional
+ * formats and charts are snapshotted the first time the turn changes them through the
+ * returned callbacks. Files the turn creates are noted, as reverting does not delete them.
+ * `finish` registers the checkpoint and returns its id, or null when nothing changed.
+ */
+export function recordTurn(options: TurnRecorderOptions) {
+    const { getEditor, getSheets, setCellValue, addConditionalFormat, setConditionalFormats, addChart, setCharts, addFileToWorkspace } = options;
+    const editor = getEditor();
+    const docBefore = editor?.state?.doc;
+    const cells = new Map<string, CellSnapshot>();
+    const lists = new Map<string, ListSnapshot>();
+    const createdFiles: string[] = [];
+
+    const liveSheets = () => (getSheets?.() || []) as LiveSheet[];
+    const findSheet = (sheets: LiveSheet[], sheetName?: string) =>
+        sheetName ? sheets.find(item => item.name === sheetName) : activeSheet(sheets);
+
+    const snapshotList = (list: SheetList, sheetName?: string) => {
+        const sheet = findSheet(liveSheets(), sheetName);
+        if (sheet && !lists.has(`${list}:${sheet.name}`)) {
+            lists.set(`${list}:${sheet.name}`, { list, sheet: sheet.name, before: structuredClone(sheet[list] || []) });
+        }
+    };
+
+    const trackedSetCellValue: SetCellValue | undefined = setCellValue && ((cell, value, sheetName, options) => {
+        const sheet = findSheet(liveSheets(), sheetName);
+        if (sheet) {
+            const address = cell.toUpperCase();
+            const key = `${sheet.name}!${address}`;
+            const snapshot = cells.get(key) || { sheet: sheet.name, cell: address, before: readCell(sheet, address), styleKeys: new Set<string>() };
+            if (typeof options === 'object') {
+                Object.keys(options.style || {}).forEach(style => snapshot.styleKeys.add(style));
+            }
+            cells.set(key, snapshot);
+        }
+        setCellValue(cell, value, sheetName, options);
+    });
+
+    const trackedAddConditionalFormat: UniversalAgentConfig['addConditionalFormat'] = addConditionalFormat && ((rule, sheetName) => {
+        snapshotList('luckysheet_conditionformat_save', sheetName);
+        return addConditionalFormat(rule, sheetName);
+    });
+
+    const trackedAddChart: UniversalAgentConfig['addChart'] = addChart && ((createChart, sheetName) => {
+        snapshotList('charts', sheetName);
+        return addChart(createChart, sheetName);
+    });
+
+    const trackedAddFileToWorkspace: UniversalAgentConfig['addFileToWorkspace'] = addFileToWorkspace && (handle => {
+        createdFiles.push(handle.name);
+        addFileToWorkspace(handle);
+    });
+
+    const finish = (): string | null => {
+        const docAfter = editor?.state?.doc;
+        const docChanged = !!docBefore && !!docAfter && !docAfter.eq(docBefore);
+
+        const sheets = liveSheets();
+        for (const snapshot of cells.values()) {
+            const sheet = sheets.find(item => item.name === snapshot.sheet);
+            snapshot.after = sheet ? cellContent(readCell(sheet, snapshot.cell)) : undefined;
+        }
+        for (const [key, snapshot] of lists) {
+            const sheet = sheets.find(item => item.name === snapshot.sheet);
+            snapshot.after = sheet ? JSON.stringify(sheet[snapshot.list] || []) : undefined;
+            // A rejected rule or chart leaves nothing to revert
+            if (snapshot.after === JSON.stringify(snapshot.before)) lists.delete(key);
+        }
+        if (!docChanged && cells.size === 0 && lists.size === 0 && createdFiles.length === 0) return null;
+
+        const editorGone = () => editor.isDestroyed || getEditor() !== editor;
+        const warning = createdFiles.length > 0
+            ? `作成したファイル（${createdFiles.map(name => `「${name}」`).join('、')}）は削除されません。不要であれば手動で削除してください。`
+            : undefined;
+
+        const checkpoint: TurnCheckpoint = {
+            hasLaterChanges() {
+                if (docChanged && !editorGone() && !editor.state.doc.eq(docAfter)) return true;
+                const current = liveSheets();
+                return [...cells.values()].some(snapshot => {
+                    const sheet = current.find(item => item.name === snapshot.sheet);
+                    return !!sheet && cellContent(readCell(sheet, snapshot.cell)) !== snapshot.after;
+                }) || [...lists.values()].some(snapshot => {
+                    const sheet = current.find(item => item.name === snapshot.sheet);
+                    return !!sheet && JSON.stringify(sheet[snapshot.list] || []) !== snapshot.after;
+                });
+            },
+            revert() {
+                if (docChanged && editorGone()) {
+                    return { ok: false, message: '編集した文書が閉じられているため、元に戻せません。' };
+                }
+                const current = liveSheets();
+                const missing = [...cells.values(), ...lists.values()].find(snapshot => !current.some(sheet => sheet.name === snapshot.sheet));
+                if (missing) {
+                    return { ok: false, message: `シート「${missing.sheet}」が開かれていないため、元に戻せません。` };
+                }
+
+                if (docChanged) {
+                    const { state } = editor;
+                    editor.view.dispatch(state.tr.replaceWith(0, state.doc.content.size, docBefore.content));
+                }
+                for (const { sheet, cell, before, styleKeys } of cells.values()) {
+                    const style = Object.fromEntries([...styleKeys].map(key => [key, before?.[key] ?? null]));
+                    if (before?.f) {
+                        setCellValue!(cell, before.f, sheet, { isFormula: true, style });
+                    } else if (before?.v !== undefined && before.v !== null) {
+                        const value = typeof before.v === 'number' ? before.v : String(before.v);
+                        setCellValue!(cell, value, sheet, { isNumber: typeof value === 'number', style });
+                    } else {
+                        setCellValue!(cell, '', sheet, { style });
+                    }
+                }
+                for (const { list, sheet, before } of lists.values()) {
+                    if (list === 'charts') {
+                        setCharts?.(before as SpreadsheetChart[], sheet);
+                    } else {
+                        setConditionalFormats?.(before as ConditionFormatRule[], sheet);
+                    }
+                }
+
+                const listNames = [...new Set([...lists.values()].map(snapshot => LIST_NAMES[snapshot.list]))];
+                const parts = [docChanged && '文書', cells.size > 0 && `${cells.size}個のセル`, ...listNames].filter(Boolean);
+                const message = parts.length > 0 ? `${parts.join('と')}を元に戻しました。` : '元に戻す編集はありません。';
+                return { ok: true, message, ...(warning && { warning }) };
+            },
+        };
+
+        const id = crypto.randomUUID();
+        checkpoints.set(id, checkpoint);
+        return id;
+    };
+
+    return {
+        setCellValue: trackedSetCellValue,
+        addConditionalFormat: trackedAddConditionalFormat,
+        addChart: trackedAddChart,
+        addFileToWorkspace: trackedAddFileToWorkspace,
+        finish,
+    };
+}
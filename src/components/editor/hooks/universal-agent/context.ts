@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { AIActions } from '@superdoc-dev/ai';
 import { ToolContext } from '@/tools';
+import { resolveModel } from '@/lib/ai/settings';
 import { FileType, UniversalAgentConfig } from './types';
 
 /**
@@ -16,6 +17,22 @@ export function detectFileType(path?: string): FileType {
     return null;
 }
 
+/**
+ * TipTap editor of the open DOCX, from CustomDocEditor or SuperDoc
+ */
+export function getDocumentEditor(config: Pick<UniversalAgentConfig, 'superdocRef' | 'customEditorRef'>): any {
+    const { superdocRef, customEditorRef } = config;
+    // Try CustomDocEditor first (if provided)
+    if (customEditorRef?.current) {
+        const ce = customEditorRef.current;
+        return ce.editor || ce.getEditor?.() || ce;
+    }
+    // Fall back to SuperDoc
+    if (!superdocRef?.current) return null;
+    const sd = superdocRef.current as any;
+    return sd.activeEditor || sd.editor || sd.getEditor?.() || sd._editor;
+}
+
 /**
  * Build tool context for the agent
  */
@@ -23,20 +40,10 @@ export function buildToolContext(
     config: UniversalAgentConfig,
     aiActions?: AIActions | null
 ): ToolContext {
-    const { superdocRef, customEditorRef, workspaceFiles, libraryItems, activeFilePath, activeFileHandle, setCellValue, openFileInEditor, addFileToWorkspace } = config;
+    const { superdocRef, customEditorRef, workspaceFiles, libraryItems, activeFilePath, activeFileHandle, setCellValue, addConditionalFormat, checkDataValidation, addChart, openFileInEditor, addFileToWorkspace, openGeneratedFile } = config;
 
     // Helper to get TipTap editor from SuperDoc or CustomDocEditor
-    const getEditor = () => {
-        // Try CustomDocEditor first (if provided)
-        if (customEditorRef?.current) {
-            const ce = customEditorRef.current;
-            return ce.editor || ce.getEditor?.() || ce;
-        }
-        // Fall back to SuperDoc
-        if (!superdocRef?.current) return null;
-        const sd = superdocRef.current as any;
-        return sd.activeEditor || sd.editor || sd.getEditor?.() || sd._editor;
-    };
+    const getEditor = () => getDocumentEditor({ superdocRef, customEditorRef });
 
     // Helper to get AIActions methods (only available with SuperDoc)
     const getActionMethods = () => aiActions ? (aiActions as any).action : ({} as any);
@@ -51,16 +58,19 @@ export function buildToolContext(
         // Expose superdoc or custom editor as 'superdoc' for compatibility
         superdoc: superdocRef?.current || customEditorRef?.current || ({} as any),
         setCellValue,
+        addConditionalFormat,
+        checkDataValidation,
+        addChart,
         openFileInEditor,
         addFileToWorkspace,
-        openaiConfig: {
-            apiKey: 'dummy',
-            baseURL: window.location.origin + '/api/ai',
-            dangerouslyAllowBrowser: true
-        },
+        openGeneratedFile,
+        resolveModel,
         getCustomEditorRef: () => customEditorRef || null,
         addLoadedPdfFile: config.addLoadedPdfFile,
         addLoadedImageFile: config.addLoadedImageFile,
-        getWorkbook: config.getWorkbook
+        getWorkbook: config.getWorkbook,
+        getSheets: config.getSheets,
+        reportUsage: config.reportUsage,
+        checkBudget: config.checkBudget
     };
 }
@@ -77,6 +77,7 @@ Document Stats: ~${docStats.charCount.toLocaleString()} chars, ${docStats.estima
 - \`listSpreadsheetSheets(path)\`: List sheets in xlsx before reading.
 - \`listFolder(path)\`: List all files in a folder mentioned with @. Use when user mentions a folder (e.g., "@裁判書面/").
 - \`readDocument()\`: Read active document structure with block IDs.
+- \`compareDocuments(originalPath, revisedPath, author?)\`: Redline two DOCX versions. Opens the result in a new tab with the differences as tracked insertions/deletions.
 
 ## Search Tools (choose wisely!)
 - \`keywordSearch(query, isRegex?)\`: Fast, free keyword/regex search. Best for exact terms you already know.
@@ -107,20 +108,31 @@ When presenting search results (e.g., listing found items, references, or matche
     - Markdown heading: \`editText({ find: "## Title", replace: "Title", headingLevel: 2 })\`
     - Markdown bold: \`editText({ find: "**text**", replace: "text", bold: true })\`
 - \`insertTrackedChanges(instruction)\`: AI-powered edits with track changes
+- \`listTrackedChanges({ author?, type?, dateFrom?, dateTo? })\`: List tracked insertions/deletions/moves/table row/formatting changes with id, author, date and text
+  - The two sides of a move (\`moveFrom\` / \`moveTo\`) share a move name; accepting or rejecting either side resolves the whole move
+  - Formatting applied by \`editText\` (bold, heading, ...) is tracked as a \`format\` / \`paragraphFormat\` change
+- \`acceptAllChanges({ author?, type?, dateFrom?, dateTo?, changeIds? })\` / \`rejectAllChanges(...)\`: Accept or reject tracked changes; without filters applies to every change
+  - Accept only your own suggestions: \`acceptAllChanges({ author: "AI Assistant" })\`
 - \`literalReplace(find, replace)\`: Exact text replacement
 - \`insertTable(headers, rows)\`: Insert table
+- \`listTables()\`: List tables (index, grid size, merged cells, first row)
+- \`modifyTable({ tableIndex, operations })\`: Edit an existing table: setCell, addRow, addColumn, deleteRow, deleteColumn, mergeCells, splitCell, setShading, setColumnWidth
+  - Example: \`modifyTable({ tableIndex: 0, operations: [{ type: "mergeCells", row: 0, column: 0, toColumn: 2 }, { type: "setShading", row: 0, column: 0, color: "#D9E2F3" }] })\`
 - \`deleteBlock(blockId)\`: Remove block (requires readDocument first)
 - \`insertComment({ find, comment, author? })\`: Add a comment to specific text in the document
   - Example: \`insertComment({ find: "contract term", comment: "Please review this clause" })\`
+  - Reply to a thread: \`insertComment({ replyTo: commentId, comment: "Fixed", resolve: true })\`
 - \`readComments()\`: Read all user comments with anchored text and block context
-  - Returns: author, feedback, anchoredText, blockIndex, contextBefore, contextAfter
+  - Returns: commentId, author, feedback, status (open/resolved), replies, anchoredText, blockIndex, contextBefore, contextAfter
+- \`resolveComment({ commentId, resolved? })\`: Resolve a comment thread (\`resolved: false\` reopens it)
   - **Feedback Workflow**: User adds comments → Agent calls readComments → Uses readDocument with blockIndex ±10 for context → Applies edits based on feedback
-- \`setPageLayout({ pageSizePreset?, marginPreset?, customPageSize?, customMargins? })\`: Set page size and margins
+- \`setPageLayout({ pageSizePreset?, marginPreset?, customPageSize?, customMargins?, columns?, scope? })\`: Set page size, margins and columns
+  - scope: \`document\` (default, all sections), \`section\` (section at the cursor), \`forward\` (new section from the cursor block, e.g. a landscape appendix)
   - Page size presets: A4, A4_LANDSCAPE, B5, B5_LANDSCAPE, LETTER, LETTER_LANDSCAPE, LEGAL
   - Margin presets: JP_COURT_25MM (Japanese court 25mm all sides), JP_COURT_30_20, WORD_DEFAULT, NARROW, WIDE
   - Custom: \`customPageSize: { widthMm, heightMm }\`, \`customMargins: { topMm, rightMm, bottomMm, leftMm }\`
   - Example for Japanese court: \`setPageLayout({ pageSizePreset: "A4", marginPreset: "JP_COURT_25MM" })\`
-- \`getPageLayout()\`: Get current page size and margins
+- \`getPageLayout()\`: Get current page size and margins (and each section's setup when the document has several)
 - Formatting: \`toggleHeading\`, \`toggleBold\`, \`setFontSize\`, etc.
 
 ## Markdown Conversion Guidelines
@@ -179,16 +191,26 @@ ${isLargeDoc ? `This is a large document (~${docStats.estimatedPages} pages). Fo
 ## Reading (any file)
 - \`listSpreadsheetSheets(path)\`: List sheets with dimensions
 - \`visualizeSpreadsheet(sheet?)\`: **USE THIS FIRST** to see the full spreadsheet layout/structure as an image. Call ONCE per sheet.
-- \`readSpreadsheet(range|cells, format?)\`: Read data as JSON/Markdown/CSV. Use \`format: 'json'\` for detailed cell data & merges. Default: 'markdown'. For efficiency, read up to 20x20 chunks at once rather than small areas.
+- \`readSpreadsheet(range|cells, format?)\`: Read data as JSON/Markdown/CSV. Use \`format: 'json'\` for detailed cell data & merges, \`format: 'formulas'\` for each formula with its current computed value. Default: 'markdown'. For efficiency, read up to 20x20 chunks at once rather than small areas.
+- \`traceSpreadsheetCell({ cell, direction?, depth? })\`: List the precedents (cells a formula reads) or dependents (formulas reading a cell) across sheets, with formulas and values
+  - Example: \`traceSpreadsheetCell({ cell: "Summary!D12", direction: "dependents" })\`
+- \`checkSpreadsheetFormulas({ sheet? })\`: Find error values (#DIV/0!, #N/A...) and where they originate, #REF!, references to missing sheets and circular references
 - \`loadPdf(path)\`: Load a PDF for multimodal analysis
 
 ## Writing XLSX (active file)
 - \`editSpreadsheet({ edits })\`: Edit individual cells
   - Example: \`editSpreadsheet({ edits: [{ cell: "A1", value: "Hello" }] })\`
+  - Cells with data validation (e.g. status dropdowns) only take allowed values: rejected edits are reported with the allowed options; use one of them exactly
+  - After writing formulas, check their results with \`readSpreadsheet({ range, format: 'formulas' })\` and run \`checkSpreadsheetFormulas\`
 - \`insertRow({ data, rowIndex? })\`: Insert row with data at position or end
   - Example: \`insertRow({ data: ["Col A", "Col B", "Col C"], rowIndex: 5 })\`
 - \`deleteRow({ rowIndex })\`: Clear a row's data
   - Example: \`deleteRow({ rowIndex: 3 })\`
+- \`formatSpreadsheet({ range, conditionalFormat })\`: Add a conditional formatting rule (kept in the file)
+  - Example (overdue dates in red): \`formatSpreadsheet({ range: "D2:D100", conditionalFormat: { condition: "formula", value: "=D2<TODAY()", textColor: "#9C0006", cellColor: "#FFC7CE" } })\`
+  - Other conditions: greaterThan, lessThan, between, equal, textContains, duplicateValue, top10, aboveAverage, dataBar, colorScale
+- \`createChart({ range, type, title?, position? })\`: Insert a column, bar, line or pie chart bound to a table of cells (first column = labels, other columns = series, first row = series names)
+  - Example: \`createChart({ range: "A1:C13", type: "line", title: "Monthly revenue" })\`
 
 # Strategy for Large Spreadsheets
 1. Call \`listSpreadsheetSheets\` to see available sheets
@@ -244,6 +266,7 @@ After calling loadPdf, the PDF content will be available in your NEXT response,
 - \`loadPdf(path)\`: Load a PDF into AI context for multimodal analysis
 - \`readLibraryFile(name)\`: Read content of a library file
 - \`listSpreadsheetSheets(path)\`: For xlsx files, list sheets first
+- \`compareDocuments(originalPath, revisedPath, author?)\`: Redline two DOCX versions into a new tab
 
 Note: No active editable file. Open a DOCX or XLSX to enable editing.
 
@@ -8,7 +8,8 @@ import {
     getSpreadsheetTools,
     getReviewTools,
     getSearchTools,
-    getPdfTools
+    getPdfTools,
+    getCompareTools
 } from '@/tools';
 import { getLibraryTools } from './library-tools';
 import { FileType } from './types';
@@ -28,6 +29,7 @@ export function getToolsForFileType(context: ToolContext, activeFileType: FileTy
     tools.push(...getSpreadsheetTools(context));       // listSpreadsheetSheets, createSpreadsheet
     tools.push(...getLibraryTools(context));           // readLibraryFile
     tools.push(...getPdfTools(context));               // loadPdf
+    tools.push(...getCompareTools(context));           // compareDocuments (redline two DOCX files)
 
     // WRITE TOOLS: Based on active file type
     if (activeFileType === 'docx') {
@@ -38,10 +40,10 @@ export function getToolsForFileType(context: ToolContext, activeFileType: FileTy
     }
 
     if (activeFileType === 'xlsx') {
-        // Filter content tools for xlsx-specific ones (edit and format)
+        // Filter content tools for xlsx-specific ones (edit, format and charts)
         const contentTools = getContentTools(context);
         const xlsxWriteTools = contentTools.filter(t =>
-            ['editSpreadsheet', 'formatSpreadsheet'].includes(t.function.name)
+            ['editSpreadsheet', 'formatSpreadsheet', 'createChart'].includes(t.function.name)
         );
         tools.push(...xlsxWriteTools);
     }
@@ -2,6 +2,11 @@
 import { RefObject } from 'react';
 import { SuperDoc } from '@harbour-enterprises/superdoc';
 import { FileSystemItem, EditorTab } from '@/types';
+import type { SpreadsheetChart } from '@/lib/xlsx/charts';
+import type { ConditionFormatRule } from '@/lib/xlsx/conditionalFormat';
+import type { ValidationFailure } from '@/lib/xlsx/dataValidation';
+import type { EditorSheet } from '@/lib/xlsx/formulas';
+import type { ModelRole, TokenUsage } from '@/lib/ai/types';
 
 /** Supported file types for the agent */
 export type FileType = 'docx' | 'xlsx' | 'txt' | 'pdf' | null;
@@ -32,14 +37,32 @@ export interface UniversalAgentConfig {
     setVoiceToolHandler?: (handler: ((name: string, args: Record<string, unknown>) => Promise<string>) | null) => void;
     /** XLSX specific: callback for live cell updates. Options can be boolean (isNumber) for backwards compat or object with isNumber, isFormula, style */
     setCellValue?: (cell: string, value: string | number, sheetName?: string, options?: boolean | { isNumber?: boolean; isFormula?: boolean; style?: Record<string, unknown> }) => void;
+    /** XLSX specific: callback to add a conditional formatting rule to a sheet (the active sheet by default) */
+    addConditionalFormat?: (rule: ConditionFormatRule, sheetName?: string) => boolean;
+    /** XLSX specific: callback to check a value against the data validation of a cell (null when it is accepted) */
+    checkDataValidation?: (cell: string, value: string | number, sheetName?: string) => ValidationFailure | null;
+    /** XLSX specific: callback to add a chart to a sheet (the active sheet by default), built for that sheet's name */
+    addChart?: (createChart: (sheetName: string) => SpreadsheetChart, sheetName?: string) => boolean;
+    /** XLSX specific: callback to replace the conditional formatting rules of a sheet, as when reverting a turn */
+    setConditionalFormats?: (rules: ConditionFormatRule[], sheetName: string) => boolean;
+    /** XLSX specific: callback to replace the charts of a sheet, as when reverting a turn */
+    setCharts?: (charts: SpreadsheetChart[], sheetName: string) => boolean;
     /** Callback to open a file in the editor (switches active file) */
     openFileInEditor?: (path: string) => Promise<boolean>;
     /** Callback to add a new file to the workspace (after creating a new file) */
     addFileToWorkspace?: (handle: FileSystemFileHandle) => void;
+    /** Callback to open an in-memory file (e.g. a document comparison) in a new editor tab */
+    openGeneratedFile?: (file: File) => void;
     /** Callback to register a loaded PDF file_id for injection into next message */
     addLoadedPdfFile?: (file: { file_id: string; filename: string }) => void;
     /** Callback to register a loaded Image file_id for injection into next message */
     addLoadedImageFile?: (file: { file_id: string; filename: string }) => void;
     /** Callback to get the current workbook instance (for live data access) */
     getWorkbook?: () => any;
+    /** XLSX specific: callback to get the live sheets, with the values the editor last computed */
+    getSheets?: () => EditorSheet[] | undefined;
+    /** Callback receiving the token usage of each sub-agent model call */
+    reportUsage?: (role: ModelRole, usage: TokenUsage) => void;
+    /** Why sub-agents must stop before their next model call (e.g. a spent token budget), or null to go on */
+    checkBudget?: () => string | null;
 }
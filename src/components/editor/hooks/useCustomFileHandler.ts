@@ -22,7 +22,8 @@ export function useCustomFileHandler(
             isSaving
         });
 
-        if (!editorRef.current || !handle || isSaving) {
+        // Generated documents (e.g. comparisons) have no handle and are saved as a download
+        if (!editorRef.current || isSaving) {
             console.log('[useCustomFileHandler] saveFile skipped - missing requirements');
             return;
         }
@@ -2,7 +2,11 @@
 
 import { useEffect, useState, useRef, useCallback } from 'react';
 import * as XLSX from 'xlsx-js-style';
+import JSZip from 'jszip';
 import { XMLParser } from 'fast-xml-parser';
+import { readCharts, SpreadsheetChart } from '@/lib/xlsx/charts';
+import { ConditionFormatRule, readConditionalFormats } from '@/lib/xlsx/conditionalFormat';
+import { DataValidationRule, DataVerificationItem, expandDataValidations, readDataValidations } from '@/lib/xlsx/dataValidation';
 
 // FortuneSheet cell style type (styles go directly in the v object)
 export interface CellStyle {
@@ -80,8 +84,16 @@ export interface SheetConfig {
     borderInfo?: BorderInfo[];
 }
 
+// Fortune-sheet formula chain entry; only cells listed here are recalculated when their inputs change
+export interface CalcChainItem {
+    r: number;
+    c: number;
+    id: string;
+}
+
 // Fortune-sheet compatible sheet data type
 export interface SheetData {
+    id?: string;
     name: string;
     celldata?: CellData[];
     config?: SheetConfig;
@@ -89,6 +101,10 @@ export interface SheetData {
     column?: number;
     defaultRowHeight?: number;
     defaultColWidth?: number;
+    luckysheet_conditionformat_save?: ConditionFormatRule[];
+    dataVerification?: Record<string, DataVerificationItem>;
+    charts?: SpreadsheetChart[];
+    calcChain?: CalcChainItem[];
 }
 
 /** Options for setCellValue */
@@ -280,10 +296,26 @@ export function useFortuneSheet(file: File): UseFortuneSheetResult {
                     return styleMap[borderStyle || 'thin'] || 1;
                 };
 
+                // Conditional formatting, data validation and charts are not parsed by SheetJS; read them from the package
+                let conditionFormats: Record<string, ConditionFormatRule[]> = {};
+                let dataValidations: Record<string, DataValidationRule[]> = {};
+                let charts: Record<string, SpreadsheetChart[]> = {};
+                try {
+                    const zip = await JSZip.loadAsync(arrayBuffer);
+                    conditionFormats = await readConditionalFormats(zip, toHexColor);
+                    dataValidations = await readDataValidations(zip);
+                    charts = await readCharts(zip);
+                } catch (err) {
+                    console.warn('[useFortuneSheet] Failed to read conditional formatting, data validation and charts:', err);
+                }
+
                 // Convert each sheet to Fortune-sheet format
-                const fortuneSheets: SheetData[] = workbook.SheetNames.map((sheetName) => {
+                const fortuneSheets: SheetData[] = workbook.SheetNames.map((sheetName, sheetIndex) => {
                     const worksheet = workbook.Sheets[sheetName];
+                    // Fixed ids so formula cells can be registered in the calc chain before the Workbook mounts
+                    const sheetId = `sheet-${sheetIndex}`;
                     const celldata: CellData[] = [];
+                    const calcChain: CalcChainItem[] = [];
                     const config: SheetConfig = {};
 
                     // Get the range of the worksheet
@@ -360,11 +392,16 @@ export function useFortuneSheet(file: File): UseFortuneSheetResult {
                                 };
 
                                 if (cell.f) {
-                                    cellValue.f = cell.f;
+                                    // SheetJS drops the leading '=' that Fortune-sheet's evaluator expects
+                                    cellValue.f = `=${cell.f}`;
+                                    calcChain.push({ r: row, c: col, id: sheetId });
                                 }
 
                                 if (cell.z) {
                                     cellValue.ct = { fa: cell.z, t: cell.t };
+                                } else if (cell.t === 'n') {
+                                    // Data bars, color scales and top/average rules only consider cells typed as numbers
+                                    cellValue.ct = { fa: 'General', t: 'n' };
                                 }
 
                                 // Check if this cell is part of a merge
@@ -502,14 +539,24 @@ export function useFortuneSheet(file: File): UseFortuneSheetResult {
 
                     console.log(`[useFortuneSheet] Sheet "${sheetName}": ${celldata.length} cells`);
 
+                    const rowCount = Math.max(range.e.r + 1, 50);
+                    const columnCount = Math.max(range.e.c + 1, 26);
+
                     return {
+                        id: sheetId,
                         name: sheetName,
                         celldata,
                         config: Object.keys(config).length > 0 ? config : undefined,
-                        row: Math.max(range.e.r + 1, 50),
-                        column: Math.max(range.e.c + 1, 26),
+                        row: rowCount,
+                        column: columnCount,
                         defaultRowHeight: 20,
                         defaultColWidth: 73,
+                        luckysheet_conditionformat_save: conditionFormats[sheetName],
+                        dataVerification: dataValidations[sheetName]
+                            ? expandDataValidations(dataValidations[sheetName], rowCount, columnCount)
+                            : undefined,
+                        charts: charts[sheetName],
+                        calcChain: calcChain.length > 0 ? calcChain : undefined,
                     };
                 });
 
@@ -15,9 +15,16 @@ import { AIActions, createAIProvider } from '@superdoc-dev/ai';
 import { ChatMessage, AgentEvent, Attachment } from '@/types';
 
 import { UniversalAgentConfig } from './universal-agent/types';
-import { detectFileType, buildToolContext } from './universal-agent/context';
+import { detectFileType, buildToolContext, getDocumentEditor } from './universal-agent/context';
 import { getToolsForFileType } from './universal-agent/tools';
 import { buildSystemPrompt } from './universal-agent/prompts';
+import { runAgentLoop } from './universal-agent/agentLoop';
+import { recordTurn } from './universal-agent/checkpoints';
+import { waitForApproval } from './universal-agent/approvals';
+import { ConversationItem } from '@/lib/ai/types';
+import { loadModelSettings, resolveModel, rolePricing } from '@/lib/ai/settings';
+import { loadToolPolicies, toolPolicy } from '@/lib/ai/toolPolicy';
+import { budgetExceeded, loadUsageBudget, sessionUsage, totalTokens, turnTokens, usageCost } from '@/lib/ai/usage';
 
 // Re-export types for consumers
 export type { UniversalAgentConfig, FileType } from './universal-agent/types';
@@ -103,9 +110,16 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
         setAIActionHandler,
         setVoiceToolHandler,
         setCellValue,
+        addConditionalFormat,
+        checkDataValidation,
+        addChart,
+        setConditionalFormats,
+        setCharts,
         openFileInEditor,
         addFileToWorkspace,
-        getWorkbook
+        openGeneratedFile,
+        getWorkbook,
+        getSheets
     } = config;
 
     const activeFileType = config.activeFileType || detectFileType(activeFilePath);
@@ -131,6 +145,13 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
         loadedImageFilesRef.current.push(file);
     }, []);
 
+    // Runs in progress, cancelled with their approval waits when the editor unmounts
+    const runControllersRef = useRef(new Set<AbortController>());
+    useEffect(() => {
+        const controllers = runControllersRef.current;
+        return () => controllers.forEach(controller => controller.abort());
+    }, []);
+
     // Determine which editor mode we're in
     const usingSuperDoc = !!superdocRef?.current;
     const usingCustomEditor = !!customEditorRef?.current;
@@ -227,11 +248,44 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
             return;
         }
 
+        // Document, cell and sheet edits of this turn, so its message can revert them
+        let turn: ReturnType<typeof recordTurn> | undefined;
+        const controller = new AbortController();
+        runControllersRef.current.add(controller);
+
         try {
             if (aiActionsRef.current) {
                 await aiActionsRef.current.waitUntilReady();
             }
 
+            // Tokens of this turn, from the agent loop and from the sub-agents of its tools, costed at each role's model pricing
+            const modelSettings = await loadModelSettings();
+            let usedTokens = 0;
+            const trackUsage = (event: AgentEvent) => {
+                if (event.type === 'usage') {
+                    usedTokens += totalTokens(event.usage);
+                    onUpdate({ ...event, cost: usageCost(event.usage, rolePricing(modelSettings, event.source)) });
+                    return;
+                }
+                onUpdate(event);
+            };
+
+            // The budget is checked before each model call of the loop, each tool call and each sub-agent batch
+            const budget = await loadUsageBudget();
+            const previousTokens = totalTokens(turnTokens(sessionUsage(history)));
+            const checkBudget = () => budgetExceeded(budget, usedTokens, previousTokens + usedTokens);
+
+            turn = recordTurn({
+                getEditor: () => getDocumentEditor({ superdocRef, customEditorRef }),
+                getSheets,
+                setCellValue,
+                addConditionalFormat,
+                setConditionalFormats,
+                addChart,
+                setCharts,
+                addFileToWorkspace
+            });
+
             // Build tool context
             const contextConfig: UniversalAgentConfig = {
                 superdocRef,
@@ -243,18 +297,24 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
                 workspaceFiles,
                 openTabs,
                 setAIActionHandler,
-                setCellValue,
+                setCellValue: turn.setCellValue,
+                addConditionalFormat: turn.addConditionalFormat,
+                checkDataValidation,
+                addChart: turn.addChart,
                 openFileInEditor,
-                addFileToWorkspace,
+                addFileToWorkspace: turn.addFileToWorkspace,
+                openGeneratedFile,
                 addLoadedPdfFile,
                 addLoadedImageFile,
-                getWorkbook
+                getWorkbook,
+                getSheets,
+                reportUsage: (source, usage) => trackUsage({ type: 'usage', source, usage, timestamp: Date.now() }),
+                checkBudget
             };
             const context = buildToolContext(contextConfig, aiActionsRef.current);
 
             // Get tools based on file type
             const toolDefinitions = getToolsForFileType(context, activeFileType);
-            const tools = toolDefinitions.map(t => ({ type: t.type, function: t.function }));
 
             // Get document stats for DOCX
             let docStats: { charCount: number; blockCount: number; estimatedPages: number } | undefined;
@@ -297,15 +357,11 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
                 console.log('[UniversalAgent] listFolder tool definition:', JSON.stringify(listFolderTool.function, null, 2));
             }
 
-            // Initialize OpenAI client
-            const OpenAI = (await import('openai')).default;
-            const client = new OpenAI({
-                apiKey: 'dummy',
-                baseURL: window.location.origin + '/api/ai',
-                dangerouslyAllowBrowser: true
-            });
+            // Provider and model chosen for the main agent in the model settings
+            const { provider, model } = await resolveModel('agent');
+            const toolPolicies = await loadToolPolicies();
 
-            console.log('[UniversalAgent] handleAiAction called, fileType:', activeFileType);
+            console.log('[UniversalAgent] handleAiAction called, fileType:', activeFileType, 'provider:', provider.kind, 'model:', model);
 
             // Truncate tool output helper - increased for long document handling
             const truncateToolOutput = (content: string, maxLength: number = 20000) => {
@@ -314,7 +370,7 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
             };
 
             // Build messages array
-            const messages: any[] = [
+            const messages: ConversationItem[] = [
                 { type: 'message', role: 'system', content: systemPrompt },
                 ...history.flatMap(msg => {
                     const items: any[] = [];
@@ -367,199 +423,77 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
                 loadedImageFilesRef.current = [];
             }
 
-            // Convert tools to Responses API format
-            const responsesApiTools = tools.map((t: any) => ({
-                type: 'function' as const,
-                name: t.function.name,
-                description: t.function.description,
-                parameters: t.function.parameters,
-                strict: false
-            }));
-
-            // ReAct Loop - increased for comprehensive contract review tasks
-            let loopCount = 0;
-            const MAX_LOOPS = 200;
+            // Files the tools loaded during a round are sent before the next model call
+            const takeLoadedFiles = (): ConversationItem[] => {
+                const items: ConversationItem[] = [];
 
-            let previousResponseId: string | undefined;
-
-            // Log the first message to debug
-            console.log('[UniversalAgent] Messages to send:', JSON.stringify(messages.slice(0, 3), null, 2));
-            console.log('[UniversalAgent] Tools count:', responsesApiTools.length);
-
-            while (loopCount < MAX_LOOPS) {
-                loopCount++;
-
-                const stream = await client.responses.create({
-                    model: 'gpt-5-mini', // or whatever is used
-                    input: messages as any,
-                    tools: responsesApiTools,
-                    stream: true,
-                    parallel_tool_calls: true,
-                    previous_response_id: previousResponseId,
-                    reasoning: { summary: 'auto', effort: 'medium' },
-                    text: {
-                        verbosity: 'low'
-                    },
-                    // Force tool usage for @ mentions - don't ask clarifying questions
-                    instructions: 'When you see @ mentions (like @folder or @file), ALWAYS use a tool immediately. For folders, use listFolder(). For files, use readFile() or loadPdf(). NEVER ask clarifying questions - just use the tool and report results.'
-                });
-
-                let finalContent = '';
-                const toolCallsMap: Record<string, { id: string; name: string; args: string }> = {};
-
-                for await (const event of stream) {
-                    // Handle reasoning
-                    if (event.type === 'response.reasoning_summary_text.delta') {
-                        onUpdate({ type: 'reasoning_delta', content: (event as any).delta || '', timestamp: Date.now() });
-                    }
-
-                    // Handle content
-                    if (event.type === 'response.output_text.delta') {
-                        const delta = (event as any).delta || '';
-                        finalContent += delta;
-                        onUpdate({ type: 'content_delta', content: delta, timestamp: Date.now() });
-                    }
-
-                    // Handle function calls
-                    if (event.type === 'response.output_item.added') {
-                        const item = (event as any).item;
-                        if (item?.type === 'function_call') {
-                            const callId = item.call_id || item.id || `call_${Date.now()}`;
-                            toolCallsMap[callId] = { id: callId, name: item.name || '', args: item.arguments || '' };
-                            onUpdate({ type: 'tool_start', id: callId, name: item.name || '', args: {}, timestamp: Date.now() });
-                        }
-                    }
-
-                    if (event.type === 'response.output_item.done') {
-                        const item = (event as any).item || event;
-                        if (item?.type === 'function_call' || (event as any).call_id) {
-                            const callId = item.call_id || (event as any).call_id || item.id;
-                            if (callId) {
-                                if (!toolCallsMap[callId]) {
-                                    toolCallsMap[callId] = { id: callId, name: item.name || '', args: '' };
-                                }
-                                if (item.arguments) toolCallsMap[callId].args = item.arguments;
-                                if (item.name && !toolCallsMap[callId].name) toolCallsMap[callId].name = item.name;
-                            }
-                        }
-                    }
-
-                    if (event.type === 'response.function_call_arguments.delta') {
-                        const callId = (event as any).call_id || (event as any).item_id;
-                        if (callId && toolCallsMap[callId]) {
-                            toolCallsMap[callId].args += (event as any).delta || '';
-                        }
-                    }
-
-                    if (event.type === 'response.function_call_arguments.done') {
-                        const callId = (event as any).call_id || (event as any).item_id;
-                        if (callId && toolCallsMap[callId]) {
-                            toolCallsMap[callId].args = (event as any).arguments || '';
-                        }
-                    }
-
-                    if ((event as any).type === 'response.done') {
-                        previousResponseId = (event as any).response?.id;
-                    }
-                }
-
-                if (finalContent) {
-                    messages.push({ type: 'message', role: 'assistant', content: finalContent });
-                }
-
-                const completedToolCalls = Object.values(toolCallsMap);
-
-                if (completedToolCalls.length === 0) {
-                    onUpdate({ type: 'run_completed', timestamp: Date.now() });
-                    break;
-                }
-
-                // Execute tool calls in parallel for faster processing
-                // First, add all function_call entries to messages
-                for (const tc of completedToolCalls) {
-                    messages.push({ type: 'function_call', call_id: tc.id, name: tc.name, arguments: tc.args });
-                }
-
-                // Execute all tools in parallel
-                const toolResults = await Promise.all(
-                    completedToolCalls.map(async (tc) => {
-                        const toolDef = toolDefinitions.find(t => t.function.name === tc.name);
-                        if (!toolDef) {
-                            return { tc, result: `Tool "${tc.name}" not found`, status: 'failure' as const, args: {} };
-                        }
-                        try {
-                            const args = JSON.parse(tc.args || '{}');
-                            const result = await toolDef.execute(args);
-                            return { tc, result: String(result), status: 'success' as const, args };
-                        } catch (error) {
-                            return { tc, result: 'Error: ' + String(error), status: 'failure' as const, args: {} };
-                        }
-                    })
-                );
-
-                // Add all function_call_output entries and send updates
-                for (const { tc, result, status, args } of toolResults) {
-                    onUpdate({ type: 'tool_result', id: tc.id, result, status, args, timestamp: Date.now() });
-                    messages.push({ type: 'function_call_output', call_id: tc.id, output: result });
-                }
-
-                // If any PDFs were loaded during this loop iteration, inject them for the next API call
                 if (loadedPdfFilesRef.current.length > 0) {
                     console.log('[UniversalAgent] Injecting', loadedPdfFilesRef.current.length, 'PDF(s) loaded during tool execution');
-
-                    // Add a message with the PDF files attached
-                    const pdfContent: any[] = loadedPdfFilesRef.current.map(pdf => ({
-                        type: 'input_file',
-                        file_id: pdf.file_id
-                    }));
-                    pdfContent.push({
-                        type: 'input_text',
-                        text: `[System: The following PDF file(s) have been loaded into your context: ${loadedPdfFilesRef.current.map(p => p.filename).join(', ')}. You can now analyze their content.]`
-                    });
-
-                    messages.push({
+                    items.push({
                         type: 'message',
                         role: 'user',
-                        content: pdfContent
+                        content: [
+                            ...loadedPdfFilesRef.current.map(pdf => ({ type: 'input_file' as const, file_id: pdf.file_id })),
+                            { type: 'input_text', text: `[System: The following PDF file(s) have been loaded into your context: ${loadedPdfFilesRef.current.map(p => p.filename).join(', ')}. You can now analyze their content.]` }
+                        ]
                     });
-
-                    // Clear the loaded PDFs
                     loadedPdfFilesRef.current = [];
                 }
 
-                // If any Images were loaded during this loop iteration
                 if (loadedImageFilesRef.current.length > 0) {
                     console.log('[UniversalAgent] Injecting', loadedImageFilesRef.current.length, 'Image(s) loaded during tool execution');
-
-                    // Add a message with the Image files attached
-                    const imgContent: any[] = loadedImageFilesRef.current.map(img => ({
-                        type: 'input_image',
-                        file_id: img.file_id
-                    }));
-                    imgContent.push({
-                        type: 'input_text',
-                        text: `[System: The following Image file(s) have been generated and loaded: ${loadedImageFilesRef.current.map(p => p.filename).join(', ')}. Analyze them.]`
-                    });
-
-                    messages.push({
+                    items.push({
                         type: 'message',
                         role: 'user',
-                        content: imgContent
+                        content: [
+                            ...loadedImageFilesRef.current.map(img => ({ type: 'input_image' as const, file_id: img.file_id })),
+                            { type: 'input_text', text: `[System: The following Image file(s) have been generated and loaded: ${loadedImageFilesRef.current.map(p => p.filename).join(', ')}. Analyze them.]` }
+                        ]
                     });
-
-                    // Clear the loaded Images
                     loadedImageFilesRef.current = [];
                 }
-            }
 
-            onUpdate({ type: 'run_completed', timestamp: Date.now() });
+                return items;
+            };
+
+            // Log the first message to debug
+            console.log('[UniversalAgent] Messages to send:', JSON.stringify(messages.slice(0, 3), null, 2));
+            console.log('[UniversalAgent] Tools count:', toolDefinitions.length);
+
+            await runAgentLoop({
+                provider,
+                model,
+                input: messages,
+                tools: toolDefinitions,
+                onUpdate: trackUsage,
+                takePendingInput: takeLoadedFiles,
+                toolPolicy: name => toolPolicy(toolPolicies, name),
+                waitForApproval,
+                signal: controller.signal,
+                checkBudget,
+                // Force tool usage for @ mentions - don't ask clarifying questions
+                instructions: 'When you see @ mentions (like @folder or @file), ALWAYS use a tool immediately. For folders, use listFolder(). For files, use readFile() or loadPdf(). NEVER ask clarifying questions - just use the tool and report results.'
+            });
         } catch (err) {
-            console.error('[UniversalAgent] Error:', err);
-            onUpdate({ type: 'content_delta', content: '\n[Error: ' + String(err) + ']', timestamp: Date.now() });
+            // A cancelled run ends without an error of its own
+            if (!controller.signal.aborted) {
+                console.error('[UniversalAgent] Error:', err);
+                onUpdate({ type: 'content_delta', content: '\n[Error: ' + String(err) + ']', timestamp: Date.now() });
+            }
             onUpdate({ type: 'run_completed', timestamp: Date.now() });
+        } finally {
+            runControllersRef.current.delete(controller);
+            const checkpointId = turn?.finish();
+            if (checkpointId) {
+                onUpdate({ type: 'checkpoint', checkpointId, timestamp: Date.now() });
+            }
         }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [isReady, activeFileType, superdocRef, customEditorRef, workspaceFiles, activeFilePath, activeFileHandle, setCellValue, usingSuperDoc, usingCustomEditor]);
+    }, [
+        isReady, activeFileType, superdocRef, customEditorRef, workspaceFiles, activeFilePath, activeFileHandle, openTabs,
+        setCellValue, getSheets, getWorkbook, addConditionalFormat, checkDataValidation, addChart, setConditionalFormats, setCharts,
+        usingSuperDoc, usingCustomEditor,
+        addFileToWorkspace, addLoadedImageFile, addLoadedPdfFile, openFileInEditor, openGeneratedFile, setAIActionHandler,
+    ]);
 
     // Store handleAiAction in a ref to avoid dependency issues
     const handleAiActionRef = useRef(handleAiAction);
@@ -631,8 +565,12 @@ export function useUniversalAgent(config: UniversalAgentConfig) {
             setAIActionHandler,
             setVoiceToolHandler,
             setCellValue,
+            addConditionalFormat,
+            checkDataValidation,
+            addChart,
             openFileInEditor,
-            addFileToWorkspace
+            addFileToWorkspace,
+            openGeneratedFile
         };
         const context = buildToolContext(contextConfig, aiActionsRef.current);
         const toolDefinitions = getToolsForFileType(context, activeFileType);
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { latexToMathml } from '../../../lib/docx/omml';
+
+export interface MathInputPopoverData {
+    pos: number;
+    x: number;
+    y: number;
+    latex: string;
+    display: boolean;
+}
+
+interface MathInputPopoverProps {
+    data: MathInputPopoverData | null;
+    onApply: (latex: string) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Popover for editing the selected equation in linear form (\frac{a}{b}, x^{2}, \sqrt{x}, \sum_{i=1}^{n}{i}, ...)
+ * with a live preview.
+ */
+export const MathInputPopover: React.FC<MathInputPopoverProps> = ({
+    data,
+    onApply,
+    onCancel,
+}) => {
+    const [latex, setLatex] = useState('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        // eslint-disable-next-line react-hooks/set-state-in-effect
+        setLatex(data?.latex || '');
+        if (data) inputRef.current?.focus();
+    }, [data]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            onApply(latex);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+        }
+    };
+
+    if (!data) return null;
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                left: `${data.x}px`,
+                top: `${data.y}px`,
+                zIndex: 1000,
+                backgroundColor: '#ffffff',
+                border: '1px solid #e1dfdd',
+                borderRadius: '8px',
+                padding: '12px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+                width: '360px',
+            }}
+            data-math-input-popover
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div style={{
+                fontSize: '13px',
+                fontWeight: 600,
+                color: '#323130',
+                marginBottom: '8px',
+            }}>
+                数式の編集
+            </div>
+            <input
+                ref={inputRef}
+                value={latex}
+                onChange={(e) => setLatex(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="例: x = \frac{-b \pm \sqrt{b^2 - 4ac}}{2a}"
+                spellCheck={false}
+                style={{
+                    width: '100%',
+                    padding: '8px',
+                    border: '1px solid #e1dfdd',
+                    borderRadius: '4px',
+                    fontSize: '13px',
+                    fontFamily: 'monospace',
+                    outline: 'none',
+                    backgroundColor: '#ffffff',
+                    color: '#323130',
+                    boxSizing: 'border-box',
+                }}
+            />
+            <div
+                style={{
+                    minHeight: '32px',
+                    marginTop: '8px',
+                    padding: '8px',
+                    backgroundColor: '#faf9f8',
+                    borderRadius: '4px',
+                    textAlign: 'center',
+                    overflowX: 'auto',
+                }}
+                dangerouslySetInnerHTML={{ __html: latex.trim() ? latexToMathml(latex, data.display) : '' }}
+            />
+            <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '8px',
+                marginTop: '8px',
+            }}>
+                <span style={{ fontSize: '11px', color: '#a19f9d' }}>Enter で確定 / Esc で取り消し</span>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                        onClick={onCancel}
+                        style={{
+                            padding: '6px 12px',
+                            backgroundColor: 'transparent',
+                            border: '1px solid #e1dfdd',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            color: '#605e5c',
+                        }}
+                    >
+                        キャンセル
+                    </button>
+                    <button
+                        onClick={() => onApply(latex)}
+                        style={{
+                            padding: '6px 12px',
+                            backgroundColor: '#0078d4',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            color: '#ffffff',
+                            fontWeight: 500,
+                        }}
+                    >
+                        適用
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -6,7 +6,7 @@ export interface TrackChangePopupData {
     visible: boolean;
     x: number;
     y: number;
-    type: 'insertion' | 'deletion';
+    type: 'insertion' | 'deletion' | 'format' | 'paragraphFormat' | 'moveFrom' | 'moveTo';
     author: string;
     date: string;
     content: string;
@@ -21,6 +21,15 @@ interface TrackChangePopupProps {
     onClose: () => void;
 }
 
+const CHANGE_LABELS: Record<TrackChangePopupData['type'], string> = {
+    insertion: '追加しました',
+    deletion: '削除しました',
+    format: '書式を変更しました',
+    paragraphFormat: '段落の書式を変更しました',
+    moveFrom: '移動しました (移動元)',
+    moveTo: '移動しました (移動先)',
+};
+
 /**
  * Popup for accepting/rejecting track changes
  */
@@ -105,7 +114,7 @@ export const TrackChangePopup: React.FC<TrackChangePopupProps> = ({
                     width: '28px',
                     height: '28px',
                     borderRadius: '50%',
-                    backgroundColor: data.type === 'insertion' ? '#9c27b0' : '#f44336',
+                    backgroundColor: data.type === 'insertion' ? '#9c27b0' : data.type === 'deletion' ? '#f44336' : '#2b579a',
                     color: '#fff',
                     display: 'flex',
                     alignItems: 'center',
@@ -124,7 +133,7 @@ export const TrackChangePopup: React.FC<TrackChangePopupProps> = ({
                         {data.comment ? (
                             <span style={{ color: '#FFC107', fontStyle: 'italic' }}>{data.comment}</span>
                         ) : (
-                            `${data.type === 'insertion' ? '追加しました' : '削除しました'}: ${data.content}`
+                            `${CHANGE_LABELS[data.type]}: ${data.content}`
                         )}
                     </div>
                 </div>
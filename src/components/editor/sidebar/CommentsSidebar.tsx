@@ -43,32 +43,64 @@ function pickBestCommentAnchor(candidates: HTMLElement[], viewportRect: DOMRect)
     return best?.el ?? null;
 }
 
+interface CommentReply {
+    id: string;
+    author: string;
+    date: string;
+    content: string;
+}
+
 interface Comment {
     id: string;
     author: string;
     date: string;
     content: string;
+    replies?: CommentReply[];
+    done?: boolean;
 }
 
 interface CommentPosition {
     id: string;
     top: number;
+    height: number;
 }
 
 interface CommentsSidebarProps {
     comments: Comment[];
     editor: Editor | null;
     onDeleteComment?: (commentId: string) => void;
+    onReplyComment?: (commentId: string, content: string) => void;
+    onResolveComment?: (commentId: string, done: boolean) => void;
     onCollapse?: () => void;
 }
 
+const Avatar: React.FC<{ name: string; size: number }> = ({ name, size }) => (
+    <div style={{
+        width: `${size}px`,
+        height: `${size}px`,
+        flexShrink: 0,
+        borderRadius: '50%',
+        backgroundColor: '#0078d4',
+        color: '#ffffff',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontSize: `${Math.round(size * 0.45)}px`,
+        fontWeight: 600,
+        marginRight: '8px',
+    }}>
+        {name.charAt(0).toUpperCase()}
+    </div>
+);
+
 /**
  * Sidebar displaying document comments aligned with their corresponding text
  * Comments are positioned to match the vertical position of the highlighted text
  * When multiple comments overlap or are close together, they stack with spacing
  */
-export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, editor, onDeleteComment, onCollapse }) => {
+export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, editor, onDeleteComment, onReplyComment, onResolveComment, onCollapse }) => {
     const [commentPositions, setCommentPositions] = useState<CommentPosition[]>([]);
+    const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
     const sidebarRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const rafIdRef = useRef<number | null>(null);
@@ -86,6 +118,7 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, edit
 
         const positions: CommentPosition[] = [];
         const MIN_GAP = 100; // Minimum gap between stacked comments (card height + margin)
+        const CARD_MARGIN = 8;
 
         comments.forEach((comment) => {
             // In paged mode, comments exist both in the real EditorContent and in cloned pages.
@@ -101,18 +134,21 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, edit
                 // Account for any scrolling in the editor
                 let targetTop = highlightRect.top - containerRect.top;
 
-                // Check for overlap with previous comments and stack if needed
+                // Check for overlap with previous comments and stack if needed (threads with replies are taller)
                 for (const prevPos of positions) {
                     const gap = targetTop - prevPos.top;
-                    if (gap >= 0 && gap < MIN_GAP) {
+                    const space = Math.max(MIN_GAP, prevPos.height + CARD_MARGIN);
+                    if (gap >= 0 && gap < space) {
                         // This comment would overlap with a previous one, push it down
-                        targetTop = prevPos.top + MIN_GAP;
+                        targetTop = prevPos.top + space;
                     }
                 }
 
+                const card = sidebarRef.current?.querySelector(`[data-comment-card-id="${comment.id}"]`) as HTMLElement | null;
                 positions.push({
                     id: comment.id,
                     top: targetTop,
+                    height: card?.offsetHeight ?? 0,
                 });
             }
         });
@@ -167,6 +203,13 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, edit
         };
     }, [calculatePositions, editor]);
 
+    const submitReply = (commentId: string) => {
+        const draft = (replyDrafts[commentId] || '').trim();
+        if (!draft || !onReplyComment) return;
+        onReplyComment(commentId, draft);
+        setReplyDrafts(prev => ({ ...prev, [commentId]: '' }));
+    };
+
     if (comments.length === 0) return null;
 
     return (
@@ -247,6 +290,7 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, edit
                                 padding: '12px',
                                 boxShadow: '0 1px 2px rgba(0,0,0,0.05)',
                                 transition: 'top 0.15s ease-out',
+                                opacity: comment.done ? 0.7 : 1,
                             }}
                         >
                             {/* Comment bubble pointer */}
@@ -271,6 +315,44 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, edit
                                 borderRight: '8px solid #ffffff',
                             }} />
 
+                            {/* Resolve / reopen button */}
+                            {onResolveComment && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onResolveComment(comment.id, !comment.done);
+                                    }}
+                                    style={{
+                                        position: 'absolute',
+                                        top: '8px',
+                                        right: onDeleteComment ? '32px' : '8px',
+                                        width: '20px',
+                                        height: '20px',
+                                        padding: 0,
+                                        border: 'none',
+                                        backgroundColor: 'transparent',
+                                        color: comment.done ? '#107c10' : '#a19f9d',
+                                        cursor: 'pointer',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        justifyContent: 'center',
+                                        fontSize: '13px',
+                                        lineHeight: 1,
+                                        borderRadius: '4px',
+                                        transition: 'background-color 0.15s, color 0.15s',
+                                    }}
+                                    onMouseEnter={(e) => {
+                                        e.currentTarget.style.backgroundColor = '#f3f2f1';
+                                    }}
+                                    onMouseLeave={(e) => {
+                                        e.currentTarget.style.backgroundColor = 'transparent';
+                                    }}
+                                    title={comment.done ? 'スレッドを再開' : 'スレッドを解決'}
+                                >
+                                    ✓
+                                </button>
+                            )}
+
                             {/* Delete button */}
                             {onDeleteComment && (
                                 <button
@@ -317,21 +399,7 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, edit
                                 alignItems: 'center',
                                 marginBottom: '8px',
                             }}>
-                                <div style={{
-                                    width: '24px',
-                                    height: '24px',
-                                    borderRadius: '50%',
-                                    backgroundColor: '#0078d4',
-                                    color: '#ffffff',
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'center',
-                                    fontSize: '11px',
-                                    fontWeight: 600,
-                                    marginRight: '8px',
-                                }}>
-                                    {comment.author.charAt(0).toUpperCase()}
-                                </div>
+                                <Avatar name={comment.author} size={24} />
                                 <div>
                                     <div style={{
                                         fontSize: '12px',
@@ -360,6 +428,77 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({ comments, edit
                             }}>
                                 {comment.content || '(No content)'}
                             </div>
+
+                            {/* Replies */}
+                            {(comment.replies || []).map((reply) => (
+                                <div
+                                    key={reply.id}
+                                    style={{
+                                        marginTop: '8px',
+                                        paddingLeft: '8px',
+                                        borderLeft: '2px solid #e1dfdd',
+                                    }}
+                                >
+                                    <div style={{ display: 'flex', alignItems: 'center', marginBottom: '4px' }}>
+                                        <Avatar name={reply.author} size={18} />
+                                        <span style={{ fontSize: '11px', fontWeight: 600, color: '#323130' }}>{reply.author}</span>
+                                        {reply.date && (
+                                            <span style={{ fontSize: '10px', color: '#605e5c', marginLeft: '6px' }}>
+                                                {new Date(reply.date).toLocaleDateString()}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div style={{ fontSize: '12px', color: '#323130', lineHeight: 1.4, whiteSpace: 'pre-wrap' }}>
+                                        {reply.content}
+                                    </div>
+                                </div>
+                            ))}
+
+                            {comment.done ? (
+                                <div style={{ marginTop: '8px', fontSize: '11px', color: '#107c10' }}>
+                                    解決済み
+                                </div>
+                            ) : onReplyComment && (
+                                <div style={{ display: 'flex', gap: '4px', marginTop: '8px' }}>
+                                    <input
+                                        value={replyDrafts[comment.id] || ''}
+                                        onChange={(e) => setReplyDrafts(prev => ({ ...prev, [comment.id]: e.target.value }))}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                                                e.preventDefault();
+                                                submitReply(comment.id);
+                                            }
+                                        }}
+                                        placeholder="返信..."
+                                        style={{
+                                            flex: 1,
+                                            minWidth: 0,
+                                            padding: '4px 6px',
+                                            border: '1px solid #e1dfdd',
+                                            borderRadius: '4px',
+                                            fontSize: '12px',
+                                            outline: 'none',
+                                            backgroundColor: '#ffffff',
+                                            color: '#323130',
+                                        }}
+                                    />
+                                    <button
+                                        onClick={() => submitReply(comment.id)}
+                                        disabled={!(replyDrafts[comment.id] || '').trim()}
+                                        style={{
+                                            padding: '4px 8px',
+                                            backgroundColor: (replyDrafts[comment.id] || '').trim() ? '#0078d4' : '#f3f2f1',
+                                            border: 'none',
+                                            borderRadius: '4px',
+                                            cursor: (replyDrafts[comment.id] || '').trim() ? 'pointer' : 'default',
+                                            fontSize: '12px',
+                                            color: (replyDrafts[comment.id] || '').trim() ? '#ffffff' : '#a19f9d',
+                                        }}
+                                    >
+                                        返信
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     );
                 })}
@@ -0,0 +1,278 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Editor } from '@tiptap/react';
+import {
+    TrackedChange,
+    TrackedChangeFilter,
+    TrackedChangeGroupBy,
+    TrackedChangeType,
+    collectTrackedChanges,
+    findLinkedMove,
+    formatTrackedChangeDate,
+    getTrackedChangeAuthors,
+    groupTrackedChanges,
+    matchesTrackedChangeFilter,
+    summarizeTrackedChange,
+} from '../custom-doc-editor/track-changes';
+
+interface TrackChangesPaneProps {
+    editor: Editor | null;
+    onCollapse?: () => void;
+}
+
+const CHANGE_TYPE_LABELS: Record<TrackedChangeType, { label: string; color: string }> = {
+    insertion: { label: '挿入', color: '#107c10' },
+    deletion: { label: '削除', color: '#a4262c' },
+    format: { label: '書式', color: '#2b579a' },
+    paragraphFormat: { label: '段落書式', color: '#2b579a' },
+    moveFrom: { label: '移動元', color: '#2e7d32' },
+    moveTo: { label: '移動先', color: '#2e7d32' },
+    rowInsertion: { label: '行の挿入', color: '#107c10' },
+    rowDeletion: { label: '行の削除', color: '#a4262c' },
+};
+
+const STRUCK_TYPES = new Set<TrackedChangeType>(['deletion', 'moveFrom', 'rowDeletion']);
+
+const smallButtonStyle: React.CSSProperties = {
+    padding: '2px 8px',
+    border: '1px solid #e1dfdd',
+    borderRadius: '4px',
+    backgroundColor: '#ffffff',
+    color: '#323130',
+    cursor: 'pointer',
+    fontSize: '11px',
+};
+
+const inputStyle: React.CSSProperties = {
+    height: '24px',
+    padding: '0 4px',
+    border: '1px solid #e1dfdd',
+    borderRadius: '4px',
+    fontSize: '11px',
+    color: '#323130',
+    backgroundColor: '#ffffff',
+    minWidth: 0,
+};
+
+/**
+ * Review pane listing every tracked insertion/deletion/move/formatting/table row change, grouped by author or day,
+ * with next/previous navigation and accept/reject per change, per group or for the filtered set
+ * (accepting or rejecting one side of a move resolves both)
+ */
+export const TrackChangesPane: React.FC<TrackChangesPaneProps> = ({ editor, onCollapse }) => {
+    const [changes, setChanges] = useState<TrackedChange[]>([]);
+    const [groupBy, setGroupBy] = useState<TrackedChangeGroupBy>('author');
+    const [author, setAuthor] = useState('');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+    const [activeId, setActiveId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!editor) return;
+        const refresh = () => setChanges(collectTrackedChanges(editor.state.doc));
+        refresh();
+        editor.on('update', refresh);
+        return () => {
+            editor.off('update', refresh);
+        };
+    }, [editor]);
+
+    const filter: TrackedChangeFilter = useMemo(() => ({
+        authors: author ? [author] : undefined,
+        dateFrom: dateFrom || undefined,
+        dateTo: dateTo || undefined,
+    }), [author, dateFrom, dateTo]);
+
+    const visibleChanges = useMemo(
+        () => changes.filter(change => matchesTrackedChangeFilter(change, filter)),
+        [changes, filter]
+    );
+    const groups = useMemo(() => groupTrackedChanges(visibleChanges, groupBy), [visibleChanges, groupBy]);
+    const authors = useMemo(() => getTrackedChangeAuthors(changes), [changes]);
+
+    const goTo = (change: TrackedChange) => {
+        if (!editor) return;
+        setActiveId(change.id);
+        editor.chain().focus().setTextSelection({ from: change.from, to: change.to }).scrollIntoView().run();
+    };
+
+    const step = (direction: 1 | -1) => {
+        if (!editor || visibleChanges.length === 0) return;
+        const cursor = editor.state.selection.from;
+        const target = direction === 1
+            ? visibleChanges.find(change => change.from > cursor) || visibleChanges[0]
+            : [...visibleChanges].reverse().find(change => change.to < cursor) || visibleChanges[visibleChanges.length - 1];
+        goTo(target);
+    };
+
+    const resolve = (action: 'accept' | 'reject', targets: TrackedChange[]) => {
+        if (!editor || targets.length === 0) return;
+        const ids = targets.map(change => change.id);
+        if (action === 'accept') {
+            editor.chain().focus().acceptTrackedChanges({ ids }).run();
+        } else {
+            editor.chain().focus().rejectTrackedChanges({ ids }).run();
+        }
+        setActiveId(null);
+    };
+
+    const groupLabel = (key: string) => {
+        if (groupBy === 'author') return key;
+        return key ? key.replace(/-/g, '/') : '日付なし';
+    };
+
+    return (
+        <div style={{
+            width: '300px',
+            flexShrink: 0,
+            borderLeft: '1px solid #e1dfdd',
+            backgroundColor: '#faf9f8',
+            display: 'flex',
+            flexDirection: 'column',
+            overflow: 'hidden',
+        }}>
+            <div style={{
+                padding: '8px 12px',
+                fontSize: '13px',
+                fontWeight: 600,
+                color: '#323130',
+                borderBottom: '1px solid #e1dfdd',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+            }}>
+                <span>変更履歴 ({visibleChanges.length}/{changes.length})</span>
+                {onCollapse && (
+                    <button
+                        onClick={onCollapse}
+                        style={{ ...smallButtonStyle, border: 'none', backgroundColor: 'transparent', color: '#605e5c' }}
+                        title="Collapse pane"
+                    >
+                        表示しない
+                    </button>
+                )}
+            </div>
+
+            {/* Filters and bulk actions */}
+            <div style={{ padding: '8px 12px', borderBottom: '1px solid #e1dfdd', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                    <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as TrackedChangeGroupBy)} style={{ ...inputStyle, flex: 1 }} title="グループ化">
+                        <option value="author">作成者ごと</option>
+                        <option value="date">日付ごと</option>
+                    </select>
+                    <select value={author} onChange={(e) => setAuthor(e.target.value)} style={{ ...inputStyle, flex: 1 }} title="作成者">
+                        <option value="">すべての作成者</option>
+                        {authors.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+                <div style={{ display: 'flex', gap: '4px', alignItems: 'center', fontSize: '11px', color: '#605e5c' }}>
+                    <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} style={{ ...inputStyle, flex: 1 }} title="開始日" />
+                    <span>〜</span>
+                    <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} style={{ ...inputStyle, flex: 1 }} title="終了日" />
+                </div>
+                <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                    <button onClick={() => step(-1)} style={smallButtonStyle} disabled={visibleChanges.length === 0}>◀ 前へ</button>
+                    <button onClick={() => step(1)} style={smallButtonStyle} disabled={visibleChanges.length === 0}>次へ ▶</button>
+                    <div style={{ marginLeft: 'auto', display: 'flex', gap: '6px' }}>
+                        <button
+                            onClick={() => resolve('accept', visibleChanges)}
+                            style={{ ...smallButtonStyle, color: '#107c10' }}
+                            disabled={visibleChanges.length === 0}
+                            title="表示中の変更をすべて承諾"
+                        >
+                            すべて承諾
+                        </button>
+                        <button
+                            onClick={() => resolve('reject', visibleChanges)}
+                            style={{ ...smallButtonStyle, color: '#a4262c' }}
+                            disabled={visibleChanges.length === 0}
+                            title="表示中の変更をすべて元に戻す"
+                        >
+                            すべて元に戻す
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div style={{ flex: 1, overflowY: 'auto', padding: '8px 12px' }}>
+                {groups.length === 0 && (
+                    <div style={{ fontSize: '12px', color: '#a19f9d', textAlign: 'center', marginTop: '16px' }}>
+                        変更履歴はありません
+                    </div>
+                )}
+                {groups.map(group => (
+                    <div key={group.key} style={{ marginBottom: '12px' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                            <span style={{ fontSize: '12px', fontWeight: 600, color: '#323130', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                {groupLabel(group.key)} ({group.changes.length})
+                            </span>
+                            <button onClick={() => resolve('accept', group.changes)} style={smallButtonStyle} title="このグループを承諾">✓</button>
+                            <button onClick={() => resolve('reject', group.changes)} style={smallButtonStyle} title="このグループを元に戻す">✕</button>
+                        </div>
+                        {group.changes.map(change => (
+                            <div
+                                key={change.id}
+                                onClick={() => goTo(change)}
+                                style={{
+                                    padding: '6px 8px',
+                                    marginBottom: '4px',
+                                    borderRadius: '4px',
+                                    backgroundColor: '#ffffff',
+                                    border: `1px solid ${change.id === activeId ? '#0078d4' : '#edebe9'}`,
+                                    cursor: 'pointer',
+                                    fontSize: '12px',
+                                }}
+                            >
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#605e5c', fontSize: '11px' }}>
+                                    <span style={{ color: CHANGE_TYPE_LABELS[change.type].color, fontWeight: 600 }}>
+                                        {CHANGE_TYPE_LABELS[change.type].label}
+                                    </span>
+                                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                        {groupBy === 'author' ? formatTrackedChangeDate(change.date) : change.author}
+                                    </span>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); resolve('accept', [change]); }}
+                                        style={{ ...smallButtonStyle, padding: '0 6px' }}
+                                        title="承諾"
+                                    >
+                                        ✓
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); resolve('reject', [change]); }}
+                                        style={{ ...smallButtonStyle, padding: '0 6px' }}
+                                        title="元に戻す"
+                                    >
+                                        ✕
+                                    </button>
+                                </div>
+                                <div style={{
+                                    marginTop: '4px',
+                                    color: '#323130',
+                                    textDecoration: STRUCK_TYPES.has(change.type) ? 'line-through' : 'none',
+                                    wordBreak: 'break-word',
+                                }}>
+                                    {summarizeTrackedChange(change)}
+                                </div>
+                                {findLinkedMove(changes, change) && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); goTo(findLinkedMove(changes, change)!); }}
+                                        style={{ ...smallButtonStyle, marginTop: '4px', color: '#2e7d32' }}
+                                        title="対応する移動箇所を表示"
+                                    >
+                                        {change.type === 'moveFrom' ? '移動先へ ▶' : '◀ 移動元へ'}
+                                    </button>
+                                )}
+                                {change.description && (
+                                    <div style={{ marginTop: '2px', color: '#2b579a', fontSize: '11px' }}>
+                                        {change.description}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
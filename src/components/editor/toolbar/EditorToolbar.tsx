@@ -8,14 +8,19 @@ import {
     Bold, Italic, Underline, Undo2, Redo2,
     AlignLeft, AlignCenter, AlignRight, AlignJustify,
     List, ListOrdered, Grid3x3, Image as ImageIcon, Ruler, FileText,
-    IndentIncrease, IndentDecrease, TextQuote, MessageSquare
+    IndentIncrease, IndentDecrease, TextQuote, MessageSquare, Superscript, Link2, ListTree,
+    BetweenHorizontalEnd, BetweenVerticalEnd, TableCellsMerge, TableCellsSplit, PaintBucket, Settings2, Sigma, History
 } from 'lucide-react';
 import { ToolbarButton } from './ToolbarButton';
 import { ColorPicker } from './ColorPicker';
 import { PageLayoutDialog } from './PageLayoutDialog';
 import { LineSpacingPicker } from './LineSpacingPicker';
+import { LinkPicker } from './LinkPicker';
 import { OverwriteConfirmationDialog } from './OverwriteConfirmationDialog';
+import { StyleDialog } from './StyleDialog';
+import { DEFAULT_STYLES, DocxStyle, getStyleHeadingLevel } from '../../../lib/docx/styles';
 import type { TrackChangesDisplayMode } from '../CustomDocEditor';
+import type { PageLayoutUpdate } from '../custom-doc-editor/types';
 
 interface EditorToolbarProps {
     editor: Editor | null;
@@ -25,12 +30,12 @@ interface EditorToolbarProps {
     trackChangesDisplayMode: TrackChangesDisplayMode;
     onTrackChangesDisplayModeChange: (mode: TrackChangesDisplayMode) => void;
     docAttrs?: any;
-    onPageLayoutChange?: (updates: {
-        pageSize?: { width: number; height: number };
-        pageMargins?: { top: number; right: number; bottom: number; left: number };
-    }) => void;
+    onPageLayoutChange?: (updates: PageLayoutUpdate) => void;
     showComments?: boolean;
     onToggleComments?: () => void;
+    showReviewPane?: boolean;
+    onToggleReviewPane?: () => void;
+    onStyleChange?: (style: DocxStyle) => void;
 }
 
 /**
@@ -47,6 +52,9 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
     onPageLayoutChange,
     showComments,
     onToggleComments,
+    showReviewPane,
+    onToggleReviewPane,
+    onStyleChange,
 }) => {
     const [showTextColorPicker, setShowTextColorPicker] = useState(false);
     const [showHighlightColorPicker, setShowHighlightColorPicker] = useState(false);
@@ -54,7 +62,10 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
     const [tableHoverSize, setTableHoverSize] = useState({ rows: 0, cols: 0 });
     const [showPageLayoutDialog, setShowPageLayoutDialog] = useState(false);
     const [showLineSpacingPicker, setShowLineSpacingPicker] = useState(false);
+    const [showLinkPicker, setShowLinkPicker] = useState(false);
+    const [showCellShadingPicker, setShowCellShadingPicker] = useState(false);
     const [showOverwriteConfirmDialog, setShowOverwriteConfirmDialog] = useState(false);
+    const [showStyleDialog, setShowStyleDialog] = useState(false);
     const { isOverwriteEnabled, setIsOverwriteEnabled } = useWorkspace();
 
     const handleOverwriteToggle = () => {
@@ -70,6 +81,29 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
         setShowOverwriteConfirmDialog(false);
     };
 
+    // Named paragraph styles of the document (a new document offers the writer's default styles)
+    const styles: DocxStyle[] = docAttrs?.styles?.length ? docAttrs.styles : DEFAULT_STYLES;
+    const paragraphStyles = styles.filter(style => style.type === 'paragraph');
+    const defaultStyleId = paragraphStyles.find(style => style.isDefault)?.styleId || 'Normal';
+    const currentStyleId = editor?.isActive('heading')
+        ? editor.getAttributes('heading').styleId || `Heading${editor.getAttributes('heading').level}`
+        : editor?.getAttributes('paragraph').styleId || defaultStyleId;
+    const currentStyle = paragraphStyles.find(style => style.styleId === currentStyleId) || null;
+
+    // Apply a paragraph style: heading styles turn the block into a heading of that level
+    const handleStyleSelect = (styleId: string) => {
+        if (!editor) return;
+        const style = paragraphStyles.find(s => s.styleId === styleId);
+        const level = style ? getStyleHeadingLevel(style) : null;
+        if (level) {
+            editor.chain().focus().setHeading({ level: level as 1 | 2 | 3 | 4 | 5 | 6 }).updateAttributes('heading', { styleId }).run();
+        } else {
+            editor.chain().focus().setParagraph().updateAttributes('paragraph', { styleId: style?.isDefault ? null : styleId }).run();
+        }
+    };
+
+    const styleLabel = (style: DocxStyle) => style.name.charAt(0).toUpperCase() + style.name.slice(1);
+
     // Indent/outdent functions
     const handleIndent = () => {
         if (!editor) return;
@@ -112,6 +146,41 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
                 />
             </div>
 
+            {/* Paragraph Style Group */}
+            <div style={{ display: 'flex', gap: '1px', paddingRight: '8px', borderRight: '1px solid #e5e7eb', alignItems: 'center' }}>
+                <select
+                    value={currentStyleId}
+                    onChange={(e) => handleStyleSelect(e.target.value)}
+                    style={{
+                        height: '28px',
+                        padding: '0 6px',
+                        borderRadius: '4px',
+                        border: '1px solid #d1d5db',
+                        fontSize: '13px',
+                        cursor: 'pointer',
+                        backgroundColor: '#fff',
+                        width: '120px',
+                        color: '#374151',
+                    }}
+                    title="スタイル"
+                >
+                    {paragraphStyles
+                        .filter(style => !style.hidden || style.styleId === currentStyleId)
+                        .map(style => (
+                            <option key={style.styleId} value={style.styleId}>{styleLabel(style)}</option>
+                        ))}
+                    {!currentStyle && <option value={currentStyleId}>{currentStyleId}</option>}
+                </select>
+                {onStyleChange && (
+                    <ToolbarButton
+                        isActive={showStyleDialog}
+                        onClick={() => currentStyle && setShowStyleDialog(true)}
+                        icon={Settings2}
+                        label="スタイルの変更"
+                    />
+                )}
+            </div>
+
             {/* Font Family & Size Group */}
             <div style={{ display: 'flex', gap: '4px', paddingRight: '8px', borderRight: '1px solid #e5e7eb', alignItems: 'center' }}>
                 <select
@@ -508,8 +577,93 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
                         label="Insert Image"
                     />
                 </div>
+                <div style={{ position: 'relative' }}>
+                    <ToolbarButton
+                        isActive={!!editor?.isActive('link') || showLinkPicker}
+                        onClick={() => {
+                            setShowLinkPicker(!showLinkPicker);
+                            setShowTablePicker(false);
+                        }}
+                        icon={Link2}
+                        label="リンクを挿入"
+                    />
+                    <LinkPicker
+                        isOpen={showLinkPicker}
+                        onClose={() => setShowLinkPicker(false)}
+                        editor={editor}
+                    />
+                </div>
+                <ToolbarButton
+                    isActive={false}
+                    onClick={() => editor?.chain().focus().insertFootnote().run()}
+                    icon={Superscript}
+                    label="脚注を挿入"
+                />
+                <ToolbarButton
+                    isActive={!!editor?.isActive('math')}
+                    onClick={() => editor?.chain().focus().insertMath().run()}
+                    icon={Sigma}
+                    label="数式を挿入"
+                />
+                <ToolbarButton
+                    isActive={!!editor?.isActive('tableOfContents')}
+                    onClick={() => {
+                        if (!editor) return;
+                        // Refresh existing tables of contents; insert one at the cursor when there is none
+                        if (!editor.commands.updateTableOfContents()) {
+                            editor.chain().focus().insertTableOfContents().run();
+                        }
+                    }}
+                    icon={ListTree}
+                    label="目次を挿入/更新"
+                />
             </div>
 
+            {/* Table Group (only while the cursor is in a table) */}
+            {editor?.isActive('table') && (
+                <div style={{ display: 'flex', gap: '1px', paddingRight: '8px', borderRight: '1px solid #e5e7eb', alignItems: 'center' }}>
+                    <ToolbarButton
+                        isActive={false}
+                        onClick={() => editor.chain().focus().addRowAfter().run()}
+                        icon={BetweenHorizontalEnd}
+                        label="下に行を挿入"
+                    />
+                    <ToolbarButton
+                        isActive={false}
+                        onClick={() => editor.chain().focus().addColumnAfter().run()}
+                        icon={BetweenVerticalEnd}
+                        label="右に列を挿入"
+                    />
+                    <ToolbarButton
+                        isActive={false}
+                        onClick={() => editor.chain().focus().mergeCells().run()}
+                        icon={TableCellsMerge}
+                        label="セルを結合"
+                    />
+                    <ToolbarButton
+                        isActive={false}
+                        onClick={() => editor.chain().focus().splitCell().run()}
+                        icon={TableCellsSplit}
+                        label="セルを分割"
+                    />
+                    <div style={{ position: 'relative' }}>
+                        <ToolbarButton
+                            isActive={showCellShadingPicker}
+                            onClick={() => setShowCellShadingPicker(!showCellShadingPicker)}
+                            icon={PaintBucket}
+                            label="セルの塗りつぶし"
+                        />
+                        <ColorPicker
+                            isOpen={showCellShadingPicker}
+                            onClose={() => setShowCellShadingPicker(false)}
+                            onSelectColor={(color) => editor.chain().focus().setCellAttribute('shading', color).run()}
+                            onClearColor={() => editor.chain().focus().setCellAttribute('shading', null).run()}
+                            clearLabel="塗りつぶしなし"
+                        />
+                    </div>
+                </div>
+            )}
+
             {/* View & Review Group */}
             <div style={{ display: 'flex', gap: '1px', paddingRight: '8px', borderRight: '1px solid #e5e7eb', alignItems: 'center' }}>
                 <ToolbarButton
@@ -530,6 +684,12 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
                     icon={MessageSquare}
                     label={showComments ? "コメントを隠す" : "コメントを表示"}
                 />
+                <ToolbarButton
+                    isActive={showReviewPane ?? false}
+                    onClick={onToggleReviewPane ?? (() => { })}
+                    icon={History}
+                    label={showReviewPane ? "変更履歴を隠す" : "変更履歴を表示"}
+                />
             </div>
 
             {/* Actions Group (No Right Border) */}
@@ -601,10 +761,22 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
                     isOpen={showPageLayoutDialog}
                     onClose={() => setShowPageLayoutDialog(false)}
                     docAttrs={docAttrs}
+                    editor={editor}
                     onApply={onPageLayoutChange}
                 />
             )}
 
+            {onStyleChange && (
+                <StyleDialog
+                    isOpen={showStyleDialog}
+                    onClose={() => setShowStyleDialog(false)}
+                    style={currentStyle}
+                    styles={styles}
+                    defaults={docAttrs?.styleDefaults}
+                    onApply={onStyleChange}
+                />
+            )}
+
             <OverwriteConfirmationDialog
                 isOpen={showOverwriteConfirmDialog}
                 onClose={() => setShowOverwriteConfirmDialog(false)}
@@ -0,0 +1,207 @@
+'use client';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState } from 'react';
+import { Editor } from '@tiptap/react';
+
+interface LinkPickerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    editor: Editor | null;
+}
+
+interface BookmarkOption {
+    name: string;
+    preview: string;
+}
+
+/**
+ * Collect bookmarks that can be used as internal link targets.
+ * Word's own hidden bookmarks (_GoBack) are skipped; _Toc/_Ref bookmarks are kept since cross-references use them.
+ */
+const getBookmarkOptions = (editor: Editor): BookmarkOption[] => {
+    const options: BookmarkOption[] = [];
+    editor.state.doc.descendants((node: any, pos: number) => {
+        if (node.type.name !== 'bookmarkStart' || !node.attrs.name || node.attrs.name === '_GoBack') return true;
+        const $pos = editor.state.doc.resolve(pos);
+        const preview = $pos.parent.textContent.substring(0, 40);
+        options.push({ name: node.attrs.name, preview });
+        return true;
+    });
+    return options;
+};
+
+/**
+ * Hyperlink popover: external URL or internal bookmark target for the selection
+ */
+export const LinkPicker: React.FC<LinkPickerProps> = ({
+    isOpen,
+    onClose,
+    editor,
+}) => {
+    if (!isOpen || !editor) return null;
+
+    // Mounted per opening so the URL field starts from the link under the cursor
+    return <LinkPickerMenu editor={editor} onClose={onClose} />;
+};
+
+const LinkPickerMenu: React.FC<{ editor: Editor; onClose: () => void }> = ({ editor, onClose }) => {
+    const currentHref: string = editor.getAttributes('link').href || '';
+    const [url, setUrl] = useState(currentHref.startsWith('#') ? '' : currentHref);
+
+    const bookmarks = getBookmarkOptions(editor);
+
+    const handleApplyUrl = () => {
+        const href = url.trim();
+        if (!href) return;
+        editor.chain().focus().extendMarkRange('link').setLink({ href }).run();
+        onClose();
+    };
+
+    const handleSelectBookmark = (name: string) => {
+        editor.chain().focus().extendMarkRange('link').setBookmarkLink(name).run();
+        onClose();
+    };
+
+    const handleRemoveLink = () => {
+        editor.chain().focus().extendMarkRange('link').unsetLink().run();
+        onClose();
+    };
+
+    return (
+        <>
+            {/* Backdrop */}
+            <div
+                style={{
+                    position: 'fixed',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    zIndex: 99,
+                }}
+                onClick={onClose}
+            />
+            {/* Menu */}
+            <div
+                style={{
+                    position: 'absolute',
+                    top: '100%',
+                    left: 0,
+                    marginTop: '4px',
+                    backgroundColor: '#1f1f1f',
+                    border: '1px solid #3a3a3a',
+                    borderRadius: '6px',
+                    boxShadow: '0 4px 16px rgba(0,0,0,0.3)',
+                    width: '280px',
+                    zIndex: 100,
+                    overflow: 'hidden',
+                }}
+            >
+                {/* External URL */}
+                <div style={{ padding: '8px 12px', display: 'flex', gap: '6px' }}>
+                    <input
+                        type="text"
+                        value={url}
+                        placeholder="https://..."
+                        onChange={e => setUrl(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') handleApplyUrl();
+                            if (e.key === 'Escape') onClose();
+                        }}
+                        autoFocus
+                        style={{
+                            flex: 1,
+                            minWidth: 0,
+                            padding: '4px 8px',
+                            backgroundColor: '#2a2a2a',
+                            border: '1px solid #3a3a3a',
+                            borderRadius: '4px',
+                            color: '#ffffff',
+                            fontSize: '13px',
+                        }}
+                    />
+                    <button
+                        onClick={handleApplyUrl}
+                        style={{
+                            padding: '4px 10px',
+                            backgroundColor: '#2563eb',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            color: '#ffffff',
+                            fontSize: '12px',
+                        }}
+                    >
+                        適用
+                    </button>
+                </div>
+
+                {/* Internal bookmarks */}
+                {bookmarks.length > 0 && (
+                    <>
+                        <div style={{ height: '1px', backgroundColor: '#3a3a3a', margin: '4px 0' }} />
+                        <div style={{ padding: '4px 16px', color: '#9ca3af', fontSize: '11px' }}>ブックマーク</div>
+                        <div style={{ padding: '4px 0', maxHeight: '200px', overflowY: 'auto' }}>
+                            {bookmarks.map(bookmark => (
+                                <button
+                                    key={bookmark.name}
+                                    onClick={() => handleSelectBookmark(bookmark.name)}
+                                    style={{
+                                        width: '100%',
+                                        padding: '6px 16px',
+                                        display: 'flex',
+                                        flexDirection: 'column',
+                                        backgroundColor: currentHref === `#${bookmark.name}` ? '#333333' : 'transparent',
+                                        border: 'none',
+                                        cursor: 'pointer',
+                                        color: '#ffffff',
+                                        fontSize: '13px',
+                                        textAlign: 'left',
+                                        transition: 'background-color 0.1s',
+                                    }}
+                                    onMouseEnter={e => e.currentTarget.style.backgroundColor = '#333333'}
+                                    onMouseLeave={e => e.currentTarget.style.backgroundColor = currentHref === `#${bookmark.name}` ? '#333333' : 'transparent'}
+                                >
+                                    <span>{bookmark.name}</span>
+                                    {bookmark.preview && (
+                                        <span style={{ color: '#9ca3af', fontSize: '11px', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', width: '100%' }}>
+                                            {bookmark.preview}
+                                        </span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                {/* Remove link */}
+                {currentHref && (
+                    <>
+                        <div style={{ height: '1px', backgroundColor: '#3a3a3a', margin: '4px 0' }} />
+                        <div style={{ padding: '4px 0' }}>
+                            <button
+                                onClick={handleRemoveLink}
+                                style={{
+                                    width: '100%',
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    border: 'none',
+                                    cursor: 'pointer',
+                                    color: '#9ca3af',
+                                    fontSize: '12px',
+                                    textAlign: 'left',
+                                    transition: 'background-color 0.1s',
+                                }}
+                                onMouseEnter={e => e.currentTarget.style.backgroundColor = '#333333'}
+                                onMouseLeave={e => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                リンクを解除
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </>
+    );
+};
@@ -3,18 +3,26 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React, { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { X, FileText, Maximize2 } from 'lucide-react';
+import { Editor } from '@tiptap/react';
+import { X, FileText, Maximize2, Columns2 } from 'lucide-react';
+
+import { PageLayoutScope, PageLayoutUpdate } from '../custom-doc-editor/types';
+import { getDocumentSections, getSectionAt } from '../custom-doc-editor/sections';
 
 interface PageLayoutDialogProps {
     isOpen: boolean;
     onClose: () => void;
     docAttrs: any;
-    onApply: (updates: {
-        pageSize?: { width: number; height: number };
-        pageMargins?: { top: number; right: number; bottom: number; left: number };
-    }) => void;
+    editor?: Editor | null;
+    onApply: (updates: PageLayoutUpdate) => void;
 }
 
+const SCOPE_OPTIONS: { id: PageLayoutScope; label: string }[] = [
+    { id: 'document', label: '文書全体' },
+    { id: 'section', label: 'このセクション' },
+    { id: 'forward', label: 'この位置以降' },
+];
+
 // Page size presets in twips (1mm ≈ 56.69 twips)
 const PAGE_SIZE_PRESETS = [
     { id: 'A4', label: 'A4', description: '210 × 297 mm', width: 11906, height: 16838 },
@@ -42,8 +50,14 @@ export const PageLayoutDialog: React.FC<PageLayoutDialogProps> = ({
     isOpen,
     onClose,
     docAttrs,
+    editor,
     onApply,
 }) => {
+    // Section containing the cursor (the whole document is one section without section breaks)
+    const [sectionLabel, setSectionLabel] = useState<string | null>(null);
+    const [scope, setScope] = useState<PageLayoutScope>('document');
+    const [columnCount, setColumnCount] = useState<number>(1);
+
     // State for page size
     const [selectedPageSize, setSelectedPageSize] = useState<string>('A4');
     const [customWidth, setCustomWidth] = useState<number>(210);
@@ -61,8 +75,16 @@ export const PageLayoutDialog: React.FC<PageLayoutDialogProps> = ({
     // Initialize from docAttrs when dialog opens
     useEffect(() => {
         if (isOpen && docAttrs) {
-            const widthTwips = docAttrs?.pageSize?.['w:w'] || 11906;
-            const heightTwips = docAttrs?.pageSize?.['w:h'] || 16838;
+            const sections = editor ? getDocumentSections(editor.state.doc, docAttrs) : [];
+            const current = editor && sections.length > 1 ? getSectionAt(sections, editor.state.selection.from) : null;
+            const layoutAttrs = current ? current.attrs : docAttrs;
+            // eslint-disable-next-line react-hooks/set-state-in-effect
+            setSectionLabel(current ? `セクション ${current.index + 1} / ${sections.length}` : null);
+            setScope(current ? 'section' : 'document');
+            setColumnCount(parseInt(layoutAttrs?.cols?.['w:num']) || 1);
+
+            const widthTwips = layoutAttrs?.pageSize?.['w:w'] || 11906;
+            const heightTwips = layoutAttrs?.pageSize?.['w:h'] || 16838;
 
             // Try to match a preset
             const matchedPreset = PAGE_SIZE_PRESETS.find(
@@ -70,7 +92,6 @@ export const PageLayoutDialog: React.FC<PageLayoutDialogProps> = ({
             );
 
             if (matchedPreset) {
-                // eslint-disable-next-line react-hooks/set-state-in-effect
                 setSelectedPageSize(prev => prev !== matchedPreset.id ? matchedPreset.id : prev);
                 setUseCustomSize(prev => prev !== false ? false : prev);
             } else {
@@ -81,10 +102,10 @@ export const PageLayoutDialog: React.FC<PageLayoutDialogProps> = ({
             setCustomHeight(prev => { const val = twipsToMm(heightTwips); return prev !== val ? val : prev; });
 
             // Margins
-            const topTwips = docAttrs?.pageMargins?.['w:top'] || 1440;
-            const rightTwips = docAttrs?.pageMargins?.['w:right'] || 1800;
-            const bottomTwips = docAttrs?.pageMargins?.['w:bottom'] || 1440;
-            const leftTwips = docAttrs?.pageMargins?.['w:left'] || 1800;
+            const topTwips = layoutAttrs?.pageMargins?.['w:top'] || 1440;
+            const rightTwips = layoutAttrs?.pageMargins?.['w:right'] || 1800;
+            const bottomTwips = layoutAttrs?.pageMargins?.['w:bottom'] || 1440;
+            const leftTwips = layoutAttrs?.pageMargins?.['w:left'] || 1800;
 
             const matchedMargin = MARGIN_PRESETS.find(
                 p => Math.abs(p.top - topTwips) < 50 &&
@@ -105,13 +126,13 @@ export const PageLayoutDialog: React.FC<PageLayoutDialogProps> = ({
             setMarginBottom(prev => { const val = twipsToMm(bottomTwips); return prev !== val ? val : prev; });
             setMarginLeft(prev => { const val = twipsToMm(leftTwips); return prev !== val ? val : prev; });
         }
-    }, [isOpen, docAttrs]);
+    }, [isOpen, docAttrs, editor]);
 
     const handleApply = () => {
-        const updates: {
-            pageSize?: { width: number; height: number };
-            pageMargins?: { top: number; right: number; bottom: number; left: number };
-        } = {};
+        const updates: PageLayoutUpdate = {
+            scope,
+            columns: { count: Math.max(1, Math.min(columnCount, 9)) },
+        };
 
         // Page size
         if (useCustomSize) {
@@ -244,6 +265,40 @@ export const PageLayoutDialog: React.FC<PageLayoutDialogProps> = ({
 
                 {/* Content */}
                 <div style={{ padding: '20px', overflow: 'auto', flex: 1 }}>
+                    {/* Apply-to Section */}
+                    <div style={{ marginBottom: '24px' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '12px' }}>
+                            <h3 style={{ margin: 0, fontSize: '14px', fontWeight: 600, color: '#374151' }}>
+                                適用先
+                            </h3>
+                            {sectionLabel && (
+                                <span style={{ fontSize: '12px', color: '#9ca3af' }}>{sectionLabel}</span>
+                            )}
+                        </div>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            {SCOPE_OPTIONS.map(option => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => setScope(option.id)}
+                                    style={{
+                                        padding: '8px 14px',
+                                        borderRadius: '8px',
+                                        border: '2px solid',
+                                        borderColor: scope === option.id ? '#667eea' : '#e5e7eb',
+                                        backgroundColor: scope === option.id ? '#f0f0ff' : '#fff',
+                                        cursor: 'pointer',
+                                        transition: 'all 0.2s',
+                                        fontSize: '13px',
+                                        fontWeight: 600,
+                                        color: '#374151',
+                                    }}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     {/* Page Size Section */}
                     <div style={{ marginBottom: '24px' }}>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
@@ -457,6 +512,34 @@ export const PageLayoutDialog: React.FC<PageLayoutDialogProps> = ({
                             </div>
                         </div>
                     </div>
+
+                    {/* Columns Section */}
+                    <div style={{ marginTop: '24px' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+                            <Columns2 size={16} color="#6b7280" />
+                            <h3 style={{ margin: 0, fontSize: '14px', fontWeight: 600, color: '#374151' }}>
+                                段組み
+                            </h3>
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                type="number"
+                                min={1}
+                                max={9}
+                                value={columnCount}
+                                onChange={e => setColumnCount(parseInt(e.target.value) || 1)}
+                                style={{
+                                    width: '70px',
+                                    padding: '6px 8px',
+                                    border: '1px solid #d1d5db',
+                                    borderRadius: '6px',
+                                    fontSize: '13px',
+                                    backgroundColor: '#fff',
+                                }}
+                            />
+                            <span style={{ color: '#9ca3af', fontSize: '12px' }}>段</span>
+                        </div>
+                    </div>
                 </div>
 
                 {/* Footer */}
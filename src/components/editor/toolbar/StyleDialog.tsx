@@ -0,0 +1,348 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Pilcrow, Type, AlignLeft } from 'lucide-react';
+
+import { DocxStyle, DocxStyleProps, resolveStyleProps } from '../../../lib/docx/styles';
+
+interface StyleDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    style: DocxStyle | null;
+    styles: DocxStyle[];
+    defaults?: DocxStyleProps;
+    onApply: (style: DocxStyle) => void;
+}
+
+const ALIGNMENT_OPTIONS = [
+    { id: '', label: '継承' },
+    { id: 'left', label: '左揃え' },
+    { id: 'center', label: '中央揃え' },
+    { id: 'right', label: '右揃え' },
+    { id: 'both', label: '両端揃え' },
+];
+
+// Style values are stored in twips; the dialog shows pt (spacing), mm (indent) and a multiplier (line spacing)
+const twipsToPt = (twips?: string) => (twips ? String(parseInt(twips) / 20) : '');
+const ptToTwips = (pt: string) => (pt.trim() ? String(Math.round(parseFloat(pt) * 20)) : undefined);
+const twipsToMm = (twips?: string) => (twips ? String(Math.round((parseInt(twips) / 56.69) * 10) / 10) : '');
+const mmToTwips = (mm: string) => (mm.trim() ? String(Math.round(parseFloat(mm) * 56.69)) : undefined);
+const lineToMultiple = (line?: string, rule?: string) => (line && (!rule || rule === 'auto') ? String(parseInt(line) / 240) : '');
+
+interface StyleForm {
+    fontFamily: string;
+    fontSize: string;
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    color: string;
+    textAlign: string;
+    spacingBefore: string;
+    spacingAfter: string;
+    lineMultiple: string;
+    indent: string;
+    firstLine: string;
+}
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '13px',
+    backgroundColor: '#fff',
+};
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', color: '#6b7280', display: 'block', marginBottom: '4px' };
+
+/**
+ * Dialog to modify a named style definition (font, paragraph spacing, indentation, alignment).
+ * Empty fields inherit from the base style; the placeholder shows the inherited value.
+ */
+export const StyleDialog: React.FC<StyleDialogProps> = ({
+    isOpen,
+    onClose,
+    style,
+    styles,
+    defaults,
+    onApply,
+}) => {
+    const [form, setForm] = useState<StyleForm | null>(null);
+
+    // Formatting inherited from the base style (what an empty field falls back to)
+    const inherited: DocxStyleProps = style?.basedOn ? resolveStyleProps(styles, style.basedOn, defaults) : (defaults || {});
+
+    useEffect(() => {
+        if (!isOpen || !style) return;
+        const resolved = resolveStyleProps(styles, style.styleId, defaults);
+        const own = style.props;
+        // eslint-disable-next-line react-hooks/set-state-in-effect
+        setForm({
+            fontFamily: own.fontFamily || '',
+            fontSize: own.fontSize ? String(parseFloat(own.fontSize)) : '',
+            bold: !!resolved.bold,
+            italic: !!resolved.italic,
+            underline: !!resolved.underline,
+            color: own.color || '',
+            textAlign: own.textAlign || '',
+            spacingBefore: twipsToPt(own.spacingBefore),
+            spacingAfter: twipsToPt(own.spacingAfter),
+            lineMultiple: lineToMultiple(own.lineHeight, own.lineRule),
+            indent: twipsToMm(own.indent),
+            firstLine: twipsToMm(own.firstLine),
+        });
+    }, [isOpen, style, styles, defaults]);
+
+    if (!isOpen || !style || !form) return null;
+
+    const update = (changes: Partial<StyleForm>) => setForm({ ...form, ...changes });
+
+    // Toggles are written only where they differ from the base style
+    const toggle = (value: boolean, base?: boolean) => (value === !!base ? undefined : value);
+
+    const handleApply = () => {
+        const lineHeight = form.lineMultiple.trim() ? String(Math.round(parseFloat(form.lineMultiple) * 240)) : undefined;
+        // Keep an exact / at-least line height unless a multiple was entered
+        const keepFixedLine = !lineHeight && !!style.props.lineRule && style.props.lineRule !== 'auto';
+        const props: DocxStyleProps = {
+            ...style.props,
+            fontFamily: form.fontFamily.trim() || undefined,
+            fontSize: form.fontSize.trim() ? `${parseFloat(form.fontSize)}pt` : undefined,
+            bold: toggle(form.bold, inherited.bold),
+            italic: toggle(form.italic, inherited.italic),
+            underline: toggle(form.underline, inherited.underline),
+            color: form.color || undefined,
+            textAlign: form.textAlign || undefined,
+            spacingBefore: ptToTwips(form.spacingBefore),
+            spacingAfter: ptToTwips(form.spacingAfter),
+            lineHeight: keepFixedLine ? style.props.lineHeight : lineHeight,
+            lineRule: keepFixedLine ? style.props.lineRule : (lineHeight ? 'auto' : undefined),
+            indent: mmToTwips(form.indent),
+            firstLine: mmToTwips(form.firstLine),
+            hanging: form.firstLine.trim() ? undefined : style.props.hanging,
+        };
+        const cleaned = Object.fromEntries(Object.entries(props).filter(([, v]) => v !== undefined)) as DocxStyleProps;
+        onApply({ ...style, props: cleaned, modified: true });
+        onClose();
+    };
+
+    const numberField = (key: keyof StyleForm, label: string, placeholder: string) => (
+        <div>
+            <label style={labelStyle}>{label}</label>
+            <input
+                type="number"
+                step="0.1"
+                value={form[key] as string}
+                placeholder={placeholder}
+                onChange={e => update({ [key]: e.target.value })}
+                style={inputStyle}
+            />
+        </div>
+    );
+
+    const checkbox = (key: 'bold' | 'italic' | 'underline', label: string) => (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#374151' }}>
+            <input
+                type="checkbox"
+                checked={form[key]}
+                onChange={e => update({ [key]: e.target.checked })}
+                style={{ width: '16px', height: '16px', accentColor: '#667eea' }}
+            />
+            {label}
+        </label>
+    );
+
+    const sectionTitle = (Icon: typeof Type, title: string) => (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+            <Icon size={16} color="#6b7280" />
+            <h3 style={{ margin: 0, fontSize: '14px', fontWeight: 600, color: '#374151' }}>{title}</h3>
+        </div>
+    );
+
+    // Use portal to render outside the component tree, avoiding stacking context issues
+    return createPortal(
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 10000,
+            }}
+            onClick={onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#fff',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 40px rgba(0, 0, 0, 0.2)',
+                    width: '480px',
+                    maxHeight: '90vh',
+                    overflow: 'hidden',
+                    display: 'flex',
+                    flexDirection: 'column',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div
+                    style={{
+                        padding: '16px 20px',
+                        borderBottom: '1px solid #e5e7eb',
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        background: 'linear-gradient(to right, #667eea, #764ba2)',
+                    }}
+                >
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <Pilcrow size={20} color="#fff" />
+                        <h2 style={{ margin: 0, fontSize: '16px', fontWeight: 600, color: '#fff' }}>
+                            スタイルの変更: {style.name}
+                        </h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'rgba(255,255,255,0.2)',
+                            border: 'none',
+                            width: '28px',
+                            height: '28px',
+                            borderRadius: '6px',
+                            cursor: 'pointer',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                        }}
+                    >
+                        <X size={16} color="#fff" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div style={{ padding: '20px', overflow: 'auto', flex: 1 }}>
+                    {style.basedOn && (
+                        <div style={{ fontSize: '12px', color: '#9ca3af', marginBottom: '16px' }}>
+                            基準スタイル: {styles.find(s => s.styleId === style.basedOn)?.name || style.basedOn}（空欄の項目は基準スタイルを継承します）
+                        </div>
+                    )}
+
+                    {/* Font Section */}
+                    <div style={{ marginBottom: '24px' }}>
+                        {sectionTitle(Type, 'フォント')}
+                        <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '12px', marginBottom: '12px' }}>
+                            <div>
+                                <label style={labelStyle}>フォント名</label>
+                                <input
+                                    type="text"
+                                    value={form.fontFamily}
+                                    placeholder={inherited.fontFamily || ''}
+                                    onChange={e => update({ fontFamily: e.target.value })}
+                                    style={inputStyle}
+                                />
+                            </div>
+                            {numberField('fontSize', 'サイズ (pt)', inherited.fontSize ? String(parseFloat(inherited.fontSize)) : '')}
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                            {checkbox('bold', '太字')}
+                            {checkbox('italic', '斜体')}
+                            {checkbox('underline', '下線')}
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#374151', marginLeft: 'auto' }}>
+                                文字色
+                                <input
+                                    type="color"
+                                    value={form.color || inherited.color || '#000000'}
+                                    onChange={e => update({ color: e.target.value })}
+                                    style={{ width: '32px', height: '24px', border: 'none', padding: 0, background: 'none' }}
+                                />
+                                {form.color && (
+                                    <button
+                                        onClick={() => update({ color: '' })}
+                                        style={{ border: 'none', background: 'none', color: '#6b7280', fontSize: '12px', cursor: 'pointer' }}
+                                    >
+                                        継承
+                                    </button>
+                                )}
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Paragraph Section */}
+                    <div>
+                        {sectionTitle(AlignLeft, '段落')}
+                        <div style={{ marginBottom: '12px' }}>
+                            <label style={labelStyle}>配置</label>
+                            <select
+                                value={form.textAlign}
+                                onChange={e => update({ textAlign: e.target.value })}
+                                style={inputStyle}
+                            >
+                                {ALIGNMENT_OPTIONS.map(option => (
+                                    <option key={option.id} value={option.id}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                            {numberField('spacingBefore', '段落前 (pt)', twipsToPt(inherited.spacingBefore))}
+                            {numberField('spacingAfter', '段落後 (pt)', twipsToPt(inherited.spacingAfter))}
+                            {numberField('lineMultiple', '行間 (倍)', lineToMultiple(inherited.lineHeight, inherited.lineRule))}
+                            {numberField('indent', '左インデント (mm)', twipsToMm(inherited.indent))}
+                            {numberField('firstLine', '最初の行 (mm)', twipsToMm(inherited.firstLine))}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div
+                    style={{
+                        padding: '16px 20px',
+                        borderTop: '1px solid #e5e7eb',
+                        display: 'flex',
+                        justifyContent: 'flex-end',
+                        gap: '10px',
+                        backgroundColor: '#f9fafb',
+                    }}
+                >
+                    <button
+                        onClick={onClose}
+                        style={{
+                            padding: '10px 20px',
+                            borderRadius: '8px',
+                            border: '1px solid #d1d5db',
+                            backgroundColor: '#fff',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            fontWeight: 500,
+                            color: '#374151',
+                        }}
+                    >
+                        キャンセル
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        style={{
+                            padding: '10px 24px',
+                            borderRadius: '8px',
+                            border: 'none',
+                            background: 'linear-gradient(to right, #667eea, #764ba2)',
+                            cursor: 'pointer',
+                            fontSize: '13px',
+                            fontWeight: 600,
+                            color: '#fff',
+                            boxShadow: '0 2px 8px rgba(102, 126, 234, 0.4)',
+                        }}
+                    >
+                        適用
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
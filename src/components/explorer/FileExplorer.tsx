@@ -5,6 +5,7 @@ import { FolderOpen, ChevronDown, ChevronRight, ChevronsLeft, AlertCircle, X, Fi
 import { useWorkspace } from '@/contexts/WorkspaceContext';
 import { Dialog } from '@/components/common/Dialog';
 import { FileSystemItem } from '@/types';
+import { compareDocxFiles, comparisonFileName } from '@/lib/docx/compare';
 import FolderTree from './FolderTree';
 import OutlineView from './OutlineView';
 import styles from './FileExplorer.module.css';
@@ -13,6 +14,16 @@ interface FileExplorerProps {
     onClose?: () => void;
 }
 
+interface ContextMenuState {
+    x: number;
+    y: number;
+    item: FileSystemItem;
+}
+
+const isDocx = (item: FileSystemItem) => item.type === 'file' && item.name.toLowerCase().endsWith('.docx');
+
+const baseName = (item: FileSystemItem) => item.name.replace(/\.docx$/i, '');
+
 async function readDirectory(
     dirHandle: FileSystemDirectoryHandle,
     path: string = ''
@@ -97,7 +108,7 @@ export default function FileExplorer({ onClose }: FileExplorerProps) {
     const {
         rootItems, setRootItems, addWorkspaceItem, removeWorkspaceItem,
         openFile, activeOutline, libraryItems, createLibraryFile,
-        deleteLibraryFile, setAgentInputOverride
+        deleteLibraryFile, setAgentInputOverride, openGeneratedFile
     } = useWorkspace();
 
     const [isLoading, setIsLoading] = useState(false);
@@ -117,6 +128,13 @@ export default function FileExplorer({ onClose }: FileExplorerProps) {
     const [isDialogVisible, setIsDialogVisible] = useState(false);
     const [dialogInputValue, setDialogInputValue] = useState('');
 
+    // Document compare state: the original is picked first, then compared against another DOCX
+    const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+    const [compareOriginal, setCompareOriginal] = useState<FileSystemItem | null>(null);
+    const [pendingCompare, setPendingCompare] = useState<{ original: FileSystemItem; revised: FileSystemItem } | null>(null);
+    const [compareAuthor, setCompareAuthor] = useState('');
+    const [isComparing, setIsComparing] = useState(false);
+
     // Initialize expanded folders when root items change
     useEffect(() => {
         setExpandedFolders(new Set(rootItems.map(item => item.path)));
@@ -320,6 +338,61 @@ export default function FileExplorer({ onClose }: FileExplorerProps) {
         openFile(item, file);
     }, [openFile]);
 
+    // Compare handlers
+    const handleItemContextMenu = useCallback((item: FileSystemItem, e: React.MouseEvent) => {
+        if (!isDocx(item) || !item.handle) return;
+        e.preventDefault();
+        setContextMenu({ x: e.clientX, y: e.clientY, item });
+    }, []);
+
+    useEffect(() => {
+        if (!contextMenu) return;
+        const close = () => setContextMenu(null);
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') close();
+        };
+        window.addEventListener('click', close);
+        window.addEventListener('blur', close);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('click', close);
+            window.removeEventListener('blur', close);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [contextMenu]);
+
+    const handleStartCompare = useCallback((revised: FileSystemItem) => {
+        if (!compareOriginal) return;
+        setPendingCompare({ original: compareOriginal, revised });
+        setCompareAuthor(baseName(revised));
+        setContextMenu(null);
+    }, [compareOriginal]);
+
+    const handleConfirmCompare = useCallback(async (author?: string) => {
+        if (!pendingCompare) return;
+        const { original, revised } = pendingCompare;
+        setPendingCompare(null);
+        setIsComparing(true);
+        try {
+            const [originalFile, revisedFile] = await Promise.all([
+                (original.handle as FileSystemFileHandle).getFile(),
+                (revised.handle as FileSystemFileHandle).getFile(),
+            ]);
+            const { blob } = await compareDocxFiles(
+                await originalFile.arrayBuffer(),
+                await revisedFile.arrayBuffer(),
+                { author: author || baseName(revised) }
+            );
+            openGeneratedFile(new File([blob], comparisonFileName(original.name, revised.name), { type: blob.type }));
+            setCompareOriginal(null);
+        } catch (err) {
+            console.error('Failed to compare documents:', err);
+            alert(`文書を比較できませんでした: ${(err as Error).message}`);
+        } finally {
+            setIsComparing(false);
+        }
+    }, [pendingCompare, openGeneratedFile]);
+
     const hasOutline = activeOutline && activeOutline.length > 0;
 
     return (
@@ -365,7 +438,7 @@ export default function FileExplorer({ onClose }: FileExplorerProps) {
                         {expandedFolders.has(item.path) && (
                             <div className={styles.sectionContent}>
                                 {permissionStatus[item.path] === 'granted' ? (
-                                    <FolderTree items={item.children || []} level={1} />
+                                    <FolderTree items={item.children || []} level={1} onContextMenu={handleItemContextMenu} />
                                 ) : (
                                     <div className={styles.permissionPrompt}>
                                         <AlertCircle size={16} className={styles.warningIcon} />
@@ -401,6 +474,7 @@ export default function FileExplorer({ onClose }: FileExplorerProps) {
                                     className={styles.item}
                                     style={{ paddingLeft: 26 }}
                                     onClick={() => handleFileClick(item)}
+                                    onContextMenu={(e) => handleItemContextMenu(item, e)}
                                 >
                                     <FileText size={16} />
                                     <span style={{ flex: 1, marginLeft: 6, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
@@ -520,6 +594,60 @@ export default function FileExplorer({ onClose }: FileExplorerProps) {
                 </div>
             )}
 
+            {/* File Context Menu (DOCX compare) */}
+            {contextMenu && (
+                <div
+                    className={styles.contextMenu}
+                    style={{ left: contextMenu.x, top: contextMenu.y }}
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {compareOriginal && compareOriginal.path !== contextMenu.item.path && (
+                        <button
+                            className={styles.contextMenuItem}
+                            onClick={() => handleStartCompare(contextMenu.item)}
+                            disabled={isComparing}
+                        >
+                            「{compareOriginal.name}」と比較
+                        </button>
+                    )}
+                    <button
+                        className={styles.contextMenuItem}
+                        onClick={() => {
+                            setCompareOriginal(contextMenu.item);
+                            setContextMenu(null);
+                        }}
+                    >
+                        比較の元として選択
+                    </button>
+                    {compareOriginal && (
+                        <button
+                            className={styles.contextMenuItem}
+                            onClick={() => {
+                                setCompareOriginal(null);
+                                setContextMenu(null);
+                            }}
+                        >
+                            比較の選択を解除
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Compare Dialog */}
+            <Dialog
+                isOpen={pendingCompare !== null}
+                title="文書の比較"
+                message={pendingCompare ? `「${pendingCompare.original.name}」と「${pendingCompare.revised.name}」の差分を変更履歴として新しいタブに表示します。変更の作成者を入力してください:` : ''}
+                inputValue={compareAuthor}
+                onChange={setCompareAuthor}
+                onConfirm={handleConfirmCompare}
+                onCancel={() => setPendingCompare(null)}
+                isInput={true}
+                placeholder="作成者"
+                confirmLabel="比較"
+                cancelLabel="キャンセル"
+            />
+
             {/* Library File Dialog */}
             <Dialog
                 isOpen={isDialogVisible}
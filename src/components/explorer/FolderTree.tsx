@@ -10,16 +10,18 @@ import styles from './FolderTree.module.css';
 interface FolderTreeProps {
     items: FileSystemItem[];
     level: number;
+    onContextMenu?: (item: FileSystemItem, e: React.MouseEvent) => void;
 }
 
 interface FileItemProps {
     item: FileSystemItem;
     level: number;
+    onContextMenu?: (item: FileSystemItem, e: React.MouseEvent) => void;
 }
 
 
 
-function FileItem({ item, level }: FileItemProps) {
+function FileItem({ item, level, onContextMenu }: FileItemProps) {
     const { openFile, activeTabId, openTabs } = useWorkspace();
     const [isExpanded, setIsExpanded] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
@@ -65,6 +67,7 @@ function FileItem({ item, level }: FileItemProps) {
                 className={`${styles.item} ${isActive ? styles.active : ''}`}
                 style={{ paddingLeft }}
                 onClick={handleClick}
+                onContextMenu={onContextMenu && item.type === 'file' ? (e) => onContextMenu(item, e) : undefined}
                 title={item.path}
             >
                 {item.type === 'directory' ? (
@@ -89,17 +92,17 @@ function FileItem({ item, level }: FileItemProps) {
             </div>
 
             {item.type === 'directory' && isExpanded && item.children && (
-                <FolderTree items={item.children} level={level + 1} />
+                <FolderTree items={item.children} level={level + 1} onContextMenu={onContextMenu} />
             )}
         </>
     );
 }
 
-export default function FolderTree({ items, level }: FolderTreeProps) {
+export default function FolderTree({ items, level, onContextMenu }: FolderTreeProps) {
     return (
         <div className={styles.tree}>
             {items.map((item) => (
-                <FileItem key={item.path} item={item} level={level} />
+                <FileItem key={item.path} item={item} level={level} onContextMenu={onContextMenu} />
             ))}
         </div>
     );
@@ -1,9 +1,10 @@
 'use client';
 
-import React from 'react';
-import { GitBranch, AlertCircle, CheckCircle } from 'lucide-react';
+import React, { useMemo } from 'react';
+import { GitBranch, AlertCircle, CheckCircle, Gauge } from 'lucide-react';
 import styles from './StatusBar.module.css';
 import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { formatCost, formatDuration, formatTokens, sessionUsage, totalTokens, turnTokens } from '@/lib/ai/usage';
 
 interface StatusBarProps {
     branch?: string;
@@ -14,7 +15,9 @@ export default function StatusBar({
     branch = 'main',
     documentStatus = 'saved'
 }: StatusBarProps) {
-    const { documentStats } = useWorkspace();
+    const { documentStats, agentMessages } = useWorkspace();
+    const usage = useMemo(() => sessionUsage(agentMessages), [agentMessages]);
+    const tokens = turnTokens(usage);
 
     return (
         <div className={styles.statusBar}>
@@ -38,6 +41,24 @@ export default function StatusBar({
             </div>
 
             <div className={styles.rightSection}>
+                {usage.modelCalls > 0 && (
+                    <div
+                        className={styles.item}
+                        title={[
+                            `チャットの使用量: モデル呼び出し ${usage.modelCalls}回 (${formatDuration(usage.durationMs)})`,
+                            `入力 ${tokens.inputTokens.toLocaleString()} (キャッシュ ${tokens.cachedTokens.toLocaleString()})`,
+                            `出力 ${tokens.outputTokens.toLocaleString()} (推論 ${tokens.reasoningTokens.toLocaleString()})`,
+                            `サブエージェント ${totalTokens(usage.subAgents).toLocaleString()}`,
+                            ...(usage.cost !== undefined ? [`費用 ${formatCost(usage.cost)}`] : []),
+                        ].join('\n')}
+                    >
+                        <Gauge size={14} />
+                        <span>
+                            {formatTokens(tokens.inputTokens)} in / {formatTokens(tokens.outputTokens)} out
+                            {usage.cost !== undefined && ` · ${formatCost(usage.cost)}`}
+                        </span>
+                    </div>
+                )}
                 {documentStats && (
                     <>
                         <div className={styles.item}>
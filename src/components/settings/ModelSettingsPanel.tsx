@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_MODEL_SETTINGS, ModelSettings, loadModelSettings, saveModelSettings } from '@/lib/ai/settings';
+import { ModelRole, ProviderKind } from '@/lib/ai/types';
+import { DEFAULT_USAGE_BUDGET, ModelPricing, UsageBudget, loadUsageBudget, saveUsageBudget } from '@/lib/ai/usage';
+import { CONFIGURABLE_TOOLS, DEFAULT_TOOL_POLICIES, ToolPolicies, ToolPolicy, loadToolPolicies, saveToolPolicies, toolPolicy } from '@/lib/ai/toolPolicy';
+import styles from './ModelSettingsPanel.module.css';
+
+const ROLES: { role: ModelRole; label: string; hint: string }[] = [
+    { role: 'agent', label: 'メインエージェント', hint: 'チャットとツール呼び出し' },
+    { role: 'search', label: 'セマンティック検索', hint: 'semanticSearch のサブエージェント' },
+    { role: 'review', label: '誤字チェック', hint: 'reviewDocumentTypos のサブエージェント' },
+];
+
+const PROVIDERS: { kind: ProviderKind; label: string }[] = [
+    { kind: 'openai', label: 'OpenAI' },
+    { kind: 'azure', label: 'Azure OpenAI' },
+    { kind: 'anthropic', label: 'Anthropic' },
+    { kind: 'openai-compatible', label: 'OpenAI 互換サーバー' },
+    { kind: 'mock', label: 'モック（オフライン）' },
+];
+
+const PRICES: { field: keyof ModelPricing; label: string }[] = [
+    { field: 'input', label: '入力' },
+    { field: 'cachedInput', label: 'キャッシュ入力' },
+    { field: 'output', label: '出力' },
+];
+
+const POLICIES: { policy: ToolPolicy; label: string }[] = [
+    { policy: 'auto', label: '自動で実行' },
+    { policy: 'ask', label: '承認を求める' },
+    { policy: 'deny', label: '実行しない' },
+];
+
+/**
+ * Sidebar view choosing the provider and model of each agent role, the pricing of those models,
+ * which tools need approval and the token budget of the agent.
+ * Changes are saved right away and apply from the next request.
+ */
+export default function ModelSettingsPanel() {
+    const [settings, setSettings] = useState<ModelSettings>(DEFAULT_MODEL_SETTINGS);
+
+    const [policies, setPolicies] = useState<ToolPolicies>(DEFAULT_TOOL_POLICIES);
+    const [budget, setBudget] = useState<UsageBudget>(DEFAULT_USAGE_BUDGET);
+
+    useEffect(() => {
+        loadModelSettings().then(setSettings);
+        loadToolPolicies().then(setPolicies);
+        loadUsageBudget().then(setBudget);
+    }, []);
+
+    const updateBudget = (next: UsageBudget) => {
+        setBudget(next);
+        saveUsageBudget(next);
+    };
+
+    // An empty field is no limit
+    const budgetValue = (value: string): number | null => {
+        const tokens = parseInt(value, 10);
+        return Number.isFinite(tokens) && tokens > 0 ? tokens : null;
+    };
+
+    const updatePolicy = (tool: string, policy: ToolPolicy) => {
+        const next = { ...policies, [tool]: policy };
+        setPolicies(next);
+        saveToolPolicies(next);
+    };
+
+    const update = (next: ModelSettings) => {
+        setSettings(next);
+        saveModelSettings(next);
+    };
+
+    const updateRole = (role: ModelRole, change: Partial<ModelSettings['roles'][ModelRole]>) =>
+        update({ ...settings, roles: { ...settings.roles, [role]: { ...settings.roles[role], ...change } } });
+
+    const usesCompatible = Object.values(settings.roles).some(role => role.provider === 'openai-compatible');
+    const models = [...new Set(Object.values(settings.roles).map(role => role.model.trim()).filter(Boolean))];
+
+    // Unset input and output prices are free; a model with no price at all is not costed
+    const updatePrice = (model: string, field: keyof ModelPricing, value: string) => {
+        const price = parseFloat(value);
+        const { [model]: current, ...others } = settings.pricing;
+        const prices = { ...current, [field]: Number.isFinite(price) && price >= 0 ? price : undefined };
+        const cleared = PRICES.every(({ field: key }) => prices[key] === undefined);
+        update({
+            ...settings,
+            pricing: cleared ? others : { ...others, [model]: { ...prices, input: prices.input ?? 0, output: prices.output ?? 0 } },
+        });
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <span className={styles.title}>モデル設定</span>
+            </div>
+
+            <div className={styles.body}>
+                {ROLES.map(({ role, label, hint }) => (
+                    <section key={role} className={styles.section}>
+                        <div className={styles.sectionTitle}>{label}</div>
+                        <div className={styles.hint}>{hint}</div>
+                        <label className={styles.field}>
+                            <span>プロバイダー</span>
+                            <select
+                                value={settings.roles[role].provider}
+                                onChange={e => updateRole(role, { provider: e.target.value as ProviderKind })}
+                            >
+                                {PROVIDERS.map(({ kind, label: providerLabel }) => (
+                                    <option key={kind} value={kind}>{providerLabel}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className={styles.field}>
+                            <span>{settings.roles[role].provider === 'azure' ? 'デプロイ名' : 'モデル'}</span>
+                            <input
+                                type="text"
+                                value={settings.roles[role].model}
+                                onChange={e => updateRole(role, { model: e.target.value })}
+                                spellCheck={false}
+                            />
+                        </label>
+                    </section>
+                ))}
+
+                {usesCompatible && (
+                    <section className={styles.section}>
+                        <div className={styles.sectionTitle}>OpenAI 互換サーバー</div>
+                        <div className={styles.hint}>ブラウザから直接呼び出すため、サーバー側でこのオリジンを許可 (CORS) してください</div>
+                        <label className={styles.field}>
+                            <span>ベース URL</span>
+                            <input
+                                type="text"
+                                value={settings.compatibleBaseURL}
+                                onChange={e => update({ ...settings, compatibleBaseURL: e.target.value })}
+                                placeholder="http://localhost:11434/v1"
+                                spellCheck={false}
+                            />
+                        </label>
+                        <label className={styles.field}>
+                            <span>API キー</span>
+                            <input
+                                type="password"
+                                value={settings.compatibleApiKey}
+                                onChange={e => update({ ...settings, compatibleApiKey: e.target.value })}
+                                placeholder="任意"
+                            />
+                        </label>
+                    </section>
+                )}
+
+                <section className={styles.section}>
+                    <div className={styles.sectionTitle}>料金</div>
+                    <div className={styles.hint}>100 万トークンあたりの USD です。料金を設定したモデルの使用量から費用を計算します。空欄のモデルは費用を表示しません</div>
+                    {models.map(model => (
+                        <React.Fragment key={model}>
+                            <div className={styles.groupTitle}>{model}</div>
+                            {PRICES.map(({ field, label }) => (
+                                <label key={field} className={styles.field}>
+                                    <span>{label}</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step="any"
+                                        value={settings.pricing[model]?.[field] ?? ''}
+                                        onChange={e => updatePrice(model, field, e.target.value)}
+                                        placeholder={field === 'cachedInput' ? '入力と同じ' : '未設定'}
+                                    />
+                                </label>
+                            ))}
+                        </React.Fragment>
+                    ))}
+                </section>
+
+                <section className={styles.section}>
+                    <div className={styles.sectionTitle}>ツールの承認</div>
+                    <div className={styles.hint}>「承認を求める」にしたツールは、呼び出しのたびにチャットで承認されるまで実行されません</div>
+                    {CONFIGURABLE_TOOLS.map(({ group, tools }) => (
+                        <React.Fragment key={group}>
+                            <div className={styles.groupTitle}>{group}</div>
+                            {tools.map(tool => (
+                                <label key={tool} className={styles.toolField}>
+                                    <span>{tool}</span>
+                                    <select
+                                        value={toolPolicy(policies, tool)}
+                                        onChange={e => updatePolicy(tool, e.target.value as ToolPolicy)}
+                                    >
+                                        {POLICIES.map(({ policy, label }) => (
+                                            <option key={policy} value={policy}>{label}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ))}
+                        </React.Fragment>
+                    ))}
+                </section>
+
+                <section className={styles.section}>
+                    <div className={styles.sectionTitle}>トークン上限</div>
+                    <div className={styles.hint}>1 ターンまたはチャット全体の使用量が上限を超えるとエージェントは停止します。空欄は上限なしです</div>
+                    <label className={styles.field}>
+                        <span>1 ターンあたり</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={budget.turnTokens ?? ''}
+                            onChange={e => updateBudget({ ...budget, turnTokens: budgetValue(e.target.value) })}
+                            placeholder="上限なし"
+                        />
+                    </label>
+                    <label className={styles.field}>
+                        <span>チャット全体</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={budget.sessionTokens ?? ''}
+                            onChange={e => updateBudget({ ...budget, sessionTokens: budgetValue(e.target.value) })}
+                            placeholder="上限なし"
+                        />
+                    </label>
+                </section>
+
+                <button
+                    className={styles.reset}
+                    onClick={() => {
+                        update(DEFAULT_MODEL_SETTINGS);
+                        setPolicies(DEFAULT_TOOL_POLICIES);
+                        saveToolPolicies(DEFAULT_TOOL_POLICIES);
+                        updateBudget(DEFAULT_USAGE_BUDGET);
+                    }}
+                >
+                    既定値に戻す
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,9 +1,28 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
-import { FileSystemItem, EditorTab, ChatMessage, WorkspaceState, AttachedSelection } from '@/types';
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useRef } from 'react';
+import { FileSystemItem, EditorTab, ChatMessage, WorkspaceState, AttachedSelection, ChatSession, ChatSessionSummary } from '@/types';
 import { AgentEvent } from '@/types';
 import { saveToDB, getFromDB, STORAGE_KEYS } from '@/lib/indexeddb';
+import { rejectPendingApprovals } from '@/components/editor/hooks/universal-agent/approvals';
+import {
+    createChatSession,
+    expirePendingApprovals,
+    forkChatSession as forkSession,
+    loadActiveSessionId,
+    loadChatSession,
+    loadChatSessionIndex,
+    removeChatSession,
+    saveActiveSessionId,
+    saveChatSession,
+    saveChatSessionIndex,
+    summarizeSession,
+    upsertSessionSummary,
+    workspaceKey,
+} from '@/lib/chat/sessions';
+
+// Streaming updates the last message many times a second; the session is saved once they settle
+const SESSION_SAVE_DELAY = 500;
 
 export interface DocumentStats {
     wordCount: number;
@@ -33,11 +52,22 @@ interface WorkspaceContextType extends WorkspaceState {
     addWorkspaceItem: (item: FileSystemItem) => void;
     removeWorkspaceItem: (path: string) => void;
     openFile: (item: FileSystemItem, file: File) => void;
+    // Open a file that only exists in memory (e.g. a document comparison) in a new tab
+    openGeneratedFile: (file: File) => void;
     closeTab: (tabId: string) => void;
     setActiveTab: (tabId: string) => void;
     addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => string;
     updateMessage: (id: string, updates: Partial<ChatMessage>) => void;
     togglePanel: () => void;
+    // Chat sessions (stored in IndexedDB, grouped by workspace)
+    chatSessions: ChatSessionSummary[];
+    activeChatSessionId: string | null;
+    chatWorkspace: string;
+    newChatSession: () => void;
+    openChatSession: (id: string) => Promise<void>;
+    renameChatSession: (id: string, title: string) => Promise<void>;
+    forkChatSession: (id: string) => Promise<void>;
+    deleteChatSession: (id: string) => Promise<void>;
     // AI Action integration
     aiActionHandler: AIActionHandler | null;
     setAIActionHandler: (handler: AIActionHandler | null) => void;
@@ -100,6 +130,15 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     const [libraryItems, setLibraryItems] = useState<FileSystemItem[]>([]);
     const [agentInputOverride, setAgentInputOverride] = useState<string | null>(null);
     const [composerFocusRequested, setComposerFocusRequested] = useState(0);
+    const [chatSessions, setChatSessions] = useState<ChatSessionSummary[]>([]);
+    const [activeChatSessionId, setActiveChatSessionId] = useState<string | null>(null);
+    // Summary of the active session; null until its first message is saved
+    const activeSessionRef = useRef<ChatSessionSummary | null>(null);
+    // Messages as loaded from a stored session, which need no saving
+    const loadedMessagesRef = useRef<ChatMessage[] | null>(null);
+
+    const chatWorkspace = workspaceKey(rootItems);
+    const activeFilePath = openTabs.find(tab => tab.id === activeTabId)?.path ?? null;
 
     // Load workspace state from IDB on mount
     useEffect(() => {
@@ -273,6 +312,11 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
         saveToDB(STORAGE_KEYS.ACTIVE_TAB_ID, newTab.id);
     }, [openTabs]);
 
+    const openGeneratedFile = useCallback((file: File) => {
+        // Unique virtual path: generating the same file name again opens another tab
+        openFile({ name: file.name, path: `generated/${Date.now()}/${file.name}`, type: 'file' }, file);
+    }, [openFile]);
+
     const closeTab = useCallback((tabId: string) => {
         setOpenTabs((prev) => {
             const newTabs = prev.filter((tab) => tab.id !== tabId);
@@ -315,6 +359,110 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
         );
     }, []);
 
+    const storeChatSession = useCallback((session: ChatSession) => {
+        saveChatSession(session);
+        setChatSessions(prev => {
+            const next = upsertSessionSummary(prev, summarizeSession(session));
+            saveChatSessionIndex(next);
+            return next;
+        });
+    }, []);
+
+    const showChatSession = useCallback((session: ChatSession | null) => {
+        // Calls of the chat being left can no longer be approved
+        rejectPendingApprovals();
+        const messages = expirePendingApprovals(session?.messages || []);
+        // A new chat clears the pointer of the workspace the previous one belonged to
+        const workspace = session?.workspace ?? activeSessionRef.current?.workspace;
+        activeSessionRef.current = session && summarizeSession(session);
+        loadedMessagesRef.current = messages;
+        setAgentMessages(messages);
+        setActiveChatSessionId(session?.id ?? null);
+        if (workspace !== undefined) {
+            saveActiveSessionId(workspace, session?.id ?? null);
+        }
+    }, []);
+
+    // Restore the session list and resume the last active chat of the stored workspace
+    useEffect(() => {
+        const restoreChatSessions = async () => {
+            setChatSessions(await loadChatSessionIndex());
+            const handles = await getFromDB<FileSystemHandle[]>(STORAGE_KEYS.ROOT_ITEMS);
+            const workspace = workspaceKey(Array.isArray(handles) ? handles : []);
+            const storedSessionId = await loadActiveSessionId(workspace);
+            const storedSession = storedSessionId ? await loadChatSession(storedSessionId) : undefined;
+            if (storedSession?.workspace === workspace) {
+                showChatSession(storedSession);
+            }
+        };
+        restoreChatSessions();
+    }, [showChatSession]);
+
+    // Save the active chat as it changes; its first message creates the session
+    useEffect(() => {
+        if (agentMessages.length === 0 || agentMessages === loadedMessagesRef.current) return;
+
+        const timer = setTimeout(() => {
+            const current = activeSessionRef.current;
+            const session: ChatSession = current
+                ? { ...current, messages: agentMessages, messageCount: agentMessages.length, updatedAt: Date.now() }
+                : createChatSession({ workspace: chatWorkspace, filePath: activeFilePath, messages: agentMessages });
+            if (!current) {
+                setActiveChatSessionId(session.id);
+                saveActiveSessionId(session.workspace, session.id);
+            }
+            activeSessionRef.current = summarizeSession(session);
+            storeChatSession(session);
+        }, SESSION_SAVE_DELAY);
+        return () => clearTimeout(timer);
+        // The workspace and file are read when the session is created, not tracked
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [agentMessages, storeChatSession]);
+
+    const newChatSession = useCallback(() => {
+        showChatSession(null);
+    }, [showChatSession]);
+
+    const openChatSession = useCallback(async (id: string) => {
+        if (id === activeSessionRef.current?.id) return;
+        const session = await loadChatSession(id);
+        if (session) {
+            showChatSession(session);
+        }
+    }, [showChatSession]);
+
+    const renameChatSession = useCallback(async (id: string, title: string) => {
+        const session = await loadChatSession(id);
+        if (!session) return;
+        if (activeSessionRef.current?.id === id) {
+            activeSessionRef.current = { ...activeSessionRef.current, title };
+        }
+        storeChatSession({ ...session, title });
+    }, [storeChatSession]);
+
+    const forkChatSession = useCallback(async (id: string) => {
+        // The active chat may have messages the debounced save has not stored yet
+        const session = activeSessionRef.current?.id === id
+            ? { ...activeSessionRef.current, messages: agentMessages }
+            : await loadChatSession(id);
+        if (!session) return;
+        const fork = forkSession(session);
+        storeChatSession(fork);
+        showChatSession(fork);
+    }, [agentMessages, storeChatSession, showChatSession]);
+
+    const deleteChatSession = useCallback(async (id: string) => {
+        await removeChatSession(id);
+        setChatSessions(prev => {
+            const next = prev.filter(session => session.id !== id);
+            saveChatSessionIndex(next);
+            return next;
+        });
+        if (activeSessionRef.current?.id === id) {
+            showChatSession(null);
+        }
+    }, [showChatSession]);
+
     const togglePanel = useCallback(() => {
         setIsPanelOpen((prev) => !prev);
     }, []);
@@ -356,11 +504,20 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
                 addWorkspaceItem,
                 removeWorkspaceItem,
                 openFile,
+                openGeneratedFile,
                 closeTab,
                 setActiveTab,
                 addMessage,
                 updateMessage,
                 togglePanel,
+                chatSessions,
+                activeChatSessionId,
+                chatWorkspace,
+                newChatSession,
+                openChatSession,
+                renameChatSession,
+                forkChatSession,
+                deleteChatSession,
                 aiActionHandler,
                 setAIActionHandler: setAIActionHandlerSafe,
                 voiceToolHandler,
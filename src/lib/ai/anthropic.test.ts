@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { AnthropicProvider, toAnthropicRequest } from './anthropic';
+import { ModelStreamEvent } from './types';
+
+// A fetch answering with the given server-sent events, recording the request body
+const sseFetch = (events: object[], requests: unknown[]) =>
+    (async (_url: string, init: RequestInit) => {
+        requests.push(JSON.parse(String(init.body)));
+        const text = events.map(event => `event: ${(event as { type: string }).type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+        return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    }) as unknown as typeof fetch;
+
+describe('anthropic', () => {
+    describe('toAnthropicRequest', () => {
+        it('should move system text apart and pair tool calls with their results', () => {
+            const request = toAnthropicRequest({
+                model: 'claude-sonnet-4-5',
+                instructions: 'Use tools.',
+                input: [
+                    { type: 'message', role: 'system', content: 'You edit documents.' },
+                    { type: 'message', role: 'user', content: [
+                        { type: 'input_image', image_url: 'data:image/png;base64,AAAA' },
+                        { type: 'input_file', file_id: 'file-1' },
+                        { type: 'input_text', text: 'Fix the title' },
+                    ] },
+                    { type: 'message', role: 'assistant', content: 'Reading it.' },
+                    { type: 'function_call', call_id: 'call_1', name: 'readFile', arguments: '{"path":"a.docx"}' },
+                    { type: 'function_call_output', call_id: 'call_1', output: 'Title' },
+                    { type: 'message', role: 'user', content: 'Thanks' },
+                ],
+                tools: [{ name: 'readFile', description: 'Read a file', parameters: { type: 'object' } }],
+            });
+
+            expect(request).toEqual({
+                model: 'claude-sonnet-4-5',
+                max_tokens: 8192,
+                system: 'Use tools.\n\nYou edit documents.',
+                messages: [
+                    { role: 'user', content: [
+                        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+                        { type: 'text', text: '[An attached file is only available to OpenAI models]' },
+                        { type: 'text', text: 'Fix the title' },
+                    ] },
+                    { role: 'assistant', content: [
+                        { type: 'text', text: 'Reading it.' },
+                        { type: 'tool_use', id: 'call_1', name: 'readFile', input: { path: 'a.docx' } },
+                    ] },
+                    { role: 'user', content: [
+                        { type: 'tool_result', tool_use_id: 'call_1', content: 'Title' },
+                        { type: 'text', text: 'Thanks' },
+                    ] },
+                ],
+                tools: [{ name: 'readFile', description: 'Read a file', input_schema: { type: 'object' } }],
+            });
+        });
+    });
+
+    describe('AnthropicProvider', () => {
+        it('should stream text, thinking and tool calls assembled from JSON fragments', async () => {
+            const requests: unknown[] = [];
+            const provider = new AnthropicProvider({
+                baseURL: '/api/ai/anthropic',
+                fetch: sseFetch([
+                    { type: 'message_start', message: { id: 'msg_1', usage: { input_tokens: 20, cache_read_input_tokens: 300, output_tokens: 1 } } },
+                    { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+                    { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Plan' } },
+                    { type: 'content_block_stop', index: 0 },
+                    { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+                    { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Let me look.' } },
+                    { type: 'content_block_stop', index: 1 },
+                    { type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 'toolu_1', name: 'readFile', input: {} } },
+                    { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+                    { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '"a.docx"}' } },
+                    { type: 'content_block_stop', index: 2 },
+                    { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 45 } },
+                    { type: 'message_stop' },
+                ], requests),
+            });
+
+            const events: ModelStreamEvent[] = [];
+            for await (const event of provider.stream({ model: 'claude-sonnet-4-5', input: [{ type: 'message', role: 'user', content: 'Hi' }] })) {
+                events.push(event);
+            }
+
+            expect(events).toEqual([
+                { type: 'reasoning_delta', delta: 'Plan' },
+                { type: 'text_delta', delta: 'Let me look.' },
+                { type: 'tool_call_start', id: 'toolu_1', name: 'readFile' },
+                { type: 'tool_call', id: 'toolu_1', name: 'readFile', arguments: '{"path":"a.docx"}' },
+                { type: 'completed', usage: { inputTokens: 320, outputTokens: 45, reasoningTokens: 0, cachedTokens: 300 } },
+            ]);
+            expect(requests[0]).toMatchObject({ stream: true, messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] });
+        });
+
+        it('should throw on error events', async () => {
+            const provider = new AnthropicProvider({
+                baseURL: '/api/ai/anthropic',
+                fetch: sseFetch([{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }], []),
+            });
+
+            const drain = async () => {
+                for await (const event of provider.stream({ model: 'claude-sonnet-4-5', input: [] })) void event;
+            };
+            await expect(drain()).rejects.toThrow('Anthropic stream error: Overloaded');
+        });
+    });
+});
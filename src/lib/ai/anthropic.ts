@@ -0,0 +1,162 @@
+/**
+ * Anthropic Messages API provider, called through the /api/ai/anthropic proxy
+ * @module lib/ai/anthropic
+ */
+
+import { unavailablePart } from './openai';
+import { ConversationItem, InputContent, ModelProvider, ModelRequest, ModelStreamEvent, TokenUsage, contentText } from './types';
+
+export interface AnthropicProviderOptions {
+    baseURL: string;
+    /** Upper bound of the tokens generated per turn (required by the API) */
+    maxTokens?: number;
+    /** Replaces the global fetch (tests) */
+    fetch?: typeof fetch;
+}
+
+type AnthropicBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } }
+    | { type: 'tool_use'; id: string; name: string; input: unknown }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+export interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: AnthropicBlock[];
+}
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+const parseArguments = (text: string): unknown => {
+    try {
+        return JSON.parse(text || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const toBlock = (part: InputContent): AnthropicBlock => {
+    if (part.type === 'input_text') return { type: 'text', text: part.text };
+    if (part.type === 'input_image' && part.image_url) {
+        const data = part.image_url.match(/^data:([^;]+);base64,(.*)$/);
+        return data
+            ? { type: 'image', source: { type: 'base64', media_type: data[1], data: data[2] } }
+            : { type: 'image', source: { type: 'url', url: part.image_url } };
+    }
+    return { type: 'text', text: unavailablePart(part) };
+};
+
+/**
+ * The request body for a conversation: system messages move to `system`, tool calls become
+ * `tool_use` blocks of the assistant and their outputs `tool_result` blocks of the user, and
+ * consecutive items of the same role share one message as the API expects.
+ */
+export function toAnthropicRequest(request: ModelRequest, maxTokens = DEFAULT_MAX_TOKENS) {
+    const system: string[] = request.instructions ? [request.instructions] : [];
+    const messages: AnthropicMessage[] = [];
+    const append = (role: AnthropicMessage['role'], block: AnthropicBlock) => {
+        const last = messages[messages.length - 1];
+        if (last?.role === role) last.content.push(block);
+        else messages.push({ role, content: [block] });
+    };
+
+    request.input.forEach((item: ConversationItem) => {
+        if (item.type === 'function_call') {
+            append('assistant', { type: 'tool_use', id: item.call_id, name: item.name, input: parseArguments(item.arguments) });
+        } else if (item.type === 'function_call_output') {
+            append('user', { type: 'tool_result', tool_use_id: item.call_id, content: item.output });
+        } else if (item.role === 'system') {
+            system.push(contentText(item.content, unavailablePart));
+        } else if (typeof item.content === 'string') {
+            if (item.content) append(item.role, { type: 'text', text: item.content });
+        } else {
+            item.content.forEach(part => append(item.role as AnthropicMessage['role'], toBlock(part)));
+        }
+    });
+
+    return {
+        model: request.model,
+        max_tokens: maxTokens,
+        ...(system.length > 0 && { system: system.join('\n\n') }),
+        messages,
+        ...(request.tools && request.tools.length > 0 && {
+            tools: request.tools.map(({ name, description, parameters }) => ({ name, description, input_schema: parameters })),
+        }),
+    };
+}
+
+/** The `data` of each event of a server-sent event stream */
+export async function* serverSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        let boundary: RegExpExecArray | null;
+        while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+            const event = buffer.slice(0, boundary.index);
+            buffer = buffer.slice(boundary.index + boundary[0].length);
+            const data = event.split(/\r?\n/)
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.slice(5).trimStart())
+                .join('\n');
+            if (data) yield data;
+        }
+        if (done) return;
+    }
+}
+
+export class AnthropicProvider implements ModelProvider {
+    readonly kind = 'anthropic';
+
+    constructor(private options: AnthropicProviderOptions) {}
+
+    async *stream(request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+        const fetchImpl = this.options.fetch || fetch;
+        const response = await fetchImpl(`${this.options.baseURL}/messages`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...toAnthropicRequest(request, this.options.maxTokens), stream: true }),
+            signal: request.signal,
+        });
+        if (!response.ok || !response.body) {
+            throw new Error(`Anthropic request failed (${response.status}): ${await response.text()}`);
+        }
+
+        // tool_use blocks stream their input as JSON fragments, keyed by block index
+        const toolUses = new Map<number, { id: string; name: string; json: string }>();
+        let usage: TokenUsage | undefined;
+        for await (const data of serverSentEvents(response.body)) {
+            const event = JSON.parse(data);
+            if (event.type === 'message_start' && event.message?.usage) {
+                // Cache reads and writes are counted apart from input_tokens
+                const { input_tokens = 0, output_tokens = 0, cache_read_input_tokens = 0, cache_creation_input_tokens = 0 } = event.message.usage;
+                usage = {
+                    inputTokens: input_tokens + cache_read_input_tokens + cache_creation_input_tokens,
+                    outputTokens: output_tokens,
+                    reasoningTokens: 0,
+                    cachedTokens: cache_read_input_tokens,
+                };
+            } else if (event.type === 'message_delta' && usage && event.usage?.output_tokens !== undefined) {
+                // The count of output tokens so far
+                usage.outputTokens = event.usage.output_tokens;
+            } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+                const { id, name } = event.content_block;
+                toolUses.set(event.index, { id, name, json: '' });
+                yield { type: 'tool_call_start', id, name };
+            } else if (event.type === 'content_block_delta') {
+                const { delta } = event;
+                if (delta.type === 'text_delta') yield { type: 'text_delta', delta: delta.text };
+                else if (delta.type === 'thinking_delta') yield { type: 'reasoning_delta', delta: delta.thinking };
+                else if (delta.type === 'input_json_delta' && toolUses.has(event.index)) toolUses.get(event.index)!.json += delta.partial_json;
+            } else if (event.type === 'content_block_stop' && toolUses.has(event.index)) {
+                const { id, name, json } = toolUses.get(event.index)!;
+                yield { type: 'tool_call', id, name, arguments: json || '{}' };
+            } else if (event.type === 'error') {
+                throw new Error(`Anthropic stream error: ${event.error?.message || data}`);
+            }
+        }
+        yield { type: 'completed', ...(usage && { usage }) };
+    }
+}
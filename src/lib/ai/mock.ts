@@ -0,0 +1,44 @@
+/**
+ * Scripted provider for tests and offline use; it never touches the network
+ * @module lib/ai/mock
+ */
+
+import { ModelProvider, ModelRequest, ModelStreamEvent, TokenUsage, contentText } from './types';
+
+/** What the mock answers to one request */
+export interface MockTurn {
+    text?: string;
+    reasoning?: string;
+    toolCalls?: { name: string; arguments: unknown }[];
+    usage?: TokenUsage;
+}
+
+export type MockHandler = (request: ModelRequest, turn: number) => MockTurn;
+
+// Without a script, answer with the last thing the user said
+const echo: MockHandler = ({ input }) => {
+    const message = [...input].reverse().find(item => item.type === 'message' && item.role === 'user');
+    const text = message?.type === 'message' ? contentText(message.content, () => '[attachment]') : '';
+    return { text: `Mock response to: ${text}` };
+};
+
+export class MockProvider implements ModelProvider {
+    readonly kind = 'mock';
+    /** Every request received, in order */
+    readonly requests: ModelRequest[] = [];
+
+    constructor(private handler: MockHandler = echo) {}
+
+    async *stream(request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+        this.requests.push(request);
+        const turn = this.handler(request, this.requests.length - 1);
+        if (turn.reasoning) yield { type: 'reasoning_delta', delta: turn.reasoning };
+        if (turn.text) yield { type: 'text_delta', delta: turn.text };
+        for (const [index, call] of (turn.toolCalls || []).entries()) {
+            const id = `mock_call_${this.requests.length}_${index}`;
+            yield { type: 'tool_call_start', id, name: call.name };
+            yield { type: 'tool_call', id, name: call.name, arguments: JSON.stringify(call.arguments) };
+        }
+        yield { type: 'completed', ...(turn.usage && { usage: turn.usage }) };
+    }
+}
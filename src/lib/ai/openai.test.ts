@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { ChatCompletionsProvider, ResponsesProvider, toChatMessages } from './openai';
+import { ModelProvider, ModelRequest, ModelStreamEvent } from './types';
+
+// A fetch answering with the given server-sent `data` payloads, recording the request bodies
+const sseFetch = (payloads: (object | string)[], requests: unknown[]) =>
+    (async (_url: string, init: RequestInit) => {
+        requests.push(JSON.parse(String(init.body)));
+        const text = payloads.map(payload => `data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`).join('');
+        return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    }) as unknown as typeof fetch;
+
+const collect = async (provider: ModelProvider, request: ModelRequest) => {
+    const events: ModelStreamEvent[] = [];
+    for await (const event of provider.stream(request)) events.push(event);
+    return events;
+};
+
+describe('openai', () => {
+    describe('toChatMessages', () => {
+        it('should attach tool calls to the assistant message before them', () => {
+            expect(toChatMessages({
+                instructions: 'Use tools.',
+                input: [
+                    { type: 'message', role: 'system', content: 'You edit documents.' },
+                    { type: 'message', role: 'user', content: [
+                        { type: 'input_text', text: 'What is this?' },
+                        { type: 'input_image', image_url: 'data:image/png;base64,AAAA' },
+                        { type: 'input_image', file_id: 'file-1' },
+                    ] },
+                    { type: 'message', role: 'assistant', content: 'Checking.' },
+                    { type: 'function_call', call_id: 'call_1', name: 'readFile', arguments: '{}' },
+                    { type: 'function_call', call_id: 'call_2', name: 'listFolder', arguments: '{}' },
+                    { type: 'function_call_output', call_id: 'call_1', output: 'A' },
+                    { type: 'function_call_output', call_id: 'call_2', output: 'B' },
+                ],
+            })).toEqual([
+                { role: 'system', content: 'Use tools.' },
+                { role: 'system', content: 'You edit documents.' },
+                { role: 'user', content: [
+                    { type: 'text', text: 'What is this?' },
+                    { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+                    { type: 'text', text: '[An attached image is only available to OpenAI models]' },
+                ] },
+                { role: 'assistant', content: 'Checking.', tool_calls: [
+                    { id: 'call_1', type: 'function', function: { name: 'readFile', arguments: '{}' } },
+                    { id: 'call_2', type: 'function', function: { name: 'listFolder', arguments: '{}' } },
+                ] },
+                { role: 'tool', tool_call_id: 'call_1', content: 'A' },
+                { role: 'tool', tool_call_id: 'call_2', content: 'B' },
+            ]);
+        });
+    });
+
+    describe('ChatCompletionsProvider', () => {
+        it('should stream reasoning and text, and assemble tool calls from their pieces', async () => {
+            const requests: unknown[] = [];
+            const chunk = (delta: object) => ({ id: 'c1', object: 'chat.completion.chunk', choices: [{ index: 0, delta }] });
+            const provider = new ChatCompletionsProvider({
+                baseURL: 'http://localhost:11434/v1',
+                fetch: sseFetch([
+                    chunk({ reasoning_content: 'Think' }),
+                    chunk({ content: 'On it.' }),
+                    chunk({ tool_calls: [{ index: 0, id: 'call_a', function: { name: 'readFile', arguments: '{"pa' } }] }),
+                    chunk({ tool_calls: [{ index: 0, function: { arguments: 'th":"a"}' } }] }),
+                    { id: 'c1', object: 'chat.completion.chunk', choices: [], usage: { prompt_tokens: 50, completion_tokens: 12, completion_tokens_details: { reasoning_tokens: 4 } } },
+                    '[DONE]',
+                ], requests),
+            });
+
+            const events = await collect(provider, {
+                model: 'qwen3',
+                input: [{ type: 'message', role: 'user', content: 'Hi' }],
+                tools: [{ name: 'readFile', description: 'Read a file', parameters: { type: 'object' } }],
+            });
+
+            expect(events).toEqual([
+                { type: 'reasoning_delta', delta: 'Think' },
+                { type: 'text_delta', delta: 'On it.' },
+                { type: 'tool_call_start', id: 'call_a', name: 'readFile' },
+                { type: 'tool_call', id: 'call_a', name: 'readFile', arguments: '{"path":"a"}' },
+                { type: 'completed', usage: { inputTokens: 50, outputTokens: 12, reasoningTokens: 4, cachedTokens: 0 } },
+            ]);
+            expect(requests[0]).toMatchObject({
+                model: 'qwen3',
+                stream: true,
+                stream_options: { include_usage: true },
+                tools: [{ type: 'function', function: { name: 'readFile' } }],
+            });
+        });
+    });
+
+    describe('ResponsesProvider', () => {
+        it('should only send reasoning options to reasoning models', async () => {
+            const requests: Record<string, unknown>[] = [];
+            const provider = new ResponsesProvider('azure', {
+                baseURL: 'http://localhost/api/ai/azure',
+                fetch: sseFetch([
+                    { type: 'response.output_text.delta', delta: 'Done', item_id: 'msg_1', output_index: 0, content_index: 0 },
+                    { type: 'response.output_item.done', output_index: 1, item: { type: 'function_call', call_id: 'call_1', name: 'readFile', arguments: '{}' } },
+                    { type: 'response.completed', response: { usage: {
+                        input_tokens: 900, input_tokens_details: { cached_tokens: 600 },
+                        output_tokens: 30, output_tokens_details: { reasoning_tokens: 10 },
+                    } } },
+                ], requests as unknown[]),
+            });
+
+            const events = await collect(provider, { model: 'gpt-4.1-mini', input: [] });
+            await collect(provider, { model: 'gpt-5-mini', input: [] });
+
+            expect(events).toEqual([
+                { type: 'text_delta', delta: 'Done' },
+                { type: 'tool_call', id: 'call_1', name: 'readFile', arguments: '{}' },
+                { type: 'completed', usage: { inputTokens: 900, outputTokens: 30, reasoningTokens: 10, cachedTokens: 600 } },
+            ]);
+            expect(requests[0]).not.toHaveProperty('reasoning');
+            expect(requests[1]).toMatchObject({ reasoning: { effort: 'medium' }, text: { verbosity: 'low' } });
+        });
+    });
+});
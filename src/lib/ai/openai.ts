@@ -0,0 +1,166 @@
+/**
+ * OpenAI providers: the Responses API (OpenAI, Azure OpenAI) and Chat Completions
+ * (OpenAI-compatible servers such as Ollama, LM Studio or vLLM)
+ * @module lib/ai/openai
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import OpenAI from 'openai';
+import { InputContent, ModelProvider, ModelRequest, ModelStreamEvent, ProviderKind, TokenUsage, contentText } from './types';
+
+export interface OpenAIProviderOptions {
+    baseURL: string;
+    apiKey?: string;
+    /** Replaces the global fetch (tests) */
+    fetch?: typeof fetch;
+}
+
+// Reasoning effort and summaries are only accepted by reasoning models; verbosity only by GPT-5
+const REASONING_MODEL = /^(gpt-5|o\d)/;
+const VERBOSITY_MODEL = /^gpt-5/;
+
+const createClient = ({ baseURL, apiKey, fetch }: OpenAIProviderOptions): OpenAI =>
+    new OpenAI({
+        // Keys live on the server; the /api/ai proxy adds them
+        apiKey: apiKey || 'dummy',
+        baseURL,
+        dangerouslyAllowBrowser: true,
+        ...(fetch && { fetch }),
+    });
+
+// Responses and Chat Completions report the same counts under different names
+const toUsage = (usage: any): TokenUsage | undefined => usage && {
+    inputTokens: usage.input_tokens ?? usage.prompt_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? usage.completion_tokens ?? 0,
+    reasoningTokens: (usage.output_tokens_details ?? usage.completion_tokens_details)?.reasoning_tokens ?? 0,
+    cachedTokens: (usage.input_tokens_details ?? usage.prompt_tokens_details)?.cached_tokens ?? 0,
+};
+
+/** Responses API provider (OpenAI, and Azure OpenAI through its v1 endpoint) */
+export class ResponsesProvider implements ModelProvider {
+    private client: OpenAI;
+
+    constructor(readonly kind: ProviderKind, options: OpenAIProviderOptions) {
+        this.client = createClient(options);
+    }
+
+    async *stream(request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+        const { model, input, instructions, tools, signal } = request;
+        const stream = await this.client.responses.create({
+            model,
+            input: input as any,
+            instructions,
+            stream: true,
+            ...(tools && tools.length > 0 && {
+                tools: tools.map(tool => ({ type: 'function' as const, ...tool, parameters: tool.parameters as any, strict: false })),
+                parallel_tool_calls: true,
+            }),
+            ...(REASONING_MODEL.test(model) && { reasoning: { summary: 'auto', effort: 'medium' } }),
+            ...(VERBOSITY_MODEL.test(model) && { text: { verbosity: 'low' } }),
+        }, { signal });
+
+        let usage: TokenUsage | undefined;
+        for await (const event of stream) {
+            if (event.type === 'response.completed') {
+                usage = toUsage(event.response.usage);
+            } else if (event.type === 'response.reasoning_summary_text.delta') {
+                yield { type: 'reasoning_delta', delta: event.delta || '' };
+            } else if (event.type === 'response.output_text.delta') {
+                yield { type: 'text_delta', delta: event.delta || '' };
+            } else if (event.type === 'response.output_item.added' && event.item.type === 'function_call') {
+                yield { type: 'tool_call_start', id: event.item.call_id, name: event.item.name };
+            } else if (event.type === 'response.output_item.done' && event.item.type === 'function_call') {
+                yield { type: 'tool_call', id: event.item.call_id, name: event.item.name, arguments: event.item.arguments };
+            }
+        }
+        yield { type: 'completed', ...(usage && { usage }) };
+    }
+}
+
+// Files uploaded to OpenAI (PDFs, generated images) are referenced by id, which other backends cannot resolve
+export const unavailablePart = (part: InputContent): string =>
+    `[An attached ${part.type === 'input_file' ? 'file' : 'image'} is only available to OpenAI models]`;
+
+/** Conversation items as Chat Completions messages; tool calls join the assistant message before them */
+export function toChatMessages(request: Pick<ModelRequest, 'input' | 'instructions'>): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (request.instructions) messages.push({ role: 'system', content: request.instructions });
+
+    for (const item of request.input) {
+        if (item.type === 'function_call') {
+            const last = messages[messages.length - 1];
+            const call = { id: item.call_id, type: 'function' as const, function: { name: item.name, arguments: item.arguments } };
+            if (last?.role === 'assistant') {
+                last.tool_calls = [...(last.tool_calls || []), call];
+            } else {
+                messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+            }
+        } else if (item.type === 'function_call_output') {
+            messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+        } else if (item.role === 'user' && typeof item.content !== 'string') {
+            messages.push({
+                role: 'user',
+                content: item.content.map(part => {
+                    if (part.type === 'input_text') return { type: 'text' as const, text: part.text };
+                    if (part.type === 'input_image' && part.image_url) return { type: 'image_url' as const, image_url: { url: part.image_url } };
+                    return { type: 'text' as const, text: unavailablePart(part) };
+                }),
+            });
+        } else {
+            messages.push({ role: item.role, content: contentText(item.content, unavailablePart) });
+        }
+    }
+    return messages;
+}
+
+/** Chat Completions provider for OpenAI-compatible servers */
+export class ChatCompletionsProvider implements ModelProvider {
+    readonly kind = 'openai-compatible';
+    private client: OpenAI;
+
+    constructor(options: OpenAIProviderOptions) {
+        this.client = createClient(options);
+    }
+
+    async *stream(request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+        const { model, tools, signal } = request;
+        const stream = await this.client.chat.completions.create({
+            model,
+            messages: toChatMessages(request),
+            stream: true,
+            // Usage arrives in a last chunk without choices
+            stream_options: { include_usage: true },
+            ...(tools && tools.length > 0 && {
+                tools: tools.map(({ name, description, parameters }) => ({
+                    type: 'function' as const,
+                    function: { name, description, parameters: parameters as any },
+                })),
+            }),
+        }, { signal });
+
+        // Tool calls arrive in pieces keyed by their index in the message
+        const calls: { id: string; name: string; arguments: string }[] = [];
+        let usage: TokenUsage | undefined;
+        for await (const chunk of stream) {
+            if (chunk.usage) usage = toUsage(chunk.usage);
+            const delta: any = chunk.choices[0]?.delta;
+            if (!delta) continue;
+            // Servers running reasoning models report their thinking under either name
+            const reasoning = delta.reasoning_content ?? delta.reasoning;
+            if (reasoning) yield { type: 'reasoning_delta', delta: reasoning };
+            if (delta.content) yield { type: 'text_delta', delta: delta.content };
+            for (const part of delta.tool_calls || []) {
+                const call = calls[part.index] ||= { id: part.id || `call_${Date.now()}_${part.index}`, name: '', arguments: '' };
+                if (part.function?.name && !call.name) {
+                    call.name = part.function.name;
+                    yield { type: 'tool_call_start', id: call.id, name: call.name };
+                }
+                call.arguments += part.function?.arguments || '';
+            }
+        }
+        for (const call of calls.filter(Boolean)) {
+            yield { type: 'tool_call', id: call.id, name: call.name, arguments: call.arguments };
+        }
+        yield { type: 'completed', ...(usage && { usage }) };
+    }
+}
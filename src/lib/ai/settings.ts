@@ -0,0 +1,85 @@
+/**
+ * Per-role model settings and per-model pricing, stored in IndexedDB, and the providers they resolve to
+ * @module lib/ai/settings
+ */
+
+import { STORAGE_KEYS, getFromDB, saveToDB } from '../indexeddb';
+import { AnthropicProvider } from './anthropic';
+import { MockProvider } from './mock';
+import { ChatCompletionsProvider, ResponsesProvider } from './openai';
+import { ModelProvider, ModelRole, ProviderKind, ResolvedModel } from './types';
+import type { ModelPricing } from './usage';
+
+export interface RoleModel {
+    provider: ProviderKind;
+    model: string;
+}
+
+export interface ModelSettings {
+    roles: Record<ModelRole, RoleModel>;
+    /** OpenAI-compatible server, called from the browser (e.g. http://localhost:11434/v1 for Ollama) */
+    compatibleBaseURL: string;
+    compatibleApiKey: string;
+    /** Pricing by model name; calls of models without one are not costed */
+    pricing: Record<string, ModelPricing>;
+}
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+    roles: {
+        agent: { provider: 'openai', model: 'gpt-5-mini' },
+        search: { provider: 'openai', model: 'gpt-4.1-mini' },
+        review: { provider: 'openai', model: 'gpt-4.1-mini' },
+    },
+    compatibleBaseURL: 'http://localhost:11434/v1',
+    compatibleApiKey: '',
+    pricing: {
+        'gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 2 },
+        'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+    },
+};
+
+/** Stored settings over the defaults, so roles added later still resolve */
+export async function loadModelSettings(): Promise<ModelSettings> {
+    let stored: Partial<ModelSettings> | undefined;
+    try {
+        stored = await getFromDB<Partial<ModelSettings>>(STORAGE_KEYS.MODEL_SETTINGS);
+    } catch (e) {
+        console.error('Failed to load model settings:', e);
+    }
+    return {
+        ...DEFAULT_MODEL_SETTINGS,
+        ...stored,
+        roles: { ...DEFAULT_MODEL_SETTINGS.roles, ...stored?.roles },
+    };
+}
+
+export const saveModelSettings = (settings: ModelSettings): Promise<void> =>
+    saveToDB(STORAGE_KEYS.MODEL_SETTINGS, settings);
+
+/** Pricing of the model configured for a role, if it has one */
+export const rolePricing = (settings: ModelSettings, role: ModelRole): ModelPricing | undefined =>
+    settings.pricing[settings.roles[role].model];
+
+/** Hosted providers go through the /api/ai proxy, which holds their keys */
+export function createProvider(kind: ProviderKind, settings: Pick<ModelSettings, 'compatibleBaseURL' | 'compatibleApiKey'>): ModelProvider {
+    const proxy = `${typeof window !== 'undefined' ? window.location.origin : ''}/api/ai`;
+    switch (kind) {
+        case 'openai':
+            return new ResponsesProvider('openai', { baseURL: proxy });
+        case 'azure':
+            return new ResponsesProvider('azure', { baseURL: `${proxy}/azure` });
+        case 'anthropic':
+            return new AnthropicProvider({ baseURL: `${proxy}/anthropic` });
+        case 'openai-compatible':
+            return new ChatCompletionsProvider({ baseURL: settings.compatibleBaseURL, apiKey: settings.compatibleApiKey });
+        case 'mock':
+            return new MockProvider();
+    }
+}
+
+/** The provider and model currently configured for a role */
+export async function resolveModel(role: ModelRole): Promise<ResolvedModel> {
+    const settings = await loadModelSettings();
+    const { provider, model } = settings.roles[role];
+    return { provider: createProvider(provider, settings), model };
+}
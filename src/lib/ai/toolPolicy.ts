@@ -0,0 +1,42 @@
+/**
+ * Per-tool approval policy of the agent, stored in IndexedDB
+ * @module lib/ai/toolPolicy
+ */
+
+import { STORAGE_KEYS, getFromDB, saveToDB } from '../indexeddb';
+
+/** auto: run right away, ask: wait for the user to approve the call, deny: never run */
+export type ToolPolicy = 'auto' | 'ask' | 'deny';
+
+export type ToolPolicies = Record<string, ToolPolicy>;
+
+/** Tools that delete content or finalize changes ask first; every other tool runs automatically */
+export const DEFAULT_TOOL_POLICIES: ToolPolicies = {
+    deleteBlock: 'ask',
+    acceptAllChanges: 'ask',
+    rejectAllChanges: 'ask',
+    createSpreadsheet: 'ask',
+    deleteRow: 'ask',
+};
+
+/** Tools listed in the settings, grouped by what they edit */
+export const CONFIGURABLE_TOOLS: { group: string; tools: string[] }[] = [
+    { group: '文書', tools: ['deleteBlock', 'acceptAllChanges', 'rejectAllChanges', 'editText', 'insertContent', 'modifyTable', 'resolveComment'] },
+    { group: 'スプレッドシート', tools: ['deleteRow', 'createSpreadsheet', 'editSpreadsheet', 'insertRow', 'formatSpreadsheet'] },
+];
+
+export const toolPolicy = (policies: ToolPolicies, name: string): ToolPolicy => policies[name] ?? 'auto';
+
+/** Stored policies over the defaults */
+export async function loadToolPolicies(): Promise<ToolPolicies> {
+    let stored: ToolPolicies | undefined;
+    try {
+        stored = await getFromDB<ToolPolicies>(STORAGE_KEYS.TOOL_POLICIES);
+    } catch (e) {
+        console.error('Failed to load tool policies:', e);
+    }
+    return { ...DEFAULT_TOOL_POLICIES, ...stored };
+}
+
+export const saveToolPolicies = (policies: ToolPolicies): Promise<void> =>
+    saveToDB(STORAGE_KEYS.TOOL_POLICIES, policies);
@@ -0,0 +1,84 @@
+/**
+ * Model provider abstraction shared by the agent loop and its sub-agents
+ * @module lib/ai/types
+ */
+
+/** Backends a role can be pointed at */
+export type ProviderKind = 'openai' | 'azure' | 'anthropic' | 'openai-compatible' | 'mock';
+
+/** Parts of the agent that call a model: the main loop and the sub-agents of its tools */
+export type ModelRole = 'agent' | 'search' | 'review';
+
+/** Content of a message, in the Responses API shape every provider translates from */
+export type InputContent =
+    | { type: 'input_text'; text: string }
+    | { type: 'input_image'; image_url?: string; file_id?: string }
+    | { type: 'input_file'; file_id: string };
+
+/** An item of the conversation sent to the model (Responses API input items) */
+export type ConversationItem =
+    | { type: 'message'; role: 'system' | 'user' | 'assistant'; content: string | InputContent[] }
+    | { type: 'function_call'; call_id: string; name: string; arguments: string }
+    | { type: 'function_call_output'; call_id: string; output: string };
+
+/** A function the model may call; `parameters` is a JSON schema */
+export interface ModelTool {
+    name: string;
+    description: string;
+    parameters: unknown;
+}
+
+export interface ModelRequest {
+    model: string;
+    input: ConversationItem[];
+    /** Extra system instructions, sent apart from the conversation where the API allows it */
+    instructions?: string;
+    tools?: ModelTool[];
+    signal?: AbortSignal;
+}
+
+/** Tokens of a model call; cached tokens are part of the input, reasoning tokens part of the output */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    reasoningTokens: number;
+    cachedTokens: number;
+}
+
+/**
+ * What a provider streams back; a tool call is announced by `tool_call_start` and complete at `tool_call`.
+ * `completed` carries the usage of the call when the backend reports it.
+ */
+export type ModelStreamEvent =
+    | { type: 'text_delta'; delta: string }
+    | { type: 'reasoning_delta'; delta: string }
+    | { type: 'tool_call_start'; id: string; name: string }
+    | { type: 'tool_call'; id: string; name: string; arguments: string }
+    | { type: 'completed'; usage?: TokenUsage };
+
+export interface ModelProvider {
+    readonly kind: ProviderKind;
+    stream(request: ModelRequest): AsyncIterable<ModelStreamEvent>;
+}
+
+/** A provider with the model configured for a role */
+export interface ResolvedModel {
+    provider: ModelProvider;
+    model: string;
+}
+
+/** Run a request to the end and return the text the model wrote (sub-agents use no tools) */
+export async function completeText(provider: ModelProvider, request: ModelRequest, onUsage?: (usage: TokenUsage) => void): Promise<string> {
+    let text = '';
+    for await (const event of provider.stream(request)) {
+        if (event.type === 'text_delta') text += event.delta;
+        else if (event.type === 'completed' && event.usage) onUsage?.(event.usage);
+    }
+    return text;
+}
+
+/** Text of a message content, with a note in place of parts a provider cannot send */
+export const contentText = (content: string | InputContent[], unsupported: (part: InputContent) => string): string =>
+    typeof content === 'string'
+        ? content
+        : content.map(part => (part.type === 'input_text' ? part.text : unsupported(part))).join('\n');
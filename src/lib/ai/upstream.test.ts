@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { resolveUpstream } from './upstream';
+
+describe('resolveUpstream', () => {
+    const env = {
+        OPENAI_API_KEY: 'sk-openai',
+        AZURE_OPENAI_ENDPOINT: 'https://contoso.openai.azure.com/',
+        AZURE_OPENAI_API_KEY: 'azure-key',
+        ANTHROPIC_API_KEY: 'sk-ant',
+    };
+
+    it('should route each provider prefix to its API with its credentials', () => {
+        expect(resolveUpstream(['responses'], env)).toEqual({
+            url: 'https://api.openai.com/v1/responses',
+            headers: { Authorization: 'Bearer sk-openai' },
+        });
+        expect(resolveUpstream(['azure', 'responses'], env)).toEqual({
+            url: 'https://contoso.openai.azure.com/openai/v1/responses',
+            headers: { 'api-key': 'azure-key' },
+        });
+        expect(resolveUpstream(['anthropic', 'messages'], env)).toEqual({
+            url: 'https://api.anthropic.com/v1/messages',
+            headers: { 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' },
+        });
+    });
+
+    it('should only require the keys of the provider in use', () => {
+        expect(resolveUpstream(['anthropic', 'messages'], { ANTHROPIC_API_KEY: 'sk-ant' })).not.toHaveProperty('error');
+        expect(resolveUpstream(['azure', 'responses'], { OPENAI_API_KEY: 'sk-openai' })).toEqual({
+            error: 'AZURE_OPENAI_ENDPOINT or AZURE_OPENAI_API_KEY is missing',
+        });
+        expect(resolveUpstream(['files'], {})).toEqual({ error: 'OPENAI_API_KEY is missing' });
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * Where the /api/ai proxy forwards a request, and the credentials it adds
+ * @module lib/ai/upstream
+ */
+
+export interface Upstream {
+    url: string;
+    headers: Record<string, string>;
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * The upstream for a proxied path: `azure/...` goes to the Azure OpenAI v1 API, `anthropic/...`
+ * to the Anthropic API and anything else to OpenAI. Returns an error message when the server
+ * lacks the configuration of that provider.
+ */
+export function resolveUpstream(pathSegments: string[], env: Env): Upstream | { error: string } {
+    const [first, ...rest] = pathSegments;
+
+    if (first === 'azure') {
+        const endpoint = env.AZURE_OPENAI_ENDPOINT?.replace(/\/+$/, '');
+        const apiKey = env.AZURE_OPENAI_API_KEY;
+        if (!endpoint || !apiKey) return { error: 'AZURE_OPENAI_ENDPOINT or AZURE_OPENAI_API_KEY is missing' };
+        return { url: `${endpoint}/openai/v1/${rest.join('/')}`, headers: { 'api-key': apiKey } };
+    }
+
+    if (first === 'anthropic') {
+        const apiKey = env.ANTHROPIC_API_KEY;
+        if (!apiKey) return { error: 'ANTHROPIC_API_KEY is missing' };
+        return {
+            url: `https://api.anthropic.com/v1/${rest.join('/')}`,
+            headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        };
+    }
+
+    const apiKey = env.OPENAI_API_KEY;
+    if (!apiKey) return { error: 'OPENAI_API_KEY is missing' };
+    return { url: `https://api.openai.com/v1/${pathSegments.join('/')}`, headers: { 'Authorization': `Bearer ${apiKey}` } };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_TURN_USAGE, addModelCall, budgetExceeded, formatCost, formatDuration, formatTokens, sessionUsage, usageCost } from './usage';
+import { ChatMessage } from '@/types';
+
+const usage = (inputTokens: number, outputTokens: number) => ({ inputTokens, outputTokens, reasoningTokens: 0, cachedTokens: 0 });
+
+describe('usage', () => {
+    it('should count the main agent and its sub-agents apart and sum the turns of a session', () => {
+        let turn = addModelCall(EMPTY_TURN_USAGE, 'agent', usage(100, 10));
+        turn = addModelCall(turn, 'search', usage(50, 5));
+        turn = addModelCall(turn, 'review', usage(20, 2));
+        expect(turn).toEqual({ agent: usage(100, 10), subAgents: usage(70, 7), modelCalls: 3, durationMs: 0 });
+
+        const message = (id: string, extra: Partial<ChatMessage> = {}): ChatMessage =>
+            ({ id, role: 'assistant', content: '', timestamp: new Date(0), ...extra });
+        expect(sessionUsage([
+            message('1', { usage: { ...turn, durationMs: 1000 } }),
+            message('2'),
+            message('3', { usage: { ...turn, durationMs: 500 } }),
+        ])).toEqual({ agent: usage(200, 20), subAgents: usage(140, 14), modelCalls: 6, durationMs: 1500 });
+    });
+
+    it('should cost calls at their model pricing and add up the priced ones', () => {
+        const pricing = { input: 2, cachedInput: 0.5, output: 8 };
+        expect(usageCost({ ...usage(1_000_000, 500_000), cachedTokens: 400_000 }, pricing)).toBeCloseTo(1.2 + 0.2 + 4);
+        expect(usageCost(usage(1_000_000, 0), { input: 2, output: 8 })).toBe(2);
+        expect(usageCost(usage(100, 10), undefined)).toBeUndefined();
+
+        let turn = addModelCall(EMPTY_TURN_USAGE, 'agent', usage(100, 10));
+        expect(turn.cost).toBeUndefined();
+        turn = addModelCall(turn, 'search', usage(50, 5), 0.25);
+        turn = addModelCall(turn, 'agent', usage(100, 10));
+        expect(turn.cost).toBe(0.25);
+
+        const message = (id: string, cost?: number): ChatMessage =>
+            ({ id, role: 'assistant', content: '', timestamp: new Date(0), usage: { ...EMPTY_TURN_USAGE, cost } });
+        expect(sessionUsage([message('1', 0.25), message('2'), message('3', 0.5)]).cost).toBe(0.75);
+        expect(sessionUsage([message('1')]).cost).toBeUndefined();
+    });
+
+    it('should stop on the turn budget before the session budget', () => {
+        const budget = { turnTokens: 1000, sessionTokens: 5000 };
+        expect(budgetExceeded(budget, 900, 4900)).toBeNull();
+        expect(budgetExceeded(budget, 1200, 6000)).toMatch(/^This turn used 1,200 tokens/);
+        expect(budgetExceeded(budget, 900, 5100)).toMatch(/^This chat used 5,100 tokens/);
+        expect(budgetExceeded({ turnTokens: null, sessionTokens: null }, 1e9, 1e9)).toBeNull();
+    });
+
+    it('should format tokens, costs and durations', () => {
+        expect([950, 12_345, 2_500_000].map(formatTokens)).toEqual(['950', '12.3k', '2.5M']);
+        expect([850, 12_340, 125_000].map(formatDuration)).toEqual(['850ms', '12.3s', '2m 5s']);
+        expect([999.7, 59_960, 119_500].map(formatDuration)).toEqual(['1.0s', '1m 0s', '2m 0s']);
+        expect([0.0042, 1.254].map(formatCost)).toEqual(['$0.0042', '$1.25']);
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Token, cost and time accounting of agent turns and sessions, and the budget that stops a run
+ * @module lib/ai/usage
+ */
+
+import type { ChatMessage, TurnUsage } from '@/types';
+import { STORAGE_KEYS, getFromDB, saveToDB } from '../indexeddb';
+import { ModelRole, TokenUsage } from './types';
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, reasoningTokens: 0, cachedTokens: 0 };
+
+export const EMPTY_TURN_USAGE: TurnUsage = { agent: EMPTY_USAGE, subAgents: EMPTY_USAGE, modelCalls: 0, durationMs: 0 };
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+});
+
+/** Input and output tokens; reasoning and cached tokens are already counted in them */
+export const totalTokens = (usage: TokenUsage): number => usage.inputTokens + usage.outputTokens;
+
+export const turnTokens = (usage: TurnUsage): TokenUsage => addUsage(usage.agent, usage.subAgents);
+
+/** Price of a model in USD per million tokens; cached input is billed at the input price when not set */
+export interface ModelPricing {
+    input: number;
+    cachedInput?: number;
+    output: number;
+}
+
+/** Price in USD of a model call, or undefined when its model has no pricing */
+export const usageCost = (usage: TokenUsage, pricing: ModelPricing | undefined): number | undefined => {
+    if (!pricing) return undefined;
+    const uncached = usage.inputTokens - usage.cachedTokens;
+    const cached = usage.cachedTokens * (pricing.cachedInput ?? pricing.input);
+    return (uncached * pricing.input + cached + usage.outputTokens * pricing.output) / 1_000_000;
+};
+
+// Costs add up while any call was priced
+const addCost = (a: number | undefined, b: number | undefined): number | undefined =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+
+/** The turn's usage with one more model call of the main agent or of a sub-agent */
+export const addModelCall = (turn: TurnUsage, source: ModelRole, usage: TokenUsage, cost?: number): TurnUsage => ({
+    ...turn,
+    agent: source === 'agent' ? addUsage(turn.agent, usage) : turn.agent,
+    subAgents: source === 'agent' ? turn.subAgents : addUsage(turn.subAgents, usage),
+    modelCalls: turn.modelCalls + 1,
+    cost: addCost(turn.cost, cost),
+});
+
+/** Usage of every turn of a session */
+export const sessionUsage = (messages: ChatMessage[]): TurnUsage =>
+    messages.reduce((sum, { usage }) => usage ? {
+        agent: addUsage(sum.agent, usage.agent),
+        subAgents: addUsage(sum.subAgents, usage.subAgents),
+        modelCalls: sum.modelCalls + usage.modelCalls,
+        durationMs: sum.durationMs + usage.durationMs,
+        cost: addCost(sum.cost, usage.cost),
+    } : sum, EMPTY_TURN_USAGE);
+
+/** Token limits of a turn and of a whole session; null is unlimited */
+export interface UsageBudget {
+    turnTokens: number | null;
+    sessionTokens: number | null;
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { turnTokens: null, sessionTokens: null };
+
+export async function loadUsageBudget(): Promise<UsageBudget> {
+    let stored: Partial<UsageBudget> | undefined;
+    try {
+        stored = await getFromDB<Partial<UsageBudget>>(STORAGE_KEYS.USAGE_BUDGET);
+    } catch (e) {
+        console.error('Failed to load usage budget:', e);
+    }
+    return { ...DEFAULT_USAGE_BUDGET, ...stored };
+}
+
+export const saveUsageBudget = (budget: UsageBudget): Promise<void> =>
+    saveToDB(STORAGE_KEYS.USAGE_BUDGET, budget);
+
+/** Why the run must stop, or null while both the turn and the session are within budget */
+export function budgetExceeded(budget: UsageBudget, turn: number, session: number): string | null {
+    if (budget.turnTokens !== null && turn > budget.turnTokens) {
+        return `This turn used ${turn.toLocaleString()} tokens, over its budget of ${budget.turnTokens.toLocaleString()}`;
+    }
+    if (budget.sessionTokens !== null && session > budget.sessionTokens) {
+        return `This chat used ${session.toLocaleString()} tokens, over its budget of ${budget.sessionTokens.toLocaleString()}`;
+    }
+    return null;
+}
+
+/** Token count for display (950, 12.3k, 1.2M) */
+export const formatTokens = (tokens: number): string => {
+    if (tokens < 1000) return String(tokens);
+    if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
+
+/** Cost for display ($0.0042, $1.25) */
+export const formatCost = (usd: number): string => `$${usd.toFixed(usd < 0.01 ? 4 : 2)}`;
+
+/** Duration for display (850ms, 12.3s, 2m 5s) */
+export const formatDuration = (ms: number): string => {
+    // Round before splitting so a value just under a unit boundary carries over (119.5s is "2m 0s", not "1m 60s")
+    if (Math.round(ms) < 1000) return `${Math.round(ms)}ms`;
+    const tenths = Math.round(ms / 100);
+    if (tenths < 600) return `${(tenths / 10).toFixed(1)}s`;
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
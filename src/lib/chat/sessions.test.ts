@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { ChatMessage, ChatSession } from '@/types';
+import { createChatSession, defaultSessionTitle, expirePendingApprovals, forkChatSession, searchChatSessions, sessionToMarkdown, upsertSessionSummary, workspaceKey } from './sessions';
+
+const message = (id: string, role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage =>
+    ({ id, role, content, timestamp: new Date('2026-03-01T09:00:00Z'), ...extra });
+
+const session = (overrides: Partial<ChatSession> = {}): ChatSession => ({
+    id: 's1',
+    title: 'Review the lease',
+    workspace: 'contracts',
+    filePath: 'contracts/lease.docx',
+    createdAt: Date.parse('2026-03-01T09:00:00Z'),
+    updatedAt: Date.parse('2026-03-01T09:05:00Z'),
+    messageCount: 2,
+    messages: [
+        message('m1', 'user', 'Review the lease\nFocus on termination'),
+        message('m2', 'assistant', 'The termination notice period is 30 days.', {
+            items: [
+                { type: 'reasoning', id: 'r1', content: 'Look for the notice clause' },
+                { type: 'tool_call', data: { id: 't1', name: 'keywordSearch', args: { query: 'terminate' }, result: 'Found in block 12: ```notice```', status: 'success', timestamp: 0 } },
+            ],
+        }),
+    ],
+    ...overrides,
+});
+
+describe('sessions', () => {
+    it('should title a chat after the first line of its first user message', () => {
+        expect(defaultSessionTitle([message('m1', 'user', '  '), message('m2', 'user', 'Draft a reply\nin English')])).toBe('Draft a reply');
+        expect(defaultSessionTitle([message('m1', 'user', 'x'.repeat(70))])).toBe(`${'x'.repeat(60)}…`);
+        expect(defaultSessionTitle([])).toBe('新しいチャット');
+    });
+
+    it('should key workspaces by their roots in any order', () => {
+        expect(workspaceKey([{ name: 'b' }, { name: 'a' }])).toBe(workspaceKey([{ name: 'a' }, { name: 'b' }]));
+    });
+
+    it('should keep the index sorted by last update', () => {
+        const older = { ...session({ id: 'old', updatedAt: 1 }), messages: undefined };
+        const index = upsertSessionSummary([older], { ...session(), messageCount: 2 });
+
+        expect(index.map(item => item.id)).toEqual(['s1', 'old']);
+        expect(upsertSessionSummary(index, { ...index[1], updatedAt: 10 ** 13 }).map(item => item.id)).toEqual(['old', 's1']);
+    });
+
+    it('should fork a session up to a message', () => {
+        const fork = forkChatSession(session(), 'm1');
+
+        expect(fork.id).not.toBe('s1');
+        expect(fork).toMatchObject({ title: 'Review the lease (フォーク)', forkedFrom: 's1', workspace: 'contracts', messageCount: 1 });
+        expect(fork.messages.map(item => item.id)).toEqual(['m1']);
+        expect(createChatSession({ workspace: '', filePath: null, messages: [message('m1', 'user', 'Hi')] }).title).toBe('Hi');
+    });
+
+    it('should deny tool calls stored while waiting for approval', () => {
+        const waiting = { id: 't2', name: 'deleteBlock', args: {}, status: 'running' as const, approval: 'pending' as const, timestamp: 0 };
+        const [restored] = expirePendingApprovals([message('m3', 'assistant', '', { items: [{ type: 'tool_call', data: waiting }] })]);
+
+        expect(restored.items).toEqual([{ type: 'tool_call', data: { ...waiting, approval: 'denied', status: 'failure' } }]);
+        expect(expirePendingApprovals(session().messages)).toEqual(session().messages);
+    });
+
+    it('should search message text, reasoning and tool calls for every term', () => {
+        const other = session({ id: 's2', title: 'Budget', updatedAt: 1, messages: [message('m3', 'user', 'Sum the Q1 column')] });
+
+        const results = searchChatSessions([other, session()], 'NOTICE block');
+        expect(results).toHaveLength(1);
+        expect(results[0].session).toMatchObject({ id: 's1', messageCount: 2 });
+        expect(results[0].session).not.toHaveProperty('messages');
+        expect(results[0].matches).toEqual([{ messageId: 'm2', role: 'assistant', snippet: expect.stringContaining('notice') }]);
+
+        expect(searchChatSessions([other, session()], 'budget').map(result => [result.session.id, result.titleMatch])).toEqual([['s2', true]]);
+        expect(searchChatSessions([session()], '   ')).toEqual([]);
+    });
+
+    it('should export reasoning, tool calls and results to Markdown', () => {
+        const markdown = sessionToMarkdown(session());
+
+        expect(markdown).toContain('# Review the lease\n\n- Workspace: contracts\n- File: contracts/lease.docx\n- Created: 2026-03-01T09:00:00.000Z');
+        expect(markdown).toContain('## User (2026-03-01T09:00:00.000Z)\n\nReview the lease\nFocus on termination');
+        expect(markdown).toContain('> Look for the notice clause');
+        expect(markdown).toContain('**Tool call `keywordSearch`** (success)\n\n```json\n{\n  "query": "terminate"\n}\n```');
+        // The result holds a code fence, so it is wrapped in a longer one
+        expect(markdown).toContain('Result:\n\n````\nFound in block 12: ```notice```\n````');
+        expect(markdown.indexOf('keywordSearch')).toBeLessThan(markdown.indexOf('The termination notice period'));
+    });
+});
@@ -0,0 +1,225 @@
+/**
+ * Chat sessions: IndexedDB storage, full-text search and Markdown export
+ * @module lib/chat/sessions
+ */
+
+import { ChatMessage, ChatSession, ChatSessionSummary, FileSystemItem, MessageItem, ToolCall } from '@/types';
+import { STORAGE_KEYS, deleteFromDB, getFromDB, saveToDB } from '../indexeddb';
+
+const TITLE_LENGTH = 60;
+const SNIPPET_RADIUS = 40;
+
+// Each session is stored under its own key; the index under STORAGE_KEYS.CHAT_SESSIONS lists them all
+const sessionKey = (id: string) => `chat_session_${id}`;
+
+export const loadChatSessionIndex = async (): Promise<ChatSessionSummary[]> =>
+    (await getFromDB<ChatSessionSummary[]>(STORAGE_KEYS.CHAT_SESSIONS)) || [];
+
+export const saveChatSessionIndex = (index: ChatSessionSummary[]): Promise<void> =>
+    saveToDB(STORAGE_KEYS.CHAT_SESSIONS, index);
+
+export const loadChatSession = (id: string): Promise<ChatSession | undefined> =>
+    getFromDB<ChatSession>(sessionKey(id));
+
+export const saveChatSession = (session: ChatSession): Promise<void> =>
+    saveToDB(sessionKey(session.id), session);
+
+export const removeChatSession = (id: string): Promise<void> =>
+    deleteFromDB(sessionKey(id));
+
+/** Sessions are grouped by the set of roots open in the workspace */
+export const workspaceKey = (rootItems: Pick<FileSystemItem, 'name'>[]): string =>
+    rootItems.map(item => item.name).sort().join(', ');
+
+// The active session of each workspace, keyed by workspaceKey
+const loadActiveSessionIds = async (): Promise<Record<string, string>> => {
+    const stored = await getFromDB<Record<string, string> | string>(STORAGE_KEYS.ACTIVE_CHAT_SESSION);
+    return stored && typeof stored === 'object' ? stored : {};
+};
+
+export const loadActiveSessionId = async (workspace: string): Promise<string | undefined> =>
+    (await loadActiveSessionIds())[workspace];
+
+/** Point the workspace at its active session, or clear its pointer with null */
+export async function saveActiveSessionId(workspace: string, id: string | null): Promise<void> {
+    const ids = await loadActiveSessionIds();
+    if (id) {
+        ids[workspace] = id;
+    } else {
+        delete ids[workspace];
+    }
+    await saveToDB(STORAGE_KEYS.ACTIVE_CHAT_SESSION, ids);
+}
+
+export const summarizeSession = ({ messages, ...summary }: ChatSession): ChatSessionSummary =>
+    ({ ...summary, messageCount: messages.length });
+
+/** The index with `summary` added or replaced, most recently updated first */
+export const upsertSessionSummary = (index: ChatSessionSummary[], summary: ChatSessionSummary): ChatSessionSummary[] =>
+    [summary, ...index.filter(item => item.id !== summary.id)].sort((a, b) => b.updatedAt - a.updatedAt);
+
+/** First line of the first user message, shortened */
+export function defaultSessionTitle(messages: ChatMessage[]): string {
+    const first = messages.find(message => message.role === 'user' && message.content.trim());
+    if (!first) return '新しいチャット';
+    const line = first.content.trim().split('\n')[0];
+    return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH)}…` : line;
+}
+
+export function createChatSession(options: {
+    workspace: string;
+    filePath: string | null;
+    messages: ChatMessage[];
+    title?: string;
+    forkedFrom?: string;
+}): ChatSession {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        title: options.title || defaultSessionTitle(options.messages),
+        workspace: options.workspace,
+        filePath: options.filePath,
+        createdAt: now,
+        updatedAt: now,
+        messageCount: options.messages.length,
+        messages: options.messages,
+        ...(options.forkedFrom && { forkedFrom: options.forkedFrom }),
+    };
+}
+
+/** A copy of the session to continue separately, up to and including `untilMessageId` when given */
+export function forkChatSession(session: ChatSession, untilMessageId?: string): ChatSession {
+    const end = untilMessageId ? session.messages.findIndex(message => message.id === untilMessageId) + 1 : 0;
+    return createChatSession({
+        workspace: session.workspace,
+        filePath: session.filePath,
+        messages: end > 0 ? session.messages.slice(0, end) : [...session.messages],
+        title: `${session.title} (フォーク)`,
+        forkedFrom: session.id,
+    });
+}
+
+// A call stored while waiting for approval can no longer run: its wait ended with the page or the chat
+const expireApproval = (call: ToolCall): ToolCall =>
+    call.approval === 'pending' ? { ...call, approval: 'denied', status: 'failure' } : call;
+
+/** The messages with tool calls stored as waiting for approval marked denied */
+export const expirePendingApprovals = (messages: ChatMessage[]): ChatMessage[] =>
+    messages.map(message => ({
+        ...message,
+        ...(message.items && { items: message.items.map(item => item.type === 'tool_call' ? { ...item, data: expireApproval(item.data) } : item) }),
+        ...(message.toolCalls && { toolCalls: message.toolCalls.map(expireApproval) }),
+    }));
+
+const stringify = (value: unknown): string =>
+    typeof value === 'string' ? value : JSON.stringify(value ?? '', null, 2);
+
+const toolCallText = (call: ToolCall) => [call.name, stringify(call.args), stringify(call.result)].join('\n');
+
+const itemText = (item: MessageItem): string => {
+    if (item.type === 'reasoning') return item.content;
+    if (item.type === 'tool_call') return toolCallText(item.data);
+    return [item.query, ...item.matches.map(match => match.text)].join('\n');
+};
+
+/** Everything searchable in a message: its text, reasoning and tool calls */
+const messageText = (message: ChatMessage): string =>
+    [
+        message.content,
+        message.reasoning,
+        ...(message.items || []).map(itemText),
+        ...(message.items?.length ? [] : (message.toolCalls || []).map(toolCallText)),
+    ].filter(Boolean).join('\n');
+
+const snippet = (text: string, term: string): string => {
+    const index = text.toLowerCase().indexOf(term);
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + term.length + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+};
+
+export interface ChatSearchResult {
+    session: ChatSessionSummary;
+    /** Every term of the query appears in the title */
+    titleMatch: boolean;
+    /** Messages holding every term of the query */
+    matches: { messageId: string; role: ChatMessage['role']; snippet: string }[];
+}
+
+/** Sessions whose title or messages contain every whitespace-separated term of the query (case-insensitive) */
+export function searchChatSessions(sessions: ChatSession[], query: string): ChatSearchResult[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    const containsAll = (text: string) => {
+        const lower = text.toLowerCase();
+        return terms.every(term => lower.includes(term));
+    };
+
+    return sessions
+        .map(session => ({
+            session: summarizeSession(session),
+            titleMatch: containsAll(session.title),
+            matches: session.messages.flatMap(message => {
+                const text = messageText(message);
+                return containsAll(text) ? [{ messageId: message.id, role: message.role, snippet: snippet(text, terms[0]) }] : [];
+            }),
+        }))
+        .filter(result => result.titleMatch || result.matches.length > 0)
+        .sort((a, b) => b.session.updatedAt - a.session.updatedAt);
+}
+
+const ROLE_HEADINGS: Record<ChatMessage['role'], string> = { user: 'User', assistant: 'Assistant', system: 'System' };
+
+const formatDate = (value: Date | number | string) => new Date(value).toISOString();
+
+// A fence longer than any backtick run inside the text
+const fenced = (text: string, language = ''): string => {
+    const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const toolCallMarkdown = (call: ToolCall): string[] => [
+    `**Tool call \`${call.name}\`** (${call.status})`,
+    '',
+    fenced(stringify(call.args), 'json'),
+    '',
+    ...(call.result !== undefined ? ['Result:', '', fenced(stringify(call.result)), ''] : []),
+];
+
+const reasoningMarkdown = (text: string): string[] => [text.split('\n').map(line => `> ${line}`).join('\n'), ''];
+
+/** The session as a Markdown document, with reasoning, tool calls and their results */
+export function sessionToMarkdown(session: ChatSession): string {
+    const lines = [
+        `# ${session.title}`,
+        '',
+        `- Workspace: ${session.workspace || '(none)'}`,
+        ...(session.filePath ? [`- File: ${session.filePath}`] : []),
+        `- Created: ${formatDate(session.createdAt)}`,
+        `- Updated: ${formatDate(session.updatedAt)}`,
+        '',
+    ];
+
+    for (const message of session.messages) {
+        lines.push(`## ${ROLE_HEADINGS[message.role]} (${formatDate(message.timestamp)})`, '');
+        const attachments = (message.attachments || []).map(attachment => attachment.name);
+        if (attachments.length > 0) lines.push(`Attachments: ${attachments.join(', ')}`, '');
+        if (message.images?.length) lines.push(`Images: ${message.images.length}`, '');
+
+        if (message.items?.length) {
+            for (const item of message.items) {
+                if (item.type === 'reasoning') lines.push(...reasoningMarkdown(item.content));
+                else if (item.type === 'tool_call') lines.push(...toolCallMarkdown(item.data));
+                else lines.push(`**Search results for "${item.query}"**`, '', ...item.matches.map(match => `- [#${match.blockIndex}] ${match.text}`), '');
+            }
+        } else {
+            if (message.reasoning) lines.push(...reasoningMarkdown(message.reasoning));
+            for (const call of message.toolCalls || []) lines.push(...toolCallMarkdown(call));
+        }
+
+        if (message.content) lines.push(message.content, '');
+    }
+
+    return lines.join('\n');
+}
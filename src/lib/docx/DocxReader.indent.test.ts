@@ -282,7 +282,7 @@ describe('DocxReader Indentation and Numbering Reproduction', () => {
         expect(paragraph.attrs.listIndentHanging).toBe('0');
     });
 
-    it('should apply style-based first-line indentation for normal paragraphs', async () => {
+    it('should keep style-based first-line indentation in the style catalogue', async () => {
         const numbering = ``; // Not needed for this test
 
         const styles = `
@@ -308,8 +308,14 @@ describe('DocxReader Indentation and Numbering Reproduction', () => {
 
         const paragraph = result.content[0];
         expect(paragraph.type).toBe('paragraph');
-        expect(paragraph.attrs.firstLine).toBe('720');
-        // Ensure we didn't accidentally set left indent when only firstLine is specified
+        expect(paragraph.attrs.styleId).toBe('IndentedBody');
+        // Not flattened into direct formatting
+        expect(paragraph.attrs.firstLine).toBeUndefined();
         expect(paragraph.attrs.indent).toBeUndefined();
+
+        const style = result.attrs.styles.find((s: { styleId: string }) => s.styleId === 'IndentedBody');
+        expect(style.props.firstLine).toBe('720');
+        // Ensure we didn't accidentally set left indent when only firstLine is specified
+        expect(style.props.indent).toBeUndefined();
     });
 });
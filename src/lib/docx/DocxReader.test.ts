@@ -2,6 +2,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import JSZip from 'jszip';
 import { DocxReader } from './DocxReader';
+import { flattenStyleFormatting } from './styles';
 
 describe('DocxReader', () => {
     let reader: DocxReader;
@@ -118,6 +119,65 @@ describe('DocxReader', () => {
         expect(result.content[0].attrs.styleId).toBe('Heading1');
     });
 
+    it('should expose the style catalogue and keep pStyle references unflattened', async () => {
+        const content = `
+            <w:p>
+                <w:pPr>
+                    <w:pStyle w:val="CompanyBody"/>
+                </w:pPr>
+                <w:r><w:t>Body text</w:t></w:r>
+            </w:p>
+        `;
+        const styles = `
+            <w:docDefaults>
+                <w:rPrDefault><w:rPr><w:sz w:val="21"/></w:rPr></w:rPrDefault>
+            </w:docDefaults>
+            <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+                <w:name w:val="Normal"/>
+                <w:pPr><w:spacing w:after="120"/></w:pPr>
+            </w:style>
+            <w:style w:type="paragraph" w:styleId="CompanyBody">
+                <w:name w:val="Company Body"/>
+                <w:basedOn w:val="Normal"/>
+                <w:next w:val="Normal"/>
+                <w:pPr><w:jc w:val="both"/><w:ind w:left="360"/></w:pPr>
+                <w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:b/><w:color w:val="1F3864"/><w:sz w:val="24"/></w:rPr>
+            </w:style>
+            <w:style w:type="character" w:styleId="Strong">
+                <w:name w:val="Strong"/>
+                <w:semiHidden/>
+                <w:rPr><w:b/></w:rPr>
+            </w:style>
+        `;
+        const buffer = await createMockDocx(content, styles);
+        const result = await reader.load(buffer);
+
+        const paragraph = result.content[0];
+        expect(paragraph.attrs.styleId).toBe('CompanyBody');
+        expect(paragraph.attrs.spacingAfter).toBeUndefined();
+        expect(paragraph.attrs.indent).toBeUndefined();
+        expect(paragraph.content[0].marks?.some((m: any) => m.type === 'textStyle')).toBeFalsy();
+
+        const byId = Object.fromEntries(result.attrs.styles.map((s: any) => [s.styleId, s]));
+        expect(byId.Normal).toMatchObject({ type: 'paragraph', name: 'Normal', isDefault: true, props: { spacingAfter: '120' } });
+        expect(byId.CompanyBody).toMatchObject({
+            name: 'Company Body',
+            basedOn: 'Normal',
+            next: 'Normal',
+            props: { textAlign: 'both', indent: '360', fontFamily: 'Arial', bold: true, color: '#1F3864', fontSize: '12pt' },
+        });
+        expect(byId.Strong).toMatchObject({ type: 'character', hidden: true, props: { bold: true } });
+        expect(result.attrs.styleDefaults).toEqual({ fontSize: '10.5pt' });
+
+        // Consumers that don't render the catalogue get the style's formatting as direct formatting
+        const flattened = flattenStyleFormatting(result).content[0];
+        expect(flattened.attrs).toMatchObject({ styleId: 'CompanyBody', spacingAfter: '120', indent: '360', textAlign: 'justify' });
+        expect(flattened.content[0].marks).toEqual([
+            { type: 'bold' },
+            { type: 'textStyle', attrs: { fontFamily: 'Arial', fontSize: '12pt', color: '#1F3864' } },
+        ]);
+    });
+
     it('should parse run formatting (Bold, Italic)', async () => {
         const content = `
             <w:p>
@@ -322,10 +382,11 @@ describe('DocxReader', () => {
         const p: any = doc.content?.[0];
         expect(p?.type).toBe('paragraph');
 
-        // Tab stops resolved from style
-        expect(Array.isArray(p?.attrs?.tabStops)).toBe(true);
-        expect(p?.attrs?.tabStops?.[0]).toMatchObject({ posTwips: '1440', type: 'left', leader: 'dot' });
-        expect(p?.attrs?.tabStops?.[1]).toMatchObject({ posTwips: '2880', type: 'right' });
+        // Tab stops stay on the style (the paragraph only references it)
+        expect(p?.attrs?.tabStops).toBeUndefined();
+        const style = doc.attrs.styles.find((s: any) => s.styleId === 'MyTabStyle');
+        expect(style.props.tabStops?.[0]).toMatchObject({ posTwips: '1440', type: 'left', leader: 'dot' });
+        expect(style.props.tabStops?.[1]).toMatchObject({ posTwips: '2880', type: 'right' });
 
         // Inline tab node exists between text nodes
         const inlineTypes = (p?.content || []).map((n: any) => n.type);
@@ -334,6 +395,85 @@ describe('DocxReader', () => {
         expect(p?.content?.[2]?.text).toBe('乙');
     });
 
+    it('should read w:rPrChange and w:pPrChange as tracked formatting changes', async () => {
+        const content = `
+            <w:p>
+                <w:pPr>
+                    <w:pStyle w:val="Heading1"/>
+                    <w:pPrChange w:id="1" w:author="Reviewer" w:date="2024-02-01T00:00:00Z">
+                        <w:pPr><w:jc w:val="center"/></w:pPr>
+                    </w:pPrChange>
+                </w:pPr>
+                <w:r>
+                    <w:rPr>
+                        <w:b/>
+                        <w:rPrChange w:id="2" w:author="Reviewer" w:date="2024-02-01T00:00:00Z">
+                            <w:rPr><w:i/></w:rPr>
+                        </w:rPrChange>
+                    </w:rPr>
+                    <w:t>Title</w:t>
+                </w:r>
+            </w:p>
+        `;
+        const buffer = await createMockDocx(content);
+        const result = await reader.load(buffer);
+
+        const heading = result.content[0];
+        expect(heading.type).toBe('heading');
+        expect(heading.attrs.formatChange).toMatchObject({
+            author: 'Reviewer',
+            date: '2024-02-01T00:00:00Z',
+            type: 'paragraph',
+            attrs: { textAlign: 'center' }
+        });
+
+        const marks = heading.content[0].marks;
+        expect(marks.some((m: any) => m.type === 'bold')).toBe(true);
+        expect(marks.find((m: any) => m.type === 'formatChange').attrs).toEqual({
+            author: 'Reviewer',
+            date: '2024-02-01T00:00:00Z',
+            oldMarks: [{ type: 'italic' }]
+        });
+    });
+
+    it('should read moves as linked moveFrom/moveTo marks and row revisions as rowChange', async () => {
+        const content = `
+            <w:p>
+                <w:moveFromRangeStart w:id="1" w:name="move1" w:author="Reviewer" w:date="2024-03-01T00:00:00Z"/>
+                <w:moveFrom w:id="2" w:author="Reviewer" w:date="2024-03-01T00:00:00Z">
+                    <w:r><w:t>Moved</w:t></w:r>
+                </w:moveFrom>
+                <w:moveFromRangeEnd w:id="1"/>
+                <w:r><w:t> stays</w:t></w:r>
+            </w:p>
+            <w:p>
+                <w:moveToRangeStart w:id="3" w:name="move1" w:author="Reviewer" w:date="2024-03-01T00:00:00Z"/>
+                <w:moveTo w:id="4" w:author="Reviewer" w:date="2024-03-01T00:00:00Z">
+                    <w:r><w:t>Moved</w:t></w:r>
+                </w:moveTo>
+                <w:moveToRangeEnd w:id="3"/>
+            </w:p>
+            <w:tbl>
+                <w:tr>
+                    <w:trPr><w:cantSplit/><w:ins w:id="5" w:author="Reviewer" w:date="2024-03-02T00:00:00Z"/></w:trPr>
+                    <w:tc><w:p><w:r><w:t>New row</w:t></w:r></w:p></w:tc>
+                </w:tr>
+            </w:tbl>
+        `;
+        const buffer = await createMockDocx(content);
+        const result = await reader.load(buffer);
+
+        const [from, stays] = result.content[0].content;
+        expect(from.marks).toContainEqual({ type: 'moveFrom', attrs: { author: 'Reviewer', date: '2024-03-01T00:00:00Z', name: 'move1' } });
+        expect(stays.marks).toBeUndefined();
+        expect(result.content[1].content[0].marks).toContainEqual({ type: 'moveTo', attrs: { author: 'Reviewer', date: '2024-03-01T00:00:00Z', name: 'move1' } });
+
+        const row = result.content[2].content[0];
+        expect(row.attrs.rowChange).toEqual({ type: 'insertion', author: 'Reviewer', date: '2024-03-02T00:00:00Z' });
+        expect(row.attrs.trPrElements).toHaveLength(1);
+        expect(row.attrs.trPrElements[0]['w:cantSplit']).toBeDefined();
+    });
+
     it('should parse comments and apply comment marks to text', async () => {
         // Document with a comment on "commented text"
         const content = `
@@ -386,4 +526,437 @@ describe('DocxReader', () => {
         expect(commentMark.attrs.author).toBe('Test Author');
         expect(commentMark.attrs.content).toBe('This is a test comment');
     });
+
+    it('should attach replies and resolved state from commentsExtended.xml', async () => {
+        const content = `
+            <w:p>
+                <w:commentRangeStart w:id="1"/>
+                <w:commentRangeStart w:id="2"/>
+                <w:r><w:t>disputed clause</w:t></w:r>
+                <w:commentRangeEnd w:id="1"/>
+                <w:r><w:commentReference w:id="1"/></w:r>
+                <w:commentRangeEnd w:id="2"/>
+                <w:r><w:commentReference w:id="2"/></w:r>
+            </w:p>
+        `;
+        const comments = `
+            <w:comment w:id="1" w:author="Alice" w:date="2024-01-15T10:30:00Z">
+                <w:p w14:paraId="1A000001" xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml"><w:r><w:t>Please check</w:t></w:r></w:p>
+            </w:comment>
+            <w:comment w:id="2" w:author="Bob" w:date="2024-01-16T09:00:00Z">
+                <w:p w14:paraId="1A000002" xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml"><w:r><w:t>Fixed</w:t></w:r></w:p>
+            </w:comment>
+        `;
+        const zip = await JSZip.loadAsync(await createMockDocx(content, '', comments));
+        zip.file('word/commentsExtended.xml', `
+            <?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+            <w15:commentsEx xmlns:w15="http://schemas.microsoft.com/office/word/2012/wordml">
+                <w15:commentEx w15:paraId="1A000001" w15:done="1"/>
+                <w15:commentEx w15:paraId="1A000002" w15:paraIdParent="1A000001" w15:done="0"/>
+            </w15:commentsEx>
+        `);
+        const result = await reader.load(await zip.generateAsync({ type: 'arraybuffer' }));
+
+        const commentMarks = result.content[0].content
+            .flatMap((node: any) => node.marks || [])
+            .filter((m: any) => m.type === 'comment');
+        expect(commentMarks).toHaveLength(1);
+        expect(commentMarks[0].attrs.commentId).toBe('1');
+        expect(commentMarks[0].attrs.done).toBe(true);
+        expect(commentMarks[0].attrs.replies).toEqual([
+            { id: '2', author: 'Bob', date: '2024-01-16T09:00:00Z', content: 'Fixed' }
+        ]);
+    });
+
+    it('should parse header and footer parts referenced from sectPr', async () => {
+        const content = `
+            <w:p><w:r><w:t>Body</w:t></w:r></w:p>
+            <w:sectPr xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+                <w:headerReference w:type="default" r:id="rId10"/>
+                <w:headerReference w:type="first" r:id="rId11"/>
+                <w:footerReference w:type="default" r:id="rId12"/>
+                <w:pgSz w:w="11906" w:h="16838"/>
+                <w:titlePg/>
+            </w:sectPr>
+        `;
+        const zip = await JSZip.loadAsync(await createMockDocx(content));
+        zip.file('word/_rels/document.xml.rels', `
+            <?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+            <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+                <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+                <Relationship Id="rId10" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+                <Relationship Id="rId11" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header2.xml"/>
+                <Relationship Id="rId12" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+            </Relationships>
+        `);
+        const part = (root: string, text: string) => `
+            <?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+            <${root} xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+                <w:p><w:r><w:t>${text}</w:t></w:r></w:p>
+            </${root}>
+        `;
+        zip.file('word/header1.xml', part('w:hdr', 'Confidential'));
+        zip.file('word/header2.xml', part('w:hdr', 'Cover'));
+        zip.file('word/footer1.xml', part('w:ftr', 'Footer text'));
+        zip.file('word/settings.xml', `
+            <?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+            <w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+                <w:evenAndOddHeaders/>
+            </w:settings>
+        `);
+
+        const result = await reader.load(await zip.generateAsync({ type: 'arraybuffer' }));
+
+        expect(result.attrs.titlePage).toBe(true);
+        expect(result.attrs.evenAndOddHeaders).toBe(true);
+        expect(result.attrs.headers.default.rId).toBe('rId10');
+        expect(result.attrs.headers.default.target).toBe('header1.xml');
+        expect(result.attrs.headers.default.content[0].content[0].text).toBe('Confidential');
+        expect(result.attrs.headers.first.content[0].content[0].text).toBe('Cover');
+        expect(result.attrs.footers.default.content[0].content[0].text).toBe('Footer text');
+        // Body content is unaffected by header/footer parts
+        expect(result.content).toHaveLength(1);
+    });
+
+    it('should parse footnote references with their note content', async () => {
+        const content = `
+            <w:p>
+                <w:r><w:t>Clause</w:t></w:r>
+                <w:r>
+                    <w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr>
+                    <w:footnoteReference w:id="1"/>
+                </w:r>
+            </w:p>
+        `;
+        const zip = await JSZip.loadAsync(await createMockDocx(content));
+        zip.file('word/footnotes.xml', `
+            <?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+            <w:footnotes xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+                <w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>
+                <w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>
+                <w:footnote w:id="1">
+                    <w:p>
+                        <w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>
+                        <w:r><w:t>See Appendix A.</w:t></w:r>
+                    </w:p>
+                </w:footnote>
+            </w:footnotes>
+        `);
+
+        const result = await reader.load(await zip.generateAsync({ type: 'arraybuffer' }));
+        const paragraph = result.content[0];
+        const footnote = paragraph.content.find((node: any) => node.type === 'footnote');
+
+        expect(footnote).toBeDefined();
+        expect(footnote.attrs.noteType).toBe('footnote');
+        expect(footnote.attrs.noteId).toBe('1');
+        expect(footnote.attrs.styleId).toBe('FootnoteReference');
+        // w:footnoteRef is regenerated on export, so only the note text remains
+        expect(footnote.attrs.content[0].content).toEqual([{ type: 'text', text: 'See Appendix A.' }]);
+    });
+
+    it('should parse inline images from word/media via relationships', async () => {
+        const content = `
+            <w:p>
+                <w:r>
+                    <w:drawing xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+                        <wp:anchor behindDoc="0" distT="0" distB="0" distL="114300" distR="114300">
+                            <wp:positionH relativeFrom="column"><wp:align>right</wp:align></wp:positionH>
+                            <wp:extent cx="952500" cy="476250"/>
+                            <wp:wrapSquare wrapText="bothSides"/>
+                            <wp:docPr id="3" name="Logo" descr="Company logo"/>
+                            <a:graphic>
+                                <a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">
+                                    <pic:pic>
+                                        <pic:blipFill><a:blip r:embed="rId5"/></pic:blipFill>
+                                    </pic:pic>
+                                </a:graphicData>
+                            </a:graphic>
+                        </wp:anchor>
+                    </w:drawing>
+                </w:r>
+            </w:p>
+        `;
+        const zip = await JSZip.loadAsync(await createMockDocx(content));
+        zip.file('word/_rels/document.xml.rels', `
+            <?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+            <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+                <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+                <Relationship Id="rId5" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/>
+            </Relationships>
+        `);
+        zip.file('word/media/image1.png', 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', { base64: true });
+
+        const result = await reader.load(await zip.generateAsync({ type: 'arraybuffer' }));
+        const image = result.content[0].content.find((node: any) => node.type === 'image');
+
+        expect(image).toBeDefined();
+        expect(image.attrs.src).toBe('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==');
+        expect(image.attrs.width).toBe(100);
+        expect(image.attrs.height).toBe(50);
+        expect(image.attrs.alt).toBe('Company logo');
+        expect(image.attrs.rId).toBe('rId5');
+        expect(image.attrs.target).toBe('media/image1.png');
+        expect(image.attrs.wrap).toBe('square');
+        expect(image.attrs.align).toBe('right');
+        expect(Array.isArray(image.attrs.drawing)).toBe(true);
+    });
+    it('should parse hyperlinks and bookmarks into link marks and bookmark nodes', async () => {
+        const content = `
+            <w:p>
+                <w:bookmarkStart w:id="0" w:name="_Ref42"/>
+                <w:r><w:t>Scope</w:t></w:r>
+                <w:bookmarkEnd w:id="0"/>
+            </w:p>
+            <w:p>
+                <w:hyperlink r:id="rId9" w:tooltip="Docs" w:history="1">
+                    <w:r><w:rPr><w:rStyle w:val="Hyperlink"/><w:b/></w:rPr><w:t>external</w:t></w:r>
+                </w:hyperlink>
+                <w:r><w:t xml:space="preserve"> and </w:t></w:r>
+                <w:hyperlink w:anchor="_Ref42" w:history="1">
+                    <w:r><w:t>Section 1</w:t></w:r>
+                </w:hyperlink>
+            </w:p>
+        `;
+        const zip = await JSZip.loadAsync(await createMockDocx(content));
+        zip.file('word/_rels/document.xml.rels', `
+            <?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+            <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+                <Relationship Id="rId9" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/docs" TargetMode="External"/>
+            </Relationships>
+        `);
+
+        const result = await reader.load(await zip.generateAsync({ type: 'arraybuffer' }));
+        const [first, second] = result.content;
+
+        expect(first.content.map((node: any) => node.type)).toEqual(['bookmarkStart', 'text', 'bookmarkEnd']);
+        expect(first.content[0].attrs).toEqual({ id: '0', name: '_Ref42' });
+
+        const external = second.content.find((node: any) => node.text === 'external');
+        const externalLink = external.marks.find((mark: any) => mark.type === 'link');
+        expect(external.marks.some((mark: any) => mark.type === 'bold')).toBe(true);
+        expect(externalLink.attrs).toMatchObject({ href: 'https://example.com/docs', title: 'Docs', rId: 'rId9' });
+
+        const internal = second.content.find((node: any) => node.text === 'Section 1');
+        expect(internal.marks.find((mark: any) => mark.type === 'link').attrs.href).toBe('#_Ref42');
+
+        const plain = second.content.find((node: any) => node.text === ' and ');
+        expect(plain.marks).toBeUndefined();
+    });
+
+    it('should preserve field codes as field nodes with their cached result', async () => {
+        const content = `
+            <w:p>
+                <w:r><w:t xml:space="preserve">Page </w:t></w:r>
+                <w:r><w:rPr><w:b/></w:rPr><w:fldChar w:fldCharType="begin"/></w:r>
+                <w:r><w:rPr><w:b/></w:rPr><w:instrText xml:space="preserve"> PAGE \\* MERGEFORMAT </w:instrText></w:r>
+                <w:r><w:rPr><w:b/></w:rPr><w:fldChar w:fldCharType="separate"/></w:r>
+                <w:r><w:rPr><w:b/></w:rPr><w:t>3</w:t></w:r>
+                <w:r><w:rPr><w:b/></w:rPr><w:fldChar w:fldCharType="end"/></w:r>
+                <w:r><w:t xml:space="preserve"> of </w:t></w:r>
+                <w:fldSimple w:instr=" NUMPAGES "><w:r><w:t>9</w:t></w:r></w:fldSimple>
+            </w:p>
+        `;
+        const result = await reader.load(await createMockDocx(content));
+        const paragraph = result.content[0];
+
+        expect(paragraph.content.map((node: any) => node.type)).toEqual(['text', 'field', 'text', 'field']);
+        const [, page, , numPages] = paragraph.content;
+        expect(page.attrs).toEqual({ instruction: 'PAGE \\* MERGEFORMAT', fieldType: 'PAGE', result: '3', simple: false });
+        expect(page.marks.some((mark: any) => mark.type === 'bold')).toBe(true);
+        expect(numPages.attrs).toEqual({ instruction: 'NUMPAGES', fieldType: 'NUMPAGES', result: '9', simple: true });
+    });
+
+    it('should collapse a TOC field spanning several paragraphs into one tableOfContents node', async () => {
+        const content = `
+            <w:p>
+                <w:pPr><w:pStyle w:val="TOC1"/></w:pPr>
+                <w:r><w:fldChar w:fldCharType="begin"/></w:r>
+                <w:r><w:instrText xml:space="preserve"> TOC \\o "1-3" \\h \\z \\u </w:instrText></w:r>
+                <w:r><w:fldChar w:fldCharType="separate"/></w:r>
+                <w:hyperlink w:anchor="_Toc100" w:history="1">
+                    <w:r><w:t>Introduction</w:t></w:r>
+                    <w:r><w:tab/></w:r>
+                    <w:r><w:fldChar w:fldCharType="begin"/></w:r>
+                    <w:r><w:instrText xml:space="preserve"> PAGEREF _Toc100 \\h </w:instrText></w:r>
+                    <w:r><w:fldChar w:fldCharType="separate"/></w:r>
+                    <w:r><w:t>1</w:t></w:r>
+                    <w:r><w:fldChar w:fldCharType="end"/></w:r>
+                </w:hyperlink>
+            </w:p>
+            <w:p>
+                <w:pPr><w:pStyle w:val="TOC2"/></w:pPr>
+                <w:r><w:t>Scope</w:t></w:r>
+                <w:r><w:tab/></w:r>
+                <w:r><w:t>2</w:t></w:r>
+                <w:r><w:fldChar w:fldCharType="end"/></w:r>
+            </w:p>
+            <w:p><w:r><w:t>Body</w:t></w:r></w:p>
+        `;
+        const result = await reader.load(await createMockDocx(content));
+
+        expect(result.content.map((node: any) => node.type)).toEqual(['tableOfContents', 'paragraph']);
+        const toc = result.content[0];
+        expect(toc.attrs.instruction).toBe('TOC \\o "1-3" \\h \\z \\u');
+        expect(toc.attrs.entries).toEqual([
+            { text: 'Introduction', page: '1', level: 1, anchor: '_Toc100', styleId: 'TOC1' },
+            { text: 'Scope', page: '2', level: 2, anchor: null, styleId: 'TOC2' },
+        ]);
+    });
+
+    it('should turn paragraph-level sectPr into a sectionBreak node with its page setup', async () => {
+        const content = `
+            <w:p>
+                <w:pPr>
+                    <w:sectPr>
+                        <w:headerReference w:type="default" r:id="rId8"/>
+                        <w:pgSz w:w="11906" w:h="16838"/>
+                        <w:pgMar w:top="1985" w:right="1701" w:bottom="1701" w:left="1701" w:header="851" w:footer="992" w:gutter="0"/>
+                        <w:cols w:space="425"/>
+                    </w:sectPr>
+                </w:pPr>
+                <w:r><w:t>Portrait</w:t></w:r>
+            </w:p>
+            <w:p><w:r><w:t>Landscape</w:t></w:r></w:p>
+            <w:sectPr>
+                <w:type w:val="nextPage"/>
+                <w:pgSz w:w="16838" w:h="11906" w:orient="landscape"/>
+                <w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>
+                <w:cols w:num="2" w:space="720"/>
+            </w:sectPr>
+        `;
+        const result = await reader.load(await createMockDocx(content));
+
+        expect(result.content.map((node: any) => node.type)).toEqual(['paragraph', 'sectionBreak', 'paragraph']);
+        const sectionBreak = result.content[1];
+        expect(sectionBreak.attrs.sectionType).toBeNull();
+        expect(sectionBreak.attrs.pageSize).toEqual({ 'w:w': '11906', 'w:h': '16838' });
+        expect(sectionBreak.attrs.pageMargins['w:top']).toBe('1985');
+        expect(sectionBreak.attrs.cols).toEqual({ 'w:space': '425' });
+        expect(sectionBreak.attrs.sectPrElements.some((el: any) => el['w:headerReference'])).toBe(true);
+
+        expect(result.attrs.sectionType).toBe('nextPage');
+        expect(result.attrs.pageSize['w:orient']).toBe('landscape');
+        expect(result.attrs.cols).toEqual({ 'w:num': '2', 'w:space': '720' });
+    });
+
+    it('should read merged cells, widths, shading and borders of tables', async () => {
+        const content = `
+            <w:tbl>
+                <w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>
+                <w:tblGrid><w:gridCol w:w="1500"/><w:gridCol w:w="3000"/><w:gridCol w:w="1500"/></w:tblGrid>
+                <w:tr>
+                    <w:trPr><w:tblHeader/></w:trPr>
+                    <w:tc>
+                        <w:tcPr><w:tcW w:w="4500" w:type="dxa"/><w:gridSpan w:val="2"/><w:shd w:val="clear" w:color="auto" w:fill="D9E2F3"/></w:tcPr>
+                        <w:p><w:r><w:t>Merged header</w:t></w:r></w:p>
+                    </w:tc>
+                    <w:tc>
+                        <w:tcPr><w:tcW w:w="1500" w:type="dxa"/></w:tcPr>
+                        <w:p><w:r><w:t>C</w:t></w:r></w:p>
+                    </w:tc>
+                </w:tr>
+                <w:tr>
+                    <w:tc>
+                        <w:tcPr><w:vMerge w:val="restart"/><w:tcBorders><w:top w:val="single" w:sz="12" w:color="FF0000"/></w:tcBorders><w:vAlign w:val="center"/></w:tcPr>
+                        <w:p><w:r><w:t>Tall</w:t></w:r></w:p>
+                    </w:tc>
+                    <w:tc><w:p><w:r><w:t>B2</w:t></w:r></w:p></w:tc>
+                    <w:tc><w:p><w:r><w:t>C2</w:t></w:r></w:p></w:tc>
+                </w:tr>
+                <w:tr>
+                    <w:tc><w:tcPr><w:vMerge/></w:tcPr><w:p/></w:tc>
+                    <w:tc><w:p><w:r><w:t>B3</w:t></w:r></w:p></w:tc>
+                    <w:tc><w:p><w:r><w:t>C3</w:t></w:r></w:p></w:tc>
+                </w:tr>
+            </w:tbl>
+        `;
+        const result = await reader.load(await createMockDocx(content));
+
+        const table = result.content[0];
+        expect(table.type).toBe('table');
+        expect(table.attrs.grid).toEqual([1500, 3000, 1500]);
+        expect(table.attrs.tblPrElements.some((el: any) => el['w:tblStyle'])).toBe(true);
+
+        const [header, second, third] = table.content;
+        expect(header.content.map((cell: any) => cell.type)).toEqual(['tableHeader', 'tableHeader']);
+        expect(header.content[0].attrs).toMatchObject({ colspan: 2, colwidth: [100, 200], shading: '#D9E2F3' });
+
+        // The continuation cell is dropped and counted into the rowspan
+        expect(second.content[0].attrs).toMatchObject({ rowspan: 2, colwidth: [100], verticalAlign: 'center' });
+        expect(second.content[0].attrs.borders).toEqual({ top: { 'w:val': 'single', 'w:sz': '12', 'w:color': 'FF0000' } });
+        expect(third.content.map((cell: any) => cell.content[0].content[0].text)).toEqual(['B3', 'C3']);
+    });
+
+    it('should keep elements it does not understand as preserved XML nodes', async () => {
+        const content = `
+            <w:customXml w:element="clause"><w:p><w:r><w:t>Bound clause</w:t></w:r></w:p></w:customXml>
+            <w:p>
+                <w:r><w:t>Area: </w:t></w:r>
+                <m:oMath xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"><m:r><m:t>x</m:t></m:r></m:oMath>
+                <w:r>
+                    <w:rPr><w:b/></w:rPr>
+                    <w:t>Chart</w:t>
+                    <w:object w:dxaOrig="100" w:dyaOrig="100"/>
+                </w:r>
+                <w:proofErr w:type="spellStart"/>
+            </w:p>
+            <w:sdt>
+                <w:sdtPr><w:dataBinding w:xpath="/root/name" w:storeItemID="{1}"/></w:sdtPr>
+                <w:sdtContent><w:p><w:r><w:t>Name</w:t></w:r></w:p></w:sdtContent>
+            </w:sdt>
+        `;
+        const result = await reader.load(await createMockDocx(content));
+
+        expect(result.content.map((node: any) => node.type)).toEqual(['preservedBlock', 'paragraph', 'preservedBlock']);
+
+        const customXml = result.content[0];
+        expect(customXml.attrs.label).toBe('カスタムXML');
+        // The part's namespace declarations are copied onto the fragment
+        expect(customXml.attrs.xml).toMatch(/^<w:customXml xmlns:w="http:\/\/schemas.openxmlformats.org\/wordprocessingml\/2006\/main" w:element="clause">/);
+        expect(customXml.attrs.xml).toContain('<w:t>Bound clause</w:t>');
+
+        const paragraph = result.content[1].content;
+        // Equations are read as math nodes (see 'Equations') and still carry their original XML
+        expect(paragraph.map((node: any) => node.type)).toEqual(['text', 'math', 'text', 'preservedInline']);
+        expect(paragraph[1].attrs.xml).toContain('<m:r><m:t>x</m:t></m:r>');
+        // Unknown run content keeps the run properties
+        expect(paragraph[3].attrs.label).toBe('OLE オブジェクト');
+        expect(paragraph[3].attrs.xml).toMatch(/^<w:r xmlns:w="[^"]+"><w:rPr><w:b\/><\/w:rPr><w:object w:dxaOrig="100" w:dyaOrig="100"\/><\/w:r>$/);
+
+        expect(result.content[2].attrs.label).toBe('データバインドされたコンテンツコントロール');
+    });
+
+    it('should read equations as math nodes in linear form', async () => {
+        const content = `
+            <w:p>
+                <w:r><w:t xml:space="preserve">Energy </w:t></w:r>
+                <m:oMath xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math">
+                    <m:r><m:t>E=m</m:t></m:r>
+                    <m:sSup><m:e><m:r><m:t>c</m:t></m:r></m:e><m:sup><m:r><m:t>2</m:t></m:r></m:sup></m:sSup>
+                </m:oMath>
+            </w:p>
+            <w:p>
+                <m:oMathPara xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math">
+                    <m:oMath>
+                        <m:r><m:t>x=</m:t></m:r>
+                        <m:f>
+                            <m:num><m:r><m:t>-b±</m:t></m:r><m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e><m:r><m:t>D</m:t></m:r></m:e></m:rad></m:num>
+                            <m:den><m:r><m:t>2a</m:t></m:r></m:den>
+                        </m:f>
+                    </m:oMath>
+                </m:oMathPara>
+            </w:p>
+        `;
+        const result = await reader.load(await createMockDocx(content));
+
+        const inline = result.content[0].content[1];
+        expect(inline.type).toBe('math');
+        expect(inline.attrs).toMatchObject({ latex: 'E=mc^{2}', display: false });
+        expect(inline.attrs.xml).toMatch(/^<m:oMath xmlns:m="http:\/\/schemas.openxmlformats.org\/officeDocument\/2006\/math">/);
+
+        const display = result.content[1].content[0];
+        expect(display.type).toBe('math');
+        expect(display.attrs).toMatchObject({ latex: 'x=\\frac{-b±\\sqrt{D}}{2a}', display: true });
+    });
 });
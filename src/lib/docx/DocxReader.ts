@@ -1,14 +1,104 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import JSZip from 'jszip';
-import { XMLParser } from 'fast-xml-parser';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { DocxStyle, DocxStyleProps } from './styles';
+import { ommlToLatex } from './omml';
+
+// MIME types for media parts, keyed by file extension
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+    svg: 'image/svg+xml',
+    emf: 'image/x-emf',
+    wmf: 'image/x-wmf',
+};
+
+// DrawingML extents are in EMU (914400 per inch); the editor works in 96 DPI pixels
+const EMU_PER_PIXEL = 9525;
+
+// Placeholder nodes emitted by parseRun for complex field characters; collapsed by collapseFields
+const FIELD_CHAR_NODE = '__fieldChar';
+const FIELD_INSTR_NODE = '__fieldInstr';
+
+// Elements understood at each level (w: prefix omitted); anything else is kept as a preserved XML node
+const KNOWN_BLOCK_ELEMENTS = new Set(['p', 'tbl', 'sdt', 'sectPr']);
+const KNOWN_PARAGRAPH_ELEMENTS = new Set(['pPr', 'r', 'ins', 'del', 'moveFrom', 'moveTo', 'sdt', 'hyperlink', 'fldSimple']);
+const KNOWN_RUN_ELEMENTS = new Set([
+    'rPr', 't', 'delText', 'br', 'cr', 'fldChar', 'instrText', 'delInstrText', 'tab', 'drawing',
+    'footnoteReference', 'endnoteReference', 'footnoteRef', 'endnoteRef', 'separator', 'continuationSeparator',
+    'annotationRef', 'commentReference', 'lastRenderedPageBreak', 'softHyphen', 'noBreakHyphen',
+]);
+// Range markers without content of their own: dropped (or handled) rather than preserved
+const MARKUP_ONLY_ELEMENTS = new Set([
+    'bookmarkStart', 'bookmarkEnd', 'commentRangeStart', 'commentRangeEnd', 'proofErr', 'permStart', 'permEnd',
+    'moveFromRangeStart', 'moveFromRangeEnd', 'moveToRangeStart', 'moveToRangeEnd',
+]);
+
+// Placeholder labels for preserved elements
+const PRESERVED_LABELS: Record<string, string> = {
+    'w:customXml': 'カスタムXML',
+    'w:smartTag': 'スマートタグ',
+    'w:sdt': 'コンテンツコントロール',
+    'w:object': 'OLE オブジェクト',
+    'w:pict': '図形 (VML)',
+    'w:altChunk': '埋め込みコンテンツ',
+    'm:oMath': '数式',
+    'm:oMathPara': '数式',
+};
+
+/**
+ * An open complex field (w:fldChar begin ... end) while runs are being parsed
+ */
+interface FieldFrame {
+    instruction: string;
+    separated: boolean; // w:fldChar separate seen: following runs are the cached result
+    result: any[];
+    toc?: boolean; // TOC field: the result paragraphs are collected as TOC entries instead
+}
+
+/**
+ * A comment of word/comments.xml; replies are collected on the root comment of their thread
+ */
+interface DocxComment {
+    id: string;
+    author: string;
+    initials: string;
+    date: string;
+    content: string;
+    paraId?: string; // w14:paraId of the comment's last paragraph (key in commentsExtended.xml)
+    parentId?: string; // Reply: id of the comment it answers
+    done?: boolean; // Resolved thread
+    replies?: { id: string; author: string; date: string; content: string }[];
+}
 
 export class DocxReader {
     private parser: XMLParser;
     private stylesMap: Record<string, any> = {};
-    private commentsMap: Record<string, { id: string; author: string; initials: string; date: string; content: string }> = {};
+    private commentsMap: Record<string, DocxComment> = {};
     private docDefaults: any = null;
     // Track comment range positions: commentId -> { startFound: boolean, endFound: boolean }
     private activeCommentRanges: Set<string> = new Set();
+    // Document relationships (word/_rels/document.xml.rels): rId -> { type, target }
+    private documentRels: Record<string, { type: string; target: string; targetMode?: string }> = {};
+    // Whether settings.xml enables different headers/footers for even and odd pages
+    private evenAndOddHeaders = false;
+    // Images of the part currently being parsed: rId -> { data URL, media target }
+    private activeMedia: Record<string, { src: string; target: string }> = {};
+    // Complex fields open at the current run (fields may span runs and paragraphs)
+    private fieldStack: FieldFrame[] = [];
+    // TOC field whose result paragraphs are being collected
+    private activeToc: { instruction: string; entries: any[]; closed: boolean } | null = null;
+    // Names of the open w:moveFromRangeStart / w:moveToRangeStart ranges (they link a move's two sides)
+    private activeMoves: { moveFrom?: string; moveTo?: string } = {};
+    // Footnote / endnote content: noteId -> TipTap block content (separator notes excluded)
+    private notesMap: Record<'footnote' | 'endnote', Record<string, any[]>> = { footnote: {}, endnote: {} };
+    // xmlns declarations of the part being parsed (copied onto preserved XML fragments)
+    private partNamespaces: Record<string, string> = {};
     // Numbering definitions: numId -> level definitions
     private numberingMap: Record<string, {
         abstractNumId: string;
@@ -63,6 +153,39 @@ export class DocxReader {
         if (commentsXml) {
             this.parseComments(commentsXml);
             console.log('DEBUG load: commentsMap after parseComments:', JSON.stringify(this.commentsMap));
+
+            // Reply chains and resolved state (Word 2013+)
+            const commentsExtendedXml = await zip.file('word/commentsExtended.xml')?.async('string');
+            if (commentsExtendedXml) {
+                this.parseCommentsExtended(commentsExtendedXml);
+            }
+        }
+
+        // Load document relationships (needed to resolve header/footer parts and images)
+        const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+        if (relsXml) {
+            this.documentRels = this.parseRelationships(relsXml);
+        }
+
+        // Load footnotes/endnotes (before document so references can carry their content)
+        const footnotesXml = await zip.file('word/footnotes.xml')?.async('string');
+        if (footnotesXml) {
+            this.activeMedia = await this.loadPartMedia(zip, 'word/footnotes.xml');
+            this.parseNotes(footnotesXml, 'footnote');
+        }
+        const endnotesXml = await zip.file('word/endnotes.xml')?.async('string');
+        if (endnotesXml) {
+            this.activeMedia = await this.loadPartMedia(zip, 'word/endnotes.xml');
+            this.parseNotes(endnotesXml, 'endnote');
+        }
+
+        // Load images referenced from the document body
+        this.activeMedia = await this.loadPartMedia(zip, 'word/document.xml', this.documentRels);
+
+        // Load settings (even/odd header flag)
+        const settingsXml = await zip.file('word/settings.xml')?.async('string');
+        if (settingsXml) {
+            this.parseSettings(settingsXml);
         }
 
         // Load Document
@@ -71,9 +194,187 @@ export class DocxReader {
             throw new Error('Invalid DOCX: standard document.xml not found');
         }
 
-        return this.parseDocument(documentXml);
+        const result = this.parseDocument(documentXml);
+
+        // Load header/footer parts referenced from the final section properties
+        await this.loadHeadersFooters(zip, result);
+
+        return result;
+    }
+
+    /**
+     * Parse a part relationships file (e.g. word/_rels/document.xml.rels) into an rId -> { type, target } map
+     */
+    private parseRelationships(xmlContent: string): Record<string, { type: string; target: string; targetMode?: string }> {
+        const relsMap: Record<string, { type: string; target: string; targetMode?: string }> = {};
+        const result = this.parser.parse(xmlContent);
+        const root = result['Relationships'];
+        if (!root) return relsMap;
+
+        const rels = root['Relationship'];
+        const relArray = Array.isArray(rels) ? rels : (rels ? [rels] : []);
+
+        relArray.forEach((rel: any) => {
+            if (!rel?.Id || !rel?.Target) return;
+            // Keep only the last path segment of the relationship type (e.g. "header", "footer", "image")
+            const type = String(rel.Type || '').split('/').pop() || '';
+            relsMap[rel.Id] = { type, target: rel.Target, targetMode: rel.TargetMode };
+        });
+        return relsMap;
+    }
+
+    /**
+     * Load the images referenced by a part (document, header, footer, notes) as data URLs.
+     * Relationships are read from the part's own .rels file unless given.
+     */
+    private async loadPartMedia(
+        zip: JSZip,
+        partPath: string,
+        rels?: Record<string, { type: string; target: string; targetMode?: string }>
+    ): Promise<Record<string, { src: string; target: string }>> {
+        if (!rels) {
+            const slash = partPath.lastIndexOf('/');
+            const relsPath = `${partPath.substring(0, slash)}/_rels/${partPath.substring(slash + 1)}.rels`;
+            const relsXml = await zip.file(relsPath)?.async('string');
+            rels = relsXml ? this.parseRelationships(relsXml) : {};
+        }
+
+        const media: Record<string, { src: string; target: string }> = {};
+        for (const [rId, rel] of Object.entries(rels)) {
+            if (rel.type !== 'image' || rel.targetMode === 'External') continue;
+            const data = await zip.file(this.resolvePartPath(rel.target))?.async('base64');
+            if (!data) continue;
+
+            const ext = rel.target.split('.').pop()?.toLowerCase() || '';
+            const mime = IMAGE_MIME_TYPES[ext] || `image/${ext}`;
+            media[rId] = { src: `data:${mime};base64,${data}`, target: rel.target };
+        }
+        return media;
+    }
+
+    /**
+     * Parse word/settings.xml for document-wide flags we need for rendering
+     */
+    private parseSettings(xmlContent: string) {
+        const result = this.parser.parse(xmlContent);
+        const settingsRoot = result['w:settings'] || result['settings'];
+        if (!settingsRoot) return;
+
+        const evenAndOdd = settingsRoot['w:evenAndOddHeaders'] ?? settingsRoot['evenAndOddHeaders'];
+        if (evenAndOdd !== undefined) {
+            const val = evenAndOdd?.['w:val'] ?? evenAndOdd?.['val'];
+            this.evenAndOddHeaders = val !== '0' && val !== 'false';
+        }
+    }
+
+    /**
+     * Resolve a relationship target (relative to word/) to a path inside the package
+     */
+    private resolvePartPath(target: string): string {
+        if (target.startsWith('/')) return target.substring(1);
+        return `word/${target}`;
+    }
+
+    /**
+     * Load header/footer parts referenced by w:headerReference / w:footerReference in sectPr.
+     * Results are stored as attrs.headers / attrs.footers keyed by type (default, first, even).
+     */
+    private async loadHeadersFooters(zip: JSZip, result: any) {
+        const sectPrElements: any[] = result.attrs?.sectPrElements || [];
+        const headers: Record<string, any> = {};
+        const footers: Record<string, any> = {};
+
+        for (const element of sectPrElements) {
+            const key = Object.keys(element).find(k => k !== ':@');
+            const isHeader = key === 'w:headerReference' || key === 'headerReference';
+            const isFooter = key === 'w:footerReference' || key === 'footerReference';
+            if (!isHeader && !isFooter) continue;
+
+            const attrs = element[':@'] || {};
+            const type = attrs['w:type'] || attrs['type'] || 'default';
+            const rId = attrs['r:id'] || attrs['id'];
+            const rel = rId ? this.documentRels[rId] : undefined;
+            if (!rel) continue;
+
+            const partPath = this.resolvePartPath(rel.target);
+            const partXml = await zip.file(partPath)?.async('string');
+            if (!partXml) continue;
+
+            // Images in headers/footers are resolved through the part's own relationships
+            const documentMedia = this.activeMedia;
+            this.activeMedia = await this.loadPartMedia(zip, partPath);
+            const part = {
+                rId,
+                target: rel.target,
+                content: this.parseHeaderFooter(partXml)
+            };
+            this.activeMedia = documentMedia;
+            if (isHeader) headers[type] = part;
+            else footers[type] = part;
+        }
+
+        if (Object.keys(headers).length > 0 || Object.keys(footers).length > 0) {
+            if (!result.attrs) result.attrs = {};
+            result.attrs.headers = headers;
+            result.attrs.footers = footers;
+        }
+        if (this.evenAndOddHeaders) {
+            if (!result.attrs) result.attrs = {};
+            result.attrs.evenAndOddHeaders = true;
+        }
     }
 
+    /**
+     * Parse a header (w:hdr) or footer (w:ftr) part into TipTap block content
+     */
+    private parseHeaderFooter(xmlContent: string): any[] {
+        const orderlyParser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            removeNSPrefix: false,
+            preserveOrder: true,
+            trimValues: false,
+        });
+
+        const orderlyResult = orderlyParser.parse(xmlContent);
+        const root = orderlyResult.find((x: any) => x['w:hdr'] || x['hdr'] || x['w:ftr'] || x['ftr']);
+        if (!root) return [];
+
+        const rootContent = root['w:hdr'] || root['hdr'] || root['w:ftr'] || root['ftr'] || [];
+        this.partNamespaces = root[':@'] || {};
+        return this.processListParagraphs(this.parseBodyContent(rootContent));
+    }
+
+    /**
+     * Parse word/footnotes.xml or word/endnotes.xml into notesMap.
+     * Separator / continuation notes (w:type set) are skipped; the writer keeps them from the original part.
+     */
+    private parseNotes(xmlContent: string, noteType: 'footnote' | 'endnote') {
+        const orderlyParser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            removeNSPrefix: false,
+            preserveOrder: true,
+            trimValues: false,
+        });
+
+        const orderlyResult = orderlyParser.parse(xmlContent);
+        const rootKey = noteType === 'footnote' ? 'w:footnotes' : 'w:endnotes';
+        const root = orderlyResult.find((x: any) => x[rootKey]);
+        if (!root) return;
+        this.partNamespaces = root[':@'] || {};
+
+        const itemKey = noteType === 'footnote' ? 'w:footnote' : 'w:endnote';
+        root[rootKey].forEach((item: any) => {
+            if (!item[itemKey]) return;
+            const attrs = item[':@'] || {};
+            const id = attrs['w:id'];
+            const type = attrs['w:type'];
+            if (id === undefined || (type && type !== 'normal')) return;
+
+            this.notesMap[noteType][String(id)] = this.processListParagraphs(this.parseBodyContent(item[itemKey]));
+        });
+    }
 
     private parseStyles(xmlContent: string) {
         // Styles parsing doesn't need preserveOrder usually, simpler to use default object map
@@ -156,6 +457,8 @@ export class DocxReader {
                 let indent: any = null;
                 let spacing: any = null;
                 let tabStops: any[] | null = null;
+                let textAlign: string | undefined;
+                let outlineLevel: number | undefined;
 
                 if (pPr) {
                     // Extract indent
@@ -198,15 +501,29 @@ export class DocxReader {
                             })
                             .filter(Boolean) as any[];
                     }
+
+                    const jc = pPr['w:jc'] || pPr['jc'];
+                    if (jc) textAlign = jc['w:val'] || jc['val'];
+
+                    const outlineLvl = pPr['w:outlineLvl'] || pPr['outlineLvl'];
+                    const outlineVal = parseInt(outlineLvl?.['w:val'] ?? outlineLvl?.['val'], 10);
+                    if (!isNaN(outlineVal)) outlineLevel = outlineVal;
                 }
 
+                const nextNode = style['w:next'] || style['next'];
+                const defaultAttr = style['w:default'] || style['default'];
                 this.stylesMap[styleId] = {
                     name: nameNode?.['w:val'] || nameNode?.['val'],
                     basedOn,
+                    next: nextNode?.['w:val'] || nextNode?.['val'],
                     type: type,
+                    isDefault: defaultAttr === '1' || defaultAttr === 'true',
+                    hidden: style['w:hidden'] !== undefined || style['w:semiHidden'] !== undefined,
                     indent,
                     spacing,
                     tabStops,
+                    textAlign,
+                    outlineLevel,
                     runProps: this.parseRunProperties(style)
                 };
 
@@ -218,6 +535,57 @@ export class DocxReader {
         });
     }
 
+    /**
+     * Style catalogue (doc attrs.styles) built from the parsed styles.xml
+     */
+    private getStyleCatalogue(): DocxStyle[] {
+        return Object.entries(this.stylesMap).map(([styleId, style]) => {
+            const props: DocxStyleProps = { ...(style.runProps || {}) };
+            if (style.spacing?.before) props.spacingBefore = style.spacing.before;
+            if (style.spacing?.after) props.spacingAfter = style.spacing.after;
+            if (style.spacing?.line) props.lineHeight = style.spacing.line;
+            if (style.spacing?.lineRule) props.lineRule = style.spacing.lineRule;
+            if (style.indent?.left) props.indent = style.indent.left;
+            if (style.indent?.firstLine) props.firstLine = style.indent.firstLine;
+            if (style.indent?.hanging) props.hanging = style.indent.hanging;
+            if (style.textAlign) props.textAlign = style.textAlign;
+            if (style.tabStops?.length) props.tabStops = style.tabStops;
+
+            return {
+                styleId,
+                type: style.type || 'paragraph',
+                name: style.name || styleId,
+                ...(style.basedOn ? { basedOn: style.basedOn } : {}),
+                ...(style.next ? { next: style.next } : {}),
+                ...(style.isDefault ? { isDefault: true } : {}),
+                ...(style.hidden ? { hidden: true } : {}),
+                ...(style.outlineLevel !== undefined ? { outlineLevel: style.outlineLevel } : {}),
+                props,
+            };
+        });
+    }
+
+    /**
+     * Document defaults (w:docDefaults) as style formatting, the base of every style
+     */
+    private getStyleDefaults(): DocxStyleProps {
+        const defaults: DocxStyleProps = {};
+        if (!this.docDefaults) return defaults;
+
+        const sz = this.docDefaults.sz?.['w:val'] || this.docDefaults.sz?.['val'];
+        if (sz) defaults.fontSize = `${parseInt(sz) / 2}pt`;
+        const fonts = this.docDefaults.rFonts?.[':@'] || this.docDefaults.rFonts;
+        const font = fonts?.['w:eastAsia'] || fonts?.['eastAsia'] || fonts?.['w:ascii'] || fonts?.['ascii'];
+        if (font) defaults.fontFamily = font;
+
+        const spacing = this.docDefaults.pPr?.spacing;
+        if (spacing?.before) defaults.spacingBefore = spacing.before;
+        if (spacing?.after) defaults.spacingAfter = spacing.after;
+        if (spacing?.line) defaults.lineHeight = spacing.line;
+        if (spacing?.lineRule) defaults.lineRule = spacing.lineRule;
+        return defaults;
+    }
+
     private parseRunProperties(node: any): any {
         const rPr = node['w:rPr'] || node['rPr'];
         if (!rPr) return null;
@@ -286,11 +654,22 @@ export class DocxReader {
                 if (font) props.fontFamily = font;
             }
 
-            // Bold, Italic, Underline, Strike
-            if ((rPr['w:b'] || rPr['b']) !== undefined) props.bold = true;
-            if ((rPr['w:i'] || rPr['i']) !== undefined) props.italic = true;
-            if ((rPr['w:u'] || rPr['u']) !== undefined) props.underline = true;
-            if ((rPr['w:strike'] || rPr['strike']) !== undefined) props.strike = true;
+            // Bold, Italic, Underline, Strike (empty elements like <w:b/> parse as ''; w:val="0" turns the property off)
+            const toggle = (keyName: string, offValues: string[]) => {
+                const toggleNode = rPr[`w:${keyName}`] ?? rPr[keyName];
+                if (toggleNode === undefined) return undefined;
+                return !offValues.includes(String(getAttrVal(toggleNode) ?? ''));
+            };
+            const toggles: [keyof DocxStyleProps, string, string[]][] = [
+                ['bold', 'b', ['0', 'false']],
+                ['italic', 'i', ['0', 'false']],
+                ['underline', 'u', ['none']],
+                ['strike', 'strike', ['0', 'false']],
+            ];
+            for (const [prop, keyName, offValues] of toggles) {
+                const value = toggle(keyName, offValues);
+                if (value !== undefined) props[prop] = value;
+            }
         }
 
         return props;
@@ -359,8 +738,12 @@ export class DocxReader {
                     }
                 });
 
+                // commentsExtended.xml refers to a comment by the w14:paraId of its last paragraph
+                const paragraphs = commentContent.filter((pItem: any) => pItem['w:p'] || pItem['p']);
+                const paraId = paragraphs[paragraphs.length - 1]?.[':@']?.['w14:paraId'];
+
                 if (id) {
-                    this.commentsMap[id] = { id, author, initials, date, content };
+                    this.commentsMap[id] = { id, author, initials, date, content, ...(paraId ? { paraId } : {}) };
                     console.log('DEBUG parseComments: Added comment', { id, author, content });
                 }
             }
@@ -369,6 +752,50 @@ export class DocxReader {
         console.log('DEBUG parseComments: Final commentsMap', this.commentsMap);
     }
 
+    /**
+     * Parse commentsExtended.xml: w15:paraIdParent links a reply to the comment it answers,
+     * w15:done marks a resolved thread. Replies are attached to their thread's root comment.
+     */
+    private parseCommentsExtended(xmlContent: string) {
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            preserveOrder: true,
+        });
+        const root = parser.parse(xmlContent).find((x: any) => x['w15:commentsEx']);
+        const byParaId = new Map<string, DocxComment>();
+        Object.values(this.commentsMap).forEach(comment => {
+            if (comment.paraId) byParaId.set(comment.paraId, comment);
+        });
+
+        (root?.['w15:commentsEx'] || []).forEach((item: any) => {
+            if (!item['w15:commentEx']) return;
+            const attrs = item[':@'] || {};
+            const comment = byParaId.get(String(attrs['w15:paraId'] || ''));
+            if (!comment) return;
+            const parent = attrs['w15:paraIdParent'] ? byParaId.get(String(attrs['w15:paraIdParent'])) : undefined;
+            if (parent && parent !== comment) comment.parentId = parent.id;
+            comment.done = attrs['w15:done'] === '1' || attrs['w15:done'] === 'true';
+        });
+
+        // Build threads in comments.xml order (Word points every reply at the root; follow chains anyway)
+        const findRoot = (comment: DocxComment): DocxComment => {
+            const seen = new Set<string>();
+            let current = comment;
+            while (current.parentId && this.commentsMap[current.parentId] && !seen.has(current.id)) {
+                seen.add(current.id);
+                current = this.commentsMap[current.parentId];
+            }
+            return current;
+        };
+        Object.values(this.commentsMap).forEach(comment => {
+            if (!comment.parentId) return;
+            const threadRoot = findRoot(comment);
+            if (threadRoot === comment) return;
+            threadRoot.replies = [...(threadRoot.replies || []), { id: comment.id, author: comment.author, date: comment.date, content: comment.content }];
+        });
+    }
+
     /**
      * Parse numbering.xml to extract list numbering definitions
      * This maps numId -> abstractNumId -> level definitions (format, text pattern, indent)
@@ -533,6 +960,7 @@ export class DocxReader {
         if (!docRoot) throw new Error('Invalid XML structure: document root not found');
 
         const docObj = docRoot['w:document'] || docRoot['document'];
+        this.partNamespaces = docRoot[':@'] || {};
 
         // find body
         const bodyRoot = docObj.find((x: any) => x['w:body'] || x['body']);
@@ -547,18 +975,7 @@ export class DocxReader {
             sectPr = sectionNode['w:sectPr'] || sectionNode['sectPr'];
         }
 
-        const rawChildren = bodyContent.flatMap((node: any) => {
-            const key = Object.keys(node)[0];
-            if (key === 'w:p' || key === 'p') {
-                // Check if paragraph has section properties (section break)
-                // Note: handling section breaks properly is complex, we just look for doc defaults here
-                return this.parseParagraph(node[key]);
-            }
-            if (key === 'w:tbl' || key === 'tbl') return this.parseTable(node[key]);
-            // Handle structured document tags (sdt)
-            if (key === 'w:sdt' || key === 'sdt') return this.parseStructuredContent(node[key]);
-            return [];
-        });
+        const rawChildren = this.parseBodyContent(bodyContent);
 
 
         // NOTE: We no longer filter out empty paragraphs as they represent
@@ -584,22 +1001,18 @@ export class DocxReader {
                 result.attrs.docGrid = docGrid[':@'];
             }
 
-            // Extract pageSize
-            const pgSz = sectPr.find((x: any) => x['w:pgSz'] || x['pgSz']);
-            if (pgSz) {
-                result.attrs.pageSize = pgSz[':@'];
-            }
-
-            // Extract pageMargins
-            const pgMar = sectPr.find((x: any) => x['w:pgMar'] || x['pgMar']);
-            if (pgMar) {
-                result.attrs.pageMargins = pgMar[':@'];
-            }
-
-            // Extract columns
-            const cols = sectPr.find((x: any) => x['w:cols'] || x['cols']);
-            if (cols) {
-                result.attrs.cols = cols[':@'];
+            // Extract section type, pageSize, pageMargins and columns (last section)
+            const { sectionType, pageSize, pageMargins, cols } = this.parseSectionAttrs(sectPr);
+            if (sectionType) result.attrs.sectionType = sectionType;
+            if (pageSize) result.attrs.pageSize = pageSize;
+            if (pageMargins) result.attrs.pageMargins = pageMargins;
+            if (cols) result.attrs.cols = cols;
+
+            // Different first page header/footer
+            const titlePg = sectPr.find((x: any) => x['w:titlePg'] || x['titlePg']);
+            if (titlePg) {
+                const val = titlePg[':@']?.['w:val'] ?? titlePg[':@']?.['val'];
+                result.attrs.titlePage = val !== '0' && val !== 'false';
             }
 
             // Capture all children of sectPr to preserve headers, footers, etc.
@@ -614,9 +1027,145 @@ export class DocxReader {
             result.attrs.docDefaults = this.docDefaults;
         }
 
+        if (Object.keys(this.stylesMap).length > 0) {
+            if (!result.attrs) result.attrs = {};
+            result.attrs.styles = this.getStyleCatalogue();
+            result.attrs.styleDefaults = this.getStyleDefaults();
+        }
+
         return result;
     }
 
+    /**
+     * Page setup of a section (w:sectPr children): type, pgSz, pgMar and cols keep their raw attributes,
+     * all children are kept in sectPrElements for round-trip (header/footer references, numbering, ...)
+     */
+    private parseSectionAttrs(sectPr: any[]): any {
+        const find = (name: string) => sectPr.find((x: any) => x[`w:${name}`] || x[name]);
+        const typeNode = find('type');
+
+        return {
+            sectionType: typeNode ? (typeNode[':@']?.['w:val'] || typeNode[':@']?.['val'] || null) : null,
+            pageSize: find('pgSz')?.[':@'] || null,
+            pageMargins: find('pgMar')?.[':@'] || null,
+            cols: find('cols')?.[':@'] || null,
+            sectPrElements: sectPr.filter((x: any) => Object.keys(x)[0] !== ':@'),
+        };
+    }
+
+    /**
+     * Parse block-level children of w:body (or a header/footer root) into TipTap nodes
+     */
+    private parseBodyContent(nodes: any[]): any[] {
+        // Fields never continue across parts
+        this.fieldStack = [];
+        this.activeToc = null;
+        this.activeMoves = {};
+
+        return nodes.flatMap((node: any) => this.parseBlockElement(node));
+    }
+
+    /**
+     * Parse one block-level element (body, header/footer, note or table cell child)
+     */
+    private parseBlockElement(node: any): any[] {
+        const key = Object.keys(node).find(k => k !== ':@') || '';
+        if (key === 'w:p' || key === 'p') {
+            // A paragraph carrying section properties also yields its section break node
+            return this.parseParagraph(node[key]);
+        }
+        if (key === 'w:tbl' || key === 'tbl') return [this.parseTable(node[key])];
+        // Move ranges may also open or close between paragraphs
+        this.trackMoveRange(node);
+        // Handle structured document tags (sdt); data-bound controls are kept as-is
+        if (key === 'w:sdt' || key === 'sdt') {
+            if (this.isDataBoundSdt(node[key])) return [this.createPreservedNode(node, 'block')];
+            return this.parseStructuredContent(node[key]);
+        }
+        if (this.isPreservedElement(key, KNOWN_BLOCK_ELEMENTS)) return [this.createPreservedNode(node, 'block')];
+        return [];
+    }
+
+    /**
+     * Follow w:moveFromRangeStart / w:moveToRangeStart ... RangeEnd so moved runs get the name of their move
+     */
+    private trackMoveRange(item: any): void {
+        const key = Object.keys(item).find(k => k !== ':@') || '';
+        const match = /^(?:w:)?(moveFrom|moveTo)Range(Start|End)$/.exec(key);
+        if (!match) return;
+        const kind = match[1] as 'moveFrom' | 'moveTo';
+        if (match[2] === 'Start') {
+            const attrs = item[':@'] || {};
+            this.activeMoves[kind] = attrs['w:name'] || attrs['name'] || '';
+        } else {
+            delete this.activeMoves[kind];
+        }
+    }
+
+    /**
+     * Whether an element is outside what the reader understands at its level (and has content worth keeping)
+     */
+    private isPreservedElement(key: string, known: Set<string>): boolean {
+        if (!key || key === '#text') return false;
+        const localName = key.startsWith('w:') ? key.substring(2) : key;
+        return !known.has(localName) && !MARKUP_ONLY_ELEMENTS.has(localName);
+    }
+
+    private isDataBoundSdt(sdtContent: any[]): boolean {
+        const sdtPr = sdtContent.find((x: any) => x['w:sdtPr'] || x['sdtPr']);
+        return !!(sdtPr?.['w:sdtPr'] || sdtPr?.['sdtPr'] || []).some((x: any) => x['w:dataBinding'] || x['dataBinding']);
+    }
+
+    /**
+     * Keep an element the editor cannot represent as an opaque node carrying its original XML.
+     * The xmlns declarations of the part are added to the fragment root so it stays valid wherever it is written.
+     */
+    private createPreservedNode(element: any, kind: 'block' | 'inline'): any {
+        const builder = new XMLBuilder({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            preserveOrder: true,
+            suppressEmptyNode: true,
+        });
+        let xml: string = builder.build([element]);
+
+        const prefixes = new Set(Array.from(xml.matchAll(/[<\s]([A-Za-z][\w.-]*):[\w.-]+/g), m => m[1]));
+        const declarations = Array.from(prefixes)
+            .filter(prefix => prefix !== 'xml' && prefix !== 'xmlns' && this.partNamespaces[`xmlns:${prefix}`])
+            .filter(prefix => !new RegExp(`^<[^>]*\\sxmlns:${prefix}=`).test(xml))
+            .map(prefix => ` xmlns:${prefix}="${this.partNamespaces[`xmlns:${prefix}`]}"`)
+            .join('');
+        if (declarations) xml = xml.replace(/^<([^\s/>]+)/, `<$1${declarations}`);
+
+        // Runs are preserved as a whole; they are described by their content element
+        const key = Object.keys(element).find(k => k !== ':@') || '';
+        const contentKey = key === 'w:r'
+            ? Object.keys(element[key].find((x: any) => !x['w:rPr']) || {}).find(k => k !== ':@') || key
+            : key;
+        return {
+            type: kind === 'block' ? 'preservedBlock' : 'preservedInline',
+            attrs: { xml, label: this.describePreservedElement(contentKey, xml) },
+        };
+    }
+
+    /**
+     * Equation (m:oMath / m:oMathPara) as a math node: latex is the editable linear form,
+     * xml the original OMML written back while the equation is unchanged
+     */
+    private createMathNode(element: any, key: string): any {
+        const display = key === 'm:oMathPara';
+        const { xml } = this.createPreservedNode(element, 'inline').attrs;
+        return { type: 'math', attrs: { latex: ommlToLatex(element[key], display), display, xml } };
+    }
+
+    private describePreservedElement(key: string, xml: string): string {
+        if (xml.includes('<c:chart')) return 'グラフ';
+        if (xml.includes('<dgm:relIds')) return 'SmartArt';
+        if (key === 'w:sdt' && xml.includes('<w:dataBinding')) return 'データバインドされたコンテンツコントロール';
+        if (key === 'w:drawing' || key === 'mc:AlternateContent') return '図形';
+        return PRESERVED_LABELS[key] || key;
+    }
+
     // Group consecutive list items into ordered/bullet lists with proper nesting
     private groupListItems(items: any[]): any[] {
         const result: any[] = [];
@@ -1145,10 +1694,10 @@ export class DocxReader {
                             results.push(this.parseTable(contentItem[contentKey]));
                         } else if (contentKey === 'w:sdt' || contentKey === 'sdt') {
                             // Nested sdt
-                            results.push(...this.parseStructuredContent(contentItem[contentKey]));
+                            results.push(...this.parseBlockElement(contentItem));
                         } else if (contentKey === 'w:r' || contentKey === 'r') {
                             // Handle runs directly inside sdtContent (without wrapping paragraph)
-                            const runNodes = this.parseRun(contentItem[contentKey]);
+                            const runNodes = this.collapseFields(this.parseRun(contentItem[contentKey]));
                             if (runNodes.length > 0) {
                                 results.push({
                                     type: 'paragraph',
@@ -1171,10 +1720,12 @@ export class DocxReader {
                                 if (runNodes.length > 0) {
                                     results.push({
                                         type: 'paragraph',
-                                        content: runNodes
+                                        content: this.collapseFields(runNodes)
                                     });
                                 }
                             }
+                        } else if (this.isPreservedElement(contentKey, KNOWN_BLOCK_ELEMENTS)) {
+                            results.push(this.createPreservedNode(contentItem, 'block'));
                         }
                     }
                 }
@@ -1189,10 +1740,13 @@ export class DocxReader {
         const children: any[] = [];
         // Track active comment IDs for this paragraph
         const activeCommentIds: string[] = [];
-        let hasPageBreak = false;
+        // Paragraph-level w:sectPr ends a section after this paragraph
+        let sectionBreak: any = null;
         // Paragraph default run properties (from w:pPr/w:rPr)
         // Initialize with document-level defaults from docDefaults
         const paragraphDefaults: { fontSize?: string; fontFamily?: string } = {};
+        // Styled paragraphs take their defaults from the style catalogue, not docDefaults
+        let hasParagraphStyle = false;
 
         // Apply document default font size if available (w:sz value in half-points)
         // Apply document default font size if available (w:sz value in half-points)
@@ -1208,6 +1762,7 @@ export class DocxReader {
                 const pPr = item[pPrKey];
                 pPr.forEach((prop: any) => {
                     const propKey = Object.keys(prop)[0];
+                    if (propKey === 'w:pStyle' || propKey === 'pStyle') hasParagraphStyle = true;
                     // Look for rPr inside pPr (paragraph default run properties)
                     if (propKey === 'w:rPr' || propKey === 'rPr') {
                         const rPr = prop[propKey];
@@ -1238,6 +1793,8 @@ export class DocxReader {
             const pPrKey = keys.find(k => k === 'w:pPr' || k === 'pPr');
             const rKey = keys.find(k => k === 'w:r' || k === 'r');
 
+            this.trackMoveRange(item);
+
             // Comment Range Start: w:commentRangeStart
             const commentStartKey = keys.find(k => k === 'w:commentRangeStart' || k === 'commentRangeStart');
             if (commentStartKey) {
@@ -1354,104 +1911,8 @@ export class DocxReader {
                                 }
                             }
 
-                            // Resolve effective spacing from style chain and defaults
-                            let effectiveSpacing = { ...(this.docDefaults?.pPr?.spacing || {}) };
-                            // Resolve effective indentation from style chain and defaults (DOCX twips)
-                            let effectiveIndent = { ...(this.docDefaults?.pPr?.indent || {}) };
-                            // Resolve effective tab stops from style chain (base -> derived)
-                            let effectiveTabStops: any[] | null = null;
-
-                            // Initialize with docDefaults for run props
-                            let effectiveRunProps: any = {};
-                            if (this.docDefaults) {
-                                if (this.docDefaults.sz) {
-                                    const val = this.docDefaults.sz['w:val'] || this.docDefaults.sz['val'];
-                                    if (val) effectiveRunProps.fontSize = `${parseInt(val) / 2}pt`;
-                                }
-                                if (this.docDefaults.rFonts) {
-                                    const fonts = this.docDefaults.rFonts;
-                                    const val = fonts[':@']?.['w:eastAsia'] || fonts[':@']?.['eastAsia'] || fonts[':@']?.['w:ascii'] || fonts[':@']?.['ascii'];
-                                    if (val) effectiveRunProps.fontFamily = val;
-                                }
-                            }
-
-                            // Build style chain to resolve inheritance (from base to specific)
-                            const chain: any[] = [];
-                            let currentStyleId = val;
-                            const visited = new Set();
-
-                            while (currentStyleId && this.stylesMap[currentStyleId] && !visited.has(currentStyleId)) {
-                                chain.unshift(this.stylesMap[currentStyleId]); // Add to start to process base first
-                                visited.add(currentStyleId);
-                                currentStyleId = this.stylesMap[currentStyleId].basedOn;
-                            }
-
-                            // Merge properties from chain
-                            chain.forEach(style => {
-                                if (style.spacing) {
-                                    effectiveSpacing = { ...effectiveSpacing, ...style.spacing };
-                                }
-                                if (style.indent) {
-                                    effectiveIndent = { ...effectiveIndent, ...style.indent };
-                                }
-                                if (style.tabStops && Array.isArray(style.tabStops) && style.tabStops.length) {
-                                    // Merge by position; derived style overrides base at same pos
-                                    const byPos = new Map<string, any>();
-                                    for (const ts of (effectiveTabStops || [])) byPos.set(String(ts.posTwips), ts);
-                                    for (const ts of style.tabStops) byPos.set(String(ts.posTwips), ts);
-                                    effectiveTabStops = Array.from(byPos.values()).sort((a, b) => parseInt(a.posTwips) - parseInt(b.posTwips));
-                                }
-                                if (style.runProps) {
-                                    effectiveRunProps = { ...effectiveRunProps, ...style.runProps };
-                                }
-                            });
-
-                            // Apply resolved spacing to attributes if not overridden by direct formatting
-                            if (effectiveSpacing) {
-                                if (!attrs.spacingBefore && effectiveSpacing.before) {
-                                    attrs.spacingBefore = effectiveSpacing.before;
-                                }
-                                if (!attrs.spacingAfter && effectiveSpacing.after) {
-                                    attrs.spacingAfter = effectiveSpacing.after;
-                                }
-                                if (!attrs.lineHeight && effectiveSpacing.line) {
-                                    attrs.lineHeight = effectiveSpacing.line;
-                                }
-                                if (!attrs.lineRule && effectiveSpacing.lineRule) {
-                                    attrs.lineRule = effectiveSpacing.lineRule;
-                                }
-                                console.log('DEBUG parseParagraph: Resolved effective spacing for style ' + val + ':', effectiveSpacing);
-                            }
-
-                            // Apply resolved indentation to attributes if not overridden by direct formatting.
-                            // NOTE: "0" is a valid value and should be preserved.
-                            const hasVal = (v: any) => v !== undefined && v !== null;
-                            if (!hasVal(attrs.indent) && hasVal((effectiveIndent as any).left)) {
-                                attrs.indent = (effectiveIndent as any).left;
-                            }
-                            if (!hasVal(attrs.hanging) && hasVal((effectiveIndent as any).hanging)) {
-                                attrs.hanging = (effectiveIndent as any).hanging;
-                            }
-                            if (!hasVal(attrs.firstLine) && hasVal((effectiveIndent as any).firstLine)) {
-                                attrs.firstLine = (effectiveIndent as any).firstLine;
-                            }
-
-                            // Apply resolved tab stops if not overridden by direct formatting
-                            if (!attrs.tabStops && effectiveTabStops && effectiveTabStops.length) {
-                                attrs.tabStops = effectiveTabStops;
-                            }
-
-                            // Apply resolved run properties to paragraphDefaults (which become default for runs in this paragraph)
-                            // Only if not already set by paragraph-level direct formatting (checked below)
-                            if (effectiveRunProps) {
-                                if (!paragraphDefaults.fontSize && effectiveRunProps.fontSize) {
-                                    paragraphDefaults.fontSize = effectiveRunProps.fontSize;
-                                }
-                                if (!paragraphDefaults.fontFamily && effectiveRunProps.fontFamily) {
-                                    paragraphDefaults.fontFamily = effectiveRunProps.fontFamily;
-                                }
-                                // We could also support color, bold, etc. here if needed for the whole paragraph
-                            }
+                            // The style's formatting (spacing, indentation, tab stops, fonts) is not flattened into
+                            // the paragraph: it stays in the style catalogue (attrs.styles) and is rendered from there
                         }
                     }
 
@@ -1561,30 +2022,30 @@ export class DocxReader {
                     }
 
 
-                    // Section Properties (SectPr) - Check for Section Break
+                    // Tracked formatting change: w:pPrChange holds the paragraph properties before the change,
+                    // parsed like a paragraph of its own (skipped inside a TOC, whose paragraphs are collected as entries)
+                    if ((propKey === 'w:pPrChange' || propKey === 'pPrChange') && !this.activeToc) {
+                        const previous = prop[propKey].find((p: any) => p['w:pPr'] || p['pPr']);
+                        const [before] = this.parseParagraph([{ 'w:pPr': previous?.['w:pPr'] || previous?.['pPr'] || [] }]);
+                        attrs.formatChange = {
+                            author: prop[':@']?.['w:author'] || 'Unknown',
+                            date: prop[':@']?.['w:date'] || '',
+                            type: before.type,
+                            attrs: before.attrs,
+                        };
+                    }
+
+                    // Section Properties (SectPr) - this paragraph ends a section
                     if (propKey === 'w:sectPr' || propKey === 'sectPr') {
                         const sectPr = prop[propKey];
-                        // check w:type
-                        let type = 'nextPage'; // Default if not specified
-
                         // sectPr is typically an array of props in this parser structure
-                        if (Array.isArray(sectPr)) {
-                            const typeNode = sectPr.find((x: any) => x['w:type'] || x['type']);
-                            if (typeNode) {
-                                type = typeNode[':@']?.['w:val'] || typeNode[':@']?.['val'] || 'nextPage';
-                            }
-                        }
-
-                        if (type !== 'continuous') {
-                            hasPageBreak = true;
-                        }
+                        sectionBreak = { type: 'sectionBreak', attrs: this.parseSectionAttrs(Array.isArray(sectPr) ? sectPr : []) };
                     }
                 });
             }
 
             // Fallback: If no style was explicitly applied, inherit from docDefaults
-            // Fallback: If no style was explicitly applied, inherit from docDefaults
-            if (!attrs.styleId) {
+            if (!hasParagraphStyle) {
                 if (this.docDefaults?.pPr?.spacing) {
                     const def = this.docDefaults.pPr.spacing;
                     if (!attrs.spacingBefore && def.before) attrs.spacingBefore = def.before;
@@ -1660,9 +2121,30 @@ export class DocxReader {
                 });
             }
 
+            // Track Changes: Moves (w:moveFrom / w:moveTo), linked by the name of the enclosing move range
+            const moveKey = keys.find(k => k === 'w:moveFrom' || k === 'moveFrom' || k === 'w:moveTo' || k === 'moveTo');
+            if (moveKey) {
+                const type = moveKey.endsWith('moveFrom') ? 'moveFrom' : 'moveTo';
+                const moveAttrs = item[':@'] || {};
+                const trackChange = {
+                    type,
+                    author: moveAttrs['w:author'] || moveAttrs['author'] || 'Unknown',
+                    date: moveAttrs['w:date'] || moveAttrs['date'] || '',
+                    name: this.activeMoves[type] || '',
+                } as const;
+                (item[moveKey] || []).forEach((moveItem: any) => {
+                    const moveRKey = Object.keys(moveItem).find(k => k === 'w:r' || k === 'r');
+                    if (moveRKey) {
+                        children.push(...this.parseRun(moveItem[moveRKey], trackChange, activeCommentIds.length > 0 ? [...activeCommentIds] : undefined, Object.keys(paragraphDefaults).length > 0 ? paragraphDefaults : undefined));
+                    }
+                });
+            }
+
             // Handle inline structured document tags (w:sdt) within paragraphs
             const sdtKey = keys.find(k => k === 'w:sdt' || k === 'sdt');
-            if (sdtKey) {
+            if (sdtKey && this.isDataBoundSdt(item[sdtKey])) {
+                children.push(this.createPreservedNode(item, 'inline'));
+            } else if (sdtKey) {
                 const sdtContent = item[sdtKey];
                 // Recursively extract runs from inline sdt
                 const extractInlineSdtRuns = (sdtItems: any[]): void => {
@@ -1721,6 +2203,45 @@ export class DocxReader {
                 };
                 extractInlineSdtRuns(sdtContent);
             }
+
+            // Hyperlinks (w:hyperlink): external via r:id, internal via w:anchor
+            const hyperlinkKey = keys.find(k => k === 'w:hyperlink' || k === 'hyperlink');
+            if (hyperlinkKey) {
+                children.push(...this.parseHyperlink(
+                    item[hyperlinkKey],
+                    item[':@'] || {},
+                    activeCommentIds.length > 0 ? [...activeCommentIds] : undefined,
+                    Object.keys(paragraphDefaults).length > 0 ? paragraphDefaults : undefined
+                ));
+            }
+
+            // Bookmarks (w:bookmarkStart / w:bookmarkEnd)
+            const bookmarkNode = this.parseBookmark(item);
+            if (bookmarkNode) {
+                children.push(bookmarkNode);
+            }
+
+            // Simple fields (w:fldSimple w:instr="PAGE"): the child runs hold the cached result
+            const fldSimpleKey = keys.find(k => k === 'w:fldSimple' || k === 'fldSimple');
+            if (fldSimpleKey) {
+                const resultNodes: any[] = [];
+                (item[fldSimpleKey] || []).forEach((child: any) => {
+                    const childKey = Object.keys(child)[0];
+                    if (childKey === 'w:r' || childKey === 'r') {
+                        resultNodes.push(...this.parseRun(child[childKey], undefined, activeCommentIds.length > 0 ? [...activeCommentIds] : undefined, Object.keys(paragraphDefaults).length > 0 ? paragraphDefaults : undefined));
+                    }
+                });
+                const instruction = item[':@']?.['w:instr'] || item[':@']?.['instr'] || '';
+                children.push(this.createFieldNode(instruction, resultNodes, true));
+            }
+
+            // Office Math: editable equation; anything else (w:customXml, w:smartTag, ...) is kept verbatim
+            const elementKey = keys.find(k => k !== ':@') || '';
+            if (elementKey === 'm:oMath' || elementKey === 'm:oMathPara') {
+                children.push(this.createMathNode(item, elementKey));
+            } else if (this.isPreservedElement(elementKey, KNOWN_PARAGRAPH_ELEMENTS)) {
+                children.push(this.createPreservedNode(item, 'inline'));
+            }
         });
 
         // Store paragraph defaults as attrs for serialization (after resolving styles)
@@ -1732,7 +2253,20 @@ export class DocxReader {
         }
 
 
-        const validChildren = children.filter(c => c);
+        const validChildren = this.collapseFields(children.filter(c => c));
+
+        // Paragraphs inside a TOC field become entries of a single tableOfContents node
+        if (this.activeToc) {
+            const toc = this.activeToc;
+            const entry = this.parseTocEntry(validChildren, attrs.styleId);
+            if (entry) toc.entries.push(entry);
+            if (!toc.closed) return [];
+
+            this.activeToc = null;
+            const tocNodes: any[] = [{ type: 'tableOfContents', attrs: { instruction: toc.instruction, entries: toc.entries } }];
+            if (sectionBreak) tocNodes.push(sectionBreak);
+            return tocNodes;
+        }
 
         // IMPORTANT: For roundtrip fidelity, all DOCX paragraphs should remain as 'paragraph' type.
         // The original document uses <w:p> elements with <w:pStyle> to apply heading styles.
@@ -1770,17 +2304,194 @@ export class DocxReader {
 
         const nodes = [result];
 
-        // Append Page Break if Section Break was found
-        if (hasPageBreak) {
-            nodes.push({ type: 'pageBreak' });
+        // Section break after the paragraph that carries the section properties
+        if (sectionBreak) {
+            nodes.push(sectionBreak);
         }
 
         return nodes;
     }
 
+    /**
+     * Replace field character / instruction placeholders with field nodes.
+     * Runs between "separate" and "end" are the cached result shown by the field node;
+     * nested fields are flattened into the outer field. A TOC field switches to entry collection
+     * (see parseParagraph) since its result spans paragraphs.
+     */
+    private collapseFields(nodes: any[]): any[] {
+        const output: any[] = [];
+
+        for (const node of nodes) {
+            const top = this.fieldStack[this.fieldStack.length - 1];
+
+            if (node.type === FIELD_CHAR_NODE) {
+                if (node.fldCharType === 'begin') {
+                    this.fieldStack.push({ instruction: '', separated: false, result: [] });
+                } else if (node.fldCharType === 'separate' && top) {
+                    top.separated = true;
+                    if (this.fieldStack.length === 1 && /^\s*TOC\b/i.test(top.instruction)) {
+                        top.toc = true;
+                        this.activeToc = { instruction: top.instruction.trim(), entries: [], closed: false };
+                    }
+                } else if (node.fldCharType === 'end' && top) {
+                    this.fieldStack.pop();
+                    if (top.toc) {
+                        if (this.activeToc) this.activeToc.closed = true;
+                        continue;
+                    }
+                    const parent = this.fieldStack[this.fieldStack.length - 1];
+                    if (parent && !parent.toc) {
+                        if (parent.separated) parent.result.push(...top.result);
+                        else parent.instruction += this.getFieldResultText(top.result);
+                    } else {
+                        output.push(this.createFieldNode(top.instruction, top.result, false));
+                    }
+                }
+                continue;
+            }
+
+            if (node.type === FIELD_INSTR_NODE) {
+                if (top && !top.separated) top.instruction += node.text;
+                continue;
+            }
+
+            if (top && !top.toc) {
+                if (top.separated) top.result.push(node);
+                continue;
+            }
+
+            output.push(node);
+        }
+
+        return output;
+    }
+
+    private getFieldResultText(nodes: any[]): string {
+        return nodes.map(n => (n.type === 'text' ? n.text : n.type === 'tab' ? '\t' : n.type === 'field' ? n.attrs.result : '')).join('');
+    }
+
+    /**
+     * Build a field node from its instruction and cached result runs
+     */
+    private createFieldNode(instruction: string, resultNodes: any[], simple: boolean): any {
+        const trimmed = instruction.trim();
+        const marks = resultNodes.find(n => n.type === 'text')?.marks;
+        return {
+            type: 'field',
+            attrs: {
+                instruction: trimmed,
+                fieldType: (trimmed.split(/\s+/)[0] || '').toUpperCase(),
+                result: this.getFieldResultText(resultNodes),
+                simple,
+            },
+            marks: marks?.length ? marks : undefined
+        };
+    }
+
+    /**
+     * Turn a paragraph inside a TOC field into an entry: text, page (after the last tab),
+     * level (from the "toc N" paragraph style) and the _Toc bookmark it links to.
+     */
+    private parseTocEntry(nodes: any[], styleId?: string): any | null {
+        const text = this.getFieldResultText(nodes);
+        if (!text.trim()) return null;
+
+        const tabIndex = text.lastIndexOf('\t');
+        const styleName = String((styleId && this.stylesMap[styleId]?.name) || styleId || '');
+        const levelMatch = styleName.match(/toc\s*(\d)/i);
+        const link = nodes
+            .flatMap(n => n.marks || [])
+            .find((m: any) => m.type === 'link' && String(m.attrs?.href || '').startsWith('#'));
+
+        return {
+            text: (tabIndex >= 0 ? text.substring(0, tabIndex) : text).trim(),
+            page: tabIndex >= 0 ? text.substring(tabIndex + 1).trim() : '',
+            level: levelMatch ? parseInt(levelMatch[1]) : 1,
+            anchor: link ? link.attrs.href.substring(1) : null,
+            styleId: styleId || null,
+        };
+    }
+
+    /**
+     * Parse a w:hyperlink element into its run nodes with a link mark.
+     * External targets come from the document relationships; internal ones become "#anchor".
+     */
+    private parseHyperlink(
+        hyperlinkContent: any[],
+        hyperlinkAttrs: any,
+        commentIds?: string[],
+        paragraphDefaults?: { fontSize?: string; fontFamily?: string }
+    ): any[] {
+        const rId = hyperlinkAttrs['r:id'];
+        const anchor = hyperlinkAttrs['w:anchor'] || hyperlinkAttrs['anchor'];
+        const rel = rId ? this.documentRels[rId] : undefined;
+
+        let href: string | null = null;
+        if (rel && rel.type === 'hyperlink') {
+            href = anchor ? `${rel.target}#${anchor}` : rel.target;
+        } else if (anchor) {
+            href = `#${anchor}`;
+        }
+
+        const linkMark = href ? {
+            type: 'link',
+            attrs: {
+                href,
+                target: null,
+                title: hyperlinkAttrs['w:tooltip'] || hyperlinkAttrs['tooltip'] || null,
+                rId: rel ? rId : null,
+            }
+        } : null;
+
+        const nodes: any[] = [];
+        (hyperlinkContent || []).forEach((child: any) => {
+            const key = Object.keys(child).find(k => k !== ':@');
+            if (key === 'w:r' || key === 'r') {
+                nodes.push(...this.parseRun(child[key], undefined, commentIds, paragraphDefaults));
+            } else if (key === 'w:ins' || key === 'ins' || key === 'w:del' || key === 'del') {
+                const changeAttrs = child[':@'] || {};
+                const trackChange = {
+                    type: (key.endsWith('ins') ? 'insertion' : 'deletion') as 'insertion' | 'deletion',
+                    author: changeAttrs['w:author'] || changeAttrs['author'] || 'Unknown',
+                    date: changeAttrs['w:date'] || changeAttrs['date'] || '',
+                };
+                (child[key] || []).forEach((changeItem: any) => {
+                    const changeKey = Object.keys(changeItem)[0];
+                    if (changeKey === 'w:r' || changeKey === 'r') {
+                        nodes.push(...this.parseRun(changeItem[changeKey], trackChange, commentIds, paragraphDefaults));
+                    }
+                });
+            } else {
+                const bookmarkNode = this.parseBookmark(child);
+                if (bookmarkNode) nodes.push(bookmarkNode);
+            }
+        });
+
+        if (!linkMark) return nodes;
+        return nodes.map(node => node.type === 'text'
+            ? { ...node, marks: [...(node.marks || []), linkMark] }
+            : node);
+    }
+
+    /**
+     * Parse w:bookmarkStart / w:bookmarkEnd into bookmark marker nodes (null for other elements)
+     */
+    private parseBookmark(item: any): any | null {
+        const key = Object.keys(item).find(k => k !== ':@');
+        const attrs = item[':@'] || {};
+        const id = attrs['w:id'] ?? attrs['id'];
+        if (key === 'w:bookmarkStart' || key === 'bookmarkStart') {
+            return { type: 'bookmarkStart', attrs: { id: id ?? null, name: attrs['w:name'] || attrs['name'] || '' } };
+        }
+        if (key === 'w:bookmarkEnd' || key === 'bookmarkEnd') {
+            return { type: 'bookmarkEnd', attrs: { id: id ?? null } };
+        }
+        return null;
+    }
+
     private parseRun(
         runContent: any[],
-        trackChange?: { type: 'insertion' | 'deletion'; author: string; date: string },
+        trackChange?: { type: 'insertion' | 'deletion' | 'moveFrom' | 'moveTo'; author: string; date: string; name?: string },
         commentIds?: string[],
         paragraphDefaults?: { fontSize?: string; fontFamily?: string }
     ): any[] {
@@ -1794,7 +2505,8 @@ export class DocxReader {
                 type: trackChange.type,
                 attrs: {
                     author: trackChange.author,
-                    date: trackChange.date
+                    date: trackChange.date,
+                    ...(trackChange.name !== undefined ? { name: trackChange.name } : {}),
                 }
             });
         }
@@ -1803,14 +2515,17 @@ export class DocxReader {
         if (commentIds && commentIds.length > 0) {
             for (const commentId of commentIds) {
                 const comment = this.commentsMap[commentId];
-                if (comment) {
+                // Replies share their thread's range; they are carried by the root comment's mark
+                if (comment && !comment.parentId) {
                     marks.push({
                         type: 'comment',
                         attrs: {
                             commentId: comment.id,
                             author: comment.author,
                             date: comment.date,
-                            content: comment.content
+                            content: comment.content,
+                            ...(comment.replies?.length ? { replies: comment.replies } : {}),
+                            ...(comment.done ? { done: true } : {})
                         }
                     });
                 }
@@ -1819,64 +2534,31 @@ export class DocxReader {
 
         // First pass: collect marks from rPr
         // Start with paragraph defaults (from w:pPr/w:rPr), run-level properties will override
-        const textStyleAttrs: any = {};
-        if (paragraphDefaults?.fontSize) {
-            textStyleAttrs.fontSize = paragraphDefaults.fontSize;
-        }
-        if (paragraphDefaults?.fontFamily) {
-            textStyleAttrs.fontFamily = paragraphDefaults.fontFamily;
-        }
+        let formatMarks: any[] | null = null;
         runContent.forEach(item => {
             const keys = Object.keys(item);
             const rPrKey = keys.find(k => k === 'w:rPr' || k === 'rPr');
             if (rPrKey) {
                 const rPr = item[rPrKey];
-                rPr.forEach((prop: any) => {
-                    const pk = Object.keys(prop)[0];
-                    if (pk === 'w:b' || pk === 'b') marks.push({ type: 'bold' });
-                    if (pk === 'w:i' || pk === 'i') marks.push({ type: 'italic' });
-                    if (pk === 'w:u' || pk === 'u') marks.push({ type: 'underline' });
-                    if (pk === 'w:strike' || pk === 'strike') marks.push({ type: 'strike' });
-
-                    // Color
-                    if (pk === 'w:color' || pk === 'color') {
-                        const val = prop[':@']?.['w:val'] || prop[':@']?.['val'];
-                        if (val && val !== 'auto') textStyleAttrs.color = `#${val}`;
-                    }
-
-                    // Size (half-points)
-                    if (pk === 'w:sz' || pk === 'sz') {
-                        const val = prop[':@']?.['w:val'] || prop[':@']?.['val'];
-                        if (val) textStyleAttrs.fontSize = `${parseInt(val) / 2}pt`;
-                    }
-
-                    // Highlight
-                    if (pk === 'w:highlight' || pk === 'highlight') {
-                        const val = prop[':@']?.['w:val'] || prop[':@']?.['val'];
-                        if (val) marks.push({ type: 'highlight', attrs: { color: val } });
-                    }
-
-                    // Fonts
-                    if (pk === 'w:rFonts' || pk === 'rFonts') {
-                        const ascii = prop[':@']?.['w:ascii'] || prop[':@']?.['ascii'];
-                        const eastAsia = prop[':@']?.['w:eastAsia'] || prop[':@']?.['eastAsia'];
-                        const hAnsi = prop[':@']?.['w:hAnsi'] || prop[':@']?.['hAnsi'];
-                        const cs = prop[':@']?.['w:cs'] || prop[':@']?.['cs'];
-
-                        // Prioritize eastAsia for Japanese context, but fallback to ascii
-                        if (eastAsia) textStyleAttrs.fontFamily = eastAsia;
-                        else if (ascii) textStyleAttrs.fontFamily = ascii;
-                        else if (hAnsi) textStyleAttrs.fontFamily = hAnsi;
-                        else if (cs) textStyleAttrs.fontFamily = cs;
-                    }
-                });
+                formatMarks = this.parseRunFormatting(rPr, paragraphDefaults);
+
+                // Tracked formatting change: w:rPrChange holds the run properties before the change
+                const change = rPr.find((prop: any) => prop['w:rPrChange'] || prop['rPrChange']);
+                if (change) {
+                    const previous = (change['w:rPrChange'] || change['rPrChange'])
+                        .find((prop: any) => prop['w:rPr'] || prop['rPr']);
+                    formatMarks.push({
+                        type: 'formatChange',
+                        attrs: {
+                            author: change[':@']?.['w:author'] || 'Unknown',
+                            date: change[':@']?.['w:date'] || '',
+                            oldMarks: this.parseRunFormatting(previous?.['w:rPr'] || previous?.['rPr'] || [], paragraphDefaults),
+                        }
+                    });
+                }
             }
         });
-
-        // Add the consolidated textStyle mark if any attributes were found
-        if (Object.keys(textStyleAttrs).length > 0) {
-            marks.push({ type: 'textStyle', attrs: textStyleAttrs });
-        }
+        marks.push(...(formatMarks || this.parseRunFormatting([], paragraphDefaults)));
 
         // Helper to flush current text as a node
         const flushText = () => {
@@ -1890,6 +2572,9 @@ export class DocxReader {
             }
         };
 
+        // Run properties, copied into the runs of preserved elements
+        const rPrItems = runContent.filter((item: any) => item['w:rPr']);
+
         // Second pass: collect text and handle breaks
         runContent.forEach(item => {
             const keys = Object.keys(item);
@@ -1918,12 +2603,62 @@ export class DocxReader {
                 }
             }
 
+            // Complex fields: w:fldChar / w:instrText (collapsed into field nodes by collapseFields)
+            const fldCharKey = keys.find(k => k === 'w:fldChar' || k === 'fldChar');
+            if (fldCharKey) {
+                flushText();
+                nodes.push({ type: FIELD_CHAR_NODE, fldCharType: item[':@']?.['w:fldCharType'] || item[':@']?.['fldCharType'] });
+            }
+            const instrKey = keys.find(k => k === 'w:instrText' || k === 'instrText');
+            if (instrKey) {
+                flushText();
+                nodes.push({ type: FIELD_INSTR_NODE, text: (item[instrKey] || []).map((part: any) => part['#text'] ?? '').join('') });
+            }
+
             // Tabs: w:tab
             const tabKey = keys.find(k => k === 'w:tab' || k === 'tab');
             if (tabKey) {
                 flushText();
                 nodes.push({ type: 'tab' });
             }
+
+            // Images: w:drawing (wp:inline / wp:anchor with a pic:pic blip)
+            const drawingKey = keys.find(k => k === 'w:drawing');
+            if (drawingKey) {
+                const image = this.parseDrawing(item[drawingKey]);
+                flushText();
+                // Charts, SmartArt, shapes, ... are kept verbatim in a run of their own
+                nodes.push(image || this.createPreservedNode({ 'w:r': [...rPrItems, item] }, 'inline'));
+            }
+
+            // Objects, VML pictures, alternate content, symbols, ...
+            const elementKey = keys.find(k => k !== ':@') || '';
+            if (this.isPreservedElement(elementKey, KNOWN_RUN_ELEMENTS)) {
+                flushText();
+                nodes.push(this.createPreservedNode({ 'w:r': [...rPrItems, item] }, 'inline'));
+            }
+
+            // Footnote / endnote references (w:footnoteRef / w:endnoteRef inside note parts are dropped;
+            // the writer regenerates them)
+            const noteKey = keys.find(k => k === 'w:footnoteReference' || k === 'w:endnoteReference');
+            if (noteKey) {
+                const noteType = noteKey === 'w:footnoteReference' ? 'footnote' : 'endnote';
+                const noteId = String(item[':@']?.['w:id'] ?? '');
+                const rStyle = runContent
+                    .find((r: any) => r['w:rPr'])?.['w:rPr']
+                    ?.find((prop: any) => prop['w:rStyle'])?.[':@']?.['w:val'];
+
+                flushText();
+                nodes.push({
+                    type: 'footnote',
+                    attrs: {
+                        noteType,
+                        noteId,
+                        styleId: rStyle || null,
+                        content: this.notesMap[noteType][noteId] || [{ type: 'paragraph' }]
+                    }
+                });
+            }
         });
 
         // Flush remaining text
@@ -1932,46 +2667,277 @@ export class DocxReader {
         return nodes;
     }
 
+    /**
+     * Formatting marks of a run's w:rPr (bold, italic, ..., and one textStyle mark for color/size/font)
+     */
+    private parseRunFormatting(rPr: any[], paragraphDefaults?: { fontSize?: string; fontFamily?: string }): any[] {
+        const marks: any[] = [];
+        const textStyleAttrs: any = {};
+        if (paragraphDefaults?.fontSize) {
+            textStyleAttrs.fontSize = paragraphDefaults.fontSize;
+        }
+        if (paragraphDefaults?.fontFamily) {
+            textStyleAttrs.fontFamily = paragraphDefaults.fontFamily;
+        }
+
+        rPr.forEach((prop: any) => {
+            const pk = Object.keys(prop)[0];
+            if (pk === 'w:b' || pk === 'b') marks.push({ type: 'bold' });
+            if (pk === 'w:i' || pk === 'i') marks.push({ type: 'italic' });
+            if (pk === 'w:u' || pk === 'u') marks.push({ type: 'underline' });
+            if (pk === 'w:strike' || pk === 'strike') marks.push({ type: 'strike' });
+
+            // Color
+            if (pk === 'w:color' || pk === 'color') {
+                const val = prop[':@']?.['w:val'] || prop[':@']?.['val'];
+                if (val && val !== 'auto') textStyleAttrs.color = `#${val}`;
+            }
+
+            // Size (half-points)
+            if (pk === 'w:sz' || pk === 'sz') {
+                const val = prop[':@']?.['w:val'] || prop[':@']?.['val'];
+                if (val) textStyleAttrs.fontSize = `${parseInt(val) / 2}pt`;
+            }
+
+            // Highlight
+            if (pk === 'w:highlight' || pk === 'highlight') {
+                const val = prop[':@']?.['w:val'] || prop[':@']?.['val'];
+                if (val) marks.push({ type: 'highlight', attrs: { color: val } });
+            }
+
+            // Fonts
+            if (pk === 'w:rFonts' || pk === 'rFonts') {
+                const ascii = prop[':@']?.['w:ascii'] || prop[':@']?.['ascii'];
+                const eastAsia = prop[':@']?.['w:eastAsia'] || prop[':@']?.['eastAsia'];
+                const hAnsi = prop[':@']?.['w:hAnsi'] || prop[':@']?.['hAnsi'];
+                const cs = prop[':@']?.['w:cs'] || prop[':@']?.['cs'];
+
+                // Prioritize eastAsia for Japanese context, but fallback to ascii
+                if (eastAsia) textStyleAttrs.fontFamily = eastAsia;
+                else if (ascii) textStyleAttrs.fontFamily = ascii;
+                else if (hAnsi) textStyleAttrs.fontFamily = hAnsi;
+                else if (cs) textStyleAttrs.fontFamily = cs;
+            }
+        });
+
+        // Add the consolidated textStyle mark if any attributes were found
+        if (Object.keys(textStyleAttrs).length > 0) {
+            marks.push({ type: 'textStyle', attrs: textStyleAttrs });
+        }
+
+        return marks;
+    }
+
+    /**
+     * Parse a w:drawing element into an image node.
+     * The raw drawing is kept in attrs.drawing so anchoring/effects survive the round trip;
+     * the writer only updates the extent and blip relationship.
+     */
+    private parseDrawing(drawingContent: any[]): any | null {
+        const container = drawingContent.find((x: any) => x['wp:inline'] || x['wp:anchor']);
+        if (!container) return null;
+
+        const isAnchor = !!container['wp:anchor'];
+        const children: any[] = container['wp:inline'] || container['wp:anchor'];
+        const blip = this.findOrderlyElement(children, 'a:blip');
+        const rId = blip?.[':@']?.['r:embed'];
+        const media = rId ? this.activeMedia[rId] : undefined;
+        if (!media) return null;
+
+        const extent = children.find((x: any) => x['wp:extent'])?.[':@'] || {};
+        const docPr = children.find((x: any) => x['wp:docPr'])?.[':@'] || {};
+        const cx = parseInt(extent['cx']);
+        const cy = parseInt(extent['cy']);
+
+        // Wrap mode: inline images flow with text; anchored ones carry a wp:wrap* element
+        let wrap = 'inline';
+        let align: string | null = null;
+        if (isAnchor) {
+            const wrapKey = children.map((x: any) => Object.keys(x).find(k => k !== ':@') || '').find((k: string) => k.startsWith('wp:wrap'));
+            wrap = wrapKey ? wrapKey.substring('wp:wrap'.length).replace(/^./, (c: string) => c.toLowerCase()) : 'none';
+            if (wrap === 'none') {
+                const behindDoc = container[':@']?.['behindDoc'];
+                wrap = behindDoc === '1' || behindDoc === 'true' ? 'behind' : 'inFront';
+            }
+            const positionH = children.find((x: any) => x['wp:positionH'])?.['wp:positionH'];
+            const alignText = positionH?.find((x: any) => x['wp:align'])?.['wp:align']?.[0]?.['#text'];
+            align = alignText ? String(alignText) : null;
+        }
+
+        return {
+            type: 'image',
+            attrs: {
+                src: media.src,
+                alt: docPr['descr'] || null,
+                title: docPr['title'] || null,
+                width: isNaN(cx) ? null : Math.round(cx / EMU_PER_PIXEL),
+                height: isNaN(cy) ? null : Math.round(cy / EMU_PER_PIXEL),
+                rId,
+                target: media.target,
+                wrap,
+                align,
+                drawing: drawingContent
+            }
+        };
+    }
+
+    /**
+     * Depth-first search for an element in an orderly (preserveOrder) tree
+     */
+    private findOrderlyElement(nodes: any[], key: string): any | null {
+        for (const node of nodes || []) {
+            if (node[key]) return node;
+            const childKey = Object.keys(node).find(k => k !== ':@' && k !== '#text');
+            if (childKey && Array.isArray(node[childKey])) {
+                const found = this.findOrderlyElement(node[childKey], key);
+                if (found) return found;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Parse w:tbl into a table node
+     * - w:tblGrid column widths become the cells' colwidth (px) unless a cell has its own w:tcW
+     * - w:gridSpan becomes colspan; w:vMerge continuation cells are dropped and counted into the
+     *   rowspan of the cell that restarted the merge in the same grid column
+     * - w:tblPr / w:trPr children are kept as-is for the writer, except a row's w:ins / w:del revision,
+     *   which becomes the row's rowChange attr
+     */
     private parseTable(tblContent: any[]) {
+        const tblPr = tblContent.find((x: any) => x['w:tblPr'] || x['tblPr']);
+        const tblGrid = tblContent.find((x: any) => x['w:tblGrid'] || x['tblGrid']);
+        const grid: number[] = (tblGrid?.['w:tblGrid'] || tblGrid?.['tblGrid'] || [])
+            .filter((x: any) => x['w:gridCol'] || x['gridCol'])
+            .map((x: any) => parseInt(x[':@']?.['w:w'] || x[':@']?.['w'] || '0') || 0);
+
+        // Grid column -> cell that started a vertical merge there
+        const mergeOrigins: Record<number, any> = {};
         const rows: any[] = [];
         tblContent.forEach(item => {
             const trKey = Object.keys(item).find(k => k === 'w:tr' || k === 'tr');
             if (trKey) {
-                rows.push(this.parseTableRow(item[trKey]));
+                rows.push(this.parseTableRow(item[trKey], grid, mergeOrigins));
             }
         });
 
         return {
             type: 'table',
+            attrs: {
+                grid: grid.length > 0 ? grid : null,
+                tblPrElements: tblPr ? (tblPr['w:tblPr'] || tblPr['tblPr']) : null,
+            },
             content: rows
         };
     }
 
-    private parseTableRow(trContent: any[]) {
+    private parseTableRow(trContent: any[], grid: number[], mergeOrigins: Record<number, any>) {
+        const trPr = trContent.find((x: any) => x['w:trPr'] || x['trPr']);
+        const isRevision = (x: any) => x['w:ins'] || x['ins'] || x['w:del'] || x['del'];
+        const trPrChildren: any[] | null = trPr ? (trPr['w:trPr'] || trPr['trPr']) : null;
+        const trPrElements = trPrChildren ? trPrChildren.filter(x => !isRevision(x)) : null;
+        const isHeader = !!trPrElements?.some((x: any) => x['w:tblHeader'] || x['tblHeader']);
+
+        // Inserted / deleted row (w:trPr/w:ins, w:trPr/w:del)
+        const revision = trPrChildren?.find(isRevision);
+        const revisionAttrs = revision?.[':@'] || {};
+        const rowChange = revision ? {
+            type: revision['w:ins'] || revision['ins'] ? 'insertion' : 'deletion',
+            author: revisionAttrs['w:author'] || revisionAttrs['author'] || 'Unknown',
+            date: revisionAttrs['w:date'] || revisionAttrs['date'] || '',
+        } : null;
+
         const cells: any[] = [];
+        let gridCol = 0;
         trContent.forEach(item => {
             const tcKey = Object.keys(item).find(k => k === 'w:tc' || k === 'tc');
-            if (tcKey) {
-                cells.push(this.parseTableCell(item[tcKey]));
+            if (!tcKey) return;
+
+            const { cell, colspan, vMerge } = this.parseTableCell(item[tcKey], grid, gridCol, isHeader);
+            if (vMerge === 'continue' && mergeOrigins[gridCol]) {
+                mergeOrigins[gridCol].attrs.rowspan += 1;
+            } else {
+                if (vMerge === 'restart') {
+                    mergeOrigins[gridCol] = cell;
+                } else {
+                    delete mergeOrigins[gridCol];
+                }
+                cells.push(cell);
             }
+            gridCol += colspan;
         });
         return {
             type: 'tableRow',
+            attrs: { trPrElements, rowChange },
             content: cells
         };
     }
 
-    private parseTableCell(tcContent: any[]) {
-        const content: any[] = [];
-        tcContent.forEach(item => {
-            const pKey = Object.keys(item).find(k => k === 'w:p' || k === 'p');
-            if (pKey) {
-                content.push(...this.parseParagraph(item[pKey]));
-            }
-        });
+    private parseTableCell(tcContent: any[], grid: number[], gridCol: number, isHeader: boolean) {
+        const tcPrNode = tcContent.find((x: any) => x['w:tcPr'] || x['tcPr']);
+        const tcPr: any[] = tcPrNode ? (tcPrNode['w:tcPr'] || tcPrNode['tcPr']) : [];
+        const find = (name: string) => tcPr.find((x: any) => x[`w:${name}`] || x[name]);
+        const attrOf = (node: any, name: string) => node?.[':@']?.[`w:${name}`] ?? node?.[':@']?.[name];
+
+        const colspan = parseInt(attrOf(find('gridSpan'), 'val')) || 1;
+
+        // w:vMerge without a value means "continue"
+        const vMergeNode = find('vMerge');
+        const vMerge: 'restart' | 'continue' | null = vMergeNode
+            ? (attrOf(vMergeNode, 'val') === 'restart' ? 'restart' : 'continue')
+            : null;
+
+        // Widths in px: a spanned cell takes the grid columns it covers, which may differ in width;
+        // a single column takes the cell's own dxa width. The other falls back to the one given.
+        const tcW = find('tcW');
+        const cellWidth = attrOf(tcW, 'type') === 'dxa' || (tcW && !attrOf(tcW, 'type')) ? parseInt(attrOf(tcW, 'w')) || 0 : 0;
+        const gridWidths = grid.slice(gridCol, gridCol + colspan);
+        const hasGrid = gridWidths.length === colspan && gridWidths.every(w => w > 0);
+        let colwidth: number[] | null = null;
+        if (hasGrid && (colspan > 1 || cellWidth <= 0)) {
+            colwidth = gridWidths.map(w => Math.round(w / 15));
+        } else if (cellWidth > 0) {
+            colwidth = Array.from({ length: colspan }, () => Math.round(cellWidth / colspan / 15));
+        }
+
+        const shd = find('shd');
+        const fill = attrOf(shd, 'fill');
+        const shading = fill && fill !== 'auto' ? `#${fill}` : null;
+
+        const bordersNode = find('tcBorders');
+        let borders: Record<string, any> | null = null;
+        if (bordersNode) {
+            borders = {};
+            (bordersNode['w:tcBorders'] || bordersNode['tcBorders'] || []).forEach((border: any) => {
+                const side = Object.keys(border).find(k => k !== ':@');
+                if (side) borders![side.replace(/^w:/, '')] = border[':@'] || {};
+            });
+        }
+
+        const vAlign = attrOf(find('vAlign'), 'val') || null;
+
+        const content: any[] = tcContent
+            .filter((item: any) => !item['w:tcPr'] && !item['tcPr'])
+            .flatMap((item: any) => this.parseBlockElement(item));
+        if (content.length === 0) content.push({ type: 'paragraph' });
+
         return {
-            type: 'tableCell',
-            content
+            cell: {
+                type: isHeader ? 'tableHeader' : 'tableCell',
+                attrs: {
+                    colspan,
+                    rowspan: 1,
+                    colwidth,
+                    shading,
+                    borders,
+                    verticalAlign: vAlign,
+                    tcPrElements: tcPr.length > 0 ? tcPr : null,
+                },
+                content
+            },
+            colspan,
+            vMerge,
         };
     }
 }
+
@@ -430,6 +430,67 @@ describe('DocxWriter', () => {
             expect(documentXml).toContain('<w:t>Cell 1</w:t>');
             expect(documentXml).toContain('<w:t>Cell 2</w:t>');
         });
+
+        it('should write the grid, merged cells, shading and borders', async () => {
+            const cell = (text: string, attrs: Record<string, unknown> = {}, type = 'tableCell') => ({
+                type,
+                attrs,
+                content: [{ type: 'paragraph', content: [{ type: 'text', text }] }]
+            });
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'table',
+                        attrs: {
+                            grid: [1500, 3000, 1500],
+                            tblPrElements: [{ 'w:tblStyle': [], ':@': { 'w:val': 'TableGrid' } }]
+                        },
+                        content: [
+                            {
+                                type: 'tableRow',
+                                content: [
+                                    cell('Merged header', { colspan: 2, colwidth: [150, 150], shading: '#d9e2f3' }, 'tableHeader'),
+                                    cell('C', {}, 'tableHeader')
+                                ]
+                            },
+                            {
+                                type: 'tableRow',
+                                attrs: { trPrElements: [{ 'w:cantSplit': [] }] },
+                                content: [
+                                    cell('Tall', {
+                                        rowspan: 2,
+                                        colwidth: [100],
+                                        verticalAlign: 'center',
+                                        borders: { top: { 'w:val': 'single', 'w:sz': '12', 'w:color': 'FF0000' } },
+                                        tcPrElements: [{ 'w:noWrap': [] }, { 'w:tcW': [], ':@': { 'w:w': '1', 'w:type': 'dxa' } }]
+                                    }),
+                                    cell('B2', { colwidth: [200] }),
+                                    cell('C2')
+                                ]
+                            },
+                            {
+                                type: 'tableRow',
+                                content: [cell('B3'), cell('C3')]
+                            }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            // Unmerged cells keep the grid of unequal columns under the merged header, whose widths are averaged
+            expect(documentXml).toContain('<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/></w:tblPr><w:tblGrid><w:gridCol w:w="1500"/><w:gridCol w:w="3000"/><w:gridCol w:w="1500"/></w:tblGrid>');
+            // Header rows repeat on each page
+            expect(documentXml).toContain('<w:tr><w:trPr><w:tblHeader/></w:trPr><w:tc><w:tcPr><w:tcW w:w="4500" w:type="dxa"/><w:gridSpan w:val="2"/><w:shd w:val="clear" w:color="auto" w:fill="D9E2F3"/></w:tcPr>');
+            // Managed properties are rebuilt in schema order, the rest of tcPr is kept
+            expect(documentXml).toContain('<w:tr><w:trPr><w:cantSplit/></w:trPr><w:tc><w:tcPr><w:tcW w:w="1500" w:type="dxa"/><w:vMerge w:val="restart"/><w:tcBorders><w:top w:val="single" w:sz="12" w:color="FF0000"/></w:tcBorders><w:noWrap/><w:vAlign w:val="center"/></w:tcPr>');
+            // The row below gets a continuation cell in front of its own cells
+            expect(documentXml).toContain('<w:tr><w:tc><w:tcPr><w:tcW w:w="1500" w:type="dxa"/><w:vMerge/></w:tcPr><w:p/></w:tc><w:tc><w:tcPr><w:tcW w:w="3000" w:type="dxa"/></w:tcPr>');
+        });
     });
 
     describe('Track Changes', () => {
@@ -524,6 +585,73 @@ describe('DocxWriter', () => {
             expect(documentXml).toContain('<w:del');
             expect(documentXml).toContain('<w:ins');
         });
+
+        it('should write moves inside named move ranges and row revisions in w:trPr', async () => {
+            const move = { author: 'AI', date: '2024-01-01T00:00:00Z', name: 'move1' };
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'text', text: 'Moved', marks: [{ type: 'moveFrom', attrs: move }] },
+                            { type: 'text', text: ' stays' }
+                        ]
+                    },
+                    {
+                        type: 'paragraph',
+                        content: [{ type: 'text', text: 'Moved', marks: [{ type: 'moveTo', attrs: move }] }]
+                    },
+                    {
+                        type: 'table',
+                        content: [{
+                            type: 'tableRow',
+                            attrs: { rowChange: { type: 'deletion', author: 'AI', date: '2024-01-01T00:00:00Z' } },
+                            content: [{ type: 'tableCell', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Old row' }] }] }]
+                        }]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            expect(documentXml).toContain('<w:moveFromRangeStart w:id="0" w:name="move1" w:author="AI" w:date="2024-01-01T00:00:00Z"/><w:moveFrom w:id="1" w:author="AI" w:date="2024-01-01T00:00:00Z"><w:r><w:t>Moved</w:t></w:r></w:moveFrom><w:moveFromRangeEnd w:id="0"/><w:r><w:t> stays</w:t></w:r>');
+            expect(documentXml).toContain('<w:moveToRangeStart w:id="2" w:name="move1"');
+            expect(documentXml).toContain('<w:moveToRangeEnd w:id="2"/>');
+            expect(documentXml).toContain('<w:trPr><w:del w:id="0" w:author="AI" w:date="2024-01-01T00:00:00Z"/></w:trPr>');
+        });
+
+        it('should write tracked formatting changes as w:rPrChange and w:pPrChange', async () => {
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'heading',
+                        attrs: {
+                            level: 1,
+                            formatChange: { author: 'AI', date: '2024-01-01T00:00:00Z', type: 'paragraph', attrs: { textAlign: 'center' } }
+                        },
+                        content: [{
+                            type: 'text',
+                            text: 'Title',
+                            marks: [
+                                { type: 'bold' },
+                                { type: 'formatChange', attrs: { author: 'AI', date: '2024-01-01T00:00:00Z', oldMarks: [{ type: 'italic' }] } }
+                            ]
+                        }]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            expect(documentXml).toContain('<w:rPr><w:b/><w:rPrChange w:id="0" w:author="AI" w:date="2024-01-01T00:00:00Z"><w:rPr><w:i/></w:rPr></w:rPrChange></w:rPr>');
+            expect(documentXml).toContain('<w:pPr><w:pStyle w:val="Heading1"/><w:pPrChange w:id="1" w:author="AI" w:date="2024-01-01T00:00:00Z"><w:pPr><w:jc w:val="center"/></w:pPr></w:pPrChange></w:pPr>');
+        });
     });
 
     describe('Comments', () => {
@@ -569,6 +697,75 @@ describe('DocxWriter', () => {
             expect(commentsXml).toContain('w:author="Reviewer"');
             expect(commentsXml).toContain('This is a comment');
         });
+
+        it('should write replies and resolved state to commentsExtended.xml and commentsIds.xml', async () => {
+            const content = {
+                type: 'doc',
+                content: [{
+                    type: 'paragraph',
+                    content: [{
+                        type: 'text',
+                        text: 'disputed clause',
+                        marks: [{
+                            type: 'comment',
+                            attrs: {
+                                commentId: '1',
+                                author: 'Alice',
+                                date: '2024-01-01T00:00:00Z',
+                                content: 'Please check',
+                                done: true,
+                                replies: [{ id: 'r1', author: 'Bob', date: '2024-01-02T00:00:00Z', content: 'Fixed' }]
+                            }
+                        }]
+                    }]
+                }]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+            const commentsXml = await zip.file('word/comments.xml')?.async('string');
+            const extendedXml = await zip.file('word/commentsExtended.xml')?.async('string');
+            const idsXml = await zip.file('word/commentsIds.xml')?.async('string');
+            const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+            const contentTypesXml = await zip.file('[Content_Types].xml')?.async('string');
+
+            // The reply gets its own range and reference next to the root comment
+            expect(documentXml).toContain('<w:commentRangeStart w:id="0"/>');
+            expect(documentXml).toContain('<w:commentRangeStart w:id="1"/>');
+            expect(documentXml).toContain('<w:commentReference w:id="1"/>');
+
+            expect(commentsXml).toContain('w:author="Bob"');
+            expect(commentsXml).toContain('w14:paraId="10000000"');
+            expect(commentsXml).toContain('w14:paraId="10000001"');
+
+            expect(extendedXml).toContain('<w15:commentEx w15:paraId="10000000" w15:done="1"/>');
+            expect(extendedXml).toContain('<w15:commentEx w15:paraId="10000001" w15:paraIdParent="10000000" w15:done="1"/>');
+            expect(idsXml).toContain('w16cid:paraId="10000001"');
+
+            expect(relsXml).toContain('Target="commentsExtended.xml"');
+            expect(relsXml).toContain('Target="commentsIds.xml"');
+            expect(contentTypesXml).toContain('/word/commentsExtended.xml');
+            expect(contentTypesXml).toContain('/word/commentsIds.xml');
+        });
+
+        it('should not write thread parts for plain comments', async () => {
+            const content = {
+                type: 'doc',
+                content: [{
+                    type: 'paragraph',
+                    content: [{
+                        type: 'text',
+                        text: 'note',
+                        marks: [{ type: 'comment', attrs: { commentId: '1', author: 'A', date: '', content: 'c' } }]
+                    }]
+                }]
+            };
+
+            const zip = await JSZip.loadAsync(await writer.export(content));
+            expect(zip.file('word/commentsExtended.xml')).toBeNull();
+            expect(await zip.file('word/comments.xml')?.async('string')).not.toContain('w14:paraId');
+        });
     });
 
     describe('DOCX Structure', () => {
@@ -614,6 +811,479 @@ describe('DocxWriter', () => {
         });
     });
 
+    describe('Headers and Footers', () => {
+        it('should write header/footer parts with relationships and sectPr references', async () => {
+            const content = {
+                type: 'doc',
+                content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Body' }] }],
+                attrs: {
+                    titlePage: true,
+                    headers: {
+                        default: { content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Confidential' }] }] },
+                        first: { content: [] },
+                    },
+                    footers: {
+                        default: { content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Footer' }] }] },
+                    },
+                },
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+            const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+            const contentTypesXml = await zip.file('[Content_Types].xml')?.async('string');
+
+            const header1 = await zip.file('word/header1.xml')?.async('string');
+            const header2 = await zip.file('word/header2.xml')?.async('string');
+            const footer1 = await zip.file('word/footer1.xml')?.async('string');
+
+            expect(header1).toContain('<w:hdr');
+            expect(header1).toContain('<w:t>Confidential</w:t>');
+            expect(header2).toContain('<w:p/>');
+            expect(footer1).toContain('<w:ftr');
+            expect(footer1).toContain('<w:t>Footer</w:t>');
+
+            expect(relsXml).toMatch(/Id="(rId\d+)"[^>]*relationships\/header" Target="header1.xml"/);
+            expect(relsXml).toContain('Target="footer1.xml"');
+            expect(contentTypesXml).toContain('PartName="/word/header1.xml"');
+            expect(contentTypesXml).toContain('PartName="/word/footer1.xml"');
+
+            const headerRId = relsXml!.match(/Id="(rId\d+)"[^>]*Target="header1.xml"/)![1];
+            expect(documentXml).toContain(`<w:headerReference w:type="default" r:id="${headerRId}"/>`);
+            expect(documentXml).toContain('<w:footerReference w:type="default"');
+            expect(documentXml).toContain('<w:titlePg/>');
+        });
+    });
+
+    describe('Footnotes', () => {
+        it('should write footnote references and footnotes.xml', async () => {
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'text', text: 'Clause' },
+                            {
+                                type: 'footnote',
+                                attrs: {
+                                    noteType: 'footnote',
+                                    noteId: null,
+                                    content: [{ type: 'paragraph', content: [{ type: 'text', text: 'See Appendix A.' }] }]
+                                }
+                            }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+            const footnotesXml = await zip.file('word/footnotes.xml')?.async('string');
+            const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+            const contentTypesXml = await zip.file('[Content_Types].xml')?.async('string');
+
+            expect(documentXml).toContain('<w:footnoteReference w:id="1"/>');
+            expect(footnotesXml).toContain('w:type="separator" w:id="-1"');
+            expect(footnotesXml).toContain('w:type="continuationSeparator" w:id="0"');
+            expect(footnotesXml).toMatch(/<w:footnote w:id="1"><w:p><w:r><w:rPr><w:vertAlign w:val="superscript"\/><\/w:rPr><w:footnoteRef\/><\/w:r><w:r><w:t>See Appendix A.<\/w:t><\/w:r><\/w:p><\/w:footnote>/);
+            expect(relsXml).toContain('Target="footnotes.xml"');
+            expect(contentTypesXml).toContain('PartName="/word/footnotes.xml"');
+        });
+    });
+
+    describe('Images', () => {
+        it('should embed a data URL image as a media part with relationship and content type', async () => {
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'image', attrs: { src: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', width: 120, height: 60, alt: 'Logo' } }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+            const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+            const contentTypesXml = await zip.file('[Content_Types].xml')?.async('string');
+            const media = await zip.file('word/media/image1.png')?.async('base64');
+
+            expect(media).toBe('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==');
+            expect(contentTypesXml).toContain('<Default Extension="png" ContentType="image/png"/>');
+            const rId = relsXml!.match(/Id="(rId\d+)"[^>]*relationships\/image" Target="media\/image1.png"/)?.[1];
+            expect(rId).toBeDefined();
+            expect(documentXml).toContain(`<a:blip r:embed="${rId}"/>`);
+            expect(documentXml).toContain('<wp:extent cx="1143000" cy="571500"/>');
+            expect(documentXml).toContain('descr="Logo"');
+            expect(documentXml).toContain('xmlns:wp=');
+        });
+
+        it('should re-emit the original drawing with the resized extent', async () => {
+            const drawing = [{
+                'wp:anchor': [
+                    { 'wp:extent': [], ':@': { cx: '952500', cy: '476250' } },
+                    { 'wp:wrapSquare': [], ':@': { wrapText: 'bothSides' } },
+                    {
+                        'pic:pic': [
+                            { 'pic:blipFill': [{ 'a:blip': [], ':@': { 'r:embed': 'rId5' } }] },
+                            { 'pic:spPr': [{ 'a:xfrm': [{ 'a:ext': [], ':@': { cx: '952500', cy: '476250' } }] }] }
+                        ]
+                    }
+                ],
+                ':@': { behindDoc: '0' }
+            }];
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'image', attrs: { src: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', width: 200, height: 100, drawing } }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            expect(documentXml).toContain('<wp:anchor behindDoc="0"><wp:extent cx="1905000" cy="952500"/><wp:wrapSquare wrapText="bothSides"/>');
+            expect(documentXml).toContain('<a:ext cx="1905000" cy="952500"/>');
+            // The image was not related in an original package, so it gets a new relationship
+            expect(documentXml).not.toContain('r:embed="rId5"');
+        });
+    });
+
+    describe('Hyperlinks and Bookmarks', () => {
+        it('should write external links as w:hyperlink with an external relationship', async () => {
+            const link = { type: 'link', attrs: { href: 'https://example.com/?a=1&b=2', title: 'Example' } };
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'text', text: 'Visit ' },
+                            { type: 'text', text: 'our', marks: [link] },
+                            { type: 'text', text: ' site', marks: [link, { type: 'bold' }] },
+                            { type: 'text', text: ' or ' },
+                            { type: 'text', text: 'again', marks: [link] }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+            const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+
+            const rels = relsXml!.match(/<Relationship Id="(rId\d+)" Type="[^"]*\/hyperlink" Target="https:\/\/example.com\/\?a=1&amp;b=2" TargetMode="External"\/>/g);
+            expect(rels).toHaveLength(1);
+            const rId = rels![0].match(/Id="(rId\d+)"/)![1];
+            // Adjacent runs of the same link share one w:hyperlink
+            expect(documentXml).toContain(`<w:hyperlink r:id="${rId}" w:tooltip="Example" w:history="1"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t>our</w:t></w:r><w:r><w:rPr><w:rStyle w:val="Hyperlink"/><w:b/></w:rPr><w:t> site</w:t></w:r></w:hyperlink>`);
+            expect(documentXml!.match(/<w:hyperlink /g)).toHaveLength(2);
+        });
+
+        it('should write internal links as w:anchor and keep bookmarks', async () => {
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'heading',
+                        attrs: { level: 1 },
+                        content: [
+                            { type: 'bookmarkStart', attrs: { id: '0', name: '_Ref123' } },
+                            { type: 'text', text: 'Scope' },
+                            { type: 'bookmarkEnd', attrs: { id: '0' } }
+                        ]
+                    },
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'text', text: 'See ' },
+                            { type: 'text', text: 'Section 1', marks: [{ type: 'link', attrs: { href: '#_Ref123' } }] }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+            const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+
+            expect(documentXml).toContain('<w:bookmarkStart w:id="0" w:name="_Ref123"/><w:r><w:t>Scope</w:t></w:r><w:bookmarkEnd w:id="0"/>');
+            expect(documentXml).toContain('<w:hyperlink w:anchor="_Ref123" w:history="1">');
+            expect(relsXml).not.toContain('/hyperlink"');
+        });
+
+        it('should reuse the original relationship of an unchanged link', async () => {
+            const original = new JSZip();
+            original.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>');
+            original.file('word/document.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body/></w:document>');
+            original.file('word/_rels/document.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/" TargetMode="External"/></Relationships>');
+
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'text', text: 'kept', marks: [{ type: 'link', attrs: { href: 'https://example.com/', rId: 'rId7' } }] },
+                            { type: 'text', text: ' ' },
+                            { type: 'text', text: 'changed', marks: [{ type: 'link', attrs: { href: 'https://example.org/', rId: 'rId7' } }] }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await new DocxWriter(original).export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+            const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+
+            expect(documentXml).toContain('<w:hyperlink r:id="rId7" w:history="1">');
+            expect(documentXml).toContain('<w:hyperlink r:id="rId8" w:history="1">');
+            expect(relsXml).toContain('Id="rId8"');
+            expect(relsXml).toContain('Target="https://example.org/"');
+            expect(relsXml).toContain('TargetMode="External"');
+        });
+    });
+
+    describe('Fields', () => {
+        it('should write complex and simple fields with their cached results', async () => {
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'field', attrs: { instruction: 'PAGE \\* MERGEFORMAT', fieldType: 'PAGE', result: '3', simple: false }, marks: [{ type: 'bold' }] },
+                            { type: 'text', text: ' / ' },
+                            { type: 'field', attrs: { instruction: 'NUMPAGES', fieldType: 'NUMPAGES', result: '9', simple: true } }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            expect(documentXml).toContain('<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE \\* MERGEFORMAT </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>3</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>');
+            expect(documentXml).toContain('<w:fldSimple w:instr=" NUMPAGES "><w:r><w:t>9</w:t></w:r></w:fldSimple>');
+        });
+
+        it('should write a table of contents as TOC paragraphs inside one TOC field', async () => {
+            const content = {
+                type: 'doc',
+                attrs: { pageSize: { 'w:w': '11906', 'w:h': '16838' }, pageMargins: { 'w:left': '1701', 'w:right': '1701' } },
+                content: [
+                    {
+                        type: 'tableOfContents',
+                        attrs: {
+                            instruction: 'TOC \\o "1-3" \\h \\z \\u',
+                            entries: [
+                                { text: 'Introduction', level: 1, page: '1', anchor: '_Toc100' },
+                                { text: 'Scope', level: 2, page: '2', anchor: null }
+                            ]
+                        }
+                    },
+                    { type: 'paragraph', content: [{ type: 'text', text: 'Body' }] }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            const paragraphs = documentXml!.match(/<w:p>.*?<\/w:p>/g)!;
+            expect(paragraphs[0]).toContain('<w:pStyle w:val="TOC1"/><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="8504"/></w:tabs>');
+            expect(paragraphs[0]).toContain('<w:instrText xml:space="preserve"> TOC \\o &quot;1-3&quot; \\h \\z \\u </w:instrText>');
+            expect(paragraphs[0]).toContain('<w:hyperlink w:anchor="_Toc100" w:history="1"><w:r><w:t xml:space="preserve">Introduction</w:t></w:r><w:r><w:tab/></w:r>');
+            expect(paragraphs[0]).toContain('PAGEREF _Toc100 \\h');
+            expect(paragraphs[1]).toContain('<w:pStyle w:val="TOC2"/>');
+            expect(paragraphs[1]).toMatch(/<w:t>2<\/w:t><\/w:r><w:r><w:fldChar w:fldCharType="end"\/><\/w:r><\/w:p>$/);
+            expect(documentXml!.match(/w:fldCharType="begin"/g)).toHaveLength(2);
+            expect(documentXml!.match(/w:fldCharType="end"/g)).toHaveLength(2);
+        });
+    });
+
+    describe('Sections', () => {
+        it('should write section breaks as paragraph-level sectPr with their own page setup', async () => {
+            const content = {
+                type: 'doc',
+                attrs: {
+                    pageSize: { 'w:w': '16838', 'w:h': '11906', 'w:orient': 'landscape' },
+                    pageMargins: { 'w:top': '1440', 'w:right': '1440', 'w:bottom': '1440', 'w:left': '1440' },
+                    sectionType: 'nextPage',
+                    sectPrElements: [
+                        { 'w:pgSz': [], ':@': { 'w:w': '11906', 'w:h': '16838' } },
+                        { 'w:docGrid': [], ':@': { 'w:type': 'lines', 'w:linePitch': '360' } }
+                    ]
+                },
+                content: [
+                    { type: 'paragraph', content: [{ type: 'text', text: 'Portrait' }] },
+                    {
+                        type: 'sectionBreak',
+                        attrs: {
+                            pageSize: { 'w:w': '11906', 'w:h': '16838' },
+                            pageMargins: { 'w:top': '1985', 'w:right': '1701', 'w:bottom': '1701', 'w:left': '1701' },
+                            cols: { 'w:num': '2', 'w:space': '425' },
+                            sectPrElements: [{ 'w:headerReference': [], ':@': { 'w:type': 'default', 'r:id': 'rId8' } }]
+                        }
+                    },
+                    { type: 'table', content: [] },
+                    { type: 'sectionBreak', attrs: { sectionType: 'continuous' } },
+                    { type: 'paragraph', content: [{ type: 'text', text: 'Landscape' }] }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            // Section 1 ends with the paragraph before its break
+            expect(documentXml).toContain('<w:p><w:pPr><w:sectPr><w:headerReference w:type="default" r:id="rId8"/><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1985" w:right="1701" w:bottom="1701" w:left="1701"/><w:cols w:num="2" w:space="425"/></w:sectPr></w:pPr><w:r><w:t>Portrait</w:t></w:r></w:p>');
+            // Section 2 has no paragraph of its own to carry the sectPr
+            expect(documentXml).toContain('<w:p><w:pPr><w:sectPr><w:type w:val="continuous"/></w:sectPr></w:pPr></w:p>');
+            // The last section takes the edited size over the captured element and keeps the rest
+            expect(documentXml).toContain('<w:sectPr><w:type w:val="nextPage"/><w:pgSz w:w="16838" w:h="11906" w:orient="landscape"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440"/><w:docGrid w:type="lines" w:linePitch="360"/></w:sectPr>');
+            expect(documentXml!.match(/<w:sectPr>/g)).toHaveLength(3);
+        });
+    });
+
+    describe('Preserved XML', () => {
+        it('should write preserved fragments back verbatim', async () => {
+            const mathXml = '<m:oMath xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"><m:r><m:t>x</m:t></m:r></m:oMath>';
+            const customXml = '<w:customXml w:element="clause"><w:p><w:r><w:t>Bound &amp; kept</w:t></w:r></w:p></w:customXml>';
+            const content = {
+                type: 'doc',
+                content: [
+                    { type: 'preservedBlock', attrs: { xml: customXml, label: 'カスタムXML' } },
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'text', text: 'Area: ' },
+                            { type: 'preservedInline', attrs: { xml: mathXml, label: '数式' } }
+                        ]
+                    }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            expect(documentXml).toContain(`<w:body>\n${customXml}<w:p>`);
+            expect(documentXml).toContain(`<w:r><w:t>Area: </w:t></w:r>${mathXml}</w:p>`);
+        });
+    });
+
+    describe('Equations', () => {
+        it('should keep unedited OMML and rebuild edited equations from their linear form', async () => {
+            const originalXml = '<m:oMath xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"><m:r><m:t>x</m:t></m:r></m:oMath>';
+            const content = {
+                type: 'doc',
+                content: [
+                    {
+                        type: 'paragraph',
+                        content: [
+                            { type: 'math', attrs: { latex: 'x', display: false, xml: originalXml } },
+                            { type: 'text', text: ' and ' },
+                            { type: 'math', attrs: { latex: 'a^{2}+\\sqrt{b}', display: false, xml: null } }
+                        ]
+                    },
+                    { type: 'paragraph', content: [{ type: 'math', attrs: { latex: '\\frac{1}{n}', display: true } }] }
+                ]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            expect(documentXml).toContain('xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"');
+            expect(documentXml).toContain(`<w:p>${originalXml}<w:r><w:t> and </w:t></w:r>`);
+            expect(documentXml).toContain('<m:oMath><m:sSup><m:e><m:r><m:t>a</m:t></m:r></m:e><m:sup><m:r><m:t>2</m:t></m:r></m:sup></m:sSup>'
+                + '<m:r><m:t>+</m:t></m:r><m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e><m:r><m:t>b</m:t></m:r></m:e></m:rad></m:oMath>');
+            expect(documentXml).toContain('<w:p><m:oMathPara><m:oMath><m:f><m:num><m:r><m:t>1</m:t></m:r></m:num><m:den><m:r><m:t>n</m:t></m:r></m:den></m:f></m:oMath></m:oMathPara></w:p>');
+        });
+    });
+
+    describe('Styles', () => {
+        const modifiedHeading = {
+            styleId: 'Heading1', type: 'paragraph' as const, name: 'heading 1', basedOn: 'Normal', modified: true,
+            props: { fontFamily: 'Meiryo', fontSize: '18pt', bold: true, color: '#c00000', spacingBefore: '240', textAlign: 'center' },
+        };
+
+        it('should keep pStyle references without flattening the style formatting', async () => {
+            const content = {
+                type: 'doc',
+                content: [{ type: 'paragraph', attrs: { styleId: 'CompanyBody' }, content: [{ type: 'text', text: 'Body' }] }]
+            };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const documentXml = await zip.file('word/document.xml')?.async('string');
+
+            expect(documentXml).toContain('<w:p><w:pPr><w:pStyle w:val="CompanyBody"/></w:pPr><w:r><w:t>Body</w:t></w:r></w:p>');
+        });
+
+        it('should write modified styles into the generated styles.xml', async () => {
+            const content = { type: 'doc', attrs: { styles: [modifiedHeading] }, content: [{ type: 'paragraph', content: [] }] };
+
+            const blob = await writer.export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const stylesXml = await zip.file('word/styles.xml')?.async('string');
+
+            const heading = stylesXml?.match(/<w:style [^>]*w:styleId="Heading1"[^>]*>[\s\S]*?<\/w:style>/)?.[0];
+            expect(heading).toContain('<w:spacing w:before="240"/>');
+            expect(heading).toContain('<w:jc w:val="center"/>');
+            expect(heading).toContain('<w:rFonts w:cstheme="majorBidi" w:ascii="Meiryo" w:hAnsi="Meiryo" w:eastAsia="Meiryo"/><w:b/><w:bCs/><w:color w:val="C00000"/><w:sz w:val="36"/><w:szCs w:val="36"/>');
+            expect(heading).toContain('<w:outlineLvl w:val="0"/>');
+            // Unmodified styles are left alone
+            expect(stylesXml).toContain('<w:style w:type="paragraph" w:styleId="Heading2">');
+            expect(stylesXml).toContain('<w:sz w:val="26"/>');
+        });
+
+        it('should rewrite only modified styles of the original styles.xml and append new ones', async () => {
+            const originalStyles = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="9"/><w:pPr><w:keepNext/><w:spacing w:before="480" w:beforeLines="50"/></w:pPr><w:rPr><w:i/><w:color w:val="2E74B5" w:themeColor="accent1"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:rPr><w:i/></w:rPr></w:style></w:styles>';
+            const original = new JSZip();
+            original.file('word/document.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body/></w:document>');
+            original.file('word/styles.xml', originalStyles);
+
+            const content = {
+                type: 'doc',
+                attrs: {
+                    styles: [
+                        modifiedHeading,
+                        { styleId: 'Quote', type: 'paragraph', name: 'Quote', props: { italic: true } },
+                        { styleId: 'Memo', type: 'paragraph', name: 'Memo', basedOn: 'Normal', modified: true, props: { italic: false } },
+                    ],
+                },
+                content: [{ type: 'paragraph', content: [] }]
+            };
+
+            const blob = await new DocxWriter(original).export(content);
+            const zip = await JSZip.loadAsync(blob);
+            const stylesXml = await zip.file('word/styles.xml')?.async('string');
+
+            expect(stylesXml).toContain('<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="9"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:beforeLines="50"/><w:jc w:val="center"/></w:pPr><w:rPr><w:rFonts w:ascii="Meiryo" w:hAnsi="Meiryo" w:eastAsia="Meiryo"/><w:b/><w:bCs/><w:color w:val="C00000"/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>');
+            expect(stylesXml).toContain('<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:rPr><w:i/></w:rPr></w:style>');
+            expect(stylesXml).toContain('<w:style w:type="paragraph" w:styleId="Memo" w:customStyle="1"><w:name w:val="Memo"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:i w:val="0"/><w:iCs w:val="0"/></w:rPr></w:style></w:styles>');
+        });
+    });
+
     describe('XML Escaping', () => {
         it('should escape special characters in text', async () => {
             const content = {
@@ -1,5 +1,7 @@
 import JSZip from 'jszip';
 import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { DocxStyle, DocxStyleProps } from './styles';
+import { latexToOmml } from './omml';
 
 /**
  * Tiptap JSON content type
@@ -15,14 +17,79 @@ interface JSONContent {
     }>;
 }
 
+type HeaderFooterKind = 'header' | 'footer';
+type HeaderFooterType = 'default' | 'first' | 'even';
+
+/**
+ * Header/footer part content as produced by DocxReader (attrs.headers / attrs.footers)
+ */
+interface HeaderFooterPart {
+    rId?: string;
+    target?: string;
+    content?: JSONContent[];
+}
+
+// Page setup of a section (sectionBreak attrs, or the document attrs for the last section)
+interface SectionLayoutAttrs {
+    sectionType?: string | null;
+    pageSize?: Record<string, unknown> | null;
+    pageMargins?: Record<string, unknown> | null;
+    cols?: Record<string, unknown> | null;
+    sectPrElements?: unknown[] | null;
+}
+
+// Child order of CT_SectPr
+const SECT_PR_ORDER = [
+    'w:headerReference', 'w:footerReference', 'w:footnotePr', 'w:endnotePr', 'w:type', 'w:pgSz', 'w:pgMar',
+    'w:paperSrc', 'w:pgBorders', 'w:lnNumType', 'w:pgNumType', 'w:cols', 'w:formProt', 'w:vAlign', 'w:noEndnote',
+    'w:titlePg', 'w:textDirection', 'w:bidi', 'w:rtlGutter', 'w:docGrid', 'w:printerSettings', 'w:sectPrChange',
+];
+
+// Child order of CT_TcPr; the keys in TC_PR_MANAGED are rebuilt from the cell attrs
+const TC_PR_ORDER = [
+    'w:cnfStyle', 'w:tcW', 'w:gridSpan', 'w:hMerge', 'w:vMerge', 'w:tcBorders', 'w:shd', 'w:noWrap', 'w:tcMar',
+    'w:textDirection', 'w:tcFitText', 'w:vAlign', 'w:hideMark', 'w:headers', 'w:cellIns', 'w:cellDel', 'w:cellMerge', 'w:tcPrChange',
+];
+const TC_PR_MANAGED = ['w:tcW', 'w:gridSpan', 'w:hMerge', 'w:vMerge', 'w:tcBorders', 'w:shd', 'w:vAlign'];
+const TC_BORDER_ORDER = ['top', 'start', 'left', 'bottom', 'end', 'right', 'insideH', 'insideV', 'tl2br', 'tr2bl'];
+
+// Child order of CT_Style, CT_PPrBase and CT_RPr (style definitions edited in the style dialog)
+const STYLE_ORDER = [
+    'w:name', 'w:aliases', 'w:basedOn', 'w:next', 'w:link', 'w:autoRedefine', 'w:hidden', 'w:uiPriority', 'w:semiHidden',
+    'w:unhideWhenUsed', 'w:qFormat', 'w:locked', 'w:personal', 'w:personalCompose', 'w:personalReply', 'w:rsid',
+    'w:pPr', 'w:rPr', 'w:tblPr', 'w:trPr', 'w:tcPr', 'w:tblStylePr',
+];
+const P_PR_ORDER = [
+    'w:pStyle', 'w:keepNext', 'w:keepLines', 'w:pageBreakBefore', 'w:framePr', 'w:widowControl', 'w:numPr',
+    'w:suppressLineNumbers', 'w:pBdr', 'w:shd', 'w:tabs', 'w:suppressAutoHyphens', 'w:kinsoku', 'w:wordWrap',
+    'w:overflowPunct', 'w:topLinePunct', 'w:autoSpaceDE', 'w:autoSpaceDN', 'w:bidi', 'w:adjustRightInd', 'w:snapToGrid',
+    'w:spacing', 'w:ind', 'w:contextualSpacing', 'w:mirrorIndents', 'w:suppressOverlap', 'w:jc', 'w:textDirection',
+    'w:textAlignment', 'w:textboxTightWrap', 'w:outlineLvl', 'w:divId', 'w:cnfStyle', 'w:rPr', 'w:sectPr', 'w:pPrChange',
+];
+const R_PR_ORDER = [
+    'w:rStyle', 'w:rFonts', 'w:b', 'w:bCs', 'w:i', 'w:iCs', 'w:caps', 'w:smallCaps', 'w:strike', 'w:dstrike', 'w:outline',
+    'w:shadow', 'w:emboss', 'w:imprint', 'w:noProof', 'w:snapToGrid', 'w:vanish', 'w:webHidden', 'w:color', 'w:spacing',
+    'w:w', 'w:kern', 'w:position', 'w:sz', 'w:szCs', 'w:highlight', 'w:u', 'w:effect', 'w:bdr', 'w:shd', 'w:fitText',
+    'w:vertAlign', 'w:rtl', 'w:cs', 'w:em', 'w:lang', 'w:eastAsianLayout', 'w:specVanish', 'w:oMath',
+];
+
+// Pixel widths in the editor (colwidth) are converted at 96 DPI
+const PX_TO_TWIPS = 15;
+
 interface DocAttrs {
     sectPrElements?: unknown[];
+    headers?: Partial<Record<HeaderFooterType, HeaderFooterPart>>;
+    footers?: Partial<Record<HeaderFooterType, HeaderFooterPart>>;
+    titlePage?: boolean;
+    evenAndOddHeaders?: boolean;
+    sectionType?: string;
     pageSize?: Record<string, string>;
     pageMargins?: Record<string, string>;
     docGrid?: Record<string, string>;
     cols?: Record<string, string>;
     styleId?: string;
     docDefaults?: Record<string, unknown>; // Complex nested structure from XML parser
+    styles?: DocxStyle[];
     keepNext?: string | number;
     keepLines?: string | number;
     snapToGrid?: string;
@@ -49,6 +116,19 @@ interface DocAttrs {
     date?: string;
     commentId?: string;
     content?: string;
+    name?: string; // Move name linking a moveFrom mark to its moveTo
+    formatChange?: FormatChangeAttrs | null;
+    rowChange?: { type?: string; author?: string; date?: string } | null;
+}
+
+/**
+ * Tracked paragraph formatting change (w:pPrChange): node type and attrs before the change
+ */
+interface FormatChangeAttrs {
+    author?: string;
+    date?: string;
+    type?: string;
+    attrs?: DocAttrs;
 }
 
 /**
@@ -60,8 +140,121 @@ interface CommentData {
     author: string;
     date: string;
     content: string;
+    replies: CommentData[]; // Written as separate w:comment elements linked in commentsExtended.xml
+    done: boolean;
+}
+
+// Parts carrying comment threads (reply links / resolved state) and durable comment IDs
+const COMMENT_THREAD_PARTS = [
+    {
+        path: 'word/commentsExtended.xml',
+        target: 'commentsExtended.xml',
+        relType: 'http://schemas.microsoft.com/office/2011/relationships/commentsExtended',
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.commentsExtended+xml',
+    },
+    {
+        path: 'word/commentsIds.xml',
+        target: 'commentsIds.xml',
+        relType: 'http://schemas.microsoft.com/office/2016/09/relationships/commentsIds',
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.commentsIds+xml',
+    },
+];
+
+type NoteType = 'footnote' | 'endnote';
+
+/**
+ * Footnote/endnote serialized for word/footnotes.xml / word/endnotes.xml
+ */
+interface NoteData {
+    id: string;
+    xml: string; // Serialized block content (including the leading w:footnoteRef / w:endnoteRef run)
+}
+
+const NOTE_PARTS: Record<NoteType, { path: string; target: string; root: string; relType: string; contentType: string }> = {
+    footnote: {
+        path: 'word/footnotes.xml',
+        target: 'footnotes.xml',
+        root: 'w:footnotes',
+        relType: 'footnotes',
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml',
+    },
+    endnote: {
+        path: 'word/endnotes.xml',
+        target: 'endnotes.xml',
+        root: 'w:endnotes',
+        relType: 'endnotes',
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.endnotes+xml',
+    },
+};
+
+/**
+ * Header/footer part prepared for export
+ */
+interface HeaderFooterPartData {
+    kind: HeaderFooterKind;
+    type: HeaderFooterType;
+    rId: string;
+    target: string; // Relative to word/ (e.g. "header1.xml")
+    xml: string;
+}
+
+const HEADER_FOOTER_TYPES: HeaderFooterType[] = ['default', 'first', 'even'];
+
+const RELATIONSHIP_TYPE_BASE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * Relationships of one part (document.xml, header1.xml, footnotes.xml, ...)
+ */
+interface RelsContext {
+    existing: Map<string, string>; // rId -> target in the original package
+    added: { Id: string; Type: string; Target: string; TargetMode?: string }[];
+    nextId: number;
 }
 
+/**
+ * Media file queued for word/media/
+ */
+interface MediaFile {
+    path: string;
+    data: string | Uint8Array;
+    base64: boolean;
+}
+
+// Namespaces declared on generated part roots (drawings need wp/a/pic; wp14/w14 appear in Word's own drawing markup)
+const PART_NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture" xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math" xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006" xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml" xmlns:wp14="http://schemas.microsoft.com/office/word/2010/wordprocessingDrawing" mc:Ignorable="w14 wp14"';
+
+// Namespaces our own markup relies on; added to original root elements that lack them
+const REQUIRED_NAMESPACES: Record<string, string> = {
+    w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+    r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+    a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+    pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+    m: 'http://schemas.openxmlformats.org/officeDocument/2006/math',
+};
+
+// Media content types keyed by file extension
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+    svg: 'image/svg+xml',
+    emf: 'image/x-emf',
+    wmf: 'image/x-wmf',
+};
+
+// DrawingML extents are in EMU (914400 per inch); the editor works in 96 DPI pixels
+const EMU_PER_PIXEL = 9525;
+
+const HEADER_FOOTER_CONTENT_TYPES: Record<HeaderFooterKind, string> = {
+    header: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml',
+    footer: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml',
+};
+
 /**
  * DocxWriter - Serializes Tiptap JSON content to DOCX format
  * 
@@ -73,14 +266,39 @@ export class DocxWriter {
     private comments: CommentData[] = [];
     private commentIdMap = new Map<string, string>();
     private nextCommentId = 0;
+    // Whether commentsExtended.xml / commentsIds.xml are written
+    private writeCommentThreads = false;
     private insertionIdCounter = 0;
     private deletionIdCounter = 0;
+    private formatChangeIdCounter = 0;
+    private moveIdCounter = 0;
     private listNumIdBullet = 1;
     private listNumIdOrdered = 2;
     // Track unique numId for each top-level list (for numbering reset)
     private nextNumId = 10; // Start at 10 to leave room for base definitions
     private usedNumIds: number[] = [];
     private numIdStarts: Record<number, number> = {};
+    private headerFooterParts: HeaderFooterPartData[] = [];
+    private notes: Record<NoteType, NoteData[]> = { footnote: [], endnote: [] };
+    private nextNoteId: Record<NoteType, number> = { footnote: 1, endnote: 1 };
+    // Note parts to write (present when the document has notes or the original package had the part)
+    private noteParts: NoteType[] = [];
+    // Relationships per part, keyed by part name relative to word/ (e.g. "document.xml")
+    private relsContexts = new Map<string, RelsContext>();
+    private originalRelsXml = new Map<string, string>();
+    // Part currently being serialized (images register their relationship on it)
+    private activePart = 'document.xml';
+    private imageRelsBySrc = new Map<string, Map<string, string>>(); // part -> src -> rId
+    private hyperlinkRelsByUrl = new Map<string, Map<string, string>>(); // part -> url -> rId
+    private mediaFiles: MediaFile[] = [];
+    private usedMediaNames = new Set<string>();
+    private fetchedImages = new Map<string, { data: Uint8Array; ext: string }>();
+    private nextDrawingId = 1;
+    // Body text width (page width minus side margins), used for the TOC right tab stop
+    private textWidthTwips = 9026;
+    // Section properties to write into the next paragraph's pPr (the paragraph ending a section)
+    private pendingSectPr = '';
+    private documentRootTag: string | null = null;
 
     constructor(originalZip?: JSZip) {
         this.originalZip = originalZip || null;
@@ -94,33 +312,91 @@ export class DocxWriter {
         this.comments = [];
         this.commentIdMap.clear();
         this.nextCommentId = 0;
+        this.writeCommentThreads = false;
         this.insertionIdCounter = 0;
         this.deletionIdCounter = 0;
+        this.formatChangeIdCounter = 0;
+        this.moveIdCounter = 0;
         this.nextNumId = 10;
         this.usedNumIds = [];
+        this.headerFooterParts = [];
+        this.notes = { footnote: [], endnote: [] };
+        this.noteParts = [];
+        this.relsContexts.clear();
+        this.activePart = 'document.xml';
+        this.imageRelsBySrc.clear();
+        this.hyperlinkRelsByUrl.clear();
+        this.mediaFiles = [];
+        this.fetchedImages.clear();
 
         // Create or use existing ZIP
         const zip = this.originalZip ? this.originalZip : new JSZip();
 
+        // Original relationships / root element, so generated parts stay consistent with the package
+        await this.loadOriginalRels(zip);
+        const originalRoot = this.originalZip
+            ? (await zip.file('word/document.xml')?.async('string'))?.match(/<w:document\b[^>]*>/)?.[0]
+            : undefined;
+        this.documentRootTag = originalRoot ? this.ensureNamespaces(originalRoot) : null;
+        this.usedMediaNames = new Set(Object.keys(zip.files).filter(f => f.startsWith('word/media/')).map(f => f.substring('word/media/'.length)));
+
+        // Fetch non-embedded (URL) images up front; serialization itself is synchronous
+        await this.prepareImages(content);
+
+        // Reserve note IDs already used by the document / original separators before serializing
+        await this.initNoteIds(zip, content.content || []);
+
+        // Serialize header/footer parts first so their relationship IDs are known when building sectPr
+        this.headerFooterParts = await this.prepareHeaderFooterParts(zip, content.attrs as DocAttrs | undefined);
+
         // Serialize document content
         const documentXml = this.serializeDocument(content.content || [], content.attrs);
 
+        // Thread parts are kept in sync once a package has them, so old reply links never outlive comments.xml
+        const hasCommentThreads = this.comments.some(comment => comment.replies.length > 0 || comment.done);
+        this.writeCommentThreads = this.comments.length > 0 && (hasCommentThreads || !!this.originalZip?.file(COMMENT_THREAD_PARTS[0].path));
+
+        // Add footnotes/endnotes (rewritten when notes exist or the original package had the part)
+        for (const noteType of ['footnote', 'endnote'] as NoteType[]) {
+            const originalXml = await this.originalZip?.file(NOTE_PARTS[noteType].path)?.async('string');
+            if (this.notes[noteType].length === 0 && !originalXml) continue;
+            zip.file(NOTE_PARTS[noteType].path, this.serializeNotes(noteType, originalXml));
+            this.noteParts.push(noteType);
+        }
+
+        // Media files and relationships of non-document parts (headers, footers, notes)
+        for (const media of this.mediaFiles) {
+            zip.file(media.path, media.data, { base64: media.base64 });
+        }
+        this.writePartRels(zip);
+
         // Add required files
         // Add required files
+        const docAttrs = content.attrs as DocAttrs | undefined;
         if (!this.originalZip) {
             zip.file('[Content_Types].xml', this.getContentTypesXml());
             zip.file('_rels/.rels', this.getRelsXml());
             zip.file('word/_rels/document.xml.rels', this.getDocumentRelsXml());
-            zip.file('word/styles.xml', this.getStylesXml(content.attrs));
+            zip.file('word/styles.xml', this.applyStyleCatalogue(this.getStylesXml(docAttrs), docAttrs?.styles));
         } else {
             // Check if styles.xml exists, if not write it (rare but possible in simple XML docs)
-            if (!zip.file('word/styles.xml')) {
-                zip.file('word/styles.xml', this.getStylesXml(content.attrs));
+            const originalStylesXml = await zip.file('word/styles.xml')?.async('string');
+            if (!originalStylesXml) {
+                zip.file('word/styles.xml', this.applyStyleCatalogue(this.getStylesXml(docAttrs), docAttrs?.styles));
+            } else if (docAttrs?.styles?.some(style => style.modified)) {
+                zip.file('word/styles.xml', this.applyStyleCatalogue(originalStylesXml, docAttrs.styles));
             }
         }
 
         zip.file('word/document.xml', documentXml);
 
+        for (const part of this.headerFooterParts) {
+            zip.file(`word/${part.target}`, part.xml);
+        }
+
+        // Even/odd header flag lives in settings.xml
+        await this.updateSettingsXml(zip, content.attrs as DocAttrs | undefined);
+
         // Add numbering.xml for list formatting
         // If we have the original ZIP, try to preserve the original numbering.xml for better fidelity
         let useOriginalNumbering = false;
@@ -147,6 +423,10 @@ export class DocxWriter {
         // Add comments if any
         if (this.comments.length > 0) {
             zip.file('word/comments.xml', this.serializeComments());
+            if (this.writeCommentThreads) {
+                zip.file(COMMENT_THREAD_PARTS[0].path, this.serializeCommentsExtended());
+                zip.file(COMMENT_THREAD_PARTS[1].path, this.serializeCommentsIds());
+            }
         }
 
         if (this.originalZip) {
@@ -223,9 +503,32 @@ export class DocxWriter {
      * Serialize full document
      */
     private serializeDocument(content: JSONContent[], docAttrs?: DocAttrs): string {
-        const bodyContent = content.map(node => this.serializeNode(node, 0)).join('');
+        const pageWidth = parseInt(docAttrs?.pageSize?.['w:w'] || docAttrs?.pageSize?.['w'] || '11906', 10);
+        const marginLeft = parseInt(docAttrs?.pageMargins?.['w:left'] || '1440', 10);
+        const marginRight = parseInt(docAttrs?.pageMargins?.['w:right'] || '1440', 10);
+        this.textWidthTwips = Math.max(pageWidth - marginLeft - marginRight, 0) || 9026;
+
+        // A section break is written as w:sectPr in the pPr of the paragraph before it,
+        // or in an empty paragraph when the section does not end with a paragraph
+        const bodyContent = content.map((node, index) => {
+            if (node.type === 'sectionBreak') {
+                const previous = content[index - 1];
+                if (previous && (previous.type === 'paragraph' || previous.type === 'heading')) return '';
+                return `<w:p><w:pPr>${this.serializeSectionProperties(node.attrs as SectionLayoutAttrs)}</w:pPr></w:p>`;
+            }
+            const next = content[index + 1];
+            if (next?.type === 'sectionBreak' && (node.type === 'paragraph' || node.type === 'heading')) {
+                this.pendingSectPr = this.serializeSectionProperties(next.attrs as SectionLayoutAttrs);
+            }
+            return this.serializeNode(node, 0);
+        }).join('');
 
         let sectPr = '';
+        // Header/footer references are regenerated when the document carries header/footer content
+        const managesHeaderFooter = !!(docAttrs?.headers || docAttrs?.footers);
+        const headerFooterRefs = managesHeaderFooter ? this.getHeaderFooterReferencesXml(docAttrs?.sectPrElements) : '';
+        const titlePg = managesHeaderFooter && docAttrs?.titlePage ? '<w:titlePg/>' : '';
+
         // If we have captured section properties, use them for fidelity (headers, footers, etc.)
         if (docAttrs && docAttrs.sectPrElements) {
             const builder = new XMLBuilder({
@@ -234,9 +537,30 @@ export class DocxWriter {
                 preserveOrder: true,
                 suppressEmptyNode: true,
             });
-            sectPr = `<w:sectPr>${builder.build(docAttrs.sectPrElements)}</w:sectPr>`;
+            // Page setup edits (size, margins, columns) override the captured elements
+            const sectPrElements = this.applySectionLayout(docAttrs.sectPrElements as Record<string, unknown>[], docAttrs);
+            if (managesHeaderFooter) {
+                // Drop the original references (re-emitted from attrs) and split around the
+                // position where w:titlePg belongs in the CT_SectPr sequence.
+                const trailingKeys = ['w:textDirection', 'w:bidi', 'w:rtlGutter', 'w:docGrid', 'w:printerSettings', 'w:sectPrChange'];
+                const elements = sectPrElements.filter(el => {
+                    const key = Object.keys(el).find(k => k !== ':@');
+                    return key !== 'w:headerReference' && key !== 'w:footerReference' && key !== 'w:titlePg';
+                });
+                const splitIndex = elements.findIndex(el => trailingKeys.includes(Object.keys(el).find(k => k !== ':@') || ''));
+                const leading = splitIndex === -1 ? elements : elements.slice(0, splitIndex);
+                const trailing = splitIndex === -1 ? [] : elements.slice(splitIndex);
+                sectPr = `<w:sectPr>${headerFooterRefs}${builder.build(leading)}${titlePg}${builder.build(trailing)}</w:sectPr>`;
+            } else {
+                sectPr = `<w:sectPr>${builder.build(sectPrElements)}</w:sectPr>`;
+            }
         } else if (docAttrs && (docAttrs.pageSize || docAttrs.pageMargins || docAttrs.docGrid)) {
             sectPr += '<w:sectPr>';
+            sectPr += headerFooterRefs;
+
+            if (docAttrs.sectionType) {
+                sectPr += `<w:type w:val="${docAttrs.sectionType}"/>`;
+            }
 
             // Page Size
             if (docAttrs.pageSize) {
@@ -260,9 +584,12 @@ export class DocxWriter {
             // Columns - Keep only if present in original
             if (docAttrs.cols) {
                 const space = docAttrs.cols['w:space'] || '720';
-                sectPr += `<w:cols w:space="${space}"/>`;
+                const num = docAttrs.cols['w:num'] ? ` w:num="${docAttrs.cols['w:num']}"` : '';
+                sectPr += `<w:cols${num} w:space="${space}"/>`;
             }
 
+            sectPr += titlePg;
+
             // Document Grid - Keep only if present in original
             if (docAttrs.docGrid) {
                 const linePitch = docAttrs.docGrid['w:linePitch'] || '360';
@@ -273,11 +600,11 @@ export class DocxWriter {
             sectPr += '</w:sectPr>';
         } else {
             // Minimal A4 if no attributes captured
-            sectPr = `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`;
+            sectPr = `<w:sectPr>${headerFooterRefs}<w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>${titlePg}</w:sectPr>`;
         }
 
         return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+${this.documentRootTag || `<w:document ${PART_NAMESPACES}>`}
 <w:body>
 ${bodyContent}
 ${sectPr}
@@ -285,6 +612,165 @@ ${sectPr}
 </w:document>`;
     }
 
+    /**
+     * Serialize header/footer content from docAttrs and assign relationship IDs / part names.
+     * Existing parts keep their original rId and target so the package stays consistent.
+     */
+    private async prepareHeaderFooterParts(zip: JSZip, docAttrs?: DocAttrs): Promise<HeaderFooterPartData[]> {
+        if (!docAttrs?.headers && !docAttrs?.footers) return [];
+
+        const documentRels = this.getRelsContext('document.xml');
+        const parts: HeaderFooterPartData[] = [];
+        const usedTargets = new Set<string>(Object.keys(zip.files).filter(f => f.startsWith('word/')).map(f => f.substring(5)));
+
+        const nextTarget = (kind: HeaderFooterKind): string => {
+            let n = 1;
+            while (usedTargets.has(`${kind}${n}.xml`)) n++;
+            const target = `${kind}${n}.xml`;
+            usedTargets.add(target);
+            return target;
+        };
+
+        for (const kind of ['header', 'footer'] as HeaderFooterKind[]) {
+            const group = kind === 'header' ? docAttrs.headers : docAttrs.footers;
+            if (!group) continue;
+
+            for (const type of HEADER_FOOTER_TYPES) {
+                const part = group[type];
+                if (!part) continue;
+
+                const canReuse = !!(part.rId && part.target && documentRels.existing.get(part.rId) === part.target);
+                const target = canReuse ? part.target! : nextTarget(kind);
+                const rId = canReuse ? part.rId! : this.addRelationship('document.xml', kind, target);
+                const originalXml = canReuse ? await zip.file(`word/${target}`)?.async('string') : undefined;
+
+                this.activePart = target;
+                const xml = this.serializeHeaderFooter(kind, part.content || [], originalXml);
+                this.activePart = 'document.xml';
+
+                parts.push({ kind, type, rId, target, xml });
+            }
+        }
+
+        return parts;
+    }
+
+    /**
+     * Serialize a header (w:hdr) or footer (w:ftr) part
+     */
+    private serializeHeaderFooter(kind: HeaderFooterKind, content: JSONContent[], originalXml?: string): string {
+        const root = kind === 'header' ? 'w:hdr' : 'w:ftr';
+        // A header/footer part must contain at least one block-level element
+        const body = content.length > 0 ? content.map(node => this.serializeNode(node, 0)).join('') : '<w:p/>';
+        // Keep the original root element (namespace declarations) when rewriting an existing part
+        const originalRoot = originalXml?.match(new RegExp(`<${root}\\b[^>]*>`))?.[0];
+        const rootOpen = originalRoot ? this.ensureNamespaces(originalRoot) : `<${root} ${PART_NAMESPACES}>`;
+
+        return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+${rootOpen}
+${body}
+</${root}>`;
+    }
+
+    /**
+     * Build w:headerReference / w:footerReference elements for sectPr.
+     * References present in the original sectPr keep their original order; new ones are appended.
+     */
+    private getHeaderFooterReferencesXml(sectPrElements?: unknown[]): string {
+        const originalOrder: string[] = [];
+        for (const el of (sectPrElements || []) as Record<string, unknown>[]) {
+            const key = Object.keys(el).find(k => k !== ':@');
+            if (key === 'w:headerReference' || key === 'w:footerReference') {
+                const kind = key === 'w:headerReference' ? 'header' : 'footer';
+                const attrs = el[':@'] as Record<string, string> | undefined;
+                originalOrder.push(`${kind}:${attrs?.['w:type'] || 'default'}`);
+            }
+        }
+
+        const rank = (p: HeaderFooterPartData) => {
+            const idx = originalOrder.indexOf(`${p.kind}:${p.type}`);
+            return idx === -1 ? originalOrder.length : idx;
+        };
+
+        return [...this.headerFooterParts]
+            .sort((a, b) => rank(a) - rank(b))
+            .map(p => `<w:${p.kind}Reference w:type="${p.type}" r:id="${p.rId}"/>`)
+            .join('');
+    }
+
+    /**
+     * Replace the page setup elements (w:type, w:pgSz, w:pgMar, w:cols) of captured sectPr children
+     * with the section's current values, inserting missing ones in CT_SectPr order
+     */
+    private applySectionLayout(elements: Record<string, unknown>[], attrs: SectionLayoutAttrs): Record<string, unknown>[] {
+        const replacements: [string, Record<string, unknown> | null | undefined][] = [
+            ['w:type', attrs.sectionType ? { 'w:val': attrs.sectionType } : null],
+            ['w:pgSz', attrs.pageSize],
+            ['w:pgMar', attrs.pageMargins],
+            ['w:cols', attrs.cols],
+        ];
+
+        let result = [...elements];
+        for (const [key, value] of replacements) {
+            if (!value) continue;
+            // Keep children (e.g. w:col entries of unequal-width columns)
+            result = this.putOrderedElement(result, key, this.toXmlAttributes(value), null, SECT_PR_ORDER);
+        }
+        return result;
+    }
+
+    /**
+     * Replace (or insert in schema order) one child of a *Pr element.
+     * children === null keeps the existing element's children.
+     */
+    private putOrderedElement(
+        elements: Record<string, unknown>[],
+        key: string,
+        attributes: Record<string, string>,
+        children: Record<string, unknown>[] | null,
+        order: string[],
+    ): Record<string, unknown>[] {
+        const keyOf = (el: Record<string, unknown>) => Object.keys(el).find(k => k !== ':@') || '';
+        const result = [...elements];
+        const element: Record<string, unknown> = { [key]: children || [] };
+        if (Object.keys(attributes).length > 0) element[':@'] = attributes;
+
+        const existing = result.findIndex(el => keyOf(el) === key);
+        if (existing !== -1) {
+            const previousChildren = result[existing][key];
+            result[existing] = children === null ? { ...element, [key]: Array.isArray(previousChildren) ? previousChildren : [] } : element;
+            return result;
+        }
+        const index = order.indexOf(key);
+        const insertAt = result.findIndex(el => order.indexOf(keyOf(el)) > index);
+        result.splice(insertAt === -1 ? result.length : insertAt, 0, element);
+        return result;
+    }
+
+    private toXmlAttributes(value: Record<string, unknown>): Record<string, string> {
+        return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined).map(([k, v]) => [k, String(v)]));
+    }
+
+    /**
+     * Serialize the w:sectPr of a section ending at a section break
+     */
+    private serializeSectionProperties(attrs: SectionLayoutAttrs | undefined): string {
+        const builder = new XMLBuilder({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            preserveOrder: true,
+            suppressEmptyNode: true,
+        });
+        const captured = Array.isArray(attrs?.sectPrElements) ? attrs!.sectPrElements as Record<string, unknown>[] : [];
+        return `<w:sectPr>${builder.build(this.applySectionLayout(captured, attrs || {}))}</w:sectPr>`;
+    }
+
+    private takePendingSectPr(): string {
+        const sectPr = this.pendingSectPr;
+        this.pendingSectPr = '';
+        return sectPr;
+    }
+
     /**
      * Serialize any node type
      */
@@ -302,17 +788,36 @@ ${sectPr}
                 return this.serializeListItem(node, listLevel);
             case 'table':
                 return this.serializeTable(node);
-            case 'tableRow':
-                return this.serializeTableRow(node);
-            case 'tableCell':
-            case 'tableHeader':
-                return this.serializeTableCell(node);
+            // tableRow / tableCell / tableHeader are written by serializeTable (they need the grid layout)
             case 'hardBreak':
                 return '<w:r><w:br/></w:r>';
             case 'tab':
                 return '<w:r><w:tab/></w:r>';
             case 'text':
                 return this.serializeTextRun(node);
+            case 'footnote':
+                return this.serializeNoteReference(node);
+            case 'image':
+                return this.serializeImage(node);
+            case 'bookmarkStart':
+                return `<w:bookmarkStart w:id="${this.escapeXml(String(node.attrs?.id ?? 0))}" w:name="${this.escapeXml(String(node.attrs?.name || ''))}"/>`;
+            case 'bookmarkEnd':
+                return `<w:bookmarkEnd w:id="${this.escapeXml(String(node.attrs?.id ?? 0))}"/>`;
+            case 'field':
+                return this.serializeField(node);
+            case 'tableOfContents':
+                return this.serializeTableOfContents(node);
+            case 'sectionBreak':
+                return `<w:p><w:pPr>${this.serializeSectionProperties(node.attrs as SectionLayoutAttrs)}</w:pPr></w:p>`;
+            case 'math': {
+                // Unedited equations keep their original OMML; edited ones are rebuilt from the linear form
+                if (typeof node.attrs?.xml === 'string' && node.attrs.xml) return node.attrs.xml;
+                return latexToOmml(String(node.attrs?.latex ?? ''), !!node.attrs?.display);
+            }
+            case 'preservedBlock':
+            case 'preservedInline':
+                // Elements the editor cannot represent are written back exactly as they were read
+                return typeof node.attrs?.xml === 'string' ? node.attrs.xml : '';
             default:
                 // Handle unknown nodes by serializing children
                 if (node.content) {
@@ -326,10 +831,24 @@ ${sectPr}
      * Serialize paragraph
      */
     private serializeParagraph(node: JSONContent, listInfo?: { numId: number; ilvl: number }): string {
-        let pPr = '';
-
         const attrs = node.attrs as DocAttrs | undefined;
 
+        let pPr = this.serializeParagraphProperties(attrs, listInfo);
+        pPr += this.takePendingSectPr();
+        pPr += this.serializeParagraphFormatChange(attrs);
+
+        const pPrXml = pPr ? `<w:pPr>${pPr}</w:pPr>` : '';
+        const content = this.serializeParagraphContent(node.content || []);
+
+        return `<w:p>${pPrXml}${content}</w:p>`;
+    }
+
+    /**
+     * Paragraph properties (w:pPr children up to w:rPr) of a paragraph's attrs
+     */
+    private serializeParagraphProperties(attrs: DocAttrs | undefined, listInfo?: { numId: number; ilvl: number }): string {
+        let pPr = '';
+
         // Add paragraph style if present (for heading-style paragraphs)
         if (attrs?.styleId) {
             pPr += `<w:pStyle w:val="${attrs.styleId}"/>`;
@@ -447,10 +966,25 @@ ${sectPr}
             }
         }
 
-        const pPrXml = pPr ? `<w:pPr>${pPr}</w:pPr>` : '';
-        const content = this.serializeParagraphContent(node.content || []);
+        return pPr;
+    }
 
-        return `<w:p>${pPrXml}${content}</w:p>`;
+    /**
+     * w:pPrChange recording the paragraph properties before a tracked formatting change
+     * (w:rPr is not part of the previous properties, so the paragraph default font is left out)
+     */
+    private serializeParagraphFormatChange(attrs: DocAttrs | undefined): string {
+        const change = attrs?.formatChange;
+        if (!change) return '';
+
+        const previous: DocAttrs = { ...(change.attrs || {}), pPrFontSize: undefined, pPrFontFamily: undefined };
+        const previousPPr = change.type === 'heading'
+            ? this.serializeHeadingProperties(previous)
+            : this.serializeParagraphProperties(previous);
+        const id = this.formatChangeIdCounter++;
+        const author = this.escapeXml(change.author || 'Unknown');
+        const date = change.date || new Date().toISOString();
+        return `<w:pPrChange w:id="${id}" w:author="${author}" w:date="${date}"><w:pPr>${previousPPr}</w:pPr></w:pPrChange>`;
     }
 
     /**
@@ -460,18 +994,40 @@ ${sectPr}
         let result = '';
 
         // Track active comment across inline nodes so we emit one contiguous range per comment.
+        // Replies get ranges of their own over the same text, as Word writes them.
         let activeCommentSourceId: string | null = null;
-        let activeCommentDocxId: string | null = null;
+        let activeCommentDocxIds: string[] = [];
 
         const closeActiveComment = () => {
-            if (!activeCommentDocxId) return;
-            result += `<w:commentRangeEnd w:id="${activeCommentDocxId}"/>`;
-            result += `<w:r><w:commentReference w:id="${activeCommentDocxId}"/></w:r>`;
+            if (activeCommentDocxIds.length === 0) return;
+            for (const docxId of activeCommentDocxIds) {
+                result += `<w:commentRangeEnd w:id="${docxId}"/>`;
+                result += `<w:r><w:commentReference w:id="${docxId}"/></w:r>`;
+            }
             activeCommentSourceId = null;
-            activeCommentDocxId = null;
+            activeCommentDocxIds = [];
+        };
+
+        // Consecutive inline nodes with the same link mark share one w:hyperlink element.
+        let activeLinkKey: string | null = null;
+
+        const closeActiveLink = () => {
+            if (activeLinkKey === null) return;
+            result += '</w:hyperlink>';
+            activeLinkKey = null;
+        };
+
+        // Moved runs sit in a w:moveFromRangeStart/End (w:moveToRangeStart/End) range named after their move
+        const activeMoves: Partial<Record<'moveFrom' | 'moveTo', { key: string; id: number }>> = {};
+
+        const closeActiveMove = (type: 'moveFrom' | 'moveTo') => {
+            const active = activeMoves[type];
+            if (!active) return;
+            result += `<w:${type}RangeEnd w:id="${active.id}"/>`;
+            delete activeMoves[type];
         };
 
-        const getCommentInfoFromInlineNode = (node: JSONContent): { sourceId: string; author: string; date: string; content: string } | null => {
+        const getCommentInfoFromInlineNode = (node: JSONContent): { sourceId: string; author: string; date: string; content: string; replies: Record<string, unknown>[]; done: boolean } | null => {
             const marks = node.marks || [];
             const commentMark = marks.find(m => m.type === 'comment');
             if (!commentMark) return null;
@@ -480,7 +1036,8 @@ ${sectPr}
             const author = String(attrs.author || 'Unknown');
             const date = String(attrs.date || new Date().toISOString());
             const content = String(attrs.content || '');
-            return { sourceId, author, date, content };
+            const replies = Array.isArray(attrs.replies) ? attrs.replies as Record<string, unknown>[] : [];
+            return { sourceId, author, date, content, replies, done: !!attrs.done };
         };
 
         for (const child of content) {
@@ -488,6 +1045,28 @@ ${sectPr}
             const commentInfo = getCommentInfoFromInlineNode(child);
             const nextSourceId = commentInfo?.sourceId ?? null;
 
+            const linkMark = (child.marks || []).find(m => m.type === 'link' && m.attrs?.href);
+            const nextLinkKey = linkMark ? JSON.stringify([linkMark.attrs?.href, linkMark.attrs?.title || null]) : null;
+            if (nextLinkKey !== activeLinkKey) {
+                closeActiveLink();
+            }
+
+            for (const type of ['moveFrom', 'moveTo'] as const) {
+                const moveMark = (child.marks || []).find(m => m.type === type);
+                const moveAttrs = (moveMark?.attrs || {}) as DocAttrs;
+                const moveKey = moveMark ? JSON.stringify([moveAttrs.name || '', moveAttrs.author || '', moveAttrs.date || '']) : null;
+                if (moveKey === (activeMoves[type]?.key ?? null)) continue;
+                closeActiveMove(type);
+                if (moveKey) {
+                    const id = this.moveIdCounter++;
+                    const name = this.escapeXml(moveAttrs.name || `move${id}`);
+                    const author = this.escapeXml(moveAttrs.author || 'Unknown');
+                    const date = moveAttrs.date || new Date().toISOString();
+                    result += `<w:${type}RangeStart w:id="${id}" w:name="${name}" w:author="${author}" w:date="${date}"/>`;
+                    activeMoves[type] = { key: moveKey, id };
+                }
+            }
+
             // If comment boundary changes, close/open ranges as needed
             if (nextSourceId !== activeCommentSourceId) {
                 closeActiveComment();
@@ -495,22 +1074,44 @@ ${sectPr}
                     const docxId = this.getDocxCommentId(commentInfo.sourceId);
 
                     // Ensure comment is present in comments.xml
-                    if (!this.comments.find(c => c.sourceId === commentInfo.sourceId)) {
-                        this.comments.push({
+                    let comment = this.comments.find(c => c.sourceId === commentInfo.sourceId);
+                    if (!comment) {
+                        comment = {
                             sourceId: commentInfo.sourceId,
                             docxId,
                             author: commentInfo.author,
                             date: commentInfo.date,
-                            content: commentInfo.content
-                        });
+                            content: commentInfo.content,
+                            replies: commentInfo.replies.map((reply, index) => {
+                                const replySourceId = `${commentInfo.sourceId}/${String(reply.id || index)}`;
+                                return {
+                                    sourceId: replySourceId,
+                                    docxId: this.getDocxCommentId(replySourceId),
+                                    author: String(reply.author || 'Unknown'),
+                                    date: String(reply.date || commentInfo.date),
+                                    content: String(reply.content || ''),
+                                    replies: [],
+                                    done: commentInfo.done,
+                                };
+                            }),
+                            done: commentInfo.done,
+                        };
+                        this.comments.push(comment);
                     }
 
-                    result += `<w:commentRangeStart w:id="${docxId}"/>`;
+                    activeCommentDocxIds = [docxId, ...comment.replies.map(reply => reply.docxId)];
+                    for (const id of activeCommentDocxIds) {
+                        result += `<w:commentRangeStart w:id="${id}"/>`;
+                    }
                     activeCommentSourceId = commentInfo.sourceId;
-                    activeCommentDocxId = docxId;
                 }
             }
 
+            if (linkMark && activeLinkKey === null) {
+                result += `<w:hyperlink${this.registerHyperlink(linkMark.attrs as Record<string, unknown>)}>`;
+                activeLinkKey = nextLinkKey;
+            }
+
             // Serialize the child node itself (without emitting comment range wrappers)
             if (child.type === 'text') {
                 result += this.serializeTextRun(child);
@@ -519,20 +1120,99 @@ ${sectPr}
             }
         }
 
-        // Close any remaining open comment range at end of paragraph
+        // Close any remaining open hyperlink / move / comment range at end of paragraph
+        closeActiveLink();
+        closeActiveMove('moveFrom');
+        closeActiveMove('moveTo');
         closeActiveComment();
 
         return result;
     }
 
+    /**
+     * Serialize a field node back to w:fldSimple or a complex field (begin / instrText / separate / result / end)
+     * so Word can still update it; the cached result is written as the field result run.
+     */
+    private serializeField(node: JSONContent): string {
+        const attrs = (node.attrs || {}) as Record<string, unknown>;
+        const instruction = String(attrs.instruction || '').trim();
+        const result = String(attrs.result ?? '');
+        // Range marks (comments, links, revisions) are emitted around the field by the caller
+        const runMarks = (node.marks || []).filter(m => !['comment', 'link', 'insertion', 'deletion'].includes(m.type));
+        const resultRun = result ? this.serializeTextRun({ type: 'text', text: result, marks: runMarks }) : '';
+
+        if (attrs.simple) {
+            return `<w:fldSimple w:instr=" ${this.escapeXml(instruction)} ">${resultRun}</w:fldSimple>`;
+        }
+        return this.serializeComplexField(instruction, resultRun);
+    }
+
+    private serializeComplexField(instruction: string, resultXml: string): string {
+        return '<w:r><w:fldChar w:fldCharType="begin"/></w:r>'
+            + `<w:r><w:instrText xml:space="preserve"> ${this.escapeXml(instruction)} </w:instrText></w:r>`
+            + '<w:r><w:fldChar w:fldCharType="separate"/></w:r>'
+            + resultXml
+            + '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+    }
+
+    /**
+     * Serialize a table of contents as Word lays it out: one TOCn paragraph per entry, with the TOC field
+     * beginning in the first paragraph and ending in the last. Entries link to their _Toc bookmark and
+     * carry a PAGEREF field for the page number.
+     */
+    private serializeTableOfContents(node: JSONContent): string {
+        const attrs = (node.attrs || {}) as Record<string, unknown>;
+        const instruction = String(attrs.instruction || 'TOC \\o "1-3" \\h \\z \\u').trim();
+        const entries = (Array.isArray(attrs.entries) ? attrs.entries : []) as Record<string, unknown>[];
+
+        const fieldBegin = '<w:r><w:fldChar w:fldCharType="begin"/></w:r>'
+            + `<w:r><w:instrText xml:space="preserve"> ${this.escapeXml(instruction)} </w:instrText></w:r>`
+            + '<w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+        const fieldEnd = '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+
+        if (entries.length === 0) {
+            return `<w:p>${fieldBegin}${fieldEnd}</w:p>`;
+        }
+
+        return entries.map((entry, index) => {
+            const level = Math.max(Number(entry.level) || 1, 1);
+            const styleId = String(entry.styleId || `TOC${level}`);
+            const anchor = entry.anchor ? String(entry.anchor) : '';
+            const page = String(entry.page ?? '');
+
+            const pageRun = page ? `<w:r><w:t>${this.escapeXml(page)}</w:t></w:r>` : '';
+            let body = `<w:r><w:t xml:space="preserve">${this.escapeXml(String(entry.text || ''))}</w:t></w:r>`
+                + '<w:r><w:tab/></w:r>'
+                + (anchor ? this.serializeComplexField(`PAGEREF ${anchor} \\h`, pageRun) : pageRun);
+            if (anchor) {
+                body = `<w:hyperlink w:anchor="${this.escapeXml(anchor)}" w:history="1">${body}</w:hyperlink>`;
+            }
+
+            const pPr = `<w:pPr><w:pStyle w:val="${this.escapeXml(styleId)}"/><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${this.textWidthTwips}"/></w:tabs></w:pPr>`;
+            return `<w:p>${pPr}${index === 0 ? fieldBegin : ''}${body}${index === entries.length - 1 ? fieldEnd : ''}</w:p>`;
+        }).join('');
+    }
+
     /**
      * Serialize heading
      */
     private serializeHeading(node: JSONContent): string {
         const attrs = node.attrs as DocAttrs | undefined;
-        const level = attrs?.level || 1;
         const content = this.serializeParagraphContent(node.content || []);
 
+        let pPr = this.serializeHeadingProperties(attrs);
+        pPr += this.takePendingSectPr();
+        pPr += this.serializeParagraphFormatChange(attrs);
+
+        return `<w:p><w:pPr>${pPr}</w:pPr>${content}</w:p>`;
+    }
+
+    /**
+     * Paragraph properties of a heading's attrs (the style comes from the level when no styleId is kept)
+     */
+    private serializeHeadingProperties(attrs: DocAttrs | undefined): string {
+        const level = attrs?.level || 1;
+
         // Use original style ID if available, otherwise generate from level
         const styleId = attrs?.styleId || `Heading${level}`;
         let pPr = `<w:pStyle w:val="${styleId}"/>`;
@@ -581,7 +1261,7 @@ ${sectPr}
             pPr += `<w:contextualSpacing w:val="${attrs.contextualSpacing}"/>`;
         }
 
-        return `<w:p><w:pPr>${pPr}</w:pPr>${content}</w:p>`;
+        return pPr;
     }
 
     /**
@@ -599,7 +1279,62 @@ ${sectPr}
         // Note: comment ranges are handled at paragraph-content level (serializeParagraphContent)
         // to avoid emitting invalid multiple range markers for the same comment.
 
-        // Build run properties
+        let rPr = this.serializeRunProperties(marks);
+
+        // Tracked formatting change: the run properties before the change go last in w:rPr
+        const formatChangeMark = marks.find(m => m.type === 'formatChange');
+        if (formatChangeMark) {
+            const attrs = formatChangeMark.attrs as DocAttrs & { oldMarks?: JSONContent['marks'] } | undefined;
+            const id = this.formatChangeIdCounter++;
+            const author = this.escapeXml(attrs?.author || 'Unknown');
+            const date = attrs?.date || new Date().toISOString();
+            rPr += `<w:rPrChange w:id="${id}" w:author="${author}" w:date="${date}"><w:rPr>${this.serializeRunProperties(attrs?.oldMarks || [])}</w:rPr></w:rPrChange>`;
+        }
+
+        const rPrXml = rPr ? `<w:rPr>${rPr}</w:rPr>` : '';
+        let runXml: string;
+
+        // Handle deletion (uses delText instead of t)
+        if (deletionMark) {
+            runXml = `<w:r>${rPrXml}<w:delText>${text}</w:delText></w:r>`;
+        } else {
+            runXml = `<w:r>${rPrXml}<w:t>${text}</w:t></w:r>`;
+        }
+
+        // Wrap in track change elements
+        if (insertionMark) {
+            const attrs = insertionMark.attrs as DocAttrs | undefined;
+            const id = this.insertionIdCounter++;
+            const author = attrs?.author || 'Unknown';
+            const date = attrs?.date || new Date().toISOString();
+            runXml = `<w:ins w:id="${id}" w:author="${this.escapeXml(author)}" w:date="${date}">${runXml}</w:ins>`;
+        }
+
+        if (deletionMark) {
+            const attrs = deletionMark.attrs as DocAttrs | undefined;
+            const id = this.deletionIdCounter++;
+            const author = attrs?.author || 'Unknown';
+            const date = attrs?.date || new Date().toISOString();
+            runXml = `<w:del w:id="${id}" w:author="${this.escapeXml(author)}" w:date="${date}">${runXml}</w:del>`;
+        }
+
+        // Moved text (the enclosing move range is written by serializeParagraphContent)
+        const moveMark = marks.find(m => m.type === 'moveFrom' || m.type === 'moveTo');
+        if (moveMark) {
+            const attrs = moveMark.attrs as DocAttrs | undefined;
+            const id = this.moveIdCounter++;
+            const author = attrs?.author || 'Unknown';
+            const date = attrs?.date || new Date().toISOString();
+            runXml = `<w:${moveMark.type} w:id="${id}" w:author="${this.escapeXml(author)}" w:date="${date}">${runXml}</w:${moveMark.type}>`;
+        }
+
+        return runXml;
+    }
+
+    /**
+     * Run properties (w:rPr children) of a text node's formatting marks
+     */
+    private serializeRunProperties(marks: NonNullable<JSONContent['marks']>): string {
         let rPr = '';
         for (const mark of marks) {
             switch (mark.type) {
@@ -636,34 +1371,12 @@ ${sectPr}
             }
         }
 
-        const rPrXml = rPr ? `<w:rPr>${rPr}</w:rPr>` : '';
-        let runXml: string;
-
-        // Handle deletion (uses delText instead of t)
-        if (deletionMark) {
-            runXml = `<w:r>${rPrXml}<w:delText>${text}</w:delText></w:r>`;
-        } else {
-            runXml = `<w:r>${rPrXml}<w:t>${text}</w:t></w:r>`;
-        }
-
-        // Wrap in track change elements
-        if (insertionMark) {
-            const attrs = insertionMark.attrs as DocAttrs | undefined;
-            const id = this.insertionIdCounter++;
-            const author = attrs?.author || 'Unknown';
-            const date = attrs?.date || new Date().toISOString();
-            runXml = `<w:ins w:id="${id}" w:author="${this.escapeXml(author)}" w:date="${date}">${runXml}</w:ins>`;
-        }
-
-        if (deletionMark) {
-            const attrs = deletionMark.attrs as DocAttrs | undefined;
-            const id = this.deletionIdCounter++;
-            const author = attrs?.author || 'Unknown';
-            const date = attrs?.date || new Date().toISOString();
-            runXml = `<w:del w:id="${id}" w:author="${this.escapeXml(author)}" w:date="${date}">${runXml}</w:del>`;
+        // Linked text uses Word's "Hyperlink" character style (rStyle must come first in rPr)
+        if (marks.some(m => m.type === 'link')) {
+            rPr = `<w:rStyle w:val="Hyperlink"/>${rPr}`;
         }
 
-        return runXml;
+        return rPr;
     }
 
     /**
@@ -735,44 +1448,659 @@ ${sectPr}
 
     /**
      * Serialize table
+     * - w:tblGrid is rebuilt from the cell widths (falling back to the original grid, then equal columns)
+     * - rowspan is written as a w:vMerge restart cell followed by continuation cells in the rows below
+     * - w:tblPr / w:trPr / w:tcPr children that the editor does not model are written back unchanged
      */
     private serializeTable(node: JSONContent): string {
-        const rows = (node.content || []).map(row => this.serializeTableRow(row)).join('');
-        return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders><w:top w:val="single" w:sz="4"/><w:left w:val="single" w:sz="4"/><w:bottom w:val="single" w:sz="4"/><w:right w:val="single" w:sz="4"/><w:insideH w:val="single" w:sz="4"/><w:insideV w:val="single" w:sz="4"/></w:tblBorders></w:tblPr>${rows}</w:tbl>`;
+        const rows = node.content || [];
+        const attrs = node.attrs || {};
+
+        // Grid column -> remaining rows covered by a rowspan, with the span of the merged cell
+        const covered: { rows: number; colspan: number; colwidth: number[] | null }[] = [];
+        // Grid layout of each row: [gridCol, cell | continuation]
+        const layout: { gridCol: number; cell: JSONContent | null; colspan: number; colwidth: number[] | null }[][] = [];
+        // Widths of unmerged cells set the grid; a merged cell's widths only fill columns no unmerged cell covers
+        const widths: (number | null)[] = [];
+        const spannedWidths: (number | null)[] = [];
+
+        rows.forEach(row => {
+            const rowLayout: (typeof layout)[number] = [];
+            let gridCol = 0;
+            const takeCovered = () => {
+                while (covered[gridCol]?.rows > 0) {
+                    const span = covered[gridCol];
+                    span.rows--;
+                    rowLayout.push({ gridCol, cell: null, colspan: span.colspan, colwidth: span.colwidth });
+                    gridCol += span.colspan;
+                }
+            };
+
+            (row.content || []).forEach(cell => {
+                takeCovered();
+                const colspan = Number(cell.attrs?.colspan) || 1;
+                const rowspan = Number(cell.attrs?.rowspan) || 1;
+                const colwidth = Array.isArray(cell.attrs?.colwidth) ? cell.attrs!.colwidth as number[] : null;
+                rowLayout.push({ gridCol, cell, colspan, colwidth });
+                const target = colspan > 1 ? spannedWidths : widths;
+                colwidth?.forEach((w, i) => {
+                    if (w && target[gridCol + i] == null) target[gridCol + i] = w * PX_TO_TWIPS;
+                });
+                if (rowspan > 1) covered[gridCol] = { rows: rowspan - 1, colspan, colwidth };
+                gridCol += colspan;
+            });
+            takeCovered();
+            widths.length = Math.max(widths.length, gridCol);
+            layout.push(rowLayout);
+        });
+
+        const originalGrid = Array.isArray(attrs.grid) ? attrs.grid as number[] : [];
+        const columnCount = widths.length;
+        const fallbackWidth = Math.round(this.textWidthTwips / Math.max(columnCount, 1));
+        const grid = Array.from({ length: columnCount }, (_, i) =>
+            Math.round(widths[i] ?? spannedWidths[i] ?? originalGrid[i] ?? fallbackWidth));
+
+        const tblPr = Array.isArray(attrs.tblPrElements)
+            ? `<w:tblPr>${this.buildXml(attrs.tblPrElements as Record<string, unknown>[])}</w:tblPr>`
+            : '<w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders><w:top w:val="single" w:sz="4"/><w:left w:val="single" w:sz="4"/><w:bottom w:val="single" w:sz="4"/><w:right w:val="single" w:sz="4"/><w:insideH w:val="single" w:sz="4"/><w:insideV w:val="single" w:sz="4"/></w:tblBorders></w:tblPr>';
+        const tblGrid = `<w:tblGrid>${grid.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`;
+
+        const rowsXml = rows.map((row, i) => this.serializeTableRow(row, layout[i], grid)).join('');
+        return `<w:tbl>${tblPr}${tblGrid}${rowsXml}</w:tbl>`;
     }
 
     /**
-     * Serialize table row
+     * Serialize table row (rows made only of header cells repeat as w:tblHeader; an inserted or deleted
+     * row gets its w:ins / w:del revision at the end of w:trPr)
      */
-    private serializeTableRow(node: JSONContent): string {
-        const cells = (node.content || []).map(cell => this.serializeTableCell(cell)).join('');
-        return `<w:tr>${cells}</w:tr>`;
+    private serializeTableRow(
+        node: JSONContent,
+        layout: { gridCol: number; cell: JSONContent | null; colspan: number; colwidth: number[] | null }[],
+        grid: number[],
+    ): string {
+        const cellNodes = node.content || [];
+        const isHeader = cellNodes.length > 0 && cellNodes.every(cell => cell.type === 'tableHeader');
+        let trPrElements = (Array.isArray(node.attrs?.trPrElements) ? node.attrs!.trPrElements as Record<string, unknown>[] : [])
+            .filter(el => !('w:tblHeader' in el));
+        if (isHeader) trPrElements = [...trPrElements, { 'w:tblHeader': [] }];
+        const revision = this.serializeRowRevision((node.attrs?.rowChange || null) as DocAttrs['rowChange']);
+        const trPr = trPrElements.length > 0 || revision ? `<w:trPr>${this.buildXml(trPrElements)}${revision}</w:trPr>` : '';
+
+        const cells = layout.map(entry => {
+            const width = entry.colwidth?.every(w => w > 0)
+                ? entry.colwidth.reduce((sum, w) => sum + w, 0) * PX_TO_TWIPS
+                : grid.slice(entry.gridCol, entry.gridCol + entry.colspan).reduce((sum, w) => sum + w, 0);
+            return entry.cell
+                ? this.serializeTableCell(entry.cell, width)
+                : this.serializeMergedCell(entry.colspan, width);
+        }).join('');
+        return `<w:tr>${trPr}${cells}</w:tr>`;
+    }
+
+    private serializeRowRevision(rowChange: DocAttrs['rowChange']): string {
+        if (!rowChange) return '';
+        const tag = rowChange.type === 'deletion' ? 'w:del' : 'w:ins';
+        const id = rowChange.type === 'deletion' ? this.deletionIdCounter++ : this.insertionIdCounter++;
+        const author = this.escapeXml(rowChange.author || 'Unknown');
+        const date = rowChange.date || new Date().toISOString();
+        return `<${tag} w:id="${id}" w:author="${author}" w:date="${date}"/>`;
     }
 
     /**
      * Serialize table cell
      */
-    private serializeTableCell(node: JSONContent): string {
-        const content = (node.content || []).map(child => this.serializeNode(child)).join('');
-        return `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${content}</w:tc>`;
+    private serializeTableCell(node: JSONContent, widthTwips: number): string {
+        const attrs = node.attrs || {};
+        const colspan = Number(attrs.colspan) || 1;
+        const rowspan = Number(attrs.rowspan) || 1;
+
+        let tcPr = (Array.isArray(attrs.tcPrElements) ? attrs.tcPrElements as Record<string, unknown>[] : [])
+            .filter(el => !TC_PR_MANAGED.some(key => key in el));
+        tcPr = this.putOrderedElement(tcPr, 'w:tcW', { 'w:w': String(Math.round(widthTwips)), 'w:type': 'dxa' }, [], TC_PR_ORDER);
+        if (colspan > 1) tcPr = this.putOrderedElement(tcPr, 'w:gridSpan', { 'w:val': String(colspan) }, [], TC_PR_ORDER);
+        if (rowspan > 1) tcPr = this.putOrderedElement(tcPr, 'w:vMerge', { 'w:val': 'restart' }, [], TC_PR_ORDER);
+
+        const borders = attrs.borders as Record<string, Record<string, unknown>> | null | undefined;
+        if (borders && Object.keys(borders).length > 0) {
+            const children = Object.keys(borders)
+                .sort((a, b) => TC_BORDER_ORDER.indexOf(a) - TC_BORDER_ORDER.indexOf(b))
+                .map(side => ({ [`w:${side}`]: [], ':@': this.toXmlAttributes(borders[side] || {}) }));
+            tcPr = this.putOrderedElement(tcPr, 'w:tcBorders', {}, children, TC_PR_ORDER);
+        }
+        if (typeof attrs.shading === 'string' && attrs.shading) {
+            tcPr = this.putOrderedElement(tcPr, 'w:shd', { 'w:val': 'clear', 'w:color': 'auto', 'w:fill': attrs.shading.replace('#', '').toUpperCase() }, [], TC_PR_ORDER);
+        }
+        if (attrs.verticalAlign) {
+            tcPr = this.putOrderedElement(tcPr, 'w:vAlign', { 'w:val': String(attrs.verticalAlign) }, [], TC_PR_ORDER);
+        }
+
+        let content = (node.content || []).map(child => this.serializeNode(child)).join('');
+        // A cell must end with a paragraph (e.g. after a nested table)
+        if (!content.endsWith('</w:p>') && !content.endsWith('<w:p/>')) content += '<w:p/>';
+        return `<w:tc><w:tcPr>${this.buildXml(tcPr)}</w:tcPr>${content}</w:tc>`;
+    }
+
+    /**
+     * Continuation cell of a vertical merge
+     */
+    private serializeMergedCell(colspan: number, widthTwips: number): string {
+        const gridSpan = colspan > 1 ? `<w:gridSpan w:val="${colspan}"/>` : '';
+        return `<w:tc><w:tcPr><w:tcW w:w="${Math.round(widthTwips)}" w:type="dxa"/>${gridSpan}<w:vMerge/></w:tcPr><w:p/></w:tc>`;
+    }
+
+    private buildXml(elements: Record<string, unknown>[]): string {
+        const builder = new XMLBuilder({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            preserveOrder: true,
+            suppressEmptyNode: true,
+        });
+        return builder.build(elements);
     }
 
     /**
      * Serialize comments to comments.xml
      */
     private serializeComments(): string {
-        const commentsXml = this.comments.map(comment => {
+        // With thread parts, each comment paragraph carries the w14:paraId commentsExtended.xml refers to
+        const commentsXml = this.getCommentsInOrder().map(comment => {
+            const paraId = this.writeCommentThreads ? ` w14:paraId="${this.getCommentParaId(comment)}"` : '';
             return `<w:comment w:id="${comment.docxId}" w:author="${this.escapeXml(comment.author)}" w:date="${this.escapeXml(comment.date)}">
-<w:p><w:r><w:t>${this.escapeXml(comment.content)}</w:t></w:r></w:p>
+<w:p${paraId}><w:r><w:t>${this.escapeXml(comment.content)}</w:t></w:r></w:p>
 </w:comment>`;
         }).join('\n');
 
+        const namespaces = this.writeCommentThreads ? ' xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml"' : '';
         return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"${namespaces}>
 ${commentsXml}
 </w:comments>`;
     }
 
+    /**
+     * Root comments each followed by their replies (the order Word lists a thread in)
+     */
+    private getCommentsInOrder(): CommentData[] {
+        return this.comments.flatMap(comment => [comment, ...comment.replies]);
+    }
+
+    // Paragraph / durable IDs are 8 hex digits below 0x80000000; derived from the numeric comment id
+    private getCommentParaId(comment: CommentData): string {
+        return (0x10000000 + parseInt(comment.docxId, 10)).toString(16).toUpperCase();
+    }
+
+    private getCommentDurableId(comment: CommentData): string {
+        return (0x20000000 + parseInt(comment.docxId, 10)).toString(16).toUpperCase();
+    }
+
+    /**
+     * Serialize commentsExtended.xml: reply links (w15:paraIdParent) and resolved state (w15:done)
+     */
+    private serializeCommentsExtended(): string {
+        const entries = this.comments.flatMap(comment => [
+            `<w15:commentEx w15:paraId="${this.getCommentParaId(comment)}" w15:done="${comment.done ? 1 : 0}"/>`,
+            ...comment.replies.map(reply =>
+                `<w15:commentEx w15:paraId="${this.getCommentParaId(reply)}" w15:paraIdParent="${this.getCommentParaId(comment)}" w15:done="${comment.done ? 1 : 0}"/>`),
+        ]).join('\n');
+
+        return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w15:commentsEx xmlns:w15="http://schemas.microsoft.com/office/word/2012/wordml">
+${entries}
+</w15:commentsEx>`;
+    }
+
+    /**
+     * Serialize commentsIds.xml: durable IDs keyed by paragraph ID
+     */
+    private serializeCommentsIds(): string {
+        const entries = this.getCommentsInOrder()
+            .map(comment => `<w16cid:commentId w16cid:paraId="${this.getCommentParaId(comment)}" w16cid:durableId="${this.getCommentDurableId(comment)}"/>`)
+            .join('\n');
+
+        return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w16cid:commentsIds xmlns:w16cid="http://schemas.microsoft.com/office/word/2016/wordml/cid">
+${entries}
+</w16cid:commentsIds>`;
+    }
+
+    /**
+     * Compute the next free footnote/endnote IDs from the document content and the original note parts,
+     * so notes created in the editor never collide with existing ones (including separators).
+     */
+    private async initNoteIds(zip: JSZip, content: JSONContent[]): Promise<void> {
+        const maxIds: Record<NoteType, number> = { footnote: 0, endnote: 0 };
+
+        const walk = (nodes: JSONContent[]) => {
+            for (const node of nodes) {
+                if (node.type === 'footnote') {
+                    const noteType: NoteType = node.attrs?.noteType === 'endnote' ? 'endnote' : 'footnote';
+                    const id = parseInt(String(node.attrs?.noteId ?? ''));
+                    if (!isNaN(id) && id > maxIds[noteType]) maxIds[noteType] = id;
+                }
+                if (node.content) walk(node.content);
+            }
+        };
+        walk(content);
+
+        for (const noteType of ['footnote', 'endnote'] as NoteType[]) {
+            const xml = await zip.file(NOTE_PARTS[noteType].path)?.async('string');
+            for (const match of xml?.matchAll(new RegExp(`<w:${noteType}\\b[^>]*\\bw:id="(-?\\d+)"`, 'g')) || []) {
+                const id = parseInt(match[1]);
+                if (id > maxIds[noteType]) maxIds[noteType] = id;
+            }
+            this.nextNoteId[noteType] = maxIds[noteType] + 1;
+        }
+    }
+
+    /**
+     * Serialize a footnote/endnote reference run and queue the note body for the notes part
+     */
+    private serializeNoteReference(node: JSONContent): string {
+        const attrs = (node.attrs || {}) as Record<string, unknown>;
+        const noteType: NoteType = attrs.noteType === 'endnote' ? 'endnote' : 'footnote';
+
+        // Reuse the original id unless it was already emitted (e.g. a copied reference)
+        let id = attrs.noteId !== null && attrs.noteId !== undefined ? String(attrs.noteId) : '';
+        if (!id || this.notes[noteType].some(n => n.id === id)) {
+            id = String(this.nextNoteId[noteType]++);
+        }
+
+        const blocks = Array.isArray(attrs.content) && attrs.content.length > 0
+            ? (attrs.content as JSONContent[])
+            : [{ type: 'paragraph' }];
+        // Images inside notes are related from the notes part
+        const parentPart = this.activePart;
+        this.activePart = NOTE_PARTS[noteType].target;
+        const body = blocks.map(block => this.serializeNode(block)).join('');
+        this.activePart = parentPart;
+
+        // The note's first paragraph starts with the note mark (w:footnoteRef / w:endnoteRef)
+        const refRun = `<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:${noteType}Ref/></w:r>`;
+        const firstParagraph = body.match(/<w:p(?:\s[^>]*)?>(?:<w:pPr>[\s\S]*?<\/w:pPr>)?/);
+        const xml = firstParagraph && firstParagraph.index !== undefined
+            ? body.slice(0, firstParagraph.index + firstParagraph[0].length) + refRun + body.slice(firstParagraph.index + firstParagraph[0].length)
+            : `<w:p>${refRun}</w:p>${body}`;
+
+        this.notes[noteType].push({ id, xml });
+
+        const rPr = attrs.styleId
+            ? `<w:rPr><w:rStyle w:val="${this.escapeXml(String(attrs.styleId))}"/></w:rPr>`
+            : '<w:rPr><w:vertAlign w:val="superscript"/></w:rPr>';
+        return `<w:r>${rPr}<w:${noteType}Reference w:id="${id}"/></w:r>`;
+    }
+
+    /**
+     * Serialize word/footnotes.xml or word/endnotes.xml.
+     * Separator notes and the root element (namespaces) are kept from the original part when available.
+     */
+    private serializeNotes(noteType: NoteType, originalXml?: string): string {
+        const { root } = NOTE_PARTS[noteType];
+        const separatorPattern = new RegExp(`<w:${noteType}\\b[^>]*\\bw:type="(?:separator|continuationSeparator|continuationNotice)"[^>]*>[\\s\\S]*?<\/w:${noteType}>`, 'g');
+
+        const originalRoot = originalXml?.match(new RegExp(`<${root}\\b[^>]*>`))?.[0];
+        const rootOpen = originalRoot ? this.ensureNamespaces(originalRoot) : `<${root} ${PART_NAMESPACES}>`;
+
+        let separators = originalXml?.match(separatorPattern)?.join('\n') || '';
+        if (!originalXml) {
+            // Word expects separator (-1) and continuation separator (0) notes
+            separators = `<w:${noteType} w:type="separator" w:id="-1"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:separator/></w:r></w:p></w:${noteType}>
+<w:${noteType} w:type="continuationSeparator" w:id="0"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:continuationSeparator/></w:r></w:p></w:${noteType}>`;
+        }
+
+        const notesXml = this.notes[noteType]
+            .map(note => `<w:${noteType} w:id="${note.id}">${note.xml}</w:${noteType}>`)
+            .join('\n');
+
+        return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+${rootOpen}
+${separators}
+${notesXml}
+</${root}>`;
+    }
+
+    /**
+     * Add namespace declarations our markup needs (drawings, relationships) to an original root tag
+     */
+    private ensureNamespaces(rootTag: string): string {
+        const missing = Object.entries(REQUIRED_NAMESPACES)
+            .filter(([prefix]) => !rootTag.includes(`xmlns:${prefix}=`))
+            .map(([prefix, uri]) => ` xmlns:${prefix}="${uri}"`)
+            .join('');
+        return missing ? rootTag.replace(/\s*(\/?)>$/, `${missing}$1>`) : rootTag;
+    }
+
+    /**
+     * Read all original relationship files under word/_rels/ (keyed by part name)
+     */
+    private async loadOriginalRels(zip: JSZip): Promise<void> {
+        this.originalRelsXml.clear();
+        if (!this.originalZip) return;
+
+        for (const path of Object.keys(zip.files)) {
+            const match = path.match(/^word\/_rels\/(.+)\.rels$/);
+            if (!match) continue;
+            const xml = await zip.file(path)?.async('string');
+            if (xml) this.originalRelsXml.set(match[1], xml);
+        }
+    }
+
+    /**
+     * Get (or create) the relationship context of a part
+     */
+    private getRelsContext(part: string): RelsContext {
+        let context = this.relsContexts.get(part);
+        if (context) return context;
+
+        const existing = new Map<string, string>();
+        // Without an original package the base document relationships (styles, numbering, ...) use low ids
+        let maxId = part === 'document.xml' && !this.originalZip ? 10 : 0;
+        for (const match of this.originalRelsXml.get(part)?.match(/<Relationship\b[^>]*>/g) || []) {
+            const id = match.match(/\bId="([^"]+)"/)?.[1];
+            if (!id) continue;
+            existing.set(id, match.match(/\bTarget="([^"]+)"/)?.[1] || '');
+            if (id.startsWith('rId')) {
+                const num = parseInt(id.substring(3));
+                if (!isNaN(num) && num > maxId) maxId = num;
+            }
+        }
+
+        context = { existing, added: [], nextId: maxId + 1 };
+        this.relsContexts.set(part, context);
+        return context;
+    }
+
+    /**
+     * Allocate a new relationship on a part and return its rId
+     */
+    private addRelationship(part: string, type: string, target: string, targetMode?: 'External'): string {
+        const context = this.getRelsContext(part);
+        const id = `rId${context.nextId++}`;
+        context.added.push({ Id: id, Type: `${RELATIONSHIP_TYPE_BASE}/${type}`, Target: target, ...(targetMode ? { TargetMode: targetMode } : {}) });
+        return id;
+    }
+
+    /**
+     * Serialize a relationship entry allocated during export
+     */
+    private serializeRelationship(rel: RelsContext['added'][number]): string {
+        const targetMode = rel.TargetMode ? ` TargetMode="${rel.TargetMode}"` : '';
+        return `<Relationship Id="${rel.Id}" Type="${rel.Type}" Target="${this.escapeXml(rel.Target)}"${targetMode}/>`;
+    }
+
+    /**
+     * Write relationships added to parts other than document.xml (merged into the original .rels if present)
+     */
+    private writePartRels(zip: JSZip): void {
+        for (const [part, context] of this.relsContexts) {
+            if (part === 'document.xml' || context.added.length === 0) continue;
+
+            const entries = context.added.map(rel => this.serializeRelationship(rel)).join('');
+            const originalXml = this.originalRelsXml.get(part);
+            const xml = originalXml && originalXml.includes('</Relationships>')
+                ? originalXml.replace('</Relationships>', `${entries}</Relationships>`)
+                : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries}</Relationships>`;
+            zip.file(`word/_rels/${part}.rels`, xml);
+        }
+    }
+
+    /**
+     * Walk document, header/footer and note content for image nodes:
+     * fetch URL images and reserve drawing ids already used by original drawings.
+     */
+    private async prepareImages(content: JSONContent): Promise<void> {
+        const images: JSONContent[] = [];
+        const walk = (nodes: JSONContent[] | undefined) => {
+            for (const node of nodes || []) {
+                if (node.type === 'image') images.push(node);
+                if (node.type === 'footnote' && Array.isArray(node.attrs?.content)) walk(node.attrs.content);
+                walk(node.content);
+            }
+        };
+        walk(content.content);
+        const docAttrs = content.attrs as DocAttrs | undefined;
+        for (const group of [docAttrs?.headers, docAttrs?.footers]) {
+            Object.values(group || {}).forEach(part => walk(part?.content));
+        }
+
+        let maxDrawingId = 0;
+        for (const image of images) {
+            const docPrId = parseInt(String(this.findRawAttribute(image.attrs?.drawing, 'wp:docPr', 'id') ?? ''));
+            if (!isNaN(docPrId) && docPrId > maxDrawingId) maxDrawingId = docPrId;
+
+            const src = String(image.attrs?.src || '');
+            if (!src || src.startsWith('data:') || this.fetchedImages.has(src)) continue;
+            try {
+                const response = await fetch(src);
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                const mime = response.headers.get('content-type')?.split(';')[0].trim() || '';
+                const ext = this.getImageExtension(mime) || src.split('?')[0].split('.').pop()?.toLowerCase() || 'png';
+                this.fetchedImages.set(src, { data: new Uint8Array(await response.arrayBuffer()), ext });
+            } catch (e) {
+                console.warn('[DocxWriter] Failed to fetch image, it will be skipped:', src, e);
+            }
+        }
+        this.nextDrawingId = maxDrawingId + 1;
+    }
+
+    private getImageExtension(mime: string): string | null {
+        if (mime === 'image/jpeg') return 'jpeg';
+        const entry = Object.entries(IMAGE_CONTENT_TYPES).find(([, type]) => type === mime);
+        return entry ? entry[0] : (mime.startsWith('image/') ? mime.substring(6) : null);
+    }
+
+    /**
+     * Find an attribute of the first element with the given key in a raw (preserveOrder) tree
+     */
+    private findRawAttribute(nodes: unknown, key: string, attr: string): string | undefined {
+        if (!Array.isArray(nodes)) return undefined;
+        for (const node of nodes as Record<string, unknown>[]) {
+            if (node[key] !== undefined) {
+                return (node[':@'] as Record<string, string> | undefined)?.[attr];
+            }
+            const childKey = Object.keys(node).find(k => k !== ':@' && k !== '#text');
+            const found = childKey ? this.findRawAttribute(node[childKey], key, attr) : undefined;
+            if (found !== undefined) return found;
+        }
+        return undefined;
+    }
+
+    /**
+     * Resolve the image relationship on the active part, queuing a new media file when needed.
+     * Returns null when the image data is unavailable.
+     */
+    private registerImage(attrs: Record<string, unknown>): { rId: string; data?: Uint8Array | string } | null {
+        const src = String(attrs.src || '');
+        const context = this.getRelsContext(this.activePart);
+
+        // Unchanged original media keeps its relationship
+        if (attrs.rId && attrs.target && context.existing.get(String(attrs.rId)) === attrs.target) {
+            return { rId: String(attrs.rId) };
+        }
+
+        let partCache = this.imageRelsBySrc.get(this.activePart);
+        if (!partCache) {
+            partCache = new Map();
+            this.imageRelsBySrc.set(this.activePart, partCache);
+        }
+        const cached = partCache.get(src);
+        if (cached) return { rId: cached };
+
+        let ext: string;
+        let data: string | Uint8Array;
+        let base64 = false;
+        const dataUrl = src.match(/^data:([^;,]+)(;base64)?,([\s\S]*)$/);
+        if (dataUrl) {
+            ext = this.getImageExtension(dataUrl[1]) || 'png';
+            base64 = !!dataUrl[2];
+            data = base64 ? dataUrl[3] : decodeURIComponent(dataUrl[3]);
+        } else {
+            const fetched = this.fetchedImages.get(src);
+            if (!fetched) return null;
+            ext = fetched.ext;
+            data = fetched.data;
+        }
+
+        let n = 1;
+        while (this.usedMediaNames.has(`image${n}.${ext}`)) n++;
+        const name = `image${n}.${ext}`;
+        this.usedMediaNames.add(name);
+        this.mediaFiles.push({ path: `word/media/${name}`, data, base64 });
+
+        const rId = this.addRelationship(this.activePart, 'image', `media/${name}`);
+        partCache.set(src, rId);
+        return { rId, data: base64 ? this.decodeBase64(data as string) : data };
+    }
+
+    /**
+     * Resolve the w:hyperlink attributes for a link mark on the active part.
+     * "#name" links point at a bookmark; other URLs use an external relationship
+     * (the original one when the URL is unchanged).
+     */
+    private registerHyperlink(attrs: Record<string, unknown>): string {
+        const href = String(attrs.href || '');
+        const tooltip = attrs.title ? ` w:tooltip="${this.escapeXml(String(attrs.title))}"` : '';
+
+        if (href.startsWith('#')) {
+            return ` w:anchor="${this.escapeXml(href.substring(1))}"${tooltip} w:history="1"`;
+        }
+
+        const context = this.getRelsContext(this.activePart);
+        const originalTarget = attrs.rId ? context.existing.get(String(attrs.rId)) : undefined;
+        if (originalTarget !== undefined) {
+            if (originalTarget === href) {
+                return ` r:id="${attrs.rId}"${tooltip} w:history="1"`;
+            }
+            // Reader joins the relationship target and w:anchor as "target#anchor"
+            const hashIndex = href.indexOf('#');
+            if (hashIndex > 0 && originalTarget === href.substring(0, hashIndex)) {
+                return ` r:id="${attrs.rId}" w:anchor="${this.escapeXml(href.substring(hashIndex + 1))}"${tooltip} w:history="1"`;
+            }
+        }
+
+        let partCache = this.hyperlinkRelsByUrl.get(this.activePart);
+        if (!partCache) {
+            partCache = new Map();
+            this.hyperlinkRelsByUrl.set(this.activePart, partCache);
+        }
+        let rId = partCache.get(href);
+        if (!rId) {
+            rId = this.addRelationship(this.activePart, 'hyperlink', href, 'External');
+            partCache.set(href, rId);
+        }
+        return ` r:id="${rId}"${tooltip} w:history="1"`;
+    }
+
+    private decodeBase64(data: string): Uint8Array {
+        const binary = atob(data);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        return bytes;
+    }
+
+    /**
+     * Read pixel dimensions from PNG / GIF / JPEG headers (used when a new image has no explicit size)
+     */
+    private getImageDimensions(data: Uint8Array | string | undefined): { width: number; height: number } | null {
+        if (!data || typeof data === 'string') return null;
+        const b = data;
+        // PNG: IHDR width/height (big-endian) at offset 16
+        if (b.length > 24 && b[0] === 0x89 && b[1] === 0x50) {
+            return { width: (b[16] << 24 | b[17] << 16 | b[18] << 8 | b[19]) >>> 0, height: (b[20] << 24 | b[21] << 16 | b[22] << 8 | b[23]) >>> 0 };
+        }
+        // GIF: logical screen size (little-endian) at offset 6
+        if (b.length > 10 && b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46) {
+            return { width: b[6] | b[7] << 8, height: b[8] | b[9] << 8 };
+        }
+        // JPEG: scan for a SOFn marker
+        if (b.length > 4 && b[0] === 0xff && b[1] === 0xd8) {
+            let i = 2;
+            while (i + 9 < b.length) {
+                if (b[i] !== 0xff) { i++; continue; }
+                const marker = b[i + 1];
+                const length = b[i + 2] << 8 | b[i + 3];
+                if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                    return { width: b[i + 7] << 8 | b[i + 8], height: b[i + 5] << 8 | b[i + 6] };
+                }
+                i += 2 + length;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Serialize an image node as w:drawing.
+     * Images read from DOCX re-emit their original drawing markup with updated extent and blip;
+     * new images get a plain inline picture.
+     */
+    private serializeImage(node: JSONContent): string {
+        const attrs = (node.attrs || {}) as Record<string, unknown>;
+        const registered = this.registerImage(attrs);
+        if (!registered) return '';
+
+        let width = Number(attrs.width) || 0;
+        let height = Number(attrs.height) || 0;
+        if (!width || !height) {
+            const natural = this.getImageDimensions(registered.data);
+            const ratio = natural && natural.width > 0 ? natural.height / natural.width : 0.75;
+            if (!width) width = natural?.width || (height ? Math.round(height / ratio) : 300);
+            if (!height) height = Math.round(width * ratio);
+        }
+        const cx = Math.round(width * EMU_PER_PIXEL);
+        const cy = Math.round(height * EMU_PER_PIXEL);
+
+        if (Array.isArray(attrs.drawing)) {
+            return `<w:r><w:drawing>${this.serializeRawDrawing(attrs.drawing, registered.rId, cx, cy)}</w:drawing></w:r>`;
+        }
+
+        const id = this.nextDrawingId++;
+        const name = `Picture ${id}`;
+        const descr = attrs.alt ? ` descr="${this.escapeXml(String(attrs.alt))}"` : '';
+        return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">`
+            + `<wp:extent cx="${cx}" cy="${cy}"/><wp:effectExtent l="0" t="0" r="0" b="0"/>`
+            + `<wp:docPr id="${id}" name="${name}"${descr}/>`
+            + `<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>`
+            + `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+            + `<pic:pic><pic:nvPicPr><pic:cNvPr id="0" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`
+            + `<pic:blipFill><a:blip r:embed="${registered.rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+            + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+            + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+    }
+
+    /**
+     * Rebuild original w:drawing children with the current size and image relationship
+     */
+    private serializeRawDrawing(drawing: unknown[], rId: string, cx: number, cy: number): string {
+        const clone = JSON.parse(JSON.stringify(drawing)) as Record<string, unknown>[];
+
+        const update = (nodes: Record<string, unknown>[], parentKey: string) => {
+            for (const node of nodes) {
+                const key = Object.keys(node).find(k => k !== ':@');
+                if (!key) continue;
+                const attrs = node[':@'] as Record<string, string> | undefined;
+                if (key === 'wp:extent' && attrs) {
+                    attrs['cx'] = String(cx);
+                    attrs['cy'] = String(cy);
+                } else if (key === 'a:ext' && parentKey === 'a:xfrm' && attrs) {
+                    attrs['cx'] = String(cx);
+                    attrs['cy'] = String(cy);
+                } else if (key === 'a:blip' && attrs) {
+                    attrs['r:embed'] = rId;
+                }
+                if (Array.isArray(node[key])) update(node[key] as Record<string, unknown>[], key);
+            }
+        };
+        update(clone, 'w:drawing');
+
+        const builder = new XMLBuilder({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            preserveOrder: true,
+            suppressEmptyNode: true,
+        });
+        return builder.build(clone);
+    }
+
     /**
      * Map internal comment IDs to numeric DOCX ids (Word requires w:id to be an integer).
      * If the source id is already numeric, it is used directly.
@@ -788,6 +2116,10 @@ ${commentsXml}
         return next;
     }
 
+    private getMediaExtensions(): string[] {
+        return [...new Set(this.mediaFiles.map(media => media.path.split('.').pop()!.toLowerCase()))];
+    }
+
     /**
      * Get [Content_Types].xml
      */
@@ -796,10 +2128,14 @@ ${commentsXml}
 <Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
 <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
 <Default Extension="xml" ContentType="application/xml"/>
+${this.getMediaExtensions().map(ext => `<Default Extension="${ext}" ContentType="${IMAGE_CONTENT_TYPES[ext] || `image/${ext}`}"/>`).join('\n')}
 <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
 <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
 <Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
 ${this.comments.length > 0 ? '<Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/>' : ''}
+${this.writeCommentThreads ? COMMENT_THREAD_PARTS.map(part => `<Override PartName="/${part.path}" ContentType="${part.contentType}"/>`).join('\n') : ''}
+${this.noteParts.map(t => `<Override PartName="/${NOTE_PARTS[t].path}" ContentType="${NOTE_PARTS[t].contentType}"/>`).join('\n')}
+${this.headerFooterParts.map(p => `<Override PartName="/word/${p.target}" ContentType="${HEADER_FOOTER_CONTENT_TYPES[p.kind]}"/>`).join('\n')}
 </Types>`;
     }
 
@@ -830,6 +2166,21 @@ ${this.comments.length > 0 ? '<Override PartName="/word/comments.xml" ContentTyp
         if (this.comments.length > 0) {
             relationships += `<Relationship Id="rId${rId++}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments" Target="comments.xml"/>`;
         }
+        if (this.writeCommentThreads) {
+            for (const part of COMMENT_THREAD_PARTS) {
+                relationships += `<Relationship Id="rId${rId++}" Type="${part.relType}" Target="${part.target}"/>`;
+            }
+        }
+
+        // Footnotes/endnotes relationships
+        for (const noteType of this.noteParts) {
+            relationships += `<Relationship Id="rId${rId++}" Type="${RELATIONSHIP_TYPE_BASE}/${NOTE_PARTS[noteType].relType}" Target="${NOTE_PARTS[noteType].target}"/>`;
+        }
+
+        // Header/footer, image and hyperlink relationships (IDs pre-assigned during serialization)
+        for (const rel of this.getRelsContext('document.xml').added) {
+            relationships += this.serializeRelationship(rel);
+        }
 
         return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
@@ -975,9 +2326,142 @@ ${relationships}
 <w:szCs w:val="24"/>
 </w:rPr>
 </w:style>
+<w:style w:type="character" w:styleId="Hyperlink">
+<w:name w:val="Hyperlink"/>
+<w:uiPriority w:val="99"/>
+<w:unhideWhenUsed/>
+<w:rPr>
+<w:color w:val="0563C1" w:themeColor="hyperlink"/>
+<w:u w:val="single"/>
+</w:rPr>
+</w:style>
 </w:styles>`;
     }
 
+    /**
+     * Write styles edited in the editor (catalogue entries marked modified) into styles.xml.
+     * Other styles and the rest of the part are kept as they are; a style missing from the part is appended.
+     */
+    private applyStyleCatalogue(stylesXml: string, styles?: DocxStyle[]): string {
+        let result = stylesXml;
+        for (const style of (styles || []).filter(s => s.modified)) {
+            const styleId = style.styleId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const pattern = new RegExp(`<w:style\\b[^>]*\\bw:styleId="${styleId}"[^>]*>[\\s\\S]*?<\\/w:style>`);
+            const original = result.match(pattern)?.[0];
+            const xml = this.serializeStyle(style, original);
+            result = original
+                ? result.replace(original, () => xml)
+                : result.replace('</w:styles>', () => `${xml}</w:styles>`);
+        }
+        return result;
+    }
+
+    /**
+     * Serialize one w:style: the original definition with its formatting replaced by the style props
+     */
+    private serializeStyle(style: DocxStyle, originalXml?: string): string {
+        const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', preserveOrder: true });
+        const builder = new XMLBuilder({ ignoreAttributes: false, attributeNamePrefix: '', preserveOrder: true, suppressEmptyNode: true });
+
+        const parsed = originalXml ? parser.parse(originalXml) as Record<string, unknown>[] : [];
+        const element = parsed.find(el => 'w:style' in el) || {
+            'w:style': [
+                { 'w:name': [], ':@': { 'w:val': style.name } },
+                ...(style.basedOn ? [{ 'w:basedOn': [], ':@': { 'w:val': style.basedOn } }] : []),
+                ...(style.next ? [{ 'w:next': [], ':@': { 'w:val': style.next } }] : []),
+                { 'w:qFormat': [] },
+            ],
+            ':@': { 'w:type': style.type, 'w:styleId': style.styleId, 'w:customStyle': '1' },
+        };
+
+        let children = element['w:style'] as Record<string, unknown>[];
+        const pPr = this.applyStyleParagraphProps(this.childrenOf(children, 'w:pPr'), style.props);
+        const rPr = this.applyStyleRunProps(this.childrenOf(children, 'w:rPr'), style.props);
+        children = pPr.length > 0 ? this.putOrderedElement(children, 'w:pPr', {}, pPr, STYLE_ORDER) : this.removeElement(children, 'w:pPr');
+        children = rPr.length > 0 ? this.putOrderedElement(children, 'w:rPr', {}, rPr, STYLE_ORDER) : this.removeElement(children, 'w:rPr');
+
+        return builder.build([{ ...element, 'w:style': children }]);
+    }
+
+    private applyStyleParagraphProps(pPr: Record<string, unknown>[], props: DocxStyleProps): Record<string, unknown>[] {
+        let result = this.mergeElementAttributes(pPr, 'w:spacing', {
+            'w:before': props.spacingBefore,
+            'w:after': props.spacingAfter,
+            'w:line': props.lineHeight,
+            'w:lineRule': props.lineHeight ? props.lineRule || 'auto' : undefined,
+        }, P_PR_ORDER);
+        result = this.mergeElementAttributes(result, 'w:ind', {
+            'w:left': props.indent,
+            'w:start': undefined,
+            'w:firstLine': props.firstLine,
+            'w:hanging': props.firstLine ? undefined : props.hanging,
+        }, P_PR_ORDER);
+        return this.mergeElementAttributes(result, 'w:jc', { 'w:val': props.textAlign }, P_PR_ORDER);
+    }
+
+    private applyStyleRunProps(rPr: Record<string, unknown>[], props: DocxStyleProps): Record<string, unknown>[] {
+        // An explicit font or color replaces the theme references that would otherwise win in Word
+        let result = this.mergeElementAttributes(rPr, 'w:rFonts', props.fontFamily ? {
+            'w:ascii': props.fontFamily, 'w:hAnsi': props.fontFamily, 'w:eastAsia': props.fontFamily,
+            'w:asciiTheme': undefined, 'w:hAnsiTheme': undefined, 'w:eastAsiaTheme': undefined,
+        } : { 'w:ascii': undefined, 'w:hAnsi': undefined, 'w:eastAsia': undefined }, R_PR_ORDER);
+
+        const toggles: [string[], boolean | undefined][] = [
+            [['w:b', 'w:bCs'], props.bold],
+            [['w:i', 'w:iCs'], props.italic],
+            [['w:strike'], props.strike],
+        ];
+        for (const [keys, value] of toggles) {
+            for (const key of keys) {
+                result = value === undefined
+                    ? this.removeElement(result, key)
+                    : this.putOrderedElement(result, key, value ? {} : { 'w:val': '0' }, [], R_PR_ORDER);
+            }
+        }
+
+        result = props.color
+            ? this.putOrderedElement(result, 'w:color', { 'w:val': props.color.replace('#', '').toUpperCase() }, [], R_PR_ORDER)
+            : this.removeElement(result, 'w:color');
+
+        const halfPoints = props.fontSize ? String(Math.round(parseFloat(props.fontSize) * 2)) : null;
+        for (const key of ['w:sz', 'w:szCs']) {
+            result = halfPoints ? this.putOrderedElement(result, key, { 'w:val': halfPoints }, [], R_PR_ORDER) : this.removeElement(result, key);
+        }
+
+        return props.underline === undefined
+            ? this.removeElement(result, 'w:u')
+            : this.putOrderedElement(result, 'w:u', { 'w:val': props.underline ? 'single' : 'none' }, [], R_PR_ORDER);
+    }
+
+    /**
+     * Set / remove (undefined) attributes of one child element, keeping its other attributes.
+     * The element is removed when no attributes are left.
+     */
+    private mergeElementAttributes(
+        elements: Record<string, unknown>[],
+        key: string,
+        updates: Record<string, string | undefined>,
+        order: string[],
+    ): Record<string, unknown>[] {
+        const existing = elements.find(el => key in el);
+        const attributes = { ...((existing?.[':@'] as Record<string, string>) || {}) };
+        for (const [name, value] of Object.entries(updates)) {
+            if (value === undefined) delete attributes[name];
+            else attributes[name] = value;
+        }
+        if (Object.keys(attributes).length === 0) return this.removeElement(elements, key);
+        return this.putOrderedElement(elements, key, attributes, null, order);
+    }
+
+    private childrenOf(elements: Record<string, unknown>[], key: string): Record<string, unknown>[] {
+        const children = elements.find(el => key in el)?.[key];
+        return Array.isArray(children) ? children : [];
+    }
+
+    private removeElement(elements: Record<string, unknown>[], key: string): Record<string, unknown>[] {
+        return elements.filter(el => !(key in el));
+    }
+
     /**
      * Update [Content_Types].xml logic
      */
@@ -1010,6 +2494,19 @@ ${relationships}
         const existingParts = new Set<string>(overrides.map((o: { PartName: string }) => o.PartName));
         let modified = false;
 
+        // Media extensions need a Default content type
+        let defaults = contentTypes.Types.Default || [];
+        if (!Array.isArray(defaults)) {
+            defaults = [defaults];
+        }
+        const existingExtensions = new Set<string>(defaults.map((d: { Extension: string }) => String(d.Extension).toLowerCase()));
+        for (const ext of this.getMediaExtensions()) {
+            if (existingExtensions.has(ext)) continue;
+            defaults.push({ Extension: ext, ContentType: IMAGE_CONTENT_TYPES[ext] || `image/${ext}` });
+            contentTypes.Types.Default = defaults;
+            modified = true;
+        }
+
         // Check for numbering.xml
         if (zip.file('word/numbering.xml') && !existingParts.has('/word/numbering.xml')) {
             overrides.push({
@@ -1028,6 +2525,37 @@ ${relationships}
             modified = true;
         }
 
+        // Check for comment thread parts
+        for (const part of this.writeCommentThreads ? COMMENT_THREAD_PARTS : []) {
+            if (existingParts.has(`/${part.path}`)) continue;
+            overrides.push({ PartName: `/${part.path}`, ContentType: part.contentType });
+            modified = true;
+        }
+
+        // Check for footnotes/endnotes
+        for (const noteType of this.noteParts) {
+            const partName = `/${NOTE_PARTS[noteType].path}`;
+            if (!existingParts.has(partName)) {
+                overrides.push({
+                    PartName: partName,
+                    ContentType: NOTE_PARTS[noteType].contentType
+                });
+                modified = true;
+            }
+        }
+
+        // Check for newly created header/footer parts
+        for (const part of this.headerFooterParts) {
+            const partName = `/word/${part.target}`;
+            if (!existingParts.has(partName)) {
+                overrides.push({
+                    PartName: partName,
+                    ContentType: HEADER_FOOTER_CONTENT_TYPES[part.kind]
+                });
+                modified = true;
+            }
+        }
+
         if (modified) {
             contentTypes.Types.Override = overrides;
             const builder = new XMLBuilder({
@@ -1040,6 +2568,41 @@ ${relationships}
         }
     }
 
+    /**
+     * Sync w:evenAndOddHeaders in word/settings.xml with docAttrs.evenAndOddHeaders.
+     * Only touches an existing settings part; new documents fall back to odd (default) headers.
+     */
+    private async updateSettingsXml(zip: JSZip, docAttrs?: DocAttrs): Promise<void> {
+        if (!docAttrs?.headers && !docAttrs?.footers) return;
+
+        const settingsXml = await zip.file('word/settings.xml')?.async('string');
+        if (!settingsXml) return;
+
+        const existingPattern = /<w:evenAndOddHeaders\b[^>]*\/>/;
+        const hasFlag = existingPattern.test(settingsXml);
+        let updated = settingsXml;
+
+        if (docAttrs.evenAndOddHeaders && !hasFlag) {
+            // Insert before the first element that must follow it in CT_Settings, else before the closing tag
+            const followers = ['w:bookFoldRevPrinting', 'w:bookFoldPrinting', 'w:bookFoldPrintingSheets', 'w:drawingGridHorizontalSpacing', 'w:drawingGridVerticalSpacing', 'w:displayHorizontalDrawingGridEvery', 'w:displayVerticalDrawingGridEvery', 'w:doNotUseMarginsForDrawingGridOrigin', 'w:drawingGridHorizontalOrigin', 'w:drawingGridVerticalOrigin', 'w:doNotShadeFormData', 'w:noPunctuationKerning', 'w:characterSpacingControl', 'w:compat', 'w:rsids', 'm:mathPr', 'w:themeFontLang', 'w:clrSchemeMapping', 'w:shapeDefaults', 'w:decimalSymbol', 'w:listSeparator'];
+            const insertAt = followers
+                .map(tag => settingsXml.search(new RegExp(`<${tag}[\\s/>]`)))
+                .filter(idx => idx !== -1)
+                .sort((a, b) => a - b)[0];
+            if (insertAt !== undefined) {
+                updated = settingsXml.slice(0, insertAt) + '<w:evenAndOddHeaders/>' + settingsXml.slice(insertAt);
+            } else {
+                updated = settingsXml.replace('</w:settings>', '<w:evenAndOddHeaders/></w:settings>');
+            }
+        } else if (!docAttrs.evenAndOddHeaders && hasFlag) {
+            updated = settingsXml.replace(existingPattern, '');
+        }
+
+        if (updated !== settingsXml) {
+            zip.file('word/settings.xml', updated);
+        }
+    }
+
     /**
      * Update word/_rels/document.xml.rels logic
      */
@@ -1079,6 +2642,10 @@ ${relationships}
             }
         });
 
+        // Header/footer and image relationships already reserved IDs above the original maximum
+        const documentRels = this.getRelsContext('document.xml');
+        maxId = Math.max(maxId, documentRels.nextId - 1);
+
         let modified = false;
 
         // Add numbering relationship if needed
@@ -1103,6 +2670,32 @@ ${relationships}
             modified = true;
         }
 
+        // Add comment thread part relationships if needed
+        for (const part of this.writeCommentThreads ? COMMENT_THREAD_PARTS : []) {
+            if (existingTargets.has(part.target)) continue;
+            maxId++;
+            relationships.push({ Id: `rId${maxId}`, Type: part.relType, Target: part.target });
+            modified = true;
+        }
+
+        // Add footnotes/endnotes relationships if needed
+        for (const noteType of this.noteParts) {
+            if (existingTargets.has(NOTE_PARTS[noteType].target)) continue;
+            maxId++;
+            relationships.push({
+                Id: `rId${maxId}`,
+                Type: `${RELATIONSHIP_TYPE_BASE}/${NOTE_PARTS[noteType].relType}`,
+                Target: NOTE_PARTS[noteType].target
+            });
+            modified = true;
+        }
+
+        // Add relationships allocated during serialization (new header/footer parts, images, hyperlinks)
+        for (const rel of documentRels.added) {
+            relationships.push({ ...rel });
+            modified = true;
+        }
+
         if (modified) {
             rels.Relationships.Relationship = relationships;
             const builder = new XMLBuilder({
@@ -0,0 +1,109 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { DocxWriter } from './DocxWriter';
+import { compareDocuments, compareDocxFiles, diffSequences } from './compare';
+
+const OPTIONS = { author: 'Compare', date: '2024-05-01T00:00:00Z' };
+const REVISION = { author: 'Compare', date: '2024-05-01T00:00:00Z' };
+
+const doc = (...content: any[]) => ({ type: 'doc', content });
+const paragraph = (text: string) => ({ type: 'paragraph', content: [{ type: 'text', text }] });
+const row = (...cells: string[]) => ({
+    type: 'tableRow',
+    content: cells.map(text => ({ type: 'tableCell', content: [paragraph(text)] })),
+});
+
+describe('compare', () => {
+    it('should diff key sequences with deletions before insertions', () => {
+        expect(diffSequences(['a', 'b', 'c'], ['a', 'x', 'c', 'd'])).toEqual([
+            { type: 'equal', a: 0, b: 0 },
+            { type: 'delete', a: 1 },
+            { type: 'insert', b: 1 },
+            { type: 'equal', a: 2, b: 2 },
+            { type: 'insert', b: 3 },
+        ]);
+    });
+
+    it('should replace a middle too large for the LCS table wholesale', () => {
+        // 2,001 × 2,001 unmatched keys exceed the table cap; the common key in between is not matched
+        const a = ['start', ...Array.from({ length: 2001 }, (_, i) => (i === 1000 ? 'common' : `a${i}`)), 'end'];
+        const b = ['start', ...Array.from({ length: 2001 }, (_, i) => (i === 1000 ? 'common' : `b${i}`)), 'end'];
+        const ops = diffSequences(a, b);
+
+        expect(ops.filter(op => op.type === 'equal')).toEqual([{ type: 'equal', a: 0, b: 0 }, { type: 'equal', a: 2002, b: 2002 }]);
+        expect(ops.filter(op => op.type === 'delete')).toHaveLength(2001);
+        expect(ops.filter(op => op.type === 'insert')).toHaveLength(2001);
+    });
+
+    it('should mark changed words inside a paragraph and keep the revised formatting', () => {
+        const original = doc(paragraph('The quick brown fox'));
+        const revised = doc({
+            type: 'paragraph',
+            content: [
+                { type: 'text', text: 'The slow ', marks: [{ type: 'bold' }] },
+                { type: 'text', text: 'brown fox jumps' },
+            ],
+        });
+
+        const { document, summary } = compareDocuments(original, revised, OPTIONS);
+
+        expect(document.content![0].content).toEqual([
+            { type: 'text', text: 'The ', marks: [{ type: 'bold' }] },
+            { type: 'text', text: 'quick', marks: [{ type: 'deletion', attrs: REVISION }] },
+            { type: 'text', text: 'slow', marks: [{ type: 'bold' }, { type: 'insertion', attrs: REVISION }] },
+            { type: 'text', text: ' ', marks: [{ type: 'bold' }] },
+            { type: 'text', text: 'brown fox' },
+            { type: 'text', text: ' jumps', marks: [{ type: 'insertion', attrs: REVISION }] },
+        ]);
+        expect(summary).toMatchObject({ insertions: 2, deletions: 1 });
+    });
+
+    it('should diff Japanese text character by character and keep unrelated paragraphs whole', () => {
+        const original = doc(paragraph('第1条 目的'), paragraph('甲は乙に支払う。'), paragraph('削除される条項'));
+        const revised = doc(paragraph('第1条 目的'), paragraph('甲は乙に速やかに支払う。'), paragraph('New clause'));
+
+        const { document } = compareDocuments(original, revised, OPTIONS);
+
+        expect(document.content![0]).toEqual(paragraph('第1条 目的'));
+        expect(document.content![1].content).toEqual([
+            { type: 'text', text: '甲は乙に' },
+            { type: 'text', text: '速やかに', marks: [{ type: 'insertion', attrs: REVISION }] },
+            { type: 'text', text: '支払う。' },
+        ]);
+        expect(document.content![2].content![0].marks).toEqual([{ type: 'deletion', attrs: REVISION }]);
+        expect(document.content![3].content![0]).toEqual({ type: 'text', text: 'New clause', marks: [{ type: 'insertion', attrs: REVISION }] });
+    });
+
+    it('should turn added and removed table rows into row revisions', () => {
+        const original = doc({ type: 'table', content: [row('Item', 'Price'), row('Apple', '100'), row('Pear', '80')] });
+        const revised = doc({ type: 'table', content: [row('Item', 'Price'), row('Apple', '120'), row('Plum', '90')] });
+
+        const { document, summary } = compareDocuments(original, revised, OPTIONS);
+        const rows = document.content![0].content!;
+
+        expect(rows).toHaveLength(4);
+        expect(rows[1].attrs).toBeUndefined();
+        expect(rows[1].content![1].content![0].content).toEqual([
+            { type: 'text', text: '100', marks: [{ type: 'deletion', attrs: REVISION }] },
+            { type: 'text', text: '120', marks: [{ type: 'insertion', attrs: REVISION }] },
+        ]);
+        expect(rows[2].attrs!.rowChange).toEqual({ type: 'deletion', ...REVISION });
+        expect(rows[3].attrs!.rowChange).toEqual({ type: 'insertion', ...REVISION });
+        expect(summary).toMatchObject({ insertedRows: 1, deletedRows: 1 });
+    });
+
+    it('should write the comparison as a DOCX with w:ins / w:del revisions', async () => {
+        const toBuffer = async (content: any) => (await new DocxWriter().export(content)).arrayBuffer();
+        const original = await toBuffer(doc(paragraph('Payment within 30 days.')));
+        const revised = await toBuffer(doc(paragraph('Payment within 60 days.')));
+
+        const { blob, summary } = await compareDocxFiles(original, revised, OPTIONS);
+        const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+        const documentXml = await zip.file('word/document.xml')!.async('string');
+
+        expect(summary).toMatchObject({ insertions: 1, deletions: 1 });
+        expect(documentXml).toContain('<w:del w:id="0" w:author="Compare" w:date="2024-05-01T00:00:00Z"><w:r><w:delText>30</w:delText></w:r></w:del>');
+        expect(documentXml).toContain('<w:ins w:id="0" w:author="Compare" w:date="2024-05-01T00:00:00Z"><w:r><w:t>60</w:t></w:r></w:ins>');
+    });
+});
@@ -0,0 +1,342 @@
+import JSZip from 'jszip';
+import { DocxReader } from './DocxReader';
+import { DocxWriter } from './DocxWriter';
+import { flattenStyleFormatting } from './styles';
+
+/**
+ * Document compare (redline)
+ *
+ * Diffs two documents as read by DocxReader and returns the revised document with the differences
+ * expressed as insertion / deletion marks, so the result can be reviewed like any tracked change:
+ * - Blocks are matched first (paragraphs by text, tables and lists by type); unmatched paragraphs
+ *   that are similar enough are paired and diffed word by word (character by character for CJK text)
+ * - Table rows are matched the same way; whole inserted / deleted rows become row revisions (rowChange)
+ * - Unpaired blocks are kept as fully inserted or fully deleted content
+ * Formatting of unchanged text comes from the revised document; formatting-only differences are not marked.
+ * Content kept from the original document carries its style formatting as direct formatting, since the
+ * result is written with the revised document's styles.xml.
+ */
+
+interface DocNode {
+    type: string;
+    attrs?: Record<string, unknown>;
+    content?: DocNode[];
+    text?: string;
+    marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+export interface CompareOptions {
+    author: string;
+    date?: string; // ISO date-time for every revision (defaults to now)
+}
+
+export interface CompareSummary {
+    insertions: number; // Inserted words (CJK characters count one each)
+    deletions: number;
+    insertedRows: number;
+    deletedRows: number;
+}
+
+type ChangeType = 'insertion' | 'deletion';
+
+export type DiffOp =
+    | { type: 'equal'; a: number; b: number }
+    | { type: 'delete'; a: number }
+    | { type: 'insert'; b: number };
+
+// Above this many LCS cells the unmatched middle of a sequence is treated as replaced wholesale
+// (4 bytes a cell: the table stays under 16 MB and the diff quick enough for the main thread)
+const MAX_LCS_CELLS = 4_000_000;
+
+// Unmatched paragraphs / rows at least this similar are diffed against each other
+const PAIR_SIMILARITY = 0.5;
+
+const TEXTBLOCK_TYPES = new Set(['paragraph', 'heading']);
+
+// Words of Latin script, runs of whitespace, and every other character (CJK, punctuation) on its own
+const TOKEN_PATTERN = /[A-Za-z0-9À-ɏ]+|\s+|[^\sA-Za-z0-9À-ɏ]/gu;
+
+const tokenize = (text: string): string[] => text.match(TOKEN_PATTERN) || [];
+
+const isWordToken = (token: string) => token.trim().length > 0;
+
+const textOf = (node: DocNode): string => {
+    if (node.type === 'text') return node.text || '';
+    return (node.content || []).map(textOf).join(node.type === 'tableRow' || node.type === 'table' ? '\t' : '');
+};
+
+/**
+ * Longest common subsequence of two key sequences as diff operations (deletions before insertions in each gap)
+ */
+export const diffSequences = (a: string[], b: string[]): DiffOp[] => {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const ops: DiffOp[] = [];
+    for (let i = 0; i < start; i++) ops.push({ type: 'equal', a: i, b: i });
+
+    const n = endA - start;
+    const m = endB - start;
+    const middle: DiffOp[] = [];
+    if (n > 0 && m > 0 && n * m <= MAX_LCS_CELLS) {
+        // lengths[i * (m + 1) + j]: LCS of a[start + i..] and b[start + j..]
+        const width = m + 1;
+        const lengths = new Uint32Array((n + 1) * width);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i * width + j] = a[start + i] === b[start + j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        const deleted: DiffOp[] = [];
+        const inserted: DiffOp[] = [];
+        const flush = () => {
+            middle.push(...deleted, ...inserted);
+            deleted.length = 0;
+            inserted.length = 0;
+        };
+        while (i < n || j < m) {
+            if (i < n && j < m && a[start + i] === b[start + j]) {
+                flush();
+                middle.push({ type: 'equal', a: start + i, b: start + j });
+                i++;
+                j++;
+            } else if (j >= m || (i < n && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+                deleted.push({ type: 'delete', a: start + i });
+                i++;
+            } else {
+                inserted.push({ type: 'insert', b: start + j });
+                j++;
+            }
+        }
+        flush();
+    } else {
+        for (let i = start; i < endA; i++) middle.push({ type: 'delete', a: i });
+        for (let j = start; j < endB; j++) middle.push({ type: 'insert', b: j });
+    }
+    ops.push(...middle);
+
+    for (let k = 0; k < a.length - endA; k++) ops.push({ type: 'equal', a: endA + k, b: endB + k });
+    return ops;
+};
+
+// Dice coefficient of the word bags of two texts (1 for two empty texts)
+const similarity = (a: string, b: string): number => {
+    const wordsA = tokenize(a).filter(isWordToken);
+    const wordsB = tokenize(b).filter(isWordToken);
+    if (wordsA.length === 0 && wordsB.length === 0) return 1;
+    const counts = new Map<string, number>();
+    wordsA.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+    let shared = 0;
+    for (const word of wordsB) {
+        const count = counts.get(word) || 0;
+        if (count > 0) {
+            shared++;
+            counts.set(word, count - 1);
+        }
+    }
+    return (2 * shared) / (wordsA.length + wordsB.length);
+};
+
+class DocumentComparer {
+    readonly summary: CompareSummary = { insertions: 0, deletions: 0, insertedRows: 0, deletedRows: 0 };
+    private readonly author: string;
+    private readonly date: string;
+
+    constructor(options: CompareOptions) {
+        this.author = options.author;
+        this.date = options.date || new Date().toISOString();
+    }
+
+    compareBlocks(original: DocNode[], revised: DocNode[]): DocNode[] {
+        const key = (node: DocNode) => `${TEXTBLOCK_TYPES.has(node.type) ? 'text' : node.type}:${textOf(node)}`;
+        const ops = diffSequences(original.map(key), revised.map(key));
+
+        const result: DocNode[] = [];
+        let deleted: DocNode[] = [];
+        let inserted: DocNode[] = [];
+        const flushGap = () => {
+            result.push(...this.compareGap(deleted, inserted));
+            deleted = [];
+            inserted = [];
+        };
+        for (const op of ops) {
+            if (op.type === 'equal') {
+                flushGap();
+                const before = original[op.a];
+                const after = revised[op.b];
+                // Same text: nested content (cells, list items) is still compared for structure changes
+                result.push(after.content && !TEXTBLOCK_TYPES.has(after.type) ? this.pair(before, after) : after);
+            } else if (op.type === 'delete') {
+                deleted.push(original[op.a]);
+            } else {
+                inserted.push(revised[op.b]);
+            }
+        }
+        flushGap();
+        return result;
+    }
+
+    /**
+     * Unmatched blocks between two matches: each deleted block is paired with the next similar inserted block,
+     * inserted blocks skipped on the way are kept as insertions. A single paragraph replaced by a single
+     * paragraph is always diffed in place.
+     */
+    private compareGap(deleted: DocNode[], inserted: DocNode[]): DocNode[] {
+        if (deleted.length === 1 && inserted.length === 1
+            && TEXTBLOCK_TYPES.has(deleted[0].type) && TEXTBLOCK_TYPES.has(inserted[0].type)) {
+            return [this.pair(deleted[0], inserted[0])];
+        }
+        const result: DocNode[] = [];
+        let next = 0;
+        for (const before of deleted) {
+            const match = inserted.findIndex((after, index) => index >= next && this.canPair(before, after));
+            if (match === -1) {
+                result.push(this.markAll(before, 'deletion'));
+                continue;
+            }
+            for (; next < match; next++) result.push(this.markAll(inserted[next], 'insertion'));
+            result.push(this.pair(before, inserted[match]));
+            next = match + 1;
+        }
+        for (; next < inserted.length; next++) result.push(this.markAll(inserted[next], 'insertion'));
+        return result;
+    }
+
+    private canPair(before: DocNode, after: DocNode): boolean {
+        if (TEXTBLOCK_TYPES.has(before.type) && TEXTBLOCK_TYPES.has(after.type)) {
+            return similarity(textOf(before), textOf(after)) >= PAIR_SIMILARITY;
+        }
+        if (before.type !== after.type) return false;
+        if (before.type === 'tableRow') return similarity(textOf(before), textOf(after)) >= PAIR_SIMILARITY;
+        return true;
+    }
+
+    private pair(before: DocNode, after: DocNode): DocNode {
+        if (TEXTBLOCK_TYPES.has(after.type)) {
+            return { ...after, content: this.compareInline(before.content || [], after.content || []) };
+        }
+        if (!after.content) return after;
+        // Rows with the same number of cells are compared cell by cell
+        if (after.type === 'tableRow' && before.content?.length === after.content.length) {
+            return { ...after, content: after.content.map((cell, i) => this.pair(before.content![i], cell)) };
+        }
+        return { ...after, content: this.compareBlocks(before.content || [], after.content) };
+    }
+
+    private compareInline(original: DocNode[], revised: DocNode[]): DocNode[] {
+        const tokensA = this.inlineTokens(original);
+        const tokensB = this.inlineTokens(revised);
+        const ops = diffSequences(tokensA.map(token => token.key), tokensB.map(token => token.key));
+
+        const nodes: DocNode[] = [];
+        for (const op of ops) {
+            if (op.type === 'equal') {
+                nodes.push(tokensB[op.b].node);
+            } else if (op.type === 'delete') {
+                const { node } = tokensA[op.a];
+                if (node.type === 'text' && isWordToken(node.text || '')) this.summary.deletions++;
+                nodes.push(this.markAll(node, 'deletion'));
+            } else {
+                const { node } = tokensB[op.b];
+                if (node.type === 'text' && isWordToken(node.text || '')) this.summary.insertions++;
+                nodes.push(this.markAll(node, 'insertion'));
+            }
+        }
+        return mergeTextNodes(nodes);
+    }
+
+    // Text split into word tokens keeping their marks; other inline nodes are single tokens
+    private inlineTokens(content: DocNode[]): { key: string; node: DocNode }[] {
+        return content.flatMap(node => {
+            if (node.type !== 'text') {
+                return [{ key: `${node.type}:${String(node.attrs?.src ?? '')}:${textOf(node)}`, node }];
+            }
+            return tokenize(node.text || '').map(token => ({ key: `text:${token}`, node: { ...node, text: token } }));
+        });
+    }
+
+    private markAll(node: DocNode, type: ChangeType): DocNode {
+        if (node.type === 'text') {
+            if (node.marks?.some(mark => mark.type === type)) return node;
+            return { ...node, marks: [...(node.marks || []), { type, attrs: { author: this.author, date: this.date } }] };
+        }
+        if (node.type === 'tableRow') {
+            if (type === 'insertion') this.summary.insertedRows++;
+            else this.summary.deletedRows++;
+        }
+        if (!node.content) return node;
+
+        // Whole paragraphs and rows count their words; rows also carry the revision themselves
+        const content = node.content.map(child => {
+            if (child.type === 'text') {
+                const words = tokenize(child.text || '').filter(isWordToken).length;
+                if (type === 'insertion') this.summary.insertions += words;
+                else this.summary.deletions += words;
+            }
+            return this.markAll(child, type);
+        });
+        if (node.type === 'tableRow') {
+            return { ...node, attrs: { ...node.attrs, rowChange: { type, author: this.author, date: this.date } }, content };
+        }
+        return { ...node, content };
+    }
+}
+
+// Join adjacent text nodes carrying the same marks
+const mergeTextNodes = (nodes: DocNode[]): DocNode[] => {
+    const merged: DocNode[] = [];
+    for (const node of nodes) {
+        const last = merged[merged.length - 1];
+        if (node.type === 'text' && last?.type === 'text' && JSON.stringify(last.marks || []) === JSON.stringify(node.marks || [])) {
+            merged[merged.length - 1] = { ...last, text: (last.text || '') + (node.text || '') };
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+};
+
+/**
+ * Compare two documents (DocxReader output) into the revised document with the differences as tracked changes
+ */
+export const compareDocuments = (
+    original: DocNode,
+    revised: DocNode,
+    options: CompareOptions
+): { document: DocNode; summary: CompareSummary } => {
+    const comparer = new DocumentComparer(options);
+    const content = comparer.compareBlocks(original.content || [], revised.content || []);
+    return { document: { ...revised, content }, summary: comparer.summary };
+};
+
+// File name of a comparison result, e.g. "契約書_v2 (比較 契約書_v1).docx"
+export const comparisonFileName = (originalName: string, revisedName: string): string => {
+    const base = (name: string) => name.replace(/\.docx?$/i, '');
+    return `${base(revisedName)} (比較 ${base(originalName)}).docx`;
+};
+
+/**
+ * Compare two DOCX files into a new DOCX; styles, numbering, headers and footers come from the revised file
+ */
+export const compareDocxFiles = async (
+    original: ArrayBuffer | Uint8Array,
+    revised: ArrayBuffer | Uint8Array,
+    options: CompareOptions
+): Promise<{ blob: Blob; summary: CompareSummary }> => {
+    const revisedZip = await JSZip.loadAsync(revised);
+    const originalDoc = flattenStyleFormatting(await new DocxReader().load(original));
+    const revisedDoc = await new DocxReader().loadFromZip(revisedZip);
+    const { document, summary } = compareDocuments(originalDoc as DocNode, revisedDoc as DocNode, options);
+    const blob = await new DocxWriter(revisedZip).export(document);
+    return { blob, summary };
+};
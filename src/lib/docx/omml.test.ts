@@ -0,0 +1,111 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import { XMLParser } from 'fast-xml-parser';
+import { latexToMathml, latexToOmml, mathToLatex, ommlToLatex, parseLatex, splitTopLevelRows } from './omml';
+
+const M_NS = 'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"';
+
+// Parse an OMML fragment the way DocxReader does and return the children of its root element
+const parseOmml = (xml: string): { key: string; children: any[] } => {
+    const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', preserveOrder: true, trimValues: false });
+    const root = parser.parse(xml)[0];
+    const key = Object.keys(root).find(k => k !== ':@')!;
+    return { key, children: root[key] };
+};
+
+const toLatex = (xml: string) => {
+    const { key, children } = parseOmml(xml);
+    return ommlToLatex(children, key === 'm:oMathPara');
+};
+
+describe('omml', () => {
+    describe('OMML to linear form', () => {
+        it('should convert fractions, scripts and radicals', () => {
+            expect(toLatex(`<m:oMath ${M_NS}>
+                <m:f><m:num><m:r><m:t>a</m:t></m:r></m:num><m:den><m:r><m:t>b</m:t></m:r></m:den></m:f>
+                <m:r><m:t>+</m:t></m:r>
+                <m:sSubSup><m:e><m:r><m:t>x</m:t></m:r></m:e><m:sub><m:r><m:t>i</m:t></m:r></m:sub><m:sup><m:r><m:t>2</m:t></m:r></m:sup></m:sSubSup>
+                <m:rad><m:deg><m:r><m:t>3</m:t></m:r></m:deg><m:e><m:r><m:t>y</m:t></m:r></m:e></m:rad>
+            </m:oMath>`)).toBe('\\frac{a}{b}+x_{i}^{2}\\sqrt[3]{y}');
+        });
+
+        it('should convert n-ary operators, delimiters, functions and accents', () => {
+            expect(toLatex(`<m:oMath ${M_NS}>
+                <m:nary>
+                    <m:naryPr><m:chr m:val="∑"/><m:limLoc m:val="undOvr"/></m:naryPr>
+                    <m:sub><m:r><m:t>i=1</m:t></m:r></m:sub><m:sup><m:r><m:t>n</m:t></m:r></m:sup>
+                    <m:e><m:d><m:e><m:r><m:t>i+1</m:t></m:r></m:e></m:d></m:e>
+                </m:nary>
+                <m:func><m:fName><m:r><m:rPr><m:sty m:val="p"/></m:rPr><m:t>sin</m:t></m:r></m:fName><m:e><m:r><m:t>θ</m:t></m:r></m:e></m:func>
+                <m:acc><m:accPr><m:chr m:val="⃗"/></m:accPr><m:e><m:r><m:t>v</m:t></m:r></m:e></m:acc>
+            </m:oMath>`)).toBe('\\sum_{i=1}^{n}{\\left(i+1\\right)}\\sin{θ}\\vec{v}');
+        });
+
+        it('should hide suppressed limits and keep upright text', () => {
+            expect(toLatex(`<m:oMath ${M_NS}>
+                <m:nary>
+                    <m:naryPr><m:subHide m:val="1"/><m:supHide m:val="1"/></m:naryPr>
+                    <m:sub/><m:sup/><m:e><m:r><m:t>f</m:t></m:r></m:e>
+                </m:nary>
+                <m:r><m:rPr><m:nor/></m:rPr><m:t>if x</m:t></m:r>
+            </m:oMath>`)).toBe('\\int{f}\\text{if x}');
+        });
+
+        it('should join the equations of a math paragraph', () => {
+            expect(toLatex(`<m:oMathPara ${M_NS}>
+                <m:oMath><m:r><m:t>a=1</m:t></m:r></m:oMath>
+                <m:oMath><m:r><m:t>b=2</m:t></m:r></m:oMath>
+            </m:oMathPara>`)).toBe('a=1 \\\\ b=2');
+        });
+    });
+
+    describe('linear form to OMML', () => {
+        it('should build OMML for the supported constructs', () => {
+            expect(latexToOmml('\\frac{1}{2}')).toBe('<m:oMath><m:f><m:num><m:r><m:t>1</m:t></m:r></m:num><m:den><m:r><m:t>2</m:t></m:r></m:den></m:f></m:oMath>');
+            expect(latexToOmml('\\left[x\\right]')).toBe('<m:oMath><m:d><m:dPr><m:begChr m:val="["/><m:endChr m:val="]"/></m:dPr><m:e><m:r><m:t>x</m:t></m:r></m:e></m:d></m:oMath>');
+            expect(latexToOmml('\\sum_{k}{k}')).toBe('<m:oMath><m:nary><m:naryPr><m:chr m:val="∑"/><m:supHide m:val="1"/></m:naryPr><m:sub><m:r><m:t>k</m:t></m:r></m:sub><m:sup></m:sup><m:e><m:r><m:t>k</m:t></m:r></m:e></m:nary></m:oMath>');
+            expect(latexToOmml('\\sin{x}')).toBe('<m:oMath><m:func><m:fName><m:r><m:rPr><m:sty m:val="p"/></m:rPr><m:t>sin</m:t></m:r></m:fName><m:e><m:r><m:t>x</m:t></m:r></m:e></m:func></m:oMath>');
+            expect(latexToOmml('x<\\alpha', true)).toBe('<m:oMathPara><m:oMath><m:r><m:t>x&lt;α</m:t></m:r></m:oMath></m:oMathPara>');
+        });
+
+        it('should survive a round trip through OMML', () => {
+            const samples = [
+                'x=\\frac{-b±\\sqrt{b^{2}-4ac}}{2a}',
+                '\\int_{0}^{1}{f\\left(x\\right)dx}',
+                '\\lim_{n→∞}{a_{n}}',
+                '\\begin{matrix}a & b \\\\ c & d\\end{matrix}',
+                '\\overline{AB}\\hat{x}\\text{ for all }\\operatorname{sgn}{y}',
+            ];
+            for (const latex of samples) {
+                const { children } = parseOmml(latexToOmml(latex).replace('<m:oMath>', `<m:oMath ${M_NS}>`));
+                expect(ommlToLatex(children)).toBe(latex);
+            }
+        });
+    });
+
+    describe('linear form parsing', () => {
+        it('should attach scripts to the preceding atom or group', () => {
+            expect(mathToLatex(parseLatex('{(a+b)}^2'))).toBe('{(a+b)}^{2}');
+            expect(parseLatex('x_1^2')).toEqual([{
+                type: 'scripts',
+                base: [{ type: 'text', text: 'x' }],
+                sub: [{ type: 'text', text: '1' }],
+                sup: [{ type: 'text', text: '2' }],
+            }]);
+        });
+
+        it('should map symbol commands and wrap matrices in their fences', () => {
+            expect(mathToLatex(parseLatex('\\alpha \\leq \\beta'))).toBe('α≤β');
+            expect(mathToLatex(parseLatex('\\begin{pmatrix}1 & 0\\end{pmatrix}'))).toBe('\\left(\\begin{matrix}1 & 0\\end{matrix}\\right)');
+        });
+
+        it('should split a math paragraph on top-level line breaks only', () => {
+            expect(splitTopLevelRows('a=1 \\\\ \\begin{matrix}x \\\\ y\\end{matrix}')).toEqual(['a=1', '\\begin{matrix}x \\\\ y\\end{matrix}']);
+        });
+    });
+
+    it('should render MathML for the editor', () => {
+        expect(latexToMathml('\\frac{x}{2}')).toBe('<math xmlns="http://www.w3.org/1998/Math/MathML" display="inline"><mfrac><mrow><mi>x</mi></mrow><mrow><mn>2</mn></mrow></mfrac></math>');
+        expect(latexToMathml('a \\\\ b', true)).toContain('<mtable><mtr><mtd><mi>a</mi></mtd></mtr><mtr><mtd><mi>b</mi></mtd></mtr></mtable>');
+    });
+});
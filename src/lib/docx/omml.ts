@@ -0,0 +1,761 @@
+/**
+ * Office Math (OMML) <-> LaTeX-like linear form
+ *
+ * DocxReader converts m:oMath / m:oMathPara into `math` nodes whose latex attribute is the editable form;
+ * DocxWriter writes the original OMML back unless the equation was edited, in which case the OMML is
+ * regenerated from the latex. The editor renders the same tree as MathML.
+ *
+ * Supported constructs: fractions, scripts, radicals, delimiters, n-ary operators (sum, integral, ...),
+ * functions, accents, bars, matrices and lower/upper limits. Other OMML containers contribute their content.
+ */
+
+export type MathNode =
+    | { type: 'text'; text: string; normal?: boolean } // m:r (normal = upright text, m:sty p / m:nor)
+    | { type: 'row'; body: MathNode[] } // {...} group
+    | { type: 'frac'; num: MathNode[]; den: MathNode[] }
+    | { type: 'scripts'; base: MathNode[]; sub?: MathNode[]; sup?: MathNode[] } // m:sSub / m:sSup / m:sSubSup
+    | { type: 'sqrt'; body: MathNode[]; degree?: MathNode[] }
+    | { type: 'delim'; open: string; close: string; body: MathNode[] }
+    | { type: 'nary'; op: string; sub?: MathNode[]; sup?: MathNode[]; body: MathNode[] }
+    | { type: 'func'; name: MathNode[]; body: MathNode[] }
+    | { type: 'accent'; char: string; body: MathNode[] }
+    | { type: 'bar'; position: 'top' | 'bot'; body: MathNode[] }
+    | { type: 'matrix'; rows: MathNode[][][] }
+    | { type: 'limit'; position: 'low' | 'upp'; base: MathNode[]; limit: MathNode[] }; // m:limLow / m:limUpp
+
+type XmlElement = Record<string, unknown>;
+
+// N-ary operator characters and their LaTeX commands
+const NARY_COMMANDS: Record<string, string> = {
+    '∑': 'sum', '∏': 'prod', '∐': 'coprod', '∫': 'int', '∬': 'iint', '∭': 'iiint', '∮': 'oint',
+    '⋃': 'bigcup', '⋂': 'bigcap', '⋁': 'bigvee', '⋀': 'bigwedge',
+};
+
+// Accent characters (m:acc m:chr, combining marks) and their LaTeX commands
+const ACCENT_COMMANDS: Record<string, string> = {
+    '̂': 'hat', '̃': 'tilde', '̄': 'bar', '⃗': 'vec', '̇': 'dot', '̈': 'ddot',
+    '́': 'acute', '̀': 'grave', '̆': 'breve', '̌': 'check',
+};
+
+// Spacing forms of the accents for MathML rendering
+const ACCENT_DISPLAY: Record<string, string> = {
+    '̂': '^', '̃': '~', '̄': '¯', '⃗': '→', '̇': '˙', '̈': '¨',
+    '́': '´', '̀': '`', '̆': '˘', '̌': 'ˇ',
+};
+
+const FUNCTION_NAMES = new Set([
+    'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+    'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'arg', 'deg', 'dim', 'ker',
+]);
+
+// Symbol commands accepted in the linear form (written back as the Unicode character)
+const SYMBOL_COMMANDS: Record<string, string> = {
+    alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ',
+    iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ',
+    upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+    Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+    times: '×', cdot: '⋅', div: '÷', pm: '±', mp: '∓', leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠',
+    approx: '≈', equiv: '≡', sim: '∼', propto: '∝', infty: '∞', partial: '∂', nabla: '∇', to: '→',
+    rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', leftrightarrow: '↔', in: '∈', notin: '∉',
+    subset: '⊂', supset: '⊃', subseteq: '⊆', supseteq: '⊇', cup: '∪', cap: '∩', forall: '∀', exists: '∃',
+    cdots: '⋯', ldots: '…', dots: '…', degree: '°', prime: '′', angle: '∠', perp: '⊥', parallel: '∥',
+    langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', vert: '|', Vert: '‖',
+};
+
+// ============================================================================
+// OMML -> tree
+// ============================================================================
+
+const keyOf = (element: XmlElement) => Object.keys(element).find(k => k !== ':@') || '';
+const childrenOf = (element: XmlElement | undefined, key: string): XmlElement[] => {
+    const children = element?.[key];
+    return Array.isArray(children) ? children as XmlElement[] : [];
+};
+const findChild = (children: XmlElement[], key: string) => children.find(child => key in child);
+const argument = (children: XmlElement[], key: string) => parseOmmlContent(childrenOf(findChild(children, key), key));
+
+// m:val of a property element inside a *Pr element (undefined when absent)
+const propertyValue = (children: XmlElement[], prKey: string, key: string): string | undefined => {
+    const property = findChild(childrenOf(findChild(children, prKey), prKey), key);
+    if (!property) return undefined;
+    const attrs = (property[':@'] || {}) as Record<string, unknown>;
+    return String(attrs['m:val'] ?? '');
+};
+const isOn = (value: string | undefined) => value !== undefined && value !== '0' && value !== 'off' && value !== 'false';
+
+const runText = (children: XmlElement[]): string => childrenOf(findChild(children, 'm:t'), 'm:t')
+    .map(item => item['#text'] !== undefined ? String(item['#text']) : '')
+    .join('');
+
+/**
+ * Parse the children of m:oMath (or any OMML argument element: m:e, m:num, ...)
+ */
+export const parseOmmlContent = (elements: XmlElement[]): MathNode[] => {
+    const nodes: MathNode[] = [];
+    for (const element of elements) {
+        const key = keyOf(element);
+        const children = childrenOf(element, key);
+        switch (key) {
+            case 'm:r': {
+                const text = runText(children);
+                if (!text) break;
+                const normal = isOn(propertyValue(children, 'm:rPr', 'm:nor')) || propertyValue(children, 'm:rPr', 'm:sty') === 'p';
+                nodes.push(normal ? { type: 'text', text, normal } : { type: 'text', text });
+                break;
+            }
+            case 'm:f':
+                nodes.push({ type: 'frac', num: argument(children, 'm:num'), den: argument(children, 'm:den') });
+                break;
+            case 'm:sSup':
+                nodes.push({ type: 'scripts', base: argument(children, 'm:e'), sup: argument(children, 'm:sup') });
+                break;
+            case 'm:sSub':
+                nodes.push({ type: 'scripts', base: argument(children, 'm:e'), sub: argument(children, 'm:sub') });
+                break;
+            case 'm:sSubSup':
+                nodes.push({ type: 'scripts', base: argument(children, 'm:e'), sub: argument(children, 'm:sub'), sup: argument(children, 'm:sup') });
+                break;
+            case 'm:rad': {
+                const degree = argument(children, 'm:deg');
+                const hidden = isOn(propertyValue(children, 'm:radPr', 'm:degHide'));
+                nodes.push(!hidden && degree.length ? { type: 'sqrt', body: argument(children, 'm:e'), degree } : { type: 'sqrt', body: argument(children, 'm:e') });
+                break;
+            }
+            case 'm:d': {
+                const separator = propertyValue(children, 'm:dPr', 'm:sepChr') ?? '|';
+                const body: MathNode[] = [];
+                children.filter(child => 'm:e' in child).forEach((child, index) => {
+                    if (index > 0) body.push({ type: 'text', text: separator });
+                    body.push(...parseOmmlContent(childrenOf(child, 'm:e')));
+                });
+                nodes.push({
+                    type: 'delim',
+                    open: propertyValue(children, 'm:dPr', 'm:begChr') ?? '(',
+                    close: propertyValue(children, 'm:dPr', 'm:endChr') ?? ')',
+                    body,
+                });
+                break;
+            }
+            case 'm:nary': {
+                const subHidden = isOn(propertyValue(children, 'm:naryPr', 'm:subHide'));
+                const supHidden = isOn(propertyValue(children, 'm:naryPr', 'm:supHide'));
+                const sub = argument(children, 'm:sub');
+                const sup = argument(children, 'm:sup');
+                nodes.push({
+                    type: 'nary',
+                    op: propertyValue(children, 'm:naryPr', 'm:chr') || '∫',
+                    ...(!subHidden && sub.length ? { sub } : {}),
+                    ...(!supHidden && sup.length ? { sup } : {}),
+                    body: argument(children, 'm:e'),
+                });
+                break;
+            }
+            case 'm:func':
+                nodes.push({ type: 'func', name: argument(children, 'm:fName'), body: argument(children, 'm:e') });
+                break;
+            case 'm:acc':
+                nodes.push({ type: 'accent', char: propertyValue(children, 'm:accPr', 'm:chr') || '̂', body: argument(children, 'm:e') });
+                break;
+            case 'm:bar':
+                nodes.push({ type: 'bar', position: propertyValue(children, 'm:barPr', 'm:pos') === 'top' ? 'top' : 'bot', body: argument(children, 'm:e') });
+                break;
+            case 'm:m':
+                nodes.push({
+                    type: 'matrix',
+                    rows: children.filter(child => 'm:mr' in child).map(row =>
+                        childrenOf(row, 'm:mr').filter(cell => 'm:e' in cell).map(cell => parseOmmlContent(childrenOf(cell, 'm:e')))),
+                });
+                break;
+            case 'm:eqArr':
+                nodes.push({ type: 'matrix', rows: children.filter(child => 'm:e' in child).map(row => [parseOmmlContent(childrenOf(row, 'm:e'))]) });
+                break;
+            case 'm:limLow':
+            case 'm:limUpp':
+                nodes.push({ type: 'limit', position: key === 'm:limLow' ? 'low' : 'upp', base: argument(children, 'm:e'), limit: argument(children, 'm:lim') });
+                break;
+            case 'm:oMath':
+                nodes.push(...parseOmmlContent(children));
+                break;
+            case 'm:box':
+            case 'm:borderBox':
+            case 'm:phant':
+            case 'm:groupChr':
+            case 'm:sPre':
+                // Containers: keep their content (pre-scripts and group characters are not represented)
+                nodes.push(...argument(children, 'm:e'));
+                break;
+            default:
+                // Properties (m:*Pr, w:rPr), bookmarks, whitespace: nothing to show
+                break;
+        }
+    }
+    return nodes;
+};
+
+// ============================================================================
+// Tree -> LaTeX
+// ============================================================================
+
+const escapeLatexText = (text: string) => text
+    .replace(/\\/g, '\\backslash ')
+    .replace(/([{}_^&%$#])/g, '\\$1')
+    .replace(/ /g, '\\ ');
+
+const latexGroup = (nodes: MathNode[]) => `{${toLatex(nodes)}}`;
+
+// Script base: a single character needs no braces
+const latexBase = (nodes: MathNode[]) => {
+    const latex = toLatex(nodes);
+    return nodes.length === 1 && nodes[0].type === 'text' && [...nodes[0].text].length === 1 ? latex : `{${latex}}`;
+};
+
+const latexDelimiter = (char: string) => {
+    if (!char) return '.';
+    if (char === '{' || char === '}') return `\\${char}`;
+    return char;
+};
+
+const latexFunctionName = (name: MathNode[]): string => {
+    if (name.length === 1 && name[0].type === 'text' && FUNCTION_NAMES.has(name[0].text)) return `\\${name[0].text}`;
+    // lim_{x→0} (m:limLow inside m:fName)
+    const limit = name[0];
+    if (name.length === 1 && limit.type === 'limit' && limit.position === 'low' && limit.base.length === 1
+        && limit.base[0].type === 'text' && FUNCTION_NAMES.has(limit.base[0].text)) {
+        return `\\${limit.base[0].text}_${latexGroup(limit.limit)}`;
+    }
+    if (name.every(node => node.type === 'text')) {
+        return `\\operatorname{${name.map(node => node.type === 'text' ? node.text : '').join('').replace(/([{}\\])/g, '\\$1')}}`;
+    }
+    return `\\operatorname${latexGroup(name)}`;
+};
+
+const nodeToLatex = (node: MathNode): string => {
+    switch (node.type) {
+        case 'text':
+            return node.normal ? `\\text{${node.text.replace(/([{}\\])/g, '\\$1')}}` : escapeLatexText(node.text);
+        case 'row':
+            return latexGroup(node.body);
+        case 'frac':
+            return `\\frac${latexGroup(node.num)}${latexGroup(node.den)}`;
+        case 'scripts':
+            return latexBase(node.base)
+                + (node.sub ? `_${latexGroup(node.sub)}` : '')
+                + (node.sup ? `^${latexGroup(node.sup)}` : '');
+        case 'sqrt':
+            return `\\sqrt${node.degree ? `[${toLatex(node.degree)}]` : ''}${latexGroup(node.body)}`;
+        case 'delim':
+            return `\\left${latexDelimiter(node.open)}${toLatex(node.body)}\\right${latexDelimiter(node.close)}`;
+        case 'nary': {
+            const command = NARY_COMMANDS[node.op] ? `\\${NARY_COMMANDS[node.op]}` : node.op;
+            return command
+                + (node.sub ? `_${latexGroup(node.sub)}` : '')
+                + (node.sup ? `^${latexGroup(node.sup)}` : '')
+                + latexGroup(node.body);
+        }
+        case 'func':
+            return `${latexFunctionName(node.name)}${latexGroup(node.body)}`;
+        case 'accent':
+            return `\\${ACCENT_COMMANDS[node.char] || 'hat'}${latexGroup(node.body)}`;
+        case 'bar':
+            return `\\${node.position === 'top' ? 'overline' : 'underline'}${latexGroup(node.body)}`;
+        case 'matrix':
+            return `\\begin{matrix}${node.rows.map(row => row.map(cell => toLatex(cell)).join(' & ')).join(' \\\\ ')}\\end{matrix}`;
+        case 'limit':
+            return `\\${node.position === 'low' ? 'underset' : 'overset'}${latexGroup(node.limit)}${latexGroup(node.base)}`;
+    }
+};
+
+const toLatex = (nodes: MathNode[]): string => {
+    let latex = '';
+    for (const node of nodes) {
+        const part = nodeToLatex(node);
+        // Keep a command name from running into following letters (\alpha x, \sin{...})
+        if (/\\[A-Za-z]+$/.test(latex) && /^[A-Za-z]/.test(part)) latex += ' ';
+        latex += part;
+    }
+    return latex;
+};
+
+export const mathToLatex = (nodes: MathNode[]): string => toLatex(nodes);
+
+// ============================================================================
+// LaTeX -> tree
+// ============================================================================
+
+type Token =
+    | { kind: 'command'; value: string }
+    | { kind: 'char'; value: string }
+    | { kind: 'open' | 'close' | 'sub' | 'sup' | 'column' | 'newline' | 'space' };
+
+const tokenize = (latex: string): Token[] => {
+    const tokens: Token[] = [];
+    const chars = [...latex];
+    for (let i = 0; i < chars.length; i++) {
+        const char = chars[i];
+        if (char === '\\') {
+            const next = chars[i + 1];
+            if (next === undefined) break;
+            if (/[A-Za-z]/.test(next)) {
+                let name = '';
+                while (i + 1 < chars.length && /[A-Za-z]/.test(chars[i + 1])) name += chars[++i];
+                tokens.push({ kind: 'command', value: name });
+            } else {
+                i++;
+                if (next === '\\') tokens.push({ kind: 'newline' });
+                else if (next === ',' || next === ';' || next === ':' || next === '!') continue; // spacing commands
+                else tokens.push({ kind: 'char', value: next });
+            }
+        } else if (char === '{') tokens.push({ kind: 'open' });
+        else if (char === '}') tokens.push({ kind: 'close' });
+        else if (char === '_') tokens.push({ kind: 'sub' });
+        else if (char === '^') tokens.push({ kind: 'sup' });
+        else if (char === '&') tokens.push({ kind: 'column' });
+        else if (/\s/.test(char)) tokens.push({ kind: 'space' }); // Only significant inside \text{...}
+        else tokens.push({ kind: 'char', value: char });
+    }
+    return tokens;
+};
+
+class LatexParser {
+    private pos = 0;
+
+    constructor(private tokens: Token[]) { }
+
+    parse(): MathNode[] {
+        const nodes = this.parseSequence();
+        // Unbalanced closing braces: keep parsing what follows
+        while (this.pos < this.tokens.length) {
+            this.pos++;
+            nodes.push(...this.parseSequence());
+        }
+        return nodes;
+    }
+
+    private peek(): Token | undefined {
+        while (this.tokens[this.pos]?.kind === 'space') this.pos++;
+        return this.tokens[this.pos];
+    }
+
+    private isCommand(token: Token | undefined, name: string) {
+        return token?.kind === 'command' && token.value === name;
+    }
+
+    // Parse until a closing brace, \right, \end, & or \\ (left for the caller)
+    private parseSequence(): MathNode[] {
+        const nodes: MathNode[] = [];
+        for (let token = this.peek(); token; token = this.peek()) {
+            if (token.kind === 'close' || token.kind === 'column' || token.kind === 'newline') break;
+            if (this.isCommand(token, 'right') || this.isCommand(token, 'end')) break;
+
+            if (token.kind === 'sub' || token.kind === 'sup') {
+                this.pos++;
+                this.attachScript(nodes, token.kind, this.parseArgument());
+                continue;
+            }
+            const node = this.parseAtom();
+            if (node) nodes.push(node);
+        }
+        return nodes;
+    }
+
+    private attachScript(nodes: MathNode[], kind: 'sub' | 'sup', script: MathNode[]) {
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'scripts' && !last[kind]) {
+            last[kind] = script;
+        } else if (last?.type === 'nary' && !last[kind] && last.body.length === 0) {
+            last[kind] = script;
+        } else {
+            const base = !last ? [] : last.type === 'row' ? last.body : [last];
+            if (last) nodes.pop();
+            nodes.push({ type: 'scripts', base, [kind]: script });
+        }
+    }
+
+    // A braced group or a single atom
+    private parseArgument(): MathNode[] {
+        const token = this.peek();
+        if (!token) return [];
+        if (token.kind === 'open') {
+            this.pos++;
+            const body = this.parseSequence();
+            if (this.peek()?.kind === 'close') this.pos++;
+            return body;
+        }
+        if (token.kind === 'close' || token.kind === 'column' || token.kind === 'newline') return [];
+        const atom = this.parseAtom();
+        return atom ? [atom] : [];
+    }
+
+    // Optional [..] argument (\sqrt[n]{x})
+    private parseOptionalArgument(): MathNode[] | undefined {
+        const token = this.peek();
+        if (token?.kind !== 'char' || token.value !== '[') return undefined;
+        this.pos++;
+        const nodes: MathNode[] = [];
+        for (let next = this.peek(); next && !(next.kind === 'char' && next.value === ']'); next = this.peek()) {
+            if (next.kind === 'sub' || next.kind === 'sup') {
+                this.pos++;
+                this.attachScript(nodes, next.kind, this.parseArgument());
+                continue;
+            }
+            if (next.kind === 'close' || next.kind === 'column' || next.kind === 'newline') break;
+            const atom = this.parseAtom();
+            if (atom) nodes.push(atom);
+        }
+        if (this.peek()?.kind === 'char') this.pos++;
+        return nodes;
+    }
+
+    // Raw text of a braced group (\text{...}, \begin{matrix})
+    private parseRawGroup(): string {
+        if (this.peek()?.kind !== 'open') return '';
+        this.pos++;
+        let text = '';
+        for (let token = this.tokens[this.pos]; token && token.kind !== 'close'; token = this.tokens[this.pos]) {
+            this.pos++;
+            if (token.kind === 'char') text += token.value;
+            else if (token.kind === 'space') text += ' ';
+            else if (token.kind === 'command') text += SYMBOL_COMMANDS[token.value] || token.value;
+        }
+        if (this.peek()?.kind === 'close') this.pos++;
+        return text;
+    }
+
+    private parseDelimiter(): string {
+        const token = this.peek();
+        if (!token) return '';
+        this.pos++;
+        if (token.kind === 'char') return token.value === '.' ? '' : token.value;
+        if (token.kind === 'command') return SYMBOL_COMMANDS[token.value] || '';
+        if (token.kind === 'open') return '{';
+        if (token.kind === 'close') return '}';
+        return '';
+    }
+
+    private parseMatrix(environment: string): MathNode {
+        const rows: MathNode[][][] = [[[]]];
+        for (let token = this.peek(); token; token = this.peek()) {
+            if (this.isCommand(token, 'end')) {
+                this.pos++;
+                this.parseRawGroup();
+                break;
+            }
+            if (token.kind === 'column') {
+                this.pos++;
+                rows[rows.length - 1].push([]);
+                continue;
+            }
+            if (token.kind === 'newline') {
+                this.pos++;
+                rows.push([[]]);
+                continue;
+            }
+            if (token.kind === 'close') {
+                this.pos++;
+                continue;
+            }
+            const row = rows[rows.length - 1];
+            row[row.length - 1].push(...this.parseSequence());
+        }
+        const matrix: MathNode = { type: 'matrix', rows: rows.filter(row => row.some(cell => cell.length > 0)) };
+        const fences: Record<string, [string, string]> = { pmatrix: ['(', ')'], bmatrix: ['[', ']'], Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'] };
+        const fence = fences[environment];
+        return fence ? { type: 'delim', open: fence[0], close: fence[1], body: [matrix] } : matrix;
+    }
+
+    private parseAtom(): MathNode | null {
+        const token = this.peek();
+        if (!token) return null;
+        this.pos++;
+
+        if (token.kind === 'char') return { type: 'text', text: token.value };
+        if (token.kind === 'open') {
+            const body = this.parseSequence();
+            if (this.peek()?.kind === 'close') this.pos++;
+            return { type: 'row', body };
+        }
+        if (token.kind !== 'command') return null;
+
+        const name = token.value;
+        if (SYMBOL_COMMANDS[name]) return { type: 'text', text: SYMBOL_COMMANDS[name] };
+        switch (name) {
+            case 'frac':
+            case 'dfrac':
+            case 'tfrac':
+                return { type: 'frac', num: this.parseArgument(), den: this.parseArgument() };
+            case 'sqrt': {
+                const degree = this.parseOptionalArgument();
+                const body = this.parseArgument();
+                return degree?.length ? { type: 'sqrt', body, degree } : { type: 'sqrt', body };
+            }
+            case 'left': {
+                const open = this.parseDelimiter();
+                const body = this.parseSequence();
+                let close = '';
+                if (this.isCommand(this.peek(), 'right')) {
+                    this.pos++;
+                    close = this.parseDelimiter();
+                }
+                return { type: 'delim', open, close, body };
+            }
+            case 'begin':
+                return this.parseMatrix(this.parseRawGroup());
+            case 'text':
+            case 'mathrm':
+            case 'textrm':
+            case 'operatorname': {
+                const text = this.parseRawGroup();
+                if (name === 'operatorname') return { type: 'func', name: [{ type: 'text', text, normal: true }], body: this.parseArgument() };
+                return { type: 'text', text, normal: true };
+            }
+            case 'overline':
+            case 'underline':
+                return { type: 'bar', position: name === 'overline' ? 'top' : 'bot', body: this.parseArgument() };
+            case 'underset':
+            case 'overset': {
+                const limit = this.parseArgument();
+                return { type: 'limit', position: name === 'underset' ? 'low' : 'upp', base: this.parseArgument(), limit };
+            }
+            case 'backslash':
+                return { type: 'text', text: '\\' };
+        }
+
+        const accent = Object.entries(ACCENT_COMMANDS).find(([, command]) => command === name);
+        if (accent) return { type: 'accent', char: accent[0], body: this.parseArgument() };
+
+        const nary = Object.entries(NARY_COMMANDS).find(([, command]) => command === name);
+        if (nary) {
+            const node: MathNode = { type: 'nary', op: nary[0], body: [] };
+            this.parseLimits(node);
+            node.body = this.parseArgument();
+            return node;
+        }
+
+        if (FUNCTION_NAMES.has(name)) {
+            const functionName: MathNode = { type: 'text', text: name, normal: true };
+            if (this.peek()?.kind === 'sub') {
+                this.pos++;
+                const limit = this.parseArgument();
+                return { type: 'func', name: [{ type: 'limit', position: 'low', base: [functionName], limit }], body: this.parseArgument() };
+            }
+            return { type: 'func', name: [functionName], body: this.parseArgument() };
+        }
+
+        // Unknown command: keep its name as text
+        return { type: 'text', text: name };
+    }
+
+    private parseLimits(node: Extract<MathNode, { type: 'nary' }>) {
+        for (let token = this.peek(); token && (token.kind === 'sub' || token.kind === 'sup'); token = this.peek()) {
+            this.pos++;
+            node[token.kind] = this.parseArgument();
+        }
+    }
+}
+
+export const parseLatex = (latex: string): MathNode[] => new LatexParser(tokenize(latex)).parse();
+
+// ============================================================================
+// Tree -> OMML
+// ============================================================================
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const ommlRun = (text: string, normal?: boolean) => {
+    const space = /^\s|\s$/.test(text) ? ' xml:space="preserve"' : '';
+    return `<m:r>${normal ? '<m:rPr><m:sty m:val="p"/></m:rPr>' : ''}<m:t${space}>${escapeXml(text)}</m:t></m:r>`;
+};
+
+const ommlArgument = (tag: string, nodes: MathNode[]) => `<${tag}>${toOmml(nodes)}</${tag}>`;
+
+const nodeToOmml = (node: MathNode): string => {
+    switch (node.type) {
+        case 'text':
+            return ommlRun(node.text, node.normal);
+        case 'row':
+            return toOmml(node.body);
+        case 'frac':
+            return `<m:f>${ommlArgument('m:num', node.num)}${ommlArgument('m:den', node.den)}</m:f>`;
+        case 'scripts': {
+            const tag = node.sub && node.sup ? 'm:sSubSup' : node.sub ? 'm:sSub' : 'm:sSup';
+            return `<${tag}>${ommlArgument('m:e', node.base)}`
+                + (node.sub ? ommlArgument('m:sub', node.sub) : '')
+                + (node.sup ? ommlArgument('m:sup', node.sup) : '')
+                + `</${tag}>`;
+        }
+        case 'sqrt':
+            return node.degree
+                ? `<m:rad>${ommlArgument('m:deg', node.degree)}${ommlArgument('m:e', node.body)}</m:rad>`
+                : `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/>${ommlArgument('m:e', node.body)}</m:rad>`;
+        case 'delim': {
+            const properties = node.open === '(' && node.close === ')'
+                ? ''
+                : `<m:dPr><m:begChr m:val="${escapeXml(node.open)}"/><m:endChr m:val="${escapeXml(node.close)}"/></m:dPr>`;
+            return `<m:d>${properties}${ommlArgument('m:e', node.body)}</m:d>`;
+        }
+        case 'nary': {
+            const hidden = (node.sub ? '' : '<m:subHide m:val="1"/>') + (node.sup ? '' : '<m:supHide m:val="1"/>');
+            return `<m:nary><m:naryPr><m:chr m:val="${escapeXml(node.op)}"/>${hidden}</m:naryPr>`
+                + ommlArgument('m:sub', node.sub || [])
+                + ommlArgument('m:sup', node.sup || [])
+                + `${ommlArgument('m:e', node.body)}</m:nary>`;
+        }
+        case 'func': {
+            // Function names are upright
+            const name = node.name.map(n => n.type === 'text' ? { ...n, normal: true } : n);
+            return `<m:func>${ommlArgument('m:fName', name)}${ommlArgument('m:e', node.body)}</m:func>`;
+        }
+        case 'accent':
+            return `<m:acc><m:accPr><m:chr m:val="${node.char}"/></m:accPr>${ommlArgument('m:e', node.body)}</m:acc>`;
+        case 'bar':
+            return `<m:bar><m:barPr><m:pos m:val="${node.position}"/></m:barPr>${ommlArgument('m:e', node.body)}</m:bar>`;
+        case 'matrix':
+            return `<m:m>${node.rows.map(row => `<m:mr>${row.map(cell => ommlArgument('m:e', cell)).join('')}</m:mr>`).join('')}</m:m>`;
+        case 'limit': {
+            const tag = node.position === 'low' ? 'm:limLow' : 'm:limUpp';
+            return `<${tag}>${ommlArgument('m:e', node.base)}${ommlArgument('m:lim', node.limit)}</${tag}>`;
+        }
+    }
+};
+
+// Adjacent characters of the same kind form one run
+const mergeText = (nodes: MathNode[]): MathNode[] => {
+    const merged: MathNode[] = [];
+    for (const node of nodes) {
+        const last = merged[merged.length - 1];
+        if (node.type === 'text' && last?.type === 'text' && !!last.normal === !!node.normal) {
+            merged[merged.length - 1] = { ...last, text: last.text + node.text };
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+};
+
+const toOmml = (nodes: MathNode[]): string => mergeText(nodes).map(nodeToOmml).join('');
+
+/**
+ * OMML for an equation in linear form: m:oMath, or m:oMathPara for a display equation
+ */
+export const latexToOmml = (latex: string, display = false): string => {
+    const math = `<m:oMath>${toOmml(parseLatex(latex))}</m:oMath>`;
+    return display ? `<m:oMathPara>${math}</m:oMathPara>` : math;
+};
+
+/**
+ * Linear form of m:oMath / m:oMathPara children (several equations of a math paragraph are joined by \\)
+ */
+export const ommlToLatex = (elements: XmlElement[], isParagraph = false): string => {
+    if (!isParagraph) return mathToLatex(parseOmmlContent(elements));
+    return elements
+        .filter(element => 'm:oMath' in element)
+        .map(element => mathToLatex(parseOmmlContent(childrenOf(element, 'm:oMath'))))
+        .join(' \\\\ ');
+};
+
+// ============================================================================
+// Tree -> MathML (editor rendering)
+// ============================================================================
+
+const mathmlText = (text: string, normal?: boolean): string => {
+    if (normal) return `<mi mathvariant="normal">${escapeXml(text)}</mi>`;
+    return (text.match(/\d+(?:\.\d+)?|[\p{L}]|\s+|./gu) || [])
+        .map(part => {
+            if (/^\d/.test(part)) return `<mn>${part}</mn>`;
+            if (/^\s+$/.test(part)) return '<mspace width="0.25em"/>';
+            if (/^\p{L}$/u.test(part)) return `<mi>${escapeXml(part)}</mi>`;
+            return `<mo>${escapeXml(part)}</mo>`;
+        })
+        .join('');
+};
+
+const mrow = (nodes: MathNode[]) => `<mrow>${toMathml(nodes)}</mrow>`;
+
+const nodeToMathml = (node: MathNode): string => {
+    switch (node.type) {
+        case 'text':
+            return mathmlText(node.text, node.normal);
+        case 'row':
+            return mrow(node.body);
+        case 'frac':
+            return `<mfrac>${mrow(node.num)}${mrow(node.den)}</mfrac>`;
+        case 'scripts':
+            if (node.sub && node.sup) return `<msubsup>${mrow(node.base)}${mrow(node.sub)}${mrow(node.sup)}</msubsup>`;
+            if (node.sub) return `<msub>${mrow(node.base)}${mrow(node.sub)}</msub>`;
+            return `<msup>${mrow(node.base)}${mrow(node.sup || [])}</msup>`;
+        case 'sqrt':
+            return node.degree ? `<mroot>${mrow(node.body)}${mrow(node.degree)}</mroot>` : `<msqrt>${toMathml(node.body)}</msqrt>`;
+        case 'delim':
+            return `<mrow><mo fence="true">${escapeXml(node.open)}</mo>${toMathml(node.body)}<mo fence="true">${escapeXml(node.close)}</mo></mrow>`;
+        case 'nary': {
+            const op = `<mo largeop="true">${escapeXml(node.op)}</mo>`;
+            const integral = /[∫∬∭∮]/.test(node.op);
+            let operator = op;
+            if (node.sub && node.sup) operator = `<${integral ? 'msubsup' : 'munderover'}>${op}${mrow(node.sub)}${mrow(node.sup)}</${integral ? 'msubsup' : 'munderover'}>`;
+            else if (node.sub) operator = `<${integral ? 'msub' : 'munder'}>${op}${mrow(node.sub)}</${integral ? 'msub' : 'munder'}>`;
+            else if (node.sup) operator = `<${integral ? 'msup' : 'mover'}>${op}${mrow(node.sup)}</${integral ? 'msup' : 'mover'}>`;
+            return `<mrow>${operator}${mrow(node.body)}</mrow>`;
+        }
+        case 'func':
+            return `<mrow>${toMathml(node.name.map(n => n.type === 'text' ? { ...n, normal: true } : n))}<mo>&#x2061;</mo>${mrow(node.body)}</mrow>`;
+        case 'accent':
+            return `<mover accent="true">${mrow(node.body)}<mo>${escapeXml(ACCENT_DISPLAY[node.char] || node.char)}</mo></mover>`;
+        case 'bar':
+            return node.position === 'top'
+                ? `<mover accent="true">${mrow(node.body)}<mo>¯</mo></mover>`
+                : `<munder accentunder="true">${mrow(node.body)}<mo>_</mo></munder>`;
+        case 'matrix':
+            return `<mtable>${node.rows.map(row => `<mtr>${row.map(cell => `<mtd>${toMathml(cell)}</mtd>`).join('')}</mtr>`).join('')}</mtable>`;
+        case 'limit':
+            return node.position === 'low'
+                ? `<munder>${mrow(node.base)}${mrow(node.limit)}</munder>`
+                : `<mover>${mrow(node.base)}${mrow(node.limit)}</mover>`;
+    }
+};
+
+const toMathml = (nodes: MathNode[]): string => nodes.map(nodeToMathml).join('');
+
+/**
+ * MathML markup for an equation in linear form
+ */
+export const latexToMathml = (latex: string, display = false): string => {
+    const rows = display ? splitTopLevelRows(latex) : [latex];
+    const body = rows.length > 1
+        ? `<mtable>${rows.map(row => `<mtr><mtd>${toMathml(parseLatex(row))}</mtd></mtr>`).join('')}</mtable>`
+        : toMathml(parseLatex(latex));
+    return `<math xmlns="http://www.w3.org/1998/Math/MathML" display="${display ? 'block' : 'inline'}">${body}</math>`;
+};
+
+/**
+ * Split a math paragraph's linear form into its equations (\\ outside braces and environments)
+ */
+export const splitTopLevelRows = (latex: string): string[] => {
+    const rows: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let i = 0; i < latex.length; i++) {
+        if (latex.startsWith('\\begin', i)) depth++;
+        if (latex.startsWith('\\end', i)) depth--;
+        const char = latex[i];
+        if (char === '\\' && latex[i + 1] === '\\' && depth === 0) {
+            rows.push(current.trim());
+            current = '';
+            i++;
+            continue;
+        }
+        if (char === '\\' && latex[i + 1] !== undefined) {
+            current += char + latex[i + 1];
+            i++;
+            continue;
+        }
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        current += char;
+    }
+    rows.push(current.trim());
+    return rows.filter(Boolean);
+};
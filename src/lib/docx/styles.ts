@@ -0,0 +1,168 @@
+/**
+ * Named style catalogue of a DOCX document (word/styles.xml)
+ *
+ * DocxReader exposes the catalogue as doc attrs.styles and the document defaults (w:docDefaults)
+ * as attrs.styleDefaults. Paragraphs keep only their styleId; the editor renders the resolved style
+ * formatting, and DocxWriter writes styles marked as modified back into styles.xml.
+ */
+
+export interface DocxTabStop {
+    posTwips: string;
+    type: string;
+    leader?: string;
+}
+
+/**
+ * Formatting defined by a style (w:pPr / w:rPr). Units follow the paragraph attrs:
+ * spacing and indentation in twips, fontSize in pt ("12pt"), color as "#RRGGBB"
+ */
+export interface DocxStyleProps {
+    fontFamily?: string;
+    fontSize?: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    color?: string;
+    spacingBefore?: string;
+    spacingAfter?: string;
+    lineHeight?: string;
+    lineRule?: string;
+    indent?: string;
+    firstLine?: string;
+    hanging?: string;
+    textAlign?: string;
+    tabStops?: DocxTabStop[];
+}
+
+export interface DocxStyle {
+    styleId: string;
+    type: 'paragraph' | 'character' | 'table' | 'numbering';
+    name: string;
+    basedOn?: string;
+    next?: string;
+    isDefault?: boolean;
+    hidden?: boolean; // w:hidden / w:semiHidden: not offered in the style list
+    outlineLevel?: number; // w:outlineLvl (0 = Heading 1)
+    props: DocxStyleProps; // Own formatting (not inherited from basedOn)
+    modified?: boolean; // Edited in the editor: rewritten in styles.xml on export
+}
+
+/**
+ * Styles of a new document; matches the styles.xml DocxWriter generates without an original package
+ */
+export const DEFAULT_STYLES: DocxStyle[] = [
+    { styleId: 'Normal', type: 'paragraph', name: 'Normal', isDefault: true, props: {} },
+    {
+        styleId: 'Heading1', type: 'paragraph', name: 'heading 1', basedOn: 'Normal', next: 'Normal', outlineLevel: 0,
+        props: { bold: true, color: '#2E74B5', fontSize: '16pt', spacingBefore: '480', spacingAfter: '0' },
+    },
+    {
+        styleId: 'Heading2', type: 'paragraph', name: 'heading 2', basedOn: 'Normal', next: 'Normal', outlineLevel: 1,
+        props: { bold: true, color: '#2E74B5', fontSize: '13pt', spacingBefore: '260', spacingAfter: '260' },
+    },
+    {
+        styleId: 'Heading3', type: 'paragraph', name: 'heading 3', basedOn: 'Normal', next: 'Normal', outlineLevel: 2,
+        props: { bold: true, color: '#1F4D78', fontSize: '12pt', spacingBefore: '260', spacingAfter: '260' },
+    },
+    { styleId: 'Hyperlink', type: 'character', name: 'Hyperlink', props: { color: '#0563C1', underline: true } },
+];
+
+/**
+ * Effective formatting of a style: document defaults, then the basedOn chain from base to the style itself.
+ * Tab stops are merged by position (a derived style overrides a base stop at the same position).
+ */
+export const resolveStyleProps = (styles: DocxStyle[], styleId: string, defaults: DocxStyleProps = {}): DocxStyleProps => {
+    const byId = new Map(styles.map(style => [style.styleId, style]));
+    const chain: DocxStyle[] = [];
+    const visited = new Set<string>();
+    let current = byId.get(styleId);
+    while (current && !visited.has(current.styleId)) {
+        chain.unshift(current);
+        visited.add(current.styleId);
+        current = current.basedOn ? byId.get(current.basedOn) : undefined;
+    }
+
+    let resolved: DocxStyleProps = { ...defaults };
+    for (const style of chain) {
+        const { tabStops, ...props } = style.props;
+        resolved = { ...resolved, ...Object.fromEntries(Object.entries(props).filter(([, v]) => v !== undefined)) };
+        if (tabStops?.length) {
+            const byPos = new Map((resolved.tabStops || []).map(stop => [stop.posTwips, stop]));
+            for (const stop of tabStops) byPos.set(stop.posTwips, stop);
+            resolved.tabStops = Array.from(byPos.values()).sort((a, b) => parseInt(a.posTwips) - parseInt(b.posTwips));
+        }
+    }
+    return resolved;
+};
+
+/**
+ * Heading level (1-6) a paragraph style maps to: outline level, else a "heading N" / "見出し N" name or HeadingN id
+ */
+export const getStyleHeadingLevel = (style: DocxStyle): number | null => {
+    if (style.outlineLevel !== undefined && style.outlineLevel >= 0 && style.outlineLevel < 6) {
+        return style.outlineLevel + 1;
+    }
+    const match = style.name.toLowerCase().match(/^(?:heading|見出し)\s*(\d)$/) || style.styleId.toLowerCase().match(/^heading(\d)$/);
+    const level = match ? parseInt(match[1], 10) : NaN;
+    return level >= 1 && level <= 6 ? level : null;
+};
+
+// Style w:jc values -> paragraph textAlign as the editor and DocxWriter use it
+const JC_TO_ALIGN: Record<string, string> = {
+    left: 'left', start: 'left', center: 'center', right: 'right', end: 'right', both: 'justify', distribute: 'justify',
+};
+
+const PARAGRAPH_PROPS = ['spacingBefore', 'spacingAfter', 'lineHeight', 'lineRule', 'indent', 'firstLine', 'hanging', 'tabStops'] as const;
+const TEXT_STYLE_PROPS = ['fontFamily', 'fontSize', 'color'] as const;
+const TOGGLE_MARKS = ['bold', 'italic', 'underline', 'strike'] as const;
+
+interface StyledNode {
+    type: string;
+    attrs?: Record<string, unknown>;
+    content?: StyledNode[];
+    marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+const applyRunFormatting = (node: StyledNode, props: DocxStyleProps): StyledNode => {
+    if (node.type !== 'text') {
+        return node.content ? { ...node, content: node.content.map(child => applyRunFormatting(child, props)) } : node;
+    }
+    const marks = [...(node.marks || [])];
+    for (const mark of TOGGLE_MARKS) {
+        if (props[mark] && !marks.some(m => m.type === mark)) marks.push({ type: mark });
+    }
+    const inherited = Object.fromEntries(TEXT_STYLE_PROPS.filter(key => props[key]).map(key => [key, props[key]]));
+    if (Object.keys(inherited).length > 0) {
+        const index = marks.findIndex(m => m.type === 'textStyle');
+        if (index === -1) marks.push({ type: 'textStyle', attrs: inherited });
+        else marks[index] = { ...marks[index], attrs: { ...inherited, ...marks[index].attrs } };
+    }
+    return marks.length > 0 ? { ...node, marks } : node;
+};
+
+/**
+ * Copy of a DocxReader document whose styled paragraphs also carry the formatting of their style
+ * as direct formatting (paragraph attrs and run marks), for consumers that don't render the style
+ * catalogue or write the content next to another styles.xml. Direct formatting still wins.
+ */
+export const flattenStyleFormatting = <T extends StyledNode>(doc: T): T => {
+    const styles = (doc.attrs?.styles || []) as DocxStyle[];
+    const defaults = (doc.attrs?.styleDefaults || {}) as DocxStyleProps;
+    if (styles.length === 0) return doc;
+
+    const visit = (node: StyledNode): StyledNode => {
+        const styleId = node.attrs?.styleId as string | undefined;
+        if ((node.type === 'paragraph' || node.type === 'heading') && styleId) {
+            const props = resolveStyleProps(styles, styleId, defaults);
+            const attrs = { ...node.attrs };
+            for (const key of PARAGRAPH_PROPS) {
+                if ((attrs[key] === undefined || attrs[key] === null) && props[key] !== undefined) attrs[key] = props[key];
+            }
+            if (!attrs.textAlign && props.textAlign && JC_TO_ALIGN[props.textAlign]) attrs.textAlign = JC_TO_ALIGN[props.textAlign];
+            return applyRunFormatting({ ...node, attrs }, props);
+        }
+        return node.content ? { ...node, content: node.content.map(visit) } : node;
+    };
+    return visit(doc) as T;
+};
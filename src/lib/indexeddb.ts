@@ -16,6 +16,11 @@ export const STORAGE_KEYS = {
     ACTIVE_TAB_ID: 'active_tab_id',
     SETTINGS_OVERWRITE_ENABLED: 'settings_overwrite_enabled',
     LIBRARY_FILES: 'library_files',
+    MODEL_SETTINGS: 'model_settings',
+    TOOL_POLICIES: 'tool_policies',
+    USAGE_BUDGET: 'usage_budget',
+    CHAT_SESSIONS: 'chat_sessions',
+    ACTIVE_CHAT_SESSION: 'active_chat_session',
 } as const;
 
 /**
@@ -63,6 +68,24 @@ export const saveToDB = async (key: string, value: unknown): Promise<void> => {
     }
 };
 
+/**
+ * Delete a value from IndexedDB
+ * @param key - Storage key
+ */
+export const deleteFromDB = async (key: string): Promise<void> => {
+    try {
+        const db = await initDB();
+        return new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).delete(key);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error('Failed to delete from IDB:', e);
+    }
+};
+
 /**
  * Get a value from IndexedDB
  * @param key - Storage key
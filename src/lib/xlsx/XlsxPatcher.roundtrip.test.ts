@@ -0,0 +1,546 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx-js-style';
+import { XlsxPatcher, PatchSheet } from './XlsxPatcher';
+import { chartFromRange, readCharts, SpreadsheetChart } from './charts';
+import { buildRule, parseSqref, readConditionalFormats, ConditionFormatRule } from './conditionalFormat';
+import { expandDataValidations, readDataValidations, DataVerificationItem } from './dataValidation';
+import { withPrefix } from './xml';
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * A workbook using features the editor does not model: defined names, data validation,
+ * conditional formatting, a chart, a pivot cache, comments, sheet protection, shared formulas
+ */
+const PARTS: Record<string, string> = {
+    '[Content_Types].xml': HEADER + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Default Extension="vml" ContentType="application/vnd.openxmlformats-officedocument.vmlDrawing"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '<Override PartName="/xl/sharedStrings.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml"/>' +
+        '<Override PartName="/xl/calcChain.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.calcChain+xml"/>' +
+        '<Override PartName="/xl/comments1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml"/>' +
+        '<Override PartName="/xl/drawings/drawing1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>' +
+        '<Override PartName="/xl/charts/chart1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>' +
+        '<Override PartName="/xl/pivotCache/pivotCacheDefinition1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.pivotCacheDefinition+xml"/>' +
+        '</Types>',
+    '_rels/.rels': HEADER + `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml': HEADER + `<workbook ${NS}>` +
+        '<bookViews><workbookView activeTab="1"/></bookViews>' +
+        '<sheets><sheet name="Prices" sheetId="1" r:id="rId1"/><sheet name="Notes" sheetId="2" r:id="rId2"/></sheets>' +
+        '<definedNames><definedName name="PriceList">Prices!$A$1:$C$3</definedName><definedName name="_xlnm.Print_Area" localSheetId="1">Notes!$A$1:$A$2</definedName></definedNames>' +
+        '<calcPr calcId="191029"/>' +
+        '<pivotCaches><pivotCache cacheId="1" r:id="rId6"/></pivotCaches>' +
+        '</workbook>',
+    'xl/_rels/workbook.xml.rels': HEADER + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId1" Type="${REL}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="${REL}/worksheet" Target="worksheets/sheet2.xml"/>` +
+        `<Relationship Id="rId3" Type="${REL}/styles" Target="styles.xml"/>` +
+        `<Relationship Id="rId4" Type="${REL}/sharedStrings" Target="sharedStrings.xml"/>` +
+        `<Relationship Id="rId5" Type="${REL}/calcChain" Target="calcChain.xml"/>` +
+        `<Relationship Id="rId6" Type="${REL}/pivotCacheDefinition" Target="pivotCache/pivotCacheDefinition1.xml"/>` +
+        '</Relationships>',
+    'xl/styles.xml': HEADER + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="1"><font><sz val="11"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border><left style="thin"/><right style="thin"/><top style="thin"/><bottom style="thin"/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="0" fillId="0" borderId="1" xfId="0" applyBorder="1"><protection locked="0"/></xf></cellXfs>' +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        '<dxfs count="1"><dxf><font><b/><color rgb="FF9C0006"/></font></dxf></dxfs>' +
+        '</styleSheet>',
+    'xl/sharedStrings.xml': HEADER + '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="5" uniqueCount="5">' +
+        '<si><t>Item</t></si><si><t>Price</t></si><si><t>Apple</t></si><si><t>Pear</t></si><si><t>Note</t></si></sst>',
+    'xl/calcChain.xml': HEADER + '<calcChain xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><c r="C2" i="1"/><c r="C3"/></calcChain>',
+    'xl/worksheets/sheet1.xml': HEADER + `<worksheet ${NS}>` +
+        '<dimension ref="A1:E3"/>' +
+        '<cols><col min="1" max="3" width="12" customWidth="1"/></cols>' +
+        '<sheetData>' +
+        '<row r="1" spans="1:5"><c r="A1" s="1" t="s"><v>0</v></c><c r="B1" s="1" t="s"><v>1</v></c><c r="D1" t="s"><v>4</v></c></row>' +
+        '<row r="2" spans="1:5"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>100</v></c><c r="C2"><f t="shared" ref="C2:C3" si="0">B2*2</f><v>200</v></c></row>' +
+        '<row r="3" spans="1:5"><c r="A3" t="s"><v>3</v></c><c r="B3"><v>80</v></c><c r="C3"><f t="shared" si="0"/><v>160</v></c></row>' +
+        '</sheetData>' +
+        '<sheetProtection sheet="1" objects="1" scenarios="1"/>' +
+        '<mergeCells count="1"><mergeCell ref="D1:E1"/></mergeCells>' +
+        '<conditionalFormatting sqref="B2:B3"><cfRule type="cellIs" dxfId="0" priority="1" operator="greaterThan"><formula>90</formula></cfRule></conditionalFormatting>' +
+        '<dataValidations count="1"><dataValidation type="whole" allowBlank="1" sqref="B2:B3"><formula1>0</formula1><formula2>1000</formula2></dataValidation></dataValidations>' +
+        '<pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/>' +
+        '<drawing r:id="rId1"/><legacyDrawing r:id="rId2"/>' +
+        '</worksheet>',
+    'xl/worksheets/_rels/sheet1.xml.rels': HEADER + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId1" Type="${REL}/drawing" Target="../drawings/drawing1.xml"/>` +
+        `<Relationship Id="rId2" Type="${REL}/vmlDrawing" Target="../drawings/vmlDrawing1.vml"/>` +
+        `<Relationship Id="rId3" Type="${REL}/comments" Target="../comments1.xml"/>` +
+        '</Relationships>',
+    'xl/worksheets/sheet2.xml': HEADER + `<worksheet ${NS}><dimension ref="A1"/><sheetData><row r="1"><c r="A1" t="s"><v>4</v></c></row></sheetData></worksheet>`,
+    'xl/comments1.xml': HEADER + '<comments xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><authors><author>Reviewer</author></authors><commentList><comment ref="B2" authorId="0"><text><t>Check price</t></text></comment></commentList></comments>',
+    'xl/drawings/vmlDrawing1.vml': '<xml xmlns:v="urn:schemas-microsoft-com:vml"><v:shape id="_x0000_s1025"/></xml>',
+    'xl/drawings/drawing1.xml': HEADER + '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing"><xdr:twoCellAnchor/></xdr:wsDr>',
+    'xl/drawings/_rels/drawing1.xml.rels': HEADER + `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL}/chart" Target="../charts/chart1.xml"/></Relationships>`,
+    'xl/charts/chart1.xml': HEADER + '<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart"><c:chart><c:plotArea><c:barChart><c:ser><c:val><c:numRef><c:f>Prices!$B$2:$B$3</c:f></c:numRef></c:val></c:ser></c:barChart></c:plotArea></c:chart></c:chartSpace>',
+    'xl/pivotCache/pivotCacheDefinition1.xml': HEADER + '<pivotCacheDefinition xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" refreshOnLoad="1"><cacheSource type="worksheet"><worksheetSource ref="A1:B3" sheet="Prices"/></cacheSource></pivotCacheDefinition>',
+};
+
+const buildPackage = () => {
+    const zip = new JSZip();
+    Object.entries(PARTS).forEach(([path, xml]) => zip.file(path, xml));
+    return zip;
+};
+
+const cell = (v: any, extra: any = {}) => ({ v, m: String(v), ...extra });
+
+/** The sheets as the editor loads them (FortuneSheet celldata) */
+const loadedSheets = (): PatchSheet[] => [
+    {
+        name: 'Prices',
+        celldata: [
+            { r: 0, c: 0, v: cell('Item') },
+            { r: 0, c: 1, v: cell('Price') },
+            { r: 0, c: 3, v: cell('Note', { mc: { r: 0, c: 3, rs: 1, cs: 2 } }) },
+            { r: 1, c: 0, v: cell('Apple') },
+            { r: 1, c: 1, v: cell(100) },
+            { r: 1, c: 2, v: cell(200, { f: '=B2*2' }) },
+            { r: 2, c: 0, v: cell('Pear') },
+            { r: 2, c: 1, v: cell(80) },
+            { r: 2, c: 2, v: cell(160, { f: '=B3*2' }) },
+        ],
+        config: { merge: { '0_3': { r: 0, c: 3, rs: 1, cs: 2 } }, columnlen: { 0: 84, 1: 84, 2: 84 } },
+    },
+    { name: 'Notes', celldata: [{ r: 0, c: 0, v: cell('Note') }] },
+];
+
+/** Edited sheets as FortuneSheet's onChange reports them (dense data matrix, no celldata) */
+const toMatrix = (sheet: PatchSheet): PatchSheet => {
+    const data: any[][] = Array.from({ length: 10 }, () => Array(10).fill(null));
+    sheet.celldata!.forEach(({ r, c, v }) => { data[r][c] = v; });
+    return {
+        name: sheet.name,
+        data,
+        config: sheet.config,
+        luckysheet_conditionformat_save: sheet.luckysheet_conditionformat_save,
+        dataVerification: sheet.dataVerification,
+        charts: sheet.charts,
+    };
+};
+
+const patch = async (edit: (sheets: PatchSheet[]) => PatchSheet[]) => {
+    const blob = await new XlsxPatcher(buildPackage()).export(loadedSheets(), edit(loadedSheets()));
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    const read = (path: string) => zip.file(path)?.async('string');
+    return { zip, read, blob };
+};
+
+/** Patch after editing the conditional formatting rules of Prices, as loaded from the package */
+const patchRules = async (edit: (rules: ConditionFormatRule[]) => ConditionFormatRule[]) => {
+    const { Prices: rules } = await readConditionalFormats(buildPackage());
+    const original = loadedSheets();
+    original[0].luckysheet_conditionformat_save = rules;
+    const current = loadedSheets().map(toMatrix);
+    current[0].luckysheet_conditionformat_save = edit([...rules]);
+    const blob = await new XlsxPatcher(buildPackage()).export(original, current);
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    return { read: (path: string) => zip.file(path)?.async('string'), blob };
+};
+
+/** Patch after editing the data validation of Prices, as loaded from the package (optionally with another sheet1.xml) */
+const patchValidations = async (
+    edit: (cells: Record<string, DataVerificationItem>) => Record<string, DataVerificationItem>,
+    sheetXml = PARTS['xl/worksheets/sheet1.xml']
+) => {
+    const build = () => buildPackage().file('xl/worksheets/sheet1.xml', sheetXml);
+    const { Prices: rules = [] } = await readDataValidations(build());
+    const original = loadedSheets();
+    original[0].dataVerification = expandDataValidations(rules, 50, 26);
+    const current = loadedSheets().map(toMatrix);
+    current[0].dataVerification = edit({ ...original[0].dataVerification });
+    const blob = await new XlsxPatcher(build()).export(original, current);
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    return { read: (path: string) => zip.file(path)?.async('string') };
+};
+
+// drawing1.xml with the chart of the fixture anchored over F2:L16
+const CHART_DRAWING = PARTS['xl/drawings/drawing1.xml'].replace('<xdr:twoCellAnchor/>',
+    '<xdr:twoCellAnchor><xdr:from><xdr:col>5</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>1</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>' +
+    '<xdr:to><xdr:col>12</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>16</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>' +
+    '<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="2" name="Chart 1"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>' +
+    '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">' +
+    '<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:id="rId1"/>' +
+    '</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:twoCellAnchor>');
+
+/** Patch after editing the charts of both sheets, as loaded from the package with its chart anchored */
+const patchCharts = async (edit: (charts: Record<string, SpreadsheetChart[]>) => Record<string, SpreadsheetChart[]>) => {
+    const build = () => buildPackage().file('xl/drawings/drawing1.xml', CHART_DRAWING);
+    const charts = await readCharts(build());
+    const original = loadedSheets();
+    original.forEach(sheet => { sheet.charts = charts[sheet.name]; });
+    const edited = edit({ ...charts });
+    const current = loadedSheets().map(toMatrix);
+    current.forEach(sheet => { sheet.charts = edited[sheet.name]; });
+    const blob = await new XlsxPatcher(build()).export(original, current);
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    return { zip, read: (path: string) => zip.file(path)?.async('string') };
+};
+
+const setCell = (sheet: PatchSheet, r: number, c: number, v: any) => {
+    const existing = sheet.celldata!.find(d => d.r === r && d.c === c);
+    if (existing) existing.v = v;
+    else sheet.celldata!.push({ r, c, v });
+};
+
+describe('XlsxPatcher Round-Trip', () => {
+    describe('Unchanged workbook', () => {
+        it('should keep every part byte-identical when nothing was edited', async () => {
+            const { zip, read } = await patch(sheets => sheets.map(toMatrix));
+
+            expect(Object.keys(zip.files).filter(path => !zip.files[path].dir).sort()).toEqual(Object.keys(PARTS).sort());
+            for (const [path, xml] of Object.entries(PARTS)) {
+                expect(await read(path)).toBe(xml);
+            }
+        });
+    });
+
+    describe('Cell edits', () => {
+        it('should patch only the edited cell and keep validation, formatting, protection, charts and comments', async () => {
+            const { read } = await patch(sheets => {
+                setCell(sheets[0], 1, 1, cell(120, { ct: { fa: 'General', t: 'n' } }));
+                return sheets.map(toMatrix);
+            });
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).toContain('<c r="B2"><v>120</v></c>');
+            expect(sheetXml).toContain('<c r="A2" t="s"><v>2</v></c>');
+            expect(sheetXml).toContain('<sheetProtection sheet="1" objects="1" scenarios="1"/>');
+            expect(sheetXml).toContain('<conditionalFormatting sqref="B2:B3">');
+            expect(sheetXml).toContain('<dataValidations count="1">');
+            expect(sheetXml).toContain('<drawing r:id="rId1"/><legacyDrawing r:id="rId2"/>');
+            for (const path of ['xl/styles.xml', 'xl/sharedStrings.xml', 'xl/comments1.xml', 'xl/charts/chart1.xml', 'xl/pivotCache/pivotCacheDefinition1.xml', 'xl/worksheets/sheet2.xml', 'xl/worksheets/_rels/sheet1.xml.rels']) {
+                expect(await read(path)).toBe(PARTS[path]);
+            }
+        });
+
+        it('should drop the calculation chain and recalculate on load once values changed', async () => {
+            const { zip, read } = await patch(sheets => {
+                setCell(sheets[0], 1, 1, cell(120));
+                return sheets;
+            });
+
+            expect(zip.file('xl/calcChain.xml')).toBeNull();
+            expect(await read('xl/_rels/workbook.xml.rels')).not.toContain('calcChain');
+            expect(await read('[Content_Types].xml')).not.toContain('calcChain');
+            const workbookXml = (await read('xl/workbook.xml'))!;
+            expect(workbookXml).toContain('<calcPr calcId="191029" fullCalcOnLoad="1"/>');
+            expect(workbookXml).toContain('<definedName name="PriceList">Prices!$A$1:$C$3</definedName>');
+            expect(workbookXml).toContain('<pivotCaches>');
+        });
+
+        it('should expand a shared formula group when its master cell is rewritten', async () => {
+            const { read } = await patch(sheets => {
+                setCell(sheets[0], 1, 2, cell(300, { f: '=B2*3' }));
+                return sheets;
+            });
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).toContain('<c r="C2"><f>B2*3</f><v>300</v></c>');
+            expect(sheetXml).toContain('<c r="C3"><f>B3*2</f><v>160</v></c>');
+            expect(sheetXml).not.toContain('t="shared"');
+        });
+
+        it('should write formulas the editor recalculated, across sheets, with their new values', async () => {
+            const { read } = await patch(sheets => {
+                setCell(sheets[0], 1, 1, cell(120));
+                setCell(sheets[0], 1, 2, cell(240, { f: '=B2*2' }));
+                setCell(sheets[1], 1, 0, cell(240, { f: '=Prices!C2' }));
+                return sheets.map(toMatrix);
+            });
+
+            expect(await read('xl/worksheets/sheet1.xml')).toContain('<c r="C2"><f>B2*2</f><v>240</v></c>');
+            expect(await read('xl/worksheets/sheet2.xml')).toContain('<c r="A2"><f>Prices!C2</f><v>240</v></c>');
+        });
+
+        it('should write new text as inline strings, clear removed values and grow the dimension', async () => {
+            const { read, blob } = await patch(sheets => {
+                setCell(sheets[0], 4, 5, cell('Total & tax'));
+                sheets[0].celldata = sheets[0].celldata!.filter(d => !(d.r === 0 && d.c === 1));
+                return sheets;
+            });
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).toContain('<row r="5"><c r="F5" t="inlineStr"><is><t xml:space="preserve">Total &amp; tax</t></is></c></row>');
+            expect(sheetXml).toContain('<c r="B1" s="1"/>');
+            expect(sheetXml).toContain('<dimension ref="A1:F5"/>');
+
+            const workbook = XLSX.read(await blob.arrayBuffer(), { type: 'array' });
+            expect(workbook.Sheets.Prices.F5.v).toBe('Total & tax');
+            expect(workbook.Sheets.Prices.B2.v).toBe(100);
+        });
+    });
+
+    describe('Styles', () => {
+        it('should derive a new cell format from the original one when a style changes', async () => {
+            const { read } = await patch(sheets => {
+                setCell(sheets[0], 0, 0, cell('Item', { bl: 1, bg: '#ffff00' }));
+                return sheets.map(toMatrix);
+            });
+            const stylesXml = (await read('xl/styles.xml'))!;
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).toContain('<c r="A1" s="2" t="s"><v>0</v></c>');
+            expect(stylesXml).toContain('<fonts count="2">');
+            expect(stylesXml).toContain('<font><b/><sz val="11"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font>');
+            expect(stylesXml).toContain('<fill><patternFill patternType="solid"><fgColor rgb="FFFFFF00"/><bgColor indexed="64"/></patternFill></fill>');
+            // Border and protection of the original format are kept
+            expect(stylesXml).toContain('<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyBorder="1" applyFont="1" applyFill="1"><protection locked="0"/></xf></cellXfs>');
+            expect(stylesXml).toContain('<dxfs count="1"><dxf><font><b/><color rgb="FF9C0006"/></font></dxf></dxfs>');
+        });
+
+        it('should reuse existing formats and add custom number formats', async () => {
+            const { read } = await patch(sheets => {
+                setCell(sheets[0], 1, 1, cell(100, { ct: { fa: '#,##0.00', t: 'n' } }));
+                setCell(sheets[0], 2, 1, cell(80, { ct: { fa: '0.0%', t: 'n' } }));
+                return sheets;
+            });
+            const stylesXml = (await read('xl/styles.xml'))!;
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).toContain('<c r="B2" s="2"><v>100</v></c>');
+            expect(sheetXml).toContain('<c r="B3" s="3"><v>80</v></c>');
+            expect(stylesXml).toContain('<numFmts count="1"><numFmt numFmtId="164" formatCode="0.0%"/></numFmts><fonts');
+            expect(stylesXml).toContain('<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>');
+        });
+    });
+
+    describe('Structure', () => {
+        it('should rewrite merges, column widths and row heights that changed', async () => {
+            const { read } = await patch(sheets => {
+                sheets[0].config = {
+                    merge: { '3_0': { r: 3, c: 0, rs: 1, cs: 3 } },
+                    columnlen: { 0: 84, 1: 140, 2: 84 },
+                    rowlen: { 1: 40 },
+                };
+                return sheets;
+            });
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).toContain('<mergeCells count="1"><mergeCell ref="A4:C4"/></mergeCells><conditionalFormatting');
+            expect(sheetXml).toContain('<cols><col min="1" max="1" width="12" customWidth="1"/><col min="2" max="2" width="20" customWidth="1"/><col min="3" max="3" width="12" customWidth="1"/></cols>');
+            expect(sheetXml).toContain('<row r="2" ht="30" customHeight="1"><c r="A2" t="s">');
+        });
+
+        it('should rename and delete sheets in the workbook', async () => {
+            const { zip, read, blob } = await patch(sheets => [{ ...sheets[0], name: 'Price List' }]);
+            const workbookXml = (await read('xl/workbook.xml'))!;
+
+            expect(workbookXml).toContain('<sheets><sheet name="Price List" sheetId="1" r:id="rId1"/></sheets>');
+            // The print area scoped to the deleted sheet goes, references to the renamed sheet follow it
+            expect(workbookXml).toContain("<definedNames><definedName name=\"PriceList\">'Price List'!$A$1:$C$3</definedName></definedNames>");
+            expect(workbookXml).toContain('<workbookView activeTab="0"/>');
+            expect(zip.file('xl/worksheets/sheet2.xml')).toBeNull();
+            expect(await read('[Content_Types].xml')).not.toContain('sheet2.xml');
+            expect(await read('xl/worksheets/sheet1.xml')).toBe(PARTS['xl/worksheets/sheet1.xml']);
+
+            const workbook = XLSX.read(await blob.arrayBuffer(), { type: 'array' });
+            expect(workbook.SheetNames).toEqual(['Price List']);
+        });
+
+        it('should add new sheets as new worksheet parts', async () => {
+            const { read, blob } = await patch(sheets => [...sheets, { name: 'Summary', celldata: [{ r: 0, c: 0, v: cell(42) }] }]);
+
+            expect(await read('xl/workbook.xml')).toContain('<sheet name="Summary" sheetId="3" r:id="rId7"/></sheets>');
+            expect(await read('xl/_rels/workbook.xml.rels')).toContain('<Relationship Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet3.xml"/>');
+            expect(await read('xl/worksheets/sheet3.xml')).toContain('<sheetData><row r="1"><c r="A1"><v>42</v></c></row></sheetData>');
+            expect(await read('[Content_Types].xml')).toContain('<Override PartName="/xl/worksheets/sheet3.xml"');
+
+            const workbook = XLSX.read(await blob.arrayBuffer(), { type: 'array' });
+            expect(workbook.SheetNames).toEqual(['Prices', 'Notes', 'Summary']);
+            expect(workbook.Sheets.Summary.A1.v).toBe(42);
+        });
+    });
+
+    describe('Conditional formatting', () => {
+        it('should keep the worksheet and styles untouched while the rules are unchanged', async () => {
+            const { read } = await patchRules(rules => rules);
+
+            expect(await read('xl/worksheets/sheet1.xml')).toBe(PARTS['xl/worksheets/sheet1.xml']);
+            expect(await read('xl/styles.xml')).toBe(PARTS['xl/styles.xml']);
+        });
+
+        it('should add a rule with a new differential format and keep the original rule', async () => {
+            const { read, blob } = await patchRules(rules => [
+                ...rules,
+                buildRule({ condition: 'formula', value: '=B2<TODAY()', textColor: '#ffffff', cellColor: '#c00000' }, parseSqref('B2:B3')),
+            ]);
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).toContain(
+                '<mergeCells count="1"><mergeCell ref="D1:E1"/></mergeCells>' +
+                '<conditionalFormatting sqref="B2:B3"><cfRule type="cellIs" dxfId="0" priority="2" operator="greaterThan"><formula>90</formula></cfRule></conditionalFormatting>' +
+                '<conditionalFormatting sqref="B2:B3"><cfRule type="expression" dxfId="1" priority="1"><formula>B2&lt;TODAY()</formula></cfRule></conditionalFormatting>' +
+                '<dataValidations count="1">'
+            );
+            expect(await read('xl/styles.xml')).toContain(
+                '<dxfs count="2"><dxf><font><b/><color rgb="FF9C0006"/></font></dxf>' +
+                '<dxf><font><color rgb="FFFFFFFF"/></font><fill><patternFill><bgColor rgb="FFC00000"/></patternFill></fill></dxf></dxfs>'
+            );
+            expect(XLSX.read(await blob.arrayBuffer(), { type: 'array' }).SheetNames).toEqual(['Prices', 'Notes']);
+        });
+
+        it('should remove the conditional formatting when every rule is deleted', async () => {
+            const { read } = await patchRules(() => []);
+            const sheetXml = (await read('xl/worksheets/sheet1.xml'))!;
+
+            expect(sheetXml).not.toContain('conditionalFormatting');
+            expect(sheetXml).toContain('<mergeCells count="1"><mergeCell ref="D1:E1"/></mergeCells><dataValidations count="1">');
+            expect(await read('xl/styles.xml')).toBe(PARTS['xl/styles.xml']);
+        });
+    });
+
+    describe('Data validation', () => {
+        const STATUS: DataVerificationItem = {
+            type: 'dropdown', type2: '', rangeTxt: 'A2:A3', value1: 'Apple,Pear,Plum', value2: '', validity: '',
+            remote: false, prohibitInput: true, hintShow: false, hintValue: '',
+        };
+
+        it('should keep the worksheet untouched while the validations are unchanged', async () => {
+            const { read } = await patchValidations(cells => cells);
+
+            expect(await read('xl/worksheets/sheet1.xml')).toBe(PARTS['xl/worksheets/sheet1.xml']);
+        });
+
+        it('should add a dropdown and keep the original validation', async () => {
+            const { read } = await patchValidations(cells => ({ ...cells, '1_0': STATUS, '2_0': STATUS }));
+
+            expect(await read('xl/worksheets/sheet1.xml')).toContain(
+                '</conditionalFormatting><dataValidations count="2">' +
+                '<dataValidation type="whole" allowBlank="1" sqref="B2:B3"><formula1>0</formula1><formula2>1000</formula2></dataValidation>' +
+                '<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="A2:A3"><formula1>&quot;Apple,Pear,Plum&quot;</formula1></dataValidation>' +
+                '</dataValidations><pageMargins'
+            );
+        });
+
+        it('should follow cells removed from a validation and drop emptied validations', async () => {
+            const shrunk = await patchValidations(cells => {
+                delete cells['2_1'];
+                return cells;
+            });
+            expect(await shrunk.read('xl/worksheets/sheet1.xml')).toContain(
+                '<dataValidations count="1"><dataValidation type="whole" allowBlank="1" sqref="B2"><formula1>0</formula1><formula2>1000</formula2></dataValidation></dataValidations>'
+            );
+
+            const removed = await patchValidations(() => ({}));
+            const sheetXml = (await removed.read('xl/worksheets/sheet1.xml'))!;
+            expect(sheetXml).not.toContain('dataValidation');
+            expect(sheetXml).toContain('</conditionalFormatting><pageMargins');
+        });
+
+        it('should keep validations the editor does not represent', async () => {
+            const custom = '<dataValidation type="custom" allowBlank="1" sqref="C2:C3"><formula1>C2&gt;B2</formula1></dataValidation>';
+            const sheetXml = PARTS['xl/worksheets/sheet1.xml'].replace('<dataValidations count="1">', `<dataValidations count="2">${custom}`);
+            const { read } = await patchValidations(() => ({}), sheetXml);
+
+            expect(await read('xl/worksheets/sheet1.xml')).toContain(`<dataValidations count="1">${custom}</dataValidations>`);
+        });
+    });
+
+    describe('Charts', () => {
+        it('should keep the drawing and chart parts untouched while the charts are unchanged', async () => {
+            const { read } = await patchCharts(charts => charts);
+
+            expect(await read('xl/drawings/drawing1.xml')).toBe(CHART_DRAWING);
+            expect(await read('xl/charts/chart1.xml')).toBe(PARTS['xl/charts/chart1.xml']);
+            expect(await read('xl/worksheets/sheet1.xml')).toBe(PARTS['xl/worksheets/sheet1.xml']);
+        });
+
+        it('should move an anchor and rewrite only the edited chart', async () => {
+            const { zip, read } = await patchCharts(({ Prices: [chart] }) => ({
+                Prices: [{ ...chart, title: 'Prices', anchor: { from: { r: 4, c: 0 }, to: { r: 19, c: 7 } } }],
+            }));
+            const drawingXml = (await read('xl/drawings/drawing1.xml'))!;
+
+            expect(drawingXml).toContain('<xdr:from><xdr:col>0</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>4</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>');
+            expect(drawingXml).toContain('<xdr:cNvPr id="2" name="Chart 1"/>');
+            expect(await read('xl/charts/chart1.xml')).toContain('<c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="2"/><c:pt idx="0"><c:v>100</c:v></c:pt>');
+            expect((await readCharts(zip)).Prices).toEqual([{
+                id: 'xl/charts/chart1.xml', type: 'column', title: 'Prices', series: [{ values: 'Prices!$B$2:$B$3' }],
+                anchor: { from: { r: 4, c: 0 }, to: { r: 19, c: 7 } },
+            }]);
+        });
+
+        it('should add a drawing to a sheet without one for a new chart', async () => {
+            const { zip, read } = await patchCharts(charts => ({
+                ...charts,
+                Notes: [chartFromRange('Prices', parseSqref('A1:B3')[0], { type: 'pie', title: 'Share', headers: true, id: 'new' })],
+            }));
+
+            expect(await read('xl/worksheets/sheet2.xml')).toContain('</sheetData><drawing r:id="rId1"/></worksheet>');
+            expect(await read('xl/worksheets/_rels/sheet2.xml.rels')).toContain(`<Relationship Id="rId1" Type="${REL}/drawing" Target="../drawings/drawing2.xml"/>`);
+            expect(await read('xl/drawings/_rels/drawing2.xml.rels')).toContain(`<Relationship Id="rId1" Type="${REL}/chart" Target="../charts/chart2.xml"/>`);
+            const contentTypes = (await read('[Content_Types].xml'))!;
+            expect(contentTypes).toContain('<Override PartName="/xl/drawings/drawing2.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>');
+            expect(contentTypes).toContain('<Override PartName="/xl/charts/chart2.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>');
+            expect(await read('xl/charts/chart2.xml')).toContain('<c:tx><c:strRef><c:f>Prices!$B$1</c:f><c:strCache><c:ptCount val="1"/><c:pt idx="0"><c:v>Price</c:v></c:pt></c:strCache></c:strRef></c:tx>');
+
+            const { Notes: [chart] } = await readCharts(zip);
+            expect(chart).toMatchObject({ id: 'xl/charts/chart2.xml', type: 'pie', title: 'Share', anchor: { from: { r: 0, c: 3 } } });
+            expect(await read('xl/charts/chart1.xml')).toBe(PARTS['xl/charts/chart1.xml']);
+        });
+
+        it('should remove deleted charts with their parts', async () => {
+            const { zip, read } = await patchCharts(() => ({ Prices: [] }));
+
+            expect(zip.file('xl/charts/chart1.xml')).toBeNull();
+            expect(await read('xl/drawings/drawing1.xml')).not.toContain('twoCellAnchor');
+            expect(await read('xl/drawings/_rels/drawing1.xml.rels')).not.toContain('chart1.xml');
+            expect(await read('[Content_Types].xml')).not.toContain('/xl/charts/chart1.xml');
+        });
+    });
+
+    describe('Prefixed SpreadsheetML', () => {
+        // The SpreadsheetML parts as the OpenXML SDK writes them: <x:worksheet xmlns:x="…">
+        const prefixed = (xml: string) => withPrefix(xml, 'x:').replace(/\sxmlns="(http:\/\/schemas\.openxmlformats\.org\/spreadsheetml\/2006\/main)"/, ' xmlns:x="$1"');
+        const PREFIXED_PARTS = ['xl/workbook.xml', 'xl/styles.xml', 'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml'];
+        const unprefixedElement = /<\/?(?!x:)[A-Za-z]/;
+
+        it('should patch prefixed parts with their prefix instead of adding unprefixed elements', async () => {
+            const zip = buildPackage();
+            PREFIXED_PARTS.forEach(path => zip.file(path, prefixed(PARTS[path])));
+            const sheets = loadedSheets();
+            setCell(sheets[0], 1, 1, cell(120, { bl: 1 }));
+            setCell(sheets[0], 4, 5, cell('Total'));
+            sheets[0].config = { ...sheets[0].config, columnlen: { 0: 84, 1: 140, 2: 84 } };
+            sheets.push({ name: 'Summary', celldata: [{ r: 0, c: 0, v: cell(42) }] });
+
+            const blob = await new XlsxPatcher(zip).export(loadedSheets(), sheets.map(toMatrix));
+            const result = await JSZip.loadAsync(await blob.arrayBuffer());
+            const read = async (path: string) => (await result.file(path)!.async('string')).slice(HEADER.length);
+            const sheetXml = await read('xl/worksheets/sheet1.xml');
+            const stylesXml = await read('xl/styles.xml');
+            const workbookXml = await read('xl/workbook.xml');
+
+            expect(sheetXml.match(/<(?:\w+:)?sheetData\b/g)).toEqual(['<x:sheetData']);
+            expect(sheetXml).toContain('<x:c r="B2" s="2"><x:v>120</x:v></x:c>');
+            expect(sheetXml).toContain('<x:row r="5"><x:c r="F5" t="inlineStr"><x:is><x:t xml:space="preserve">Total</x:t></x:is></x:c></x:row>');
+            expect(sheetXml).toContain('<x:col min="2" max="2" width="20" customWidth="1"/>');
+            expect(sheetXml).toContain('<x:dimension ref="A1:F5"/>');
+            expect(stylesXml).toContain('<x:fonts count="2">');
+            expect(stylesXml).toContain('<x:font><x:b/><x:sz val="11"/>');
+            expect(workbookXml).toContain('<x:sheet name="Summary" sheetId="3" r:id="rId7"/></x:sheets>');
+            expect(workbookXml).toContain('<x:calcPr calcId="191029" fullCalcOnLoad="1"/>');
+            for (const xml of [sheetXml, stylesXml, workbookXml]) {
+                expect(xml).not.toMatch(unprefixedElement);
+            }
+
+            const workbook = XLSX.read(await blob.arrayBuffer(), { type: 'array' });
+            expect(workbook.SheetNames).toEqual(['Prices', 'Notes', 'Summary']);
+            expect(workbook.Sheets.Prices.B2.v).toBe(120);
+            expect(workbook.Sheets.Prices.F5.v).toBe('Total');
+        });
+    });
+});
@@ -0,0 +1,705 @@
+import JSZip from 'jszip';
+import {
+    anchorChartRelId,
+    anchorKey,
+    anchorMarkers,
+    buildChartAnchor,
+    buildChartXml,
+    chartKey,
+    ChartCellReader,
+    drawingPathOf,
+    EMPTY_DRAWING_XML,
+    sameCharts,
+    SpreadsheetChart,
+} from './charts';
+import { ConditionFormatRule, ruleKey, sameRules, serializeConditionalFormats } from './conditionalFormat';
+import { DataVerificationItem, parseDataValidation, sameValidations, serializeDataValidations } from './dataValidation';
+import { folderOf, relsPathOf, resolveTarget, workbookPath, WORKSHEET_REL_TYPE } from './package';
+import { CellStylePatch, EMPTY_STYLES_XML, XlsxStyles } from './styles';
+import {
+    decodeCell,
+    encodeCell,
+    escapeXml,
+    findElement,
+    findElements,
+    getAttr,
+    innerXml,
+    insertInOrder,
+    removeElements,
+    rootPrefix,
+    setAttr,
+    withInnerXml,
+    withPrefix,
+} from './xml';
+
+/** Cell value as held by FortuneSheet (styles live on the value object) */
+interface PatchCellValue {
+    v?: string | number | boolean | null;
+    f?: string;
+    ct?: { fa?: string; t?: string; s?: { v?: string }[] };
+    bl?: number;
+    it?: number;
+    un?: number;
+    cl?: number;
+    fs?: number;
+    ff?: number | string;
+    fc?: string;
+    bg?: string;
+    ht?: number;
+    vt?: number;
+    tb?: string;
+}
+
+/**
+ * A sheet as loaded into FortuneSheet (`celldata`) or as reported by its onChange (`data` matrix)
+ */
+export interface PatchSheet {
+    name: string;
+    celldata?: { r: number; c: number; v: PatchCellValue | null }[];
+    data?: (PatchCellValue | null)[][];
+    config?: {
+        merge?: Record<string, { r: number; c: number; rs: number; cs: number }>;
+        rowlen?: Record<string, number>;
+        columnlen?: Record<string, number>;
+    };
+    luckysheet_conditionformat_save?: ConditionFormatRule[];
+    dataVerification?: Record<string, DataVerificationItem>;
+    charts?: SpreadsheetChart[];
+}
+
+interface CellContent {
+    value?: string | number | boolean;
+    formula?: string;
+}
+
+interface RowModel {
+    xml: string;
+    cells: Map<number, string>;
+    dirty: boolean;
+}
+
+interface PackageSheet {
+    element: string;
+    name: string;
+    path: string | null;
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const WORKSHEET_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml';
+const STYLES_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml';
+const DRAWING_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.drawing+xml';
+const CHART_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.drawingml.chart+xml';
+
+const EMPTY_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+// Element order of CT_Worksheet and CT_Workbook
+const WORKSHEET_ORDER = [
+    'sheetPr', 'dimension', 'sheetViews', 'sheetFormatPr', 'cols', 'sheetData', 'sheetCalcPr', 'sheetProtection',
+    'protectedRanges', 'scenarios', 'autoFilter', 'sortState', 'dataConsolidate', 'customSheetViews', 'mergeCells',
+    'phoneticPr', 'conditionalFormatting', 'dataValidations', 'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup',
+    'headerFooter', 'rowBreaks', 'colBreaks', 'customProperties', 'cellWatches', 'ignoredErrors', 'smartTags', 'drawing',
+    'legacyDrawing', 'legacyDrawingHF', 'picture', 'oleObjects', 'controls', 'webPublishItems', 'tableParts', 'extLst',
+];
+const WORKBOOK_ORDER = [
+    'fileVersion', 'fileSharing', 'workbookPr', 'workbookProtection', 'bookViews', 'sheets', 'functionGroups',
+    'externalReferences', 'definedNames', 'calcPr', 'oleSize', 'customWorkbookViews', 'pivotCaches', 'smartTagPr',
+    'smartTagTypes', 'webPublishing', 'fileRecoveryPr', 'webPublishObjects', 'extLst',
+];
+
+const H_ALIGN: Record<number, string> = { 0: 'center', 1: 'left', 2: 'right' };
+const V_ALIGN: Record<number, string> = { 0: 'center', 1: 'top', 2: 'bottom' };
+
+// FortuneSheet sizes are pixels; SpreadsheetML uses character widths and points
+const PX_PER_CHAR = 7;
+const PT_PER_PX = 0.75;
+
+const EMPTY_WORKSHEET_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><dimension ref="A1"/><sheetData/>` +
+    '<pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/></worksheet>';
+
+const cellsOf = (sheet: PatchSheet | undefined): Map<string, PatchCellValue | null> => {
+    const cells = new Map<string, PatchCellValue | null>();
+    if (!sheet) return cells;
+    if (sheet.data) {
+        sheet.data.forEach((row, r) => row?.forEach((cell, c) => {
+            if (cell) cells.set(`${r}_${c}`, cell);
+        }));
+    } else {
+        sheet.celldata?.forEach(cell => cells.set(`${cell.r}_${cell.c}`, cell.v));
+    }
+    return cells;
+};
+
+const contentOf = (cell: PatchCellValue | null | undefined): CellContent => {
+    if (!cell) return {};
+    const formula = cell.f ? String(cell.f).replace(/^=/, '') : undefined;
+    let value = cell.v ?? undefined;
+    // Rich text typed in FortuneSheet keeps its runs in ct.s instead of v
+    if (value === undefined && cell.ct?.t === 'inlineStr' && cell.ct.s) {
+        value = cell.ct.s.map(run => run.v || '').join('');
+    }
+    if (typeof value === 'string' && cell.ct?.t === 'n' && value.trim() !== '' && !isNaN(Number(value))) {
+        value = Number(value);
+    }
+    return { value: value === '' ? undefined : value, formula };
+};
+
+const styleOf = (cell: PatchCellValue | null | undefined): Required<CellStylePatch> => ({
+    bold: !!cell?.bl,
+    italic: !!cell?.it,
+    underline: !!cell?.un,
+    strike: !!cell?.cl,
+    fontSize: cell?.fs ?? null,
+    fontName: typeof cell?.ff === 'string' ? cell.ff : null,
+    fontColor: cell?.fc ?? null,
+    fill: cell?.bg ?? null,
+    horizontal: cell?.ht !== undefined ? H_ALIGN[cell.ht] ?? null : null,
+    vertical: cell?.vt !== undefined ? V_ALIGN[cell.vt] ?? null : null,
+    wrap: cell?.tb === '1',
+    numFmt: cell?.ct?.fa && cell.ct.fa !== 'General' ? cell.ct.fa : null,
+});
+
+/** Only the style properties that differ between the loaded and the edited cell */
+const styleDiff = (before: PatchCellValue | null | undefined, after: PatchCellValue | null | undefined): CellStylePatch => {
+    const a = styleOf(before);
+    const b = styleOf(after);
+    const patch: CellStylePatch = {};
+    (Object.keys(b) as (keyof CellStylePatch)[]).forEach(key => {
+        if (a[key] !== b[key]) (patch as Record<string, unknown>)[key] = b[key];
+    });
+    return patch;
+};
+
+const buildCell = (ref: string, style: string | undefined, content: CellContent): string => {
+    const s = style !== undefined ? ` s="${style}"` : '';
+    const { value, formula } = content;
+    const f = formula ? `<f>${escapeXml(formula)}</f>` : '';
+
+    if (typeof value === 'number') return `<c r="${ref}"${s}>${f}<v>${value}</v></c>`;
+    if (typeof value === 'boolean') return `<c r="${ref}"${s} t="b">${f}<v>${value ? 1 : 0}</v></c>`;
+    if (typeof value === 'string') {
+        return formula
+            ? `<c r="${ref}"${s} t="str">${f}<v>${escapeXml(value)}</v></c>`
+            : `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }
+    return f ? `<c r="${ref}"${s}>${f}</c>` : `<c r="${ref}"${s}/>`;
+};
+
+const quoteSheetName = (name: string) => (/^[A-Za-z_][\w.]*$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`);
+
+const mergeKeys = (sheet: PatchSheet | undefined): string[] =>
+    Object.values(sheet?.config?.merge || {}).map(m => `${encodeCell(m.r, m.c)}:${encodeCell(m.r + m.rs - 1, m.c + m.cs - 1)}`).sort();
+
+const changedSizes = (before: Record<string, number> = {}, after: Record<string, number> = {}): Map<number, number | null> => {
+    const changed = new Map<number, number | null>();
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+        if (before[key] !== after[key]) changed.set(parseInt(key, 10), after[key] ?? null);
+    });
+    return changed;
+};
+
+const removeOverride = (contentTypesXml: string, path: string): string => {
+    const override = findElements(contentTypesXml, 'Override').find(o => getAttr(o, 'PartName') === `/${path}`);
+    return override ? contentTypesXml.replace(override, '') : contentTypesXml;
+};
+
+const addOverride = (contentTypesXml: string, path: string, contentType: string): string =>
+    contentTypesXml.replace('</Types>', `<Override PartName="/${path}" ContentType="${contentType}"/></Types>`);
+
+/** Add a relationship with the next free id */
+const addRelationship = (relsXml: string, type: string, target: string): { relsXml: string; id: string } => {
+    const relIds = findElements(relsXml, 'Relationship').map(r => parseInt((getAttr(r, 'Id') || '').replace(/\D/g, '') || '0', 10));
+    const id = `rId${Math.max(0, ...relIds) + 1}`;
+    return { relsXml: relsXml.replace('</Relationships>', `<Relationship Id="${id}" Type="${type}" Target="${target}"/></Relationships>`), id };
+};
+
+// si of a cell that takes part in a shared formula
+const sharedFormulaGroup = (cellXml: string | undefined): string | undefined => {
+    const f = cellXml?.match(/<(?:[\w.-]+:)?f\b[^>]*>/)?.[0];
+    return f && getAttr(f, 't') === 'shared' ? getAttr(f, 'si') : undefined;
+};
+
+/**
+ * Saves an XLSX by patching the original package instead of regenerating it.
+ * Parts may use a prefixed SpreadsheetML namespace (`<x:worksheet>`); elements are matched and
+ * written with the prefix of the part.
+ *
+ * Only cells, styles, merges, row/column sizes, conditional formatting, data validation and
+ * charts that differ between the sheets as loaded into the editor and the edited sheets are
+ * rewritten; defined names, pivot caches, comments, protection and every other part are carried
+ * over untouched.
+ */
+export class XlsxPatcher {
+    private zip: JSZip;
+    private styles: XlsxStyles = new XlsxStyles(EMPTY_STYLES_XML);
+    private stylesPath: string | null = null;
+    private valuesChanged = false;
+
+    constructor(originalZip: JSZip) {
+        this.zip = originalZip;
+    }
+
+    async export(original: PatchSheet[], current: PatchSheet[]): Promise<Blob> {
+        this.valuesChanged = false;
+
+        const workbookPart = await workbookPath(this.zip);
+        const relsPath = relsPathOf(workbookPart);
+        let workbookXml = await this.read(workbookPart);
+        let relsXml = await this.read(relsPath);
+        let contentTypesXml = await this.read('[Content_Types].xml');
+        const base = folderOf(workbookPart);
+
+        const relationships = findElements(relsXml, 'Relationship');
+        const packageSheets: PackageSheet[] = findElements(workbookXml, `${rootPrefix(workbookXml, 'workbook')}sheet`).map(element => {
+            const rel = relationships.find(r => getAttr(r, 'Id') === getAttr(element, 'r:id'));
+            const isWorksheet = rel && getAttr(rel, 'Type') === WORKSHEET_REL_TYPE;
+            return {
+                element,
+                name: getAttr(element, 'name') || '',
+                path: isWorksheet ? resolveTarget(getAttr(rel, 'Target')!, base) : null,
+            };
+        });
+
+        await this.loadStyles(relationships, base);
+
+        const cellsByName = new Map(current.map(sheet => [sheet.name, cellsOf(sheet)]));
+        const cellReader = (sheetName: string): ChartCellReader => (name, r, c) => {
+            const { value } = contentOf(cellsByName.get(name ?? sheetName)?.get(`${r}_${c}`));
+            return typeof value === 'boolean' ? String(value).toUpperCase() : value;
+        };
+
+        // Match edited sheets to package sheets by name; a sheet whose name is new and whose
+        // original at the same position is gone was renamed
+        const currentNames = new Set(current.map(sheet => sheet.name));
+        const matched = new Set<PackageSheet>();
+        for (const [index, sheet] of current.entries()) {
+            let before = original.find(o => o.name === sheet.name);
+            if (!before && original[index] && !currentNames.has(original[index].name)) {
+                before = original[index];
+            }
+            const packageSheet = before && packageSheets.find(p => p.name === before!.name && !matched.has(p));
+
+            if (packageSheet) {
+                matched.add(packageSheet);
+                if (packageSheet.name !== sheet.name) {
+                    workbookXml = this.renameSheet(workbookXml, packageSheet, sheet.name);
+                }
+                if (packageSheet.path) {
+                    let xml = this.patchWorksheet(await this.read(packageSheet.path), before, sheet);
+                    ({ xml, contentTypesXml } = await this.patchCharts(packageSheet.path, xml, before?.charts || [], sheet.charts || [], contentTypesXml, cellReader(sheet.name)));
+                    this.zip.file(packageSheet.path, xml);
+                }
+            } else {
+                let path: string;
+                ({ workbookXml, relsXml, contentTypesXml, path } = this.addSheet(workbookXml, relsXml, contentTypesXml, base, sheet));
+                if (sheet.charts?.length) {
+                    let xml: string;
+                    ({ xml, contentTypesXml } = await this.patchCharts(path, await this.read(path), [], sheet.charts, contentTypesXml, cellReader(sheet.name)));
+                    this.zip.file(path, xml);
+                }
+            }
+        }
+
+        // Sheets deleted in the editor (sheets the editor never loaded are left alone)
+        const deleted = packageSheets.filter(p => !matched.has(p) && original.some(o => o.name === p.name));
+        for (const packageSheet of deleted) {
+            ({ workbookXml, relsXml, contentTypesXml } = this.removeSheet(workbookXml, relsXml, contentTypesXml, packageSheet));
+        }
+
+        if (this.styles.isChanged) {
+            if (!this.stylesPath) {
+                // Package without styles: add the part created on first use
+                this.stylesPath = `${base}styles.xml`;
+                relsXml = relsXml.replace('</Relationships>', `<Relationship Id="rIdStyles" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`);
+                contentTypesXml = addOverride(contentTypesXml, this.stylesPath, STYLES_CONTENT_TYPE);
+            }
+            this.zip.file(this.stylesPath, this.styles.toXml());
+        }
+
+        // Cached formula results and the calculation chain are stale once values changed
+        if (this.valuesChanged || deleted.length > 0) {
+            workbookXml = this.requestFullCalc(workbookXml);
+            const calcChain = relationships.find(r => /\/calcChain$/.test(getAttr(r, 'Type') || ''));
+            if (calcChain) {
+                const path = resolveTarget(getAttr(calcChain, 'Target')!, base);
+                this.zip.remove(path);
+                relsXml = relsXml.replace(calcChain, '');
+                contentTypesXml = removeOverride(contentTypesXml, path);
+            }
+        }
+
+        this.zip.file(workbookPart, workbookXml);
+        this.zip.file(relsPath, relsXml);
+        this.zip.file('[Content_Types].xml', contentTypesXml);
+
+        return this.zip.generateAsync({
+            type: 'blob',
+            mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            compression: 'DEFLATE'
+        });
+    }
+
+    private async read(path: string): Promise<string> {
+        const file = this.zip.file(path);
+        if (!file) throw new Error(`Missing part in XLSX package: ${path}`);
+        return file.async('string');
+    }
+
+    private async loadStyles(relationships: string[], base: string): Promise<void> {
+        const rel = relationships.find(r => /\/styles$/.test(getAttr(r, 'Type') || ''));
+        this.stylesPath = rel ? resolveTarget(getAttr(rel, 'Target')!, base) : null;
+        const file = this.stylesPath ? this.zip.file(this.stylesPath) : null;
+        if (!file) this.stylesPath = null;
+        this.styles = new XlsxStyles(file ? await file.async('string') : EMPTY_STYLES_XML);
+    }
+
+    private patchWorksheet(xml: string, before: PatchSheet | undefined, after: PatchSheet): string {
+        const beforeCells = cellsOf(before);
+        const afterCells = cellsOf(after);
+        const p = rootPrefix(xml, 'worksheet');
+
+        const sheetData = findElement(xml, `${p}sheetData`) || `<${p}sheetData/>`;
+        const rows = new Map<number, RowModel>();
+        let previousRow = -1;
+        for (const rowXml of findElements(innerXml(sheetData, `${p}sheetData`), `${p}row`)) {
+            const r = getAttr(rowXml, 'r') ? parseInt(getAttr(rowXml, 'r')!, 10) - 1 : previousRow + 1;
+            const cells = new Map<number, string>();
+            let previousCol = -1;
+            for (const cellXml of findElements(innerXml(rowXml, `${p}row`), `${p}c`)) {
+                const ref = getAttr(cellXml, 'r');
+                const c = ref ? decodeCell(ref)!.c : previousCol + 1;
+                cells.set(c, cellXml);
+                previousCol = c;
+            }
+            rows.set(r, { xml: rowXml, cells, dirty: false });
+            previousRow = r;
+        }
+        const rowOf = (r: number): RowModel => {
+            if (!rows.has(r)) rows.set(r, { xml: `<${p}row r="${r + 1}"></${p}row>`, cells: new Map(), dirty: true });
+            return rows.get(r)!;
+        };
+
+        // Shared formulas are stored once on their master cell; when a master is rewritten
+        // every cell of its group gets its own (already expanded) formula
+        const keys = new Set([...beforeCells.keys(), ...afterCells.keys()]);
+        const isValueChanged = (key: string) => {
+            const a = contentOf(beforeCells.get(key));
+            const b = contentOf(afterCells.get(key));
+            return a.value !== b.value || a.formula !== b.formula;
+        };
+        const brokenGroups = new Set<string>();
+        keys.forEach(key => {
+            const [r, c] = key.split('_').map(Number);
+            const cellXml = rows.get(r)?.cells.get(c);
+            const group = sharedFormulaGroup(cellXml);
+            if (group !== undefined && /<(?:[\w.-]+:)?f\b[^>]*\sref="/.test(cellXml!) && isValueChanged(key)) brokenGroups.add(group);
+        });
+        if (brokenGroups.size > 0) {
+            rows.forEach((row, r) => row.cells.forEach((cellXml, c) => {
+                if (brokenGroups.has(sharedFormulaGroup(cellXml) ?? '')) keys.add(`${r}_${c}`);
+            }));
+        }
+
+        let sheetDataChanged = false;
+        keys.forEach(key => {
+            const [r, c] = key.split('_').map(Number);
+            const afterCell = afterCells.get(key);
+            const existing = rows.get(r)?.cells.get(c);
+            const valueChanged = isValueChanged(key) || brokenGroups.has(sharedFormulaGroup(existing) ?? '');
+            // A cell that disappeared was cleared: its format stays
+            const patch = afterCell ? styleDiff(beforeCells.get(key), afterCell) : {};
+            const styleChanged = Object.keys(patch).length > 0;
+            if (!valueChanged && !styleChanged) return;
+
+            let style = existing ? getAttr(existing, 's') : undefined;
+            if (styleChanged) {
+                style = String(this.styles.derive(parseInt(style || '0', 10), patch));
+            }
+
+            const ref = encodeCell(r, c);
+            const cellXml = valueChanged
+                ? buildCell(ref, style, contentOf(afterCell))
+                : setAttr(existing || `<c r="${ref}"/>`, 's', style ?? null);
+            if (valueChanged) this.valuesChanged = true;
+
+            const row = rowOf(r);
+            row.cells.set(c, cellXml);
+            row.dirty = true;
+            sheetDataChanged = true;
+        });
+
+        // Row heights
+        changedSizes(before?.config?.rowlen, after.config?.rowlen).forEach((px, r) => {
+            const row = rowOf(r);
+            row.xml = px === null
+                ? setAttr(setAttr(row.xml, 'ht', null), 'customHeight', null)
+                : setAttr(setAttr(row.xml, 'ht', String(Math.round(px * PT_PER_PX * 100) / 100)), 'customHeight', '1');
+            row.dirty = true;
+            sheetDataChanged = true;
+        });
+
+        if (sheetDataChanged) {
+            const rowXml = [...rows.entries()].sort(([a], [b]) => a - b).map(([, row]) => {
+                if (!row.dirty) return row.xml;
+                const cells = [...row.cells.entries()].sort(([a], [b]) => a - b).map(([, cell]) => cell).join('');
+                // spans is only an optimization hint and may no longer be accurate
+                return withInnerXml(setAttr(row.xml, 'spans', null), `${p}row`, withPrefix(cells, p));
+            }).join('');
+            const updated = withInnerXml(sheetData, `${p}sheetData`, rowXml);
+            xml = xml.includes(sheetData) ? xml.replace(sheetData, () => updated) : insertInOrder(xml, 'worksheet', WORKSHEET_ORDER, 'sheetData', updated);
+            xml = this.updateDimension(xml, rows);
+        }
+
+        xml = this.patchColumns(xml, changedSizes(before?.config?.columnlen, after.config?.columnlen));
+
+        const merges = mergeKeys(after);
+        if (merges.join() !== mergeKeys(before).join()) {
+            xml = removeElements(xml, `${p}mergeCells`);
+            if (merges.length > 0) {
+                const element = `<mergeCells count="${merges.length}">${merges.map(ref => `<mergeCell ref="${ref}"/>`).join('')}</mergeCells>`;
+                xml = insertInOrder(xml, 'worksheet', WORKSHEET_ORDER, 'mergeCells', element);
+            }
+        }
+
+        xml = this.patchConditionalFormats(xml, before?.luckysheet_conditionformat_save || [], after.luckysheet_conditionformat_save || []);
+        xml = this.patchDataValidations(xml, before?.dataVerification || {}, after.dataVerification || {});
+
+        return xml;
+    }
+
+    /** Rewrite the conditional formatting when its rules changed; unchanged rules keep their original XML */
+    private patchConditionalFormats(xml: string, before: ConditionFormatRule[], after: ConditionFormatRule[]): string {
+        if (sameRules(before, after)) return xml;
+        const originalKeys = new Map(before.filter(rule => rule.xml).map(rule => [rule.xml!, ruleKey(rule)]));
+        const elements = serializeConditionalFormats(
+            after,
+            format => this.styles.addDxf(format),
+            rule => (rule.xml && originalKeys.get(rule.xml) === ruleKey(rule) ? rule.xml : undefined)
+        );
+        xml = removeElements(xml, `${rootPrefix(xml, 'worksheet')}conditionalFormatting`);
+        return elements ? insertInOrder(xml, 'worksheet', WORKSHEET_ORDER, 'conditionalFormatting', elements) : xml;
+    }
+
+    /**
+     * Rewrite the data validations when they changed. Validations the editor cannot represent
+     * were never loaded into it and are kept as they are.
+     */
+    private patchDataValidations(xml: string, before: Record<string, DataVerificationItem>, after: Record<string, DataVerificationItem>): string {
+        if (sameValidations(before, after)) return xml;
+        const p = rootPrefix(xml, 'worksheet');
+        const existing = findElement(xml, `${p}dataValidations`);
+        const kept = existing ? findElements(existing, `${p}dataValidation`).filter(element => !parseDataValidation(element)) : [];
+        const elements = [...kept, ...serializeDataValidations(after, before)];
+        xml = removeElements(xml, `${p}dataValidations`);
+        return elements.length > 0
+            ? insertInOrder(xml, 'worksheet', WORKSHEET_ORDER, 'dataValidations', `<dataValidations count="${elements.length}">${elements.join('')}</dataValidations>`)
+            : xml;
+    }
+
+    /**
+     * Write the charts of a sheet back into its drawing part. Charts the editor did not change
+     * keep their original part (and its styling); charts the editor cannot draw were never loaded
+     * into it and are kept as they are.
+     */
+    private async patchCharts(
+        sheetPath: string,
+        xml: string,
+        before: SpreadsheetChart[],
+        after: SpreadsheetChart[],
+        contentTypesXml: string,
+        read: ChartCellReader
+    ): Promise<{ xml: string; contentTypesXml: string }> {
+        if (sameCharts(before, after)) return { xml, contentTypesXml };
+
+        let drawingPath = await drawingPathOf(this.zip, sheetPath, xml);
+        if (!drawingPath) {
+            let n = 1;
+            while (this.zip.file(resolveTarget(`../drawings/drawing${n}.xml`, folderOf(sheetPath)))) n++;
+            drawingPath = resolveTarget(`../drawings/drawing${n}.xml`, folderOf(sheetPath));
+            const sheetRels = addRelationship(this.zip.file(relsPathOf(sheetPath)) ? await this.read(relsPathOf(sheetPath)) : EMPTY_RELS_XML, `${REL_NS}/drawing`, `../drawings/drawing${n}.xml`);
+            this.zip.file(relsPathOf(sheetPath), sheetRels.relsXml);
+            this.zip.file(drawingPath, EMPTY_DRAWING_XML);
+            contentTypesXml = addOverride(contentTypesXml, drawingPath, DRAWING_CONTENT_TYPE);
+            const root = xml.match(new RegExp(`<${rootPrefix(xml, 'worksheet')}worksheet\\b[^>]*>`))![0];
+            if (!/\sxmlns:r="/.test(root)) xml = xml.replace(root, () => setAttr(root, 'xmlns:r', REL_NS));
+            xml = insertInOrder(xml, 'worksheet', WORKSHEET_ORDER, 'drawing', `<drawing r:id="${sheetRels.id}"/>`);
+        }
+        const drawingRelsPath = relsPathOf(drawingPath);
+        let drawingXml = await this.read(drawingPath);
+        let drawingRels = this.zip.file(drawingRelsPath) ? await this.read(drawingRelsPath) : EMPTY_RELS_XML;
+
+        const relOf = (chartId: string) => findElements(drawingRels, 'Relationship')
+            .find(r => /\/chart$/.test(getAttr(r, 'Type') || '') && resolveTarget(getAttr(r, 'Target')!, folderOf(drawingPath!)) === chartId);
+        const anchorOf = (chartId: string) => {
+            const relId = getAttr(relOf(chartId) || '<Relationship/>', 'Id');
+            return relId ? findElements(drawingXml, 'xdr:twoCellAnchor').find(anchor => anchorChartRelId(anchor) === relId) : undefined;
+        };
+        const removePart = async (path: string) => {
+            this.zip.remove(path);
+            this.zip.remove(relsPathOf(path));
+            contentTypesXml = removeOverride(contentTypesXml, path);
+        };
+
+        for (const chart of before.filter(b => !after.some(a => a.id === b.id))) {
+            const anchor = anchorOf(chart.id);
+            if (anchor) drawingXml = drawingXml.replace(anchor, '');
+            drawingRels = drawingRels.replace(relOf(chart.id) || '', '');
+            // Style and color parts belong to their chart
+            const chartRels = this.zip.file(relsPathOf(chart.id)) ? findElements(await this.read(relsPathOf(chart.id)), 'Relationship') : [];
+            for (const rel of chartRels.filter(r => /\/chart(Style|ColorStyle)$/.test(getAttr(r, 'Type') || ''))) {
+                await removePart(resolveTarget(getAttr(rel, 'Target')!, folderOf(chart.id)));
+            }
+            await removePart(chart.id);
+        }
+
+        let shapeId = Math.max(0, ...[...drawingXml.matchAll(/<xdr:cNvPr\b[^>]*\sid="(\d+)"/g)].map(m => parseInt(m[1], 10)));
+        for (const chart of after) {
+            const original = before.find(b => b.id === chart.id);
+            if (original) {
+                if (chartKey(original) !== chartKey(chart)) this.zip.file(chart.id, buildChartXml(chart, read));
+                const anchor = anchorOf(chart.id);
+                if (anchor && anchorKey(original.anchor) !== anchorKey(chart.anchor)) {
+                    const { from, to } = anchorMarkers(chart.anchor);
+                    const moved = anchor.replace(findElement(anchor, 'xdr:from')!, () => from).replace(findElement(anchor, 'xdr:to')!, () => to);
+                    drawingXml = drawingXml.replace(anchor, () => moved);
+                }
+                continue;
+            }
+            let n = 1;
+            while (this.zip.file(resolveTarget(`../charts/chart${n}.xml`, folderOf(drawingPath)))) n++;
+            const chartPath = resolveTarget(`../charts/chart${n}.xml`, folderOf(drawingPath));
+            this.zip.file(chartPath, buildChartXml(chart, read));
+            contentTypesXml = addOverride(contentTypesXml, chartPath, CHART_CONTENT_TYPE);
+            const rel = addRelationship(drawingRels, `${REL_NS}/chart`, `../charts/chart${n}.xml`);
+            drawingRels = rel.relsXml;
+            shapeId++;
+            drawingXml = drawingXml.replace('</xdr:wsDr>', `${buildChartAnchor(chart.anchor, rel.id, shapeId, chart.title || `Chart ${shapeId}`)}</xdr:wsDr>`);
+        }
+
+        this.zip.file(drawingPath, drawingXml);
+        this.zip.file(drawingRelsPath, drawingRels);
+        return { xml, contentTypesXml };
+    }
+
+    private updateDimension(xml: string, rows: Map<number, RowModel>): string {
+        let minR = Infinity, minC = Infinity, maxR = -1, maxC = -1;
+        rows.forEach((row, r) => row.cells.forEach((_, c) => {
+            minR = Math.min(minR, r); maxR = Math.max(maxR, r);
+            minC = Math.min(minC, c); maxC = Math.max(maxC, c);
+        }));
+        if (maxR < 0) return xml;
+        const ref = minR === maxR && minC === maxC ? encodeCell(minR, minC) : `${encodeCell(minR, minC)}:${encodeCell(maxR, maxC)}`;
+        const dimension = findElement(xml, `${rootPrefix(xml, 'worksheet')}dimension`);
+        return dimension
+            ? xml.replace(dimension, () => setAttr(dimension, 'ref', ref))
+            : insertInOrder(xml, 'worksheet', WORKSHEET_ORDER, 'dimension', `<dimension ref="${ref}"/>`);
+    }
+
+    /** Column widths live in ranges (`<col min max>`); expand them, change the widths and regroup */
+    private patchColumns(xml: string, changed: Map<number, number | null>): string {
+        if (changed.size === 0) return xml;
+        const p = rootPrefix(xml, 'worksheet');
+        const colsBlock = findElement(xml, `${p}cols`);
+        const columns = new Map<number, string>();
+        for (const col of colsBlock ? findElements(colsBlock, `${p}col`) : []) {
+            const bare = setAttr(setAttr(col, 'min', null), 'max', null);
+            for (let i = parseInt(getAttr(col, 'min')!, 10); i <= parseInt(getAttr(col, 'max')!, 10); i++) columns.set(i, bare);
+        }
+
+        changed.forEach((px, index) => {
+            const i = index + 1;
+            const col = columns.get(i) || `<${p}col/>`;
+            if (px === null) {
+                const reset = setAttr(setAttr(col, 'width', null), 'customWidth', null);
+                if (reset === `<${p}col/>`) columns.delete(i);
+                else columns.set(i, reset);
+            } else {
+                columns.set(i, setAttr(setAttr(col, 'width', String(Math.round(px / PX_PER_CHAR * 100) / 100)), 'customWidth', '1'));
+            }
+        });
+
+        const groups: { min: number; max: number; col: string }[] = [];
+        [...columns.keys()].sort((a, b) => a - b).forEach(i => {
+            const last = groups[groups.length - 1];
+            if (last && last.max === i - 1 && last.col === columns.get(i)) last.max = i;
+            else groups.push({ min: i, max: i, col: columns.get(i)! });
+        });
+        const element = groups.length > 0
+            ? withPrefix(`<cols>${groups.map(g => `<col min="${g.min}" max="${g.max}"${g.col.slice(`<${p}col`.length)}`).join('')}</cols>`, p)
+            : '';
+
+        if (colsBlock) return xml.replace(colsBlock, () => element);
+        return element ? insertInOrder(xml, 'worksheet', WORKSHEET_ORDER, 'cols', element) : xml;
+    }
+
+    private renameSheet(workbookXml: string, packageSheet: PackageSheet, name: string): string {
+        const renamed = setAttr(packageSheet.element, 'name', name);
+        const oldRef = escapeXml(`${quoteSheetName(packageSheet.name)}!`);
+        const newRef = escapeXml(`${quoteSheetName(name)}!`);
+        return workbookXml
+            .replace(packageSheet.element, () => renamed)
+            .replace(/(<(?:[\w.-]+:)?definedName\b[^>]*>)([\s\S]*?)(<\/(?:[\w.-]+:)?definedName>)/g, (_m, open, text, close) => `${open}${text.split(oldRef).join(newRef)}${close}`);
+    }
+
+    private addSheet(workbookXml: string, relsXml: string, contentTypesXml: string, base: string, sheet: PatchSheet) {
+        const p = rootPrefix(workbookXml, 'workbook');
+        const ids = findElements(workbookXml, `${p}sheet`).map(s => parseInt(getAttr(s, 'sheetId') || '0', 10));
+        const relIds = findElements(relsXml, 'Relationship').map(r => parseInt((getAttr(r, 'Id') || '').replace(/\D/g, '') || '0', 10));
+        let n = 1;
+        while (this.zip.file(`${base}worksheets/sheet${n}.xml`)) n++;
+        const path = `${base}worksheets/sheet${n}.xml`;
+        const rId = `rId${Math.max(0, ...relIds) + 1}`;
+
+        this.zip.file(path, this.patchWorksheet(EMPTY_WORKSHEET_XML, undefined, sheet));
+        const sheetElement = `<${p}sheet name="${escapeXml(sheet.name)}" sheetId="${Math.max(0, ...ids) + 1}" r:id="${rId}"/>`;
+        return {
+            workbookXml: workbookXml.replace(`</${p}sheets>`, `${sheetElement}</${p}sheets>`),
+            relsXml: relsXml.replace('</Relationships>', `<Relationship Id="${rId}" Type="${WORKSHEET_REL_TYPE}" Target="worksheets/sheet${n}.xml"/></Relationships>`),
+            contentTypesXml: addOverride(contentTypesXml, path, WORKSHEET_CONTENT_TYPE),
+            path,
+        };
+    }
+
+    private removeSheet(workbookXml: string, relsXml: string, contentTypesXml: string, packageSheet: PackageSheet) {
+        const p = rootPrefix(workbookXml, 'workbook');
+        const index = findElements(workbookXml, `${p}sheet`).indexOf(packageSheet.element);
+        const rId = getAttr(packageSheet.element, 'r:id');
+
+        // Sheet-scoped names refer to sheets by position
+        let xml = workbookXml.replace(packageSheet.element, '');
+        xml = xml.replace(new RegExp(`<${p}definedName\\b[^>]*?(?:/>|>[\\s\\S]*?</${p}definedName>)`, 'g'), definedName => {
+            const localSheetId = getAttr(definedName, 'localSheetId');
+            if (localSheetId === undefined) return definedName;
+            const id = parseInt(localSheetId, 10);
+            if (id === index) return '';
+            return id > index ? setAttr(definedName, 'localSheetId', String(id - 1)) : definedName;
+        });
+        xml = xml.replace(new RegExp(`<${p}definedNames>\\s*</${p}definedNames>`), '');
+        const sheetCount = findElements(xml, `${p}sheet`).length;
+        xml = xml.replace(new RegExp(`<${p}workbookView\\b[^>]*>`, 'g'), view => {
+            let updated = view;
+            for (const attr of ['activeTab', 'firstSheet']) {
+                const value = getAttr(updated, attr);
+                if (value !== undefined && parseInt(value, 10) >= sheetCount) updated = setAttr(updated, attr, '0');
+            }
+            return updated;
+        });
+
+        const rel = findElements(relsXml, 'Relationship').find(r => getAttr(r, 'Id') === rId);
+        if (packageSheet.path) this.zip.remove(packageSheet.path);
+        return {
+            workbookXml: xml,
+            relsXml: rel ? relsXml.replace(rel, '') : relsXml,
+            contentTypesXml: packageSheet.path ? removeOverride(contentTypesXml, packageSheet.path) : contentTypesXml,
+        };
+    }
+
+    private requestFullCalc(workbookXml: string): string {
+        const calcPr = findElement(workbookXml, `${rootPrefix(workbookXml, 'workbook')}calcPr`);
+        if (calcPr) return workbookXml.replace(calcPr, () => setAttr(calcPr, 'fullCalcOnLoad', '1'));
+        return insertInOrder(workbookXml, 'workbook', WORKBOOK_ORDER, 'calcPr', '<calcPr fullCalcOnLoad="1"/>');
+    }
+}
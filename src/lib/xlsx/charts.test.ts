@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { buildChartXml, chartData, chartFromRange, parseChartXml, ChartCellReader } from './charts';
+import { parseSqref } from './conditionalFormat';
+
+const chartSpace = (plotArea: string, head = '') =>
+    `<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart"><c:chart>${head}<c:plotArea><c:layout/>${plotArea}</c:plotArea></c:chart></c:chartSpace>`;
+
+const series = (values: string, extra = '') => `<c:ser><c:idx val="0"/>${extra}<c:val><c:numRef><c:f>${values}</c:f></c:numRef></c:val></c:ser>`;
+
+// Sales!A1:C4: months with revenue and cost
+const SALES: (string | number)[][] = [['Month', 'Revenue', 'Cost'], ['Jan', 120, 80], ['Feb', 150, 90], ['Mar', '', 95]];
+const read: ChartCellReader = (sheet, r, c) => (sheet === undefined || sheet === 'Sales' ? SALES[r]?.[c] : undefined);
+
+describe('charts', () => {
+    describe('parseChartXml', () => {
+        it('should read the type, title and series references of bar, line and pie charts', () => {
+            const title = '<c:title><c:tx><c:rich><a:p><a:r><a:t>Revenue &amp; cost</a:t></a:r></a:p></c:rich></c:tx></c:title>';
+            const bar = parseChartXml(chartSpace(
+                `<c:barChart><c:barDir val="bar"/>${series('Sales!$B$2:$B$4', '<c:tx><c:strRef><c:f>Sales!$B$1</c:f></c:strRef></c:tx><c:cat><c:strRef><c:f>Sales!$A$2:$A$4</c:f></c:strRef></c:cat>')}</c:barChart>`,
+                title
+            ));
+
+            expect(bar).toEqual({
+                type: 'bar',
+                title: 'Revenue & cost',
+                series: [{ nameRef: 'Sales!$B$1', categories: 'Sales!$A$2:$A$4', values: 'Sales!$B$2:$B$4' }],
+            });
+            expect(parseChartXml(chartSpace(`<c:barChart><c:barDir val="col"/>${series('B2:B4')}</c:barChart>`))?.type).toBe('column');
+            expect(parseChartXml(chartSpace(`<c:lineChart>${series('B2:B4', '<c:tx><c:v>Plan</c:v></c:tx>')}</c:lineChart>`))).toEqual({
+                type: 'line', series: [{ name: 'Plan', values: 'B2:B4' }],
+            });
+            expect(parseChartXml(chartSpace(`<c:doughnutChart>${series('B2:B4')}</c:doughnutChart>`))?.type).toBe('pie');
+        });
+
+        it('should leave out chart types and combinations the editor does not draw', () => {
+            expect(parseChartXml(chartSpace(`<c:scatterChart>${series('B2:B4')}</c:scatterChart>`))).toBeNull();
+            expect(parseChartXml(chartSpace(`<c:barChart>${series('B2:B4')}</c:barChart><c:lineChart>${series('C2:C4')}</c:lineChart>`))).toBeNull();
+            expect(parseChartXml(chartSpace('<c:barChart><c:ser><c:val><c:numLit/></c:val></c:ser></c:barChart>'))).toBeNull();
+        });
+    });
+
+    describe('chartFromRange', () => {
+        it('should bind the first column to categories and the other columns to series named by the header row', () => {
+            const chart = chartFromRange('Sales', parseSqref('A1:C4')[0], { type: 'column', title: 'Q1', headers: true, id: 'c1' });
+
+            expect(chart).toEqual({
+                id: 'c1',
+                type: 'column',
+                title: 'Q1',
+                series: [
+                    { nameRef: 'Sales!$B$1', categories: 'Sales!$A$2:$A$4', values: 'Sales!$B$2:$B$4' },
+                    { nameRef: 'Sales!$C$1', categories: 'Sales!$A$2:$A$4', values: 'Sales!$C$2:$C$4' },
+                ],
+                anchor: { from: { r: 0, c: 4 }, to: { r: 15, c: 11 } },
+            });
+        });
+
+        it('should quote sheet names and place the chart at the given cell', () => {
+            const chart = chartFromRange('Q1 Sales', parseSqref('B2:B5')[0], { type: 'line', position: { r: 9, c: 0 } });
+
+            expect(chart.series).toEqual([{ values: "'Q1 Sales'!$B$2:$B$5" }]);
+            expect(chart.anchor.from).toEqual({ r: 9, c: 0 });
+        });
+    });
+
+    describe('chartData', () => {
+        it('should read labels and numbers through the cell reader, blanks as gaps', () => {
+            const chart = chartFromRange('Sales', parseSqref('A1:C4')[0], { type: 'line', headers: true });
+
+            expect(chartData(chart, read)).toEqual({
+                categories: ['Jan', 'Feb', 'Mar'],
+                series: [{ name: 'Revenue', values: [120, 150, null] }, { name: 'Cost', values: [80, 90, 95] }],
+            });
+        });
+    });
+
+    describe('buildChartXml', () => {
+        it('should write charts the reader parses back, with the current values cached', () => {
+            for (const type of ['column', 'bar', 'line', 'pie'] as const) {
+                const chart = chartFromRange('Sales', parseSqref('A1:C4')[0], { type, title: 'A < B', headers: true });
+                const xml = buildChartXml(chart, read);
+
+                expect(parseChartXml(xml)).toEqual({ type, title: chart.title, series: chart.series });
+                expect(xml).toContain('<c:f>Sales!$B$2:$B$4</c:f><c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="3"/><c:pt idx="0"><c:v>120</c:v></c:pt><c:pt idx="1"><c:v>150</c:v></c:pt></c:numCache>');
+            }
+        });
+    });
+});
@@ -0,0 +1,312 @@
+import JSZip from 'jszip';
+import { CellRange, formatRangeRef, parseRangeRef } from './conditionalFormat';
+import { folderOf, relsPathOf, resolveTarget, workbookParts } from './package';
+import { escapeXml, findElement, findElements, getAttr, innerXml, rootPrefix, unescapeXml } from './xml';
+
+export type ChartType = 'column' | 'bar' | 'line' | 'pie';
+
+export interface ChartSeries {
+    /** Literal series name */
+    name?: string;
+    /** Cell holding the series name (e.g. "Sales!$B$1"), preferred over `name` */
+    nameRef?: string;
+    /** Category labels (e.g. "Sales!$A$2:$A$6"); points are numbered when absent */
+    categories?: string;
+    /** Values plotted (e.g. "Sales!$B$2:$B$6") */
+    values: string;
+}
+
+/** Cells a chart spans, from its top-left to its bottom-right cell (zero-based) */
+export interface ChartAnchor {
+    from: { r: number; c: number };
+    to: { r: number; c: number };
+}
+
+/**
+ * A chart drawn over a sheet, bound to cell ranges.
+ * Charts read from a file are identified by the path of their chart part.
+ */
+export interface SpreadsheetChart {
+    id: string;
+    type: ChartType;
+    title?: string;
+    series: ChartSeries[];
+    anchor: ChartAnchor;
+}
+
+/** Value of a cell for charting: the sheet is undefined for references without one */
+export type ChartCellReader = (sheet: string | undefined, r: number, c: number) => string | number | null | undefined;
+
+export const CHART_NS = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+export const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const EMPTY_DRAWING_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    `<xdr:wsDr xmlns:xdr="${DRAWING_NS}" xmlns:a="${A_NS}"></xdr:wsDr>`;
+
+// Default size of an inserted chart, in cells (about 480 x 300 px with default column widths and row heights)
+const DEFAULT_CHART_COLUMNS = 7;
+const DEFAULT_CHART_ROWS = 15;
+
+export const newChartId = (): string => `chart-${crypto.randomUUID()}`;
+
+// --- Reading ---
+
+const CHART_GROUPS: Record<string, ChartType | null> = {
+    barChart: null, bar3DChart: null, lineChart: 'line', line3DChart: 'line', pieChart: 'pie', pie3DChart: 'pie', doughnutChart: 'pie',
+};
+
+const formulaOf = (element: string | undefined): string | undefined => {
+    const f = element && findElement(element, 'c:f');
+    return f ? unescapeXml(innerXml(f, 'c:f')).trim() : undefined;
+};
+
+const textOf = (element: string): string =>
+    findElements(element, 'a:t').map(t => unescapeXml(innerXml(t, 'a:t'))).join('') ||
+    findElements(element, 'c:v').map(v => unescapeXml(innerXml(v, 'c:v'))).join('');
+
+/**
+ * Type, title and series of a chart part, or null for charts the editor does not draw
+ * (scatter, area, combinations of several chart types...), which are kept as they are.
+ */
+export function parseChartXml(xml: string): Omit<SpreadsheetChart, 'id' | 'anchor'> | null {
+    const plotArea = findElement(xml, 'c:plotArea');
+    if (!plotArea) return null;
+    const groups = [...plotArea.matchAll(/<c:(\w+Chart)\b/g)].map(m => m[1]);
+    if (groups.length !== 1 || !(groups[0] in CHART_GROUPS)) return null;
+
+    const group = findElement(plotArea, `c:${groups[0]}`)!;
+    const barDir = getAttr(findElement(group, 'c:barDir') || '<c:barDir/>', 'val');
+    const type = CHART_GROUPS[groups[0]] ?? (barDir === 'bar' ? 'bar' : 'column');
+
+    const series = findElements(group, 'c:ser').flatMap(ser => {
+        const values = formulaOf(findElement(ser, 'c:val'));
+        if (!values) return [];
+        const tx = findElement(ser, 'c:tx');
+        const nameRef = formulaOf(tx);
+        const name = tx && !nameRef ? textOf(tx) : undefined;
+        return [{ values, categories: formulaOf(findElement(ser, 'c:cat')), ...(nameRef ? { nameRef } : {}), ...(name ? { name } : {}) }];
+    });
+    if (series.length === 0) return null;
+
+    // The chart title precedes the plot area; axis titles are inside it
+    const head = xml.slice(0, xml.indexOf('<c:plotArea'));
+    const titleElement = findElement(head, 'c:title');
+    const title = titleElement ? textOf(titleElement) : undefined;
+    return { type, series, ...(title ? { title } : {}) };
+}
+
+const anchorCell = (element: string | undefined): { r: number; c: number } | null => {
+    if (!element) return null;
+    const value = (tag: string) => parseInt(innerXml(findElement(element, tag) || `<${tag}>0</${tag}>`, tag), 10);
+    return { r: value('xdr:row'), c: value('xdr:col') };
+};
+
+/** Relationship id of the chart a drawing anchor shows */
+export const anchorChartRelId = (anchor: string): string | undefined => anchor.match(/<c:chart\b[^>]*\br:id="([^"]+)"/)?.[1];
+
+/** Relationship elements of a part's relationships part (empty when it has none) */
+export async function readRelationships(zip: JSZip, path: string): Promise<string[]> {
+    const xml = await zip.file(relsPathOf(path))?.async('string');
+    return xml ? findElements(xml, 'Relationship') : [];
+}
+
+/** Path of the drawing part a worksheet shows, if any */
+export async function drawingPathOf(zip: JSZip, sheetPath: string, sheetXml: string): Promise<string | null> {
+    const drawing = findElement(sheetXml, `${rootPrefix(sheetXml, 'worksheet')}drawing`);
+    const relId = drawing && getAttr(drawing, 'r:id');
+    if (!relId) return null;
+    const rel = (await readRelationships(zip, sheetPath)).find(r => getAttr(r, 'Id') === relId);
+    return rel ? resolveTarget(getAttr(rel, 'Target')!, folderOf(sheetPath)) : null;
+}
+
+/** Charts of a worksheet part that the editor draws */
+export async function readSheetCharts(zip: JSZip, sheetPath: string): Promise<SpreadsheetChart[]> {
+    const sheetXml = await zip.file(sheetPath)?.async('string');
+    const drawingPath = sheetXml ? await drawingPathOf(zip, sheetPath, sheetXml) : null;
+    const drawingXml = drawingPath ? await zip.file(drawingPath)?.async('string') : undefined;
+    if (!drawingPath || !drawingXml) return [];
+
+    const relationships = await readRelationships(zip, drawingPath);
+    const charts: SpreadsheetChart[] = [];
+    for (const anchor of findElements(drawingXml, 'xdr:twoCellAnchor')) {
+        const relId = anchorChartRelId(anchor);
+        const rel = relId && relationships.find(r => getAttr(r, 'Id') === relId);
+        if (!rel) continue;
+        const chartPath = resolveTarget(getAttr(rel, 'Target')!, folderOf(drawingPath));
+        const chartXml = await zip.file(chartPath)?.async('string');
+        const parsed = chartXml ? parseChartXml(chartXml) : null;
+        const from = anchorCell(findElement(anchor, 'xdr:from'));
+        const to = anchorCell(findElement(anchor, 'xdr:to'));
+        if (parsed && from && to) charts.push({ id: chartPath, ...parsed, anchor: { from, to } });
+    }
+    return charts;
+}
+
+/** Charts of every worksheet in a package, by sheet name */
+export async function readCharts(zip: JSZip): Promise<Record<string, SpreadsheetChart[]>> {
+    const { sheets } = await workbookParts(zip);
+    const result: Record<string, SpreadsheetChart[]> = {};
+    for (const sheet of sheets) {
+        const charts = await readSheetCharts(zip, sheet.path);
+        if (charts.length > 0) result[sheet.name] = charts;
+    }
+    return result;
+}
+
+// --- Data ---
+
+/** Values of the cells of a reference, row by row */
+export const rangeValues = (ref: string | undefined, read: ChartCellReader): (string | number | null)[] => {
+    const parsed = ref ? parseRangeRef(ref) : null;
+    if (!parsed) return [];
+    const { sheet, range: { row, column } } = parsed;
+    const values: (string | number | null)[] = [];
+    for (let r = row[0]; r <= row[1]; r++) {
+        for (let c = column[0]; c <= column[1]; c++) values.push(read(sheet, r, c) ?? null);
+    }
+    return values;
+};
+
+const toNumber = (value: string | number | null): number | null => {
+    if (typeof value === 'number') return value;
+    return value !== null && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : null;
+};
+
+/** Labels and numbers a chart plots, read from the cells it is bound to */
+export function chartData(chart: SpreadsheetChart, read: ChartCellReader): { categories: string[]; series: { name: string; values: (number | null)[] }[] } {
+    const series = chart.series.map((s, i) => ({
+        name: String(rangeValues(s.nameRef, read)[0] ?? s.name ?? `Series ${i + 1}`),
+        values: rangeValues(s.values, read).map(toNumber),
+    }));
+    const labels = rangeValues(chart.series[0]?.categories, read).map(v => (v === null ? '' : String(v)));
+    const count = Math.max(0, ...series.map(s => s.values.length));
+    return { categories: Array.from({ length: count }, (_, i) => labels[i] ?? String(i + 1)), series };
+}
+
+/**
+ * A chart over a block of cells laid out as a table: series in columns, categories in the first
+ * column (when there are several), series names in the first row when `headers` is set.
+ * The chart goes at `position` (its top-left cell), or to the right of the data.
+ */
+export function chartFromRange(
+    sheet: string,
+    range: CellRange,
+    options: { type: ChartType; title?: string; headers?: boolean; position?: { r: number; c: number }; id?: string }
+): SpreadsheetChart {
+    const { row, column } = range;
+    const firstDataRow = options.headers && row[1] > row[0] ? row[0] + 1 : row[0];
+    const hasCategories = column[1] > column[0];
+    const firstSeriesColumn = hasCategories ? column[0] + 1 : column[0];
+    const ref = (rows: number[], c: number) => formatRangeRef(sheet, { row: rows, column: [c, c] });
+
+    const series: ChartSeries[] = [];
+    for (let c = firstSeriesColumn; c <= column[1]; c++) {
+        series.push({
+            ...(firstDataRow > row[0] ? { nameRef: ref([row[0], row[0]], c) } : {}),
+            ...(hasCategories ? { categories: ref([firstDataRow, row[1]], column[0]) } : {}),
+            values: ref([firstDataRow, row[1]], c),
+        });
+    }
+    // Next to the data unless placed elsewhere
+    const from = options.position ?? { r: row[0], c: column[1] + 2 };
+    const anchor = { from, to: { r: from.r + DEFAULT_CHART_ROWS, c: from.c + DEFAULT_CHART_COLUMNS } };
+    return { id: options.id ?? newChartId(), type: options.type, ...(options.title ? { title: options.title } : {}), series, anchor };
+}
+
+/** Identity of a chart's content for change detection (its position is compared separately) */
+export const chartKey = (chart: SpreadsheetChart): string => JSON.stringify([chart.type, chart.title ?? null, chart.series]);
+
+export const anchorKey = (anchor: ChartAnchor): string => JSON.stringify([anchor.from, anchor.to]);
+
+export const sameCharts = (a: SpreadsheetChart[], b: SpreadsheetChart[]): boolean =>
+    a.length === b.length && a.every((chart, i) =>
+        chart.id === b[i].id && chartKey(chart) === chartKey(b[i]) && anchorKey(chart.anchor) === anchorKey(b[i].anchor));
+
+// --- Writing ---
+
+const cache = (values: (string | number | null)[], numeric: boolean): string => {
+    const points = values
+        .map((v, i) => (v === null || (numeric && toNumber(v) === null) ? '' : `<c:pt idx="${i}"><c:v>${escapeXml(String(numeric ? toNumber(v) : v))}</c:v></c:pt>`))
+        .join('');
+    return numeric
+        ? `<c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="${values.length}"/>${points}</c:numCache>`
+        : `<c:strCache><c:ptCount val="${values.length}"/>${points}</c:strCache>`;
+};
+
+// A reference with the values it had when saved, which readers show until they recalculate
+const reference = (ref: string, numeric: boolean, read?: ChartCellReader): string => {
+    const tag = numeric ? 'c:numRef' : 'c:strRef';
+    return `<${tag}><c:f>${escapeXml(ref)}</c:f>${read ? cache(rangeValues(ref, read), numeric) : ''}</${tag}>`;
+};
+
+const seriesXml = (series: ChartSeries, index: number, type: ChartType, read?: ChartCellReader): string => {
+    const name = series.nameRef
+        ? `<c:tx>${reference(series.nameRef, false, read)}</c:tx>`
+        : series.name ? `<c:tx><c:v>${escapeXml(series.name)}</c:v></c:tx>` : '';
+    const marker = type === 'line' ? '<c:marker><c:symbol val="none"/></c:marker>' : '';
+    const invert = type === 'column' || type === 'bar' ? '<c:invertIfNegative val="0"/>' : '';
+    const categories = series.categories
+        ? `<c:cat>${reference(series.categories, false, read)}</c:cat>`
+        : '';
+    const smooth = type === 'line' ? '<c:smooth val="0"/>' : '';
+    return `<c:ser><c:idx val="${index}"/><c:order val="${index}"/>${name}${invert}${marker}${categories}` +
+        `<c:val>${reference(series.values, true, read)}</c:val>${smooth}</c:ser>`;
+};
+
+const AXES = (horizontal: boolean) =>
+    `<c:catAx><c:axId val="500000001"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="${horizontal ? 'l' : 'b'}"/>` +
+    '<c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/>' +
+    '<c:crossAx val="500000002"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>' +
+    `<c:valAx><c:axId val="500000002"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="${horizontal ? 'b' : 'l'}"/>` +
+    '<c:majorGridlines/><c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/>' +
+    '<c:crossAx val="500000001"/><c:crosses val="autoZero"/><c:crossBetween val="between"/></c:valAx>';
+
+/**
+ * A DrawingML chart part for a chart.
+ *
+ * @param read - Reads the cells the chart is bound to, to store their current values with the references
+ */
+export function buildChartXml(chart: SpreadsheetChart, read?: ChartCellReader): string {
+    const series = chart.series.map((s, i) => seriesXml(s, i, chart.type, read)).join('');
+    const axisIds = '<c:axId val="500000001"/><c:axId val="500000002"/>';
+    let plot: string;
+    switch (chart.type) {
+        case 'pie':
+            plot = `<c:pieChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/></c:pieChart>`;
+            break;
+        case 'line':
+            plot = `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}<c:marker val="1"/>${axisIds}</c:lineChart>${AXES(false)}`;
+            break;
+        default:
+            plot = `<c:barChart><c:barDir val="${chart.type === 'bar' ? 'bar' : 'col'}"/><c:grouping val="clustered"/><c:varyColors val="0"/>${series}` +
+                `<c:gapWidth val="150"/>${axisIds}</c:barChart>${AXES(chart.type === 'bar')}`;
+    }
+    const title = chart.title
+        ? `<c:title><c:tx><c:rich><a:bodyPr/><a:lstStyle/><a:p><a:r><a:t>${escapeXml(chart.title)}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>`
+        : '<c:autoTitleDeleted val="1"/>';
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        `<c:chartSpace xmlns:c="${CHART_NS}" xmlns:a="${A_NS}" xmlns:r="${REL_NS}"><c:roundedCorners val="0"/>` +
+        `<c:chart>${title}<c:plotArea><c:layout/>${plot}</c:plotArea>` +
+        '<c:legend><c:legendPos val="r"/><c:overlay val="0"/></c:legend><c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart>' +
+        '</c:chartSpace>';
+}
+
+const markerXml = (tag: string, cell: { r: number; c: number }) =>
+    `<xdr:${tag}><xdr:col>${cell.c}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${cell.r}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:${tag}>`;
+
+/** `<xdr:from>` and `<xdr:to>` of an anchor */
+export const anchorMarkers = (anchor: ChartAnchor): { from: string; to: string } =>
+    ({ from: markerXml('from', anchor.from), to: markerXml('to', anchor.to) });
+
+/** A drawing anchor showing the chart of relationship `relId` over the anchor's cells */
+export function buildChartAnchor(anchor: ChartAnchor, relId: string, shapeId: number, name: string): string {
+    const { from, to } = anchorMarkers(anchor);
+    return `<xdr:twoCellAnchor editAs="oneCell">${from}${to}` +
+        `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="${shapeId}" name="${escapeXml(name)}"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>` +
+        '<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>' +
+        `<a:graphic><a:graphicData uri="${CHART_NS}"><c:chart xmlns:c="${CHART_NS}" xmlns:r="${REL_NS}" r:id="${relId}"/></a:graphicData></a:graphic>` +
+        '</xdr:graphicFrame><xdr:clientData/></xdr:twoCellAnchor>';
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildRule,
+    formatSqref,
+    parseConditionalFormats,
+    parseSqref,
+    readDxfs,
+    ruleToSpec,
+    serializeConditionalFormats,
+    ConditionFormatSpec,
+} from './conditionalFormat';
+
+const STYLES = '<styleSheet><dxfs count="2">' +
+    '<dxf><font><color rgb="FF9C0006"/></font><fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf>' +
+    '<dxf><font><color theme="1"/></font></dxf>' +
+    '</dxfs></styleSheet>';
+
+const sheet = (blocks: string) => `<worksheet><sheetData/>${blocks}<pageMargins/></worksheet>`;
+
+describe('conditionalFormat', () => {
+    describe('parseSqref / formatSqref', () => {
+        it('should parse cell ranges, single cells and whole columns', () => {
+            expect(parseSqref('B2:C4 E1')).toEqual([{ row: [1, 3], column: [1, 2] }, { row: [0, 0], column: [4, 4] }]);
+            expect(parseSqref('$A:$A')).toEqual([{ row: [0, 1048575], column: [0, 0] }]);
+            expect(formatSqref(parseSqref('B2:C4 E1'))).toBe('B2:C4 E1');
+        });
+    });
+
+    describe('parseConditionalFormats', () => {
+        it('should map Excel rules to FortuneSheet rules, the highest priority last', () => {
+            const rules = parseConditionalFormats(sheet(
+                '<conditionalFormatting sqref="B2:B10"><cfRule type="cellIs" dxfId="0" priority="1" operator="greaterThan"><formula>90</formula></cfRule></conditionalFormatting>' +
+                '<conditionalFormatting sqref="C2:C10"><cfRule type="expression" dxfId="1" priority="3"><formula>C2&lt;TODAY()</formula></cfRule>' +
+                '<cfRule type="top10" dxfId="0" priority="2" bottom="1" percent="1" rank="20"/></conditionalFormatting>'
+            ), readDxfs(STYLES));
+
+            expect(rules.map(r => [r.conditionName, r.conditionValue])).toEqual([
+                ['formula', ['=C2<TODAY()']],
+                ['last10_percent', [20]],
+                ['greaterThan', [90]],
+            ]);
+            expect(rules[2].format).toEqual({ textColor: '#9C0006', cellColor: '#FFC7CE' });
+            // Theme colors need the resolver the editor passes in
+            expect(rules[0].format).toEqual({ textColor: null, cellColor: null });
+            expect(rules[0].xml).toBe('<cfRule type="expression" dxfId="1" priority="3"><formula>C2&lt;TODAY()</formula></cfRule>');
+        });
+
+        it('should turn operators without a FortuneSheet equivalent into formula rules', () => {
+            const [rule] = parseConditionalFormats(sheet(
+                '<conditionalFormatting sqref="B2:B3"><cfRule type="cellIs" dxfId="0" priority="1" operator="greaterThanOrEqual"><formula>$E$1</formula></cfRule></conditionalFormatting>'
+            ), readDxfs(STYLES));
+
+            expect(rule.conditionName).toBe('formula');
+            expect(rule.conditionValue).toEqual(['=B2>=$E$1']);
+        });
+
+        it('should read color scales and data bars', () => {
+            const rules = parseConditionalFormats(sheet(
+                '<conditionalFormatting sqref="A1:A5"><cfRule type="colorScale" priority="2"><colorScale><cfvo type="min"/><cfvo type="max"/>' +
+                '<color rgb="FFF8696B"/><color rgb="FF63BE7B"/></colorScale></cfRule></conditionalFormatting>' +
+                '<conditionalFormatting sqref="B1:B5"><cfRule type="dataBar" priority="1"><dataBar><cfvo type="min"/><cfvo type="max"/><color rgb="FF638EC6"/></dataBar></cfRule></conditionalFormatting>'
+            ), []);
+
+            expect(rules[0]).toMatchObject({ type: 'colorGradation', format: ['rgb(99, 190, 123)', 'rgb(248, 105, 107)'] });
+            expect(rules[1]).toMatchObject({ type: 'dataBar', format: ['#638EC6', '#ffffff'] });
+        });
+    });
+
+    describe('buildRule / ruleToSpec', () => {
+        it('should round-trip the specs the dialog and the AI tool produce', () => {
+            const range = parseSqref('B2:B10');
+            const specs: ConditionFormatSpec[] = [
+                { condition: 'between', value: '10', value2: '20', textColor: '#006100', cellColor: '#c6efce' },
+                { condition: 'formula', value: '=B2<TODAY()', cellColor: '#ffc7ce' },
+                { condition: 'top10', value: '5', percent: true, textColor: '#9c0006' },
+                { condition: 'uniqueValue', cellColor: '#ffeb9c' },
+                { condition: 'colorScale', colors: ['#f8696b', '#ffeb84', '#63be7b'] },
+            ];
+
+            for (const spec of specs) {
+                expect(ruleToSpec(buildRule(spec, range))).toEqual(spec);
+            }
+        });
+
+        it('should keep equal values as text and use the default highlight without colors', () => {
+            const rule = buildRule({ condition: 'equal', value: '100' }, parseSqref('A1'));
+            expect(rule.conditionValue).toEqual(['100']);
+            expect(rule.format).toEqual({ textColor: '#9c0006', cellColor: '#ffc7ce' });
+        });
+    });
+
+    describe('serializeConditionalFormats', () => {
+        it('should write one block per rule with the last rule at priority 1', () => {
+            const dxfs: object[] = [];
+            const xml = serializeConditionalFormats([
+                buildRule({ condition: 'textContains', value: 'A"B' }, parseSqref('A1:A5')),
+                buildRule({ condition: 'formula', value: '=B2<TODAY()' }, parseSqref('B2:B9')),
+            ], format => dxfs.push(format) - 1);
+
+            expect(xml).toBe(
+                '<conditionalFormatting sqref="A1:A5"><cfRule type="containsText" dxfId="0" operator="containsText" text="A&quot;B" priority="2">' +
+                '<formula>NOT(ISERROR(SEARCH(&quot;A&quot;&quot;B&quot;,A1)))</formula></cfRule></conditionalFormatting>' +
+                '<conditionalFormatting sqref="B2:B9"><cfRule type="expression" dxfId="1" priority="1"><formula>B2&lt;TODAY()</formula></cfRule></conditionalFormatting>'
+            );
+            expect(dxfs).toHaveLength(2);
+        });
+
+        it('should write parsed rules back through the reuse callback', () => {
+            const original = '<cfRule type="cellIs" dxfId="0" priority="7" operator="greaterThan"><formula>90</formula></cfRule>';
+            const rules = parseConditionalFormats(sheet(`<conditionalFormatting sqref="B2:B3">${original}</conditionalFormatting>`), readDxfs(STYLES));
+            const xml = serializeConditionalFormats(rules, () => { throw new Error('no new dxf expected'); }, rule => rule.xml);
+
+            expect(xml).toBe('<conditionalFormatting sqref="B2:B3"><cfRule type="cellIs" dxfId="0" priority="1" operator="greaterThan"><formula>90</formula></cfRule></conditionalFormatting>');
+        });
+    });
+});
@@ -0,0 +1,445 @@
+import JSZip from 'jszip';
+import { workbookParts } from './package';
+import { toArgb } from './styles';
+import {
+    columnIndex,
+    decodeCell,
+    encodeCell,
+    escapeXml,
+    findElement,
+    findElements,
+    getAttr,
+    innerXml,
+    setAttr,
+    unescapeXml,
+} from './xml';
+
+export interface CellRange {
+    row: number[];
+    column: number[];
+}
+
+/** Colors a highlight rule applies; null leaves the cell's own color */
+export interface HighlightFormat {
+    textColor?: string | null;
+    cellColor?: string | null;
+}
+
+/**
+ * A rule in FortuneSheet's `luckysheet_conditionformat_save` shape.
+ * `format` is a HighlightFormat for `default` rules, the bar/scale colors for `dataBar` and
+ * `colorGradation` (colorGradation lists them from maximum to minimum, as `rgb()` strings).
+ */
+export interface ConditionFormatRule {
+    type: 'default' | 'dataBar' | 'colorGradation' | 'icons';
+    cellrange: CellRange[];
+    format: HighlightFormat | string[] | Record<string, number>;
+    conditionName?: string;
+    conditionRange?: CellRange[];
+    conditionValue?: (string | number)[];
+    /** `<cfRule>` the rule was read from, written back as-is while the rule is unchanged */
+    xml?: string;
+}
+
+export type ConditionKind =
+    | 'greaterThan' | 'lessThan' | 'equal' | 'between' | 'textContains'
+    | 'duplicateValue' | 'uniqueValue' | 'top10' | 'last10' | 'aboveAverage' | 'belowAverage'
+    | 'formula' | 'dataBar' | 'colorScale';
+
+/** Editor-level description of a rule, as entered in the rules dialog or by the AI */
+export interface ConditionFormatSpec {
+    condition: ConditionKind;
+    /** Comparison value, text, rank (top10/last10) or formula (e.g. "=A2<TODAY()") */
+    value?: string;
+    /** Upper bound for `between` */
+    value2?: string;
+    /** top10/last10 rank is a percentage */
+    percent?: boolean;
+    textColor?: string;
+    cellColor?: string;
+    /** dataBar: [bar color]; colorScale: [minimum, (midpoint,) maximum] */
+    colors?: string[];
+}
+
+/** A SpreadsheetML color (`<color rgb theme tint indexed/>`) */
+export interface SpreadsheetColor {
+    rgb?: string;
+    theme?: number;
+    tint?: number;
+    indexed?: number;
+}
+
+export type ColorResolver = (color: SpreadsheetColor) => string | undefined;
+
+// Excel's "Light red fill with dark red text" and default bar/scale colors
+export const DEFAULT_HIGHLIGHT: HighlightFormat = { textColor: '#9c0006', cellColor: '#ffc7ce' };
+const DEFAULT_BAR_COLOR = '#638ec6';
+const DEFAULT_SCALE_COLORS = ['#f8696b', '#ffeb84', '#63be7b'];
+
+const MAX_ROW = 1048575;
+const MAX_COL = 16383;
+
+const rgbColor: ColorResolver = color => (color.rgb ? `#${color.rgb.slice(-6)}` : undefined);
+
+// '#f8696b' -> 'rgb(248, 105, 107)', the notation FortuneSheet interpolates color scales in
+const toRgbString = (color: string): string => {
+    if (color.startsWith('rgb')) return color;
+    const hex = color.replace('#', '');
+    return `rgb(${[0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)).join(', ')})`;
+};
+
+const toHex = (color: string): string => `#${toArgb(color).slice(2).toLowerCase()}`;
+
+// A1 references of a sqref; whole columns ("A:A") and rows ("1:1") span the sheet
+const decodeBound = (ref: string, isEnd: boolean): { r: number; c: number } | null => {
+    const column = ref.match(/^\$?([A-Z]+)$/i);
+    if (column) return { r: isEnd ? MAX_ROW : 0, c: columnIndex(column[1]) };
+    const row = ref.match(/^\$?(\d+)$/);
+    if (row) return { r: parseInt(row[1], 10) - 1, c: isEnd ? MAX_COL : 0 };
+    return decodeCell(ref);
+};
+
+export const parseSqref = (sqref: string): CellRange[] =>
+    sqref.trim().split(/\s+/).flatMap(ref => {
+        const [from, to = from] = ref.split(':');
+        const start = decodeBound(from, false);
+        const end = decodeBound(to, true);
+        return start && end ? [{ row: [start.r, end.r], column: [start.c, end.c] }] : [];
+    });
+
+export const formatSqref = (ranges: CellRange[]): string =>
+    ranges.map(({ row, column }) => {
+        const start = encodeCell(row[0], column[0]);
+        return row[0] === row[1] && column[0] === column[1] ? start : `${start}:${encodeCell(row[1], column[1])}`;
+    }).join(' ');
+
+const RANGE_REF = /^(?:'(?:[^']|'')+'!|[\w.]+!)?\$?[A-Z]+\$?\d+(?::\$?[A-Z]+\$?\d+)?$/i;
+
+/** A range reference optionally qualified by its sheet ("Lists!$A$1:$A$5", "'My sheet'!B2") */
+export const parseRangeRef = (ref: string): { sheet?: string; range: CellRange } | null => {
+    if (!RANGE_REF.test(ref.trim())) return null;
+    const bang = ref.lastIndexOf('!');
+    const sheet = bang === -1 ? undefined : ref.slice(0, bang).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+    const [range] = parseSqref(ref.slice(bang + 1).replace(/\$/g, ''));
+    return range ? { sheet, range } : null;
+};
+
+/** Sheet name as written before the '!' of a reference, quoted when needed ("Sales", "'Q1 Sales'") */
+export const quoteSheetName = (sheet: string): string =>
+    /^[A-Za-z_][\w.]*$/.test(sheet) ? sheet : `'${sheet.replace(/'/g, "''")}'`;
+
+/** Absolute reference to a range on a sheet, quoting the sheet name when needed */
+export const formatRangeRef = (sheet: string, range: CellRange): string => {
+    const quoted = quoteSheetName(sheet);
+    const absolute = (r: number, c: number) => encodeCell(r, c).replace(/^([A-Z]+)/, '$$$1$$');
+    const { row, column } = range;
+    const start = absolute(row[0], column[0]);
+    return `${quoted}!${row[0] === row[1] && column[0] === column[1] ? start : `${start}:${absolute(row[1], column[1])}`}`;
+};
+
+const numeric = (value: string | number): string | number =>
+    typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+
+/** Build a FortuneSheet rule for the given cell ranges */
+export function buildRule(spec: ConditionFormatSpec, cellrange: CellRange[]): ConditionFormatRule {
+    const format: HighlightFormat = spec.textColor || spec.cellColor
+        ? { textColor: spec.textColor || null, cellColor: spec.cellColor || null }
+        : { ...DEFAULT_HIGHLIGHT };
+    const highlight = (conditionName: string, conditionValue: (string | number)[]): ConditionFormatRule =>
+        ({ type: 'default', cellrange, format, conditionName, conditionRange: [], conditionValue });
+    const value = spec.value ?? '';
+
+    switch (spec.condition) {
+        case 'greaterThan':
+        case 'lessThan':
+            return highlight(spec.condition, [numeric(value)]);
+        case 'equal':
+        case 'textContains':
+            return highlight(spec.condition, [value]);
+        case 'between':
+            return highlight('between', [numeric(value), numeric(spec.value2 ?? '')]);
+        case 'duplicateValue':
+            return highlight('duplicateValue', ['0']);
+        case 'uniqueValue':
+            return highlight('duplicateValue', ['1']);
+        case 'top10':
+        case 'last10':
+            return highlight(spec.percent ? `${spec.condition}_percent` : spec.condition, [parseInt(value, 10) || 10]);
+        case 'aboveAverage':
+        case 'belowAverage':
+            return highlight(spec.condition, [spec.condition]);
+        case 'formula':
+            return highlight('formula', [value.startsWith('=') ? value : `=${value}`]);
+        case 'dataBar':
+            return { type: 'dataBar', cellrange, format: [spec.colors?.[0] || DEFAULT_BAR_COLOR, '#ffffff'] };
+        case 'colorScale': {
+            const colors = spec.colors && spec.colors.length >= 2 ? spec.colors.slice(0, 3) : DEFAULT_SCALE_COLORS;
+            return { type: 'colorGradation', cellrange, format: [...colors].reverse().map(toRgbString) };
+        }
+    }
+}
+
+/** The spec a rule was built from, or null for rules the dialog cannot edit (icon sets, date occurrences) */
+export function ruleToSpec(rule: ConditionFormatRule): ConditionFormatSpec | null {
+    if (rule.type === 'dataBar') return { condition: 'dataBar', colors: [toHex((rule.format as string[])[0])] };
+    if (rule.type === 'colorGradation') return { condition: 'colorScale', colors: [...(rule.format as string[])].reverse().map(toHex) };
+    if (rule.type !== 'default') return null;
+
+    const format = rule.format as HighlightFormat;
+    const colors = { textColor: format.textColor || undefined, cellColor: format.cellColor || undefined };
+    const [v0, v1] = (rule.conditionValue || []).map(v => String(v));
+    const name = rule.conditionName || '';
+    switch (name) {
+        case 'greaterThan':
+        case 'lessThan':
+        case 'equal':
+        case 'textContains':
+        case 'formula':
+            return { condition: name, value: v0, ...colors };
+        case 'between':
+            return { condition: 'between', value: v0, value2: v1, ...colors };
+        case 'duplicateValue':
+            return { condition: v0 === '1' ? 'uniqueValue' : 'duplicateValue', ...colors };
+        case 'top10':
+        case 'top10_percent':
+        case 'last10':
+        case 'last10_percent':
+            return { condition: name.startsWith('top') ? 'top10' : 'last10', value: v0, percent: name.endsWith('_percent'), ...colors };
+        case 'aboveAverage':
+        case 'belowAverage':
+            return { condition: name, ...colors };
+        default:
+            return null;
+    }
+}
+
+/** Identity of a rule for change detection (everything but the source XML) */
+export const ruleKey = (rule: ConditionFormatRule): string =>
+    JSON.stringify([rule.type, rule.cellrange, rule.format, rule.conditionName ?? null, rule.conditionValue ?? null]);
+
+export const sameRules = (a: ConditionFormatRule[], b: ConditionFormatRule[]): boolean =>
+    a.length === b.length && a.every((rule, i) => ruleKey(rule) === ruleKey(b[i]));
+
+// --- Reading ---
+
+const readColor = (element: string | undefined, resolve: ColorResolver): string | undefined => {
+    if (!element) return undefined;
+    const number = (name: string) => (getAttr(element, name) !== undefined ? parseFloat(getAttr(element, name)!) : undefined);
+    return resolve({ rgb: getAttr(element, 'rgb'), theme: number('theme'), tint: number('tint'), indexed: number('indexed') });
+};
+
+const dxfFormat = (dxf: string | undefined, resolve: ColorResolver): HighlightFormat => {
+    const font = dxf && findElement(dxf, 'font');
+    const fill = dxf && findElement(dxf, 'fill');
+    // A dxf fill shows its background color (solid fills written by some tools use fgColor)
+    const fillColor = fill && (findElement(fill, 'bgColor') || findElement(fill, 'fgColor'));
+    return {
+        textColor: readColor(font ? findElement(font, 'color') : undefined, resolve) ?? null,
+        cellColor: readColor(fillColor, resolve) ?? null,
+    };
+};
+
+// Literal operand of a cellIs rule: a number or a quoted string (references and expressions are not literals)
+const literal = (formula: string | undefined): string | number | undefined => {
+    if (formula === undefined) return undefined;
+    if (formula.trim() !== '' && !isNaN(Number(formula))) return Number(formula);
+    const text = formula.match(/^"((?:[^"]|"")*)"$/);
+    return text ? text[1].replace(/""/g, '"') : undefined;
+};
+
+const CELL_IS_OPERATORS: Record<string, string> = {
+    greaterThan: '>', lessThan: '<', equal: '=', notEqual: '<>', greaterThanOrEqual: '>=', lessThanOrEqual: '<=',
+};
+
+// cellIs rules FortuneSheet cannot express natively become the equivalent formula rule
+const cellIsFormula = (operator: string, cell: string, formulas: string[]): string | null => {
+    if (operator === 'between' && formulas.length === 2) return `AND(${cell}>=${formulas[0]},${cell}<=${formulas[1]})`;
+    if (operator === 'notBetween' && formulas.length === 2) return `OR(${cell}<${formulas[0]},${cell}>${formulas[1]})`;
+    const op = CELL_IS_OPERATORS[operator];
+    return op && formulas.length > 0 ? `${cell}${op}${formulas[0]}` : null;
+};
+
+const parseRule = (cfRule: string, cellrange: CellRange[], dxfs: string[], resolve: ColorResolver): ConditionFormatRule | null => {
+    const formulas = findElements(cfRule, 'formula').map(f => unescapeXml(innerXml(f, 'formula')));
+    const dxfId = getAttr(cfRule, 'dxfId');
+    const format = dxfFormat(dxfId !== undefined ? dxfs[parseInt(dxfId, 10)] : undefined, resolve);
+    const topLeft = encodeCell(cellrange[0].row[0], cellrange[0].column[0]);
+    const highlight = (conditionName: string, conditionValue: (string | number)[]): ConditionFormatRule =>
+        ({ type: 'default', cellrange, format, conditionName, conditionRange: [], conditionValue, xml: cfRule });
+    const asFormula = (formula: string | null | undefined) => (formula ? highlight('formula', [`=${formula}`]) : null);
+
+    switch (getAttr(cfRule, 'type')) {
+        case 'cellIs': {
+            const operator = getAttr(cfRule, 'operator') || '';
+            const [a, b] = formulas.map(literal);
+            if (['greaterThan', 'lessThan'].includes(operator) && a !== undefined) return highlight(operator, [a]);
+            if (operator === 'equal' && a !== undefined) return highlight('equal', [String(a)]);
+            if (operator === 'between' && typeof a === 'number' && typeof b === 'number') return highlight('between', [a, b]);
+            return asFormula(cellIsFormula(operator, topLeft, formulas));
+        }
+        case 'containsText': {
+            const text = getAttr(cfRule, 'text');
+            return text !== undefined && getAttr(cfRule, 'operator') !== 'notContains'
+                ? highlight('textContains', [text])
+                : asFormula(formulas[0]);
+        }
+        case 'duplicateValues':
+            return highlight('duplicateValue', ['0']);
+        case 'uniqueValues':
+            return highlight('duplicateValue', ['1']);
+        case 'top10': {
+            const name = `${getAttr(cfRule, 'bottom') === '1' ? 'last10' : 'top10'}${getAttr(cfRule, 'percent') === '1' ? '_percent' : ''}`;
+            return highlight(name, [parseInt(getAttr(cfRule, 'rank') || '10', 10)]);
+        }
+        case 'aboveAverage': {
+            const name = getAttr(cfRule, 'aboveAverage') === '0' ? 'belowAverage' : 'aboveAverage';
+            return highlight(name, [name]);
+        }
+        case 'colorScale': {
+            const colors = findElements(findElement(cfRule, 'colorScale') || '', 'color').map(c => readColor(c, resolve) || '#ffffff');
+            return { type: 'colorGradation', cellrange, format: colors.reverse().map(toRgbString), xml: cfRule };
+        }
+        case 'dataBar': {
+            const color = readColor(findElement(findElement(cfRule, 'dataBar') || '', 'color'), resolve) || DEFAULT_BAR_COLOR;
+            return { type: 'dataBar', cellrange, format: [color, '#ffffff'], xml: cfRule };
+        }
+        case 'iconSet': {
+            const len = findElements(findElement(cfRule, 'iconSet') || '', 'cfvo').length || 3;
+            return { type: 'icons', cellrange, format: { len, leftMin: 0, top: 0 }, xml: cfRule };
+        }
+        default:
+            // Blanks, errors, dates, begins/ends with... are all stored with their formula
+            return asFormula(formulas[0]);
+    }
+};
+
+/** Differential formats (`<dxf>`) of a styles part, indexed by dxfId */
+export const readDxfs = (stylesXml: string): string[] => {
+    const dxfs = findElement(stylesXml, 'dxfs');
+    return dxfs ? findElements(innerXml(dxfs, 'dxfs'), 'dxf') : [];
+};
+
+/**
+ * Conditional formatting rules of a worksheet part.
+ * FortuneSheet applies rules in order with later rules winning, so they are ordered from the
+ * lowest to the highest Excel priority.
+ */
+export function parseConditionalFormats(sheetXml: string, dxfs: string[], resolve: ColorResolver = rgbColor): ConditionFormatRule[] {
+    const rules: { priority: number; rule: ConditionFormatRule }[] = [];
+    for (const block of findElements(sheetXml, 'conditionalFormatting')) {
+        const cellrange = parseSqref(getAttr(block, 'sqref') || '');
+        if (cellrange.length === 0) continue;
+        for (const cfRule of findElements(block, 'cfRule')) {
+            const rule = parseRule(cfRule, cellrange, dxfs, resolve);
+            if (rule) rules.push({ priority: parseInt(getAttr(cfRule, 'priority') || '0', 10), rule });
+        }
+    }
+    return rules.sort((a, b) => b.priority - a.priority).map(({ rule }) => rule);
+}
+
+/** Conditional formatting rules of every worksheet in a package, by sheet name */
+export async function readConditionalFormats(zip: JSZip, resolve?: ColorResolver): Promise<Record<string, ConditionFormatRule[]>> {
+    const { sheets, stylesPath } = await workbookParts(zip);
+    const stylesXml = stylesPath ? await zip.file(stylesPath)?.async('string') : undefined;
+    const dxfs = stylesXml ? readDxfs(stylesXml) : [];
+
+    const result: Record<string, ConditionFormatRule[]> = {};
+    for (const sheet of sheets) {
+        const xml = await zip.file(sheet.path)?.async('string');
+        const rules = xml ? parseConditionalFormats(xml, dxfs, resolve) : [];
+        if (rules.length > 0) result[sheet.name] = rules;
+    }
+    return result;
+}
+
+// --- Writing ---
+
+const formulaLiteral = (value: string | number): string =>
+    typeof numeric(value) === 'number' ? String(numeric(value)) : `"${String(value).replace(/"/g, '""')}"`;
+
+const formulaElements = (formulas: string[]): string => formulas.map(f => `<formula>${escapeXml(f)}</formula>`).join('');
+
+// FortuneSheet stores date occurrences as "yyyy-mm-dd" or "yyyy-mm-dd - yyyy-mm-dd"
+const dateOccurrenceFormula = (value: string, cell: string): string | null => {
+    const dates = value.match(/\d{4}-\d{1,2}-\d{1,2}/g);
+    if (!dates) return null;
+    const date = (d: string) => `DATE(${d.split('-').map(n => parseInt(n, 10)).join(',')})`;
+    return `AND(INT(${cell})>=${date(dates[0])},INT(${cell})<=${date(dates[dates.length - 1])})`;
+};
+
+const buildCfRule = (rule: ConditionFormatRule, dxfId: (format: HighlightFormat) => number): string | null => {
+    const topLeft = encodeCell(rule.cellrange[0].row[0], rule.cellrange[0].column[0]);
+
+    if (rule.type === 'dataBar') {
+        const color = toArgb((rule.format as string[])[0] || DEFAULT_BAR_COLOR);
+        return `<cfRule type="dataBar"><dataBar><cfvo type="min"/><cfvo type="max"/><color rgb="${color}"/></dataBar></cfRule>`;
+    }
+    if (rule.type === 'colorGradation') {
+        const colors = [...(rule.format as string[])].reverse();
+        const cfvos = colors.length === 3
+            ? '<cfvo type="min"/><cfvo type="percentile" val="50"/><cfvo type="max"/>'
+            : '<cfvo type="min"/><cfvo type="max"/>';
+        return `<cfRule type="colorScale"><colorScale>${cfvos}${colors.map(c => `<color rgb="${toArgb(c)}"/>`).join('')}</colorScale></cfRule>`;
+    }
+    if (rule.type === 'icons') {
+        return '<cfRule type="iconSet"><iconSet><cfvo type="percent" val="0"/><cfvo type="percent" val="33"/><cfvo type="percent" val="67"/></iconSet></cfRule>';
+    }
+
+    const dxf = ` dxfId="${dxfId(rule.format as HighlightFormat)}"`;
+    const [v0, v1] = rule.conditionValue || [];
+    const name = rule.conditionName || '';
+    switch (name) {
+        case 'greaterThan':
+        case 'lessThan':
+        case 'equal':
+            return `<cfRule type="cellIs"${dxf} operator="${name}">${formulaElements([formulaLiteral(v0)])}</cfRule>`;
+        case 'between':
+            return `<cfRule type="cellIs"${dxf} operator="between">${formulaElements([formulaLiteral(v0), formulaLiteral(v1)])}</cfRule>`;
+        case 'textContains': {
+            const text = String(v0 ?? '');
+            return `<cfRule type="containsText"${dxf} operator="containsText" text="${escapeXml(text)}">` +
+                `${formulaElements([`NOT(ISERROR(SEARCH(${formulaLiteral(text)},${topLeft})))`])}</cfRule>`;
+        }
+        case 'duplicateValue':
+            return `<cfRule type="${String(v0) === '1' ? 'uniqueValues' : 'duplicateValues'}"${dxf}/>`;
+        case 'top10':
+        case 'top10_percent':
+        case 'last10':
+        case 'last10_percent': {
+            const percent = name.endsWith('_percent') ? ' percent="1"' : '';
+            const bottom = name.startsWith('last') ? ' bottom="1"' : '';
+            return `<cfRule type="top10"${dxf}${percent}${bottom} rank="${parseInt(String(v0), 10) || 10}"/>`;
+        }
+        case 'aboveAverage':
+        case 'belowAverage':
+            return `<cfRule type="aboveAverage"${dxf}${name === 'belowAverage' ? ' aboveAverage="0"' : ''}/>`;
+        case 'occurrenceDate': {
+            const formula = dateOccurrenceFormula(String(v0 ?? ''), topLeft);
+            return formula ? `<cfRule type="expression"${dxf}>${formulaElements([formula])}</cfRule>` : null;
+        }
+        case 'formula':
+            return `<cfRule type="expression"${dxf}>${formulaElements([String(v0 ?? '').replace(/^=/, '')])}</cfRule>`;
+        default:
+            return null;
+    }
+};
+
+/**
+ * `<conditionalFormatting>` elements for a worksheet, one per rule, with Excel priorities
+ * following the rule order (the last rule wins, as in FortuneSheet).
+ *
+ * @param dxfId - Registers the colors of a highlight rule as a differential format
+ * @param reuse - Original `<cfRule>` to keep for a rule that was not changed
+ */
+export function serializeConditionalFormats(
+    rules: ConditionFormatRule[],
+    dxfId: (format: HighlightFormat) => number,
+    reuse: (rule: ConditionFormatRule) => string | undefined = () => undefined
+): string {
+    return rules.map((rule, index) => {
+        if (rule.cellrange.length === 0) return '';
+        const cfRule = reuse(rule) ?? buildCfRule(rule, dxfId);
+        if (!cfRule) return '';
+        return `<conditionalFormatting sqref="${formatSqref(rule.cellrange)}">${setAttr(cfRule, 'priority', String(rules.length - index))}</conditionalFormatting>`;
+    }).join('');
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+    expandDataValidations,
+    listResolver,
+    parseDataValidations,
+    serializeDataValidations,
+    validateCellValue,
+    DataVerificationItem,
+} from './dataValidation';
+
+const sheet = (validations: string) =>
+    `<worksheet><sheetData/><dataValidations count="1">${validations}</dataValidations><pageMargins/></worksheet>`;
+
+const STATUS = '<dataValidation type="list" allowBlank="1" showInputMessage="1" showErrorMessage="1" prompt="Pick a status" sqref="C2:C4">' +
+    '<formula1>"Open,In progress,Done"</formula1></dataValidation>';
+
+const noLists = () => [];
+
+describe('dataValidation', () => {
+    describe('parseDataValidations', () => {
+        it('should read list validations as dropdowns that reject invalid input', () => {
+            const [rule] = parseDataValidations(sheet(STATUS));
+
+            expect(rule.ranges).toEqual([{ row: [1, 3], column: [2, 2] }]);
+            expect(rule.item).toMatchObject({
+                type: 'dropdown', value1: 'Open,In progress,Done', prohibitInput: true, hintShow: true, hintValue: 'Pick a status', xml: STATUS,
+            });
+        });
+
+        it('should map number and date validations to FortuneSheet operators', () => {
+            const rules = parseDataValidations(sheet(
+                '<dataValidation type="whole" operator="greaterThan" errorStyle="warning" showErrorMessage="1" sqref="B2"><formula1>10</formula1></dataValidation>' +
+                '<dataValidation type="date" showErrorMessage="1" sqref="D2:D9"><formula1>46023</formula1><formula2>46387</formula2></dataValidation>' +
+                '<dataValidation type="list" sqref="E2"><formula1>$H$1:$H$3</formula1></dataValidation>'
+            ));
+
+            expect(rules.map(({ item }) => [item.type, item.type2, item.value1, item.value2, item.prohibitInput])).toEqual([
+                ['number_integer', 'moreThanThe', '10', '', false],
+                ['date', 'between', '2026-01-01', '2026-12-31', true],
+                ['dropdown', '', 'H1:H3', '', false],
+            ]);
+        });
+
+        it('should leave out validations the editor cannot represent', () => {
+            expect(parseDataValidations(sheet(
+                '<dataValidation type="custom" sqref="A1"><formula1>ISNUMBER(A1)</formula1></dataValidation>' +
+                '<dataValidation type="decimal" sqref="A2"><formula1>$B$1</formula1><formula2>$B$2</formula2></dataValidation>'
+            ))).toEqual([]);
+        });
+    });
+
+    describe('expandDataValidations', () => {
+        it('should key items by cell and clip whole columns to the sheet size', () => {
+            const rules = parseDataValidations(sheet('<dataValidation type="list" sqref="A:A"><formula1>"x,y"</formula1></dataValidation>'));
+            const cells = expandDataValidations(rules, 50, 26);
+
+            expect(Object.keys(cells)).toHaveLength(50);
+            expect(cells['49_0']).toBe(rules[0].item);
+        });
+    });
+
+    describe('validateCellValue', () => {
+        const [status] = parseDataValidations(sheet(STATUS));
+
+        it('should accept listed options and blanks only', () => {
+            expect(validateCellValue(status.item, 'Done', noLists)).toBeNull();
+            expect(validateCellValue(status.item, '', noLists)).toBeNull();
+            expect(validateCellValue(status.item, 'Closed', noLists)).toBe('"Closed" is not one of the allowed values: Open, In progress, Done');
+        });
+
+        it('should resolve range-based lists through the sheet', () => {
+            const item = { ...status.item, value1: 'Lists!A1:A3' };
+            const cells: Record<string, string> = { 'Lists:0': 'Alice', 'Lists:1': 'Bob' };
+            const resolve = listResolver((sheetName, r) => cells[`${sheetName}:${r}`]);
+
+            expect(validateCellValue(item, 'Bob', resolve)).toBeNull();
+            expect(validateCellValue(item, 'Carol', resolve)).toBe('"Carol" is not one of the allowed values: Alice, Bob');
+        });
+
+        it('should check number and date bounds', () => {
+            const [whole, date] = parseDataValidations(sheet(
+                '<dataValidation type="whole" sqref="B2"><formula1>0</formula1><formula2>100</formula2></dataValidation>' +
+                '<dataValidation type="date" operator="greaterThanOrEqual" sqref="D2"><formula1>46023</formula1></dataValidation>'
+            ));
+
+            expect(validateCellValue(whole.item, 42, noLists)).toBeNull();
+            expect(validateCellValue(whole.item, '4.5', noLists)).toBe('4.5 is not a whole number');
+            expect(validateCellValue(whole.item, 120, noLists)).toBe('120 must be between 0 and 100');
+            expect(validateCellValue(date.item, '2026-03-01', noLists)).toBeNull();
+            expect(validateCellValue(date.item, '2025-12-31', noLists)).toBe('the date must be on or after 2026-01-01');
+        });
+    });
+
+    describe('serializeDataValidations', () => {
+        it('should write new items as one element per item over the fewest ranges', () => {
+            const item: DataVerificationItem = {
+                type: 'dropdown', type2: '', rangeTxt: 'B2:C3', value1: 'Yes,No', value2: '', validity: '',
+                remote: false, prohibitInput: true, hintShow: false, hintValue: '',
+            };
+            const cells = { '1_1': item, '1_2': item, '2_1': item, '2_2': item, '5_1': item };
+
+            expect(serializeDataValidations(cells)).toEqual([
+                '<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="B2:C3 B6"><formula1>&quot;Yes,No&quot;</formula1></dataValidation>',
+            ]);
+        });
+
+        it('should keep the original element of unchanged items and follow the cells they cover', () => {
+            const rules = parseDataValidations(sheet(STATUS));
+            const original = expandDataValidations(rules, 50, 26);
+
+            expect(serializeDataValidations(original, original)).toEqual([STATUS]);
+
+            const shrunk = { ...original };
+            delete shrunk['3_2'];
+            expect(serializeDataValidations(shrunk, original)).toEqual([STATUS.replace('sqref="C2:C4"', 'sqref="C2:C3"')]);
+        });
+
+        it('should write date bounds back as serial numbers', () => {
+            const [rule] = parseDataValidations(sheet(
+                '<dataValidation type="date" operator="lessThan" showErrorMessage="1" sqref="D2"><formula1>46023</formula1></dataValidation>'
+            ));
+            const edited = { ...rule.item, prohibitInput: false, xml: undefined };
+
+            expect(serializeDataValidations({ '1_3': edited })).toEqual([
+                '<dataValidation type="date" operator="lessThan" allowBlank="1" errorStyle="warning" showErrorMessage="1" sqref="D2"><formula1>46023</formula1></dataValidation>',
+            ]);
+        });
+    });
+});
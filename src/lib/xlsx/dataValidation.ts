@@ -0,0 +1,393 @@
+import JSZip from 'jszip';
+import { CellRange, formatSqref, parseRangeRef, parseSqref } from './conditionalFormat';
+import { workbookParts } from './package';
+import { decodeCell, escapeXml, findElement, findElements, getAttr, innerXml, setAttr, unescapeXml } from './xml';
+
+/**
+ * A validation in FortuneSheet's `dataVerification` shape, stored per cell under `"r_c"` keys.
+ * `type2` is the comparison operator (FortuneSheet's names, e.g. `moreThanThe`); for
+ * dropdowns `value1` holds the comma separated options or the range they come from.
+ */
+export interface DataVerificationItem {
+    type: 'dropdown' | 'checkbox' | 'number' | 'number_integer' | 'number_decimal' | 'text_content' | 'text_length' | 'date' | 'validity';
+    type2: string;
+    rangeTxt: string;
+    value1: string;
+    value2: string;
+    validity: string;
+    remote: boolean;
+    /** Reject invalid input; otherwise it is accepted and the cell is marked */
+    prohibitInput: boolean;
+    hintShow: boolean;
+    hintValue: string;
+    checked?: boolean;
+    /** `<dataValidation>` the item was read from, written back as-is while the item is unchanged */
+    xml?: string;
+}
+
+/** A `<dataValidation>` element: the item and the cell ranges of its sqref */
+export interface DataValidationRule {
+    ranges: CellRange[];
+    item: DataVerificationItem;
+}
+
+/** Why a value was refused by a validation, and whether the validation rejects it or only warns */
+export interface ValidationFailure {
+    message: string;
+    prohibitInput: boolean;
+}
+
+/** Options of a range-based list (e.g. "Lists!A1:A5"), in the order of the cells */
+export type ListResolver = (ref: string) => string[];
+
+// Excel operators <-> FortuneSheet operators of number and text length validations
+const NUMBER_OPERATORS: Record<string, string> = {
+    between: 'between', notBetween: 'notBetween', equal: 'equal', notEqual: 'notEqualTo',
+    greaterThan: 'moreThanThe', lessThan: 'lessThan', greaterThanOrEqual: 'greaterOrEqualTo', lessThanOrEqual: 'lessThanOrEqualTo',
+};
+const DATE_OPERATORS: Record<string, string> = {
+    ...NUMBER_OPERATORS,
+    greaterThan: 'laterThan', lessThan: 'earlierThan', greaterThanOrEqual: 'noEarlierThan', lessThanOrEqual: 'noLaterThan',
+};
+const RANGE_OPERATORS = ['between', 'notBetween'];
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 86400000;
+
+const excelOperator = (operators: Record<string, string>, type2: string): string =>
+    Object.keys(operators).find(key => operators[key] === type2) || 'between';
+
+// Excel date serial <-> the "yyyy-mm-dd" text FortuneSheet compares dates as
+const serialToDate = (serial: number): string => new Date(EXCEL_EPOCH + Math.round(serial) * DAY_MS).toISOString().slice(0, 10);
+
+const dateToSerial = (text: string): number | null => {
+    const match = String(text).match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+    return match ? (Date.UTC(+match[1], +match[2] - 1, +match[3]) - EXCEL_EPOCH) / DAY_MS : null;
+};
+
+const isNumber = (text: string | undefined): text is string => text !== undefined && text.trim() !== '' && !isNaN(Number(text));
+
+/** A ListResolver reading the option cells through a lookup of their displayed text (sheet undefined: the validated sheet) */
+export const listResolver = (cellText: (sheet: string | undefined, r: number, c: number) => string | undefined): ListResolver =>
+    ref => {
+        const list = parseRangeRef(ref);
+        const options: string[] = [];
+        if (!list) return options;
+        for (let r = list.range.row[0]; r <= list.range.row[1]; r++) {
+            for (let c = list.range.column[0]; c <= list.range.column[1]; c++) {
+                const text = cellText(list.sheet, r, c);
+                if (text && !options.includes(text)) options.push(text);
+            }
+        }
+        return options;
+    };
+
+/** Options of a dropdown validation */
+export const dropdownOptions = (item: DataVerificationItem, resolveList: ListResolver): string[] =>
+    parseRangeRef(item.value1)
+        ? resolveList(item.value1)
+        : [...new Set(item.value1.split(',').filter(option => option.length > 0))];
+
+const emptyItem = (rangeTxt: string): DataVerificationItem => ({
+    type: 'dropdown', type2: '', rangeTxt, value1: '', value2: '', validity: '',
+    remote: false, prohibitInput: false, hintShow: false, hintValue: '',
+});
+
+// --- Reading ---
+
+/**
+ * A `<dataValidation>` as a FortuneSheet item, or null for validations the editor cannot
+ * represent (custom formulas, times, computed bounds...), which are kept as they are on save.
+ */
+export function parseDataValidation(element: string): DataVerificationItem | null {
+    const formula = (tag: string) => {
+        const found = findElement(element, tag);
+        return found !== undefined ? unescapeXml(innerXml(found, tag)).trim() : undefined;
+    };
+    const [f1, f2] = [formula('formula1'), formula('formula2')];
+    const operator = getAttr(element, 'operator') || 'between';
+    const prompt = getAttr(element, 'prompt') || '';
+    const item: DataVerificationItem = {
+        ...emptyItem(getAttr(element, 'sqref') || ''),
+        // Excel only enforces a validation that shows its error alert, and only "Stop" alerts reject the entry
+        prohibitInput: getAttr(element, 'showErrorMessage') === '1' && (getAttr(element, 'errorStyle') || 'stop') === 'stop',
+        hintShow: getAttr(element, 'showInputMessage') === '1' && prompt !== '',
+        hintValue: prompt,
+        xml: element,
+    };
+    const bounds = (convert: (text: string) => string) => ({
+        value1: convert(f1!),
+        value2: RANGE_OPERATORS.includes(operator) ? convert(f2!) : '',
+    });
+    const literalBounds = isNumber(f1) && (!RANGE_OPERATORS.includes(operator) || isNumber(f2));
+
+    switch (getAttr(element, 'type')) {
+        case 'list': {
+            if (!f1) return null;
+            const literal = f1.match(/^"((?:[^"]|"")*)"$/);
+            if (literal) return { ...item, type: 'dropdown', value1: literal[1].replace(/""/g, '"') };
+            return parseRangeRef(f1) ? { ...item, type: 'dropdown', value1: f1.replace(/\$/g, '') } : null;
+        }
+        case 'whole':
+        case 'decimal':
+        case 'textLength': {
+            if (!literalBounds || !NUMBER_OPERATORS[operator]) return null;
+            const type = getAttr(element, 'type') === 'textLength' ? 'text_length' : getAttr(element, 'type') === 'whole' ? 'number_integer' : 'number';
+            return { ...item, type, type2: NUMBER_OPERATORS[operator], ...bounds(String) };
+        }
+        case 'date':
+            if (!literalBounds || !DATE_OPERATORS[operator]) return null;
+            return { ...item, type: 'date', type2: DATE_OPERATORS[operator], ...bounds(text => serialToDate(Number(text))) };
+        default:
+            return null;
+    }
+}
+
+/** Validations of a worksheet part that the editor can represent */
+export function parseDataValidations(sheetXml: string): DataValidationRule[] {
+    const container = findElement(sheetXml, 'dataValidations');
+    if (!container) return [];
+    return findElements(container, 'dataValidation').flatMap(element => {
+        const item = parseDataValidation(element);
+        const ranges = parseSqref(getAttr(element, 'sqref') || '');
+        return item && ranges.length > 0 ? [{ ranges, item }] : [];
+    });
+}
+
+/** Data validations of every worksheet in a package, by sheet name */
+export async function readDataValidations(zip: JSZip): Promise<Record<string, DataValidationRule[]>> {
+    const { sheets } = await workbookParts(zip);
+    const result: Record<string, DataValidationRule[]> = {};
+    for (const sheet of sheets) {
+        const xml = await zip.file(sheet.path)?.async('string');
+        const rules = xml ? parseDataValidations(xml) : [];
+        if (rules.length > 0) result[sheet.name] = rules;
+    }
+    return result;
+}
+
+/**
+ * FortuneSheet's per-cell `dataVerification` map. Ranges are clipped to the sheet size, so a
+ * whole-column validation covers the rows the sheet shows rather than a million cells.
+ */
+export function expandDataValidations(rules: DataValidationRule[], rows: number, columns: number): Record<string, DataVerificationItem> {
+    const cells: Record<string, DataVerificationItem> = {};
+    for (const { ranges, item } of rules) {
+        for (const { row, column } of ranges) {
+            for (let r = row[0]; r <= Math.min(row[1], rows - 1); r++) {
+                for (let c = column[0]; c <= Math.min(column[1], columns - 1); c++) {
+                    cells[`${r}_${c}`] = item;
+                }
+            }
+        }
+    }
+    return cells;
+}
+
+/** The validation covering a cell, for callers working from the package rather than the editor */
+export const validationAt = (rules: DataValidationRule[], r: number, c: number): DataVerificationItem | undefined =>
+    rules.find(({ ranges }) => ranges.some(({ row, column }) => r >= row[0] && r <= row[1] && c >= column[0] && c <= column[1]))?.item;
+
+// --- Checking values ---
+
+const compare = (operator: string, value: number, a: number, b: number): boolean => {
+    switch (operator) {
+        case 'between': return value >= a && value <= b;
+        case 'notBetween': return value < a || value > b;
+        case 'equal': return value === a;
+        case 'notEqualTo': return value !== a;
+        case 'moreThanThe': case 'laterThan': return value > a;
+        case 'lessThan': case 'earlierThan': return value < a;
+        case 'greaterOrEqualTo': case 'noEarlierThan': return value >= a;
+        case 'lessThanOrEqualTo': case 'noLaterThan': return value <= a;
+        default: return true;
+    }
+};
+
+const OPERATOR_TEXT: Record<string, string> = {
+    between: 'between {1} and {2}', notBetween: 'not between {1} and {2}', equal: 'equal to {1}', notEqualTo: 'not equal to {1}',
+    moreThanThe: 'greater than {1}', lessThan: 'less than {1}', greaterOrEqualTo: 'at least {1}', lessThanOrEqualTo: 'at most {1}',
+    laterThan: 'later than {1}', earlierThan: 'earlier than {1}', noEarlierThan: 'on or after {1}', noLaterThan: 'on or before {1}',
+};
+
+const describeBounds = (item: DataVerificationItem): string =>
+    (OPERATOR_TEXT[item.type2] || '').replace('{1}', item.value1).replace('{2}', item.value2);
+
+/**
+ * Check a value against a validation the way FortuneSheet does for typed input.
+ * Returns why the value is invalid, or null when it is accepted (blank values always are).
+ */
+export function validateCellValue(item: DataVerificationItem, value: string | number, resolveList: ListResolver): string | null {
+    const text = String(value);
+    if (text === '') return null;
+
+    switch (item.type) {
+        case 'dropdown': {
+            const options = dropdownOptions(item, resolveList);
+            return options.includes(text) ? null : `"${text}" is not one of the allowed values: ${options.join(', ')}`;
+        }
+        case 'checkbox':
+            return text === item.value1 || text === item.value2 ? null : `must be "${item.value1}" or "${item.value2}"`;
+        case 'number':
+        case 'number_integer':
+        case 'number_decimal': {
+            if (!isNumber(text)) return `"${text}" is not a number`;
+            const number = Number(text);
+            if (item.type === 'number_integer' && number % 1 !== 0) return `${text} is not a whole number`;
+            if (item.type === 'number_decimal' && number % 1 === 0) return `${text} is not a decimal number`;
+            return compare(item.type2, number, Number(item.value1), Number(item.value2)) ? null : `${text} must be ${describeBounds(item)}`;
+        }
+        case 'text_length':
+            return compare(item.type2, text.length, Number(item.value1), Number(item.value2))
+                ? null
+                : `the text must have a length ${describeBounds(item)}`;
+        case 'text_content': {
+            const valid = item.type2 === 'include' ? text.includes(item.value1)
+                : item.type2 === 'exclude' ? !text.includes(item.value1)
+                    : text === item.value1;
+            return valid ? null : `the text must ${item.type2 === 'exclude' ? 'not contain' : item.type2 === 'include' ? 'contain' : 'be'} "${item.value1}"`;
+        }
+        case 'date': {
+            const serial = isNumber(text) ? Number(text) : dateToSerial(text);
+            if (serial === null) return `"${text}" is not a date (use yyyy-mm-dd)`;
+            const [a, b] = [item.value1, item.value2].map(bound => dateToSerial(bound) ?? NaN);
+            return compare(item.type2, Math.floor(serial), a, b) ? null : `the date must be ${describeBounds(item)}`;
+        }
+        default:
+            return null;
+    }
+}
+
+// --- Writing ---
+
+/** Identity of an item for change detection (everything but its source XML and display range) */
+export const itemKey = (item: DataVerificationItem): string =>
+    JSON.stringify([item.type, item.type2, item.value1, item.value2, item.validity, item.prohibitInput, item.hintShow, item.hintValue]);
+
+export const sameValidations = (a: Record<string, DataVerificationItem>, b: Record<string, DataVerificationItem>): boolean => {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => b[key] !== undefined && itemKey(a[key]) === itemKey(b[key]));
+};
+
+// Cells as the fewest rectangles a row-by-row sweep finds: runs along a row, stacked while their columns match
+const cellRanges = (cells: { r: number; c: number }[]): CellRange[] => {
+    const sorted = [...cells].sort((a, b) => a.r - b.r || a.c - b.c);
+    const runs: CellRange[] = [];
+    for (const { r, c } of sorted) {
+        const last = runs[runs.length - 1];
+        if (last && last.row[0] === r && last.column[1] === c - 1) last.column[1] = c;
+        else runs.push({ row: [r, r], column: [c, c] });
+    }
+    const ranges: CellRange[] = [];
+    const open = new Map<string, CellRange>();
+    for (const run of runs) {
+        const key = run.column.join(':');
+        const above = open.get(key);
+        if (above && above.row[1] === run.row[0] - 1) {
+            above.row[1] = run.row[0];
+        } else {
+            const range = { row: [...run.row], column: [...run.column] };
+            ranges.push(range);
+            open.set(key, range);
+        }
+    }
+    return ranges;
+};
+
+const formulaList = (options: string): string => `"${options.replace(/"/g, '""')}"`;
+
+const buildDataValidation = (item: DataVerificationItem, sqref: string): string | null => {
+    let type: string;
+    let operator = '';
+    let formulas: string[];
+    const [topLeft] = sqref.split(/[\s:]/);
+
+    switch (item.type) {
+        case 'dropdown':
+            type = 'list';
+            formulas = [parseRangeRef(item.value1) ? item.value1 : formulaList(item.value1)];
+            break;
+        case 'checkbox':
+            type = 'list';
+            formulas = [formulaList(`${item.value1},${item.value2}`)];
+            break;
+        case 'number':
+        case 'number_integer':
+        case 'number_decimal':
+        case 'text_length':
+            type = item.type === 'text_length' ? 'textLength' : item.type === 'number_integer' ? 'whole' : 'decimal';
+            operator = excelOperator(NUMBER_OPERATORS, item.type2);
+            formulas = [item.value1, item.value2].map(v => String(Number(v) || 0));
+            break;
+        case 'date':
+            type = 'date';
+            operator = excelOperator(DATE_OPERATORS, item.type2);
+            formulas = [item.value1, item.value2].map(v => String(dateToSerial(v) ?? 0));
+            break;
+        case 'text_content': {
+            // No built-in Excel equivalent; written as the custom formula it amounts to
+            type = 'custom';
+            const search = `SEARCH(${formulaList(item.value1)},${topLeft})`;
+            formulas = [item.type2 === 'include' ? `ISNUMBER(${search})` : item.type2 === 'exclude' ? `ISERROR(${search})` : `${topLeft}=${formulaList(item.value1)}`];
+            break;
+        }
+        default:
+            // ID card and phone number checks have no Excel counterpart
+            return null;
+    }
+    if (!RANGE_OPERATORS.includes(operator)) formulas = formulas.slice(0, 1);
+
+    const attrs = [
+        `type="${type}"`,
+        operator && operator !== 'between' ? ` operator="${operator}"` : '',
+        ' allowBlank="1"',
+        item.prohibitInput ? '' : ' errorStyle="warning"',
+        item.hintShow ? ' showInputMessage="1"' : '',
+        ' showErrorMessage="1"',
+        item.hintShow && item.hintValue ? ` prompt="${escapeXml(item.hintValue)}"` : '',
+        ` sqref="${sqref}"`,
+    ].join('');
+    const children = formulas.map((f, i) => `<formula${i + 1}>${escapeXml(f)}</formula${i + 1}>`).join('');
+    return `<dataValidation ${attrs}>${children}</dataValidation>`;
+};
+
+/**
+ * `<dataValidation>` elements for FortuneSheet's per-cell map, one per distinct item.
+ * An item that is unchanged since loading keeps its original element; only its sqref is
+ * updated when the cells it covers changed.
+ *
+ * @param original - The map as loaded, to recognize unchanged items
+ */
+export function serializeDataValidations(
+    cells: Record<string, DataVerificationItem>,
+    original: Record<string, DataVerificationItem> = {}
+): string[] {
+    const group = (map: Record<string, DataVerificationItem>) => {
+        const groups = new Map<string, { item: DataVerificationItem; cells: { r: number; c: number }[] }>();
+        for (const [key, item] of Object.entries(map)) {
+            const [r, c] = key.split('_').map(Number);
+            const id = `${item.xml ?? ''}\u0000${itemKey(item)}`;
+            if (!groups.has(id)) groups.set(id, { item, cells: [] });
+            groups.get(id)!.cells.push({ r, c });
+        }
+        return groups;
+    };
+    const before = group(original);
+
+    return [...group(cells)].flatMap(([id, { item, cells: covered }]) => {
+        const sqref = formatSqref(cellRanges(covered));
+        const previous = before.get(id);
+        if (item.xml && previous) {
+            const unmoved = formatSqref(cellRanges(previous.cells)) === sqref;
+            return [unmoved ? item.xml : setAttr(item.xml, 'sqref', sqref)];
+        }
+        const element = buildDataValidation(item, sqref);
+        return element ? [element] : [];
+    });
+}
+
+/** Key of an A1 cell reference in the per-cell map ("B3" -> "2_1") */
+export const verificationKey = (cell: string): string | null => {
+    const position = decodeCell(cell);
+    return position ? `${position.r}_${position.c}` : null;
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { findFormulaIssues, formulaReferences, sheetsFromEditor, sheetsFromWorkbook, traceCell, FormulaSheet } from './formulas';
+
+type Cells = Record<string, string | number>;
+
+// Sheets from A1 -> content maps; strings starting with '=' are formulas, `values` holds their computed results
+const workbook = (sheets: Record<string, Cells>, values: Record<string, Cells> = {}): FormulaSheet[] =>
+    sheetsFromWorkbook({
+        SheetNames: Object.keys(sheets),
+        Sheets: Object.fromEntries(Object.entries(sheets).map(([name, cells]) => [name, Object.fromEntries(
+            Object.entries(cells).map(([address, content]) => {
+                const computed = values[name]?.[address];
+                if (typeof content === 'string' && content.startsWith('=')) {
+                    return [address, typeof computed === 'string' && computed.startsWith('#')
+                        ? { f: content.slice(1), t: 'e', w: computed }
+                        : { f: content.slice(1), t: 'n', v: computed }];
+                }
+                return [address, { t: typeof content === 'number' ? 'n' : 's', v: content }];
+            })
+        )])),
+    });
+
+describe('formulas', () => {
+    describe('formulaReferences', () => {
+        it('should read cells, ranges, whole columns and rows, qualified or not', () => {
+            expect(formulaReferences('=SUM($B$2:B9)+Data!A1+\'Q1 Sales\'!C:C+COUNT(3:3)', 'Main')).toEqual([
+                { text: '$B$2:B9', sheet: 'Main', ref: 'B2:B9', range: { row: [1, 8], column: [1, 1] } },
+                { text: 'Data!A1', sheet: 'Data', ref: 'A1', range: { row: [0, 0], column: [0, 0] } },
+                { text: "'Q1 Sales'!C:C", sheet: 'Q1 Sales', ref: 'C:C', range: { row: [0, 1048575], column: [2, 2] } },
+                { text: '3:3', sheet: 'Main', ref: '3:3', range: { row: [2, 2], column: [0, 16383] } },
+            ]);
+        });
+
+        it('should skip string literals, function names and names beyond the last column', () => {
+            expect(formulaReferences('=IF(A1="B2",LOG10(C3),RATE_XYZ1+XYZ1)', 'Main').map(reference => reference.ref)).toEqual(['A1', 'C3']);
+        });
+
+        it('should report #REF! without a range', () => {
+            expect(formulaReferences('=#REF!+Data!#REF!', 'Main')).toEqual([
+                { text: '#REF!', sheet: 'Main', ref: '#REF!', range: null },
+                { text: 'Data!#REF!', sheet: 'Data', ref: '#REF!', range: null },
+            ]);
+        });
+    });
+
+    describe('sheetsFromEditor', () => {
+        it('should read loaded celldata and the data matrix the Workbook reports alike', () => {
+            const cell = { v: 12, m: '12', f: '=A1*2' };
+            const [loaded] = sheetsFromEditor([{ name: 'Main', celldata: [{ r: 0, c: 1, v: cell }, { r: 0, c: 0, v: { v: 6 } }] }]);
+            const [live] = sheetsFromEditor([{ name: 'Main', data: [[{ v: 6 }, cell, null, { v: '' }]] }]);
+
+            expect(live).toEqual(loaded);
+            expect(live.cells.get('0_1')).toEqual({ r: 0, c: 1, formula: '=A1*2', value: 12 });
+            expect(live.cells.size).toBe(2);
+        });
+    });
+
+    describe('traceCell', () => {
+        const sheets = workbook({
+            Main: { A1: 10, B1: '=A1*2', C1: '=B1+Data!A1', D1: '=SUM(B1:C1)' },
+            Data: { A1: '=Main!A1+1' },
+        }, { Main: { B1: 20, C1: 31, D1: 51 }, Data: { A1: 11 } });
+
+        it('should follow precedents across sheets level by level', () => {
+            expect(traceCell(sheets, { sheet: 'Main', r: 0, c: 3 }, 'precedents')).toEqual([
+                { level: 1, from: 'Main!D1', ref: 'Main!B1:C1', formula: undefined, value: undefined },
+                { level: 2, from: 'Main!B1', ref: 'Main!A1', formula: undefined, value: 10 },
+                { level: 2, from: 'Main!C1', ref: 'Main!B1', formula: '=A1*2', value: 20 },
+                { level: 2, from: 'Main!C1', ref: 'Data!A1', formula: '=Main!A1+1', value: 11 },
+                { level: 3, from: 'Data!A1', ref: 'Main!A1', formula: undefined, value: 10 },
+            ]);
+        });
+
+        it('should follow dependents up to the given depth', () => {
+            const dependents = traceCell(sheets, { sheet: 'Main', r: 0, c: 0 }, 'dependents', 2);
+
+            expect(dependents.map(step => [step.level, step.ref, step.value])).toEqual([
+                [1, 'Main!B1', 20],
+                [1, 'Data!A1', 11],
+                [2, 'Main!C1', 31],
+                [2, 'Main!D1', 51],
+            ]);
+        });
+    });
+
+    describe('findFormulaIssues', () => {
+        it('should tell errors that originate in a formula from errors it propagates', () => {
+            const issues = findFormulaIssues(workbook(
+                { Main: { A1: 5, B1: 0, C1: '=A1/B1', D1: '=C1*2', E1: '#N/A' } },
+                { Main: { C1: '#DIV/0!', D1: '#DIV/0!' } }
+            ));
+
+            expect(issues).toEqual([
+                { kind: 'error', sheet: 'Main', cell: 'C1', formula: '=A1/B1', message: '#DIV/0! originates in this formula (division by zero or by an empty cell)' },
+                { kind: 'error', sheet: 'Main', cell: 'D1', formula: '=C1*2', message: '#DIV/0! propagated from Main!C1' },
+                { kind: 'error', sheet: 'Main', cell: 'E1', message: 'The cell holds the error value #N/A' },
+            ]);
+        });
+
+        it('should report #REF!, missing sheets and circular references across sheets', () => {
+            const issues = findFormulaIssues(workbook({
+                Main: { A1: '=#REF!*2', B1: '=Gone!A1', C1: '=Data!A1+1', D1: '=D1' },
+                Data: { A1: '=Main!C1*2' },
+            }));
+
+            expect(issues.map(issue => [issue.kind, issue.cell, issue.message])).toEqual([
+                ['invalidReference', 'A1', 'The formula contains #REF!: a cell, row, column or sheet it referenced was deleted'],
+                ['missingSheet', 'B1', 'References sheet "Gone", which does not exist'],
+                ['circular', 'C1', 'Circular reference between Main!C1, Data!A1'],
+                ['circular', 'D1', 'The formula refers to its own cell'],
+            ]);
+        });
+
+        it('should walk long dependency chains without overflowing the stack', () => {
+            const cells: Cells = { A1: 1 };
+            for (let row = 2; row <= 20000; row++) cells[`A${row}`] = `=A${row - 1}+1`;
+
+            expect(findFormulaIssues(workbook({ Main: cells }))).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,377 @@
+import { CellRange, parseSqref, quoteSheetName } from './conditionalFormat';
+import { decodeCell, encodeCell } from './xml';
+
+export type CellScalar = string | number | boolean | null;
+
+/** A non-empty cell: its formula (with the leading '=') and its last computed value */
+export interface FormulaCell {
+    r: number;
+    c: number;
+    formula?: string;
+    value?: CellScalar;
+}
+
+/** The non-empty cells of a sheet, keyed by `"r_c"` */
+export interface FormulaSheet {
+    name: string;
+    cells: Map<string, FormulaCell>;
+}
+
+/** A reference found in a formula; `range` is null for `#REF!` */
+export interface FormulaReference {
+    /** Reference as written in the formula ("Data!$B$2:$B$9") */
+    text: string;
+    /** Referenced sheet, the formula's own sheet when unqualified */
+    sheet: string;
+    /** The A1 part without `$` ("B2:B9", "A:A") */
+    ref: string;
+    range: CellRange | null;
+}
+
+export interface CellAddress {
+    sheet: string;
+    r: number;
+    c: number;
+}
+
+export type TraceDirection = 'precedents' | 'dependents';
+
+/** A cell or range reached while tracing; level 1 holds the direct precedents or dependents */
+export interface TraceStep {
+    level: number;
+    /** Cell the step was reached from, qualified by its sheet */
+    from: string;
+    /** Reached cell or range, qualified by its sheet */
+    ref: string;
+    formula?: string;
+    value?: CellScalar;
+    /** `#REF!` or a reference to a sheet that does not exist */
+    broken?: boolean;
+}
+
+export type FormulaIssueKind = 'error' | 'invalidReference' | 'missingSheet' | 'circular';
+
+export interface FormulaIssue {
+    kind: FormulaIssueKind;
+    sheet: string;
+    /** A1 address of the cell the issue is reported on */
+    cell: string;
+    formula?: string;
+    message: string;
+}
+
+/** Cell as held by FortuneSheet, either loaded (`celldata`) or reported by the Workbook (`data` matrix) */
+interface EditorCell {
+    v?: CellScalar;
+    m?: string | number;
+    f?: string;
+}
+
+export interface EditorSheet {
+    name: string;
+    celldata?: { r: number; c: number; v: EditorCell | null }[];
+    data?: (EditorCell | null)[][];
+}
+
+/** The subset of a SheetJS workbook read here */
+export interface WorkbookLike {
+    SheetNames: string[];
+    Sheets: Record<string, Record<string, unknown>>;
+}
+
+const MAX_ROW = 1048575;
+const MAX_COL = 16383;
+
+const ERROR_VALUES: Record<string, string> = {
+    '#DIV/0!': 'division by zero or by an empty cell',
+    '#REF!': 'reference to a deleted cell, row, column or sheet',
+    '#NAME?': 'unknown function or name',
+    '#VALUE!': 'argument of the wrong type',
+    '#N/A': 'value not available (e.g. a lookup without a match)',
+    '#NUM!': 'invalid numeric value',
+    '#NULL!': 'ranges that do not intersect',
+    '#SPILL!': 'spill range is not empty',
+    '#CALC!': 'calculation error',
+};
+
+// An optionally sheet-qualified cell, range, whole column or row, or #REF!; names followed by '(' are functions (LOG10)
+const REFERENCE = /(?<![\p{L}\p{N}_.$])(?:('(?:[^']|'')+'|[\p{L}_][\p{L}\p{N}_.]*)!)?(#REF!|\$?[A-Z]{1,3}\$?\d+(?::\$?[A-Z]{1,3}\$?\d+)?|\$?[A-Z]{1,3}:\$?[A-Z]{1,3}|\$?\d+:\$?\d+)(?![\p{L}\p{N}_(])/giu;
+
+const cellKey = (r: number, c: number): string => `${r}_${c}`;
+
+const qualify = (sheet: string, ref: string): string => `${quoteSheetName(sheet)}!${ref}`;
+
+export const isErrorValue = (value: CellScalar | undefined): value is string =>
+    typeof value === 'string' && value in ERROR_VALUES;
+
+// Sheet names are case-insensitive in references
+const findSheet = (sheets: FormulaSheet[], name: string): FormulaSheet | undefined =>
+    sheets.find(sheet => sheet.name.toLowerCase() === name.toLowerCase());
+
+const inRange = (range: CellRange, r: number, c: number): boolean =>
+    r >= range.row[0] && r <= range.row[1] && c >= range.column[0] && c <= range.column[1];
+
+// Cells of a sheet inside a range, walking whichever is smaller: the range or the sheet's cells
+const cellsInRange = (sheet: FormulaSheet, range: CellRange): FormulaCell[] => {
+    const area = (range.row[1] - range.row[0] + 1) * (range.column[1] - range.column[0] + 1);
+    const found: FormulaCell[] = [];
+    if (area <= sheet.cells.size) {
+        for (let r = range.row[0]; r <= range.row[1]; r++) {
+            for (let c = range.column[0]; c <= range.column[1]; c++) {
+                const cell = sheet.cells.get(cellKey(r, c));
+                if (cell) found.push(cell);
+            }
+        }
+    } else {
+        sheet.cells.forEach(cell => {
+            if (inRange(range, cell.r, cell.c)) found.push(cell);
+        });
+    }
+    return found;
+};
+
+// --- Reading ---
+
+const withEquals = (formula: string): string => `=${formula.replace(/^=/, '')}`;
+
+/** Sheets as held by the editor, with the values FortuneSheet last computed */
+export function sheetsFromEditor(sheets: EditorSheet[]): FormulaSheet[] {
+    return sheets.map(sheet => {
+        const cells = new Map<string, FormulaCell>();
+        const add = (r: number, c: number, cell: EditorCell | null | undefined) => {
+            if (!cell) return;
+            const formula = cell.f ? withEquals(String(cell.f)) : undefined;
+            const value = cell.v ?? cell.m ?? null;
+            if (!formula && (value === null || value === '')) return;
+            cells.set(cellKey(r, c), { r, c, formula, value });
+        };
+        if (sheet.data) {
+            sheet.data.forEach((row, r) => row?.forEach((cell, c) => add(r, c, cell)));
+        } else {
+            sheet.celldata?.forEach(cell => add(cell.r, cell.c, cell.v));
+        }
+        return { name: sheet.name, cells };
+    });
+}
+
+/** Sheets of a SheetJS workbook, with the values cached in the file */
+export function sheetsFromWorkbook(workbook: WorkbookLike): FormulaSheet[] {
+    return workbook.SheetNames.map(name => {
+        const cells = new Map<string, FormulaCell>();
+        Object.entries(workbook.Sheets[name] || {}).forEach(([address, content]) => {
+            const position = address.startsWith('!') ? null : decodeCell(address);
+            if (!position) return;
+            const cell = content as { v?: CellScalar; w?: string; f?: string; t?: string };
+            const formula = cell.f ? withEquals(cell.f) : undefined;
+            const value = cell.t === 'e' ? cell.w ?? null : cell.v ?? null;
+            if (!formula && (value === null || value === '')) return;
+            cells.set(cellKey(position.r, position.c), { r: position.r, c: position.c, formula, value });
+        });
+        return { name, cells };
+    });
+}
+
+/** The cell, range, column and row references of a formula written on `sheet` (string literals are skipped) */
+export function formulaReferences(formula: string, sheet: string): FormulaReference[] {
+    const text = formula.replace(/^=/, '').replace(/"(?:[^"]|"")*"/g, literal => ' '.repeat(literal.length));
+    const references: FormulaReference[] = [];
+    for (const match of text.matchAll(REFERENCE)) {
+        const target = match[1] ? match[1].replace(/^'(.*)'$/, '$1').replace(/''/g, "'") : sheet;
+        const ref = match[2].replace(/\$/g, '').toUpperCase();
+        if (ref === '#REF!') {
+            references.push({ text: match[0], sheet: target, ref, range: null });
+            continue;
+        }
+        const [range] = parseSqref(ref);
+        // Names such as XYZ1 look like cells beyond the last column
+        if (!range || range.row[1] > MAX_ROW || range.column[1] > MAX_COL) continue;
+        references.push({ text: match[0], sheet: target, ref, range });
+    }
+    return references;
+}
+
+// --- Dependencies ---
+
+interface FormulaNode {
+    sheet: FormulaSheet;
+    cell: FormulaCell;
+    references: FormulaReference[];
+}
+
+const formulaNodes = (sheets: FormulaSheet[]): FormulaNode[] =>
+    sheets.flatMap(sheet => [...sheet.cells.values()]
+        .filter(cell => cell.formula)
+        .map(cell => ({ sheet, cell, references: formulaReferences(cell.formula!, sheet.name) })));
+
+const refersTo = (reference: FormulaReference, address: CellAddress): boolean =>
+    !!reference.range && reference.sheet.toLowerCase() === address.sheet.toLowerCase() && inRange(reference.range, address.r, address.c);
+
+/**
+ * Follow the references of a cell (`precedents`: the cells its formula reads) or to it
+ * (`dependents`: the formulas reading it) breadth first, up to `maxDepth` levels.
+ */
+export function traceCell(sheets: FormulaSheet[], target: CellAddress, direction: TraceDirection, maxDepth = 3): TraceStep[] {
+    const steps: TraceStep[] = [];
+    const nodes = direction === 'dependents' ? formulaNodes(sheets) : [];
+    const visited = new Set([qualify(target.sheet, encodeCell(target.r, target.c))]);
+    let frontier: CellAddress[] = [target];
+
+    for (let level = 1; level <= maxDepth && frontier.length > 0; level++) {
+        const next: CellAddress[] = [];
+        const reach = (sheet: string, cell: FormulaCell) => {
+            const id = qualify(sheet, encodeCell(cell.r, cell.c));
+            if (visited.has(id)) return false;
+            visited.add(id);
+            next.push({ sheet, r: cell.r, c: cell.c });
+            return true;
+        };
+
+        for (const address of frontier) {
+            const from = qualify(address.sheet, encodeCell(address.r, address.c));
+            if (direction === 'dependents') {
+                nodes.forEach(node => {
+                    if (!node.references.some(reference => refersTo(reference, address))) return;
+                    if (!reach(node.sheet.name, node.cell)) return;
+                    steps.push({
+                        level, from, ref: qualify(node.sheet.name, encodeCell(node.cell.r, node.cell.c)),
+                        formula: node.cell.formula, value: node.cell.value,
+                    });
+                });
+                continue;
+            }
+
+            const formula = findSheet(sheets, address.sheet)?.cells.get(cellKey(address.r, address.c))?.formula;
+            if (!formula) continue;
+            formulaReferences(formula, address.sheet).forEach(reference => {
+                const sheet = findSheet(sheets, reference.sheet);
+                if (!sheet || !reference.range) {
+                    steps.push({ level, from, ref: reference.text, broken: true });
+                    return;
+                }
+                const { row, column } = reference.range;
+                const single = row[0] === row[1] && column[0] === column[1] ? sheet.cells.get(cellKey(row[0], column[0])) : undefined;
+                steps.push({ level, from, ref: qualify(sheet.name, reference.ref), formula: single?.formula, value: single?.value });
+                cellsInRange(sheet, reference.range).forEach(cell => {
+                    if (cell.formula) reach(sheet.name, cell);
+                });
+            });
+        }
+        frontier = next;
+    }
+    return steps;
+}
+
+// Strongly connected groups of formula cells that read each other (Tarjan, iterative so long chains do not overflow the stack)
+const circularGroups = (ids: string[], edges: Map<string, string[]>): string[][] => {
+    const index = new Map<string, number>();
+    const low = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const groups: string[][] = [];
+    let counter = 0;
+
+    const visit = (id: string) => {
+        index.set(id, counter);
+        low.set(id, counter++);
+        stack.push(id);
+        onStack.add(id);
+    };
+
+    for (const root of ids) {
+        if (index.has(root)) continue;
+        visit(root);
+        const work = [{ id: root, next: 0 }];
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const targets = edges.get(frame.id) || [];
+            if (frame.next < targets.length) {
+                const target = targets[frame.next++];
+                if (!index.has(target)) {
+                    visit(target);
+                    work.push({ id: target, next: 0 });
+                } else if (onStack.has(target)) {
+                    low.set(frame.id, Math.min(low.get(frame.id)!, index.get(target)!));
+                }
+                continue;
+            }
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].id;
+                low.set(parent, Math.min(low.get(parent)!, low.get(frame.id)!));
+            }
+            if (low.get(frame.id) !== index.get(frame.id)) continue;
+            const group: string[] = [];
+            let id: string;
+            do {
+                id = stack.pop()!;
+                onStack.delete(id);
+                group.push(id);
+            } while (id !== frame.id);
+            if (group.length > 1 || targets.includes(frame.id)) groups.push(group.reverse());
+        }
+    }
+    return groups;
+};
+
+/**
+ * Error values (told apart as originating in a cell or propagated from a precedent),
+ * `#REF!` in formulas, references to missing sheets and circular references across the workbook.
+ */
+export function findFormulaIssues(sheets: FormulaSheet[]): FormulaIssue[] {
+    const issues: FormulaIssue[] = [];
+    const nodes = formulaNodes(sheets);
+    const byId = new Map<string, FormulaNode>();
+    const edges = new Map<string, string[]>();
+
+    nodes.forEach(node => {
+        const { sheet, cell } = node;
+        const id = qualify(sheet.name, encodeCell(cell.r, cell.c));
+        const report = (kind: FormulaIssueKind, message: string) =>
+            issues.push({ kind, sheet: sheet.name, cell: encodeCell(cell.r, cell.c), formula: cell.formula, message });
+        const targets: string[] = [];
+        let errorSource: string | undefined;
+
+        if (node.references.some(reference => !reference.range)) {
+            report('invalidReference', 'The formula contains #REF!: a cell, row, column or sheet it referenced was deleted');
+        }
+        const missing = [...new Set(node.references.filter(reference => !findSheet(sheets, reference.sheet)).map(reference => reference.sheet))];
+        missing.forEach(name => report('missingSheet', `References sheet "${name}", which does not exist`));
+
+        node.references.forEach(reference => {
+            const target = findSheet(sheets, reference.sheet);
+            if (!target || !reference.range) return;
+            cellsInRange(target, reference.range).forEach(precedent => {
+                const precedentId = qualify(target.name, encodeCell(precedent.r, precedent.c));
+                if (precedent.formula) targets.push(precedentId);
+                if (!errorSource && precedentId !== id && isErrorValue(precedent.value)) errorSource = precedentId;
+            });
+        });
+
+        if (isErrorValue(cell.value)) {
+            report('error', errorSource
+                ? `${cell.value} propagated from ${errorSource}`
+                : `${cell.value} originates in this formula (${ERROR_VALUES[cell.value]})`);
+        }
+        byId.set(id, node);
+        edges.set(id, targets);
+    });
+
+    // Error constants typed into cells are sources too
+    sheets.forEach(sheet => sheet.cells.forEach(cell => {
+        if (!cell.formula && isErrorValue(cell.value)) {
+            issues.push({ kind: 'error', sheet: sheet.name, cell: encodeCell(cell.r, cell.c), message: `The cell holds the error value ${cell.value}` });
+        }
+    }));
+
+    circularGroups([...byId.keys()], edges).forEach(group => {
+        const { sheet, cell } = byId.get(group[0])!;
+        issues.push({
+            kind: 'circular',
+            sheet: sheet.name,
+            cell: encodeCell(cell.r, cell.c),
+            formula: cell.formula,
+            message: group.length > 1 ? `Circular reference between ${group.join(', ')}` : 'The formula refers to its own cell',
+        });
+    });
+    return issues;
+}
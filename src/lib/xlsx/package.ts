@@ -0,0 +1,42 @@
+import JSZip from 'jszip';
+import { findElements, getAttr } from './xml';
+
+export const WORKSHEET_REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet';
+
+/** Resolve a relationship target against the folder of the part that owns it */
+export const resolveTarget = (target: string, base = 'xl/'): string =>
+    target.startsWith('/') ? target.slice(1) : `${base}${target}`.replace(/[^/]+\/\.\.\//g, '');
+
+/** Path of the relationships part of a part ("xl/workbook.xml" -> "xl/_rels/workbook.xml.rels") */
+export const relsPathOf = (path: string): string => path.replace(/[^/]+$/, '_rels/$&.rels');
+
+/** Folder a part's relationship targets are relative to */
+export const folderOf = (path: string): string => path.replace(/[^/]+$/, '');
+
+/** Path of the workbook part, as declared by the package relationships */
+export async function workbookPath(zip: JSZip): Promise<string> {
+    const rootRels = zip.file('_rels/.rels');
+    if (rootRels) {
+        const rel = findElements(await rootRels.async('string'), 'Relationship')
+            .find(r => /\/officeDocument$/.test(getAttr(r, 'Type') || ''));
+        if (rel) return resolveTarget(getAttr(rel, 'Target')!, '');
+    }
+    return 'xl/workbook.xml';
+}
+
+/** Worksheet parts by sheet name and the styles part of a package */
+export async function workbookParts(zip: JSZip): Promise<{ sheets: { name: string; path: string }[]; stylesPath: string | null }> {
+    const path = await workbookPath(zip);
+    const base = folderOf(path);
+    const workbookXml = await zip.file(path)?.async('string') || '';
+    const relsXml = await zip.file(relsPathOf(path))?.async('string') || '';
+    const relationships = findElements(relsXml, 'Relationship');
+
+    const sheets = findElements(workbookXml, 'sheet').flatMap(element => {
+        const rel = relationships.find(r => getAttr(r, 'Id') === getAttr(element, 'r:id'));
+        if (!rel || getAttr(rel, 'Type') !== WORKSHEET_REL_TYPE) return [];
+        return [{ name: getAttr(element, 'name') || '', path: resolveTarget(getAttr(rel, 'Target')!, base) }];
+    });
+    const styles = relationships.find(r => /\/styles$/.test(getAttr(r, 'Type') || ''));
+    return { sheets, stylesPath: styles ? resolveTarget(getAttr(styles, 'Target')!, base) : null };
+}
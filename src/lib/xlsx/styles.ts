@@ -0,0 +1,218 @@
+import {
+    escapeXml,
+    findElement,
+    findElements,
+    getAttr,
+    innerXml,
+    insertInOrder,
+    removeElements,
+    rootPrefix,
+    setAttr,
+    withInnerXml,
+    withPrefix,
+} from './xml';
+
+/**
+ * Style changes made in the editor, relative to the cell's original format.
+ * A missing key leaves that property as it is in the file, null removes it.
+ */
+export interface CellStylePatch {
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    fontSize?: number | null;
+    fontName?: string | null;
+    fontColor?: string | null;
+    fill?: string | null;
+    horizontal?: string | null;
+    vertical?: string | null;
+    wrap?: boolean;
+    numFmt?: string | null;
+}
+
+// Order of elements in CT_Stylesheet and CT_Font; Excel rejects files that do not follow it
+const STYLESHEET_ORDER = ['numFmts', 'fonts', 'fills', 'borders', 'cellStyleXfs', 'cellXfs', 'cellStyles', 'dxfs', 'tableStyles', 'colors', 'extLst'];
+const FONT_ORDER = ['b', 'i', 'strike', 'condense', 'extend', 'outline', 'shadow', 'u', 'vertAlign', 'sz', 'color', 'name', 'family', 'charset', 'scheme'];
+
+// Built-in number formats that have no numFmt entry in styles.xml
+const BUILTIN_NUM_FMTS: Record<string, number> = {
+    'General': 0, '0': 1, '0.00': 2, '#,##0': 3, '#,##0.00': 4, '0%': 9, '0.00%': 10, '0.00E+00': 11,
+    '# ?/?': 12, '# ??/??': 13, 'm/d/yy': 14, 'd-mmm-yy': 15, 'd-mmm': 16, 'mmm-yy': 17, 'h:mm AM/PM': 18,
+    'h:mm:ss AM/PM': 19, 'h:mm': 20, 'h:mm:ss': 21, 'm/d/yy h:mm': 22, 'mm:ss': 45, '[h]:mm:ss': 46, '@': 49,
+};
+
+export const EMPTY_STYLES_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/></cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+
+// '#ff0000' or 'rgb(255, 0, 0)' (both are used by FortuneSheet) -> 'FFFF0000'
+export const toArgb = (color: string): string => {
+    const rgb = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
+    const hex = rgb
+        ? rgb.slice(1, 4).map(channel => parseInt(channel, 10).toString(16).padStart(2, '0')).join('')
+        : color.replace('#', '');
+    return `FF${hex.toUpperCase()}`;
+};
+
+/**
+ * Editable view of xl/styles.xml. New cell formats are derived from the cell's existing
+ * format, so borders, protection, theme fonts etc. that the editor does not model survive.
+ */
+export class XlsxStyles {
+    private xml: string;
+    /** Namespace prefix of the part ("x:" for `<x:styleSheet>`), given to every element written */
+    private prefix: string;
+    private numFmts: string[];
+    private fonts: string[];
+    private fills: string[];
+    private cellXfs: string[];
+    private dxfs: string[];
+    private changed = false;
+
+    constructor(xml: string) {
+        this.xml = xml;
+        this.prefix = rootPrefix(xml, 'styleSheet');
+        this.numFmts = this.readList('numFmts', 'numFmt');
+        this.fonts = this.readList('fonts', 'font');
+        this.fills = this.readList('fills', 'fill');
+        this.cellXfs = this.readList('cellXfs', 'xf');
+        this.dxfs = this.readList('dxfs', 'dxf');
+    }
+
+    get isChanged(): boolean {
+        return this.changed;
+    }
+
+    /** Index of a cell format equal to `baseIndex` with the patch applied (reused when it already exists) */
+    derive(baseIndex: number, patch: CellStylePatch): number {
+        let xf = this.cellXfs[baseIndex] || this.cellXfs[0] || '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>';
+
+        if (['bold', 'italic', 'underline', 'strike', 'fontSize', 'fontName', 'fontColor'].some(key => key in patch)) {
+            const font = this.patchFont(this.fonts[parseInt(getAttr(xf, 'fontId') || '0', 10)] || '<font/>', patch);
+            xf = setAttr(setAttr(xf, 'fontId', String(this.intern(this.fonts, font))), 'applyFont', '1');
+        }
+
+        if ('fill' in patch) {
+            const fillId = patch.fill
+                ? this.intern(this.fills, `<fill><patternFill patternType="solid"><fgColor rgb="${toArgb(patch.fill)}"/><bgColor indexed="64"/></patternFill></fill>`)
+                : 0;
+            xf = setAttr(setAttr(xf, 'fillId', String(fillId)), 'applyFill', '1');
+        }
+
+        if ('numFmt' in patch) {
+            xf = setAttr(setAttr(xf, 'numFmtId', String(this.numFmtId(patch.numFmt || 'General'))), 'applyNumberFormat', '1');
+        }
+
+        if ('horizontal' in patch || 'vertical' in patch || 'wrap' in patch) {
+            xf = this.patchAlignment(xf, patch);
+        }
+
+        return this.intern(this.cellXfs, xf);
+    }
+
+    /** Index of a differential format (used by conditional formatting) with these colors */
+    addDxf(format: { textColor?: string | null; cellColor?: string | null }): number {
+        const font = format.textColor ? `<font><color rgb="${toArgb(format.textColor)}"/></font>` : '';
+        const fill = format.cellColor ? `<fill><patternFill><bgColor rgb="${toArgb(format.cellColor)}"/></patternFill></fill>` : '';
+        return this.intern(this.dxfs, `<dxf>${font}${fill}</dxf>`);
+    }
+
+    toXml(): string {
+        let xml = this.xml;
+        xml = this.writeList(xml, 'numFmts', this.numFmts);
+        xml = this.writeList(xml, 'fonts', this.fonts);
+        xml = this.writeList(xml, 'fills', this.fills);
+        xml = this.writeList(xml, 'cellXfs', this.cellXfs);
+        xml = this.writeList(xml, 'dxfs', this.dxfs);
+        return xml;
+    }
+
+    private readList(container: string, tag: string): string[] {
+        const block = findElement(this.xml, `${this.prefix}${container}`);
+        return block ? findElements(innerXml(block, `${this.prefix}${container}`), `${this.prefix}${tag}`) : [];
+    }
+
+    private writeList(xml: string, container: string, items: string[]): string {
+        if (items.length === 0) return xml;
+        const block = findElement(xml, `${this.prefix}${container}`);
+        if (block) {
+            const updated = setAttr(withInnerXml(block, `${this.prefix}${container}`, items.join('')), 'count', String(items.length));
+            return xml.replace(block, () => updated);
+        }
+        return insertInOrder(xml, 'styleSheet', STYLESHEET_ORDER, container, `<${container} count="${items.length}">${items.join('')}</${container}>`);
+    }
+
+    private intern(list: string[], newElement: string): number {
+        const element = withPrefix(newElement, this.prefix);
+        const existing = list.indexOf(element);
+        if (existing !== -1) return existing;
+        list.push(element);
+        this.changed = true;
+        return list.length - 1;
+    }
+
+    private patchFont(font: string, patch: CellStylePatch): string {
+        const children = new Map<string, string>();
+        for (const child of innerXml(font, `${this.prefix}font`).match(/<((?:[\w.-]+:)?\w+)\b[^>]*?(?:\/>|>[\s\S]*?<\/\1>)/g) || []) {
+            children.set(child.match(/^<(?:[\w.-]+:)?(\w+)/)![1], child);
+        }
+
+        const toggle = (tag: string, on: boolean | undefined) => {
+            if (on === undefined) return;
+            if (on) children.set(tag, `<${tag}/>`);
+            else children.delete(tag);
+        };
+        toggle('b', patch.bold);
+        toggle('i', patch.italic);
+        toggle('u', patch.underline);
+        toggle('strike', patch.strike);
+
+        const set = (tag: string, value: string | null | undefined) => {
+            if (value === undefined) return;
+            if (value === null) children.delete(tag);
+            else children.set(tag, value);
+        };
+        set('sz', patch.fontSize === undefined ? undefined : patch.fontSize === null ? null : `<sz val="${patch.fontSize}"/>`);
+        set('color', patch.fontColor === undefined ? undefined : patch.fontColor === null ? null : `<color rgb="${toArgb(patch.fontColor)}"/>`);
+        if (patch.fontName !== undefined) {
+            set('name', patch.fontName === null ? null : `<name val="${escapeXml(patch.fontName)}"/>`);
+            // A scheme font follows the theme and would override the explicit name
+            children.delete('scheme');
+        }
+
+        const ordered = FONT_ORDER.filter(tag => children.has(tag)).map(tag => children.get(tag)!);
+        return `<font>${ordered.join('')}</font>`;
+    }
+
+    private patchAlignment(xf: string, patch: CellStylePatch): string {
+        const empty = `<${this.prefix}alignment/>`;
+        let alignment = findElement(xf, `${this.prefix}alignment`) || empty;
+        if (patch.horizontal !== undefined) alignment = setAttr(alignment, 'horizontal', patch.horizontal);
+        if (patch.vertical !== undefined) alignment = setAttr(alignment, 'vertical', patch.vertical);
+        if (patch.wrap !== undefined) alignment = setAttr(alignment, 'wrapText', patch.wrap ? '1' : null);
+
+        const rest = removeElements(innerXml(xf, `${this.prefix}xf`), `${this.prefix}alignment`);
+        const hasAlignment = alignment !== empty;
+        return setAttr(withInnerXml(xf, `${this.prefix}xf`, (hasAlignment ? alignment : '') + rest), 'applyAlignment', '1');
+    }
+
+    private numFmtId(formatCode: string): number {
+        if (formatCode in BUILTIN_NUM_FMTS) return BUILTIN_NUM_FMTS[formatCode];
+        const existing = this.numFmts.find(numFmt => getAttr(numFmt, 'formatCode') === formatCode);
+        if (existing) return parseInt(getAttr(existing, 'numFmtId')!, 10);
+
+        // Custom formats start at 164
+        const id = Math.max(163, ...this.numFmts.map(numFmt => parseInt(getAttr(numFmt, 'numFmtId') || '0', 10))) + 1;
+        this.numFmts.push(withPrefix(`<numFmt numFmtId="${id}" formatCode="${escapeXml(formatCode)}"/>`, this.prefix));
+        this.changed = true;
+        return id;
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * String-level XML helpers for patching SpreadsheetML parts in place.
+ * Parts are never re-serialized as a whole, so anything we do not touch stays byte-identical.
+ */
+
+export const escapeXml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+export const unescapeXml = (text: string): string =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&amp;/g, '&');
+
+/** All elements `<tag …/>` or `<tag …>…</tag>` (non-nesting tags only) */
+export const findElements = (xml: string, tag: string): string[] =>
+    xml.match(new RegExp(`<${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</${tag}>)`, 'g')) || [];
+
+export const findElement = (xml: string, tag: string): string | undefined => findElements(xml, tag)[0];
+
+/** Opening tag of an element, e.g. `<c r="A1" s="2">` */
+export const openingTag = (element: string): string => element.match(/^<[^>]*>/)![0];
+
+export const getAttr = (element: string, name: string): string | undefined => {
+    const match = openingTag(element).match(new RegExp(`\\s${name}="([^"]*)"`));
+    return match ? unescapeXml(match[1]) : undefined;
+};
+
+/** Set (or remove, when value is null) an attribute on the opening tag of an element */
+export const setAttr = (element: string, name: string, value: string | null): string => {
+    const tag = openingTag(element);
+    const pattern = new RegExp(`\\s${name}="[^"]*"`);
+    let nextTag: string;
+    if (value === null) {
+        nextTag = tag.replace(pattern, '');
+    } else if (pattern.test(tag)) {
+        nextTag = tag.replace(pattern, ` ${name}="${escapeXml(value)}"`);
+    } else {
+        nextTag = tag.replace(/\s*(\/?)>$/, ` ${name}="${escapeXml(value)}"$1>`);
+    }
+    return nextTag + element.slice(tag.length);
+};
+
+/** Inner XML of an element (empty for self-closing elements) */
+export const innerXml = (element: string, tag: string): string => {
+    const tagLength = openingTag(element).length;
+    if (element.endsWith('/>') && tagLength === element.length) return '';
+    return element.slice(tagLength, element.length - `</${tag}>`.length);
+};
+
+/** Rebuild an element from its opening tag and new inner XML */
+export const withInnerXml = (element: string, tag: string, inner: string): string => {
+    const open = openingTag(element).replace(/\s*\/>$/, '>');
+    return inner ? `${open}${inner}</${tag}>` : open.replace(/>$/, '/>');
+};
+
+/**
+ * Namespace prefix of the first `root` element of a part, e.g. "x:" for `<x:worksheet>` as the
+ * OpenXML SDK writes it ('' when the part uses a default namespace)
+ */
+export const rootPrefix = (xml: string, root: string): string =>
+    xml.match(new RegExp(`<([\\w.-]+:)?${root}[\\s/>]`))?.[1] || '';
+
+/** Give the unprefixed elements of new XML the prefix of the part it goes into */
+export const withPrefix = (fragment: string, prefix: string): string =>
+    prefix ? fragment.replace(/<(\/?)(?![\w.-]+:)([A-Za-z_][\w.-]*)/g, `<$1${prefix}$2`) : fragment;
+
+/**
+ * Insert an element respecting the schema order of its parent: it goes before the first
+ * existing element listed after it in `order`, or before the closing tag of the parent.
+ * Names are matched, and the element written, with the parent's namespace prefix.
+ */
+export const insertInOrder = (xml: string, parent: string, order: string[], tag: string, element: string): string => {
+    const prefix = rootPrefix(xml, parent);
+    const prefixed = withPrefix(element, prefix);
+    for (const next of order.slice(order.indexOf(tag) + 1)) {
+        const index = xml.search(new RegExp(`<${prefix}${next}\\b`));
+        if (index !== -1) return xml.slice(0, index) + prefixed + xml.slice(index);
+    }
+    const close = xml.lastIndexOf(`</${prefix}${parent}>`);
+    return xml.slice(0, close) + prefixed + xml.slice(close);
+};
+
+/** Remove every occurrence of an element */
+export const removeElements = (xml: string, tag: string): string =>
+    xml.replace(new RegExp(`<${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</${tag}>)`, 'g'), '');
+
+// Column letters <-> zero-based index ("A" = 0, "AA" = 26)
+export const columnIndex = (letters: string): number =>
+    letters.toUpperCase().split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+export const columnLetters = (index: number): string => {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+};
+
+export const encodeCell = (r: number, c: number): string => `${columnLetters(c)}${r + 1}`;
+
+export const decodeCell = (ref: string): { r: number; c: number } | null => {
+    const match = ref.match(/^\$?([A-Z]+)\$?(\d+)$/i);
+    return match ? { r: parseInt(match[2], 10) - 1, c: columnIndex(match[1]) } : null;
+};
@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { ToolDefinition, createTool, ToolContext } from './types';
+import { buildPreview } from './utils';
+import { resolveStyleProps } from '../lib/docx/styles';
 
 /**
  * Extract text content from a node, excluding text that has deletion marks (track changes).
@@ -171,6 +173,14 @@ export const getBlockTools = (context: ToolContext): ToolDefinition[] => {
                             result += ` Block: { ${relevantAttrs.map(k => `${k}: ${attrs[k]}`).join(', ')} }`;
                         }
 
+                        // Formatting inherited from the paragraph style (the Block values above override it)
+                        if (attrs.styleId) {
+                            const catalogue = editor.storage?.styleCatalogue;
+                            const styleProps = Object.entries(resolveStyleProps(catalogue?.styles || [], attrs.styleId, catalogue?.defaults))
+                                .filter(([k]) => k !== 'tabStops');
+                            result += ` Style ${attrs.styleId}: { ${styleProps.map(([k, v]) => `${k}: ${v}`).join(', ')} }`;
+                        }
+
                         // Inline styles (scan descendants)
                         const inlineStyles = new Set<string>();
                         b.node.descendants((child: any) => {
@@ -229,6 +239,14 @@ export const getBlockTools = (context: ToolContext): ToolDefinition[] => {
 
                 editor.commands.deleteBlockNodeById(blockId);
                 return `Deleted block with ID: ${blockId}${trackChanges ? ' (tracked)' : ''}`;
+            },
+            async ({ blockId, trackChanges }: { blockId: string, trackChanges?: boolean }) => {
+                const block = getEditor()?.helpers?.blockNode?.getBlockNodes?.().find((b: any) => b.node.attrs.sdBlockId === blockId);
+                if (!block) return buildPreview(`ブロック ${blockId} が見つからないため、何も削除されません。`);
+                return buildPreview(
+                    `${block.node.type.name} ブロック ${blockId} を${trackChanges ? '変更履歴付きで' : ''}削除します。`,
+                    [{ type: 'removed', text: block.node.textContent || '（空）' }]
+                );
             }
         ),
         createTool(
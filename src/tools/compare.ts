@@ -0,0 +1,105 @@
+import { ToolDefinition, createTool, ToolContext } from './types';
+import { findFileHandle } from './utils';
+import { compareDocxFiles, comparisonFileName } from '../lib/docx/compare';
+
+/**
+ * Get document comparison tools
+ *
+ * Redlines two DOCX files from the workspace into a new document whose differences are tracked changes.
+ */
+export const getCompareTools = (context: ToolContext): ToolDefinition[] => {
+    const { workspaceFiles, openGeneratedFile } = context;
+
+    // Prefer the active file's handle when the path refers to it (avoids path issues)
+    const resolveHandle = (path: string): FileSystemFileHandle | null => {
+        const { activeFileHandle, activeFilePath } = context;
+        if (activeFileHandle && activeFilePath && activeFilePath.toLowerCase() === path.toLowerCase()) {
+            return activeFileHandle;
+        }
+        return findFileHandle(workspaceFiles || [], path);
+    };
+
+    const readFile = async (handle: FileSystemFileHandle): Promise<File> => {
+        const permission = await handle.queryPermission({ mode: 'read' });
+        if (permission !== 'granted' && (await handle.requestPermission({ mode: 'read' })) !== 'granted') {
+            throw new Error(`Permission denied to read: ${handle.name}`);
+        }
+        return handle.getFile();
+    };
+
+    return [
+        createTool(
+            'compareDocuments',
+            'Compare two versions of a DOCX document from the workspace and open a new redlined document in which the differences are shown as tracked insertions and deletions (word level inside changed paragraphs, row level in tables). The user can review, accept or reject them like any tracked change and save the result.',
+            {
+                type: 'object',
+                properties: {
+                    originalPath: {
+                        type: 'string',
+                        description: 'Path to the original (older) DOCX file in the workspace'
+                    },
+                    revisedPath: {
+                        type: 'string',
+                        description: 'Path to the revised (newer) DOCX file in the workspace'
+                    },
+                    author: {
+                        type: 'string',
+                        description: 'Author name recorded on the tracked changes. Defaults to the revised file name.'
+                    }
+                },
+                required: ['originalPath', 'revisedPath'],
+                additionalProperties: false
+            },
+            async ({ originalPath, revisedPath, author }: { originalPath: string; revisedPath: string; author?: string }) => {
+                if (!originalPath || !revisedPath) {
+                    return 'Error: originalPath and revisedPath are required.';
+                }
+                for (const path of [originalPath, revisedPath]) {
+                    if (!path.toLowerCase().endsWith('.docx')) {
+                        return `Error: File "${path}" is not a DOCX file. Only DOCX documents can be compared.`;
+                    }
+                }
+
+                const originalHandle = resolveHandle(originalPath);
+                if (!originalHandle) {
+                    return `Error: File not found: ${originalPath}. Make sure the path matches exactly as shown in the workspace.`;
+                }
+                const revisedHandle = resolveHandle(revisedPath);
+                if (!revisedHandle) {
+                    return `Error: File not found: ${revisedPath}. Make sure the path matches exactly as shown in the workspace.`;
+                }
+
+                try {
+                    const [originalFile, revisedFile] = await Promise.all([readFile(originalHandle), readFile(revisedHandle)]);
+                    const { blob, summary } = await compareDocxFiles(
+                        await originalFile.arrayBuffer(),
+                        await revisedFile.arrayBuffer(),
+                        { author: author || revisedFile.name.replace(/\.docx$/i, '') }
+                    );
+
+                    const fileName = comparisonFileName(originalFile.name, revisedFile.name);
+                    const counts = `${summary.insertions} insertion(s), ${summary.deletions} deletion(s), ${summary.insertedRows} inserted row(s), ${summary.deletedRows} deleted row(s)`;
+
+                    if (openGeneratedFile) {
+                        openGeneratedFile(new File([blob], fileName, { type: blob.type }));
+                        return `Comparison opened in a new tab as "${fileName}": ${counts}. The differences are tracked changes; the user can review them and save the document with Cmd+S.`;
+                    }
+
+                    // Fallback: trigger download
+                    const url = URL.createObjectURL(blob);
+                    const link = document.createElement('a');
+                    link.href = url;
+                    link.download = fileName;
+                    document.body.appendChild(link);
+                    link.click();
+                    document.body.removeChild(link);
+                    URL.revokeObjectURL(url);
+                    return `Comparison downloaded as "${fileName}": ${counts}.`;
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Unknown error';
+                    return `Error comparing documents: ${message}`;
+                }
+            }
+        )
+    ];
+};
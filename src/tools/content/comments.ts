@@ -7,6 +7,8 @@ interface ExtractedComment {
     author: string;
     date: string;
     content: string;      // The feedback/comment text
+    replies: { author: string; date: string; content: string }[]; // Thread replies, oldest first
+    done: boolean;        // Resolved thread
     anchoredText: string; // The exact text the comment is attached to
     blockIndex: number;   // Block index for readDocument context
     blockId: string | null; // The sdBlockId of the block
@@ -18,7 +20,7 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
     return [
         createTool(
             'readComments',
-            'Read all comments in the document with their anchored text and block context. Use this to understand user feedback and where it applies.',
+            'Read all comment threads in the document (with replies and resolved state) and their anchored text and block context. Use this to understand user feedback and where it applies.',
             {
                 type: 'object',
                 properties: {},
@@ -94,7 +96,7 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
 
                     node.marks.forEach((mark: any) => {
                         if (mark.type.name === 'comment') {
-                            const { commentId, author, date, content } = mark.attrs;
+                            const { commentId, author, date, content, replies, done } = mark.attrs;
                             if (commentId && !seenIds.has(commentId)) {
                                 seenIds.add(commentId);
 
@@ -106,6 +108,8 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
                                     author: author || 'Unknown',
                                     date: date || '',
                                     content: content || '',
+                                    replies: replies || [],
+                                    done: !!done,
                                     anchoredText,
                                     blockIndex: block?.index ?? -1,
                                     blockId: block?.blockId ?? null,
@@ -125,16 +129,19 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
 
                 // Format output for agent
                 const output = comments.map((c, i) => {
+                    const replies = c.replies.map(reply => `\n  - ${reply.author} (${reply.date}): ${reply.content}`).join('');
                     return `## Comment ${i + 1}
+- **Comment ID**: ${c.commentId}
+- **Status**: ${c.done ? 'resolved' : 'open'}
 - **Author**: ${c.author}
 - **Date**: ${c.date}
-- **Feedback**: ${c.content}
+- **Feedback**: ${c.content}${c.replies.length > 0 ? `\n- **Replies**:${replies}` : ''}
 - **Anchored Text**: "${c.anchoredText}"
 - **Block Index**: ${c.blockIndex} (use \`readDocument({ startBlock: ${Math.max(0, c.blockIndex - 10)}, endBlock: ${c.blockIndex + 10} })\` for context)
 - **Context**: ...${c.contextBefore} [ANCHORED TEXT] ${c.contextAfter}...`;
                 }).join('\n\n');
 
-                return `Found ${comments.length} comment(s):\n\n${output}\n\n---\n**Workflow**: Use \`readDocument\` with block ranges above to understand context, then use \`editText\` to apply changes based on feedback.`;
+                return `Found ${comments.length} comment(s):\n\n${output}\n\n---\n**Workflow**: Use \`readDocument\` with block ranges above to understand context, then use \`editText\` to apply changes based on feedback. Reply with \`insertComment({ replyTo: commentId, comment })\` and close handled threads with \`resolveComment({ commentId })\`.`;
             }
         ),
         createTool(
@@ -166,19 +173,21 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
         ),
         createTool(
             'insertComment',
-            'Insert a comment on specific text. Supports context for disambiguation.',
+            'Insert a comment on specific text, or reply to an existing comment thread (replyTo). Supports context for disambiguation.',
             {
                 type: 'object',
                 properties: {
-                    find: { type: 'string', description: 'Text to attach the comment to.' },
+                    find: { type: 'string', description: 'Text to attach the comment to. Not needed when replying.' },
                     comment: { type: 'string', description: 'The comment text.' },
                     contextBefore: { type: 'string', description: 'Optional text immediately preceding the target text.' },
-                    contextAfter: { type: 'string', description: 'Optional text immediately following the target text.' }
+                    contextAfter: { type: 'string', description: 'Optional text immediately following the target text.' },
+                    replyTo: { type: 'string', description: 'Comment ID (from readComments) of the thread to reply to.' },
+                    resolve: { type: 'boolean', description: 'With replyTo: also mark the thread as resolved.' }
                 },
-                required: ['find', 'comment'],
+                required: ['comment'],
                 additionalProperties: false
             },
-            async ({ find, comment, contextBefore, contextAfter }: { find: string, comment: string, contextBefore?: string, contextAfter?: string }) => {
+            async ({ find, comment, contextBefore, contextAfter, replyTo, resolve }: { find?: string, comment: string, contextBefore?: string, contextAfter?: string, replyTo?: string, resolve?: boolean }) => {
                 const { getEditor, getActionMethods } = context;
                 const editor = getEditor();
                 if (!editor) throw new Error('Editor not initialized');
@@ -196,6 +205,27 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
                     return trimmed;
                 })();
 
+                const helpers: any = (editor as any).helpers;
+
+                // Reply to an existing thread
+                if (replyTo) {
+                    const reply = { id: Math.random().toString(36).slice(2, 11), author: 'AI Assistant', date: new Date().toISOString(), content: normalizedComment };
+                    if (!editor.commands.replyToComment(replyTo, reply)) {
+                        return `Comment ${replyTo} not found. Use readComments to get comment IDs.`;
+                    }
+                    if (resolve) editor.commands.setCommentResolved(replyTo, true);
+
+                    const thread = helpers?.comments?.getComments?.().find((c: any) => c.id === replyTo);
+                    helpers?.comments?.updateComment?.(replyTo, {
+                        replies: [...(thread?.replies || []), reply],
+                        ...(resolve ? { done: true } : {})
+                    });
+                    return `Replied to comment ${replyTo}${resolve ? ' and resolved the thread' : ''}.`;
+                }
+                if (!find) {
+                    return 'Either `find` (to add a new comment) or `replyTo` (to reply to a thread) is required.';
+                }
+
                 // Generate a numeric comment id to ensure DOCX export uses valid w:id values.
                 // Word expects comment w:id to be an integer; non-numeric IDs can corrupt exported DOCX.
                 const generateNumericCommentId = () => {
@@ -236,7 +266,6 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
                             .run();
 
                         // Sync to sidebar state (CustomDocEditor uses React state for sidebar rendering)
-                        const helpers: any = (editor as any).helpers;
                         if (helpers?.comments?.addComment) {
                             helpers.comments.addComment({ id: commentId, author, date, content: normalizedComment });
                         }
@@ -262,6 +291,30 @@ export const getCommentsTools = (context: ToolContext): ToolDefinition[] => {
                     throw new Error(`Failed to insert comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 }
             }
+        ),
+        createTool(
+            'resolveComment',
+            'Mark a comment thread as resolved (or reopen it). Use after the feedback in the thread has been addressed.',
+            {
+                type: 'object',
+                properties: {
+                    commentId: { type: 'string', description: 'Comment ID from readComments.' },
+                    resolved: { type: 'boolean', description: 'false to reopen the thread. Defaults to true.' }
+                },
+                required: ['commentId'],
+                additionalProperties: false
+            },
+            async ({ commentId, resolved = true }: { commentId: string, resolved?: boolean }) => {
+                const { getEditor } = context;
+                const editor = getEditor();
+                if (!editor) throw new Error('Editor not initialized');
+
+                if (!editor.commands.setCommentResolved(commentId, resolved)) {
+                    return `Comment ${commentId} not found. Use readComments to get comment IDs.`;
+                }
+                (editor as any).helpers?.comments?.updateComment?.(commentId, { done: resolved });
+                return `${resolved ? 'Resolved' : 'Reopened'} comment ${commentId}.`;
+            }
         )
     ];
 };
@@ -6,6 +6,7 @@ import { getTextEditTools } from './text-edit';
 import { getTableTools } from './table';
 import { getSpreadsheetEditTools } from './spreadsheet';
 import { getPageLayoutTools } from './page-layout';
+import { getLinkTools } from './links';
 
 export { hasDeletionMark, findTextPositionExcludingDeletions, findTrackedChange } from './utils';
 
@@ -18,5 +19,6 @@ export const getContentTools = (context: ToolContext): ToolDefinition[] => {
         ...getTableTools(context),
         ...getSpreadsheetEditTools(context),
         ...getPageLayoutTools(context),
+        ...getLinkTools(context),
     ];
 };
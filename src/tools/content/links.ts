@@ -0,0 +1,325 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ToolDefinition, createTool, ToolContext } from '../types';
+import { validateEditor, findTextPositionExcludingDeletions, hasDeletionMark } from './utils';
+
+interface HeadingTarget {
+    pos: number;          // Position of the heading node
+    number: string;       // "4.2" (literal number in the heading text, or derived from heading levels)
+    text: string;
+    bookmarkName: string | null; // Existing bookmark inside the heading
+}
+
+// Cross-reference phrases, e.g. "Section 4.2", "Article 3", "第4条", "4.2節"
+const CROSS_REFERENCE_PATTERNS: RegExp[] = [
+    /\b(?:Sections?|Sec\.|Clauses?|Articles?|Chapters?|Paragraphs?)\s+(\d+(?:\.\d+)*)/gi,
+    /第\s*(\d+(?:\.\d+)*)\s*(?:条|章|節|項)/g,
+    /(\d+(?:\.\d+)+)\s*(?:節|項)/g,
+];
+
+/**
+ * Collect headings with their section numbers.
+ * A number written in the heading text wins; otherwise the number is derived from the heading levels (1, 1.1, 1.2, 2, ...).
+ */
+const collectHeadingTargets = (doc: any): HeadingTarget[] => {
+    const targets: HeadingTarget[] = [];
+    const counters: number[] = [];
+
+    doc.descendants((node: any, pos: number) => {
+        if (node.type.name !== 'heading') return true;
+
+        const level = Math.max(1, node.attrs.level || 1);
+        counters.length = level;
+        for (let i = 0; i < level - 1; i++) counters[i] = counters[i] || 0;
+        counters[level - 1] = (counters[level - 1] || 0) + 1;
+
+        let bookmarkName: string | null = null;
+        node.descendants((child: any) => {
+            if (!bookmarkName && child.type.name === 'bookmarkStart' && child.attrs.name && child.attrs.name !== '_GoBack') {
+                bookmarkName = child.attrs.name;
+            }
+            return !bookmarkName;
+        });
+
+        const text = node.textContent.trim();
+        const literal = text.match(/^(?:第\s*)?(\d+(?:\.\d+)*)/);
+        targets.push({
+            pos,
+            number: literal ? literal[1] : counters.join('.'),
+            text,
+            bookmarkName,
+        });
+        return false;
+    });
+
+    return targets;
+};
+
+const collectBookmarkNames = (doc: any): Set<string> => {
+    const names = new Set<string>();
+    doc.descendants((node: any) => {
+        if (node.type.name === 'bookmarkStart' && node.attrs.name) names.add(node.attrs.name);
+        return true;
+    });
+    return names;
+};
+
+const getNextBookmarkId = (doc: any): number => {
+    let maxId = -1;
+    doc.descendants((node: any) => {
+        if (node.type.name === 'bookmarkStart' || node.type.name === 'bookmarkEnd') {
+            const id = parseInt(node.attrs.id, 10);
+            if (!isNaN(id) && id > maxId) maxId = id;
+        }
+        return true;
+    });
+    return maxId + 1;
+};
+
+/**
+ * Hidden "_Ref" bookmark name like the ones Word creates for cross-references
+ */
+const createRefBookmarkName = (existing: Set<string>): string => {
+    let name: string;
+    do {
+        name = `_Ref${Math.floor(100000000 + Math.random() * 900000000)}`;
+    } while (existing.has(name));
+    existing.add(name);
+    return name;
+};
+
+/**
+ * Plan bookmark insertion around a heading's content (applied later, in descending position order)
+ */
+const planHeadingBookmark = (
+    heading: HeadingTarget,
+    bookmarkNames: Set<string>,
+    pendingBookmarks: Map<number, { name: string }>
+): string => {
+    if (heading.bookmarkName) return heading.bookmarkName;
+    const pending = pendingBookmarks.get(heading.pos);
+    if (pending) return pending.name;
+    const name = createRefBookmarkName(bookmarkNames);
+    pendingBookmarks.set(heading.pos, { name });
+    return name;
+};
+
+/**
+ * Insert the planned bookmarks (start at heading content start, end at heading content end)
+ */
+const applyPendingBookmarks = (tr: any, doc: any, schema: any, pendingBookmarks: Map<number, { name: string }>): void => {
+    const { bookmarkStart, bookmarkEnd } = schema.nodes;
+    let nextId = getNextBookmarkId(doc);
+    const positions = Array.from(pendingBookmarks.keys()).sort((a, b) => b - a);
+    for (const pos of positions) {
+        const heading = doc.nodeAt(pos);
+        if (!heading) continue;
+        const id = String(nextId++);
+        tr.insert(pos + heading.nodeSize - 1, bookmarkEnd.create({ id }));
+        tr.insert(pos + 1, bookmarkStart.create({ id, name: pendingBookmarks.get(pos)!.name }));
+    }
+};
+
+export const getLinkTools = (context: ToolContext): ToolDefinition[] => {
+    return [
+        createTool(
+            'listLinks',
+            'List hyperlinks (external URLs and internal "#bookmark" links) and bookmarks in the document. Reports internal links whose bookmark no longer exists.',
+            {
+                type: 'object',
+                properties: {},
+                additionalProperties: false
+            },
+            async () => {
+                const editor = context.getEditor();
+                if (!editor) throw new Error('Editor not initialized');
+                const doc = editor.state.doc;
+
+                const bookmarkNames = collectBookmarkNames(doc);
+                const links: { text: string; href: string }[] = [];
+                doc.descendants((node: any) => {
+                    if (!node.isText) return true;
+                    const link = node.marks.find((m: any) => m.type.name === 'link');
+                    if (!link) return true;
+                    const last = links[links.length - 1];
+                    // Merge adjacent text nodes of the same link (split by other marks)
+                    if (last && last.href === link.attrs.href) {
+                        last.text += node.text;
+                    } else {
+                        links.push({ text: node.text, href: link.attrs.href });
+                    }
+                    return true;
+                });
+
+                if (links.length === 0 && bookmarkNames.size === 0) {
+                    return 'No hyperlinks or bookmarks found in the document.';
+                }
+
+                const linkLines = links.map(link => {
+                    const broken = link.href.startsWith('#') && !bookmarkNames.has(link.href.substring(1));
+                    return `- "${link.text}" -> ${link.href}${broken ? ' (BROKEN: bookmark not found)' : ''}`;
+                });
+                const headings = collectHeadingTargets(doc);
+                const bookmarkLines = Array.from(bookmarkNames)
+                    .filter(name => name !== '_GoBack')
+                    .map(name => {
+                        const heading = headings.find(h => h.bookmarkName === name);
+                        return `- ${name}${heading ? ` (heading ${heading.number}: "${heading.text.substring(0, 50)}")` : ''}`;
+                    });
+
+                return `## Hyperlinks (${links.length})\n${linkLines.join('\n') || '(none)'}\n\n## Bookmarks (${bookmarkLines.length})\n${bookmarkLines.join('\n') || '(none)'}`;
+            }
+        ),
+        createTool(
+            'insertLink',
+            'Turn existing text into a hyperlink. Link either to an external URL, to an existing bookmark, or to a heading (a bookmark is created on the heading when needed).',
+            {
+                type: 'object',
+                properties: {
+                    text: { type: 'string', description: 'The exact text to turn into a link' },
+                    url: { type: 'string', description: 'External URL (https://..., mailto:...)' },
+                    bookmarkName: { type: 'string', description: 'Name of an existing bookmark to link to' },
+                    headingText: { type: 'string', description: 'Text (or section number such as "4.2") of the heading to link to' },
+                    contextBefore: { type: 'string', description: 'Optional text immediately preceding the target text to ensure the correct occurrence is found.' },
+                    contextAfter: { type: 'string', description: 'Optional text immediately following the target text to ensure the correct occurrence is found.' }
+                },
+                required: ['text'],
+                additionalProperties: false
+            },
+            async ({ text, url, bookmarkName, headingText, contextBefore, contextAfter }: {
+                text: string,
+                url?: string,
+                bookmarkName?: string,
+                headingText?: string,
+                contextBefore?: string,
+                contextAfter?: string
+            }) => {
+                validateEditor('insertLink', context);
+                const editor = context.getEditor();
+                const { state } = editor;
+                const doc = state.doc;
+
+                const range = findTextPositionExcludingDeletions(doc, text, { contextBefore, contextAfter });
+                if (!range) return `Text "${text}" not found in document.`;
+
+                const bookmarkNames = collectBookmarkNames(doc);
+                const pendingBookmarks = new Map<number, { name: string }>();
+                let href: string;
+                let targetLabel: string;
+
+                if (url) {
+                    href = url;
+                    targetLabel = url;
+                } else if (bookmarkName) {
+                    if (!bookmarkNames.has(bookmarkName)) return `Bookmark "${bookmarkName}" not found. Use listLinks to see available bookmarks.`;
+                    href = `#${bookmarkName}`;
+                    targetLabel = `bookmark ${bookmarkName}`;
+                } else if (headingText) {
+                    const query = headingText.trim().toLowerCase();
+                    const heading = collectHeadingTargets(doc).find(h => h.number === headingText.trim() || h.text.toLowerCase().includes(query));
+                    if (!heading) return `Heading "${headingText}" not found.`;
+                    href = `#${planHeadingBookmark(heading, bookmarkNames, pendingBookmarks)}`;
+                    targetLabel = `heading "${heading.text.substring(0, 50)}"`;
+                } else {
+                    return 'Specify one of url, bookmarkName or headingText.';
+                }
+
+                const tr = state.tr;
+                tr.addMark(range.from, range.to, state.schema.marks.link.create({ href, target: null }));
+                applyPendingBookmarks(tr, doc, state.schema, pendingBookmarks);
+                editor.view.dispatch(tr);
+
+                return `Linked "${text}" to ${targetLabel}.`;
+            }
+        ),
+        createTool(
+            'linkCrossReferences',
+            'Find cross-references such as "Section 4.2", "Article 3", "第4条" or "4.2節" and link them to the matching numbered heading. Also repairs internal links whose bookmark no longer exists. Use dryRun to preview.',
+            {
+                type: 'object',
+                properties: {
+                    dryRun: { type: 'boolean', description: 'If true, only report what would be linked. Default is false.' },
+                    relinkExisting: { type: 'boolean', description: 'If true, also re-point cross-references that already link to a different (valid) target. Default is false.' }
+                },
+                additionalProperties: false
+            },
+            async ({ dryRun = false, relinkExisting = false }: { dryRun?: boolean, relinkExisting?: boolean }) => {
+                validateEditor('linkCrossReferences', context);
+                const editor = context.getEditor();
+                const { state } = editor;
+                const doc = state.doc;
+                const linkType = state.schema.marks.link;
+
+                const headings = collectHeadingTargets(doc);
+                const headingByNumber = new Map<string, HeadingTarget>();
+                headings.forEach(h => {
+                    if (!headingByNumber.has(h.number)) headingByNumber.set(h.number, h);
+                });
+                const bookmarkNames = collectBookmarkNames(doc);
+                const pendingBookmarks = new Map<number, { name: string }>();
+
+                const linked: string[] = [];
+                const repaired: string[] = [];
+                const unresolved: string[] = [];
+                const marks: { from: number; to: number; href: string }[] = [];
+
+                doc.descendants((node: any, pos: number, parent: any) => {
+                    if (!node.isText || hasDeletionMark(node)) return true;
+                    // Headings themselves are targets, not references
+                    if (parent?.type.name === 'heading') return true;
+
+                    const existingLink = node.marks.find((m: any) => m.type.name === 'link');
+                    const existingHref: string | null = existingLink?.attrs.href || null;
+                    // External links are left alone
+                    if (existingHref && !existingHref.startsWith('#')) return true;
+                    const isBroken = !!existingHref && !bookmarkNames.has(existingHref.substring(1));
+                    if (existingHref && !isBroken && !relinkExisting) return true;
+
+                    for (const pattern of CROSS_REFERENCE_PATTERNS) {
+                        pattern.lastIndex = 0;
+                        let match: RegExpExecArray | null;
+                        while ((match = pattern.exec(node.text)) !== null) {
+                            const from = pos + match.index;
+                            const to = from + match[0].length;
+                            if (marks.some(m => from < m.to && to > m.from)) continue;
+
+                            const heading = headingByNumber.get(match[1]);
+                            if (!heading) {
+                                unresolved.push(`"${match[0]}"`);
+                                continue;
+                            }
+                            const href = `#${planHeadingBookmark(heading, bookmarkNames, pendingBookmarks)}`;
+                            if (href === existingHref) continue;
+
+                            marks.push({ from, to, href });
+                            const entry = `"${match[0]}" -> ${heading.number} "${heading.text.substring(0, 40)}"`;
+                            (isBroken ? repaired : linked).push(entry);
+                        }
+                    }
+                    return true;
+                });
+
+                if (!dryRun && marks.length > 0) {
+                    const tr = state.tr;
+                    for (const { from, to, href } of marks) {
+                        tr.removeMark(from, to, linkType);
+                        tr.addMark(from, to, linkType.create({ href, target: null }));
+                    }
+                    applyPendingBookmarks(tr, doc, state.schema, pendingBookmarks);
+                    editor.view.dispatch(tr);
+                }
+
+                if (linked.length === 0 && repaired.length === 0 && unresolved.length === 0) {
+                    return 'No cross-references found.';
+                }
+
+                const verb = dryRun ? 'Would link' : 'Linked';
+                const sections = [
+                    linked.length ? `${verb} ${linked.length} cross-reference(s):\n${linked.map(l => `- ${l}`).join('\n')}` : '',
+                    repaired.length ? `${dryRun ? 'Would repair' : 'Repaired'} ${repaired.length} broken link(s):\n${repaired.map(l => `- ${l}`).join('\n')}` : '',
+                    unresolved.length ? `No matching heading for ${unresolved.length} reference(s): ${Array.from(new Set(unresolved)).join(', ')}` : '',
+                ];
+                return sections.filter(Boolean).join('\n\n');
+            }
+        )
+    ];
+};
@@ -26,6 +26,14 @@ const MARGIN_PRESETS: Record<string, { top: number; right: number; bottom: numbe
     'WIDE': { top: 1440, right: 2880, bottom: 1440, left: 2880, description: '1in top/bottom, 2in left/right' },
 };
 
+// Page setup attrs of a section (raw w:* attributes in twips)
+interface SectionSetup {
+    sectionType?: string | null;
+    pageSize?: Record<string, string | number> | null;
+    pageMargins?: Record<string, string | number> | null;
+    cols?: Record<string, string | number> | null;
+}
+
 // Helper: Convert mm to twips
 const mmToTwips = (mm: number): number => Math.round(mm * 56.69);
 
@@ -36,7 +44,7 @@ export const getPageLayoutTools = (context: ToolContext): ToolDefinition[] => {
     return [
         createTool(
             'setPageLayout',
-            'Set page size and margins for the document. Supports presets for Japanese legal submissions.',
+            'Set page size, margins and columns for the whole document, the section at the cursor, or a new section starting at the cursor. Supports presets for Japanese legal submissions.',
             {
                 type: 'object',
                 properties: {
@@ -67,6 +75,15 @@ export const getPageLayoutTools = (context: ToolContext): ToolDefinition[] => {
                             bottomMm: { type: 'number', description: 'Bottom margin in mm' },
                             leftMm: { type: 'number', description: 'Left margin in mm' }
                         }
+                    },
+                    columns: {
+                        type: 'number',
+                        description: 'Number of text columns (1-9)'
+                    },
+                    scope: {
+                        type: 'string',
+                        enum: ['document', 'section', 'forward'],
+                        description: 'document: all sections (default). section: the section containing the cursor. forward: start a new section at the cursor block and apply the layout to it (e.g. a landscape appendix).'
                     }
                 },
                 additionalProperties: false
@@ -76,6 +93,8 @@ export const getPageLayoutTools = (context: ToolContext): ToolDefinition[] => {
                 marginPreset?: string;
                 customPageSize?: { widthMm?: number; heightMm?: number };
                 customMargins?: { topMm?: number; rightMm?: number; bottomMm?: number; leftMm?: number };
+                columns?: number;
+                scope?: 'document' | 'section' | 'forward';
             }) => {
                 const { getCustomEditorRef } = context;
                 const editorRef = getCustomEditorRef?.();
@@ -87,6 +106,8 @@ export const getPageLayoutTools = (context: ToolContext): ToolDefinition[] => {
                 const updates: {
                     pageSize?: { width: number; height: number };
                     pageMargins?: { top: number; right: number; bottom: number; left: number };
+                    columns?: { count: number };
+                    scope?: 'document' | 'section' | 'forward';
                 } = {};
 
                 let appliedSettings: string[] = [];
@@ -125,6 +146,11 @@ export const getPageLayoutTools = (context: ToolContext): ToolDefinition[] => {
                     appliedSettings.push(`Margins: ${args.marginPreset} (${preset.description})`);
                 }
 
+                if (args.columns !== undefined) {
+                    updates.columns = { count: Math.max(1, Math.min(Math.round(args.columns), 9)) };
+                    appliedSettings.push(`Columns: ${updates.columns.count}`);
+                }
+
                 if (Object.keys(updates).length === 0) {
                     return `No changes applied. Available presets:
                     
@@ -135,9 +161,12 @@ export const getPageLayoutTools = (context: ToolContext): ToolDefinition[] => {
 Example: setPageLayout({ pageSizePreset: "A4", marginPreset: "JP_COURT_25MM" })`;
                 }
 
+                const scope = args.scope || 'document';
+                updates.scope = scope;
                 editorRef.current.setPageLayout(updates);
 
-                return `Page layout updated:\n${appliedSettings.map(s => `- ${s}`).join('\n')}\n\nThe document preview has been updated. Export to save these settings to the DOCX file.`;
+                const scopeLabel = scope === 'document' ? 'whole document' : scope === 'section' ? 'section at the cursor' : 'new section from the cursor';
+                return `Page layout updated (${scopeLabel}):\n${appliedSettings.map(s => `- ${s}`).join('\n')}\n\nThe document preview has been updated. Export to save these settings to the DOCX file.`;
             }
         ),
         createTool(
@@ -201,6 +230,26 @@ Example: setPageLayout({ pageSizePreset: "A4", marginPreset: "JP_COURT_25MM" })`
                     result += '### Page Margins\nUsing default (1 inch all sides)\n';
                 }
 
+                // Sections other than the last one end with a sectionBreak node carrying their own page setup
+                const editor = editorRef.current.getEditor?.();
+                const sectionBreaks: SectionSetup[] = [];
+                editor?.state.doc.forEach((node: { type: { name: string }; attrs: SectionSetup }) => {
+                    if (node.type.name === 'sectionBreak') sectionBreaks.push(node.attrs);
+                });
+                if (sectionBreaks.length > 0) {
+                    const describe = (attrs: SectionSetup) => {
+                        const width = Number(attrs?.pageSize?.['w:w'] || 12240);
+                        const height = Number(attrs?.pageSize?.['w:h'] || 15840);
+                        const columns = attrs?.cols?.['w:num'] || 1;
+                        return `${twipsToMm(width)}mm × ${twipsToMm(height)}mm${width > height ? ' (landscape)' : ''}, margins L${twipsToMm(Number(attrs?.pageMargins?.['w:left'] || 1440))}/R${twipsToMm(Number(attrs?.pageMargins?.['w:right'] || 1440))}mm, ${columns} column(s), starts: ${attrs?.sectionType || 'nextPage'}`;
+                    };
+                    result += `\n### Sections (${sectionBreaks.length + 1})\n`;
+                    [...sectionBreaks, docAttrs].forEach((attrs, index) => {
+                        result += `- Section ${index + 1}: ${describe(attrs)}\n`;
+                    });
+                    result += '\nThe page size/margins above are those of the last section.\n';
+                }
+
                 return result;
             }
         )
@@ -1,6 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { ToolDefinition, createTool, ToolContext } from '../types';
 import { findFileHandle } from '../utils';
+import { chartFromRange, ChartType } from '../../lib/xlsx/charts';
+import { buildRule, ConditionFormatSpec, parseSqref } from '../../lib/xlsx/conditionalFormat';
+import { listResolver, readDataValidations, validateCellValue, validationAt, ValidationFailure } from '../../lib/xlsx/dataValidation';
+import { decodeCell } from '../../lib/xlsx/xml';
 
 export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[] => {
     // Helper to parse A1 notation range to row/col indices
@@ -26,6 +30,19 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
         return { startRow, endRow, startCol, endCol };
     };
 
+    // Summary of the edits data validation refused (stop alerts) or let through with a warning
+    const validationReport = (failures: { cell: string; failure: ValidationFailure }[]): string => {
+        const lines = (prohibitInput: boolean) => failures
+            .filter(({ failure }) => failure.prohibitInput === prohibitInput)
+            .map(({ cell, failure }) => `- ${cell}: ${failure.message}`);
+        const rejected = lines(true);
+        const warned = lines(false);
+        return [
+            rejected.length > 0 ? `\nRejected ${rejected.length} edit(s) by data validation (not applied):\n${rejected.join('\n')}` : '',
+            warned.length > 0 ? `\nWarning: ${warned.length} value(s) do not satisfy the cell's data validation (applied anyway):\n${warned.join('\n')}` : '',
+        ].join('');
+    };
+
     return [
         createTool(
             'editSpreadsheet',
@@ -56,7 +73,7 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
                 path?: string,
                 edits: Array<{ sheet?: string, cell: string, value: string, isNumber?: boolean, isFormula?: boolean }>
             }) => {
-                const { setCellValue, workspaceFiles, activeFilePath, activeFileHandle } = context;
+                const { setCellValue, checkDataValidation, workspaceFiles, activeFilePath, activeFileHandle } = context;
 
                 // Validate edits input
                 if (!edits || !Array.isArray(edits)) {
@@ -70,16 +87,23 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
                 if (setCellValue) {
                     let editsApplied = 0;
                     let formulasApplied = 0;
+                    const failures: { cell: string; failure: ValidationFailure }[] = [];
                     for (const edit of edits) {
                         const isFormula = edit.isFormula || edit.value.startsWith('=');
                         const value = edit.isNumber && !isFormula ? parseFloat(edit.value) || edit.value : edit.value;
+                        // Formula results are not known until calculated, so only literal values are validated
+                        const failure = !isFormula && checkDataValidation ? checkDataValidation(edit.cell, value as string | number, edit.sheet) : null;
+                        if (failure) {
+                            failures.push({ cell: edit.cell, failure });
+                            if (failure.prohibitInput) continue;
+                        }
                         setCellValue(edit.cell, value as string | number, edit.sheet, { isNumber: edit.isNumber, isFormula });
                         editsApplied++;
                         if (isFormula) formulasApplied++;
                     }
                     console.log(`[editSpreadsheet] Applied ${editsApplied} edits (${formulasApplied} formulas) via live callback`);
                     const formulaNote = formulasApplied > 0 ? ` (including ${formulasApplied} formula(s))` : '';
-                    return `Successfully applied ${editsApplied} edits${formulaNote} to the spreadsheet. Changes are visible immediately.`;
+                    return `Successfully applied ${editsApplied} edits${formulaNote} to the spreadsheet. Changes are visible immediately.${validationReport(failures)}`;
                 }
 
                 // Fallback: Write directly to file (requires file handle)
@@ -113,8 +137,11 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
                     const file = await handle.getFile();
                     const arrayBuffer = await file.arrayBuffer();
                     const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+                    const JSZip = (await import('jszip')).default;
+                    const validations = await readDataValidations(await JSZip.loadAsync(arrayBuffer));
 
                     let editsApplied = 0;
+                    const failures: { cell: string; failure: ValidationFailure }[] = [];
 
                     for (const edit of edits) {
                         const sheetName = edit.sheet || workbook.SheetNames[0];
@@ -126,6 +153,20 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
                         const cellAddress = edit.cell.toUpperCase();
                         const isFormula = edit.isFormula || edit.value.startsWith('=');
 
+                        const { r, c } = XLSX.utils.decode_cell(cellAddress);
+                        const validation = isFormula ? undefined : validationAt(validations[sheetName] || [], r, c);
+                        if (validation) {
+                            const resolveList = listResolver((listSheet, row, col) => {
+                                const source = workbook.Sheets[listSheet || sheetName]?.[XLSX.utils.encode_cell({ r: row, c: col })];
+                                return source ? String(source.w ?? source.v) : undefined;
+                            });
+                            const message = validateCellValue(validation, edit.value, resolveList);
+                            if (message) {
+                                failures.push({ cell: cellAddress, failure: { message, prohibitInput: validation.prohibitInput } });
+                                if (validation.prohibitInput) continue;
+                            }
+                        }
+
                         if (isFormula) {
                             // Set cell with formula
                             worksheet[cellAddress] = { f: edit.value.slice(1), t: 'n' };
@@ -149,7 +190,7 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
                     await writable.write(blob);
                     await writable.close();
 
-                    return `Successfully applied ${editsApplied} edits to ${path}. Please reload the file to see changes.`;
+                    return `Successfully applied ${editsApplied} edits to ${path}. Please reload the file to see changes.${validationReport(failures)}`;
                 } catch (error) {
                     console.error('[editSpreadsheet] Error:', error);
                     return `Error editing spreadsheet: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -159,7 +200,7 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
 
         createTool(
             'formatSpreadsheet',
-            'Apply visual formatting to a range of cells. Use for headers, input cells, or calculated cells. Supports number formats, colors, bold, alignment.',
+            'Apply visual formatting to a range of cells. Use for headers, input cells, or calculated cells. Supports number formats, colors, bold, alignment, and conditional formatting rules (e.g. highlight overdue dates in red).',
             {
                 type: 'object',
                 properties: {
@@ -189,12 +230,34 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
                         type: 'string',
                         enum: ['left', 'center', 'right'],
                         description: 'Horizontal text alignment'
+                    },
+                    conditionalFormat: {
+                        type: 'object',
+                        description: 'Add a conditional formatting rule to the range instead of static formatting. The rule is saved with the file.',
+                        properties: {
+                            condition: {
+                                type: 'string',
+                                enum: ['greaterThan', 'lessThan', 'equal', 'between', 'textContains', 'duplicateValue', 'uniqueValue', 'top10', 'last10', 'aboveAverage', 'belowAverage', 'formula', 'dataBar', 'colorScale'],
+                                description: 'Condition. "formula" takes a formula written for the top-left cell of the range that is adjusted for the other cells (e.g. "=B2<TODAY()" on B2:B100 for overdue dates).'
+                            },
+                            value: { type: 'string', description: 'Comparison value, text to find, rank for top10/last10, or the formula for "formula"' },
+                            value2: { type: 'string', description: 'Upper bound for "between"' },
+                            percent: { type: 'boolean', description: 'top10/last10: the rank is a percentage' },
+                            textColor: { type: 'string', description: 'Font color of matching cells as hex (e.g. "#9C0006")' },
+                            cellColor: { type: 'string', description: 'Background color of matching cells as hex (e.g. "#FFC7CE")' },
+                            colors: {
+                                type: 'array',
+                                items: { type: 'string' },
+                                description: 'dataBar: [bar color]; colorScale: [minimum, (midpoint,) maximum] colors as hex'
+                            }
+                        },
+                        required: ['condition']
                     }
                 },
                 required: ['range'],
                 additionalProperties: false
             },
-            async ({ range, sheet, numberFormat, bold, italic, fontColor, backgroundColor, align }: {
+            async ({ range, sheet, numberFormat, bold, italic, fontColor, backgroundColor, align, conditionalFormat }: {
                 range: string;
                 sheet?: string;
                 numberFormat?: string;
@@ -203,8 +266,28 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
                 fontColor?: string;
                 backgroundColor?: string;
                 align?: 'left' | 'center' | 'right';
+                conditionalFormat?: ConditionFormatSpec;
             }) => {
-                const { setCellValue } = context;
+                const { setCellValue, addConditionalFormat } = context;
+
+                if (conditionalFormat) {
+                    const cellrange = parseSqref(range.toUpperCase());
+                    if (cellrange.length === 0) {
+                        return `Error: Invalid range "${range}". Use A1 notation (e.g., "B2:B100").`;
+                    }
+                    const needsValue = ['greaterThan', 'lessThan', 'equal', 'between', 'textContains', 'formula'].includes(conditionalFormat.condition);
+                    if (needsValue && !conditionalFormat.value) {
+                        return `Error: conditionalFormat.value is required for the "${conditionalFormat.condition}" condition.`;
+                    }
+                    if (!addConditionalFormat) {
+                        return 'Error: Cannot add conditional formatting - no live spreadsheet editor available. Open an xlsx file first.';
+                    }
+                    if (!addConditionalFormat(buildRule(conditionalFormat, cellrange), sheet)) {
+                        return sheet ? `Error: Sheet "${sheet}" not found.` : 'Error: No active sheet in the spreadsheet editor.';
+                    }
+                    const valueNote = conditionalFormat.value ? ` ${conditionalFormat.value}${conditionalFormat.value2 ? ` and ${conditionalFormat.value2}` : ''}` : '';
+                    return `Added conditional formatting rule (${conditionalFormat.condition}${valueNote}) to range ${range}. It is visible immediately and saved with the file.`;
+                }
 
                 // Parse range
                 const parsedRange = parseRange(range);
@@ -271,6 +354,56 @@ export const getSpreadsheetEditTools = (context: ToolContext): ToolDefinition[]
 
                 return `Applied formatting (${formatDetails.join(', ')}) to ${cellsFormatted} cell(s) in range ${range}.`;
             }
+        ),
+
+        createTool(
+            'createChart',
+            'Insert a bar, column, line or pie chart over a block of cells. The data is laid out as a table: the first column holds the category labels and each other column is a series. The chart stays bound to the cells and is saved with the file.',
+            {
+                type: 'object',
+                properties: {
+                    range: {
+                        type: 'string',
+                        description: 'Data range in A1 notation including the header row (e.g., "A1:C13" for months in A and two series in B and C)'
+                    },
+                    type: {
+                        type: 'string',
+                        enum: ['column', 'bar', 'line', 'pie'],
+                        description: 'Chart type: "column" (vertical bars), "bar" (horizontal bars), "line" or "pie" (first series only)'
+                    },
+                    title: { type: 'string', description: 'Chart title' },
+                    sheet: { type: 'string', description: 'Sheet name. Defaults to active sheet.' },
+                    position: { type: 'string', description: 'Top-left cell of the chart (e.g., "F2"). Defaults to two columns right of the data.' },
+                    headers: { type: 'boolean', description: 'The first row holds the series names. Default: true' }
+                },
+                required: ['range', 'type'],
+                additionalProperties: false
+            },
+            async ({ range, type, title, sheet, position, headers = true }: {
+                range: string;
+                type: ChartType;
+                title?: string;
+                sheet?: string;
+                position?: string;
+                headers?: boolean;
+            }) => {
+                const { addChart } = context;
+                const cellrange = parseSqref(range.toUpperCase());
+                if (cellrange.length !== 1) {
+                    return `Error: Invalid range "${range}". Use a single A1 range (e.g., "A1:C13").`;
+                }
+                const at = position ? decodeCell(position.toUpperCase()) : undefined;
+                if (at === null) {
+                    return `Error: Invalid position "${position}". Use a cell address (e.g., "F2").`;
+                }
+                if (!addChart) {
+                    return 'Error: Cannot create a chart - no live spreadsheet editor available. Open an xlsx file first.';
+                }
+                if (!addChart(sheetName => chartFromRange(sheetName, cellrange[0], { type, title, headers, position: at }), sheet)) {
+                    return sheet ? `Error: Sheet "${sheet}" not found.` : 'Error: No active sheet in the spreadsheet editor.';
+                }
+                return `Created ${type} chart${title ? ` "${title}"` : ''} from ${range}. It is visible immediately, follows changes to the cells, and is saved with the file.`;
+            }
         )
     ];
 };
@@ -1,12 +1,140 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { TextSelection } from '@tiptap/pm/state';
+import { CellSelection, TableMap } from '@tiptap/pm/tables';
+
 import { ToolDefinition, createTool, ToolContext } from '../types';
 import { hasDeletionMark } from './utils';
 
+type TableOperation = {
+    type: 'setCell' | 'addRow' | 'addColumn' | 'deleteRow' | 'deleteColumn' | 'mergeCells' | 'splitCell' | 'setShading' | 'setColumnWidth';
+    row?: number;
+    column?: number;
+    toRow?: number;
+    toColumn?: number;
+    text?: string;
+    values?: string[];
+    color?: string | null;
+    width?: number;
+};
+
+/**
+ * Tables in document order (nested tables included)
+ */
+const findTables = (doc: any): { node: any; pos: number }[] => {
+    const tables: { node: any; pos: number }[] = [];
+    doc.descendants((node: any, pos: number) => {
+        if (node.type.name === 'table') tables.push({ node, pos });
+        return true;
+    });
+    return tables;
+};
+
+/**
+ * Absolute position of the cell covering a grid coordinate (row / column are 0-based grid indexes)
+ */
+const getCellPos = (editor: any, tableIndex: number, row: number, column: number): number => {
+    const table = findTables(editor.state.doc)[tableIndex];
+    if (!table) throw new Error(`Table ${tableIndex} not found`);
+    const map = TableMap.get(table.node);
+    if (row < 0 || row >= map.height || column < 0 || column >= map.width) {
+        throw new Error(`Cell (${row}, ${column}) is outside the ${map.height}x${map.width} table`);
+    }
+    return table.pos + 1 + map.map[row * map.width + column];
+};
+
+const selectCell = (editor: any, cellPos: number) => {
+    const { state } = editor;
+    editor.view.dispatch(state.tr.setSelection(TextSelection.near(state.doc.resolve(cellPos + 1))));
+};
+
+const setCellText = (editor: any, cellPos: number, text: string) => {
+    const { state } = editor;
+    const cell = state.doc.nodeAt(cellPos);
+    const paragraph = state.schema.nodes.paragraph.create(null, text ? state.schema.text(text) : null);
+    editor.view.dispatch(state.tr.replaceWith(cellPos + 1, cellPos + cell.nodeSize - 1, paragraph));
+};
+
+/**
+ * Apply one operation to the table; positions are looked up again for every operation
+ */
+const applyTableOperation = (editor: any, tableIndex: number, op: TableOperation): string => {
+    const row = op.row ?? 0;
+    const column = op.column ?? 0;
+
+    switch (op.type) {
+        case 'setCell':
+            setCellText(editor, getCellPos(editor, tableIndex, row, column), op.text ?? '');
+            return `set cell (${row}, ${column})`;
+        case 'addRow': {
+            selectCell(editor, getCellPos(editor, tableIndex, row, 0));
+            if (!editor.commands.addRowAfter()) throw new Error(`Cannot add a row after row ${row}`);
+            (op.values || []).forEach((value, i) => setCellText(editor, getCellPos(editor, tableIndex, row + 1, i), value));
+            return `added row after row ${row}`;
+        }
+        case 'addColumn': {
+            selectCell(editor, getCellPos(editor, tableIndex, 0, column));
+            if (!editor.commands.addColumnAfter()) throw new Error(`Cannot add a column after column ${column}`);
+            (op.values || []).forEach((value, i) => setCellText(editor, getCellPos(editor, tableIndex, i, column + 1), value));
+            return `added column after column ${column}`;
+        }
+        case 'deleteRow':
+            selectCell(editor, getCellPos(editor, tableIndex, row, 0));
+            if (!editor.commands.deleteRow()) throw new Error(`Cannot delete row ${row}`);
+            return `deleted row ${row}`;
+        case 'deleteColumn':
+            selectCell(editor, getCellPos(editor, tableIndex, 0, column));
+            if (!editor.commands.deleteColumn()) throw new Error(`Cannot delete column ${column}`);
+            return `deleted column ${column}`;
+        case 'mergeCells': {
+            const toRow = op.toRow ?? row;
+            const toColumn = op.toColumn ?? column;
+            const anchor = getCellPos(editor, tableIndex, row, column);
+            const head = getCellPos(editor, tableIndex, toRow, toColumn);
+            editor.view.dispatch(editor.state.tr.setSelection(CellSelection.create(editor.state.doc, anchor, head)));
+            if (!editor.commands.mergeCells()) throw new Error(`Cannot merge (${row}, ${column})-(${toRow}, ${toColumn})`);
+            return `merged (${row}, ${column})-(${toRow}, ${toColumn})`;
+        }
+        case 'splitCell':
+            selectCell(editor, getCellPos(editor, tableIndex, row, column));
+            if (!editor.commands.splitCell()) throw new Error(`Cell (${row}, ${column}) is not merged`);
+            return `split cell (${row}, ${column})`;
+        case 'setShading': {
+            const cellPos = getCellPos(editor, tableIndex, row, column);
+            const cell = editor.state.doc.nodeAt(cellPos);
+            editor.view.dispatch(editor.state.tr.setNodeMarkup(cellPos, undefined, { ...cell.attrs, shading: op.color || null }));
+            return op.color ? `shaded cell (${row}, ${column}) ${op.color}` : `cleared shading of cell (${row}, ${column})`;
+        }
+        case 'setColumnWidth': {
+            if (!op.width || op.width <= 0) throw new Error('width (px) is required');
+            const table = findTables(editor.state.doc)[tableIndex];
+            if (!table) throw new Error(`Table ${tableIndex} not found`);
+            const map = TableMap.get(table.node);
+            if (column < 0 || column >= map.width) throw new Error(`Column ${column} is outside the table`);
+            const { tr } = editor.state;
+            const seen = new Set<number>();
+            for (let r = 0; r < map.height; r++) {
+                const relPos = map.map[r * map.width + column];
+                if (seen.has(relPos)) continue;
+                seen.add(relPos);
+                const cell = table.node.nodeAt(relPos);
+                const rect = map.findCell(relPos);
+                const colwidth = cell.attrs.colwidth ? [...cell.attrs.colwidth] : Array(cell.attrs.colspan || 1).fill(0);
+                colwidth[column - rect.left] = Math.round(op.width);
+                tr.setNodeMarkup(table.pos + 1 + relPos, undefined, { ...cell.attrs, colwidth });
+            }
+            editor.view.dispatch(tr);
+            return `set column ${column} width to ${Math.round(op.width)}px`;
+        }
+        default:
+            throw new Error(`Unknown operation: ${(op as any).type}`);
+    }
+};
+
 export const getTableTools = (context: ToolContext): ToolDefinition[] => {
     return [
         createTool(
             'insertTable',
-            'Insert a proper table with headers and data rows. Use this instead of markdown-style text tables. Call this tool when the user asks to insert or create a table. IMPORTANT: Use afterText to specify where the table should be inserted (e.g., the title or heading text after which to insert).',
+            'Insert a proper table with headers and data rows. Use this instead of markdown-style text tables. Call this tool when the user asks to insert or create a table. IMPORTANT: Use afterText to specify where the table should be inserted (e.g., the title or heading text after which to insert). To change an existing table use modifyTable instead.',
             {
                 type: 'object',
                 properties: {
@@ -184,6 +312,95 @@ export const getTableTools = (context: ToolContext): ToolDefinition[] => {
                     return `Failed to insert table: ${error instanceof Error ? error.message : 'Unknown error'}`;
                 }
             }
+        ),
+        createTool(
+            'listTables',
+            'List the tables in the document with their index, grid size, merged cells and first row text. Use the index with modifyTable.',
+            {
+                type: 'object',
+                properties: {},
+                additionalProperties: false
+            },
+            async () => {
+                const editor = context.getEditor();
+                if (!editor) throw new Error('Editor not initialized');
+
+                const tables = findTables(editor.state.doc).map(({ node }, index) => {
+                    const map = TableMap.get(node);
+                    const merged: string[] = [];
+                    node.descendants((cell: any, relPos: number) => {
+                        if (cell.type.spec.tableRole !== 'cell' && cell.type.spec.tableRole !== 'header_cell') return true;
+                        if (cell.attrs.colspan > 1 || cell.attrs.rowspan > 1) {
+                            const rect = map.findCell(relPos);
+                            merged.push(`(${rect.top}, ${rect.left}) spans ${cell.attrs.rowspan}x${cell.attrs.colspan}`);
+                        }
+                        return false;
+                    });
+                    return {
+                        index,
+                        rows: map.height,
+                        columns: map.width,
+                        firstRow: node.firstChild ? Array.from({ length: node.firstChild.childCount }, (_, i) => node.firstChild.child(i).textContent) : [],
+                        mergedCells: merged,
+                    };
+                });
+                return tables.length > 0 ? JSON.stringify(tables, null, 2) : 'No tables in the document.';
+            }
+        ),
+        createTool(
+            'modifyTable',
+            'Modify an existing table selected by its index (from listTables). Operations run in order; row/column are 0-based grid coordinates (a merged cell is addressed by any coordinate it covers). Shading colors are "#RRGGBB", widths are px.',
+            {
+                type: 'object',
+                properties: {
+                    tableIndex: {
+                        type: 'number',
+                        description: '0-based index of the table in document order'
+                    },
+                    operations: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                type: {
+                                    type: 'string',
+                                    enum: ['setCell', 'addRow', 'addColumn', 'deleteRow', 'deleteColumn', 'mergeCells', 'splitCell', 'setShading', 'setColumnWidth'],
+                                    description: 'setCell: replace cell text. addRow/addColumn: insert after row/column (optional values fill it). mergeCells: merge (row, column)-(toRow, toColumn). setShading: cell background (color null clears).'
+                                },
+                                row: { type: 'number' },
+                                column: { type: 'number' },
+                                toRow: { type: 'number' },
+                                toColumn: { type: 'number' },
+                                text: { type: 'string' },
+                                values: { type: 'array', items: { type: 'string' } },
+                                color: { type: ['string', 'null'] },
+                                width: { type: 'number' }
+                            },
+                            required: ['type'],
+                            additionalProperties: false
+                        }
+                    }
+                },
+                required: ['tableIndex', 'operations'],
+                additionalProperties: false
+            },
+            async ({ tableIndex, operations }: { tableIndex: number, operations: TableOperation[] }) => {
+                const editor = context.getEditor();
+                if (!editor) throw new Error('Editor not initialized');
+                if (!findTables(editor.state.doc)[tableIndex]) {
+                    return `Table ${tableIndex} not found. Use listTables to get table indexes.`;
+                }
+
+                const results: string[] = [];
+                for (const op of operations) {
+                    try {
+                        results.push(applyTableOperation(editor, tableIndex, op));
+                    } catch (error) {
+                        results.push(`failed ${op.type}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                    }
+                }
+                return `Table ${tableIndex}: ${results.join('; ')}.`;
+            }
         )
     ];
 };
@@ -262,6 +262,9 @@ export const getTextEditTools = (context: ToolContext): ToolDefinition[] => {
                 const hasStyles = headingLevel || bold || italic || underline || strikethrough || code;
 
                 if (hasStyles) {
+                    // Formatting before the change, recorded as a tracked formatting revision afterwards
+                    const formatSnapshot = editor.helpers?.trackChanges?.snapshotFormatting?.(from, to);
+
                     // Build a chain of formatting commands
                     let chain = editor.chain().setTextSelection({ from, to });
                     const appliedStyles: string[] = [];
@@ -302,6 +305,10 @@ export const getTextEditTools = (context: ToolContext): ToolDefinition[] => {
 
                     chain.run();
 
+                    if (formatSnapshot && typeof editor.commands.recordFormatChanges === 'function') {
+                        editor.commands.recordFormatChanges(formatSnapshot, 'AI Assistant');
+                    }
+
                     if (appliedStyles.length > 0) {
                         resultMsg += ` and applied ${appliedStyles.join(', ')}`;
                     }
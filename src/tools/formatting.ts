@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unused-vars */
+import { ToolCallPreview } from '@/types';
 import { ToolDefinition, createTool, ToolContext } from './types';
+import { buildPreview } from './utils';
 
 /**
  * Check if a text node has a deletion mark (track changes).
@@ -15,6 +17,61 @@ const hasDeletionMark = (node: any): boolean => {
     });
 };
 
+// Optional filters shared by listTrackedChanges / acceptAllChanges / rejectAllChanges
+const TRACKED_CHANGE_FILTER_PROPERTIES = {
+    author: { type: 'string', description: 'Only changes by this author (your own suggestions use "AI Assistant").' },
+    type: { type: 'string', enum: ['insertion', 'deletion', 'format', 'paragraphFormat', 'moveFrom', 'moveTo', 'rowInsertion', 'rowDeletion'], description: 'Only this kind of change (format: character formatting, paragraphFormat: paragraph style/heading, moveFrom/moveTo: the two sides of moved text, rowInsertion/rowDeletion: table rows).' },
+    dateFrom: { type: 'string', description: 'Only changes made on or after this date (YYYY-MM-DD or ISO date-time).' },
+    dateTo: { type: 'string', description: 'Only changes made on or before this date (YYYY-MM-DD or ISO date-time).' },
+    changeIds: { type: 'array', items: { type: 'string' }, description: 'Only these change ids (from listTrackedChanges).' }
+};
+
+interface TrackedChangeFilterArgs {
+    author?: string;
+    type?: 'insertion' | 'deletion' | 'format' | 'paragraphFormat' | 'moveFrom' | 'moveTo' | 'rowInsertion' | 'rowDeletion';
+    dateFrom?: string;
+    dateTo?: string;
+    changeIds?: string[];
+}
+
+const toTrackedChangeFilter = ({ author, type, dateFrom, dateTo, changeIds }: TrackedChangeFilterArgs = {}) => ({
+    authors: author ? [author] : undefined,
+    type,
+    dateFrom,
+    dateTo,
+    ids: changeIds?.length ? changeIds : undefined
+});
+
+const hasTrackedChangeFilter = (filter: ReturnType<typeof toTrackedChangeFilter>): boolean =>
+    Object.values(filter).some(value => value !== undefined);
+
+// Accepting keeps insertions and drops deletions; rejecting does the opposite
+const INSERTED_TYPES = ['insertion', 'moveTo', 'rowInsertion'];
+const DELETED_TYPES = ['deletion', 'moveFrom', 'rowDeletion'];
+
+const changeOutcome = (type: string, accept: boolean): 'added' | 'removed' | 'changed' => {
+    if (INSERTED_TYPES.includes(type)) return accept ? 'added' : 'removed';
+    if (DELETED_TYPES.includes(type)) return accept ? 'removed' : 'added';
+    return 'changed';
+};
+
+/** The tracked changes acceptAllChanges / rejectAllChanges would resolve, as the diff they leave */
+const previewTrackedChanges = (editor: any, args: TrackedChangeFilterArgs, accept: boolean): ToolCallPreview => {
+    const action = accept ? '承諾' : '却下';
+    const getChanges = editor?.helpers?.trackChanges?.getChanges;
+    if (typeof getChanges !== 'function') return buildPreview(`文書の変更履歴を${action}します。`);
+
+    const changes: any[] = getChanges(toTrackedChangeFilter(args));
+    if (changes.length === 0) return buildPreview('該当する変更履歴がないため、何も変わりません。');
+    return buildPreview(
+        `${changes.length}件の変更履歴を${action}します。`,
+        changes.map(c => ({
+            type: changeOutcome(c.type, accept),
+            text: `${c.text}（${c.type}、${c.author}）`
+        }))
+    );
+};
+
 export const getFormattingTools = (context: ToolContext): ToolDefinition[] => {
     const { getEditor, getActionMethods } = context;
 
@@ -560,22 +617,60 @@ export const getFormattingTools = (context: ToolContext): ToolDefinition[] => {
                 }
             }
         ),
+        createTool(
+            'listTrackedChanges',
+            'List tracked changes (insertions, deletions, moves, table rows and formatting changes) with their id, author, date and text. Both sides of a move share a move name. Filters are optional.',
+            {
+                type: 'object',
+                properties: {
+                    ...TRACKED_CHANGE_FILTER_PROPERTIES
+                },
+                required: [],
+                additionalProperties: false
+            },
+            async (args: TrackedChangeFilterArgs) => {
+                const editor = getEditor();
+                if (!editor) throw new Error('Editor not initialized');
+
+                const getChanges = (editor as any).helpers?.trackChanges?.getChanges;
+                if (typeof getChanges !== 'function') {
+                    return 'Listing tracked changes is not available in this editor.';
+                }
+
+                const changes: any[] = getChanges(toTrackedChangeFilter(args));
+                if (changes.length === 0) return 'No tracked changes match.';
+
+                const lines = changes.map(c => `- [${c.id}] ${c.type}${c.description ? ` (${c.description})` : ''}${c.moveName ? ` [move ${c.moveName}]` : ''} by ${c.author}${c.date ? ` (${c.date})` : ''}: "${c.text.length > 80 ? c.text.slice(0, 80) + '...' : c.text}"`);
+                return `Found ${changes.length} tracked change(s):\n${lines.join('\n')}`;
+            }
+        ),
         createTool(
             'acceptAllChanges',
-            'Accept all tracked changes (insertions and deletions) in the document, finalizing them as permanent content.',
+            'Accept tracked changes (insertions, deletions, moves, table rows and formatting changes), finalizing them as permanent content. A move is always accepted as a whole (both sides). Without filters every change is accepted; pass author (e.g. "AI Assistant" for your own suggestions), a date range or changeIds to accept only some.',
             {
                 type: 'object',
-                properties: {},
+                properties: {
+                    ...TRACKED_CHANGE_FILTER_PROPERTIES
+                },
                 required: [],
                 additionalProperties: false
             },
-            async () => {
+            async (args: TrackedChangeFilterArgs) => {
                 const editor = getEditor();
                 if (!editor) throw new Error('Editor not initialized');
 
                 try {
                     if (typeof editor.focus === 'function') editor.focus();
 
+                    const filter = toTrackedChangeFilter(args);
+                    if (typeof editor.commands.acceptTrackedChanges === 'function') {
+                        const count = (editor as any).helpers?.trackChanges?.getChanges(filter).length;
+                        if (!editor.commands.acceptTrackedChanges(filter)) return 'No tracked changes match.';
+                        return count !== undefined ? `Accepted ${count} tracked change(s).` : 'Accepted the tracked changes.';
+                    }
+                    if (hasTrackedChangeFilter(filter)) {
+                        return 'Filtering tracked changes is not available in this editor. Call acceptAllChanges without filters to accept every change.';
+                    }
                     if (typeof editor.commands.acceptAllChanges === 'function') {
                         editor.commands.acceptAllChanges();
                         return 'Accepted all tracked changes in the document.';
@@ -586,24 +681,36 @@ export const getFormattingTools = (context: ToolContext): ToolDefinition[] => {
                     console.error('[acceptAllChanges] Error:', error);
                     return `Failed to accept changes: ${error instanceof Error ? error.message : 'Unknown error'}`;
                 }
-            }
+            },
+            async (args: TrackedChangeFilterArgs) => previewTrackedChanges(getEditor(), args, true)
         ),
         createTool(
             'rejectAllChanges',
-            'Reject all tracked changes (insertions and deletions) in the document, reverting to the original content.',
+            'Reject tracked changes (insertions, deletions, moves, table rows and formatting changes), reverting to the original content. A move is always rejected as a whole (both sides). Without filters every change is rejected; pass author, a date range or changeIds to reject only some.',
             {
                 type: 'object',
-                properties: {},
+                properties: {
+                    ...TRACKED_CHANGE_FILTER_PROPERTIES
+                },
                 required: [],
                 additionalProperties: false
             },
-            async () => {
+            async (args: TrackedChangeFilterArgs) => {
                 const editor = getEditor();
                 if (!editor) throw new Error('Editor not initialized');
 
                 try {
                     if (typeof editor.focus === 'function') editor.focus();
 
+                    const filter = toTrackedChangeFilter(args);
+                    if (typeof editor.commands.rejectTrackedChanges === 'function') {
+                        const count = (editor as any).helpers?.trackChanges?.getChanges(filter).length;
+                        if (!editor.commands.rejectTrackedChanges(filter)) return 'No tracked changes match.';
+                        return count !== undefined ? `Rejected ${count} tracked change(s).` : 'Rejected the tracked changes.';
+                    }
+                    if (hasTrackedChangeFilter(filter)) {
+                        return 'Filtering tracked changes is not available in this editor. Call rejectAllChanges without filters to reject every change.';
+                    }
                     if (typeof editor.commands.rejectAllChanges === 'function') {
                         editor.commands.rejectAllChanges();
                         return 'Rejected all tracked changes in the document.';
@@ -614,7 +721,8 @@ export const getFormattingTools = (context: ToolContext): ToolDefinition[] => {
                     console.error('[rejectAllChanges] Error:', error);
                     return `Failed to reject changes: ${error instanceof Error ? error.message : 'Unknown error'}`;
                 }
-            }
+            },
+            async (args: TrackedChangeFilterArgs) => previewTrackedChanges(getEditor(), args, false)
         )
     ];
 };
@@ -11,6 +11,7 @@ export { getSpreadsheetTools } from './spreadsheet';
 export { getSearchTools } from './searchAgent';
 export { getReviewTools } from './reviewAgent';
 export { getPdfTools } from './pdf';
+export { getCompareTools } from './compare';
 export { createTool } from './types';
 export type { ToolDefinition, ToolContext } from './types';
 
@@ -9,8 +9,8 @@
  * @module tools/reviewAgent
  */
 
-import OpenAI from 'openai';
-import { Agent, Runner, OpenAIProvider } from '@openai/agents';
+import { ResolvedModel, TokenUsage, completeText } from '../lib/ai/types';
+import { resolveModel as resolveConfiguredModel } from '../lib/ai/settings';
 import { ToolDefinition, ToolContext, createTool } from './types';
 
 // Issue type returned by the reviewer
@@ -39,13 +39,9 @@ const cleanJsonOutput = (output: string): string => {
 };
 
 /**
- * Create the specialized typo reviewer sub-agent
+ * Instructions of the specialized typo reviewer sub-agent
  */
-const createTypoReviewerAgent = () => {
-    return new Agent({
-        name: 'TypoReviewer',
-        model: 'gpt-4.1-mini',
-        instructions: `あなたは文書校正の専門家です。契約書のセクションを受け取り、誤字脱字を特定します。
+const TYPO_REVIEWER_INSTRUCTIONS = `あなたは文書校正の専門家です。契約書のセクションを受け取り、誤字脱字を特定します。
 
 チェック項目:
 1. **誤字脱字**: スペルミス、変換ミス、OCRエラー
@@ -80,52 +76,47 @@ contextAfter: "、その結果"
 
 問題がない場合は空の配列: []
 
-重要: JSON配列のみを出力し、説明文は含めないでください。マークダウンのコードブロックも不要です。`
-    });
-};
+重要: JSON配列のみを出力し、説明文は含めないでください。マークダウンのコードブロックも不要です。`;
 
 /**
  * Run a single batch of typo reviews
  */
 async function runTypoReviewBatch(
     chunks: { startBlock: number; endBlock: number; content: string }[],
-    maxConcurrent: number = 5,
-    client?: OpenAI
+    maxConcurrent: number,
+    { provider, model }: ResolvedModel,
+    onUsage?: (usage: TokenUsage) => void,
+    checkBudget?: () => string | null
 ): Promise<{
     results: { range: { startBlock: number; endBlock: number }; issues: TypoIssue[] }[];
     failedChunks: number;
+    /** Why the review stopped before the last chunk */
+    stopped?: string;
 }> {
     const results: { range: { startBlock: number; endBlock: number }; issues: TypoIssue[] }[] = [];
     let failedChunks = 0;
 
     // Process in batches of maxConcurrent
     for (let i = 0; i < chunks.length; i += maxConcurrent) {
+        const stopped = checkBudget?.();
+        if (stopped) return { results, failedChunks, stopped };
+
         const batch = chunks.slice(i, i + maxConcurrent);
 
         console.log(`[reviewDocumentTypos] Processing batch ${Math.floor(i / maxConcurrent) + 1}/${Math.ceil(chunks.length / maxConcurrent)} (${batch.length} chunks)`);
 
         const batchPromises = batch.map(async (chunk) => {
             try {
-                // Configure runner with custom provider if client is available
-                let runner: Runner;
-                if (client) {
-                    const provider = new OpenAIProvider({ openAIClient: client });
-                    runner = new Runner({ modelProvider: provider });
-                } else {
-                    runner = new Runner();
-                }
-
-                const agent = createTypoReviewerAgent();
-                const result = await runner.run(
-                    agent,
-                    `ブロック ${chunk.startBlock}〜${chunk.endBlock} をチェック:\n\n${chunk.content}`
-                );
+                const output = await completeText(provider, {
+                    model,
+                    instructions: TYPO_REVIEWER_INSTRUCTIONS,
+                    input: [{ type: 'message', role: 'user', content: `ブロック ${chunk.startBlock}〜${chunk.endBlock} をチェック:\n\n${chunk.content}` }],
+                }, onUsage);
 
-                const output = result.finalOutput || '';
                 let issues: TypoIssue[] = [];
 
                 try {
-                    const cleaned = typeof output === 'string' ? cleanJsonOutput(output) : JSON.stringify(output);
+                    const cleaned = cleanJsonOutput(output);
                     const parsed = JSON.parse(cleaned);
                     if (Array.isArray(parsed)) {
                         issues = parsed;
@@ -174,7 +165,7 @@ async function runTypoReviewBatch(
  * Get review tools for document analysis
  */
 export const getReviewTools = (context: ToolContext): ToolDefinition[] => {
-    const { getEditor, openaiConfig } = context;
+    const { getEditor, resolveModel = resolveConfiguredModel, reportUsage, checkBudget } = context;
 
     return [
         createTool(
@@ -206,21 +197,8 @@ export const getReviewTools = (context: ToolContext): ToolDefinition[] => {
                     return 'Error: BlockNode helpers not available.';
                 }
 
-                // Initialize OpenAI Client for sub-agents if config is available
-                let client: OpenAI | undefined;
-                if (openaiConfig) {
-                    try {
-                        client = new OpenAI({
-                            apiKey: openaiConfig.apiKey,
-                            baseURL: openaiConfig.baseURL,
-                            dangerouslyAllowBrowser: openaiConfig.dangerouslyAllowBrowser
-                        });
-                    } catch (e) {
-                        console.error('[reviewDocumentTypos] Failed to create OpenAI client:', e);
-                    }
-                } else {
-                    console.warn('[reviewDocumentTypos] No openaiConfig found in ToolContext. Sub-agents may fail if API key is missing.');
-                }
+                // Sub-agents use the provider and model configured for the review role
+                const reviewModel = await resolveModel('review');
 
                 // Limit maxConcurrent to prevent rate limit issues
                 const effectiveMaxConcurrent = Math.min(Math.max(maxConcurrent, 1), 10);
@@ -258,7 +236,9 @@ export const getReviewTools = (context: ToolContext): ToolDefinition[] => {
 
                 // Run batched review
                 const startTime = Date.now();
-                const { results, failedChunks } = await runTypoReviewBatch(chunks, effectiveMaxConcurrent, client);
+                const { results, failedChunks, stopped } = await runTypoReviewBatch(
+                    chunks, effectiveMaxConcurrent, reviewModel, usage => reportUsage?.('review', usage), checkBudget
+                );
                 const duration = ((Date.now() - startTime) / 1000).toFixed(1);
 
                 // Aggregate issues
@@ -280,6 +260,9 @@ export const getReviewTools = (context: ToolContext): ToolDefinition[] => {
                     issues: allIssues
                 };
 
+                if (stopped) {
+                    result.stopped = `${stopped}; only part of the document was reviewed`;
+                }
                 if (allIssues.length > 0) {
                     result.nextStep = 'Call editText() for EACH issue IN PARALLEL to fix them. IMPORTANT: Use blockIndex to scope the search to the correct block. Example: editText({ find: "行なう", replace: "行う", blockIndex: 42 })';
                 } else if (failedChunks > 0) {
@@ -7,8 +7,8 @@
  * @module tools/searchAgent
  */
 
-import OpenAI from 'openai';
-import { Agent, Runner, OpenAIProvider } from '@openai/agents';
+import { ResolvedModel, TokenUsage, completeText } from '../lib/ai/types';
+import { resolveModel as resolveConfiguredModel } from '../lib/ai/settings';
 /* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unused-vars, prefer-const */
 import { ToolDefinition, ToolContext, createTool } from './types';
 
@@ -33,13 +33,9 @@ const cleanJsonOutput = (output: string): string => {
 };
 
 /**
- * Create the search sub-agent
+ * Instructions of the search sub-agent
  */
-const createSearchAgent = (query: string) => {
-    return new Agent({
-        name: 'Searcher',
-        model: 'gpt-4.1-mini',
-        instructions: `You are a search expert. You will receive a section of a document.
+const searchInstructions = (query: string) => `You are a search expert. You will receive a section of a document.
 Your task is to find parts of the text that are relevant to the user's search query: "${query}"
 
 CRITICAL RULES:
@@ -68,9 +64,7 @@ Output format:
   }
 ]
 
-If no matches found, return []`
-    });
-};
+If no matches found, return []`;
 
 /**
  * Run a single batch of search
@@ -78,36 +72,34 @@ If no matches found, return []`
 async function runSearchBatch(
     chunks: { startBlock: number; endBlock: number; content: string }[],
     query: string,
-    maxConcurrent: number = 5,
-    client?: OpenAI
+    maxConcurrent: number,
+    { provider, model }: ResolvedModel,
+    onUsage?: (usage: TokenUsage) => void,
+    checkBudget?: () => string | null
 ): Promise<{
     results: SearchResult[];
     failedChunks: number;
+    /** Why the search stopped before the last chunk */
+    stopped?: string;
 }> {
     const results: SearchResult[] = [];
     let failedChunks = 0;
 
     for (let i = 0; i < chunks.length; i += maxConcurrent) {
+        const stopped = checkBudget?.();
+        if (stopped) return { results, failedChunks, stopped };
+
         const batch = chunks.slice(i, i + maxConcurrent);
         console.log(`[semanticSearch] Processing batch ${Math.floor(i / maxConcurrent) + 1}/${Math.ceil(chunks.length / maxConcurrent)}`);
 
         const batchPromises = batch.map(async (chunk) => {
             try {
-                let runner: Runner;
-                if (client) {
-                    const provider = new OpenAIProvider({ openAIClient: client });
-                    runner = new Runner({ modelProvider: provider });
-                } else {
-                    runner = new Runner();
-                }
-
-                const agent = createSearchAgent(query);
-                const result = await runner.run(
-                    agent,
-                    `Search in blocks ${chunk.startBlock}-${chunk.endBlock}:\n\n${chunk.content}`
-                );
+                const output = await completeText(provider, {
+                    model,
+                    instructions: searchInstructions(query),
+                    input: [{ type: 'message', role: 'user', content: `Search in blocks ${chunk.startBlock}-${chunk.endBlock}:\n\n${chunk.content}` }],
+                }, onUsage);
 
-                const output = result.finalOutput || '';
                 let matches: SearchResult[] = [];
 
                 try {
@@ -149,7 +141,7 @@ async function runSearchBatch(
  * Get search tools
  */
 export const getSearchTools = (context: ToolContext): ToolDefinition[] => {
-    const { getEditor, openaiConfig } = context;
+    const { getEditor, resolveModel = resolveConfiguredModel, reportUsage, checkBudget } = context;
 
     return [
         createTool(
@@ -177,19 +169,6 @@ export const getSearchTools = (context: ToolContext): ToolDefinition[] => {
                     return 'Error: BlockNode helpers not available.';
                 }
 
-                let client: OpenAI | undefined;
-                if (openaiConfig) {
-                    try {
-                        client = new OpenAI({
-                            apiKey: openaiConfig.apiKey,
-                            baseURL: openaiConfig.baseURL,
-                            dangerouslyAllowBrowser: openaiConfig.dangerouslyAllowBrowser
-                        });
-                    } catch (e) {
-                        console.error('[semanticSearch] Failed to create OpenAI client:', e);
-                    }
-                }
-
                 const allBlocks = editor.helpers.blockNode.getBlockNodes();
                 const totalBlocks = allBlocks.length;
 
@@ -209,7 +188,9 @@ export const getSearchTools = (context: ToolContext): ToolDefinition[] => {
                     chunks.push({ startBlock: start, endBlock: end, content });
                 }
 
-                const { results, failedChunks } = await runSearchBatch(chunks, query, 5, client);
+                const { results, failedChunks, stopped } = await runSearchBatch(
+                    chunks, query, 5, await resolveModel('search'), usage => reportUsage?.('search', usage), checkBudget
+                );
 
                 // Sort by relevance
                 results.sort((a, b) => b.relevance - a.relevance);
@@ -219,6 +200,7 @@ export const getSearchTools = (context: ToolContext): ToolDefinition[] => {
                     matches: results,
                     totalMatches: results.length,
                     failedChunks,
+                    ...(stopped && { stopped: `${stopped}; only part of the document was searched` }),
                     _action: 'search_results' // Signal to UI
                 };
 
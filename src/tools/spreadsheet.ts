@@ -3,8 +3,24 @@
  * @module tools/spreadsheet
  */
 
+import { parseRangeRef } from '../lib/xlsx/conditionalFormat';
+import {
+    CellScalar,
+    findFormulaIssues,
+    FormulaSheet,
+    sheetsFromEditor,
+    sheetsFromWorkbook,
+    traceCell,
+    TraceDirection,
+} from '../lib/xlsx/formulas';
+import { decodeCell, encodeCell } from '../lib/xlsx/xml';
 import { ToolDefinition, createTool, ToolContext } from './types';
-import { findFileHandle } from './utils';
+import { buildPreview, findFileHandle } from './utils';
+
+const formatValue = (value: CellScalar | undefined): string =>
+    value === undefined || value === null ? '' : String(value);
+
+const tableCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
 
 /**
  * Get spreadsheet-specific tools for reading and modifying xlsx files
@@ -12,6 +28,18 @@ import { findFileHandle } from './utils';
 export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
     const { workspaceFiles, activeFilePath, activeFileHandle, setCellValue, addFileToWorkspace, addLoadedImageFile } = context;
 
+    // Formulas and values of the open spreadsheet: the editor's sheets, recalculated as cells change, or else the saved file
+    const loadFormulaSheets = async (): Promise<FormulaSheet[] | null> => {
+        const live = context.getSheets?.();
+        if (live && live.length > 0) return sheetsFromEditor(live);
+
+        const handle = activeFileHandle || (workspaceFiles && activeFilePath ? findFileHandle(workspaceFiles, activeFilePath) : null);
+        if (!handle) return null;
+        const XLSX = await import('xlsx-js-style');
+        const file = await handle.getFile();
+        return sheetsFromWorkbook(XLSX.read(await file.arrayBuffer(), { type: 'array' }));
+    };
+
     return [
         createTool(
             'listSpreadsheetSheets',
@@ -181,7 +209,7 @@ export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
                 properties: {
                     sheet: {
                         type: 'string',
-                        description: 'Sheet name. Defaults to first sheet.'
+                        description: 'Sheet name. Defaults to the active sheet.'
                     },
                     rowIndex: {
                         type: 'integer',
@@ -224,6 +252,27 @@ export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
                 }
 
                 return `Cleared row ${rowIndex} (${cols} columns).`;
+            },
+            async ({ sheet, rowIndex, columnCount }: { sheet?: string; rowIndex: number; columnCount?: number }) => {
+                const cols = columnCount || 26;
+                // Without a sheet name the row of the active sheet is cleared
+                const sheetName = sheet || (context.getSheets?.() as { name: string; status?: number }[] | undefined)?.find(s => s.status === 1)?.name;
+                const sheets = await loadFormulaSheets();
+                // Preview the sheet the call will clear, or nothing when it cannot be found
+                const target = sheetName ? sheets?.find(s => s.name === sheetName) : undefined;
+                if (!target) {
+                    return buildPreview(sheet ? `シート「${sheet}」が見つかりません。` : 'アクティブなシートを特定できません。');
+                }
+                const cells = [...target.cells.values()].filter(cell => cell.r === rowIndex - 1 && cell.c < cols).sort((a, b) => a.c - b.c);
+                return buildPreview(
+                    cells.length > 0
+                        ? `シート「${target.name}」の${rowIndex}行目にある${cells.length}個のセルをクリアします。`
+                        : `${rowIndex}行目にクリアする値はありません。`,
+                    cells.map(cell => ({
+                        type: 'removed',
+                        text: `${encodeCell(cell.r, cell.c)}: ${cell.formula ? `=${cell.formula.replace(/^=/, '')}` : formatValue(cell.value)}`
+                    }))
+                );
             }
         ),
 
@@ -411,6 +460,21 @@ export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
                     console.error('[createSpreadsheet] Error:', error);
                     return `Error creating spreadsheet: ${error instanceof Error ? error.message : 'Unknown error'}`;
                 }
+            },
+            async ({ filename, sheets }: {
+                filename: string;
+                sheets: Array<{ name: string; headers?: string[]; rows: Array<Array<string | number | boolean | null>> }>;
+            }) => {
+                const finalFilename = filename?.endsWith('.xlsx') ? filename : `${filename}.xlsx`;
+                const rowText = (row: Array<string | number | boolean | null>) => row.map(value => String(value ?? '')).join(' | ');
+                return buildPreview(
+                    `${sheets?.length || 0}枚のシートでファイル「${finalFilename}」を作成します。保存先は保存時に選択します。`,
+                    (sheets || []).flatMap(sheet => [
+                        { type: 'added' as const, text: `[${sheet.name}]` },
+                        ...(sheet.headers?.length ? [sheet.headers, ...sheet.rows] : sheet.rows)
+                            .map(row => ({ type: 'added' as const, text: rowText(row) }))
+                    ])
+                );
             }
         ),
         createTool(
@@ -760,7 +824,7 @@ export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
         ),
         createTool(
             'readSpreadsheet',
-            'Read a range of cells or specific cells. Output formats: "json" (detailed structure & merges), "csv" (data), "markdown" (chat-friendly). Use this to read specific data attributes or check values.',
+            'Read a range of cells or specific cells. Output formats: "json" (detailed structure & merges), "csv" (data), "markdown" (chat-friendly), "formulas" (each formula with the value it currently evaluates to). Use this to read specific data attributes or check values.',
             {
                 type: 'object',
                 properties: {
@@ -779,14 +843,14 @@ export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
                     },
                     format: {
                         type: 'string',
-                        enum: ['markdown', 'csv', 'ascii', 'json'],
-                        description: 'Output format. Defaults to "markdown". Use "json" for detailed structure/merges/styles.'
+                        enum: ['markdown', 'csv', 'ascii', 'json', 'formulas'],
+                        description: 'Output format. Defaults to "markdown". Use "json" for detailed structure/merges/styles, "formulas" to see formulas next to their computed values.'
                     }
                 },
                 required: [],
                 additionalProperties: false
             },
-            async ({ range, cells, sheet, format = 'markdown' }: { range?: string; cells?: string[]; sheet?: string; format?: 'markdown' | 'csv' | 'ascii' | 'json' }) => {
+            async ({ range, cells, sheet, format = 'markdown' }: { range?: string; cells?: string[]; sheet?: string; format?: 'markdown' | 'csv' | 'ascii' | 'json' | 'formulas' }) => {
                 // Find file handle
                 let handle: FileSystemFileHandle | null = null;
                 if (activeFileHandle) {
@@ -877,6 +941,33 @@ export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
                         }
                     }
 
+                    // --- FORMULAS MODE ---
+                    // Values come from the editor when it is open, so they reflect edits made since loading
+                    if (format === 'formulas') {
+                        const live = context.getSheets?.();
+                        const formulaSheet = (live && live.length > 0 ? sheetsFromEditor(live) : sheetsFromWorkbook(workbook))
+                            .find(s => s.name === sheetName);
+                        const addresses: string[] = [];
+                        if (cells && cells.length > 0) {
+                            addresses.push(...cells.map(cellAddr => cellAddr.toUpperCase()));
+                        } else {
+                            for (let r = startRow; r <= endRow; r++) {
+                                for (let c = startCol; c <= endCol; c++) {
+                                    if (formulaSheet?.cells.has(`${r}_${c}`)) addresses.push(XLSX.utils.encode_cell({ r, c }));
+                                }
+                            }
+                        }
+
+                        let result = `Formulas and values (${cells && cells.length > 0 ? 'Specific Cells' : rangeStr}):\n\n| Cell | Formula | Value |\n| --- | --- | --- |\n`;
+                        addresses.forEach(addr => {
+                            const position = decodeCell(addr);
+                            const cell = position ? formulaSheet?.cells.get(`${position.r}_${position.c}`) : undefined;
+                            result += `| ${addr} | ${tableCell(cell?.formula || '')} | ${tableCell(formatValue(cell?.value))} |\n`;
+                        });
+                        if (addresses.length === 0) result += '(no values in range)\n';
+                        return result;
+                    }
+
                     // --- JSON MODE ---
                     if (format === 'json') {
                         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1017,5 +1108,119 @@ export const getSpreadsheetTools = (context: ToolContext): ToolDefinition[] => {
             }
         ),
 
+        createTool(
+            'traceSpreadsheetCell',
+            'Trace the precedents of a cell (the cells its formula reads, and theirs in turn) or its dependents (the formulas that read it, and theirs in turn), across sheets. Each cell is listed with its formula and current value. Use this before changing a cell to see what it affects, or to find where a result comes from.',
+            {
+                type: 'object',
+                properties: {
+                    cell: {
+                        type: 'string',
+                        description: 'Cell to trace in A1 notation, optionally qualified by its sheet (e.g., "D12" or "Summary!B3")'
+                    },
+                    sheet: {
+                        type: 'string',
+                        description: 'Sheet name. Defaults to first sheet.'
+                    },
+                    direction: {
+                        type: 'string',
+                        enum: ['precedents', 'dependents'],
+                        description: 'Follow the cells read by the formula ("precedents") or the formulas reading the cell ("dependents"). Default: "precedents"'
+                    },
+                    depth: {
+                        type: 'integer',
+                        description: 'Number of levels to follow. Default: 3'
+                    }
+                },
+                required: ['cell'],
+                additionalProperties: false
+            },
+            async ({ cell, sheet, direction = 'precedents', depth = 3 }: { cell: string; sheet?: string; direction?: TraceDirection; depth?: number }) => {
+                const target = parseRangeRef(cell.trim());
+                if (!target || target.range.row[0] !== target.range.row[1] || target.range.column[0] !== target.range.column[1]) {
+                    return `Error: Invalid cell "${cell}". Use a single cell address (e.g., "D12" or "Summary!B3").`;
+                }
+                const r = target.range.row[0];
+                const c = target.range.column[0];
+
+                try {
+                    const sheets = await loadFormulaSheets();
+                    if (!sheets) {
+                        return 'Error: No spreadsheet file is currently open.';
+                    }
+                    const sheetName = target.sheet || sheet || sheets[0]?.name;
+                    const formulaSheet = sheets.find(s => s.name.toLowerCase() === sheetName?.toLowerCase());
+                    if (!formulaSheet) {
+                        return `Error: Sheet "${sheetName}" not found. Available: ${sheets.map(s => s.name).join(', ')}`;
+                    }
+
+                    const address = `${formulaSheet.name}!${encodeCell(r, c)}`;
+                    const own = formulaSheet.cells.get(`${r}_${c}`);
+                    const steps = traceCell(sheets, { sheet: formulaSheet.name, r, c }, direction, Math.max(1, depth));
+
+                    let result = `${direction === 'precedents' ? 'Precedents' : 'Dependents'} of ${address}`;
+                    result += own ? ` (${own.formula ? `${own.formula} → ` : ''}${formatValue(own.value)})` : ' (empty)';
+                    result += ':\n';
+                    if (steps.length === 0) {
+                        return result + (direction === 'precedents' && !own?.formula ? 'The cell holds no formula.' : 'None found.');
+                    }
+                    steps.forEach(step => {
+                        const content = step.broken
+                            ? 'broken reference'
+                            : step.formula ? `${step.formula} → ${formatValue(step.value)}` : formatValue(step.value);
+                        result += `${'  '.repeat(step.level - 1)}- ${step.ref}${content ? `: ${content}` : ''}${step.level > 1 ? ` (via ${step.from})` : ''}\n`;
+                    });
+                    return result;
+                } catch (error) {
+                    console.error('[traceSpreadsheetCell] Error:', error);
+                    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+                }
+            }
+        ),
+
+        createTool(
+            'checkSpreadsheetFormulas',
+            'Check the formulas of the whole workbook for error values (#DIV/0!, #N/A, #VALUE!...), telling the cells where an error originates from those it propagates to, #REF! left by deleted cells, references to missing sheets and circular references. Run this after editing formulas.',
+            {
+                type: 'object',
+                properties: {
+                    sheet: {
+                        type: 'string',
+                        description: 'Only report issues on this sheet. References from other sheets are still followed. Defaults to all sheets.'
+                    }
+                },
+                required: [],
+                additionalProperties: false
+            },
+            async ({ sheet }: { sheet?: string }) => {
+                try {
+                    const sheets = await loadFormulaSheets();
+                    if (!sheets) {
+                        return 'Error: No spreadsheet file is currently open.';
+                    }
+                    if (sheet && !sheets.some(s => s.name === sheet)) {
+                        return `Error: Sheet "${sheet}" not found. Available: ${sheets.map(s => s.name).join(', ')}`;
+                    }
+
+                    const issues = findFormulaIssues(sheets).filter(issue => !sheet || issue.sheet === sheet);
+                    const formulaCount = sheets
+                        .filter(s => !sheet || s.name === sheet)
+                        .reduce((count, s) => count + [...s.cells.values()].filter(c => c.formula).length, 0);
+                    if (issues.length === 0) {
+                        return `No error values, broken references or circular references found (${formulaCount} formulas checked).`;
+                    }
+
+                    let result = `Found ${issues.length} formula issue(s) in ${formulaCount} formulas:\n`;
+                    issues.forEach(issue => {
+                        result += `- [${issue.kind}] ${issue.sheet}!${issue.cell}${issue.formula ? ` ${issue.formula}` : ''}: ${issue.message}\n`;
+                    });
+                    return result;
+                } catch (error) {
+                    console.error('[checkSpreadsheetFormulas] Error:', error);
+                    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+                }
+            }
+        ),
+
     ];
 };
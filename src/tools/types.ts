@@ -1,4 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import type { SpreadsheetChart } from '@/lib/xlsx/charts';
+import type { ConditionFormatRule } from '@/lib/xlsx/conditionalFormat';
+import type { ValidationFailure } from '@/lib/xlsx/dataValidation';
+import type { EditorSheet } from '@/lib/xlsx/formulas';
+import type { ModelRole, ResolvedModel, TokenUsage } from '@/lib/ai/types';
+import type { ToolCallPreview } from '@/types';
+
 export interface ToolDefinition {
     type: 'function';
     function: {
@@ -7,13 +14,16 @@ export interface ToolDefinition {
         parameters: any;
     };
     execute: (args: any) => Promise<any>;
+    /** What a call will change, shown when the user is asked to approve it */
+    preview?: (args: any) => Promise<ToolCallPreview>;
 }
 
 export const createTool = (
     name: string,
     description: string,
     parameters: any,
-    execute: (args: any) => Promise<any>
+    execute: (args: any) => Promise<any>,
+    preview?: (args: any) => Promise<ToolCallPreview>
 ): ToolDefinition => ({
     type: 'function',
     function: {
@@ -21,7 +31,8 @@ export const createTool = (
         description,
         parameters
     },
-    execute
+    execute,
+    ...(preview && { preview })
 });
 
 export interface ToolContext {
@@ -34,16 +45,24 @@ export interface ToolContext {
     superdoc?: any;
     /** Callback for live cell updates in spreadsheets. Options can be boolean (isNumber) for backwards compat or SetCellValueOptions */
     setCellValue?: (cell: string, value: string | number, sheetName?: string, options?: boolean | { isNumber?: boolean; isFormula?: boolean; style?: Record<string, unknown> }) => void;
+    /** Callback to add a conditional formatting rule to a live spreadsheet (the active sheet by default) */
+    addConditionalFormat?: (rule: ConditionFormatRule, sheetName?: string) => boolean;
+    /** Callback to check a value against the data validation of a cell in a live spreadsheet (null when it is accepted) */
+    checkDataValidation?: (cell: string, value: string | number, sheetName?: string) => ValidationFailure | null;
+    /** Callback to add a chart to a live spreadsheet (the active sheet by default), built for that sheet's name */
+    addChart?: (createChart: (sheetName: string) => SpreadsheetChart, sheetName?: string) => boolean;
     /** Callback to open a file in the editor (switches active file) */
     openFileInEditor?: (path: string) => Promise<boolean>;
     /** Callback to add a new file to the workspace (after creating a new file) */
     addFileToWorkspace?: (handle: FileSystemFileHandle) => void;
-    /** OpenAI Configuration for sub-agents */
-    openaiConfig?: {
-        apiKey: string;
-        baseURL: string;
-        dangerouslyAllowBrowser?: boolean;
-    };
+    /** Callback to open an in-memory file (e.g. a document comparison) in a new editor tab */
+    openGeneratedFile?: (file: File) => void;
+    /** Provider and model configured for a role, used by sub-agents (the stored model settings by default) */
+    resolveModel?: (role: ModelRole) => Promise<ResolvedModel>;
+    /** Callback receiving the token usage of each sub-agent model call */
+    reportUsage?: (role: ModelRole, usage: TokenUsage) => void;
+    /** Why sub-agents must stop before their next model call (e.g. a spent token budget), or null to go on */
+    checkBudget?: () => string | null;
     /** Reference to CustomDocEditor for page layout control */
     getCustomEditorRef?: () => React.RefObject<any> | null;
     /** Callback to register a loaded PDF file_id for injection into next message */
@@ -52,4 +71,6 @@ export interface ToolContext {
     addLoadedImageFile?: (file: { file_id: string; filename: string }) => void;
     /** Callback to get the current workbook instance */
     getWorkbook?: () => any;
+    /** Callback to get the sheets of a live spreadsheet, with the values the editor last computed */
+    getSheets?: () => EditorSheet[] | undefined;
 }
@@ -1,4 +1,4 @@
-import { FileSystemItem } from '@/types';
+import { FileSystemItem, ToolCallPreview } from '@/types';
 
 // Helper to escape HTML special characters
 export const escapeHtml = (text: string): string => {
@@ -32,3 +32,14 @@ export const findFileHandle = (items: FileSystemItem[], targetPath: string): Fil
 
     return search(items, 0);
 };
+
+const MAX_PREVIEW_LINES = 30;
+
+// Preview of a tool call, with long diffs cut short
+export const buildPreview = (summary: string, lines: NonNullable<ToolCallPreview['lines']> = []): ToolCallPreview => {
+    if (lines.length <= MAX_PREVIEW_LINES) return { summary, lines };
+    return {
+        summary: `${summary}（${lines.length}行のうち${MAX_PREVIEW_LINES}行を表示）`,
+        lines: lines.slice(0, MAX_PREVIEW_LINES)
+    };
+};
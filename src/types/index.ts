@@ -1,4 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import type { ModelRole, TokenUsage } from '@/lib/ai/types';
+
 export interface AttachedSelection {
     text: string;
     fileName: string;
@@ -35,15 +37,39 @@ export interface EditorTab {
     handle?: FileSystemFileHandle;
 }
 
+/** What a tool call will change, shown to the user before approving it */
+export interface ToolCallPreview {
+    summary: string;
+    /** Diff lines: content the call adds, removes, or changes in place */
+    lines?: { type: 'added' | 'removed' | 'changed'; text: string }[];
+}
+
 export interface ToolCall {
     id: string;
     name: string;
     args: any;
     result?: any;
     status: 'success' | 'failure' | 'running';
+    /** Set for tools whose policy asks the user before running them */
+    approval?: 'pending' | 'approved' | 'denied';
+    preview?: ToolCallPreview;
+    /** Wall time of the tool's execution */
+    durationMs?: number;
     timestamp: number;
 }
 
+/** Tokens and time an agent turn used */
+export interface TurnUsage {
+    /** The main agent loop */
+    agent: TokenUsage;
+    /** Sub-agents run by tools (semanticSearch, reviewDocumentTypos) */
+    subAgents: TokenUsage;
+    modelCalls: number;
+    durationMs: number;
+    /** Price in USD of the calls whose model has pricing; absent when none has */
+    cost?: number;
+}
+
 // Search result match from semanticSearch tool
 export interface SearchMatch {
     blockIndex: number;
@@ -69,14 +95,43 @@ export interface ChatMessage {
     // Deprecated: use items instead
     toolCalls?: ToolCall[];
     reasoning?: string;
+    /** Checkpoint of the edits this assistant message made, while it can still be reverted */
+    checkpointId?: string;
+    /** The edits of this message were reverted */
+    reverted?: boolean;
+    /** Usage of the turn that wrote this assistant message */
+    usage?: TurnUsage;
     timestamp: Date;
 }
 
+/** A stored chat, listed without its messages */
+export interface ChatSessionSummary {
+    id: string;
+    title: string;
+    /** Workspace the chat belongs to (names of its root folders and files) */
+    workspace: string;
+    /** File active in the editor when the chat started */
+    filePath: string | null;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+    /** Session this one was forked from */
+    forkedFrom?: string;
+}
+
+export interface ChatSession extends ChatSessionSummary {
+    messages: ChatMessage[];
+}
+
 export type AgentEvent =
     | { type: 'tool_start', id: string, name: string, args: any, timestamp: number }
-    | { type: 'tool_result', id: string, result: any, status: 'success' | 'failure', args?: any, timestamp: number }
+    | { type: 'tool_result', id: string, result: any, status: 'success' | 'failure', args?: any, durationMs?: number, timestamp: number }
     | { type: 'content_delta', content: string, timestamp: number }
     | { type: 'reasoning_delta', content: string, timestamp: number }
+    | { type: 'tool_approval', id: string, name: string, args: any, preview?: ToolCallPreview, timestamp: number }
+    | { type: 'tool_approval_result', id: string, approved: boolean, timestamp: number }
+    | { type: 'usage', source: ModelRole, usage: TokenUsage, cost?: number, timestamp: number }
+    | { type: 'checkpoint', checkpointId: string, timestamp: number }
     | { type: 'run_completed', timestamp: number };
 
 export interface WorkspaceState {